@@ -4,11 +4,20 @@ import { useRouter } from 'next/router';
 import { 
   LayoutDashboard, 
   Package, 
+  FolderTree,
   Warehouse, 
   ShoppingCart, 
+  BadgeCheck,
+  Landmark,
   Users, 
   UserCog,
   Settings,
+  Truck,
+  RotateCcw,
+  Star,
+  ClipboardList,
+  Factory,
+  TrendingUp,
   LogOut,
   ChevronLeft,
   ChevronRight
@@ -36,16 +45,56 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle }) => {
       href: '/products',
       icon: Package,
     },
+    {
+      name: 'Categories',
+      href: '/categories',
+      icon: FolderTree,
+    },
     {
       name: 'Stock',
       href: '/stock',
       icon: Warehouse,
     },
+    {
+      name: 'Purchase Orders',
+      href: '/purchase-orders',
+      icon: ClipboardList,
+    },
+    {
+      name: 'Suppliers',
+      href: '/suppliers',
+      icon: Factory,
+    },
     {
       name: 'Orders',
       href: '/orders',
       icon: ShoppingCart,
     },
+    {
+      name: 'Payments',
+      href: '/payments',
+      icon: BadgeCheck,
+    },
+    {
+      name: 'Reconciliation',
+      href: '/reconciliation',
+      icon: Landmark,
+    },
+    {
+      name: 'Returns',
+      href: '/returns',
+      icon: RotateCcw,
+    },
+    {
+      name: 'Reviews',
+      href: '/reviews',
+      icon: Star,
+    },
+    {
+      name: 'Margins',
+      href: '/margins',
+      icon: TrendingUp,
+    },
     {
       name: 'Users',
       href: '/users',
@@ -61,6 +110,11 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle }) => {
       href: '/company-accounts',
       icon: Settings,
     },
+    {
+      name: 'Shipping Rates',
+      href: '/shipping-rates',
+      icon: Truck,
+    },
   ];
 
   const handleLogout = () => {
@@ -11,9 +11,11 @@ import {
   Clock,
   Truck,
   DollarSign,
-  Image as ImageIcon
+  Image as ImageIcon,
+  RotateCcw
 } from 'lucide-react';
 import { Order, OrderStatus } from '@/types';
+import { adminApiClient } from '@/lib/api';
 import Modal from '@/components/ui/Modal';
 import Button from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
@@ -86,159 +88,25 @@ const getStatusInfo = (status: OrderStatus) => {
   return statusConfig[status] || statusConfig.PENDING;
 };
 
-// Helper function to generate order timeline
+// Helper function to generate order timeline from the recorded status history
 const getOrderTimeline = (order: Order) => {
-  const timeline = [
-    {
-      status: 'PENDING',
-      label: 'Order Placed',
-      icon: <Clock className="h-4 w-4" />,
-      date: new Date(order.createdAt).toLocaleString(),
-      completed: true,
-      current: false
-    }
-  ];
+  const events = order.statusHistory || [];
 
-  // Only show statuses that actually occurred based on current status
-  switch (order.status) {
-    case 'PROCESSING':
-      timeline.push({
-        status: 'PROCESSING',
-        label: 'Order Confirmed',
-        icon: <CheckCircle className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: true
-      });
-      break;
-    
-    case 'ON_HOLD':
-      timeline.push({
-        status: 'PROCESSING',
-        label: 'Order Confirmed',
-        icon: <CheckCircle className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: false
-      });
-      timeline.push({
-        status: 'ON_HOLD',
-        label: 'Order On Hold',
-        icon: <Clock className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: true
-      });
-      break;
-    
-    case 'SHIPPED':
-      timeline.push({
-        status: 'PROCESSING',
-        label: 'Order Confirmed',
-        icon: <CheckCircle className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: false
-      });
-      timeline.push({
-        status: 'SHIPPED',
-        label: 'Order Shipped',
-        icon: <Truck className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: true
-      });
-      break;
-    
-    case 'DELIVERED':
-      timeline.push({
-        status: 'PROCESSING',
-        label: 'Order Confirmed',
-        icon: <CheckCircle className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: false
-      });
-      timeline.push({
-        status: 'SHIPPED',
-        label: 'Order Shipped',
-        icon: <Truck className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: false
-      });
-      timeline.push({
-        status: 'DELIVERED',
-        label: 'Order Delivered',
-        icon: <Package className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: true
-      });
-      break;
-    
-    case 'CANCELED':
-      timeline.push({
-        status: 'CANCELED',
-        label: 'Order Cancelled',
-        icon: <XCircle className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: true
-      });
-      break;
-    
-    case 'RETURNED':
-      timeline.push({
-        status: 'PROCESSING',
-        label: 'Order Confirmed',
-        icon: <CheckCircle className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: false
-      });
-      timeline.push({
-        status: 'SHIPPED',
-        label: 'Order Shipped',
-        icon: <Truck className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: false
-      });
-      timeline.push({
-        status: 'DELIVERED',
-        label: 'Order Delivered',
-        icon: <Package className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: false
-      });
-      timeline.push({
-        status: 'RETURNED',
-        label: 'Order Returned',
-        icon: <XCircle className="h-4 w-4" />,
-        date: new Date(order.updatedAt).toLocaleString(),
-        completed: true,
-        current: true
-      });
-      break;
-    
-    case 'REFUNDED':
-      // For refunded orders, show the path that led to refund
-      if (order.status === 'REFUNDED') {
-        timeline.push({
-          status: 'REFUNDED',
-          label: 'Order Refunded',
-          icon: <DollarSign className="h-4 w-4" />,
-          date: new Date(order.updatedAt).toLocaleString(),
-          completed: true,
-          current: true
-        });
-      }
-      break;
-  }
+  return events.map((event, index) => {
+    const statusInfo = getStatusInfo(event.toStatus);
+    const isCurrent = index === events.length - 1;
 
-  return timeline;
+    return {
+      status: event.toStatus,
+      label: event.fromStatus ? statusInfo.label : 'Order Placed',
+      icon: statusInfo.icon,
+      date: new Date(event.createdAt).toLocaleString(),
+      actor: event.actor ? `${event.actor.name} (${event.actor.role})` : 'System',
+      note: event.note,
+      completed: !isCurrent,
+      current: isCurrent
+    };
+  });
 };
 
 interface OrderDetailModalProps {
@@ -246,18 +114,28 @@ interface OrderDetailModalProps {
   onClose: () => void;
   order: Order | null;
   onStatusUpdate: (orderId: string, status: OrderStatus, refundData?: { amount: number; reason: string }) => void;
+  onOrderUpdated: (order: Order) => void;
 }
 
+// Mirrors the API: only orders that can move to REFUNDED, and COD orders only once cash was collected
+const canRefund = (order: Order) =>
+  order.status === 'DELIVERED' ||
+  order.status === 'RETURNED' ||
+  (order.status === 'CANCELED' && order.paymentType === 'ONLINE_TRANSFER');
+
 const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
   isOpen,
   onClose,
   order,
   onStatusUpdate,
+  onOrderUpdated,
 }) => {
   const [isUpdating, setIsUpdating] = useState(false);
   const [showRefundForm, setShowRefundForm] = useState(false);
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, string>>({});
   const [refundAmount, setRefundAmount] = useState('');
   const [refundReason, setRefundReason] = useState('');
+  const [restock, setRestock] = useState(true);
   const [refundError, setRefundError] = useState<string | null>(null);
 
   const handleStatusUpdate = async (newStatus: OrderStatus) => {
@@ -276,27 +154,61 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
     }
   };
 
+  const resetRefundForm = () => {
+    setShowRefundForm(false);
+    setRefundQuantities({});
+    setRefundAmount('');
+    setRefundReason('');
+    setRestock(true);
+    setRefundError(null);
+  };
+
   const handleRefund = async () => {
-    if (!order || !refundAmount || !refundReason) return;
-    const amountNum = parseFloat(refundAmount);
-    if (isNaN(amountNum) || amountNum <= 0 || amountNum > order.total) {
-      setRefundError(`Amount must be between 0 and ${order.total}`);
+    if (!order || !refundReason) return;
+
+    const items = order.items
+      .map(item => ({ orderItemId: item.id, quantity: parseInt(refundQuantities[item.id] || '0', 10) }))
+      .filter(item => item.quantity > 0);
+    const amountNum = refundAmount ? parseFloat(refundAmount) : undefined;
+
+    if (items.length === 0 && amountNum === undefined) {
+      setRefundError('Select items to refund or enter an amount');
       return;
     }
-    
+    if (amountNum !== undefined && (isNaN(amountNum) || amountNum <= 0)) {
+      setRefundError('Amount must be greater than 0');
+      return;
+    }
+
     setIsUpdating(true);
     try {
-      await onStatusUpdate(order.id, 'REFUNDED', {
+      const updatedOrder = await adminApiClient.createRefund(order.id, {
+        items,
         amount: amountNum,
         reason: refundReason,
+        restock,
       });
-      setShowRefundForm(false);
-      setRefundAmount('');
-      setRefundReason('');
-      setRefundError(null);
-      onClose();
-    } catch (error) {
+      onOrderUpdated(updatedOrder);
+      resetRefundForm();
+    } catch (error: any) {
       console.error('Failed to process refund:', error);
+      setRefundError(error.message || 'Failed to process refund');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleRetryRefund = async (refundId: string) => {
+    if (!order) return;
+
+    setIsUpdating(true);
+    setRefundError(null);
+    try {
+      const updatedOrder = await adminApiClient.settleRefund(order.id, refundId);
+      onOrderUpdated(updatedOrder);
+    } catch (error: any) {
+      console.error('Failed to retry refund payout:', error);
+      setRefundError(error.message || 'Failed to retry refund payout');
     } finally {
       setIsUpdating(false);
     }
@@ -476,13 +388,25 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                     />
                   </div>
                   <div className="flex-1">
-                    <h4 className="font-medium text-gray-900">{item.productName || 'Unknown Product'}</h4>
-                    <p className="text-sm text-gray-500">SKU: {item.product?.sku || 'N/A'}</p>
+                    <h4 className="font-medium text-gray-900">
+                      {item.productName || 'Unknown Product'}
+                      {item.variant && <span className="text-gray-500"> ({item.variant.label})</span>}
+                    </h4>
+                    <p className="text-sm text-gray-500">SKU: {item.variant?.sku || item.product?.sku || 'N/A'}</p>
+                    {!!item.refundedQuantity && (
+                      <p className="text-sm text-pink-600">Refunded: {item.refundedQuantity} of {item.quantity}</p>
+                    )}
                   </div>
                   <div className="text-right">
                     <p className="font-medium text-gray-900">
                       {formatCurrency(item.price)} × {item.quantity}
                     </p>
+                    {item.tierMinQuantity && (
+                      <p className="text-xs text-green-700">
+                        {item.tierPriceList === 'WHOLESALE' ? 'Wholesale' : 'Bulk'} price for {item.tierMinQuantity}+ bags
+                        {item.listPrice && <> (list {formatCurrency(item.listPrice)})</>}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-500">
                       Total: {formatCurrency(item.price * item.quantity)}
                     </p>
@@ -498,10 +422,80 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                   {formatCurrency(order.total)}
                 </span>
               </div>
+              {!!order.refundedAmount && (
+                <div className="flex justify-between items-center mt-2 text-sm">
+                  <span className="text-pink-600">Refunded</span>
+                  <span className="text-pink-600">-{formatCurrency(order.refundedAmount)}</span>
+                </div>
+              )}
             </div>
           </div>
         </Card>
 
+        {/* Refund History */}
+        {order.refunds && order.refunds.length > 0 && (
+          <Card>
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <RotateCcw className="h-5 w-5 mr-2" />
+                Refunds
+              </h3>
+            </div>
+            <div className="p-6 space-y-4">
+              {order.refunds.map(refund => (
+                <div key={refund.id} className="p-4 bg-gray-50 rounded-lg">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="font-medium text-gray-900">{formatCurrency(refund.amount)}</p>
+                      <p className="text-sm text-gray-600">{refund.reason}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-xs text-gray-500">{formatDate(refund.refundedAt)}</p>
+                      {refund.restocked && (
+                        <span className="inline-block mt-1 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700">Restocked</span>
+                      )}
+                      {refund.status !== 'SETTLED' && (
+                        <span className={`inline-block mt-1 ml-1 px-2 py-0.5 text-xs rounded-full ${
+                          refund.status === 'FAILED' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                        }`}>
+                          {refund.status === 'FAILED' ? 'Payout failed' : 'Payout pending'}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {refund.status !== 'SETTLED' && (
+                    <div className="mt-2 flex items-center justify-between">
+                      <p className="text-sm text-red-600">{refund.failureReason}</p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRetryRefund(refund.id)}
+                        loading={isUpdating}
+                        disabled={isUpdating}
+                      >
+                        Retry payout
+                      </Button>
+                    </div>
+                  )}
+                  {refund.items && refund.items.length > 0 && (
+                    <ul className="mt-2 text-sm text-gray-600">
+                      {refund.items.map(refundItem => (
+                        <li key={refundItem.orderItemId}>
+                          {order.items.find(item => item.id === refundItem.orderItemId)?.productName || 'Item'} × {refundItem.quantity}
+                          {' '}({formatCurrency(refundItem.amount)})
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              {refundError && !showRefundForm && (
+                <p className="text-sm text-red-600">{refundError}</p>
+              )}
+            </div>
+          </Card>
+        )}
+
         {/* Order Timeline */}
         <Card>
           <div className="p-6 border-b border-gray-200">
@@ -531,8 +525,11 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                       </p>
                     </div>
                     <p className="text-xs text-gray-500 mt-1">
-                      {timelineItem.date}
+                      {timelineItem.date} · {timelineItem.actor}
                     </p>
+                    {timelineItem.note && (
+                      <p className="text-sm text-gray-600 mt-1">{timelineItem.note}</p>
+                    )}
                   </div>
                 </div>
               ))}
@@ -557,24 +554,54 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Refund Amount
+                    Items to Refund
+                  </label>
+                  <div className="space-y-2">
+                    {order.items.map(item => {
+                      const remaining = item.quantity - (item.refundedQuantity || 0);
+                      return (
+                        <div key={item.id} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-900">
+                            {item.productName}{item.variant && ` (${item.variant.label})`} <span className="text-gray-500">({remaining} of {item.quantity} refundable)</span>
+                          </span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={remaining}
+                            disabled={remaining === 0}
+                            value={refundQuantities[item.id] || ''}
+                            onChange={(e) => {
+                              setRefundQuantities({ ...refundQuantities, [item.id]: e.target.value });
+                              setRefundError(null);
+                            }}
+                            placeholder="0"
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100"
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Refund Amount (optional)
                   </label>
                   <input
                     type="number"
                     step="0.01"
                     min={0}
-                    max={order.total}
+                    max={order.total - (order.refundedAmount || 0)}
                     value={refundAmount}
                     onChange={(e) => {
                       setRefundAmount(e.target.value);
                       setRefundError(null);
                     }}
-                    placeholder={order.status === 'CANCELED' ? order.total.toString() : "0.00"}
+                    placeholder="Calculated from the selected items"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                   />
-                  {refundError && (
-                    <p className="mt-1 text-sm text-red-600">{refundError}</p>
-                  )}
+                  <p className="mt-1 text-xs text-gray-500">
+                    Remaining refundable: {formatCurrency(order.total - (order.refundedAmount || 0))}
+                  </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -588,10 +615,25 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                   />
                 </div>
+                <div className="flex items-center">
+                  <input
+                    id="restock"
+                    type="checkbox"
+                    checked={restock}
+                    onChange={(e) => setRestock(e.target.checked)}
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="restock" className="ml-2 block text-sm text-gray-700">
+                    Return refunded bags to stock
+                  </label>
+                </div>
+                {refundError && (
+                  <p className="text-sm text-red-600">{refundError}</p>
+                )}
                 <div className="flex justify-end space-x-3">
                   <Button
                     variant="outline"
-                    onClick={() => setShowRefundForm(false)}
+                    onClick={resetRefundForm}
                   >
                     Cancel
                   </Button>
@@ -599,7 +641,7 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                     variant="danger"
                     onClick={handleRefund}
                     loading={isUpdating}
-                    disabled={!refundAmount || !refundReason}
+                    disabled={!refundReason}
                   >
                     Process Refund
                   </Button>
@@ -630,10 +672,8 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                 </Button>
               ))}
               
-              {/* Refund action for online payments - only for returned orders or cancelled online transfer orders */}
-              {order.paymentType === 'ONLINE_TRANSFER' && 
-               order.status !== 'REFUNDED' && 
-               (order.status === 'RETURNED' || order.status === 'CANCELED') && (
+              {/* Full or partial refunds, several per order until the total is refunded */}
+              {canRefund(order) && (
                 <Button
                   variant="danger"
                   onClick={() => setShowRefundForm(!showRefundForm)}
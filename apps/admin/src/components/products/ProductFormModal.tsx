@@ -2,13 +2,23 @@ import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { useDropzone } from 'react-dropzone';
 import { Upload, X, Plus, Trash2 } from 'lucide-react';
-import { Product, ProductFormData } from '@/types';
+import { Category, Product, ProductAttributeFormData, ProductAttributes, ProductFormData } from '@/types';
 import { adminApiClient } from '@/lib/api';
+import { getCategoryRows } from '@/utils/categories';
 import Modal from '@/components/ui/Modal';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import { cn } from '@/utils/cn';
 
+const toAttributeFormData = (attributes?: ProductAttributes): ProductAttributeFormData => ({
+  variety: attributes?.variety || '',
+  grade: attributes?.grade || '',
+  weightKg: attributes?.weightKg ? String(attributes.weightKg) : '',
+  origin: attributes?.origin || '',
+  harvestDate: attributes?.harvestDate || '',
+  packageType: attributes?.packageType || '',
+});
+
 interface ProductFormModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -25,6 +35,8 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [selectedCategoryIds, setSelectedCategoryIds] = useState<string[]>([]);
 
   const {
     register,
@@ -51,9 +63,13 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
           disabled: product.disabled,
           outOfStock: product.outOfStock,
           allowSellWithoutStock: product.allowSellWithoutStock,
+          reorderPoint: product.reorderPoint,
+          reorderQuantity: product.reorderQuantity,
+          attributes: toAttributeFormData(product.attributes),
           metadata: product.metadata || {},
         });
         setUploadedImages(product.images || []);
+        setSelectedCategoryIds(product.categories?.map(category => category.id) || []);
       } else {
         reset({
           name_en: '',
@@ -64,13 +80,30 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
           disabled: false,
           outOfStock: false,
           allowSellWithoutStock: true,
+          reorderPoint: 10,
+          reorderQuantity: 0,
+          attributes: toAttributeFormData(),
           metadata: {},
         });
         setUploadedImages([]);
+        setSelectedCategoryIds([]);
       }
     }
   }, [isOpen, product, reset]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    adminApiClient.getCategories()
+      .then(setCategories)
+      .catch((error) => console.error('Failed to load categories:', error));
+  }, [isOpen]);
+
+  const toggleCategory = (categoryId: string) => {
+    setSelectedCategoryIds(prev =>
+      prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]
+    );
+  };
+
   const onDrop = async (acceptedFiles: File[]) => {
     setIsUploading(true);
     try {
@@ -103,6 +136,7 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
       const productData = {
         ...data,
         images: uploadedImages,
+        categoryIds: selectedCategoryIds,
       };
 
       let result: Product;
@@ -316,11 +350,126 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({
           </div>
         </div>
 
+        {/* Reordering */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Input
+              {...register('reorderPoint', {
+                valueAsNumber: true,
+                min: { value: 0, message: 'Reorder point cannot be negative' }
+              })}
+              type="number"
+              label="Reorder Point"
+              placeholder="10"
+              helperText="Admins are emailed when stock falls to this many bags"
+              error={errors.reorderPoint?.message}
+            />
+          </div>
+          <div>
+            <Input
+              {...register('reorderQuantity', {
+                valueAsNumber: true,
+                min: { value: 0, message: 'Reorder quantity cannot be negative' }
+              })}
+              type="number"
+              label="Reorder Quantity"
+              placeholder="0"
+              helperText="Bags usually ordered from the supplier"
+              error={errors.reorderQuantity?.message}
+            />
+          </div>
+        </div>
+
+        {/* Rice Attributes */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">
+            Rice Attributes
+          </label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              {...register('attributes.variety', {
+                maxLength: { value: 100, message: 'Variety must be less than 100 characters' }
+              })}
+              label="Variety"
+              placeholder="Jasmine"
+              error={errors.attributes?.variety?.message}
+            />
+            <Input
+              {...register('attributes.grade', {
+                maxLength: { value: 100, message: 'Grade must be less than 100 characters' }
+              })}
+              label="Grade"
+              placeholder="Premium"
+              error={errors.attributes?.grade?.message}
+            />
+            <Input
+              {...register('attributes.weightKg', {
+                validate: (value) =>
+                  !value || (Number(value) > 0 && Number(value) <= 1000) || 'Weight must be between 0 and 1000 kg'
+              })}
+              type="number"
+              step="0.01"
+              label="Bag Weight (kg)"
+              placeholder="5"
+              helperText="Used for shipping weight"
+              error={errors.attributes?.weightKg?.message}
+            />
+            <Input
+              {...register('attributes.origin', {
+                maxLength: { value: 100, message: 'Origin must be less than 100 characters' }
+              })}
+              label="Origin"
+              placeholder="Ayeyarwady"
+              error={errors.attributes?.origin?.message}
+            />
+            <Input
+              {...register('attributes.harvestDate')}
+              type="date"
+              label="Harvest Date"
+              error={errors.attributes?.harvestDate?.message}
+            />
+            <Input
+              {...register('attributes.packageType', {
+                maxLength: { value: 100, message: 'Package type must be less than 100 characters' }
+              })}
+              label="Package Type"
+              placeholder="Plastic Bag"
+              error={errors.attributes?.packageType?.message}
+            />
+          </div>
+        </div>
+
+        {/* Categories */}
+        {categories.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Categories
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-48 overflow-y-auto border border-gray-200 rounded-md p-3">
+              {getCategoryRows(categories).map(category => (
+                <label
+                  key={category.id}
+                  className="flex items-center text-sm text-gray-900"
+                  style={{ paddingLeft: `${category.depth * 1.25}rem` }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedCategoryIds.includes(category.id)}
+                    onChange={() => toggleCategory(category.id)}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+                  />
+                  {category.name_en}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Metadata Fields */}
         <div>
           <div className="flex items-center justify-between mb-3">
             <label className="block text-sm font-medium text-gray-700">
-              Product Metadata (e.g., variety, weight, grade)
+              Other Details (e.g., cooking tips)
             </label>
             <Button
               type="button"
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, CheckCircle, AlertTriangle } from 'lucide-react';
+import { ProductImportSummary } from '@/types';
+import { adminApiClient } from '@/lib/api';
+import Modal from '@/components/ui/Modal';
+import Button from '@/components/ui/Button';
+
+interface ProductImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (summary: ProductImportSummary) => void;
+}
+
+const COLUMN_HELP = 'sku, name_en, name_my, description_en, description_my, price, disabled, outOfStock, allowSellWithoutStock, reorderPoint, reorderQuantity, variety, weightKg, grade, origin, harvestDate, packageType';
+
+const ProductImportModal: React.FC<ProductImportModalProps> = ({
+  isOpen,
+  onClose,
+  onSuccess,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ProductImportSummary | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setPreview(null);
+    setError(null);
+  };
+
+  // Every import is checked with a dry run first so nothing is written from a bad file
+  const handleCheck = async () => {
+    if (!file) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      setPreview(await adminApiClient.importProducts(file, true));
+    } catch (e: any) {
+      setError(e.message || 'Failed to check file');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const summary = await adminApiClient.importProducts(file, false);
+      reset();
+      onSuccess(summary);
+    } catch (e: any) {
+      setError(e.message || 'Failed to import products');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const canImport = !!preview && preview.errors.length === 0 && preview.created + preview.updated > 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import Products"
+      size="xl"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Upload a CSV or XLSX file in the export format. Rows are matched by SKU: existing products are updated and
+          new SKUs are created. Blank cells keep the current value.
+        </p>
+        <p className="text-xs text-gray-500">Columns: {COLUMN_HELP}</p>
+
+        <div className="flex items-center space-x-3">
+          <label className="flex-1 flex items-center px-3 py-2 border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+            <FileSpreadsheet className="h-4 w-4 mr-2 text-gray-500" />
+            <span className="text-sm text-gray-700 truncate">{file ? file.name : 'Choose a .csv or .xlsx file'}</span>
+            <input type="file" accept=".csv,.xlsx" onChange={handleFileChange} className="hidden" />
+          </label>
+          <Button type="button" variant="outline" onClick={handleCheck} disabled={!file} loading={isChecking}>
+            Check File
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{error}</div>
+        )}
+
+        {preview && (
+          preview.errors.length > 0 ? (
+            <div className="space-y-2">
+              <div className="flex items-center text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                {preview.errors.length} problem(s) found. Fix the file and check it again.
+              </div>
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Column</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {preview.errors.map((rowError, index) => (
+                      <tr key={index}>
+                        <td className="px-3 py-2 text-sm text-gray-900">{rowError.row}</td>
+                        <td className="px-3 py-2 text-sm font-mono text-gray-900">{rowError.sku || '-'}</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">{rowError.column || '-'}</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">{rowError.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center p-3 rounded bg-green-50 text-green-700 border border-green-200 text-sm">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Ready to import: {preview.created} new and {preview.updated} updated products.
+            </div>
+          )
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={!canImport} loading={isImporting}>
+            Import
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ProductImportModal;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { PriceList, PriceTier, Product } from '@/types';
+import { adminApiClient } from '@/lib/api';
+import Modal from '@/components/ui/Modal';
+import Button from '@/components/ui/Button';
+
+interface ProductPriceTiersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: Product | null;
+}
+
+// Form inputs are strings; they are converted when saved
+interface TierRow {
+  priceList: PriceList;
+  minQuantity: string;
+  price: string;
+}
+
+const priceListLabels: Record<PriceList, string> = {
+  RETAIL: 'Retail',
+  WHOLESALE: 'Wholesale',
+};
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const toRows = (tiers: PriceTier[], variantId: string | null): TierRow[] =>
+  tiers
+    .filter(tier => tier.variantId === variantId)
+    .map(tier => ({ priceList: tier.priceList, minQuantity: String(tier.minQuantity), price: String(tier.price) }));
+
+const ProductPriceTiersModal: React.FC<ProductPriceTiersModalProps> = ({
+  isOpen,
+  onClose,
+  product,
+}) => {
+  const [tiers, setTiers] = useState<PriceTier[]>([]);
+  const [variantId, setVariantId] = useState<string | null>(null);
+  const [rows, setRows] = useState<TierRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const variants = product?.variants || [];
+
+  useEffect(() => {
+    if (!isOpen || !product) return;
+    const firstVariantId = product.variants?.[0]?.id || null;
+    setIsLoading(true);
+    setError(null);
+    setSaved(false);
+    setVariantId(firstVariantId);
+    adminApiClient.getPriceTiers(product.id)
+      .then(loaded => {
+        setTiers(loaded);
+        setRows(toRows(loaded, firstVariantId));
+      })
+      .catch((e: any) => setError(e.message || 'Failed to load price tiers'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, product]);
+
+  const selectVariant = (id: string) => {
+    setVariantId(id);
+    setRows(toRows(tiers, id));
+    setSaved(false);
+  };
+
+  const updateRow = (index: number, changes: Partial<TierRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const updated = await adminApiClient.replacePriceTiers(product.id, variantId, rows.map(row => ({
+        priceList: row.priceList,
+        minQuantity: parseInt(row.minQuantity, 10),
+        price: parseFloat(row.price),
+      })));
+      setTiers([...tiers.filter(tier => tier.variantId !== variantId), ...updated]);
+      setRows(toRows(updated, variantId));
+      setSaved(true);
+    } catch (e: any) {
+      setError(e.message || 'Failed to save price tiers');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={product ? `Quantity Pricing - ${product.name_en}` : 'Quantity Pricing'}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Lines of at least the given number of bags pay the tier price per bag. Retail tiers apply to every customer;
+          customers marked as wholesale buy from the wholesale tiers instead, which can start at one bag. A sale price
+          that is lower than a tier still wins.
+        </p>
+
+        {error && (
+          <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{error}</div>
+        )}
+        {saved && (
+          <div className="p-3 rounded bg-green-50 text-green-700 border border-green-200 text-sm">Price tiers saved</div>
+        )}
+
+        {variants.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Size</label>
+            <select
+              value={variantId || ''}
+              onChange={(e) => selectVariant(e.target.value)}
+              className={inputClassName}
+            >
+              {variants.map(variant => (
+                <option key={variant.id} value={variant.id}>
+                  {variant.label} ({variant.price.toLocaleString()} MMK)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-gray-500">Loading...</div>
+        ) : (
+          <div className="space-y-2">
+            {rows.length === 0 && (
+              <div className="text-sm text-gray-500">Every quantity pays the regular price.</div>
+            )}
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-3 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Price List</label>
+                  <select
+                    value={row.priceList}
+                    onChange={(e) => updateRow(index, { priceList: e.target.value as PriceList })}
+                    className={inputClassName}
+                  >
+                    {(Object.keys(priceListLabels) as PriceList[]).map(priceList => (
+                      <option key={priceList} value={priceList}>{priceListLabels[priceList]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From (bags)</label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={row.minQuantity}
+                    onChange={(e) => updateRow(index, { minQuantity: e.target.value })}
+                    required
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Price per Bag (MMK)</label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={row.price}
+                    onChange={(e) => updateRow(index, { price: e.target.value })}
+                    required
+                    className={inputClassName}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                  className="p-2 text-red-600 hover:text-red-900"
+                  title="Remove tier"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setRows([...rows, { priceList: 'RETAIL', minQuantity: '', price: '' }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Tier
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+          <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+          <Button type="submit" loading={isSubmitting} disabled={isLoading}>Save Tiers</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ProductPriceTiersModal;
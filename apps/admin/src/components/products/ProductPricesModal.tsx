@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { EffectivePrice, PriceKind, PriceStatus, Product, ProductPrice, ProductPriceOverview } from '@/types';
+import { adminApiClient } from '@/lib/api';
+import Modal from '@/components/ui/Modal';
+import Button from '@/components/ui/Button';
+
+interface ProductPricesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: Product | null;
+  onChange: () => void;
+}
+
+// Form inputs are strings; they are converted when saved
+interface PriceFormState {
+  kind: PriceKind;
+  variantId: string;
+  price: string;
+  startsAt: string; // datetime-local value; empty means now
+  endsAt: string;
+  note: string;
+}
+
+const emptyForm: PriceFormState = { kind: 'REGULAR', variantId: '', price: '', startsAt: '', endsAt: '', note: '' };
+
+const statusLabels: Record<PriceStatus, string> = {
+  scheduled: 'Scheduled',
+  active: 'In effect',
+  ended: 'Ended',
+};
+
+const statusColors: Record<PriceStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  ended: 'bg-gray-100 text-gray-600',
+};
+
+const formatPrice = (amount: number) => `${amount.toLocaleString()} MMK`;
+const formatDateTime = (date: string) => new Date(date).toLocaleString();
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const ProductPricesModal: React.FC<ProductPricesModalProps> = ({
+  isOpen,
+  onClose,
+  product,
+  onChange,
+}) => {
+  const [overview, setOverview] = useState<ProductPriceOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<PriceFormState>(emptyForm);
+
+  const loadPrices = async (productId: string) => {
+    setIsLoading(true);
+    try {
+      setOverview(await adminApiClient.getProductPrices(productId));
+    } catch (e: any) {
+      setError(e.message || 'Failed to load prices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen || !product) return;
+    setError(null);
+    setFormData(emptyForm);
+    loadPrices(product.id);
+  }, [isOpen, product]);
+
+  const variants = overview?.current.variants || [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await adminApiClient.createProductPrice(product.id, {
+        kind: formData.kind,
+        price: parseFloat(formData.price),
+        variantId: formData.variantId || null,
+        startsAt: formData.startsAt ? new Date(formData.startsAt).toISOString() : null,
+        endsAt: formData.kind === 'SALE' && formData.endsAt ? new Date(formData.endsAt).toISOString() : null,
+        note: formData.note || undefined,
+      });
+      setFormData({ ...emptyForm, variantId: formData.variantId });
+      await loadPrices(product.id);
+      onChange();
+    } catch (e: any) {
+      setError(e.message || 'Failed to save price');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (entry: ProductPrice) => {
+    if (!product) return;
+    const question = entry.status === 'active' ? 'End this sale now?' : 'Cancel this scheduled price?';
+    if (!confirm(question)) return;
+    try {
+      await adminApiClient.deleteProductPrice(product.id, entry.id);
+      await loadPrices(product.id);
+      onChange();
+    } catch (e: any) {
+      setError(e.message || 'Failed to cancel price');
+    }
+  };
+
+  const renderCurrent = (label: string | null, current: EffectivePrice) => (
+    <span>
+      {label && <span className="font-medium">{label}: </span>}
+      {formatPrice(current.price)}
+      {current.compareAtPrice !== null && (
+        <span className="ml-1 text-gray-500">
+          (<span className="line-through">{formatPrice(current.compareAtPrice)}</span>
+          {current.saleEndsAt && <> until {formatDateTime(current.saleEndsAt)}</>})
+        </span>
+      )}
+    </span>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={product ? `Prices - ${product.name_en}` : 'Prices'}
+      size="xl"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Every price change is kept here. Schedule a new regular price from a future date, or a sale price between two
+          dates; customers see the regular price struck through while a sale runs, and orders are charged the price in
+          effect when they are placed.
+        </p>
+
+        {error && (
+          <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{error}</div>
+        )}
+
+        {isLoading && !overview ? (
+          <div className="text-gray-500">Loading...</div>
+        ) : overview && (
+          <>
+            <div className="text-sm text-gray-900 space-y-1">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Current price</p>
+              {variants.length === 0 ? (
+                <p>{renderCurrent(null, overview.current)}</p>
+              ) : (
+                variants.map(variant => (
+                  <p key={variant.id}>{renderCurrent(variant.label, variant)}</p>
+                ))
+              )}
+            </div>
+
+            {overview.prices.length === 0 ? (
+              <div className="text-sm text-gray-500">No price changes have been recorded yet.</div>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 rounded max-h-80">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                      {variants.length > 0 && (
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+                      )}
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Until</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+                      <th className="px-3 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {overview.prices.map(entry => (
+                      <tr key={entry.id} className={entry.status === 'ended' ? 'text-gray-400' : 'text-gray-900'}>
+                        <td className="px-3 py-2 text-sm whitespace-nowrap">
+                          {formatPrice(entry.price)}
+                          {entry.kind === 'SALE' && <span className="ml-2 text-xs font-medium text-red-600">Sale</span>}
+                        </td>
+                        {variants.length > 0 && (
+                          <td className="px-3 py-2 text-sm">{entry.variantLabel || '-'}</td>
+                        )}
+                        <td className="px-3 py-2 text-sm whitespace-nowrap">{formatDateTime(entry.startsAt)}</td>
+                        <td className="px-3 py-2 text-sm whitespace-nowrap">{entry.endsAt ? formatDateTime(entry.endsAt) : '-'}</td>
+                        <td className="px-3 py-2 text-sm">
+                          <span className={`px-2 py-1 text-xs rounded-full ${statusColors[entry.status]}`}>
+                            {statusLabels[entry.status]}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          {entry.note || '-'}
+                          {entry.createdBy && <span className="block text-xs text-gray-500">by {entry.createdBy}</span>}
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          {(entry.status === 'scheduled' || (entry.status === 'active' && entry.kind === 'SALE')) && (
+                            <button
+                              type="button"
+                              onClick={() => handleCancel(entry)}
+                              className="text-red-600 hover:text-red-900"
+                              title={entry.status === 'active' ? 'End sale' : 'Cancel'}
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3 pt-4 border-t border-gray-200">
+          <h4 className="text-sm font-medium text-gray-900">
+            {formData.kind === 'SALE' ? 'Schedule Sale' : 'Change Price'}
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={formData.kind}
+                onChange={(e) => setFormData({ ...formData, kind: e.target.value as PriceKind })}
+                className={inputClassName}
+              >
+                <option value="REGULAR">Regular price</option>
+                <option value="SALE">Sale price</option>
+              </select>
+            </div>
+            {variants.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Size</label>
+                <select
+                  value={formData.variantId}
+                  onChange={(e) => setFormData({ ...formData, variantId: e.target.value })}
+                  required
+                  className={inputClassName}
+                >
+                  <option value="">Choose a size</option>
+                  {variants.map(variant => (
+                    <option key={variant.id} value={variant.id}>{variant.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Price (MMK)</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={formData.price}
+                onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+              <input
+                type="datetime-local"
+                value={formData.startsAt}
+                onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave empty to start now</p>
+            </div>
+            {formData.kind === 'SALE' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                <input
+                  type="datetime-local"
+                  value={formData.endsAt}
+                  onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <input
+                type="text"
+                value={formData.note}
+                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                maxLength={200}
+                placeholder="Thingyan sale"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" loading={isSubmitting}>
+              {formData.kind === 'SALE' ? 'Schedule Sale' : formData.startsAt ? 'Schedule Price' : 'Change Price'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
+
+export default ProductPricesModal;
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { Edit, Trash2, Eye, EyeOff } from 'lucide-react';
+import { Product, ProductVariant } from '@/types';
+import { adminApiClient } from '@/lib/api';
+import Modal from '@/components/ui/Modal';
+import Button from '@/components/ui/Button';
+
+interface ProductVariantsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: Product | null;
+  onChange: (productId: string, variants: ProductVariant[]) => void;
+}
+
+// Form inputs are strings; they are converted when saved
+interface VariantFormState {
+  label: string;
+  sku: string;
+  price: string;
+  weightKg: string;
+}
+
+const emptyForm: VariantFormState = { label: '', sku: '', price: '', weightKg: '' };
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const ProductVariantsModal: React.FC<ProductVariantsModalProps> = ({
+  isOpen,
+  onClose,
+  product,
+  onChange,
+}) => {
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ProductVariant | null>(null);
+  const [formData, setFormData] = useState<VariantFormState>(emptyForm);
+
+  useEffect(() => {
+    if (!isOpen || !product) return;
+    setIsLoading(true);
+    setError(null);
+    setEditing(null);
+    setFormData(emptyForm);
+    adminApiClient.getProductVariants(product.id)
+      .then(setVariants)
+      .catch((e: any) => setError(e.message || 'Failed to load sizes'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, product]);
+
+  const updateVariants = (next: ProductVariant[]) => {
+    setVariants(next);
+    if (product) onChange(product.id, next);
+  };
+
+  const openEdit = (variant: ProductVariant) => {
+    setEditing(variant);
+    setFormData({
+      label: variant.label,
+      sku: variant.sku || '',
+      price: String(variant.price),
+      weightKg: variant.weightKg === null ? '' : String(variant.weightKg),
+    });
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditing(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+    setIsSubmitting(true);
+    setError(null);
+    const data = {
+      label: formData.label,
+      sku: formData.sku,
+      price: parseFloat(formData.price),
+      weightKg: formData.weightKg ? parseFloat(formData.weightKg) : null,
+    };
+    try {
+      if (editing) {
+        const updated = await adminApiClient.updateProductVariant(product.id, editing.id, data);
+        updateVariants(variants.map(v => v.id === updated.id ? updated : v));
+      } else {
+        const created = await adminApiClient.createProductVariant(product.id, data);
+        updateVariants([...variants, created]);
+      }
+      resetForm();
+    } catch (e: any) {
+      setError(e.message || 'Failed to save size');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleDisabled = async (variant: ProductVariant) => {
+    if (!product) return;
+    try {
+      const updated = await adminApiClient.updateProductVariant(product.id, variant.id, { disabled: !variant.disabled });
+      updateVariants(variants.map(v => v.id === updated.id ? updated : v));
+    } catch (e: any) {
+      setError(e.message || 'Failed to update size');
+    }
+  };
+
+  const handleDelete = async (variant: ProductVariant) => {
+    if (!product || !confirm(`Delete the ${variant.label} size?`)) return;
+    try {
+      await adminApiClient.deleteProductVariant(product.id, variant.id);
+      updateVariants(variants.filter(v => v.id !== variant.id));
+    } catch (e: any) {
+      setError(e.message || 'Failed to delete size');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={product ? `Sizes - ${product.name_en}` : 'Sizes'}
+      size="xl"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Sell this rice in several bag sizes, each with its own SKU, price and stock. The first size added takes over
+          the product&apos;s current stock and order history; after that, stock is recorded per size.
+        </p>
+
+        {error && (
+          <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="text-gray-500">Loading...</div>
+        ) : variants.length === 0 ? (
+          <div className="text-sm text-gray-500">This product is sold in one size only.</div>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {variants.map(variant => (
+                  <tr key={variant.id} className={variant.disabled ? 'text-gray-400' : 'text-gray-900'}>
+                    <td className="px-3 py-2 text-sm">
+                      {variant.label}
+                      {variant.disabled && <span className="ml-2 text-xs">(hidden)</span>}
+                    </td>
+                    <td className="px-3 py-2 text-sm font-mono">{variant.sku || '-'}</td>
+                    <td className="px-3 py-2 text-sm">{variant.price.toLocaleString()} MMK</td>
+                    <td className="px-3 py-2 text-sm">
+                      {variant.stockOnHand}
+                      {!!variant.reserved && <span className="text-gray-500"> ({variant.reserved} reserved)</span>}
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      <div className="flex items-center space-x-2">
+                        <button type="button" onClick={() => openEdit(variant)} className="text-green-600 hover:text-green-900">
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button type="button" onClick={() => handleToggleDisabled(variant)} className="text-gray-600 hover:text-gray-900">
+                          {variant.disabled ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                        </button>
+                        {!variant.hasHistory && (
+                          <button type="button" onClick={() => handleDelete(variant)} className="text-red-600 hover:text-red-900">
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3 pt-4 border-t border-gray-200">
+          <h4 className="text-sm font-medium text-gray-900">{editing ? `Edit ${editing.label}` : 'Add Size'}</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+              <input
+                type="text"
+                value={formData.label}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                required
+                placeholder="25 kg"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Weight (kg)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.weightKg}
+                onChange={(e) => setFormData({ ...formData, weightKg: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Price (MMK)</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={formData.price}
+                onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">SKU</label>
+              <input
+                type="text"
+                value={formData.sku}
+                onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>Cancel Edit</Button>
+            )}
+            <Button type="submit" loading={isSubmitting}>
+              {editing ? 'Update Size' : 'Add Size'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
+
+export default ProductVariantsModal;
@@ -4,8 +4,20 @@ import {
   PaginatedResponse, 
   Product, 
   ProductFormData,
+  ProductImportSummary,
+  ProductSpreadsheetFormat,
+  ProductVariant,
+  ProductVariantFormData,
+  ProductPriceFormData,
+  ProductPrice,
+  ProductPriceOverview,
+  PriceTier,
+  PriceTierFormData,
+  Category,
+  CategoryFormData,
   StockEntry,
   StockFormData,
+  StockFilters,
   InventorySummary,
   Order, 
   User,
@@ -13,6 +25,28 @@ import {
   DashboardMetrics,
   BankAccount,
   BankAccountFormData,
+  CreateRefundData,
+  ShippingRate,
+  ShippingRateFormData,
+  Supplier,
+  SupplierFormData,
+  PurchaseOrder,
+  PurchaseOrderFormData,
+  PurchaseOrderReceipt,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderData,
+  ReturnRequest,
+  ReturnRequestStatus,
+  ReceiveReturnData,
+  Review,
+  ReviewStatus,
+  PaymentQueue,
+  BulkPaymentResult,
+  BankStatement,
+  BankStatementDetail,
+  BankStatementLine,
+  MarginReport,
+  MarginReportFilters,
   OrderFilters,
   ProductFilters,
   UserFilters
@@ -184,8 +218,191 @@ class AdminApiClient {
     }
   }
 
+  async importProducts(file: File, dryRun: boolean): Promise<ProductImportSummary> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: ProductImportSummary; message?: string }> =
+        await this.client.post('/api/admin/products/import', formData, {
+          params: { dryRun },
+          headers: {
+            'Content-Type': 'multipart/form-data',
+          },
+        });
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to import products');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to import products');
+    }
+  }
+
+  async exportProducts(format: ProductSpreadsheetFormat): Promise<Blob> {
+    const response: AxiosResponse<Blob> = await this.client.get('/api/admin/products/export', {
+      params: { format },
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  // Product variant (size) endpoints
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    const response: AxiosResponse<{ success: boolean; data: ProductVariant[]; message?: string }> =
+      await this.client.get(`/api/admin/products/${productId}/variants`);
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch sizes');
+  }
+
+  async createProductVariant(productId: string, data: ProductVariantFormData): Promise<ProductVariant> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: ProductVariant; message?: string }> =
+        await this.client.post(`/api/admin/products/${productId}/variants`, data);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to create size');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to create size');
+    }
+  }
+
+  async updateProductVariant(productId: string, variantId: string, data: Partial<ProductVariantFormData>): Promise<ProductVariant> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: ProductVariant; message?: string }> =
+        await this.client.put(`/api/admin/products/${productId}/variants/${variantId}`, data);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to update size');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to update size');
+    }
+  }
+
+  async deleteProductVariant(productId: string, variantId: string): Promise<void> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message?: string }> =
+        await this.client.delete(`/api/admin/products/${productId}/variants/${variantId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to delete size');
+      }
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to delete size');
+    }
+  }
+
+  // Product price history endpoints
+  async getProductPrices(productId: string): Promise<ProductPriceOverview> {
+    const response: AxiosResponse<{ success: boolean; data: ProductPriceOverview; message?: string }> =
+      await this.client.get(`/api/admin/products/${productId}/prices`);
+    if (response.data.success) {
+      return response.data.data;
+    }
+    throw new Error(response.data.message || 'Failed to fetch prices');
+  }
+
+  async createProductPrice(productId: string, data: ProductPriceFormData): Promise<ProductPrice> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: ProductPrice; message?: string }> =
+        await this.client.post(`/api/admin/products/${productId}/prices`, data);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to save price');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to save price');
+    }
+  }
+
+  async deleteProductPrice(productId: string, priceId: string): Promise<void> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message?: string }> =
+        await this.client.delete(`/api/admin/products/${productId}/prices/${priceId}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to cancel price');
+      }
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to cancel price');
+    }
+  }
+
+  // Quantity price tier endpoints
+  async getPriceTiers(productId: string): Promise<PriceTier[]> {
+    const response: AxiosResponse<{ success: boolean; data: PriceTier[]; message?: string }> =
+      await this.client.get(`/api/admin/products/${productId}/price-tiers`);
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch price tiers');
+  }
+
+  async replacePriceTiers(productId: string, variantId: string | null, tiers: PriceTierFormData[]): Promise<PriceTier[]> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: PriceTier[]; message?: string }> =
+        await this.client.put(`/api/admin/products/${productId}/price-tiers`, { variantId, tiers });
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to save price tiers');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to save price tiers');
+    }
+  }
+
+  // Category endpoints
+  async getCategories(): Promise<Category[]> {
+    const response: AxiosResponse<{ success: boolean; data: Category[]; message?: string }> =
+      await this.client.get('/api/admin/categories');
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch categories');
+  }
+
+  async createCategory(data: CategoryFormData): Promise<Category> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: Category; message?: string }> =
+        await this.client.post('/api/admin/categories', data);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to create category');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to create category');
+    }
+  }
+
+  async updateCategory(id: string, data: Partial<CategoryFormData>): Promise<Category> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: Category; message?: string }> =
+        await this.client.put(`/api/admin/categories/${id}`, data);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to update category');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to update category');
+    }
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message?: string }> =
+        await this.client.delete(`/api/admin/categories/${id}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to delete category');
+      }
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to delete category');
+    }
+  }
+
   // Stock endpoints
-  async getStockEntries(params?: { page?: number; limit?: number; productId?: string }): Promise<PaginatedResponse<StockEntry>> {
+  async getStockEntries(params?: { page?: number; limit?: number } & StockFilters): Promise<PaginatedResponse<StockEntry>> {
     const response: AxiosResponse<{
       success: boolean;
       data: StockEntry[];
@@ -251,6 +468,34 @@ class AdminApiClient {
     throw new Error(response.data.error || 'Failed to update order status');
   }
 
+  async createRefund(orderId: string, data: CreateRefundData): Promise<Order> {
+    try {
+      const response: AxiosResponse<ApiResponse<{ order: Order }>> =
+        await this.client.post(`/api/admin/orders/${orderId}/refunds`, data);
+
+      if (response.data.success) {
+        return response.data.data!.order;
+      }
+      throw new Error(response.data.error || 'Failed to create refund');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || error.message || 'Failed to create refund');
+    }
+  }
+
+  async settleRefund(orderId: string, refundId: string): Promise<Order> {
+    try {
+      const response: AxiosResponse<ApiResponse<{ order: Order }>> =
+        await this.client.post(`/api/admin/orders/${orderId}/refunds/${refundId}/settle`);
+
+      if (response.data.success) {
+        return response.data.data!.order;
+      }
+      throw new Error(response.data.error || 'Failed to settle refund');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || error.message || 'Failed to settle refund');
+    }
+  }
+
   // User endpoints
   async getUsers(params?: UserFilters & { page?: number; limit?: number }): Promise<{ data: User[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
     const response: AxiosResponse<{ success: boolean; data: User[]; pagination: any; error?: string }> = 
@@ -368,6 +613,324 @@ class AdminApiClient {
     }
   }
 
+  // Shipping rate endpoints
+  async getShippingRates(): Promise<ShippingRate[]> {
+    const response: AxiosResponse<{ success: boolean; data: ShippingRate[]; count: number; message?: string }> =
+      await this.client.get('/api/admin/shipping-rates');
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch shipping rates');
+  }
+
+  async createShippingRate(data: ShippingRateFormData): Promise<ShippingRate> {
+    const response: AxiosResponse<{ success: boolean; data?: ShippingRate; message?: string }> =
+      await this.client.post('/api/admin/shipping-rates', data);
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+    throw new Error(response.data.message || 'Failed to create shipping rate');
+  }
+
+  async updateShippingRate(id: string, data: Partial<ShippingRateFormData>): Promise<ShippingRate> {
+    const response: AxiosResponse<{ success: boolean; data?: ShippingRate; message?: string }> =
+      await this.client.patch(`/api/admin/shipping-rates/${id}`, data);
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+    throw new Error(response.data.message || 'Failed to update shipping rate');
+  }
+
+  async deleteShippingRate(id: string): Promise<void> {
+    const response: AxiosResponse<{ success: boolean; message?: string }> =
+      await this.client.delete(`/api/admin/shipping-rates/${id}`);
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to delete shipping rate');
+    }
+  }
+
+  // Supplier endpoints
+  async getSuppliers(params?: { isActive?: boolean; search?: string }): Promise<Supplier[]> {
+    const response: AxiosResponse<{ success: boolean; data: Supplier[]; count: number; message?: string }> =
+      await this.client.get('/api/admin/suppliers', { params });
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch suppliers');
+  }
+
+  async createSupplier(data: SupplierFormData): Promise<Supplier> {
+    return this.sendPurchasing<Supplier>('post', '/api/admin/suppliers', data, 'Failed to create supplier');
+  }
+
+  async updateSupplier(id: string, data: Partial<SupplierFormData>): Promise<Supplier> {
+    return this.sendPurchasing<Supplier>('patch', `/api/admin/suppliers/${id}`, data, 'Failed to update supplier');
+  }
+
+  async deleteSupplier(id: string): Promise<void> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message?: string }> =
+        await this.client.delete(`/api/admin/suppliers/${id}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to delete supplier');
+      }
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to delete supplier');
+    }
+  }
+
+  // Purchase order endpoints
+  async getPurchaseOrders(params?: { status?: PurchaseOrderStatus | 'open' | 'all'; supplierId?: string }): Promise<PurchaseOrder[]> {
+    const response: AxiosResponse<{ success: boolean; data: PurchaseOrder[]; count: number; message?: string }> =
+      await this.client.get('/api/admin/purchase-orders', { params });
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch purchase orders');
+  }
+
+  async getPurchaseOrderReceipts(params?: { page?: number; limit?: number; supplierId?: string }): Promise<PaginatedResponse<PurchaseOrderReceipt>> {
+    const response: AxiosResponse<{
+      success: boolean;
+      data: PurchaseOrderReceipt[];
+      pagination: any;
+      message?: string;
+    }> = await this.client.get('/api/admin/purchase-orders/receipts', { params });
+    if (response.data.success) {
+      return {
+        success: true,
+        data: response.data.data,
+        pagination: response.data.pagination,
+      };
+    }
+    throw new Error(response.data.message || 'Failed to fetch receiving history');
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    const response: AxiosResponse<{ success: boolean; data?: PurchaseOrder; message?: string }> =
+      await this.client.get(`/api/admin/purchase-orders/${id}`);
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+    throw new Error(response.data.message || 'Failed to fetch purchase order');
+  }
+
+  async createPurchaseOrder(data: PurchaseOrderFormData): Promise<PurchaseOrder> {
+    return this.sendPurchasing<PurchaseOrder>('post', '/api/admin/purchase-orders', data, 'Failed to create purchase order');
+  }
+
+  async updatePurchaseOrder(id: string, data: Partial<PurchaseOrderFormData>): Promise<PurchaseOrder> {
+    return this.sendPurchasing<PurchaseOrder>('patch', `/api/admin/purchase-orders/${id}`, data, 'Failed to update purchase order');
+  }
+
+  async placePurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return this.sendPurchasing<PurchaseOrder>('patch', `/api/admin/purchase-orders/${id}/order`, {}, 'Failed to place purchase order');
+  }
+
+  async receivePurchaseOrder(id: string, data: ReceivePurchaseOrderData): Promise<PurchaseOrder> {
+    return this.sendPurchasing<PurchaseOrder>('post', `/api/admin/purchase-orders/${id}/receive`, data, 'Failed to receive delivery');
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message?: string }> =
+        await this.client.delete(`/api/admin/purchase-orders/${id}`);
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to delete purchase order');
+      }
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to delete purchase order');
+    }
+  }
+
+  private async sendPurchasing<T>(method: 'post' | 'patch', url: string, data: object, fallbackMessage: string): Promise<T> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: T; message?: string }> =
+        await this.client[method](url, data);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || fallbackMessage);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || fallbackMessage);
+    }
+  }
+
+  // Return request endpoints
+  async getReturnRequests(status?: ReturnRequestStatus | 'all'): Promise<ReturnRequest[]> {
+    const response: AxiosResponse<{ success: boolean; data: ReturnRequest[]; count: number; message?: string }> =
+      await this.client.get('/api/admin/returns', { params: status ? { status } : undefined });
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch return requests');
+  }
+
+  async approveReturnRequest(id: string, adminNote?: string): Promise<ReturnRequest> {
+    return this.updateReturnRequest(`/api/admin/returns/${id}/approve`, { adminNote }, 'Failed to approve return request');
+  }
+
+  async rejectReturnRequest(id: string, adminNote: string): Promise<ReturnRequest> {
+    return this.updateReturnRequest(`/api/admin/returns/${id}/reject`, { adminNote }, 'Failed to reject return request');
+  }
+
+  async receiveReturnRequest(id: string, data: ReceiveReturnData): Promise<ReturnRequest> {
+    return this.updateReturnRequest(`/api/admin/returns/${id}/receive`, data, 'Failed to receive return request');
+  }
+
+  private async updateReturnRequest(url: string, data: object, fallbackMessage: string): Promise<ReturnRequest> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: ReturnRequest; message?: string }> =
+        await this.client.patch(url, data);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || fallbackMessage);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || fallbackMessage);
+    }
+  }
+
+  // Payment verification endpoints
+  async getPaymentQueue(companyAccountId?: string): Promise<PaymentQueue> {
+    const response: AxiosResponse<{ success: boolean; data: PaymentQueue['orders']; summary: PaymentQueue['summary']; message?: string }> =
+      await this.client.get('/api/orders/online-transfer/verification-queue', {
+        params: companyAccountId ? { companyAccountId } : undefined
+      });
+    if (response.data.success) {
+      return { orders: response.data.data || [], summary: response.data.summary };
+    }
+    throw new Error(response.data.message || 'Failed to fetch payment verification queue');
+  }
+
+  async confirmPayment(orderId: string, confirmed: boolean, notes?: string): Promise<void> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message?: string }> =
+        await this.client.patch(`/api/orders/online-transfer/${orderId}/payment-confirmation`, { confirmed, notes });
+      if (!response.data.success) {
+        throw new Error(response.data.message || 'Failed to review payment');
+      }
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to review payment');
+    }
+  }
+
+  async bulkConfirmPayments(orderIds: string[], confirmed: boolean, notes?: string): Promise<BulkPaymentResult[]> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: BulkPaymentResult[]; message?: string }> =
+        await this.client.patch('/api/orders/online-transfer/payment-confirmation', { orderIds, confirmed, notes });
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to review payments');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to review payments');
+    }
+  }
+
+  // Bank statement reconciliation
+  async getBankStatements(companyAccountId?: string): Promise<BankStatement[]> {
+    const response: AxiosResponse<{ success: boolean; data: BankStatement[]; message?: string }> =
+      await this.client.get('/api/admin/bank-statements', {
+        params: companyAccountId ? { companyAccountId } : undefined
+      });
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch bank statements');
+  }
+
+  async getBankStatement(id: string): Promise<BankStatementDetail> {
+    const response: AxiosResponse<{ success: boolean; data?: BankStatementDetail; message?: string }> =
+      await this.client.get(`/api/admin/bank-statements/${id}`);
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+    throw new Error(response.data.message || 'Failed to fetch bank statement');
+  }
+
+  async uploadBankStatement(companyAccountId: string, file: File): Promise<BankStatementDetail> {
+    const formData = new FormData();
+    formData.append('companyAccountId', companyAccountId);
+    formData.append('file', file);
+
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: BankStatementDetail; message?: string }> =
+        await this.client.post('/api/admin/bank-statements', formData, {
+          headers: {
+            'Content-Type': 'multipart/form-data',
+          },
+        });
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to upload bank statement');
+    } catch (error: any) {
+      // Unreadable statement rows come back as { row, message }
+      const rowErrors: Array<{ row?: number; message?: string }> = error.response?.data?.errors || [];
+      const details = rowErrors
+        .filter(rowError => rowError.row !== undefined)
+        .slice(0, 5)
+        .map(rowError => `row ${rowError.row}: ${rowError.message}`);
+      const message = error.response?.data?.message || error.message || 'Failed to upload bank statement';
+      throw new Error(details.length > 0 ? `${message} (${details.join('; ')})` : message);
+    }
+  }
+
+  async confirmStatementLine(statementId: string, lineId: string, orderId?: string): Promise<BankStatementLine> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: BankStatementLine; message?: string }> =
+        await this.client.patch(`/api/admin/bank-statements/${statementId}/lines/${lineId}/confirm`, { orderId });
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || 'Failed to confirm payment');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || 'Failed to confirm payment');
+    }
+  }
+
+  // Review endpoints
+  async getReviews(status?: ReviewStatus | 'all'): Promise<Review[]> {
+    const response: AxiosResponse<{ success: boolean; data: Review[]; count: number; message?: string }> =
+      await this.client.get('/api/admin/reviews', { params: status ? { status } : undefined });
+    if (response.data.success) {
+      return response.data.data || [];
+    }
+    throw new Error(response.data.message || 'Failed to fetch reviews');
+  }
+
+  async approveReview(id: string): Promise<Review> {
+    return this.moderateReview(`/api/admin/reviews/${id}/approve`, {}, 'Failed to approve review');
+  }
+
+  async hideReview(id: string, moderationNote?: string): Promise<Review> {
+    return this.moderateReview(`/api/admin/reviews/${id}/hide`, { moderationNote }, 'Failed to hide review');
+  }
+
+  private async moderateReview(url: string, data: object, fallbackMessage: string): Promise<Review> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data?: Review; message?: string }> =
+        await this.client.patch(url, data);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.message || fallbackMessage);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || error.message || fallbackMessage);
+    }
+  }
+
+  // Report endpoints
+  async getMarginReport(filters: MarginReportFilters = {}): Promise<MarginReport> {
+    const response: AxiosResponse<{ success: boolean; data?: MarginReport; message?: string }> =
+      await this.client.get('/api/admin/reports/margins', { params: filters });
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+    throw new Error(response.data.message || 'Failed to fetch margin report');
+  }
+
   // Account management endpoints
   async updateProfile(data: { name: string; address: string }): Promise<User> {
     const response: AxiosResponse<ApiResponse<{ user: User }>> = 
@@ -394,6 +957,7 @@ class AdminApiClient {
     email?: string;
     role?: string;
     isActive?: boolean;
+    isWholesale?: boolean;
   }): Promise<User> {
     const response: AxiosResponse<ApiResponse<{ user: User }>> =
       await this.client.patch(`/api/admin/users/${userId}`, data);
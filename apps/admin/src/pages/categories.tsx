@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { Plus, Edit, Trash2, RefreshCw, FolderTree, X } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import { adminApiClient } from '@/lib/api';
+import { Category, CategoryFormData } from '@/types';
+import { getCategoryBranchIds, getCategoryRows } from '@/utils/categories';
+
+const emptyForm: CategoryFormData = {
+  name_en: '',
+  name_my: '',
+  slug: '',
+  image: null,
+  parentId: null,
+};
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const CategoriesPage: React.FC = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [formData, setFormData] = useState<CategoryFormData>(emptyForm);
+
+  const loadCategories = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await adminApiClient.getCategories();
+      setCategories(data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load categories');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const rows = getCategoryRows(categories);
+
+  // A category cannot move inside itself or one of its subcategories
+  const parentOptions = editing
+    ? rows.filter(row => !getCategoryBranchIds(categories, editing.id).includes(row.id))
+    : rows;
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditing(null);
+    setFormData(emptyForm);
+    setFormError(null);
+  };
+
+  const openCreate = (parentId: string | null = null) => {
+    setEditing(null);
+    setFormData({ ...emptyForm, parentId });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEdit = (category: Category) => {
+    setEditing(category);
+    setFormData({
+      name_en: category.name_en,
+      name_my: category.name_my || '',
+      slug: category.slug,
+      image: category.image,
+      parentId: category.parentId,
+      sortOrder: category.sortOrder,
+    });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsUploading(true);
+    setFormError(null);
+    try {
+      const url = await adminApiClient.uploadFile(file);
+      setFormData(prev => ({ ...prev, image: url }));
+    } catch (e: any) {
+      setFormError(e.message || 'Failed to upload image');
+    } finally {
+      setIsUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      if (editing) {
+        await adminApiClient.updateCategory(editing.id, formData);
+      } else {
+        await adminApiClient.createCategory(formData);
+      }
+      closeModal();
+      // Reload so the subcategory counts of old and new parents stay right
+      loadCategories();
+    } catch (e: any) {
+      setFormError(e.message || 'Failed to save category');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Delete ${category.name_en}? Its products stay in the catalogue.`)) return;
+    try {
+      await adminApiClient.deleteCategory(category.id);
+      loadCategories();
+    } catch (e: any) {
+      alert(e.message || 'Failed to delete');
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Categories - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
+              <p className="text-gray-600">Group products for the storefront menus and filters</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" onClick={loadCategories} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button onClick={() => openCreate()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Category
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <FolderTree className="h-5 w-5 mr-2" />
+                Category Tree
+              </h3>
+              <p className="text-sm text-gray-500 mt-1">
+                A category also lists the products of its subcategories. Assign products to categories from the product form.
+              </p>
+            </div>
+            <div className="p-6">
+              {error && (
+                <div className="mb-4 p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+              )}
+              {isLoading ? (
+                <div className="text-gray-500">Loading...</div>
+              ) : categories.length === 0 ? (
+                <div className="text-gray-500">No categories yet.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slug</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sort</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {rows.map(category => (
+                        <tr key={category.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="flex items-center" style={{ paddingLeft: `${category.depth * 1.5}rem` }}>
+                              {category.image ? (
+                                <img src={category.image} alt={category.name_en} className="h-8 w-8 rounded object-cover mr-3" />
+                              ) : (
+                                <div className="h-8 w-8 rounded bg-gray-100 mr-3" />
+                              )}
+                              <div>
+                                <div className="font-medium text-gray-900">{category.name_en}</div>
+                                {category.name_my && <div className="text-gray-500">{category.name_my}</div>}
+                              </div>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{category.slug}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{category.productCount}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{category.sortOrder}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <div className="flex items-center space-x-2">
+                              <button onClick={() => openCreate(category.id)} className="text-primary-600 hover:text-primary-900" title="Add subcategory">
+                                <Plus className="h-4 w-4" />
+                              </button>
+                              <button onClick={() => openEdit(category)} className="text-green-600 hover:text-green-900">
+                                <Edit className="h-4 w-4" />
+                              </button>
+                              {category.childCount === 0 && (
+                                <button onClick={() => handleDelete(category)} className="text-red-600 hover:text-red-900">
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Create/Edit Modal */}
+          {showModal && (
+            <Modal isOpen={showModal} onClose={closeModal} title={editing ? 'Edit Category' : 'Add Category'}>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {formError && (
+                  <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{formError}</div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name (English)</label>
+                    <input
+                      type="text"
+                      value={formData.name_en}
+                      onChange={(e) => setFormData({ ...formData, name_en: e.target.value })}
+                      required
+                      placeholder="Fragrant Rice"
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name (Myanmar)</label>
+                    <input
+                      type="text"
+                      value={formData.name_my || ''}
+                      onChange={(e) => setFormData({ ...formData, name_my: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Slug</label>
+                    <input
+                      type="text"
+                      value={formData.slug || ''}
+                      onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+                      placeholder="Made from the English name"
+                      className={`${inputClassName} font-mono`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Sort Order</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={formData.sortOrder ?? ''}
+                      onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+                      placeholder="Last"
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Parent Category</label>
+                  <select
+                    value={formData.parentId || ''}
+                    onChange={(e) => setFormData({ ...formData, parentId: e.target.value || null })}
+                    className={inputClassName}
+                  >
+                    <option value="">None (top level)</option>
+                    {parentOptions.map(option => (
+                      <option key={option.id} value={option.id}>
+                        {'\u00a0\u00a0'.repeat(option.depth)}{option.name_en}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Image</label>
+                  {formData.image ? (
+                    <div className="relative inline-block">
+                      <img src={formData.image} alt="Category" className="h-24 w-24 rounded-lg object-cover" />
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, image: null })}
+                        className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 text-white rounded-full flex items-center justify-center"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={handleImageChange}
+                      disabled={isUploading}
+                      className="block w-full text-sm text-gray-700"
+                    />
+                  )}
+                  {isUploading && <p className="mt-1 text-sm text-gray-500">Uploading image...</p>}
+                </div>
+                <div className="flex justify-end space-x-3">
+                  <Button type="button" variant="outline" onClick={closeModal}>Cancel</Button>
+                  <Button type="submit" variant="primary" disabled={isSubmitting || isUploading}>
+                    {editing ? 'Update' : 'Create'}
+                  </Button>
+                </div>
+              </form>
+            </Modal>
+          )}
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default CategoriesPage;
@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { RefreshCw, TrendingUp } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { adminApiClient } from '@/lib/api';
+import { MarginFigures, MarginPeriod, MarginReport } from '@/types';
+
+const formatPrice = (amount: number) => `${amount.toLocaleString()} MMK`;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const marginColor = (margin: number) => (margin < 0 ? 'text-red-600' : 'text-green-700');
+
+const thClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const tdClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+const MarginCells: React.FC<{ figures: MarginFigures }> = ({ figures }) => (
+  <>
+    <td className={tdClass}>{formatPrice(figures.revenue)}</td>
+    <td className={tdClass}>{formatPrice(figures.cost)}</td>
+    <td className={`${tdClass} font-medium ${marginColor(figures.grossMargin)}`}>{formatPrice(figures.grossMargin)}</td>
+    <td className={`${tdClass} ${marginColor(figures.grossMargin)}`}>{figures.marginPercent}%</td>
+  </>
+);
+
+const MarginHeaders: React.FC = () => (
+  <>
+    <th className={thClass}>Revenue</th>
+    <th className={thClass}>Cost</th>
+    <th className={thClass}>Gross Margin</th>
+    <th className={thClass}>Margin %</th>
+  </>
+);
+
+const MarginsPage: React.FC = () => {
+  const [report, setReport] = useState<MarginReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [from, setFrom] = useState(toDateInput(daysAgo(30)));
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [period, setPeriod] = useState<MarginPeriod>('day');
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      // Include the whole of the end day
+      const data = await adminApiClient.getMarginReport({
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59.999`).toISOString(),
+        period
+      });
+      setReport(data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load margin report');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, [from, to, period]);
+
+  return (
+    <>
+      <Head>
+        <title>Margins - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Margins</h1>
+              <p className="text-gray-600">
+                Gross margin of fulfilled orders, net of discounts and refunds
+                {report && ` · ${report.costingMethod === 'AVERAGE' ? 'weighted-average' : 'FIFO'} costing`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <input
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => setFrom(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as MarginPeriod)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="day">Daily</option>
+                <option value="week">Weekly</option>
+                <option value="month">Monthly</option>
+              </select>
+              <Button variant="outline" onClick={loadReport} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+          )}
+
+          {isLoading && !report ? (
+            <div className="text-gray-500">Loading...</div>
+          ) : report && (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <Card className="p-6">
+                  <p className="text-sm font-medium text-gray-600">Revenue</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatPrice(report.totals.revenue)}</p>
+                  <p className="text-xs text-gray-500">{report.totals.orderCount} orders</p>
+                </Card>
+                <Card className="p-6">
+                  <p className="text-sm font-medium text-gray-600">Cost of Goods</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatPrice(report.totals.cost)}</p>
+                </Card>
+                <Card className="p-6">
+                  <p className="text-sm font-medium text-gray-600">Gross Margin</p>
+                  <p className={`text-2xl font-bold ${marginColor(report.totals.grossMargin)}`}>
+                    {formatPrice(report.totals.grossMargin)}
+                  </p>
+                </Card>
+                <Card className="p-6">
+                  <p className="text-sm font-medium text-gray-600">Margin</p>
+                  <p className={`text-2xl font-bold ${marginColor(report.totals.grossMargin)}`}>
+                    {report.totals.marginPercent}%
+                  </p>
+                </Card>
+              </div>
+
+              {report.totals.uncostedQuantity > 0 && (
+                <div className="p-3 rounded bg-yellow-50 text-yellow-800 border border-yellow-200 text-sm">
+                  {report.totals.uncostedQuantity} bags were sold before cost tracking began and are counted at zero cost.
+                </div>
+              )}
+
+              {/* Per period */}
+              <Card>
+                <div className="p-6 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                    <TrendingUp className="h-5 w-5 mr-2" />
+                    By Period
+                  </h3>
+                </div>
+                <div className="p-6">
+                  {report.periods.length === 0 ? (
+                    <div className="text-gray-500">No fulfilled orders in this range.</div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead>
+                          <tr>
+                            <th className={thClass}>{period === 'week' ? 'Week of' : period === 'month' ? 'Month' : 'Day'}</th>
+                            <th className={thClass}>Orders</th>
+                            <MarginHeaders />
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {report.periods.map(row => (
+                            <tr key={row.period}>
+                              <td className={tdClass}>{row.period}</td>
+                              <td className={tdClass}>{row.orderCount}</td>
+                              <MarginCells figures={row} />
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </Card>
+
+              {/* Per product */}
+              <Card>
+                <div className="p-6 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900">By Product</h3>
+                </div>
+                <div className="p-6">
+                  {report.products.length === 0 ? (
+                    <div className="text-gray-500">No products sold in this range.</div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead>
+                          <tr>
+                            <th className={thClass}>Product</th>
+                            <th className={thClass}>Bags Sold</th>
+                            <MarginHeaders />
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {report.products.map(row => (
+                            <tr key={row.productId}>
+                              <td className={tdClass}>{row.productName}</td>
+                              <td className={tdClass}>{row.quantitySold}</td>
+                              <MarginCells figures={row} />
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </Card>
+
+              {/* Per order */}
+              <Card>
+                <div className="p-6 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900">By Order</h3>
+                  <p className="text-sm text-gray-500 mt-1">Newest 100 orders in the range</p>
+                </div>
+                <div className="p-6">
+                  {report.orders.length === 0 ? (
+                    <div className="text-gray-500">No fulfilled orders in this range.</div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead>
+                          <tr>
+                            <th className={thClass}>Order</th>
+                            <th className={thClass}>Date</th>
+                            <MarginHeaders />
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {report.orders.map(row => (
+                            <tr key={row.orderId}>
+                              <td className={`${tdClass} font-mono`}>#{row.orderId.slice(-8).toUpperCase()}</td>
+                              <td className={tdClass}>{new Date(row.createdAt).toLocaleDateString()}</td>
+                              <MarginCells figures={row} />
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            </>
+          )}
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default MarginsPage;
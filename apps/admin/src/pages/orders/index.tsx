@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
+import { useRouter } from 'next/router';
 import { 
   Search, 
   Filter, 
@@ -33,10 +34,18 @@ const OrdersPage: React.FC = () => {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
 
+  const router = useRouter();
   const { register, watch, setValue } = useForm<OrderFilters>();
   const filters = watch();
   const searchTimeoutRef = useRef<NodeJS.Timeout>();
 
+  // Other pages link to an order with ?search=<order id>
+  useEffect(() => {
+    if (router.isReady && typeof router.query.search === 'string') {
+      setValue('search', router.query.search);
+    }
+  }, [router.isReady, router.query.search]);
+
   // Debounced search state
   const [debouncedSearch, setDebouncedSearch] = useState(filters.search || '');
 
@@ -122,6 +131,13 @@ const OrdersPage: React.FC = () => {
     }
   };
 
+  const handleOrderUpdated = (updatedOrder: Order) => {
+    setOrders(orders.map(order =>
+      order.id === updatedOrder.id ? updatedOrder : order
+    ));
+    setSelectedOrder(updatedOrder);
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       minimumFractionDigits: 0,
@@ -453,6 +469,7 @@ const OrdersPage: React.FC = () => {
           }}
           order={selectedOrder}
           onStatusUpdate={handleStatusUpdate}
+          onOrderUpdated={handleOrderUpdated}
         />
       </AdminLayout>
     </>
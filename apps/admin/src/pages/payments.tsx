@@ -0,0 +1,437 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { RefreshCw, BadgeCheck, Eye, Clock, AlertTriangle } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import { adminApiClient } from '@/lib/api';
+import { BankAccount, PaymentAging, PaymentConflict, PaymentQueue, PaymentQueueOrder } from '@/types';
+
+const agingColors: Record<PaymentAging, string> = {
+  NEW: 'bg-green-100 text-green-700',
+  AGING: 'bg-yellow-100 text-yellow-700',
+  OVERDUE: 'bg-red-100 text-red-700',
+};
+
+const formatPrice = (amount: number) => `${amount.toLocaleString()} MMK`;
+
+const formatDate = (date: string) => new Date(date).toLocaleString();
+
+const formatWaiting = (minutes: number) => {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const formatOrderNumber = (id: string) => `#${id.slice(-8).toUpperCase()}`;
+
+const ConflictLinks: React.FC<{ label: string; orders: PaymentConflict[] }> = ({ label, orders }) => (
+  <p>
+    {label}:{' '}
+    {orders.map((order, index) => (
+      <React.Fragment key={order.id}>
+        {index > 0 && ', '}
+        <Link href={`/orders?search=${order.id}`} className="font-mono underline hover:text-red-900">
+          {formatOrderNumber(order.id)}
+        </Link>
+        {' '}({order.status})
+      </React.Fragment>
+    ))}
+  </p>
+);
+
+// Orders awaiting review: one opened from the table, or the selected ones for a bulk action
+type ReviewTarget = { type: 'single'; order: PaymentQueueOrder } | { type: 'bulk'; orderIds: string[] };
+
+const PaymentsPage: React.FC = () => {
+  const [queue, setQueue] = useState<PaymentQueue>({ orders: [], summary: { awaitingProof: 0, suspect: 0, aging: 0, overdue: 0 } });
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [accountFilter, setAccountFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [target, setTarget] = useState<ReviewTarget | null>(null);
+  const [reason, setReason] = useState('');
+  const [modalError, setModalError] = useState<string | null>(null);
+
+  const loadQueue = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await adminApiClient.getPaymentQueue(accountFilter || undefined);
+      setQueue(data);
+      setSelectedIds(selectedIds.filter(id => data.orders.some(order => order.id === id)));
+    } catch (e: any) {
+      setError(e.message || 'Failed to load payment verification queue');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    adminApiClient.getBankAccounts()
+      .then(setAccounts)
+      .catch((e: any) => console.error('Failed to load company accounts:', e));
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [accountFilter]);
+
+  // Orders without proof cannot be verified yet, so they are not selectable
+  const selectableIds = queue.orders.filter(order => order.hasProof).map(order => order.id);
+  const allSelected = selectableIds.length > 0 && selectableIds.every(id => selectedIds.includes(id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : selectableIds);
+  };
+
+  const openReview = (reviewTarget: ReviewTarget) => {
+    setTarget(reviewTarget);
+    setReason('');
+    setModalError(null);
+  };
+
+  const closeReview = () => {
+    setTarget(null);
+    setModalError(null);
+  };
+
+  const review = async (confirmed: boolean) => {
+    if (!target) return;
+    if (!confirmed && !reason.trim()) {
+      setModalError('Add a reason; the customer is emailed it and asked to resubmit proof');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setModalError(null);
+    try {
+      const notes = reason.trim() || undefined;
+      if (target.type === 'single') {
+        await adminApiClient.confirmPayment(target.order.id, confirmed, notes);
+        setNotice(`Payment for order ${formatOrderNumber(target.order.id)} ${confirmed ? 'confirmed' : 'rejected'}`);
+      } else {
+        const results = await adminApiClient.bulkConfirmPayments(target.orderIds, confirmed, notes);
+        const failed = results.filter(result => !result.success);
+        setNotice(`${results.length - failed.length} of ${results.length} payments ${confirmed ? 'confirmed' : 'rejected'}` +
+          (failed.length > 0 ? `; not reviewed: ${failed.map(result => formatOrderNumber(result.orderId)).join(', ')}` : ''));
+      }
+      closeReview();
+      setSelectedIds([]);
+      await loadQueue();
+    } catch (e: any) {
+      setModalError(e.message || 'Failed to review payment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const selectedOrder = target?.type === 'single' ? target.order : null;
+
+  return (
+    <>
+      <Head>
+        <title>Payments - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Payment Verification</h1>
+              <p className="text-gray-600">Check online transfers against the company accounts before orders are processed</p>
+            </div>
+            <Button variant="outline" onClick={loadQueue} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-4">
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Waiting</p>
+              <p className="text-2xl font-bold text-gray-900">{queue.orders.length}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Awaiting proof</p>
+              <p className="text-2xl font-bold text-gray-900">{queue.summary.awaitingProof}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Suspect</p>
+              <p className="text-2xl font-bold text-red-600">{queue.summary.suspect}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Aging</p>
+              <p className="text-2xl font-bold text-yellow-600">{queue.summary.aging}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Overdue</p>
+              <p className="text-2xl font-bold text-red-600">{queue.summary.overdue}</p>
+            </Card>
+          </div>
+
+          <Card>
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <BadgeCheck className="h-5 w-5 mr-2" />
+                Verification Queue
+              </h3>
+              <div className="flex items-center space-x-3">
+                {selectedIds.length > 0 && (
+                  <>
+                    <span className="text-sm text-gray-600">{selectedIds.length} selected</span>
+                    <Button size="sm" onClick={() => openReview({ type: 'bulk', orderIds: selectedIds })}>
+                      Review selected
+                    </Button>
+                  </>
+                )}
+                <select
+                  value={accountFilter}
+                  onChange={(e) => setAccountFilter(e.target.value)}
+                  className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  <option value="">All company accounts</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.type} - {account.accountName}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="p-6">
+              {error && (
+                <div className="mb-4 p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+              )}
+              {notice && (
+                <div className="mb-4 p-3 rounded bg-green-50 text-green-700 border border-green-200">{notice}</div>
+              )}
+              {isLoading ? (
+                <div className="text-gray-500">Loading...</div>
+              ) : queue.orders.length === 0 ? (
+                <div className="text-gray-500">No transfers waiting for verification.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-4 py-3 text-left">
+                          <input
+                            type="checkbox"
+                            checked={allSelected}
+                            onChange={toggleAll}
+                            className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                          />
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transfer</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To Account</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waiting</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {queue.orders.map(order => (
+                        <tr key={order.id}>
+                          <td className="px-4 py-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(order.id)}
+                              onChange={() => toggleSelected(order.id)}
+                              disabled={!order.hasProof}
+                              className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                            />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                            {formatOrderNumber(order.id)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            <div>{order.customer.name || '-'}</div>
+                            <div className="text-gray-500">{order.customer.email}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatPrice(order.totalAmount)}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {order.suspicion && (
+                              <span className="inline-flex items-center mb-1 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-700">
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                Suspect
+                              </span>
+                            )}
+                            {order.hasProof ? (
+                              <>
+                                {order.transactionId && <div className="font-mono">{order.transactionId}</div>}
+                                <div className="text-gray-500">{order.customerAccountName} · {order.customerAccountNo}</div>
+                                {order.paymentScreenshot && (
+                                  <a href={order.paymentScreenshot} target="_blank" rel="noopener noreferrer" className="text-xs text-primary-600 hover:underline">
+                                    Screenshot
+                                  </a>
+                                )}
+                              </>
+                            ) : (
+                              <span className="text-gray-500">Awaiting proof</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {order.companyAccount ? (
+                              <>
+                                <div>{order.companyAccount.name}</div>
+                                <div className="text-gray-500">{order.companyAccount.details.accountNo || order.companyAccount.details.phone}</div>
+                              </>
+                            ) : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <span className={`inline-flex items-center px-2 py-1 text-xs rounded-full ${agingColors[order.aging]}`}>
+                              <Clock className="h-3 w-3 mr-1" />
+                              {formatWaiting(order.waitingMinutes)}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <button onClick={() => openReview({ type: 'single', order })} className="text-green-600 hover:text-green-900">
+                              <Eye className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Review Modal */}
+          {target && (
+            <Modal
+              isOpen={!!target}
+              onClose={closeReview}
+              title={selectedOrder ? `Payment for Order ${formatOrderNumber(selectedOrder.id)}` : `Review ${selectedIds.length} Payments`}
+            >
+              <div className="space-y-4">
+                {modalError && (
+                  <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200">{modalError}</div>
+                )}
+
+                {selectedOrder && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-500">Amount</p>
+                        <p className="text-gray-900 font-semibold">{formatPrice(selectedOrder.totalAmount)}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Waiting</p>
+                        <span className={`px-2 py-1 text-xs rounded-full ${agingColors[selectedOrder.aging]}`}>
+                          {formatWaiting(selectedOrder.waitingMinutes)}
+                        </span>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Transaction ID</p>
+                        <p className="text-gray-900 font-mono">{selectedOrder.transactionId || '-'}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">From</p>
+                        <p className="text-gray-900">{selectedOrder.customerAccountName || '-'}</p>
+                        <p className="text-gray-500">{selectedOrder.customerAccountNo}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">To</p>
+                        {selectedOrder.companyAccount ? (
+                          <>
+                            <p className="text-gray-900">{selectedOrder.companyAccount.name} ({selectedOrder.companyAccount.type})</p>
+                            <p className="text-gray-500">{selectedOrder.companyAccount.details.accountNo || selectedOrder.companyAccount.details.phone}</p>
+                          </>
+                        ) : (
+                          <p className="text-gray-900">-</p>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Submitted</p>
+                        <p className="text-gray-900">{formatDate(selectedOrder.paymentSubmittedAt || selectedOrder.createdAt)}</p>
+                      </div>
+                    </div>
+
+                    {selectedOrder.paymentScreenshot && (
+                      <a href={selectedOrder.paymentScreenshot} target="_blank" rel="noopener noreferrer">
+                        <img
+                          src={selectedOrder.paymentScreenshot}
+                          alt="Payment Screenshot"
+                          className="w-full max-h-96 object-contain rounded-lg border border-gray-200"
+                        />
+                      </a>
+                    )}
+
+                    {selectedOrder.suspicion && (
+                      <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm space-y-1">
+                        <p className="font-medium flex items-center">
+                          <AlertTriangle className="h-4 w-4 mr-1" />
+                          This proof was already used on other orders
+                        </p>
+                        {selectedOrder.suspicion.duplicateTransactionOrders.length > 0 && (
+                          <ConflictLinks label="Same transaction ID" orders={selectedOrder.suspicion.duplicateTransactionOrders} />
+                        )}
+                        {selectedOrder.suspicion.similarScreenshotOrders.length > 0 && (
+                          <ConflictLinks label="Same screenshot" orders={selectedOrder.suspicion.similarScreenshotOrders} />
+                        )}
+                      </div>
+                    )}
+
+                    {!selectedOrder.hasProof && (
+                      <div className="p-3 rounded bg-yellow-50 text-yellow-800 border border-yellow-200 text-sm">
+                        The customer has not sent a transaction ID or screenshot yet.
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {!selectedOrder && (
+                  <p className="text-sm text-gray-600">
+                    Approving moves the selected orders to processing. Rejecting puts them on hold and emails each customer the
+                    reason below so they can resubmit proof.
+                  </p>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <textarea
+                    rows={3}
+                    maxLength={500}
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Required when rejecting, e.g. amount does not match the order total"
+                    className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                  <Button type="button" variant="outline" onClick={closeReview}>Cancel</Button>
+                  <Button type="button" variant="outline" onClick={() => review(false)} disabled={isSubmitting}>Reject</Button>
+                  <Button
+                    type="button"
+                    variant="primary"
+                    onClick={() => review(true)}
+                    disabled={isSubmitting || (!!selectedOrder && !selectedOrder.hasProof)}
+                  >
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            </Modal>
+          )}
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default PaymentsPage;
@@ -9,16 +9,25 @@ import {
   Eye, 
   EyeOff,
   Package,
-  AlertTriangle
+  AlertTriangle,
+  Upload,
+  Download,
+  Layers,
+  Tag,
+  Boxes
 } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { adminApiClient } from '@/lib/api';
-import { Product, ProductFilters } from '@/types';
+import { Product, ProductFilters, ProductImportSummary, ProductSpreadsheetFormat, ProductVariant } from '@/types';
 import AdminLayout from '@/components/layout/AdminLayout';
 import { Card } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import ProductFormModal from '@/components/products/ProductFormModal';
+import ProductImportModal from '@/components/products/ProductImportModal';
+import ProductVariantsModal from '@/components/products/ProductVariantsModal';
+import ProductPricesModal from '@/components/products/ProductPricesModal';
+import ProductPriceTiersModal from '@/components/products/ProductPriceTiersModal';
 import ProductImage from '@/components/ui/ProductImage';
 import { cn } from '@/utils/cn';
 
@@ -32,6 +41,11 @@ const ProductsPage: React.FC = () => {
   const [isFormModalOpen, setIsFormModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null);
+  const [pricesProduct, setPricesProduct] = useState<Product | null>(null);
+  const [tiersProduct, setTiersProduct] = useState<Product | null>(null);
 
   const { register, watch, setValue } = useForm<ProductFilters>();
   const filters = watch();
@@ -130,15 +144,43 @@ const ProductsPage: React.FC = () => {
       const updatedProduct = await adminApiClient.updateProduct(product.id, {
         [field]: !product[field],
       });
-      setProducts(products.map(p => p.id === product.id ? updatedProduct : p));
+      setProducts(products.map(p => p.id === product.id ? { ...p, ...updatedProduct } : p));
     } catch (error) {
       console.error('Failed to update product:', error);
     }
   };
 
+  const handleVariantsChange = (productId: string, variants: ProductVariant[]) => {
+    setProducts(products => products.map(p => p.id === productId ? { ...p, variants } : p));
+  };
+
+  const handleImportSuccess = (summary: ProductImportSummary) => {
+    setIsImportModalOpen(false);
+    alert(`Imported ${summary.created} new and ${summary.updated} updated products`);
+    loadProducts();
+  };
+
+  const handleExport = async (format: ProductSpreadsheetFormat) => {
+    setIsExporting(true);
+    try {
+      const file = await adminApiClient.exportProducts(format);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export products:', error);
+      alert('Failed to export products');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleFormSuccess = (product: Product) => {
     if (editingProduct) {
-      setProducts(products.map(p => p.id === product.id ? product : p));
+      setProducts(products.map(p => p.id === product.id ? { ...p, ...product } : p));
     } else {
       setProducts([product, ...products]);
       setTotalProducts(totalProducts + 1);
@@ -196,10 +238,24 @@ const ProductsPage: React.FC = () => {
                 Manage your product catalog ({totalProducts} products)
               </p>
             </div>
-            <Button onClick={handleCreateProduct}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Product
-            </Button>
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" onClick={() => handleExport('csv')} disabled={isExporting}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={isExporting}>
+                <Download className="h-4 w-4 mr-2" />
+                Export XLSX
+              </Button>
+              <Button variant="outline" onClick={() => setIsImportModalOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <Button onClick={handleCreateProduct}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Product
+              </Button>
+            </div>
           </div>
 
           {/* Filters */}
@@ -312,9 +368,26 @@ const ProductsPage: React.FC = () => {
                         {product.sku && (
                           <p className="text-sm text-gray-500 mb-2">SKU: {product.sku}</p>
                         )}
+                        {(product.attributes?.variety || product.attributes?.weightKg) && (
+                          <p className="text-sm text-gray-500 mb-2">
+                            {[product.attributes.variety, product.attributes.weightKg && `${product.attributes.weightKg} kg`]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </p>
+                        )}
                         <p className="text-lg font-bold text-gray-900">
                           {formatPrice(product.price)}
                         </p>
+                        {!!product.variants?.length && (
+                          <p className="text-sm text-gray-500 mt-1">
+                            Sizes: {product.variants.map(variant => variant.label).join(', ')}
+                          </p>
+                        )}
+                        {!!product.categories?.length && (
+                          <p className="text-sm text-gray-500 mt-1">
+                            Categories: {product.categories.map(category => category.name_en).join(', ')}
+                          </p>
+                        )}
                       </div>
 
                       {/* Actions */}
@@ -327,6 +400,30 @@ const ProductsPage: React.FC = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setVariantsProduct(product)}
+                            title="Sizes"
+                          >
+                            <Layers className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPricesProduct(product)}
+                            title="Prices"
+                          >
+                            <Tag className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setTiersProduct(product)}
+                            title="Quantity pricing"
+                          >
+                            <Boxes className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -438,6 +535,36 @@ const ProductsPage: React.FC = () => {
           product={editingProduct}
           onSuccess={handleFormSuccess}
         />
+
+        {/* Product Import Modal */}
+        <ProductImportModal
+          isOpen={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+          onSuccess={handleImportSuccess}
+        />
+
+        {/* Product Sizes Modal */}
+        <ProductVariantsModal
+          isOpen={!!variantsProduct}
+          onClose={() => setVariantsProduct(null)}
+          product={variantsProduct}
+          onChange={handleVariantsChange}
+        />
+
+        {/* Product Prices Modal */}
+        <ProductPricesModal
+          isOpen={!!pricesProduct}
+          onClose={() => setPricesProduct(null)}
+          product={pricesProduct}
+          onChange={loadProducts}
+        />
+
+        {/* Quantity Pricing Modal */}
+        <ProductPriceTiersModal
+          isOpen={!!tiersProduct}
+          onClose={() => setTiersProduct(null)}
+          product={tiersProduct}
+        />
       </AdminLayout>
     </>
   );
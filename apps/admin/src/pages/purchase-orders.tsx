@@ -0,0 +1,698 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { Plus, RefreshCw, ClipboardList, Eye, Trash2, X } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import { adminApiClient } from '@/lib/api';
+import {
+  Product,
+  PurchaseOrder,
+  PurchaseOrderFormData,
+  PurchaseOrderReceipt,
+  PurchaseOrderStatus,
+  Supplier,
+  VariantSummary,
+} from '@/types';
+
+type View = 'open' | 'all' | 'history';
+
+const views: Array<{ value: View; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'all', label: 'All' },
+  { value: 'history', label: 'Receiving History' },
+];
+
+const statusLabels: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'Draft',
+  ORDERED: 'Ordered',
+  PARTIALLY_RECEIVED: 'Partially received',
+  RECEIVED: 'Received',
+};
+
+const statusColors: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-700',
+  ORDERED: 'bg-blue-100 text-blue-700',
+  PARTIALLY_RECEIVED: 'bg-yellow-100 text-yellow-700',
+  RECEIVED: 'bg-green-100 text-green-700',
+};
+
+const emptyLine = { productId: '', quantity: 1, unitCost: 0 };
+
+const emptyForm: PurchaseOrderFormData = {
+  supplierId: '',
+  reference: '',
+  notes: '',
+  expectedAt: '',
+  items: [emptyLine],
+};
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const formatPrice = (amount: number) => `${amount.toLocaleString()} MMK`;
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+const formatDateTime = (date: string) => new Date(date).toLocaleString();
+
+const getOrderLabel = (purchaseOrder: { id: string; reference: string | null }) =>
+  purchaseOrder.reference || `PO #${purchaseOrder.id.slice(-8).toUpperCase()}`;
+
+const getLineName = (line: { product: { name_en: string }; variant: VariantSummary | null }) =>
+  line.variant ? `${line.product.name_en} (${line.variant.label})` : line.product.name_en;
+
+// Products sold in several sizes are ordered per size; options are "productId" or "productId:variantId"
+const getLineOptions = (products: Product[]) => products.flatMap(product =>
+  product.variants?.length
+    ? product.variants.map(variant => ({
+        value: `${product.id}:${variant.id}`,
+        label: `${product.name_en} - ${variant.label} (${variant.sku || product.sku})`,
+      }))
+    : [{ value: product.id, label: `${product.name_en} (${product.sku})` }]
+);
+
+const PurchaseOrdersPage: React.FC = () => {
+  const router = useRouter();
+  const view: View = router.query.view === 'all' || router.query.view === 'history' ? router.query.view : 'open';
+  const supplierId = typeof router.query.supplierId === 'string' ? router.query.supplierId : '';
+
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [receipts, setReceipts] = useState<PurchaseOrderReceipt[]>([]);
+  const [receiptPage, setReceiptPage] = useState(1);
+  const [receiptPages, setReceiptPages] = useState(1);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<PurchaseOrder | null>(null);
+  const [formData, setFormData] = useState<PurchaseOrderFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<PurchaseOrder | null>(null);
+  const [receiveQuantities, setReceiveQuantities] = useState<Record<string, number>>({});
+  const [receiveNote, setReceiveNote] = useState('');
+  const [modalError, setModalError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [suppliersResponse, productsResponse] = await Promise.all([
+          adminApiClient.getSuppliers(),
+          adminApiClient.getProducts({ limit: 100 }),
+        ]);
+        setSuppliers(suppliersResponse);
+        setProducts(productsResponse.data);
+      } catch (e: any) {
+        setError(e.message || 'Failed to load suppliers and products');
+      }
+    };
+
+    loadOptions();
+  }, []);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (view === 'history') {
+        const response = await adminApiClient.getPurchaseOrderReceipts({
+          page: receiptPage,
+          limit: 50,
+          supplierId: supplierId || undefined,
+        });
+        setReceipts(response.data);
+        setReceiptPages(response.pagination.pages || 1);
+      } else {
+        const data = await adminApiClient.getPurchaseOrders({ status: view, supplierId: supplierId || undefined });
+        setPurchaseOrders(data);
+      }
+    } catch (e: any) {
+      setError(e.message || 'Failed to load purchase orders');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    loadData();
+  }, [router.isReady, view, supplierId, receiptPage]);
+
+  const setQuery = (next: { view?: View; supplierId?: string }) => {
+    const query = { view, supplierId, ...next };
+    setReceiptPage(1);
+    router.replace({
+      query: {
+        ...(query.view !== 'open' && { view: query.view }),
+        ...(query.supplierId && { supplierId: query.supplierId }),
+      },
+    }, undefined, { shallow: true });
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setFormData(emptyForm);
+    setFormError(null);
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData({ ...emptyForm, supplierId });
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (purchaseOrder: PurchaseOrder) => {
+    setSelected(null);
+    setEditing(purchaseOrder);
+    setFormData({
+      supplierId: purchaseOrder.supplier.id,
+      reference: purchaseOrder.reference || '',
+      notes: purchaseOrder.notes || '',
+      expectedAt: purchaseOrder.expectedAt ? purchaseOrder.expectedAt.slice(0, 10) : '',
+      items: purchaseOrder.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        unitCost: item.unitCost,
+      })),
+    });
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderFormData['items'][number]>) => {
+    setFormData({
+      ...formData,
+      items: formData.items.map((line, i) => i === index ? { ...line, ...changes } : line),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      // Only drafts reach this form, so supplier and lines can always be sent
+      if (editing) {
+        await adminApiClient.updatePurchaseOrder(editing.id, formData);
+      } else {
+        await adminApiClient.createPurchaseOrder(formData);
+      }
+      closeForm();
+      loadData();
+    } catch (e: any) {
+      setFormError(e.message || 'Failed to save purchase order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openDetail = async (id: string) => {
+    setModalError(null);
+    try {
+      const purchaseOrder = await adminApiClient.getPurchaseOrder(id);
+      setSelected(purchaseOrder);
+      setReceiveQuantities(Object.fromEntries(purchaseOrder.items.map(item => [item.id, item.outstandingQuantity])));
+      setReceiveNote('');
+    } catch (e: any) {
+      setError(e.message || 'Failed to load purchase order');
+    }
+  };
+
+  const closeDetail = () => {
+    setSelected(null);
+    setModalError(null);
+  };
+
+  const runAction = async (action: () => Promise<PurchaseOrder | void>, closeAfter = false) => {
+    setIsSubmitting(true);
+    setModalError(null);
+    try {
+      const updated = await action();
+      if (updated && !closeAfter) {
+        setSelected(updated);
+        setReceiveQuantities(Object.fromEntries(updated.items.map(item => [item.id, item.outstandingQuantity])));
+        setReceiveNote('');
+      } else {
+        closeDetail();
+      }
+      loadData();
+    } catch (e: any) {
+      setModalError(e.message || 'Failed to update purchase order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePlace = () => {
+    if (!selected) return;
+    runAction(() => adminApiClient.placePurchaseOrder(selected.id));
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm('Delete this draft purchase order?')) return;
+    runAction(() => adminApiClient.deletePurchaseOrder(selected.id), true);
+  };
+
+  const handleReceive = () => {
+    if (!selected) return;
+    const items = selected.items
+      .map(item => ({ itemId: item.id, quantity: receiveQuantities[item.id] || 0 }))
+      .filter(item => item.quantity > 0);
+    if (items.length === 0) {
+      setModalError('Enter the quantity received for at least one line');
+      return;
+    }
+    runAction(() => adminApiClient.receivePurchaseOrder(selected.id, {
+      items,
+      note: receiveNote.trim() || undefined,
+    }));
+  };
+
+  const activeSuppliers = suppliers.filter(supplier => supplier.isActive || supplier.id === formData.supplierId);
+  const formTotal = formData.items.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+  const canReceive = selected?.status === 'ORDERED' || selected?.status === 'PARTIALLY_RECEIVED';
+
+  return (
+    <>
+      <Head>
+        <title>Purchase Orders - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+              <p className="text-gray-600">Order rice from suppliers and receive deliveries into stock</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" onClick={loadData} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button onClick={openCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Purchase Order
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <ClipboardList className="h-5 w-5 mr-2" />
+                {view === 'history' ? 'Receiving History' : 'Purchase Orders'}
+              </h3>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={supplierId}
+                  onChange={(e) => setQuery({ supplierId: e.target.value })}
+                  className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  <option value="">All suppliers</option>
+                  {suppliers.map(supplier => (
+                    <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                  ))}
+                </select>
+                {views.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setQuery({ view: option.value })}
+                    className={`px-3 py-1 text-sm rounded-full ${
+                      view === option.value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="p-6">
+              {error && (
+                <div className="mb-4 p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+              )}
+              {isLoading ? (
+                <div className="text-gray-500">Loading...</div>
+              ) : view === 'history' ? (
+                receipts.length === 0 ? (
+                  <div className="text-gray-500">No deliveries have been received yet.</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead>
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purchase Order</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bags</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {receipts.map(receipt => (
+                          <tr key={receipt.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDateTime(receipt.receivedAt)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              {receipt.purchaseOrder && (
+                                <button onClick={() => openDetail(receipt.purchaseOrderId)} className="text-primary-600 hover:text-primary-800">
+                                  {getOrderLabel(receipt.purchaseOrder)}
+                                </button>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{receipt.purchaseOrder?.supplier.name || '-'}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getLineName(receipt)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{receipt.quantity}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatPrice(receipt.unitCost)}</td>
+                            <td className="px-6 py-4 text-sm text-gray-500">{receipt.note || '-'}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{receipt.receivedBy?.name || '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {receiptPages > 1 && (
+                      <div className="flex items-center justify-end space-x-3 mt-4 text-sm text-gray-600">
+                        <Button size="sm" variant="outline" onClick={() => setReceiptPage(receiptPage - 1)} disabled={receiptPage <= 1}>
+                          Previous
+                        </Button>
+                        <span>Page {receiptPage} of {receiptPages}</span>
+                        <Button size="sm" variant="outline" onClick={() => setReceiptPage(receiptPage + 1)} disabled={receiptPage >= receiptPages}>
+                          Next
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )
+              ) : purchaseOrders.length === 0 ? (
+                <div className="text-gray-500">No purchase orders in this view.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purchase Order</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bags Received</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {purchaseOrders.map(purchaseOrder => (
+                        <tr key={purchaseOrder.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="font-medium text-gray-900">{getOrderLabel(purchaseOrder)}</div>
+                            <div className="text-gray-500">Created {formatDate(purchaseOrder.createdAt)}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{purchaseOrder.supplier.name}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {purchaseOrder.items.reduce((sum, item) => sum + item.receivedQuantity, 0)} / {purchaseOrder.items.reduce((sum, item) => sum + item.quantity, 0)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatPrice(purchaseOrder.total)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {purchaseOrder.expectedAt ? formatDate(purchaseOrder.expectedAt) : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <span className={`px-2 py-1 text-xs rounded-full ${statusColors[purchaseOrder.status]}`}>
+                              {statusLabels[purchaseOrder.status]}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <button onClick={() => openDetail(purchaseOrder.id)} className="text-green-600 hover:text-green-900">
+                              <Eye className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Create/Edit Modal */}
+          {showForm && (
+            <Modal isOpen={showForm} onClose={closeForm} title={editing ? 'Edit Purchase Order' : 'New Purchase Order'} size="xl">
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {formError && (
+                  <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{formError}</div>
+                )}
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+                    <select
+                      value={formData.supplierId}
+                      onChange={(e) => setFormData({ ...formData, supplierId: e.target.value })}
+                      required
+                      className={inputClassName}
+                    >
+                      <option value="">Select a supplier</option>
+                      {activeSuppliers.map(supplier => (
+                        <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reference (optional)</label>
+                    <input
+                      type="text"
+                      value={formData.reference || ''}
+                      onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                      placeholder="Supplier invoice or PO number"
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Expected Delivery</label>
+                    <input
+                      type="date"
+                      value={formData.expectedAt || ''}
+                      onChange={(e) => setFormData({ ...formData, expectedAt: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Items</label>
+                  <div className="space-y-2">
+                    {formData.items.map((line, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                        <select
+                          value={line.variantId ? `${line.productId}:${line.variantId}` : line.productId}
+                          onChange={(e) => {
+                            const [productId, variantId] = e.target.value.split(':');
+                            updateLine(index, { productId, variantId: variantId || null });
+                          }}
+                          required
+                          className={`${inputClassName} col-span-6`}
+                        >
+                          <option value="">Select a product</option>
+                          {getLineOptions(products).map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 0 })}
+                          required
+                          aria-label="Bags"
+                          className={`${inputClassName} col-span-2`}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unitCost}
+                          onChange={(e) => updateLine(index, { unitCost: parseFloat(e.target.value) || 0 })}
+                          required
+                          aria-label="Unit cost"
+                          className={`${inputClassName} col-span-3`}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setFormData({ ...formData, items: formData.items.filter((_, i) => i !== index) })}
+                          disabled={formData.items.length === 1}
+                          className="col-span-1 text-red-600 hover:text-red-900 disabled:text-gray-300"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between mt-2">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setFormData({ ...formData, items: [...formData.items, emptyLine] })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Line
+                    </Button>
+                    <span className="text-sm text-gray-700">Total: {formatPrice(formTotal)}</span>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <textarea
+                    rows={2}
+                    value={formData.notes || ''}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                  <Button type="button" variant="outline" onClick={closeForm}>Cancel</Button>
+                  <Button type="submit" variant="primary" disabled={isSubmitting}>
+                    {editing ? 'Update' : 'Save Draft'}
+                  </Button>
+                </div>
+              </form>
+            </Modal>
+          )}
+
+          {/* Detail / Receive Modal */}
+          {selected && (
+            <Modal isOpen={!!selected} onClose={closeDetail} title={getOrderLabel(selected)} size="xl">
+              <div className="space-y-4">
+                {modalError && (
+                  <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{modalError}</div>
+                )}
+
+                <div className="grid grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Supplier</p>
+                    <p className="text-gray-900">{selected.supplier.name}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Status</p>
+                    <span className={`px-2 py-1 text-xs rounded-full ${statusColors[selected.status]}`}>
+                      {statusLabels[selected.status]}
+                    </span>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Ordered</p>
+                    <p className="text-gray-900">{selected.orderedAt ? formatDate(selected.orderedAt) : '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Expected</p>
+                    <p className="text-gray-900">{selected.expectedAt ? formatDate(selected.expectedAt) : '-'}</p>
+                  </div>
+                </div>
+
+                {selected.notes && (
+                  <p className="text-sm text-gray-700 whitespace-pre-line">{selected.notes}</p>
+                )}
+
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ordered</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost</th>
+                      {canReceive && (
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Receive Now</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {selected.items.map(item => (
+                      <tr key={item.id}>
+                        <td className="px-3 py-2 text-sm text-gray-900">{getLineName(item)}</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">{item.quantity}</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">{item.receivedQuantity}</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">{formatPrice(item.unitCost)}</td>
+                        {canReceive && (
+                          <td className="px-3 py-2 text-sm">
+                            <input
+                              type="number"
+                              min="0"
+                              max={item.outstandingQuantity}
+                              value={receiveQuantities[item.id] ?? 0}
+                              onChange={(e) => setReceiveQuantities({ ...receiveQuantities, [item.id]: parseInt(e.target.value) || 0 })}
+                              disabled={item.outstandingQuantity === 0}
+                              className="w-24 border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            />
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-sm text-gray-700 text-right">
+                  Received {formatPrice(selected.receivedTotal)} of {formatPrice(selected.total)}
+                </p>
+
+                {canReceive && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Note (optional)</label>
+                      <input
+                        type="text"
+                        value={receiveNote}
+                        onChange={(e) => setReceiveNote(e.target.value)}
+                        placeholder="Truck, delivery slip number..."
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-3">
+                      <Button type="button" variant="outline" onClick={closeDetail}>Cancel</Button>
+                      <Button type="button" variant="primary" onClick={handleReceive} disabled={isSubmitting}>Receive Delivery</Button>
+                    </div>
+                  </>
+                )}
+
+                {selected.status === 'DRAFT' && (
+                  <div className="flex justify-end space-x-3">
+                    <Button type="button" variant="outline" onClick={handleDelete} disabled={isSubmitting}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => openEdit(selected)} disabled={isSubmitting}>Edit</Button>
+                    <Button type="button" variant="primary" onClick={handlePlace} disabled={isSubmitting}>Mark as Ordered</Button>
+                  </div>
+                )}
+
+                {selected.receipts && selected.receipts.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-1">Deliveries</p>
+                    <ul className="text-sm text-gray-900 space-y-1">
+                      {selected.receipts.map(receipt => (
+                        <li key={receipt.id}>
+                          {formatDateTime(receipt.receivedAt)}: {getLineName(receipt)} × {receipt.quantity}
+                          {receipt.receivedBy && <span className="text-gray-500"> by {receipt.receivedBy.name}</span>}
+                          {receipt.note && <span className="text-gray-500"> ({receipt.note})</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </Modal>
+          )}
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default PurchaseOrdersPage;
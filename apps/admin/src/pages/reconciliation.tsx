@@ -0,0 +1,400 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { RefreshCw, Landmark, Upload } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { adminApiClient } from '@/lib/api';
+import {
+  BankAccount,
+  BankStatement,
+  BankStatementDetail,
+  BankStatementLine,
+  PaymentQueueOrder,
+  ReconciliationOrder,
+  StatementLineStatus,
+  StatementMatchField
+} from '@/types';
+
+const lineFilters: Array<{ value: StatementLineStatus | 'all'; label: string }> = [
+  { value: 'MATCHED', label: 'Matched' },
+  { value: 'AMBIGUOUS', label: 'Ambiguous' },
+  { value: 'UNMATCHED', label: 'Unmatched' },
+  { value: 'CONFIRMED', label: 'Confirmed' },
+  { value: 'all', label: 'All' },
+];
+
+const statusColors: Record<StatementLineStatus, string> = {
+  MATCHED: 'bg-green-100 text-green-700',
+  AMBIGUOUS: 'bg-yellow-100 text-yellow-700',
+  UNMATCHED: 'bg-red-100 text-red-700',
+  CONFIRMED: 'bg-blue-100 text-blue-700',
+};
+
+const matchLabels: Record<StatementMatchField, string> = {
+  transactionId: 'Transaction ID',
+  amount: 'Amount',
+  accountNo: 'Sender account',
+};
+
+const formatPrice = (amount: number) => `${amount.toLocaleString()} MMK`;
+
+const formatDate = (date: string) => new Date(date).toLocaleString();
+
+const formatDay = (date: string) => new Date(date).toLocaleDateString();
+
+const formatOrderNumber = (id: string) => `#${id.slice(-8).toUpperCase()}`;
+
+const formatOrderOption = (order: ReconciliationOrder | PaymentQueueOrder) =>
+  `${formatOrderNumber(order.id)} · ${formatPrice(order.totalAmount)} · ${order.customer.name || order.customer.email}`;
+
+const ReconciliationPage: React.FC = () => {
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [statement, setStatement] = useState<BankStatementDetail | null>(null);
+  const [pendingOrders, setPendingOrders] = useState<PaymentQueueOrder[]>([]);
+  const [uploadAccountId, setUploadAccountId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [lineFilter, setLineFilter] = useState<StatementLineStatus | 'all'>('MATCHED');
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadStatements = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await adminApiClient.getBankStatements();
+      setStatements(data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load bank statements');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    adminApiClient.getBankAccounts()
+      .then(setAccounts)
+      .catch((e: any) => console.error('Failed to load company accounts:', e));
+    loadStatements();
+  }, []);
+
+  // Unmatched lines can be confirmed against any transfer still waiting on the same account
+  const showStatement = async (detail: BankStatementDetail) => {
+    setStatement(detail);
+    setChoices({});
+    setLineFilter(detail.counts.MATCHED > 0 ? 'MATCHED' : 'all');
+    try {
+      const queue = await adminApiClient.getPaymentQueue(detail.companyAccountId);
+      setPendingOrders(queue.orders);
+    } catch (e: any) {
+      console.error('Failed to load pending transfers:', e);
+      setPendingOrders([]);
+    }
+  };
+
+  const openStatement = async (id: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await showStatement(await adminApiClient.getBankStatement(id));
+    } catch (e: any) {
+      setError(e.message || 'Failed to load bank statement');
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!uploadAccountId || !file) {
+      setError('Choose the company account and the statement file');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const detail = await adminApiClient.uploadBankStatement(uploadAccountId, file);
+      const total = detail.lines.length;
+      setNotice(`${detail.counts.MATCHED} of ${total} payments matched, ${detail.counts.AMBIGUOUS} ambiguous, ${detail.counts.UNMATCHED} unmatched`);
+      setFile(null);
+      await showStatement(detail);
+      await loadStatements();
+    } catch (e: any) {
+      setError(e.message || 'Failed to upload bank statement');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async (line: BankStatementLine) => {
+    if (!statement) return;
+    const orderId = choices[line.id] || line.order?.id;
+    if (!orderId) {
+      setError(`Choose the order for row ${line.row}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const updated = await adminApiClient.confirmStatementLine(statement.id, line.id, orderId);
+      setStatement({
+        ...statement,
+        counts: {
+          ...statement.counts,
+          [line.status]: statement.counts[line.status] - 1,
+          CONFIRMED: statement.counts.CONFIRMED + 1,
+        },
+        lines: statement.lines.map(l => l.id === updated.id ? updated : l),
+      });
+      setPendingOrders(pendingOrders.filter(order => order.id !== orderId));
+      setNotice(`Payment for order ${formatOrderNumber(orderId)} confirmed`);
+    } catch (e: any) {
+      setError(e.message || 'Failed to confirm payment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const visibleLines = statement
+    ? statement.lines.filter(line => lineFilter === 'all' || line.status === lineFilter)
+    : [];
+
+  const renderOrderCell = (line: BankStatementLine) => {
+    if (line.order) {
+      return (
+        <>
+          <div className="font-mono">{formatOrderNumber(line.order.id)}</div>
+          <div className="text-gray-500">{line.order.customer.name || line.order.customer.email}</div>
+          {line.matchedOn.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {line.matchedOn.map(field => (
+                <span key={field} className="px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-700">{matchLabels[field]}</span>
+              ))}
+            </div>
+          )}
+        </>
+      );
+    }
+
+    const options = line.status === 'AMBIGUOUS' && line.candidates.length > 0 ? line.candidates : pendingOrders;
+    return (
+      <select
+        value={choices[line.id] || ''}
+        onChange={(e) => setChoices({ ...choices, [line.id]: e.target.value })}
+        className="border border-gray-300 rounded-md px-2 py-1 text-sm max-w-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+      >
+        <option value="">{options.length > 0 ? 'Choose an order' : 'No pending transfers'}</option>
+        {options.map(order => (
+          <option key={order.id} value={order.id}>{formatOrderOption(order)}</option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Reconciliation - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Reconciliation</h1>
+              <p className="text-gray-600">Upload bank and wallet statements and confirm the transfers they contain</p>
+            </div>
+            <Button variant="outline" onClick={loadStatements} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {error && (
+            <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+          )}
+          {notice && (
+            <div className="p-3 rounded bg-green-50 text-green-700 border border-green-200">{notice}</div>
+          )}
+
+          {/* Upload */}
+          <Card className="p-6">
+            <form onSubmit={handleUpload} className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Company account</label>
+                <select
+                  value={uploadAccountId}
+                  onChange={(e) => setUploadAccountId(e.target.value)}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  <option value="">Choose an account</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.type} - {account.accountName}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Statement (.csv or .xlsx)</label>
+                <input
+                  key={file ? 'selected' : 'empty'}
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="block text-sm text-gray-700"
+                />
+              </div>
+              <Button type="submit" disabled={isSubmitting}>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload and match
+              </Button>
+            </form>
+          </Card>
+
+          {/* Statement lines */}
+          {statement && (
+            <Card>
+              <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                    <Landmark className="h-5 w-5 mr-2" />
+                    {statement.filename}
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    {statement.companyAccount.name}
+                    {statement.periodStart && statement.periodEnd && ` · ${formatDay(statement.periodStart)} - ${formatDay(statement.periodEnd)}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {lineFilters.map(filter => (
+                    <button
+                      key={filter.value}
+                      onClick={() => setLineFilter(filter.value)}
+                      className={`px-3 py-1 text-sm rounded-full ${
+                        lineFilter === filter.value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {filter.label}
+                      {filter.value !== 'all' && ` (${statement.counts[filter.value]})`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="p-6">
+                {visibleLines.length === 0 ? (
+                  <div className="text-gray-500">No statement lines in this view.</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead>
+                        <tr>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Statement Details</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {visibleLines.map(line => (
+                          <tr key={line.id}>
+                            <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">{line.row}</td>
+                            <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(line.postedAt)}</td>
+                            <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">{formatPrice(line.amount)}</td>
+                            <td className="px-4 py-4 text-sm text-gray-900 max-w-xs">
+                              {line.transactionId && <div className="font-mono">{line.transactionId}</div>}
+                              {(line.accountName || line.accountNo) && (
+                                <div className="text-gray-500">{[line.accountName, line.accountNo].filter(Boolean).join(' · ')}</div>
+                              )}
+                              {line.description && <div className="text-xs text-gray-500 line-clamp-2">{line.description}</div>}
+                            </td>
+                            <td className="px-4 py-4 whitespace-nowrap text-sm">
+                              <span className={`px-2 py-1 text-xs rounded-full ${statusColors[line.status]}`}>{line.status}</span>
+                            </td>
+                            <td className="px-4 py-4 text-sm text-gray-900">{renderOrderCell(line)}</td>
+                            <td className="px-4 py-4 whitespace-nowrap text-sm">
+                              {line.status !== 'CONFIRMED' && (
+                                <Button size="sm" onClick={() => handleConfirm(line)} disabled={isSubmitting}>
+                                  Confirm
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </Card>
+          )}
+
+          {/* Uploaded statements */}
+          <Card>
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Uploaded Statements</h3>
+            </div>
+            <div className="p-6">
+              {isLoading ? (
+                <div className="text-gray-500">Loading...</div>
+              ) : statements.length === 0 ? (
+                <div className="text-gray-500">No statements uploaded yet.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lines</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uploaded</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {statements.map(item => (
+                        <tr
+                          key={item.id}
+                          onClick={() => openStatement(item.id)}
+                          className={`cursor-pointer hover:bg-gray-50 ${statement?.id === item.id ? 'bg-gray-50' : ''}`}
+                        >
+                          <td className="px-6 py-4 text-sm text-gray-900">{item.filename}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.companyAccount.name}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {item.periodStart && item.periodEnd ? `${formatDay(item.periodStart)} - ${formatDay(item.periodEnd)}` : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="flex gap-1">
+                              {(Object.keys(statusColors) as StatementLineStatus[]).map(status => (
+                                <span key={status} title={status} className={`px-2 py-0.5 text-xs rounded-full ${statusColors[status]}`}>
+                                  {item.counts[status]}
+                                </span>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            <div>{formatDate(item.createdAt)}</div>
+                            <div>{item.uploadedBy.name}</div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default ReconciliationPage;
@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { RefreshCw, RotateCcw, Eye } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import { adminApiClient } from '@/lib/api';
+import { ReturnRequest, ReturnRequestStatus, ReturnReason } from '@/types';
+
+const statusFilters: Array<{ value: ReturnRequestStatus | 'all'; label: string }> = [
+  { value: 'REQUESTED', label: 'Requested' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'RECEIVED', label: 'Received' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'all', label: 'All' },
+];
+
+const reasonLabels: Record<ReturnReason, string> = {
+  DAMAGED_BAG: 'Damaged bag',
+  WRONG_ITEM: 'Wrong item',
+  QUALITY_ISSUE: 'Quality issue',
+  PESTS: 'Pests',
+  OTHER: 'Other',
+};
+
+const statusColors: Record<ReturnRequestStatus, string> = {
+  REQUESTED: 'bg-yellow-100 text-yellow-700',
+  APPROVED: 'bg-blue-100 text-blue-700',
+  REJECTED: 'bg-red-100 text-red-700',
+  RECEIVED: 'bg-green-100 text-green-700',
+};
+
+const formatPrice = (amount: number) => `${amount.toLocaleString()} MMK`;
+
+const formatDate = (date: string) => new Date(date).toLocaleString();
+
+const ReturnsPage: React.FC = () => {
+  const [returnRequests, setReturnRequests] = useState<ReturnRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReturnRequestStatus | 'all'>('REQUESTED');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ReturnRequest | null>(null);
+  const [adminNote, setAdminNote] = useState('');
+  const [refund, setRefund] = useState(true);
+  const [restock, setRestock] = useState(true);
+  const [modalError, setModalError] = useState<string | null>(null);
+
+  const loadReturnRequests = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await adminApiClient.getReturnRequests(statusFilter);
+      setReturnRequests(data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load return requests');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReturnRequests();
+  }, [statusFilter]);
+
+  const openReview = (returnRequest: ReturnRequest) => {
+    setSelected(returnRequest);
+    setAdminNote(returnRequest.adminNote || '');
+    setRefund(true);
+    setRestock(true);
+    setModalError(null);
+  };
+
+  const closeReview = () => {
+    setSelected(null);
+    setModalError(null);
+  };
+
+  const runAction = async (action: () => Promise<ReturnRequest>) => {
+    setIsSubmitting(true);
+    setModalError(null);
+    try {
+      const updated = await action();
+      setReturnRequests(returnRequests
+        .map(r => r.id === updated.id ? updated : r)
+        .filter(r => statusFilter === 'all' || r.status === statusFilter));
+      closeReview();
+    } catch (e: any) {
+      setModalError(e.message || 'Failed to update return request');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!selected) return;
+    runAction(() => adminApiClient.approveReturnRequest(selected.id, adminNote.trim() || undefined));
+  };
+
+  const handleReject = () => {
+    if (!selected) return;
+    if (!adminNote.trim()) {
+      setModalError('Add a note explaining why the return was rejected');
+      return;
+    }
+    runAction(() => adminApiClient.rejectReturnRequest(selected.id, adminNote.trim()));
+  };
+
+  const handleReceive = () => {
+    if (!selected) return;
+    runAction(() => adminApiClient.receiveReturnRequest(selected.id, { refund, restock }));
+  };
+
+  const getReturnValue = (returnRequest: ReturnRequest) =>
+    returnRequest.items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+
+  return (
+    <>
+      <Head>
+        <title>Returns - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Returns</h1>
+              <p className="text-gray-600">Review customer return requests and record returned bags</p>
+            </div>
+            <Button variant="outline" onClick={loadReturnRequests} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          <Card>
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <RotateCcw className="h-5 w-5 mr-2" />
+                Return Queue
+              </h3>
+              <div className="flex items-center space-x-2">
+                {statusFilters.map(filter => (
+                  <button
+                    key={filter.value}
+                    onClick={() => setStatusFilter(filter.value)}
+                    className={`px-3 py-1 text-sm rounded-full ${
+                      statusFilter === filter.value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {filter.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="p-6">
+              {error && (
+                <div className="mb-4 p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+              )}
+              {isLoading ? (
+                <div className="text-gray-500">Loading...</div>
+              ) : returnRequests.length === 0 ? (
+                <div className="text-gray-500">No return requests in this view.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Submitted</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {returnRequests.map(returnRequest => (
+                        <tr key={returnRequest.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                            #{returnRequest.orderId.slice(-8).toUpperCase()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            <div>{returnRequest.customer.name || '-'}</div>
+                            <div className="text-gray-500">{returnRequest.customer.email}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {returnRequest.items.map(item => (
+                              <div key={item.id}>{item.product.name_en}{item.variant && ` (${item.variant.label})`} × {item.quantity}</div>
+                            ))}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {reasonLabels[returnRequest.reason]}
+                            {returnRequest.photos.length > 0 && (
+                              <div className="text-xs text-gray-500">{returnRequest.photos.length} photo(s)</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <span className={`px-2 py-1 text-xs rounded-full ${statusColors[returnRequest.status]}`}>
+                              {returnRequest.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(returnRequest.createdAt)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <button onClick={() => openReview(returnRequest)} className="text-green-600 hover:text-green-900">
+                              <Eye className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Review Modal */}
+          {selected && (
+            <Modal isOpen={!!selected} onClose={closeReview} title={`Return for Order #${selected.orderId.slice(-8).toUpperCase()}`}>
+              <div className="space-y-4">
+                {modalError && (
+                  <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200">{modalError}</div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Status</p>
+                    <span className={`px-2 py-1 text-xs rounded-full ${statusColors[selected.status]}`}>{selected.status}</span>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Order Status</p>
+                    <p className="text-gray-900">{selected.order.status} ({selected.order.paymentType})</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Reason</p>
+                    <p className="text-gray-900">{reasonLabels[selected.reason]}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Item Value</p>
+                    <p className="text-gray-900">{formatPrice(getReturnValue(selected))}</p>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-sm text-gray-500 mb-1">Items</p>
+                  <ul className="text-sm text-gray-900 space-y-1">
+                    {selected.items.map(item => (
+                      <li key={item.id}>
+                        {item.product.name_en}{item.variant && ` (${item.variant.label})`}: {item.quantity} of {item.orderedQuantity} @ {formatPrice(item.unitPrice)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {selected.note && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Customer Note</p>
+                    <p className="text-sm text-gray-900 whitespace-pre-line">{selected.note}</p>
+                  </div>
+                )}
+
+                {selected.photos.length > 0 && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Photos</p>
+                    <div className="flex flex-wrap gap-2">
+                      {selected.photos.map(photo => (
+                        <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                          <img src={photo} alt="Return photo" className="w-20 h-20 object-cover rounded border border-gray-200" />
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selected.status === 'REQUESTED' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Note to customer</label>
+                      <textarea
+                        rows={3}
+                        value={adminNote}
+                        onChange={(e) => setAdminNote(e.target.value)}
+                        placeholder="Required when rejecting"
+                        className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-3">
+                      <Button type="button" variant="outline" onClick={handleReject} disabled={isSubmitting}>Reject</Button>
+                      <Button type="button" variant="primary" onClick={handleApprove} disabled={isSubmitting}>Approve</Button>
+                    </div>
+                  </>
+                )}
+
+                {selected.status === 'APPROVED' && (
+                  <>
+                    <div className="space-y-2">
+                      <div className="flex items-center">
+                        <input
+                          id="refund"
+                          type="checkbox"
+                          checked={refund}
+                          onChange={(e) => setRefund(e.target.checked)}
+                          className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                        />
+                        <label htmlFor="refund" className="ml-2 block text-sm text-gray-700">Refund the returned items</label>
+                      </div>
+                      <div className="flex items-center">
+                        <input
+                          id="restock"
+                          type="checkbox"
+                          checked={restock}
+                          onChange={(e) => setRestock(e.target.checked)}
+                          className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                        />
+                        <label htmlFor="restock" className="ml-2 block text-sm text-gray-700">Return the bags to stock</label>
+                      </div>
+                    </div>
+                    <div className="flex justify-end space-x-3">
+                      <Button type="button" variant="outline" onClick={closeReview}>Cancel</Button>
+                      <Button type="button" variant="primary" onClick={handleReceive} disabled={isSubmitting}>Mark Received</Button>
+                    </div>
+                  </>
+                )}
+
+                {(selected.status === 'REJECTED' || selected.status === 'RECEIVED') && selected.adminNote && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Admin Note</p>
+                    <p className="text-sm text-gray-900">{selected.adminNote}</p>
+                  </div>
+                )}
+              </div>
+            </Modal>
+          )}
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default ReturnsPage;
@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { RefreshCw, Star, Eye } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import { adminApiClient } from '@/lib/api';
+import { Review, ReviewStatus } from '@/types';
+
+const statusFilters: Array<{ value: ReviewStatus | 'all'; label: string }> = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'HIDDEN', label: 'Hidden' },
+  { value: 'all', label: 'All' },
+];
+
+const statusColors: Record<ReviewStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-700',
+  APPROVED: 'bg-green-100 text-green-700',
+  HIDDEN: 'bg-gray-100 text-gray-700',
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleString();
+
+const formatStars = (rating: number) => '★'.repeat(rating) + '☆'.repeat(5 - rating);
+
+const ReviewsPage: React.FC = () => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('PENDING');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Review | null>(null);
+  const [moderationNote, setModerationNote] = useState('');
+  const [modalError, setModalError] = useState<string | null>(null);
+
+  const loadReviews = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await adminApiClient.getReviews(statusFilter);
+      setReviews(data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load reviews');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReviews();
+  }, [statusFilter]);
+
+  const openReview = (review: Review) => {
+    setSelected(review);
+    setModerationNote(review.moderationNote || '');
+    setModalError(null);
+  };
+
+  const closeReview = () => {
+    setSelected(null);
+    setModalError(null);
+  };
+
+  const runAction = async (action: () => Promise<Review>) => {
+    setIsSubmitting(true);
+    setModalError(null);
+    try {
+      const updated = await action();
+      setReviews(reviews
+        .map(r => r.id === updated.id ? updated : r)
+        .filter(r => statusFilter === 'all' || r.status === statusFilter));
+      closeReview();
+    } catch (e: any) {
+      setModalError(e.message || 'Failed to update review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!selected) return;
+    runAction(() => adminApiClient.approveReview(selected.id));
+  };
+
+  const handleHide = () => {
+    if (!selected) return;
+    runAction(() => adminApiClient.hideReview(selected.id, moderationNote.trim() || undefined));
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Reviews - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Reviews</h1>
+              <p className="text-gray-600">Approve customer reviews before they appear on the store, or hide them</p>
+            </div>
+            <Button variant="outline" onClick={loadReviews} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          <Card>
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Star className="h-5 w-5 mr-2" />
+                Moderation Queue
+              </h3>
+              <div className="flex items-center space-x-2">
+                {statusFilters.map(filter => (
+                  <button
+                    key={filter.value}
+                    onClick={() => setStatusFilter(filter.value)}
+                    className={`px-3 py-1 text-sm rounded-full ${
+                      statusFilter === filter.value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {filter.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="p-6">
+              {error && (
+                <div className="mb-4 p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+              )}
+              {isLoading ? (
+                <div className="text-gray-500">Loading...</div>
+              ) : reviews.length === 0 ? (
+                <div className="text-gray-500">No reviews in this view.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rating</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comment</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Submitted</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {reviews.map(review => (
+                        <tr key={review.id}>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {review.product.name_en}{review.variant && ` (${review.variant.label})`}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            <div>{review.customer.name || '-'}</div>
+                            <div className="text-gray-500">{review.customer.email}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-yellow-500">{formatStars(review.rating)}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900 max-w-xs">
+                            <div className="line-clamp-2">{review.comment_en || review.comment_my || '-'}</div>
+                            {review.photos.length > 0 && (
+                              <div className="text-xs text-gray-500">{review.photos.length} photo(s)</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <span className={`px-2 py-1 text-xs rounded-full ${statusColors[review.status]}`}>
+                              {review.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(review.createdAt)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <button onClick={() => openReview(review)} className="text-green-600 hover:text-green-900">
+                              <Eye className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Moderation Modal */}
+          {selected && (
+            <Modal isOpen={!!selected} onClose={closeReview} title={`Review of ${selected.product.name_en}`}>
+              <div className="space-y-4">
+                {modalError && (
+                  <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200">{modalError}</div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Status</p>
+                    <span className={`px-2 py-1 text-xs rounded-full ${statusColors[selected.status]}`}>{selected.status}</span>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Rating</p>
+                    <p className="text-yellow-500">{formatStars(selected.rating)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Customer</p>
+                    <p className="text-gray-900">{selected.customer.name || selected.customer.email}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Order</p>
+                    <p className="text-gray-900 font-mono">#{selected.orderId.slice(-8).toUpperCase()}</p>
+                  </div>
+                </div>
+
+                {selected.comment_en && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Comment (English)</p>
+                    <p className="text-sm text-gray-900 whitespace-pre-line">{selected.comment_en}</p>
+                  </div>
+                )}
+
+                {selected.comment_my && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Comment (Myanmar)</p>
+                    <p className="text-sm text-gray-900 whitespace-pre-line">{selected.comment_my}</p>
+                  </div>
+                )}
+
+                {selected.photos.length > 0 && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Photos</p>
+                    <div className="flex flex-wrap gap-2">
+                      {selected.photos.map(photo => (
+                        <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                          <img src={photo} alt="Review photo" className="w-20 h-20 object-cover rounded border border-gray-200" />
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selected.moderatedAt && (
+                  <p className="text-xs text-gray-500">
+                    Last moderated {formatDate(selected.moderatedAt)}{selected.moderatedBy?.name && ` by ${selected.moderatedBy.name}`}
+                  </p>
+                )}
+
+                {selected.status !== 'HIDDEN' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reason for hiding</label>
+                    <textarea
+                      rows={2}
+                      value={moderationNote}
+                      onChange={(e) => setModerationNote(e.target.value)}
+                      placeholder="Optional; only admins see it"
+                      className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                )}
+
+                {selected.status === 'HIDDEN' && selected.moderationNote && (
+                  <div>
+                    <p className="text-sm text-gray-500 mb-1">Reason for hiding</p>
+                    <p className="text-sm text-gray-900">{selected.moderationNote}</p>
+                  </div>
+                )}
+
+                <div className="flex justify-end space-x-3">
+                  <Button type="button" variant="outline" onClick={closeReview}>Cancel</Button>
+                  {selected.status !== 'HIDDEN' && (
+                    <Button type="button" variant="outline" onClick={handleHide} disabled={isSubmitting}>Hide</Button>
+                  )}
+                  {selected.status !== 'APPROVED' && (
+                    <Button type="button" variant="primary" onClick={handleApprove} disabled={isSubmitting}>Approve</Button>
+                  )}
+                </div>
+              </div>
+            </Modal>
+          )}
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default ReviewsPage;
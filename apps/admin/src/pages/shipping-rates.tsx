@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { Plus, Edit, Trash2, RefreshCw, Truck } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import { adminApiClient } from '@/lib/api';
+import { ShippingRate, ShippingRateFormData } from '@/types';
+
+const emptyForm: ShippingRateFormData = {
+  region: '',
+  township: '',
+  minWeightKg: 0,
+  maxWeightKg: null,
+  fee: 0,
+  freeAboveAmount: null,
+  enabled: true,
+};
+
+const formatPrice = (amount: number) => `${amount.toLocaleString()} MMK`;
+
+const formatWeightBand = (rate: ShippingRate) =>
+  rate.maxWeightKg !== null ? `${rate.minWeightKg} – ${rate.maxWeightKg} kg` : `${rate.minWeightKg} kg +`;
+
+const ShippingRatesPage: React.FC = () => {
+  const [rates, setRates] = useState<ShippingRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<ShippingRate | null>(null);
+  const [formData, setFormData] = useState<ShippingRateFormData>(emptyForm);
+
+  const loadRates = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await adminApiClient.getShippingRates();
+      setRates(data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load shipping rates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const resetForm = () => {
+    setEditing(null);
+    setFormData(emptyForm);
+  };
+
+  const openCreate = () => {
+    resetForm();
+    setShowModal(true);
+  };
+
+  const openEdit = (rate: ShippingRate) => {
+    setEditing(rate);
+    setFormData({
+      region: rate.region,
+      township: rate.township || '',
+      minWeightKg: rate.minWeightKg,
+      maxWeightKg: rate.maxWeightKg,
+      fee: rate.fee,
+      freeAboveAmount: rate.freeAboveAmount,
+      enabled: rate.enabled,
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const payload = { ...formData, township: formData.township || null };
+      if (editing) {
+        const updated = await adminApiClient.updateShippingRate(editing.id, payload);
+        setRates(rates.map(r => r.id === updated.id ? updated : r));
+      } else {
+        const created = await adminApiClient.createShippingRate(payload);
+        setRates([...rates, created]);
+      }
+      setShowModal(false);
+      resetForm();
+    } catch (e: any) {
+      setError(e.message || 'Failed to save shipping rate');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this shipping rate?')) return;
+    try {
+      await adminApiClient.deleteShippingRate(id);
+      setRates(rates.filter(r => r.id !== id));
+    } catch (e: any) {
+      alert(e.message || 'Failed to delete');
+    }
+  };
+
+  const parseOptionalNumber = (value: string) => (value === '' ? null : parseFloat(value));
+
+  return (
+    <>
+      <Head>
+        <title>Shipping Rates - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Shipping Rates</h1>
+              <p className="text-gray-600">Delivery fees by region, township and total cart weight</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" onClick={loadRates} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button onClick={openCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rate
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Truck className="h-5 w-5 mr-2" />
+                Rate Table
+              </h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Township rates take precedence over region-wide rates. Weight bands include the minimum and exclude the maximum.
+              </p>
+            </div>
+            <div className="p-6">
+              {error && (
+                <div className="mb-4 p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+              )}
+              {isLoading ? (
+                <div className="text-gray-500">Loading...</div>
+              ) : rates.length === 0 ? (
+                <div className="text-gray-500">No shipping rates yet. Customers cannot check out until a rate covers their region.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Region</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Township</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weight</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fee</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Free Above</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {rates.map(rate => (
+                        <tr key={rate.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rate.region}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rate.township || 'All townships'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatWeightBand(rate)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatPrice(rate.fee)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {rate.freeAboveAmount !== null ? formatPrice(rate.freeAboveAmount) : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <span className={`px-2 py-1 text-xs rounded-full ${rate.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                              {rate.enabled ? 'Active' : 'Disabled'}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <div className="flex items-center space-x-2">
+                              <button onClick={() => openEdit(rate)} className="text-green-600 hover:text-green-900">
+                                <Edit className="h-4 w-4" />
+                              </button>
+                              <button onClick={() => handleDelete(rate.id)} className="text-red-600 hover:text-red-900">
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Create/Edit Modal */}
+          {showModal && (
+            <Modal isOpen={showModal} onClose={() => { setShowModal(false); resetForm(); }} title={editing ? 'Edit Shipping Rate' : 'Add Shipping Rate'}>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Region</label>
+                    <input
+                      type="text"
+                      value={formData.region}
+                      onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+                      required
+                      placeholder="Yangon"
+                      className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Township (optional)</label>
+                    <input
+                      type="text"
+                      value={formData.township || ''}
+                      onChange={(e) => setFormData({ ...formData, township: e.target.value })}
+                      placeholder="All townships"
+                      className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Min Weight (kg)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.minWeightKg}
+                      onChange={(e) => setFormData({ ...formData, minWeightKg: parseFloat(e.target.value) || 0 })}
+                      required
+                      className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Max Weight (kg, optional)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.maxWeightKg ?? ''}
+                      onChange={(e) => setFormData({ ...formData, maxWeightKg: parseOptionalNumber(e.target.value) })}
+                      placeholder="No limit"
+                      className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Fee (MMK)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.fee}
+                      onChange={(e) => setFormData({ ...formData, fee: parseFloat(e.target.value) || 0 })}
+                      required
+                      className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Free Above (MMK, optional)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.freeAboveAmount ?? ''}
+                      onChange={(e) => setFormData({ ...formData, freeAboveAmount: parseOptionalNumber(e.target.value) })}
+                      placeholder="Never free"
+                      className="block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <input
+                    id="enabled"
+                    type="checkbox"
+                    checked={!!formData.enabled}
+                    onChange={(e) => setFormData({ ...formData, enabled: e.target.checked })}
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="enabled" className="ml-2 block text-sm text-gray-700">Active</label>
+                </div>
+                <div className="flex justify-end space-x-3">
+                  <Button type="button" variant="outline" onClick={() => { setShowModal(false); resetForm(); }}>Cancel</Button>
+                  <Button type="submit" variant="primary" disabled={isSubmitting}>
+                    {editing ? 'Update' : 'Create'}
+                  </Button>
+                </div>
+              </form>
+            </Modal>
+          )}
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default ShippingRatesPage;
@@ -1,16 +1,49 @@
 import React, { useState, useEffect } from 'react';
 import Head from 'next/head';
-import { Plus, Package, TrendingUp, DollarSign, Calendar, RefreshCw } from 'lucide-react';
+import { useRouter } from 'next/router';
+import { Plus, Package, TrendingUp, DollarSign, Calendar, RefreshCw, Filter, AlertTriangle } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { adminApiClient } from '@/lib/api';
-import { StockEntry, StockFormData, Product, InventorySummary } from '@/types';
+import {
+  StockEntry,
+  StockFormData,
+  StockFilters,
+  StockMovementType,
+  ManualStockMovementType,
+  Product,
+  InventorySummary
+} from '@/types';
 import AdminLayout from '@/components/layout/AdminLayout';
 import { Card } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import Modal from '@/components/ui/Modal';
 
+const MOVEMENT_TYPES: Record<StockMovementType, { label: string; color: string }> = {
+  PURCHASE: { label: 'Purchase', color: 'text-green-700 bg-green-100' },
+  SALE: { label: 'Sale', color: 'text-blue-700 bg-blue-100' },
+  CANCEL_RESTOCK: { label: 'Cancel Restock', color: 'text-purple-700 bg-purple-100' },
+  RETURN_RESTOCK: { label: 'Return Restock', color: 'text-purple-700 bg-purple-100' },
+  ADJUSTMENT: { label: 'Adjustment', color: 'text-yellow-700 bg-yellow-100' },
+  DAMAGE: { label: 'Damage', color: 'text-red-700 bg-red-100' },
+  TRANSFER: { label: 'Transfer', color: 'text-gray-700 bg-gray-100' },
+};
+
+const MANUAL_MOVEMENT_TYPES: ManualStockMovementType[] = ['PURCHASE', 'ADJUSTMENT', 'DAMAGE', 'TRANSFER'];
+
+const MovementBadge: React.FC<{ type: StockMovementType | null }> = ({ type }) => {
+  const movement = type ? MOVEMENT_TYPES[type] : { label: 'Unclassified', color: 'text-gray-500 bg-gray-100' };
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${movement.color}`}>
+      {movement.label}
+    </span>
+  );
+};
+
 const StockPage: React.FC = () => {
+  const router = useRouter();
+  // Low stock emails link straight to ?view=reorder
+  const view = router.query.view === 'reorder' ? 'reorder' : 'all';
   const [stockEntries, setStockEntries] = useState<StockEntry[]>([]);
   const [inventory, setInventory] = useState<InventorySummary[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
@@ -18,26 +51,31 @@ const StockPage: React.FC = () => {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<StockFilters>({});
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
+    watch,
   } = useForm<StockFormData>();
 
+  // Products sold in several sizes take stock per size
+  const selectedProduct = products.find(product => product.id === watch('productId'));
+  const selectedVariants = selectedProduct?.variants || [];
+
   useEffect(() => {
     const loadData = async () => {
       setIsLoading(true);
       setError(null);
       try {
-        const [stockResponse, inventoryResponse, productsResponse] = await Promise.all([
-          adminApiClient.getStockEntries({ limit: 50 }),
+        const [inventoryResponse, productsResponse] = await Promise.all([
           adminApiClient.getInventorySummary(),
           adminApiClient.getProducts({ limit: 100 }),
         ]);
         
-        setStockEntries(stockResponse.data);
         setInventory(inventoryResponse);
         setProducts(productsResponse.data);
       } catch (error) {
@@ -51,12 +89,31 @@ const StockPage: React.FC = () => {
     loadData();
   }, []);
 
+  // Stock entries reload whenever the filters change
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        const stockResponse = await adminApiClient.getStockEntries({ limit: 50, ...filters });
+        setStockEntries(stockResponse.data);
+      } catch (error) {
+        console.error('Failed to load stock entries:', error);
+        setError('Failed to load stock entries. Please try again.');
+      }
+    };
+
+    loadEntries();
+  }, [filters]);
+
+  const updateFilter = (key: keyof StockFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value || undefined }));
+  };
+
   const refreshData = async () => {
     setIsLoading(true);
     setError(null);
     try {
       const [stockResponse, inventoryResponse, productsResponse] = await Promise.all([
-        adminApiClient.getStockEntries({ limit: 50 }),
+        adminApiClient.getStockEntries({ limit: 50, ...filters }),
         adminApiClient.getInventorySummary(),
         adminApiClient.getProducts({ limit: 100 }),
       ]);
@@ -74,32 +131,59 @@ const StockPage: React.FC = () => {
 
   const onSubmit = async (data: StockFormData) => {
     setIsSubmitting(true);
+    setFormError(null);
     try {
-      const newStockEntry = await adminApiClient.addStockEntry(data);
-      setStockEntries([newStockEntry, ...stockEntries]);
-      
-      // Update inventory summary
-      const updatedInventory = inventory.map(item => {
-        if (item.productId === data.productId) {
-          return {
-            ...item,
-            currentStock: item.currentStock + data.quantity,
-            totalValue: item.totalValue + (data.quantity * data.purchasePrice),
-          };
-        }
-        return item;
+      await adminApiClient.addStockEntry({
+        ...data,
+        quantity: Number(data.quantity),
+        purchasePrice: Number(data.purchasePrice),
+        variantId: selectedVariants.length > 0 ? data.variantId : undefined,
+        note: data.note || undefined,
       });
-      setInventory(updatedInventory);
       
       reset();
       setIsAddModalOpen(false);
-    } catch (error) {
+
+      // Removals are valued at the cost of the lots they draw down, so reload rather than estimate
+      await refreshData();
+    } catch (error: any) {
       console.error('Failed to add stock entry:', error);
+      setFormError(error.response?.data?.error || error.message || 'Failed to add stock entry');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const setView = (nextView: 'all' | 'reorder') => {
+    router.replace({ query: nextView === 'reorder' ? { view: 'reorder' } : {} }, undefined, { shallow: true });
+  };
+
+  const openAddStock = (item?: InventorySummary) => {
+    setFormError(null);
+    reset(item
+      ? { productId: item.productId, quantity: item.suggestedReorderQuantity, type: 'PURCHASE' }
+      : undefined);
+    setIsAddModalOpen(true);
+  };
+
+  const reorderItems = inventory
+    .filter(item => item.lowStock)
+    .sort((a, b) => a.currentStock - b.currentStock);
+
+  const getReference = (entry: StockEntry) => {
+    if (entry.returnRequestId) {
+      return `Return #${entry.returnRequestId.slice(-8).toUpperCase()}`;
+    }
+    if (entry.orderId) {
+      return `Order #${entry.orderId.slice(-8).toUpperCase()}`;
+    }
+    if (entry.purchaseOrder) {
+      const label = entry.purchaseOrder.reference || `PO #${entry.purchaseOrder.id.slice(-8).toUpperCase()}`;
+      return `${label} (${entry.purchaseOrder.supplier.name})`;
+    }
+    return '-';
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       minimumFractionDigits: 0,
@@ -115,12 +199,12 @@ const StockPage: React.FC = () => {
     });
   };
 
-  const getStockStatus = (currentStock: number) => {
-    if (currentStock < 0) {
+  const getStockStatus = (item: InventorySummary) => {
+    if (item.currentStock < 0) {
       return { text: 'Backorder', color: 'text-red-800 bg-red-200 border border-red-300' };
-    } else if (currentStock === 0) {
+    } else if (item.currentStock === 0) {
       return { text: 'Out of Stock', color: 'text-red-600 bg-red-100' };
-    } else if (currentStock <= 10) {
+    } else if (item.lowStock) {
       return { text: 'Low Stock', color: 'text-yellow-600 bg-yellow-100' };
     } else {
       return { text: 'In Stock', color: 'text-green-600 bg-green-100' };
@@ -153,13 +237,32 @@ const StockPage: React.FC = () => {
                 <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
                 Refresh
               </Button>
-              <Button onClick={() => setIsAddModalOpen(true)}>
+              <Button onClick={() => openAddStock()}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Stock
               </Button>
             </div>
           </div>
 
+          {/* View Tabs */}
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex space-x-8">
+              {([['all', 'All Stock'], ['reorder', `Needs Reorder (${reorderItems.length})`]] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setView(tab)}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    view === tab
+                      ? 'border-primary-500 text-primary-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </nav>
+          </div>
+
           {/* Backorder Alert */}
           {inventory.some(item => item.currentStock < 0) && (
             <Card className="border-red-200 bg-red-50">
@@ -204,203 +307,358 @@ const StockPage: React.FC = () => {
             </Card>
           )}
 
-          {/* Inventory Summary */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Needs Reorder */}
+          {view === 'reorder' && (
             <Card>
               <div className="p-6 border-b border-gray-200">
-                <h3 className="text-lg font-semibold text-gray-900">Current Inventory</h3>
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <AlertTriangle className="h-5 w-5 mr-2 text-yellow-500" />
+                  Needs Reorder
+                </h3>
+                <p className="text-sm text-gray-500 mt-1">Products at or below their reorder point, lowest stock first</p>
               </div>
               <div className="p-6">
                 {isLoading ? (
-                  <div className="space-y-3">
-                    {[...Array(5)].map((_, i) => (
-                      <div key={i} className="animate-pulse">
-                        <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
-                        <div className="h-3 bg-gray-200 rounded w-1/2"></div>
-                      </div>
-                    ))}
+                  <div className="text-gray-500">Loading...</div>
+                ) : reorderItems.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500">Every product is above its reorder point</p>
                   </div>
-                ) : inventory.length > 0 ? (
-                  <div className="space-y-4">
-                    {inventory.slice(0, 10).map((item) => {
-                      const status = getStockStatus(item.currentStock);
-                      return (
-                        <div key={item.productId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Product
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            In Stock
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Reserved
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Reorder Point
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Suggested Order
+                          </th>
+                          <th className="px-6 py-3" />
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {reorderItems.map((item) => (
+                          <tr key={item.productId} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm font-medium text-gray-900">{item.productName}</div>
+                              {item.productSku && <div className="text-sm text-gray-500">{item.productSku}</div>}
+                            </td>
+                            <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${item.currentStock <= 0 ? 'text-red-600' : 'text-yellow-600'}`}>
+                              {item.currentStock}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                              {item.reserved}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                              {item.reorderPoint}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {item.suggestedReorderQuantity} bags
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right">
+                              <Button size="sm" onClick={() => openAddStock(item)}>
+                                <Plus className="h-4 w-4 mr-1" />
+                                Add Stock
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </Card>
+          )}
+
+          {/* Inventory Summary */}
+          {view === 'all' && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <div className="p-6 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900">Current Inventory</h3>
+                </div>
+                <div className="p-6">
+                  {isLoading ? (
+                    <div className="space-y-3">
+                      {[...Array(5)].map((_, i) => (
+                        <div key={i} className="animate-pulse">
+                          <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                          <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : inventory.length > 0 ? (
+                    <div className="space-y-4">
+                      {inventory.slice(0, 10).map((item) => {
+                        const status = getStockStatus(item);
+                        return (
+                          <div key={item.productId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                            <div className="flex-1">
+                              <h4 className="font-medium text-gray-900">{item.productName}</h4>
+                              <div className="flex items-center space-x-4 mt-1">
+                                <span className={`text-sm font-medium ${
+                                  item.currentStock < 0 
+                                    ? 'text-red-700' 
+                                    : item.currentStock === 0 
+                                      ? 'text-red-600' 
+                                      : item.lowStock 
+                                        ? 'text-yellow-600' 
+                                        : 'text-gray-600'
+                                }`}>
+                                  Stock: {item.currentStock < 0 ? `${item.currentStock} (Backorder)` : item.currentStock}
+                                </span>
+                                {item.reserved > 0 && (
+                                  <span className="text-sm text-blue-600">
+                                    {item.reserved} reserved
+                                  </span>
+                                )}
+                                <span className="text-sm text-gray-600">
+                                  Value: {formatCurrency(item.totalValue)}
+                                </span>
+                              </div>
+                              {item.variants.length > 0 && (
+                                <div className="text-xs text-gray-500 mt-1">
+                                  {item.variants.map(variant => `${variant.label}: ${variant.currentStock}`).join(' · ')}
+                                </div>
+                              )}
+                            </div>
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.color}`}>
+                              {status.text}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-gray-500">No inventory data available</p>
+                    </div>
+                  )}
+                </div>
+              </Card>
+
+              <Card>
+                <div className="p-6 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900">Recent Stock Entries</h3>
+                </div>
+                <div className="p-6">
+                  {isLoading ? (
+                    <div className="space-y-3">
+                      {[...Array(5)].map((_, i) => (
+                        <div key={i} className="animate-pulse">
+                          <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                          <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : stockEntries.length > 0 ? (
+                    <div className="space-y-3">
+                      {stockEntries.slice(0, 10).map((entry) => (
+                        <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                           <div className="flex-1">
-                            <h4 className="font-medium text-gray-900">{item.productName}</h4>
+                            <h4 className="font-medium text-gray-900">
+                              {entry.product?.name_en || 'Unknown Product'}
+                              {entry.variant && ` (${entry.variant.label})`}
+                            </h4>
                             <div className="flex items-center space-x-4 mt-1">
-                              <span className={`text-sm font-medium ${
-                                item.currentStock < 0 
-                                  ? 'text-red-700' 
-                                  : item.currentStock === 0 
-                                    ? 'text-red-600' 
-                                    : item.currentStock <= 10 
-                                      ? 'text-yellow-600' 
-                                      : 'text-gray-600'
-                              }`}>
-                                Stock: {item.currentStock < 0 ? `${item.currentStock} (Backorder)` : item.currentStock}
+                              <MovementBadge type={entry.type} />
+                              <span className="text-sm text-gray-600">
+                                {entry.quantity < 0 ? entry.quantity : `+${entry.quantity}`} units
                               </span>
                               <span className="text-sm text-gray-600">
-                                Value: {formatCurrency(item.totalValue)}
+                                {formatCurrency(entry.purchasePrice)} each
                               </span>
                             </div>
                           </div>
-                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.color}`}>
-                            {status.text}
-                          </span>
+                          <div className="text-right">
+                            <p className="text-sm text-gray-500">
+                              {formatDate(entry.createdAt)}
+                            </p>
+                            <p className="text-sm font-medium text-gray-900">
+                              {formatCurrency(entry.quantity * entry.purchasePrice)}
+                            </p>
+                          </div>
                         </div>
-                      );
-                    })}
-                  </div>
-                ) : (
-                  <div className="text-center py-8">
-                    <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <p className="text-gray-500">No inventory data available</p>
-                  </div>
-                )}
-              </div>
-            </Card>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-gray-500">No stock entries found</p>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            </div>
+          )}
 
+          {/* All Stock Entries Table */}
+          {view === 'all' && (
             <Card>
               <div className="p-6 border-b border-gray-200">
-                <h3 className="text-lg font-semibold text-gray-900">Recent Stock Entries</h3>
+                <h3 className="text-lg font-semibold text-gray-900">All Stock Entries</h3>
+                <div className="mt-4 flex flex-wrap items-center gap-3">
+                  <Filter className="h-4 w-4 text-gray-400" />
+                  <select
+                    value={filters.type || ''}
+                    onChange={(e) => updateFilter('type', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="">All movements</option>
+                    {(Object.keys(MOVEMENT_TYPES) as StockMovementType[]).map(type => (
+                      <option key={type} value={type}>{MOVEMENT_TYPES[type].label}</option>
+                    ))}
+                    <option value="UNCLASSIFIED">Unclassified</option>
+                  </select>
+                  <select
+                    value={filters.productId || ''}
+                    onChange={(e) => updateFilter('productId', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="">All products</option>
+                    {products.map((product) => (
+                      <option key={product.id} value={product.id}>{product.name_en}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={filters.orderId || ''}
+                    onChange={(e) => updateFilter('orderId', e.target.value.trim())}
+                    placeholder="Order ID"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                  <input
+                    type="text"
+                    value={filters.search || ''}
+                    onChange={(e) => updateFilter('search', e.target.value)}
+                    placeholder="Search notes"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
               </div>
               <div className="p-6">
                 {isLoading ? (
-                  <div className="space-y-3">
-                    {[...Array(5)].map((_, i) => (
-                      <div key={i} className="animate-pulse">
-                        <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
-                        <div className="h-3 bg-gray-200 rounded w-1/2"></div>
-                      </div>
+                  <div className="animate-pulse">
+                    <div className="h-10 bg-gray-200 rounded mb-4"></div>
+                    {[...Array(10)].map((_, i) => (
+                      <div key={i} className="h-12 bg-gray-200 rounded mb-2"></div>
                     ))}
                   </div>
                 ) : stockEntries.length > 0 ? (
-                  <div className="space-y-3">
-                    {stockEntries.slice(0, 10).map((entry) => (
-                      <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                        <div className="flex-1">
-                          <h4 className="font-medium text-gray-900">
-                            {entry.product?.name_en || 'Unknown Product'}
-                          </h4>
-                          <div className="flex items-center space-x-4 mt-1">
-                            <span className="text-sm text-gray-600">
-                              +{entry.quantity} units
-                            </span>
-                            <span className="text-sm text-gray-600">
-                              {formatCurrency(entry.purchasePrice)} each
-                            </span>
-                          </div>
-                        </div>
-                        <div className="text-right">
-                          <p className="text-sm text-gray-500">
-                            {formatDate(entry.createdAt)}
-                          </p>
-                          <p className="text-sm font-medium text-gray-900">
-                            {formatCurrency(entry.quantity * entry.purchasePrice)}
-                          </p>
-                        </div>
-                      </div>
-                    ))}
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Product
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Type
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Quantity
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Purchase Price
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Total Value
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Reference
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Note
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            By
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Date Added
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {stockEntries.map((entry) => (
+                          <tr key={entry.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm font-medium text-gray-900">
+                                {entry.product?.name_en || 'Unknown Product'}
+                                {entry.variant && ` (${entry.variant.label})`}
+                              </div>
+                              {(entry.variant?.sku || entry.product?.sku) && (
+                                <div className="text-sm text-gray-500">
+                                  SKU: {entry.variant?.sku || entry.product?.sku}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <MovementBadge type={entry.type} />
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              <span className={`font-medium ${
+                                entry.quantity < 0 
+                                  ? 'text-red-700' 
+                                  : entry.quantity > 0 
+                                    ? 'text-green-700' 
+                                    : 'text-gray-700'
+                              }`}>
+                                {entry.quantity < 0 ? entry.quantity : `+${entry.quantity}`}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {formatCurrency(entry.purchasePrice)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {formatCurrency(entry.quantity * entry.purchasePrice)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">
+                              {getReference(entry)}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-600 max-w-xs truncate" title={entry.note || undefined}>
+                              {entry.note || '-'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                              {entry.actor?.name || 'System'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {formatDate(entry.createdAt)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </div>
                 ) : (
-                  <div className="text-center py-8">
+                  <div className="text-center py-12">
                     <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <p className="text-gray-500">No stock entries found</p>
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No stock entries</h3>
+                    <p className="text-gray-500 mb-6">
+                      Start by adding stock entries for your products.
+                    </p>
+                    <Button onClick={() => setIsAddModalOpen(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Stock Entry
+                    </Button>
                   </div>
                 )}
               </div>
             </Card>
-          </div>
-
-          {/* All Stock Entries Table */}
-          <Card>
-            <div className="p-6 border-b border-gray-200">
-              <h3 className="text-lg font-semibold text-gray-900">All Stock Entries</h3>
-            </div>
-            <div className="p-6">
-              {isLoading ? (
-                <div className="animate-pulse">
-                  <div className="h-10 bg-gray-200 rounded mb-4"></div>
-                  {[...Array(10)].map((_, i) => (
-                    <div key={i} className="h-12 bg-gray-200 rounded mb-2"></div>
-                  ))}
-                </div>
-              ) : stockEntries.length > 0 ? (
-                <div className="overflow-x-auto">
-                  <table className="min-w-full divide-y divide-gray-200">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Product
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Quantity
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Purchase Price
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Total Value
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Date Added
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      {stockEntries.map((entry) => (
-                        <tr key={entry.id} className="hover:bg-gray-50">
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">
-                              {entry.product?.name_en || 'Unknown Product'}
-                            </div>
-                            {entry.product?.sku && (
-                              <div className="text-sm text-gray-500">
-                                SKU: {entry.product.sku}
-                              </div>
-                            )}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            <span className={`font-medium ${
-                              entry.quantity < 0 
-                                ? 'text-red-700' 
-                                : entry.quantity > 0 
-                                  ? 'text-green-700' 
-                                  : 'text-gray-700'
-                            }`}>
-                              {entry.quantity < 0 ? entry.quantity : `+${entry.quantity}`}
-                            </span>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {formatCurrency(entry.purchasePrice)}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                            {formatCurrency(entry.quantity * entry.purchasePrice)}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {formatDate(entry.createdAt)}
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              ) : (
-                <div className="text-center py-12">
-                  <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">No stock entries</h3>
-                  <p className="text-gray-500 mb-6">
-                    Start by adding stock entries for your products.
-                  </p>
-                  <Button onClick={() => setIsAddModalOpen(true)}>
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Stock Entry
-                  </Button>
-                </div>
-              )}
-            </div>
-          </Card>
+          )}
         </div>
 
         {/* Add Stock Modal */}
@@ -410,6 +668,9 @@ const StockPage: React.FC = () => {
           title="Add Stock Entry"
         >
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            {formError && (
+              <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{formError}</div>
+            )}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Product
@@ -430,15 +691,37 @@ const StockPage: React.FC = () => {
               )}
             </div>
 
+            {selectedVariants.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Size
+                </label>
+                <select
+                  {...register('variantId', { required: selectedVariants.length > 0 && 'Size is required' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">Select a size</option>
+                  {selectedVariants.map((variant) => (
+                    <option key={variant.id} value={variant.id}>
+                      {variant.label} {variant.sku && `(${variant.sku})`} - {variant.stockOnHand} in stock
+                    </option>
+                  ))}
+                </select>
+                {errors.variantId && (
+                  <p className="text-sm text-red-600 mt-1">{errors.variantId.message}</p>
+                )}
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Input
                   {...register('quantity', { 
                     required: 'Quantity is required',
-                    min: { value: 1, message: 'Quantity must be at least 1' }
+                    validate: value => Number(value) !== 0 || 'Quantity cannot be zero'
                   })}
                   type="number"
-                  label="Quantity"
+                  label="Quantity (negative to remove)"
                   placeholder="0"
                   error={errors.quantity?.message}
                 />
@@ -458,6 +741,36 @@ const StockPage: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Movement Type
+              </label>
+              <select
+                {...register('type')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">Purchase when adding, adjustment when removing</option>
+                {MANUAL_MOVEMENT_TYPES.map(type => (
+                  <option key={type} value={type}>{MOVEMENT_TYPES[type].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Note (optional)
+              </label>
+              <textarea
+                {...register('note', { maxLength: { value: 500, message: 'Note must be less than 500 characters' } })}
+                rows={2}
+                placeholder="Supplier invoice, count discrepancy, damaged in storage..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+              {errors.note && (
+                <p className="text-sm text-red-600 mt-1">{errors.note.message}</p>
+              )}
+            </div>
+
             <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
               <Button
                 type="button"
@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { Plus, Edit, Trash2, RefreshCw, Factory } from 'lucide-react';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import { adminApiClient } from '@/lib/api';
+import { Supplier, SupplierFormData } from '@/types';
+
+const emptyForm: SupplierFormData = {
+  name: '',
+  contactName: '',
+  phone: '',
+  email: '',
+  address: '',
+  notes: '',
+  isActive: true,
+};
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const SuppliersPage: React.FC = () => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState<SupplierFormData>(emptyForm);
+
+  const loadSuppliers = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await adminApiClient.getSuppliers();
+      setSuppliers(data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load suppliers');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditing(null);
+    setFormData(emptyForm);
+    setFormError(null);
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEdit = (supplier: Supplier) => {
+    setEditing(supplier);
+    setFormData({
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      notes: supplier.notes || '',
+      isActive: supplier.isActive,
+    });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      if (editing) {
+        const updated = await adminApiClient.updateSupplier(editing.id, formData);
+        setSuppliers(suppliers.map(s => s.id === updated.id ? updated : s));
+      } else {
+        const created = await adminApiClient.createSupplier(formData);
+        setSuppliers([...suppliers, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      closeModal();
+    } catch (e: any) {
+      setFormError(e.message || 'Failed to save supplier');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!confirm(`Delete ${supplier.name}?`)) return;
+    try {
+      await adminApiClient.deleteSupplier(supplier.id);
+      setSuppliers(suppliers.filter(s => s.id !== supplier.id));
+    } catch (e: any) {
+      alert(e.message || 'Failed to delete');
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Suppliers - {process.env.NEXT_PUBLIC_ADMIN_APP_NAME || 'Nan Ayeyar Admin'}</title>
+      </Head>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Suppliers</h1>
+              <p className="text-gray-600">Mills and wholesalers you restock from</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" onClick={loadSuppliers} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button onClick={openCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Supplier
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Factory className="h-5 w-5 mr-2" />
+                Supplier List
+              </h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Suppliers with purchase orders cannot be deleted. Deactivate them to hide them from new purchase orders.
+              </p>
+            </div>
+            <div className="p-6">
+              {error && (
+                <div className="mb-4 p-3 rounded bg-red-50 text-red-700 border border-red-200">{error}</div>
+              )}
+              {isLoading ? (
+                <div className="text-gray-500">Loading...</div>
+              ) : suppliers.length === 0 ? (
+                <div className="text-gray-500">No suppliers yet. Add one before creating a purchase order.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purchase Orders</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {suppliers.map(supplier => (
+                        <tr key={supplier.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="font-medium text-gray-900">{supplier.name}</div>
+                            {supplier.email && <div className="text-gray-500">{supplier.email}</div>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{supplier.contactName || '-'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{supplier.phone || '-'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            <Link href={`/purchase-orders?supplierId=${supplier.id}`} className="text-primary-600 hover:text-primary-800">
+                              {supplier.openPurchaseOrderCount} open / {supplier.purchaseOrderCount} total
+                            </Link>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <span className={`px-2 py-1 text-xs rounded-full ${supplier.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                              {supplier.isActive ? 'Active' : 'Inactive'}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <div className="flex items-center space-x-2">
+                              <button onClick={() => openEdit(supplier)} className="text-green-600 hover:text-green-900">
+                                <Edit className="h-4 w-4" />
+                              </button>
+                              {supplier.purchaseOrderCount === 0 && (
+                                <button onClick={() => handleDelete(supplier)} className="text-red-600 hover:text-red-900">
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Create/Edit Modal */}
+          {showModal && (
+            <Modal isOpen={showModal} onClose={closeModal} title={editing ? 'Edit Supplier' : 'Add Supplier'}>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {formError && (
+                  <div className="p-3 rounded bg-red-50 text-red-700 border border-red-200 text-sm">{formError}</div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                    placeholder="Shwe Bo Rice Mill"
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Contact Name</label>
+                    <input
+                      type="text"
+                      value={formData.contactName || ''}
+                      onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                    <input
+                      type="tel"
+                      value={formData.phone || ''}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    value={formData.email || ''}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                  <textarea
+                    rows={2}
+                    value={formData.address || ''}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <textarea
+                    rows={2}
+                    value={formData.notes || ''}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    placeholder="Payment terms, delivery days..."
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex items-center">
+                  <input
+                    id="isActive"
+                    type="checkbox"
+                    checked={!!formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="isActive" className="ml-2 block text-sm text-gray-700">Active</label>
+                </div>
+                <div className="flex justify-end space-x-3">
+                  <Button type="button" variant="outline" onClick={closeModal}>Cancel</Button>
+                  <Button type="submit" variant="primary" disabled={isSubmitting}>
+                    {editing ? 'Update' : 'Create'}
+                  </Button>
+                </div>
+              </form>
+            </Modal>
+          )}
+        </div>
+      </AdminLayout>
+    </>
+  );
+};
+
+export default SuppliersPage;
@@ -98,6 +98,16 @@ const UsersPage: React.FC = () => {
     }
   };
 
+  const handleToggleWholesale = async (user: User) => {
+    try {
+      const updated = await adminApiClient.updateUser(user.id, { isWholesale: !user.isWholesale });
+      setSelectedUser({ ...user, ...updated });
+      loadUsers();
+    } catch (error) {
+      console.error('Failed to update price list:', error);
+    }
+  };
+
   const getStatusBadge = (user: User) => {
     if (!user.isEmailVerified) {
       return <span className="px-2 py-1 text-xs font-medium bg-yellow-100 text-yellow-800 rounded-full">Unverified</span>;
@@ -237,6 +247,9 @@ const UsersPage: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getRoleBadge(user.role)}
+                      {user.isWholesale && (
+                        <span className="ml-2 px-2 py-1 text-xs font-medium bg-amber-100 text-amber-800 rounded-full">Wholesale</span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(user)}
@@ -327,6 +340,20 @@ const UsersPage: React.FC = () => {
                   <label className="block text-sm font-medium text-gray-700">Status</label>
                   <div className="mt-1">{getStatusBadge(selectedUser)}</div>
                 </div>
+                {selectedUser.role === 'customer' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Price List</label>
+                    <label className="mt-1 flex items-center text-sm text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={!!selectedUser.isWholesale}
+                        onChange={() => handleToggleWholesale(selectedUser)}
+                        className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      Wholesale customer (buys at wholesale tier prices)
+                    </label>
+                  </div>
+                )}
                 {selectedUser.address && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Address</label>
@@ -7,12 +7,25 @@ export interface User {
   locale: 'en' | 'my';
   role: 'customer' | 'admin' | 'super_admin';
   isEmailVerified: boolean;
+  isWholesale?: boolean; // buys from the wholesale price list
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
 // Product types
+export interface ProductAttributes {
+  variety: string | null;
+  grade: string | null;
+  weightKg: number | null; // bag size, used for shipping weight
+  origin: string | null;
+  harvestDate: string | null; // YYYY-MM-DD
+  packageType: string | null;
+}
+
+// Form inputs are strings; an empty value clears the attribute
+export type ProductAttributeFormData = Record<keyof ProductAttributes, string>;
+
 export interface Product {
   id: string;
   sku?: string;
@@ -25,11 +38,100 @@ export interface Product {
   disabled: boolean;
   outOfStock: boolean;
   allowSellWithoutStock: boolean;
-  metadata: Record<string, any>;
+  stockOnHand: number;
+  reorderPoint: number; // low stock at or below this many bags
+  reorderQuantity: number;
+  attributes: ProductAttributes;
+  metadata: Record<string, any>; // other free-form details
+  variants?: ProductVariant[]; // sizes; stock and orders are kept per size when present
+  categories?: CategorySummary[];
   createdAt: string;
   updatedAt: string;
 }
 
+// A bag size of a product with its own SKU, price and stock
+export interface ProductVariant {
+  id: string;
+  label: string; // e.g. "25 kg"
+  sku: string | null;
+  price: number;
+  weightKg: number | null;
+  stockOnHand: number;
+  reserved?: number;
+  disabled: boolean; // hidden from customers
+  sortOrder: number;
+  hasHistory?: boolean; // variants with stock or orders can only be disabled
+}
+
+export interface ProductVariantFormData {
+  label: string;
+  sku?: string;
+  price: number;
+  weightKg?: number | null;
+  disabled?: boolean;
+  sortOrder?: number;
+}
+
+// An entry in a product's price history. Regular prices run until the next
+// one starts; sales run between two dates and show the regular price struck through
+export type PriceKind = 'REGULAR' | 'SALE';
+
+export type PriceStatus = 'scheduled' | 'active' | 'ended';
+
+export interface ProductPrice {
+  id: string;
+  variantId: string | null;
+  variantLabel: string | null;
+  kind: PriceKind;
+  price: number;
+  startsAt: string;
+  endsAt: string | null;
+  status: PriceStatus;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface EffectivePrice {
+  price: number;
+  compareAtPrice: number | null; // the regular price while a sale applies
+  saleEndsAt: string | null;
+}
+
+export interface ProductPriceOverview {
+  current: EffectivePrice & {
+    variants: Array<EffectivePrice & { id: string; label: string }>;
+  };
+  prices: ProductPrice[];
+}
+
+export interface ProductPriceFormData {
+  kind: PriceKind;
+  price: number;
+  variantId?: string | null;
+  startsAt?: string | null; // now when left out
+  endsAt?: string | null; // sales only
+  note?: string;
+}
+
+// Quantity-break price: lines of at least minQuantity bags pay this price per
+// bag. Wholesale customers buy from the WHOLESALE list where a product has one
+export type PriceList = 'RETAIL' | 'WHOLESALE';
+
+export interface PriceTier {
+  id: string;
+  variantId: string | null;
+  priceList: PriceList;
+  minQuantity: number;
+  price: number;
+  updatedAt: string;
+}
+
+export type PriceTierFormData = Pick<PriceTier, 'priceList' | 'minQuantity' | 'price'>;
+
+// Short reference to a variant on stock, order and purchase order lines
+export type VariantSummary = Pick<ProductVariant, 'id' | 'label' | 'sku'>;
+
 export interface ProductFormData {
   sku?: string;
   name_en: string;
@@ -40,23 +142,105 @@ export interface ProductFormData {
   disabled?: boolean;
   outOfStock?: boolean;
   allowSellWithoutStock?: boolean;
+  reorderPoint?: number;
+  reorderQuantity?: number;
+  attributes?: ProductAttributeFormData;
+  categoryIds?: string[]; // replaces the product's categories when given
   metadata?: Record<string, any>;
 }
 
+// Storefront category; subcategories point to their parent
+export interface Category {
+  id: string;
+  parentId: string | null;
+  name_en: string;
+  name_my: string | null;
+  slug: string;
+  image: string | null;
+  sortOrder: number;
+  productCount: number; // products assigned directly
+  childCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryFormData {
+  name_en: string;
+  name_my?: string;
+  slug?: string; // made from the English name when left empty
+  image?: string | null;
+  parentId?: string | null;
+  sortOrder?: number;
+}
+
+export type CategorySummary = Pick<Category, 'id' | 'slug' | 'name_en' | 'name_my'>;
+
+export type ProductSpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface ProductImportError {
+  row: number; // spreadsheet row, header is row 1
+  sku: string | null;
+  column?: string;
+  message: string;
+}
+
+export interface ProductImportSummary {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  errors: ProductImportError[];
+  rows: Array<{ row: number; sku: string; action: 'create' | 'update' }>;
+}
+
 // Stock types
+export type StockMovementType =
+  | 'PURCHASE'
+  | 'SALE'
+  | 'CANCEL_RESTOCK'
+  | 'RETURN_RESTOCK'
+  | 'ADJUSTMENT'
+  | 'DAMAGE'
+  | 'TRANSFER';
+
+// Types that can be recorded by hand; the rest come from orders and returns
+export type ManualStockMovementType = 'PURCHASE' | 'ADJUSTMENT' | 'DAMAGE' | 'TRANSFER';
+
 export interface StockEntry {
   id: string;
   productId: string;
+  variantId?: string | null;
+  variant?: VariantSummary | null;
   quantity: number;
   purchasePrice: number;
+  type: StockMovementType | null; // null until the backfill script classifies older rows
+  orderId?: string | null;
+  returnRequestId?: string | null;
+  purchaseOrderId?: string | null;
+  purchaseOrder?: { id: string; reference: string | null; supplier: { id: string; name: string } } | null;
+  note?: string | null;
+  actor?: { id: string; name: string } | null;
   createdAt: string;
   product?: Product;
 }
 
 export interface StockFormData {
   productId: string;
-  quantity: number;
+  variantId?: string; // required for products with sizes
+  quantity: number; // negative to remove stock
   purchasePrice: number;
+  type?: ManualStockMovementType;
+  note?: string;
+}
+
+export interface StockFilters {
+  productId?: string;
+  variantId?: string;
+  type?: StockMovementType | 'UNCLASSIFIED';
+  orderId?: string;
+  returnRequestId?: string;
+  purchaseOrderId?: string;
+  actorId?: string;
+  search?: string; // matches the note
 }
 
 export interface InventorySummary {
@@ -64,14 +248,103 @@ export interface InventorySummary {
   productName: string;
   productSku: string;
   currentStock: number;
+  reserved: number; // held by unpaid online transfers, already deducted from currentStock
+  variants: Array<VariantSummary & { currentStock: number; reserved: number; disabled: boolean; lowStock: boolean }>;
   totalValue: number;
   averageCost: number;
   salePrice: number;
   lastUpdated: string;
+  reorderPoint: number;
+  reorderQuantity: number;
+  suggestedReorderQuantity: number; // 0 unless low stock
   lowStock: boolean;
   outOfStock: boolean;
 }
 
+// Supplier and purchase order types
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  notes: string | null;
+  isActive: boolean;
+  purchaseOrderCount: number;
+  openPurchaseOrderCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SupplierFormData {
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  isActive?: boolean;
+}
+
+export type PurchaseOrderStatus = 'DRAFT' | 'ORDERED' | 'PARTIALLY_RECEIVED' | 'RECEIVED';
+
+export interface PurchaseOrderItem {
+  id: string;
+  productId: string;
+  product: { id: string; name_en: string; sku: string };
+  variantId: string | null;
+  variant: VariantSummary | null;
+  quantity: number;
+  receivedQuantity: number;
+  outstandingQuantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrderReceipt {
+  id: string;
+  purchaseOrderId: string;
+  product: { id: string; name_en: string; sku: string };
+  variant: VariantSummary | null;
+  quantity: number;
+  unitCost: number;
+  note: string | null;
+  receivedBy: { id: string; name: string } | null;
+  receivedAt: string;
+  purchaseOrder?: { id: string; reference: string | null; supplier: { id: string; name: string } };
+}
+
+export interface PurchaseOrder {
+  id: string;
+  status: PurchaseOrderStatus;
+  reference: string | null;
+  notes: string | null;
+  expectedAt: string | null;
+  orderedAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  supplier: { id: string; name: string; isActive: boolean };
+  createdBy: { id: string; name: string } | null;
+  items: PurchaseOrderItem[];
+  total: number;
+  receivedTotal: number;
+  receipts?: PurchaseOrderReceipt[]; // only on the detail endpoint
+}
+
+export interface PurchaseOrderFormData {
+  supplierId: string;
+  reference?: string;
+  notes?: string;
+  expectedAt?: string;
+  items: Array<{ productId: string; variantId?: string | null; quantity: number; unitCost: number }>;
+}
+
+export interface ReceivePurchaseOrderData {
+  items: Array<{ itemId: string; quantity: number }>;
+  note?: string;
+}
+
 // Order types
 export interface Order {
   id: string;
@@ -82,6 +355,9 @@ export interface Order {
   paymentType: PaymentType;
   paymentMethodId?: string;
   total: number;
+  discountAmount?: number;
+  shippingFee?: number;
+  refundedAmount?: number;
   shippingAddress: {
     name: string;
     address: string;
@@ -89,12 +365,27 @@ export interface Order {
   };
   transactionId?: string;
   paymentScreenshot?: string;
+  reservationExpiresAt?: string | null; // unpaid online transfers are canceled after this
   createdAt: string;
   updatedAt: string;
   items: OrderItem[];
   user?: User;
   paymentMethod?: PaymentMethod;
   refunds?: Refund[];
+  statusHistory?: OrderStatusEvent[];
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  note: string | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    name: string;
+    role: 'customer' | 'admin';
+  } | null;
 }
 
 export interface OrderItem {
@@ -102,18 +393,42 @@ export interface OrderItem {
   orderId: string;
   productId: string;
   productName: string;
+  variant?: VariantSummary | null;
   price: number;
   quantity: number;
-  metadata?: Record<string, any>;
+  listPrice?: number | null; // price per bag before the quantity tier
+  tierMinQuantity?: number | null; // the quantity tier applied, e.g. 20 for "20+ bags"
+  tierPriceList?: PriceList | null;
+  refundedQuantity?: number;
+  metadata?: Record<string, any>; // includes variantLabel for sized products
   product?: Product;
 }
 
+export type RefundStatus = 'PENDING' | 'SETTLED' | 'FAILED';
+
 export interface Refund {
   id: string;
   orderId: string;
   amount: number;
   refundedAt: string;
   reason: string;
+  restocked?: boolean;
+  status: RefundStatus; // whether the payout went through
+  failureReason?: string | null;
+  items?: RefundItem[];
+}
+
+export interface RefundItem {
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface CreateRefundData {
+  items: Array<{ orderItemId: string; quantity: number }>;
+  amount?: number;
+  reason: string;
+  restock: boolean;
 }
 
 export type OrderStatus = 
@@ -126,7 +441,7 @@ export type OrderStatus =
   | 'RETURNED'
   | 'REFUNDED';
 
-export type PaymentType = 'COD' | 'ONLINE_TRANSFER';
+export type PaymentType = 'COD' | 'ONLINE_TRANSFER' | 'MOCK';
 
 // Payment method types
 export interface PaymentMethod {
@@ -171,6 +486,7 @@ export interface DashboardMetrics {
     id: string;
     name: string;
     currentStock: number;
+    reorderPoint: number;
   }>;
 }
 
@@ -194,6 +510,270 @@ export interface BankAccountFormData {
   isActive?: boolean;
 }
 
+// Payment verification types
+export type PaymentAging = 'NEW' | 'AGING' | 'OVERDUE';
+
+// An online transfer waiting for an admin to verify it
+export interface PaymentConflict {
+  id: string;
+  status: OrderStatus;
+}
+
+export interface PaymentSuspicion {
+  duplicateTransactionOrders: PaymentConflict[]; // same transaction ID on the same company account
+  similarScreenshotOrders: PaymentConflict[]; // the same screenshot, possibly resized or recompressed
+}
+
+export interface PaymentQueueOrder {
+  id: string;
+  status: OrderStatus;
+  totalAmount: number;
+  transactionId: string | null;
+  customerAccountName: string | null;
+  customerAccountNo: string | null;
+  paymentScreenshot: string | null;
+  hasProof: boolean; // false while the customer has not sent a transaction ID or screenshot
+  paymentSubmittedAt: string | null;
+  reservationExpiresAt: string | null;
+  waitingMinutes: number;
+  aging: PaymentAging;
+  companyAccount: {
+    id: string;
+    name: string;
+    type: PaymentMethodType;
+    details: { accountName?: string; accountNo?: string; phone?: string };
+  } | null;
+  customer: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  suspicion: PaymentSuspicion | null; // proof that other orders already used
+  createdAt: string;
+}
+
+export interface PaymentQueue {
+  orders: PaymentQueueOrder[];
+  summary: {
+    awaitingProof: number;
+    suspect: number;
+    aging: number;
+    overdue: number;
+  };
+}
+
+export type BulkPaymentResult =
+  | { orderId: string; success: true; status: OrderStatus }
+  | { orderId: string; success: false; error: string };
+
+// Bank statement reconciliation types
+export type StatementLineStatus = 'MATCHED' | 'AMBIGUOUS' | 'UNMATCHED' | 'CONFIRMED';
+
+export type StatementMatchField = 'transactionId' | 'amount' | 'accountNo';
+
+export interface ReconciliationOrder {
+  id: string;
+  status: OrderStatus;
+  totalAmount: number;
+  transactionId: string | null;
+  customerAccountName: string | null;
+  customerAccountNo: string | null;
+  createdAt: string;
+  customer: {
+    name: string | null;
+    email: string;
+  };
+}
+
+export interface BankStatementLine {
+  id: string;
+  row: number;
+  postedAt: string;
+  amount: number;
+  transactionId: string | null;
+  accountNo: string | null;
+  accountName: string | null;
+  description: string | null;
+  status: StatementLineStatus;
+  matchedOn: StatementMatchField[];
+  order: ReconciliationOrder | null; // matched or confirmed order
+  candidates: ReconciliationOrder[]; // orders an ambiguous line could belong to
+  confirmedAt: string | null;
+}
+
+export interface BankStatement {
+  id: string;
+  companyAccountId: string;
+  filename: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  createdAt: string;
+  companyAccount: {
+    id: string;
+    name: string;
+    type: PaymentMethodType;
+  };
+  uploadedBy: {
+    id: string;
+    name: string;
+  };
+  counts: Record<StatementLineStatus, number>;
+}
+
+export interface BankStatementDetail extends BankStatement {
+  lines: BankStatementLine[];
+}
+
+// Shipping types
+export interface ShippingRate {
+  id: string;
+  region: string;
+  township: string | null;
+  minWeightKg: number;
+  maxWeightKg: number | null;
+  fee: number;
+  freeAboveAmount: number | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShippingRateFormData {
+  region: string;
+  township?: string | null;
+  minWeightKg: number;
+  maxWeightKg?: number | null;
+  fee: number;
+  freeAboveAmount?: number | null;
+  enabled?: boolean;
+}
+
+// Return request types
+export type ReturnRequestStatus = 'REQUESTED' | 'APPROVED' | 'REJECTED' | 'RECEIVED';
+
+export type ReturnReason = 'DAMAGED_BAG' | 'WRONG_ITEM' | 'QUALITY_ISSUE' | 'PESTS' | 'OTHER';
+
+export interface ReturnRequestItem {
+  id: string;
+  orderItemId: string;
+  quantity: number;
+  orderedQuantity: number;
+  unitPrice: number;
+  product: {
+    id: string;
+    name_en: string;
+    name_my?: string;
+    images: string[];
+  };
+  variant?: VariantSummary | null;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  status: ReturnRequestStatus;
+  reason: ReturnReason;
+  note: string | null;
+  photos: string[];
+  adminNote: string | null;
+  reviewedAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  customer: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  order: {
+    id: string;
+    status: OrderStatus;
+    paymentType: PaymentType;
+    totalAmount: number;
+  };
+  items: ReturnRequestItem[];
+}
+
+export type ReviewStatus = 'PENDING' | 'APPROVED' | 'HIDDEN';
+
+export interface Review {
+  id: string;
+  productId: string;
+  rating: number; // 1 to 5 stars
+  comment_en: string | null;
+  comment_my: string | null;
+  photos: string[];
+  status: ReviewStatus;
+  moderationNote: string | null;
+  moderatedAt: string | null;
+  moderatedBy: { id: string; name: string | null } | null;
+  createdAt: string;
+  updatedAt: string;
+  customer: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  product: {
+    id: string;
+    name_en: string;
+    name_my: string | null;
+    images: string[];
+  };
+  orderId: string;
+  variant: { id: string; label: string } | null;
+}
+
+export interface ReceiveReturnData {
+  refund?: boolean;
+  restock?: boolean;
+}
+
+// Margin report types
+export type MarginPeriod = 'day' | 'week' | 'month';
+
+export interface MarginFigures {
+  revenue: number;
+  cost: number;
+  grossMargin: number;
+  marginPercent: number;
+}
+
+export interface ProductMargin extends MarginFigures {
+  productId: string;
+  productName: string;
+  quantitySold: number;
+}
+
+export interface OrderMargin extends MarginFigures {
+  orderId: string;
+  createdAt: string;
+  uncostedQuantity: number;
+  products: ProductMargin[];
+}
+
+export interface PeriodMargin extends MarginFigures {
+  period: string;
+  orderCount: number;
+}
+
+export interface MarginReport {
+  totals: MarginFigures & { orderCount: number; uncostedQuantity: number };
+  periods: PeriodMargin[];
+  products: ProductMargin[];
+  orders: OrderMargin[]; // newest 100 orders in the range
+  from: string;
+  to: string;
+  period: MarginPeriod;
+  costingMethod: 'FIFO' | 'AVERAGE';
+}
+
+export interface MarginReportFilters {
+  from?: string;
+  to?: string;
+  period?: MarginPeriod;
+}
+
 // API response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -0,0 +1,34 @@
+import { Category } from '@/types';
+
+export type CategoryRow = Category & { depth: number };
+
+// Categories in tree order, each followed by its subcategories, as the storefront shows them
+export const getCategoryRows = (categories: Category[]): CategoryRow[] => {
+  const rows: CategoryRow[] = [];
+  const ids = new Set(categories.map(category => category.id));
+  const sorted = [...categories].sort((a, b) => a.sortOrder - b.sortOrder || a.name_en.localeCompare(b.name_en));
+
+  const addLevel = (parentId: string | null, depth: number) => {
+    sorted
+      .filter(category => (parentId ? category.parentId === parentId : !category.parentId || !ids.has(category.parentId)))
+      .forEach(category => {
+        if (rows.some(row => row.id === category.id)) return;
+        rows.push({ ...category, depth });
+        addLevel(category.id, depth + 1);
+      });
+  };
+
+  addLevel(null, 0);
+  return rows;
+};
+
+// A category and everything below it, which cannot become its parent
+export const getCategoryBranchIds = (categories: Category[], categoryId: string): string[] => {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    categories
+      .filter(category => category.parentId === ids[i] && !ids.includes(category.id))
+      .forEach(category => ids.push(category.id));
+  }
+  return ids;
+};
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "shippingFee" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "shipping_rates" (
+    "id" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "township" TEXT,
+    "minWeightKg" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "maxWeightKg" DECIMAL(10,2),
+    "fee" DECIMAL(10,2) NOT NULL,
+    "freeAboveAmount" DECIMAL(10,2),
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipping_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shipping_rates_region_township_idx" ON "shipping_rates"("region", "township");
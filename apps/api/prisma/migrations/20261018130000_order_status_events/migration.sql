@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "order_status_events" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_events_orderId_createdAt_idx" ON "order_status_events"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing orders get their placement event, plus their current status
+-- at the last update time when it has moved on from PENDING
+INSERT INTO "order_status_events" ("id", "orderId", "fromStatus", "toStatus", "actorId", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, 'PENDING', "userId", 'Order placed', "createdAt"
+FROM "orders";
+
+INSERT INTO "order_status_events" ("id", "orderId", "fromStatus", "toStatus", "actorId", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, "status", NULL, 'Recorded before status history was tracked', "updatedAt"
+FROM "orders"
+WHERE "status" <> 'PENDING';
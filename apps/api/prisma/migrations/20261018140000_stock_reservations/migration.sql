@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "reservationExpiresAt" TIMESTAMP(3),
+ADD COLUMN "reservationReminderSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "orders_status_reservationExpiresAt_idx" ON "orders"("status", "reservationExpiresAt");
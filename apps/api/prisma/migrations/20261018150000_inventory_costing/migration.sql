@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "stock_entries" ADD COLUMN "remainingQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "costAmount" DECIMAL(10,2);
+
+-- CreateIndex
+CREATE INDEX "stock_entries_productId_remainingQuantity_idx" ON "stock_entries"("productId", "remainingQuantity");
+
+-- Backfill: treat every deduction so far as consuming the oldest lots first,
+-- leaving each lot with whatever is left once the product's total deductions are covered
+WITH consumed AS (
+  SELECT "productId", COALESCE(SUM(-"quantity"), 0) AS "quantity"
+  FROM "stock_entries"
+  WHERE "quantity" < 0
+  GROUP BY "productId"
+),
+lots AS (
+  SELECT
+    "id",
+    "productId",
+    "quantity",
+    SUM("quantity") OVER (PARTITION BY "productId" ORDER BY "createdAt", "id") AS "cumulativeQuantity"
+  FROM "stock_entries"
+  WHERE "quantity" > 0
+)
+UPDATE "stock_entries" AS entry
+SET "remainingQuantity" = GREATEST(0, LEAST(lots."quantity", lots."cumulativeQuantity" - COALESCE(consumed."quantity", 0)))
+FROM lots
+LEFT JOIN consumed ON consumed."productId" = lots."productId"
+WHERE entry."id" = lots."id";
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('PURCHASE', 'SALE', 'CANCEL_RESTOCK', 'RETURN_RESTOCK', 'ADJUSTMENT', 'DAMAGE', 'TRANSFER');
+
+-- AlterTable
+-- Existing rows keep a null type until src/scripts/backfillStockMovements.ts classifies them
+ALTER TABLE "stock_entries" ADD COLUMN "type" "StockMovementType",
+ADD COLUMN "orderId" TEXT,
+ADD COLUMN "returnRequestId" TEXT,
+ADD COLUMN "note" TEXT,
+ADD COLUMN "actorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "stock_entries_type_createdAt_idx" ON "stock_entries"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "stock_entries_orderId_idx" ON "stock_entries"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "stock_entries" ADD CONSTRAINT "stock_entries_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_entries" ADD CONSTRAINT "stock_entries_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "return_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_entries" ADD CONSTRAINT "stock_entries_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "stockOnHand" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "reserved" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "products_stockOnHand_idx" ON "products"("stockOnHand");
+
+-- Backfill from the stock ledger and the orders currently holding a reservation
+UPDATE "products" AS product
+SET "stockOnHand" = COALESCE((
+  SELECT SUM(entry."quantity")
+  FROM "stock_entries" AS entry
+  WHERE entry."productId" = product."id"
+), 0),
+"reserved" = COALESCE((
+  SELECT SUM(item."quantity")
+  FROM "order_items" AS item
+  JOIN "orders" AS "order" ON "order"."id" = item."orderId"
+  WHERE item."productId" = product."id"
+    AND "order"."status" = 'PENDING'
+    AND "order"."reservationExpiresAt" IS NOT NULL
+), 0);
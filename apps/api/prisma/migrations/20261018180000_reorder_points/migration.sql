@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "reorderPoint" INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN "reorderQuantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lowStockAlertedAt" TIMESTAMP(3);
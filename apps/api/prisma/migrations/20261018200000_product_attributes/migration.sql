@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "variety" TEXT,
+ADD COLUMN "grade" TEXT,
+ADD COLUMN "weightKg" DECIMAL(8,2),
+ADD COLUMN "origin" TEXT,
+ADD COLUMN "harvestDate" DATE,
+ADD COLUMN "packageType" TEXT;
+
+-- CreateIndex
+CREATE INDEX "products_variety_idx" ON "products"("variety");
+
+-- CreateIndex
+CREATE INDEX "products_grade_idx" ON "products"("grade");
+
+-- CreateIndex
+CREATE INDEX "products_weightKg_idx" ON "products"("weightKg");
+
+-- CreateIndex
+CREATE INDEX "products_origin_idx" ON "products"("origin");
+
+-- Move the rice attributes out of metadata into their columns
+UPDATE "products" SET
+  "variety" = NULLIF(TRIM("metadata"->>'variety'), ''),
+  "grade" = NULLIF(TRIM("metadata"->>'grade'), ''),
+  "origin" = NULLIF(TRIM("metadata"->>'origin'), ''),
+  "packageType" = NULLIF(TRIM("metadata"->>'packageType'), '');
+
+UPDATE "products" SET "weightKg" = TRIM("metadata"->>'weightKg')::DECIMAL(8,2)
+WHERE TRIM("metadata"->>'weightKg') ~ '^[0-9]{1,6}(\.[0-9]+)?$'
+  AND TRIM("metadata"->>'weightKg')::NUMERIC > 0;
+
+-- Older products stored the bag size as text such as "5kg" under "weight"
+UPDATE "products" SET "weightKg" = SUBSTRING(LOWER(TRIM("metadata"->>'weight')) FROM '^([0-9]{1,6}(\.[0-9]+)?) ?(kg)?$')::DECIMAL(8,2)
+WHERE "weightKg" IS NULL
+  AND LOWER(TRIM("metadata"->>'weight')) ~ '^[0-9]{1,6}(\.[0-9]+)? ?(kg)?$'
+  AND SUBSTRING(LOWER(TRIM("metadata"->>'weight')) FROM '^([0-9]{1,6}(\.[0-9]+)?)')::NUMERIC > 0;
+
+-- Impossible dates (e.g. 2024-02-30) stay in metadata for an admin to fix
+DO $$
+DECLARE
+  product RECORD;
+BEGIN
+  FOR product IN
+    SELECT "id", "metadata"->>'harvestDate' AS "value" FROM "products"
+    WHERE "metadata"->>'harvestDate' ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$'
+  LOOP
+    BEGIN
+      UPDATE "products" SET "harvestDate" = product."value"::DATE WHERE "id" = product."id";
+    EXCEPTION WHEN others THEN
+      NULL;
+    END;
+  END LOOP;
+END $$;
+
+-- Drop the moved keys; anything that did not parse is kept
+UPDATE "products" SET "metadata" = "metadata" - ARRAY['variety', 'grade', 'origin', 'packageType'];
+
+UPDATE "products" SET "metadata" = "metadata" - ARRAY['weightKg', 'weight'] WHERE "weightKg" IS NOT NULL;
+
+UPDATE "products" SET "metadata" = "metadata" - 'harvestDate' WHERE "harvestDate" IS NOT NULL;
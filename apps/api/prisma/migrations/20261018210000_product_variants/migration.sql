@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "stock_entries" ADD COLUMN "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "purchase_order_items" ADD COLUMN "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "product_variants" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "sku" TEXT,
+    "price" DECIMAL(10,2) NOT NULL,
+    "weightKg" DECIMAL(8,2),
+    "stockOnHand" INTEGER NOT NULL DEFAULT 0,
+    "reserved" INTEGER NOT NULL DEFAULT 0,
+    "disabled" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_variants_sku_key" ON "product_variants"("sku");
+
+-- CreateIndex
+CREATE INDEX "product_variants_productId_sortOrder_idx" ON "product_variants"("productId", "sortOrder");
+
+-- CreateIndex
+CREATE INDEX "stock_entries_variantId_idx" ON "stock_entries"("variantId");
+
+-- CreateIndex
+CREATE INDEX "order_items_variantId_idx" ON "order_items"("variantId");
+
+-- DropIndex
+DROP INDEX "purchase_order_items_purchaseOrderId_productId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_order_items_purchaseOrderId_productId_variantId_key" ON "purchase_order_items"("purchaseOrderId", "productId", "variantId");
+
+-- AddForeignKey
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_entries" ADD CONSTRAINT "stock_entries_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
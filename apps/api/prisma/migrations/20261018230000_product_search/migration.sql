@@ -0,0 +1,24 @@
+-- Trigram matching for typo-tolerant product search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "searchName" TEXT NOT NULL DEFAULT '',
+ADD COLUMN "searchText" TEXT NOT NULL DEFAULT '';
+
+-- Backfill a plain lowercase copy; `npm run db:reindex:search` rewrites it
+-- with Zawgyi text converted to Unicode
+UPDATE "products" p SET
+  "searchName" = lower(concat_ws(' ', p."name_en", p."name_my", p."sku")),
+  "searchText" = lower(concat_ws(' ',
+    p."name_en", p."name_my", p."sku", p."variety", p."grade", p."origin",
+    (SELECT string_agg(concat_ws(' ', v."label", v."sku"), ' ') FROM "product_variants" v WHERE v."productId" = p."id"),
+    (SELECT string_agg(concat_ws(' ', c."name_en", c."name_my"), ' ')
+       FROM "_CategoryToProduct" cp JOIN "categories" c ON c."id" = cp."A" WHERE cp."B" = p."id"),
+    p."description_en", p."description_my"
+  ));
+
+-- CreateIndex
+CREATE INDEX "products_searchName_idx" ON "products" USING GIN ("searchName" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "products_searchText_idx" ON "products" USING GIN ("searchText" gin_trgm_ops);
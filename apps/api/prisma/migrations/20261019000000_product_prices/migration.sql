@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "PriceKind" AS ENUM ('REGULAR', 'SALE');
+
+-- CreateTable
+CREATE TABLE "product_prices" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "kind" "PriceKind" NOT NULL DEFAULT 'REGULAR',
+    "price" DECIMAL(10,2) NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_prices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_prices_productId_variantId_startsAt_idx" ON "product_prices"("productId", "variantId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "product_prices_startsAt_idx" ON "product_prices"("startsAt");
+
+-- AddForeignKey
+ALTER TABLE "product_prices" ADD CONSTRAINT "product_prices_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_prices" ADD CONSTRAINT "product_prices_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_prices" ADD CONSTRAINT "product_prices_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Start each product's and variant's history with its current price
+INSERT INTO "product_prices" ("id", "productId", "variantId", "kind", "price", "startsAt")
+SELECT gen_random_uuid()::text, p."id", NULL, 'REGULAR', p."price", p."createdAt"
+FROM "products" p;
+
+INSERT INTO "product_prices" ("id", "productId", "variantId", "kind", "price", "startsAt")
+SELECT gen_random_uuid()::text, v."productId", v."id", 'REGULAR', v."price", v."createdAt"
+FROM "product_variants" v;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "PriceList" AS ENUM ('RETAIL', 'WHOLESALE');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "isWholesale" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "listPrice" DECIMAL(10,2),
+ADD COLUMN "tierMinQuantity" INTEGER,
+ADD COLUMN "tierPriceList" "PriceList";
+
+-- CreateTable
+CREATE TABLE "product_price_tiers" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "priceList" "PriceList" NOT NULL DEFAULT 'RETAIL',
+    "minQuantity" INTEGER NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_price_tiers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_price_tiers_productId_variantId_idx" ON "product_price_tiers"("productId", "variantId");
+
+-- AddForeignKey
+ALTER TABLE "product_price_tiers" ADD CONSTRAINT "product_price_tiers_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_price_tiers" ADD CONSTRAINT "product_price_tiers_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "paymentSubmittedAt" TIMESTAMP(3),
+ADD COLUMN "paymentVerifiedAt" TIMESTAMP(3),
+ADD COLUMN "paymentRejectedAt" TIMESTAMP(3),
+ADD COLUMN "paymentRejectionReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "orders_paymentType_status_paymentSubmittedAt_idx" ON "orders"("paymentType", "status", "paymentSubmittedAt");
+
+-- Existing transfers with proof have waited since they were placed
+UPDATE "orders"
+SET "paymentSubmittedAt" = "createdAt"
+WHERE "paymentType" = 'ONLINE_TRANSFER'
+  AND (COALESCE(TRIM("transactionId"), '') <> '' OR COALESCE(TRIM("paymentScreenshot"), '') <> '');
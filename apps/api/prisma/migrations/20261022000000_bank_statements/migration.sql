@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "StatementLineStatus" AS ENUM ('MATCHED', 'AMBIGUOUS', 'UNMATCHED', 'CONFIRMED');
+
+-- CreateTable
+CREATE TABLE "bank_statements" (
+    "id" TEXT NOT NULL,
+    "companyAccountId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_statement_lines" (
+    "id" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "postedAt" TIMESTAMP(3),
+    "amount" DECIMAL(10,2) NOT NULL,
+    "transactionId" TEXT,
+    "accountNo" TEXT,
+    "accountName" TEXT,
+    "description" TEXT,
+    "status" "StatementLineStatus" NOT NULL,
+    "matchedOn" TEXT[],
+    "orderId" TEXT,
+    "candidateOrderIds" TEXT[],
+    "confirmedById" TEXT,
+    "confirmedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_statements_companyAccountId_createdAt_idx" ON "bank_statements"("companyAccountId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_statementId_status_idx" ON "bank_statement_lines"("statementId", "status");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_orderId_idx" ON "bank_statement_lines"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_companyAccountId_fkey" FOREIGN KEY ("companyAccountId") REFERENCES "company_payment_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "bank_statements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_confirmedById_fkey" FOREIGN KEY ("confirmedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "paymentScreenshotHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "orders_companyAccountId_transactionId_idx" ON "orders"("companyAccountId", "transactionId");
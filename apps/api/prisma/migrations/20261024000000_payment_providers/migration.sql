@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "PaymentType" ADD VALUE 'MOCK';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "paymentReference" TEXT;
+
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN "providerReference" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_paymentReference_key" ON "orders"("paymentReference");
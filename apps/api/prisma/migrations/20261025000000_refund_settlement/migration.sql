@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'SETTLED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "settledAt" TIMESTAMP(3),
+ADD COLUMN     "status" "RefundStatus" NOT NULL DEFAULT 'PENDING';
+
+-- Earlier refunds were paid out when they were recorded
+UPDATE "refunds" SET "status" = 'SETTLED', "settledAt" = "refundedAt";
@@ -0,0 +1,6 @@
+-- Postgres treats NULL variantIds as distinct, so the (purchaseOrderId, productId, variantId)
+-- index does not stop a product without variants appearing twice on one purchase order.
+-- Prisma cannot express partial indexes, so this one only exists in the migration.
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_order_items_purchaseOrderId_productId_no_variant_key" ON "purchase_order_items"("purchaseOrderId", "productId") WHERE "variantId" IS NULL;
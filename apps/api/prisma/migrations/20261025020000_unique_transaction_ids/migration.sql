@@ -0,0 +1,75 @@
+-- A transfer's transaction ID can only be claimed by one live order per company account,
+-- matching findTransactionIdConflicts: case-insensitive, and canceled or refunded orders do
+-- not count. Canceled orders can still be refunded, so REFUNDED has to be left out as well.
+-- Orders without an account share one scope. Prisma cannot express partial or expression
+-- indexes, so this one only exists in the migration.
+
+-- Resolve duplicates submitted before the index existed. In each group the oldest verified
+-- order keeps the transaction ID (or the oldest order when none was verified yet). The others
+-- give it up and record it in their status history; those still awaiting verification are
+-- rejected and put on hold, so the customer has to send their payment proof again.
+CREATE TEMP TABLE "duplicate_transaction_orders" AS
+SELECT "id", "status", "transactionId", "reservationExpiresAt", "keptByOrderId"
+FROM (
+  SELECT "id", "status", "transactionId", "reservationExpiresAt",
+    ROW_NUMBER() OVER "transaction_group" AS "rank",
+    FIRST_VALUE("id") OVER "transaction_group" AS "keptByOrderId"
+  FROM "orders"
+  WHERE "transactionId" IS NOT NULL AND "paymentType" = 'ONLINE_TRANSFER' AND "status" NOT IN ('CANCELED', 'REFUNDED')
+  WINDOW "transaction_group" AS (
+    PARTITION BY COALESCE("companyAccountId", ''), UPPER(TRIM("transactionId"))
+    ORDER BY "status" IN ('PENDING', 'ON_HOLD'), "createdAt", "id"
+  )
+) AS ranked
+WHERE "rank" > 1;
+
+INSERT INTO "order_status_events" ("id", "orderId", "fromStatus", "toStatus", "actorId", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", "status",
+  CASE WHEN "status" = 'PENDING' THEN 'ON_HOLD'::"OrderStatus" ELSE "status" END,
+  NULL,
+  'Transaction ID ' || "transactionId" || ' removed: already used by order ' || "keptByOrderId",
+  CURRENT_TIMESTAMP
+FROM "duplicate_transaction_orders";
+
+-- Orders leaving PENDING no longer hold their reservation
+UPDATE "products" AS product
+SET "reserved" = product."reserved" - released."quantity"
+FROM (
+  SELECT item."productId", SUM(item."quantity") AS "quantity"
+  FROM "order_items" AS item
+  JOIN "duplicate_transaction_orders" AS duplicate ON duplicate."id" = item."orderId"
+  WHERE duplicate."status" = 'PENDING' AND duplicate."reservationExpiresAt" IS NOT NULL
+  GROUP BY item."productId"
+) AS released
+WHERE product."id" = released."productId";
+
+UPDATE "product_variants" AS variant
+SET "reserved" = variant."reserved" - released."quantity"
+FROM (
+  SELECT item."variantId", SUM(item."quantity") AS "quantity"
+  FROM "order_items" AS item
+  JOIN "duplicate_transaction_orders" AS duplicate ON duplicate."id" = item."orderId"
+  WHERE duplicate."status" = 'PENDING' AND duplicate."reservationExpiresAt" IS NOT NULL
+    AND item."variantId" IS NOT NULL
+  GROUP BY item."variantId"
+) AS released
+WHERE variant."id" = released."variantId";
+
+UPDATE "orders" AS "order"
+SET "status" = 'ON_HOLD',
+  "reservationExpiresAt" = NULL,
+  "paymentVerifiedAt" = NULL,
+  "paymentRejectedAt" = CURRENT_TIMESTAMP,
+  "paymentRejectionReason" = 'This transaction ID was already used for another order. Please send your payment proof again.'
+FROM "duplicate_transaction_orders" AS duplicate
+WHERE "order"."id" = duplicate."id" AND duplicate."status" IN ('PENDING', 'ON_HOLD');
+
+UPDATE "orders" AS "order"
+SET "transactionId" = NULL
+FROM "duplicate_transaction_orders" AS duplicate
+WHERE "order"."id" = duplicate."id";
+
+DROP TABLE "duplicate_transaction_orders";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_companyAccountId_transactionId_key" ON "orders"(COALESCE("companyAccountId", ''), UPPER(TRIM("transactionId"))) WHERE "transactionId" IS NOT NULL AND "paymentType" = 'ONLINE_TRANSFER' AND "status" NOT IN ('CANCELED', 'REFUNDED');
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "product_variants" ADD COLUMN "lowStockAlertedAt" TIMESTAMP(3);
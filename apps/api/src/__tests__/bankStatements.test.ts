@@ -0,0 +1,144 @@
+import {
+  matchStatementLine,
+  parseStatementAmount,
+  parseStatementDate,
+  reconcileStatement,
+  STATEMENT_PARSERS,
+  StatementLine
+} from '../utils/bankStatements';
+import { parseCsv } from '../utils/productSpreadsheet';
+
+describe('Bank statement utilities', () => {
+  describe('parseStatementAmount', () => {
+    it('should read thousands separators, currency and negative amounts', () => {
+      expect(parseStatementAmount('1,250,000.00')).toBe(1250000);
+      expect(parseStatementAmount('MMK 25,000')).toBe(25000);
+      expect(parseStatementAmount('(5,000)')).toBe(-5000);
+      expect(parseStatementAmount('-3000')).toBe(-3000);
+    });
+
+    it('should return null for blank or unreadable cells', () => {
+      expect(parseStatementAmount('')).toBeNull();
+      expect(parseStatementAmount('-')).toBeNull();
+      expect(parseStatementAmount('n/a')).toBeNull();
+    });
+  });
+
+  describe('parseStatementDate', () => {
+    it('should read day-first dates with times', () => {
+      expect(parseStatementDate('18/10/2026 14:05')).toEqual(new Date(2026, 9, 18, 14, 5));
+      expect(parseStatementDate('05-10-2026 02:30:15 PM')).toEqual(new Date(2026, 9, 5, 14, 30, 15));
+    });
+
+    it('should read month names and ISO dates', () => {
+      expect(parseStatementDate('18-Oct-2026')).toEqual(new Date(2026, 9, 18));
+      expect(parseStatementDate('2026-10-18')).toEqual(new Date(2026, 9, 18));
+    });
+
+    it('should reject impossible or unknown dates', () => {
+      expect(parseStatementDate('31/02/2026')).toBeNull();
+      expect(parseStatementDate('yesterday')).toBeNull();
+    });
+  });
+
+  describe('statement parsers', () => {
+    it('should find the header below the account details and keep only incoming payments', () => {
+      const table = parseCsv([
+        'Account No,0012345678',
+        'Account Name,Nan Ayeyar Co.,,,',
+        '',
+        'Transaction Date,Reference No,Description,Debit,Credit,Balance',
+        '18/10/2026 09:12,FT2629100012,Transfer from 0098765432 U MYINT,,"45,000.00","545,000.00"',
+        '18/10/2026 11:40,FT2629100013,Service charge,500.00,,"544,500.00"',
+        ',,Total,500.00,"45,000.00",'
+      ].join('\n'));
+
+      const { lines, skipped, errors } = STATEMENT_PARSERS.AYA_BANK(table);
+
+      expect(errors).toEqual([]);
+      expect(skipped).toBe(2);
+      expect(lines).toEqual([{
+        row: 5,
+        postedAt: new Date(2026, 9, 18, 9, 12),
+        amount: 45000,
+        transactionId: 'FT2629100012',
+        accountNo: null,
+        accountName: null,
+        description: 'Transfer from 0098765432 U MYINT'
+      }]);
+    });
+
+    it('should skip outgoing wallet transfers by their sign', () => {
+      const table = [
+        ['Transaction Time', 'Trans ID', 'From Name', 'From Msisdn', 'Amount'],
+        ['18/10/2026 10:00', '01003456789', 'Daw Hla', '09250001111', '30000'],
+        ['18/10/2026 10:05', '01003456790', 'Nan Ayeyar', '09777000000', '-12000']
+      ];
+
+      const { lines, skipped } = STATEMENT_PARSERS.KBZ_PAY(table);
+
+      expect(skipped).toBe(1);
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({ transactionId: '01003456789', accountNo: '09250001111', accountName: 'Daw Hla' });
+    });
+
+    it('should report a missing header and unreadable rows', () => {
+      expect(STATEMENT_PARSERS.KBZ_BANK([['Foo', 'Bar']]).errors[0].message).toContain('Could not find the statement header');
+
+      const { errors } = STATEMENT_PARSERS.AYA_PAY([
+        ['Date', 'Amount'],
+        ['someday', '1000'],
+        ['18/10/2026', 'lots']
+      ]);
+      expect(errors).toEqual([
+        { row: 2, message: 'Unreadable date "someday"' },
+        { row: 3, message: 'Unreadable amount "lots"' }
+      ]);
+    });
+  });
+
+  describe('matching', () => {
+    const line = (overrides: Partial<StatementLine> = {}): StatementLine => ({
+      row: 2,
+      postedAt: new Date(2026, 9, 18),
+      amount: 45000,
+      transactionId: null,
+      accountNo: null,
+      accountName: null,
+      description: null,
+      ...overrides
+    });
+
+    const order = (id: string, totalAmount: number, transactionId: string | null = null, customerAccountNo: string | null = null) => ({
+      id, totalAmount, transactionId, customerAccountNo
+    });
+
+    it('should match on the transaction ID and amount', () => {
+      const orders = [order('a', 45000, 'FT2629100012'), order('b', 45000)];
+      expect(matchStatementLine(line({ transactionId: 'ft-2629100012' }), orders)).toEqual({
+        status: 'MATCHED', orderId: 'a', candidateOrderIds: [], matchedOn: ['transactionId', 'amount']
+      });
+    });
+
+    it('should match on the amount and sender account, including account numbers in the description', () => {
+      const orders = [order('a', 45000, null, '+95 9 250 001 111'), order('b', 45000, null, '0098765432')];
+      expect(matchStatementLine(line({ accountNo: '09250001111' }), orders).orderId).toBe('a');
+      expect(matchStatementLine(line({ description: 'Transfer from 0098765432 U MYINT' }), orders).orderId).toBe('b');
+    });
+
+    it('should leave amount-only and wrong-amount matches for an admin', () => {
+      const orders = [order('a', 45000), order('b', 45000), order('c', 60000, 'FT1')];
+      expect(matchStatementLine(line(), orders)).toMatchObject({ status: 'AMBIGUOUS', candidateOrderIds: ['a', 'b'] });
+      expect(matchStatementLine(line({ transactionId: 'FT1', amount: 6000 }), orders)).toMatchObject({
+        status: 'AMBIGUOUS', candidateOrderIds: ['c']
+      });
+      expect(matchStatementLine(line({ amount: 1000 }), orders).status).toBe('UNMATCHED');
+    });
+
+    it('should not match two lines to the same order', () => {
+      const orders = [order('a', 45000, 'FT2629100012')];
+      const lines = [line({ transactionId: 'FT2629100012' }), line({ row: 3, transactionId: 'FT2629100012' })];
+      expect(reconcileStatement(lines, orders).map(match => match.status)).toEqual(['AMBIGUOUS', 'AMBIGUOUS']);
+    });
+  });
+});
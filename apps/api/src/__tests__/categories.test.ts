@@ -0,0 +1,90 @@
+import {
+  buildCategoryTree,
+  checkCategoryParent,
+  countCategoryProducts,
+  getCategoryAncestors,
+  getCategoryDescendantIds,
+  toCategorySlug
+} from '../utils/categories';
+
+describe('Category utilities', () => {
+  // rice > white > jasmine, rice > glutinous; gifts on its own
+  const categories = [
+    { id: 'rice', parentId: null, productIds: ['a'] },
+    { id: 'white', parentId: 'rice', productIds: ['b', 'c'] },
+    { id: 'jasmine', parentId: 'white', productIds: ['c', 'd'] },
+    { id: 'glutinous', parentId: 'rice', productIds: [] },
+    { id: 'gifts', parentId: null, productIds: ['a'] }
+  ];
+
+  describe('buildCategoryTree', () => {
+    it('should nest categories under their parents in the given order', () => {
+      const tree = buildCategoryTree(categories);
+      expect(tree.map(node => node.id)).toEqual(['rice', 'gifts']);
+      expect(tree[0].children.map(node => node.id)).toEqual(['white', 'glutinous']);
+      expect(tree[0].children[0].children.map(node => node.id)).toEqual(['jasmine']);
+    });
+
+    it('should treat categories with a missing parent as top level', () => {
+      const tree = buildCategoryTree([{ id: 'orphan', parentId: 'deleted' }]);
+      expect(tree.map(node => node.id)).toEqual(['orphan']);
+    });
+  });
+
+  describe('getCategoryDescendantIds', () => {
+    it('should return the category and every level below it', () => {
+      expect(getCategoryDescendantIds(categories, 'rice').sort()).toEqual(['glutinous', 'jasmine', 'rice', 'white']);
+      expect(getCategoryDescendantIds(categories, 'jasmine')).toEqual(['jasmine']);
+    });
+
+    it('should stop on a parent loop', () => {
+      const looped = [{ id: 'a', parentId: 'b' }, { id: 'b', parentId: 'a' }];
+      expect(getCategoryDescendantIds(looped, 'a')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('getCategoryAncestors', () => {
+    it('should list the parents from the top level down', () => {
+      expect(getCategoryAncestors(categories, 'jasmine').map(category => category.id)).toEqual(['rice', 'white']);
+      expect(getCategoryAncestors(categories, 'rice')).toEqual([]);
+    });
+  });
+
+  describe('checkCategoryParent', () => {
+    it('should allow top level categories and existing parents', () => {
+      expect(checkCategoryParent(categories, 'jasmine', null)).toEqual({ valid: true });
+      expect(checkCategoryParent(categories, 'jasmine', 'rice')).toEqual({ valid: true });
+      expect(checkCategoryParent(categories, null, 'gifts')).toEqual({ valid: true });
+    });
+
+    it('should reject a missing parent', () => {
+      expect(checkCategoryParent(categories, null, 'brown')).toEqual({ valid: false, error: 'Parent category not found' });
+    });
+
+    it('should not place a category inside itself or its subcategories', () => {
+      expect(checkCategoryParent(categories, 'rice', 'rice').valid).toBe(false);
+      expect(checkCategoryParent(categories, 'rice', 'jasmine').valid).toBe(false);
+    });
+  });
+
+  describe('countCategoryProducts', () => {
+    it('should count each product in a tree once', () => {
+      const counts = countCategoryProducts(categories);
+      expect(counts.get('rice')).toBe(4);
+      expect(counts.get('white')).toBe(3);
+      expect(counts.get('glutinous')).toBe(0);
+      expect(counts.get('gifts')).toBe(1);
+    });
+  });
+
+  describe('toCategorySlug', () => {
+    it('should make a lowercase hyphenated slug', () => {
+      expect(toCategorySlug('  Jasmine & Fragrant Rice ')).toBe('jasmine-fragrant-rice');
+      expect(toCategorySlug('Crème Brûlée')).toBe('creme-brulee');
+    });
+
+    it('should give an empty slug for names without latin letters or digits', () => {
+      expect(toCategorySlug('ကောက်ညှင်း')).toBe('');
+    });
+  });
+});
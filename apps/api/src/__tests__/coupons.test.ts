@@ -0,0 +1,109 @@
+import { Prisma } from '@prisma/client';
+import {
+  calculateCouponDiscount,
+  checkCouponRules,
+  checkCouponUsage,
+  normalizeCouponCode
+} from '../utils/coupons';
+
+const baseCoupon = {
+  type: 'PERCENTAGE' as const,
+  value: new Prisma.Decimal(10),
+  maxDiscount: null,
+  minOrderTotal: null,
+  usageLimit: null,
+  perUserLimit: null,
+  productIds: [] as string[],
+  startsAt: null,
+  expiresAt: null,
+  enabled: true
+};
+
+const items = [
+  { productId: 'jasmine-5kg', unitPrice: 20000, quantity: 2 },
+  { productId: 'paw-san-25kg', unitPrice: 100000, quantity: 1 }
+];
+
+const noUsage = { totalUses: 0, userUses: 0 };
+
+describe('Coupon utilities', () => {
+  describe('normalizeCouponCode', () => {
+    it('should trim and uppercase codes', () => {
+      expect(normalizeCouponCode('  thingyan25 ')).toBe('THINGYAN25');
+    });
+  });
+
+  describe('calculateCouponDiscount', () => {
+    it('should apply a percentage to the whole order', () => {
+      expect(calculateCouponDiscount(baseCoupon, items)).toBe(14000);
+    });
+
+    it('should cap percentage discounts at maxDiscount', () => {
+      const coupon = { ...baseCoupon, maxDiscount: new Prisma.Decimal(5000) };
+      expect(calculateCouponDiscount(coupon, items)).toBe(5000);
+    });
+
+    it('should only discount allowlisted products', () => {
+      const coupon = { ...baseCoupon, productIds: ['jasmine-5kg'] };
+      expect(calculateCouponDiscount(coupon, items)).toBe(4000);
+    });
+
+    it('should never discount more than the eligible subtotal', () => {
+      const coupon = {
+        ...baseCoupon,
+        type: 'FIXED_AMOUNT' as const,
+        value: new Prisma.Decimal(50000),
+        productIds: ['jasmine-5kg']
+      };
+      expect(calculateCouponDiscount(coupon, items)).toBe(40000);
+    });
+  });
+
+  describe('checkCouponRules', () => {
+    const now = new Date('2026-04-13T00:00:00Z');
+
+    it('should accept a valid coupon', () => {
+      expect(checkCouponRules(baseCoupon, items, noUsage, now)).toBeNull();
+    });
+
+    it('should reject disabled coupons', () => {
+      expect(checkCouponRules({ ...baseCoupon, enabled: false }, items, noUsage, now)).toBe('Invalid coupon code');
+    });
+
+    it('should enforce the validity window', () => {
+      const future = { ...baseCoupon, startsAt: new Date('2026-04-14T00:00:00Z') };
+      const past = { ...baseCoupon, expiresAt: new Date('2026-04-12T00:00:00Z') };
+
+      expect(checkCouponRules(future, items, noUsage, now)).toContain('not active');
+      expect(checkCouponRules(past, items, noUsage, now)).toContain('expired');
+    });
+
+    it('should enforce global and per-user usage limits', () => {
+      const limited = { ...baseCoupon, usageLimit: 100, perUserLimit: 1 };
+
+      expect(checkCouponRules(limited, items, { totalUses: 100, userUses: 0 }, now)).toContain('usage limit');
+      expect(checkCouponRules(limited, items, { totalUses: 5, userUses: 1 }, now)).toContain('already used');
+    });
+
+    it('should enforce the minimum order total', () => {
+      const coupon = { ...baseCoupon, minOrderTotal: new Prisma.Decimal(200000) };
+      expect(checkCouponRules(coupon, items, noUsage, now)).toContain('at least 200000 MMK');
+    });
+
+    it('should reject coupons that match no items', () => {
+      const coupon = { ...baseCoupon, productIds: ['shan-sticky-50kg'] };
+      expect(checkCouponRules(coupon, items, noUsage, now)).toContain('does not apply');
+    });
+  });
+
+  describe('checkCouponUsage', () => {
+    it('should allow the last remaining use and refuse the one after it', () => {
+      const limited = { usageLimit: 10, perUserLimit: 2 };
+
+      expect(checkCouponUsage(limited, { totalUses: 9, userUses: 1 })).toBeNull();
+      expect(checkCouponUsage(limited, { totalUses: 10, userUses: 1 })).toContain('usage limit');
+      expect(checkCouponUsage(limited, { totalUses: 9, userUses: 2 })).toContain('already used');
+      expect(checkCouponUsage({ usageLimit: null, perUserLimit: null }, { totalUses: 500, userUses: 50 })).toBeNull();
+    });
+  });
+});
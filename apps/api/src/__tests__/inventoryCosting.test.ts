@@ -0,0 +1,72 @@
+import { planStockConsumption, StockLot, valueStockLots } from '../utils/inventoryCosting';
+
+// Two purchases of 25kg Paw San bags, oldest first
+const lots: StockLot[] = [
+  { id: 'lot-june', remainingQuantity: 10, purchasePrice: 30000 },
+  { id: 'lot-september', remainingQuantity: 10, purchasePrice: 36000 }
+];
+
+describe('Inventory costing utilities', () => {
+  describe('planStockConsumption', () => {
+    it('should charge the oldest lot first under FIFO', () => {
+      const consumption = planStockConsumption(lots, 4, 'FIFO');
+      expect(consumption).toEqual({
+        allocations: [{ lotId: 'lot-june', quantity: 4 }],
+        totalCost: 120000,
+        unitCost: 30000,
+        shortfall: 0
+      });
+    });
+
+    it('should span lots under FIFO once the oldest runs out', () => {
+      const consumption = planStockConsumption(lots, 12, 'FIFO');
+      expect(consumption.allocations).toEqual([
+        { lotId: 'lot-june', quantity: 10 },
+        { lotId: 'lot-september', quantity: 2 }
+      ]);
+      expect(consumption.totalCost).toBe(372000);
+      expect(consumption.unitCost).toBe(31000);
+    });
+
+    it('should charge the weighted average of open lots under AVERAGE', () => {
+      const consumption = planStockConsumption(lots, 4, 'AVERAGE');
+      expect(consumption.totalCost).toBe(132000);
+      expect(consumption.unitCost).toBe(33000);
+    });
+
+    it('should still draw lots down oldest first under AVERAGE', () => {
+      const consumption = planStockConsumption(lots, 4, 'AVERAGE');
+      expect(consumption.allocations).toEqual([{ lotId: 'lot-june', quantity: 4 }]);
+    });
+
+    it('should charge oversold bags at the fallback cost', () => {
+      const consumption = planStockConsumption(lots, 22, 'FIFO', 36000);
+      expect(consumption.shortfall).toBe(2);
+      expect(consumption.totalCost).toBe(30000 * 10 + 36000 * 12);
+    });
+
+    it('should cost bags at zero when there are no lots and no fallback', () => {
+      const consumption = planStockConsumption([], 3, 'FIFO');
+      expect(consumption).toEqual({ allocations: [], totalCost: 0, unitCost: 0, shortfall: 3 });
+    });
+
+    it('should skip empty lots', () => {
+      const consumption = planStockConsumption(
+        [{ id: 'lot-empty', remainingQuantity: 0, purchasePrice: 25000 }, ...lots],
+        1,
+        'FIFO'
+      );
+      expect(consumption.allocations).toEqual([{ lotId: 'lot-june', quantity: 1 }]);
+    });
+  });
+
+  describe('valueStockLots', () => {
+    it('should value remaining bags at the price paid for each lot', () => {
+      expect(valueStockLots(lots)).toEqual({ quantity: 20, totalValue: 660000, averageCost: 33000 });
+    });
+
+    it('should value an empty stock at zero', () => {
+      expect(valueStockLots([])).toEqual({ quantity: 0, totalValue: 0, averageCost: 0 });
+    });
+  });
+});
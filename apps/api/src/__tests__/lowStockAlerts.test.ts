@@ -0,0 +1,63 @@
+import { getLowStockLevels, getSuggestedReorderQuantity, isLowStock } from '../utils/lowStockAlerts';
+
+describe('Low stock alert utilities', () => {
+  describe('isLowStock', () => {
+    it('should treat stock at or below the reorder point as low', () => {
+      expect(isLowStock({ stockOnHand: 11, reorderPoint: 10 })).toBe(false);
+      expect(isLowStock({ stockOnHand: 10, reorderPoint: 10 })).toBe(true);
+      expect(isLowStock({ stockOnHand: -2, reorderPoint: 10 })).toBe(true);
+    });
+
+    it('should only flag empty products when the reorder point is zero', () => {
+      expect(isLowStock({ stockOnHand: 0, reorderPoint: 0 })).toBe(true);
+      expect(isLowStock({ stockOnHand: 1, reorderPoint: 0 })).toBe(false);
+    });
+  });
+
+  describe('getSuggestedReorderQuantity', () => {
+    it('should suggest nothing while stock is above the reorder point', () => {
+      expect(getSuggestedReorderQuantity({ stockOnHand: 30, reorderPoint: 10, reorderQuantity: 50 })).toBe(0);
+    });
+
+    it('should suggest the usual reorder quantity', () => {
+      expect(getSuggestedReorderQuantity({ stockOnHand: 8, reorderPoint: 10, reorderQuantity: 50 })).toBe(50);
+    });
+
+    it('should suggest enough to clear the reorder point when the usual quantity falls short', () => {
+      expect(getSuggestedReorderQuantity({ stockOnHand: 8, reorderPoint: 10, reorderQuantity: 0 })).toBe(3);
+      expect(getSuggestedReorderQuantity({ stockOnHand: -45, reorderPoint: 10, reorderQuantity: 50 })).toBe(56);
+    });
+  });
+
+  describe('getLowStockLevels', () => {
+    const product = (variants: Array<{ id: string; stockOnHand: number; disabled: boolean }> = []) => ({
+      stockOnHand: variants.reduce((sum, variant) => sum + variant.stockOnHand, 8),
+      reorderPoint: 10,
+      reorderQuantity: 50,
+      variants
+    });
+
+    it('should compare a product without variants as a whole', () => {
+      expect(getLowStockLevels(product())).toEqual([{ variantId: null, stockOnHand: 8, suggestedQuantity: 50 }]);
+      expect(getLowStockLevels({ ...product(), stockOnHand: 30 })).toEqual([]);
+    });
+
+    it('should flag a sold-out size even when the product total is above the reorder point', () => {
+      const levels = getLowStockLevels({
+        ...product([
+          { id: 'jasmine-5kg', stockOnHand: 0, disabled: false },
+          { id: 'jasmine-25kg', stockOnHand: 40, disabled: false }
+        ]),
+        stockOnHand: 40
+      });
+      expect(levels).toEqual([{ variantId: 'jasmine-5kg', stockOnHand: 0, suggestedQuantity: 50 }]);
+    });
+
+    it('should ignore disabled sizes', () => {
+      expect(getLowStockLevels(product([
+        { id: 'jasmine-5kg', stockOnHand: 0, disabled: true },
+        { id: 'jasmine-25kg', stockOnHand: 40, disabled: false }
+      ]))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { buildMarginReport, getPeriodKey, MarginOrder, MarginOrderItem, summarizeOrderMargin } from '../utils/margins';
+
+const buildItem = (overrides: Partial<MarginOrderItem> = {}): MarginOrderItem => ({
+  productId: 'paw-san-25kg',
+  productName: 'Paw San 25kg',
+  unitPrice: 40000,
+  quantity: 2,
+  costAmount: 60000,
+  refundedQuantity: 0,
+  restockedQuantity: 0,
+  refundedAmount: 0,
+  ...overrides
+});
+
+const buildOrder = (overrides: Partial<MarginOrder> = {}): MarginOrder => ({
+  id: 'order-1',
+  createdAt: new Date('2026-10-15T08:00:00.000Z'),
+  discountAmount: 0,
+  refundedAmount: 0,
+  items: [buildItem()],
+  ...overrides
+});
+
+describe('Margin utilities', () => {
+  describe('summarizeOrderMargin', () => {
+    it('should subtract the cost of the bags from the item revenue', () => {
+      const margin = summarizeOrderMargin(buildOrder());
+      expect(margin).toMatchObject({ revenue: 80000, cost: 60000, grossMargin: 20000, marginPercent: 25 });
+    });
+
+    it('should spread the coupon discount across items', () => {
+      const margin = summarizeOrderMargin(buildOrder({
+        discountAmount: 10000,
+        items: [
+          buildItem(),
+          buildItem({ productId: 'shwe-bo-5kg', productName: 'Shwe Bo 5kg', unitPrice: 10000, quantity: 2, costAmount: 14000 })
+        ]
+      }));
+      expect(margin.revenue).toBe(90000);
+      expect(margin.products.find(product => product.productId === 'shwe-bo-5kg')!.revenue).toBe(18000);
+    });
+
+    it('should not charge the cost of refunded bags that were restocked', () => {
+      const margin = summarizeOrderMargin(buildOrder({
+        refundedAmount: 40000,
+        items: [buildItem({ refundedQuantity: 1, restockedQuantity: 1, refundedAmount: 40000 })]
+      }));
+      expect(margin).toMatchObject({ revenue: 40000, cost: 30000, grossMargin: 10000 });
+      expect(margin.products[0].quantitySold).toBe(1);
+    });
+
+    it('should keep the cost of refunded bags that were not restocked', () => {
+      const margin = summarizeOrderMargin(buildOrder({
+        refundedAmount: 40000,
+        items: [buildItem({ refundedQuantity: 1, refundedAmount: 40000 })]
+      }));
+      expect(margin).toMatchObject({ revenue: 40000, cost: 60000, grossMargin: -20000 });
+    });
+
+    it('should spread refunds not tied to items across the order', () => {
+      const margin = summarizeOrderMargin(buildOrder({ refundedAmount: 8000 }));
+      expect(margin.revenue).toBe(72000);
+    });
+
+    it('should count bags sold before cost tracking as uncosted', () => {
+      const margin = summarizeOrderMargin(buildOrder({ items: [buildItem({ costAmount: null })] }));
+      expect(margin).toMatchObject({ cost: 0, grossMargin: 80000, uncostedQuantity: 2 });
+    });
+  });
+
+  describe('getPeriodKey', () => {
+    const date = new Date('2026-10-18T20:00:00.000Z'); // a Sunday
+
+    it('should key days, weeks and months', () => {
+      expect(getPeriodKey(date, 'day')).toBe('2026-10-18');
+      expect(getPeriodKey(date, 'week')).toBe('2026-10-12');
+      expect(getPeriodKey(date, 'month')).toBe('2026-10');
+    });
+  });
+
+  describe('buildMarginReport', () => {
+    it('should total orders per period and per product', () => {
+      const report = buildMarginReport([
+        buildOrder(),
+        buildOrder({ id: 'order-2', createdAt: new Date('2026-10-16T08:00:00.000Z') }),
+        buildOrder({ id: 'order-3', createdAt: new Date('2026-10-20T08:00:00.000Z') })
+      ], 'week');
+
+      expect(report.totals).toMatchObject({ orderCount: 3, revenue: 240000, cost: 180000, grossMargin: 60000 });
+      expect(report.periods.map(period => [period.period, period.orderCount])).toEqual([
+        ['2026-10-12', 2],
+        ['2026-10-19', 1]
+      ]);
+      expect(report.products).toEqual([
+        expect.objectContaining({ productId: 'paw-san-25kg', quantitySold: 6, grossMargin: 60000 })
+      ]);
+      expect(report.orders.map(order => order.orderId)).toEqual(['order-3', 'order-2', 'order-1']);
+    });
+  });
+});
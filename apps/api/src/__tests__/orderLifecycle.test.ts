@@ -0,0 +1,244 @@
+import { OrderStatus } from '@prisma/client';
+import {
+  canCustomerCancel,
+  canTransitionOrder,
+  planOrderTransition,
+  planRefundRestock,
+  planReturnRestock
+} from '../utils/orderLifecycle';
+import { RefundOrderState } from '../utils/refunds';
+
+const STATUSES: OrderStatus[] = [
+  'PENDING', 'PROCESSING', 'ON_HOLD', 'SHIPPED', 'DELIVERED', 'CANCELED', 'RETURNED', 'REFUNDED'
+];
+
+// Every allowed transition; anything not listed must be rejected
+const ALLOWED: Array<[OrderStatus, OrderStatus]> = [
+  ['PENDING', 'PROCESSING'],
+  ['PENDING', 'ON_HOLD'],
+  ['PENDING', 'CANCELED'],
+  ['PROCESSING', 'SHIPPED'],
+  ['PROCESSING', 'ON_HOLD'],
+  ['PROCESSING', 'CANCELED'],
+  ['ON_HOLD', 'PENDING'],
+  ['ON_HOLD', 'PROCESSING'],
+  ['ON_HOLD', 'CANCELED'],
+  ['SHIPPED', 'DELIVERED'],
+  ['SHIPPED', 'RETURNED'],
+  ['DELIVERED', 'RETURNED'],
+  ['DELIVERED', 'REFUNDED'],
+  ['CANCELED', 'REFUNDED'],
+  ['RETURNED', 'REFUNDED']
+];
+
+const isAllowed = (from: OrderStatus, to: OrderStatus) =>
+  ALLOWED.some(([allowedFrom, allowedTo]) => allowedFrom === from && allowedTo === to);
+
+const buildOrder = (status: OrderStatus, overrides: Partial<RefundOrderState> = {}): RefundOrderState => ({
+  id: 'order-1',
+  status,
+  paymentType: 'ONLINE_TRANSFER',
+  totalAmount: 105000,
+  discountAmount: 0,
+  refundedAmount: 0,
+  items: [
+    { id: 'item-25kg', productId: 'paw-san-25kg', unitPrice: 50000, quantity: 2, refundedQuantity: 0, restockedQuantity: 0 },
+    { id: 'item-5kg', productId: 'jasmine-5kg', unitPrice: 2500, quantity: 2, refundedQuantity: 0, restockedQuantity: 0 }
+  ],
+  restockedStock: [],
+  ...overrides
+});
+
+const admin = { id: 'admin-1', role: 'admin' as const };
+const customer = { id: 'user-1', role: 'customer' as const };
+const refund = { amount: 1000, reason: 'Customer request' };
+
+describe('Order lifecycle', () => {
+  describe('canTransitionOrder', () => {
+    for (const from of STATUSES) {
+      for (const to of STATUSES) {
+        const allowed = isAllowed(from, to);
+        it(`should ${allowed ? 'allow' : 'reject'} ${from} -> ${to}`, () => {
+          expect(canTransitionOrder(from, to)).toBe(allowed);
+        });
+      }
+    }
+  });
+
+  describe('planOrderTransition', () => {
+    for (const from of STATUSES) {
+      for (const to of STATUSES) {
+        const allowed = isAllowed(from, to);
+        it(`should ${allowed ? 'accept' : 'reject'} an admin changing ${from} -> ${to}`, () => {
+          const plan = planOrderTransition(buildOrder(from), { to, actor: admin, refund });
+          expect(plan.valid).toBe(allowed);
+        });
+      }
+    }
+
+    it('should let customers cancel only pending or processing orders', () => {
+      for (const status of STATUSES) {
+        const plan = planOrderTransition(buildOrder(status), { to: 'CANCELED', actor: customer });
+        expect(plan.valid).toBe(canCustomerCancel(status));
+      }
+      expect(STATUSES.filter(canCustomerCancel)).toEqual(['PENDING', 'PROCESSING']);
+    });
+
+    it('should not let customers make any other status change', () => {
+      const plan = planOrderTransition(buildOrder('PENDING'), { to: 'PROCESSING', actor: customer });
+      expect(plan).toEqual({ valid: false, error: 'Customers cannot change an order to PROCESSING' });
+    });
+
+    it('should restock every bag when an order is canceled', () => {
+      const plan = planOrderTransition(buildOrder('PROCESSING'), { to: 'CANCELED', actor: customer });
+      expect(plan).toEqual({
+        valid: true,
+        refund: null,
+        restock: [
+          { productId: 'paw-san-25kg', quantity: 2 },
+          { productId: 'jasmine-5kg', quantity: 2 }
+        ]
+      });
+    });
+
+    it('should not touch stock for other changes', () => {
+      const plan = planOrderTransition(buildOrder('PROCESSING'), { to: 'SHIPPED', actor: admin });
+      expect(plan).toEqual({ valid: true, refund: null, restock: [] });
+    });
+
+    it('should require a refund amount and reason to mark an order refunded', () => {
+      const plan = planOrderTransition(buildOrder('DELIVERED'), { to: 'REFUNDED', actor: admin });
+      expect(plan).toEqual({
+        valid: false,
+        error: 'Refund amount and reason are required when marking order as refunded'
+      });
+    });
+
+    it('should apply the refund rules to status refunds', () => {
+      const alreadyRefunded = buildOrder('DELIVERED', { refundedAmount: 100000 });
+      const plan = planOrderTransition(alreadyRefunded, {
+        to: 'REFUNDED',
+        actor: admin,
+        refund: { amount: 10000, reason: 'Full refund' }
+      });
+      expect(plan).toEqual({
+        valid: false,
+        error: 'Refund amount exceeds the remaining refundable amount of 5000 MMK'
+      });
+    });
+
+    it('should not refund canceled cash on delivery orders', () => {
+      const plan = planOrderTransition(buildOrder('CANCELED', { paymentType: 'COD' }), {
+        to: 'REFUNDED',
+        actor: admin,
+        refund
+      });
+      expect(plan.valid).toBe(false);
+    });
+
+    it('should restock only bags not covered by earlier refunds when requested', () => {
+      const partlyRefunded = buildOrder('DELIVERED', {
+        items: [
+          { id: 'item-25kg', productId: 'paw-san-25kg', unitPrice: 50000, quantity: 2, refundedQuantity: 1, restockedQuantity: 0 },
+          { id: 'item-5kg', productId: 'jasmine-5kg', unitPrice: 2500, quantity: 2, refundedQuantity: 2, restockedQuantity: 0 }
+        ]
+      });
+      const plan = planOrderTransition(partlyRefunded, { to: 'REFUNDED', actor: admin, refund, restock: true });
+      expect(plan.valid && plan.restock).toEqual([{ productId: 'paw-san-25kg', quantity: 1 }]);
+    });
+
+    it('should not restock bags a received return already put back', () => {
+      const returned = buildOrder('RETURNED', {
+        restockedStock: [
+          { productId: 'paw-san-25kg', quantity: 2 },
+          { productId: 'jasmine-5kg', quantity: 1 }
+        ]
+      });
+      const plan = planOrderTransition(returned, { to: 'REFUNDED', actor: admin, refund, restock: true });
+      expect(plan.valid && plan.restock).toEqual([{ productId: 'jasmine-5kg', quantity: 1 }]);
+    });
+
+    it('should not restock a refunded order that was already restocked on cancel', () => {
+      const plan = planOrderTransition(buildOrder('CANCELED'), { to: 'REFUNDED', actor: admin, refund, restock: true });
+      expect(plan).toEqual({ valid: true, refund, restock: [] });
+    });
+  });
+
+  describe('planRefundRestock', () => {
+    const refundedBag = { productId: 'paw-san-25kg', quantity: 1 };
+
+    it('should restock refunded bags that are still out', () => {
+      expect(planRefundRestock(buildOrder('DELIVERED'), [refundedBag])).toEqual({
+        valid: true,
+        restock: [refundedBag]
+      });
+    });
+
+    it('should reject restocking a canceled order', () => {
+      const canceled = buildOrder('CANCELED', {
+        restockedStock: [
+          { productId: 'paw-san-25kg', quantity: 2 },
+          { productId: 'jasmine-5kg', quantity: 2 }
+        ]
+      });
+      expect(planRefundRestock(canceled, [refundedBag])).toEqual({
+        valid: false,
+        error: 'Canceled orders were already restocked when they were canceled'
+      });
+    });
+
+    it('should not restock bags a received return already put back', () => {
+      const returned = buildOrder('DELIVERED', { restockedStock: [{ productId: 'paw-san-25kg', quantity: 1 }] });
+      const plan = planRefundRestock(returned, [{ productId: 'paw-san-25kg', quantity: 2 }]);
+      expect(plan).toEqual({ valid: true, restock: [{ productId: 'paw-san-25kg', quantity: 1 }] });
+    });
+
+    it('should restock once bags put back by an earlier restocking refund are covered', () => {
+      const partlyRefunded = buildOrder('DELIVERED', {
+        items: [
+          { id: 'item-25kg', productId: 'paw-san-25kg', unitPrice: 50000, quantity: 2, refundedQuantity: 1, restockedQuantity: 1 },
+          { id: 'item-5kg', productId: 'jasmine-5kg', unitPrice: 2500, quantity: 2, refundedQuantity: 0, restockedQuantity: 0 }
+        ],
+        restockedStock: [{ productId: 'paw-san-25kg', quantity: 1 }]
+      });
+      const plan = planRefundRestock(partlyRefunded, [refundedBag]);
+      expect(plan).toEqual({ valid: true, restock: [refundedBag] });
+    });
+
+    it('should never restock more bags than the order took out', () => {
+      const restocked = buildOrder('DELIVERED', { restockedStock: [{ productId: 'paw-san-25kg', quantity: 2 }] });
+      const plan = planRefundRestock(restocked, [{ productId: 'paw-san-25kg', quantity: 2 }]);
+      expect(plan).toEqual({ valid: true, restock: [] });
+    });
+  });
+
+  describe('planReturnRestock', () => {
+    it('should restock the returned bags of each item', () => {
+      const plan = planReturnRestock(buildOrder('DELIVERED'), [{ orderItemId: 'item-25kg', quantity: 2 }]);
+      expect(plan).toEqual({ valid: true, restock: [{ productId: 'paw-san-25kg', quantity: 2 }] });
+    });
+
+    it('should only restock bags the order still has out', () => {
+      const refunded = buildOrder('DELIVERED', { restockedStock: [{ productId: 'paw-san-25kg', quantity: 1 }] });
+      const plan = planReturnRestock(refunded, [
+        { orderItemId: 'item-25kg', quantity: 2 },
+        { orderItemId: 'item-5kg', quantity: 1 }
+      ]);
+      expect(plan).toEqual({
+        valid: true,
+        restock: [
+          { productId: 'paw-san-25kg', quantity: 1 },
+          { productId: 'jasmine-5kg', quantity: 1 }
+        ]
+      });
+    });
+
+    it('should reject a restock when every returned bag is already back in stock', () => {
+      const restocked = buildOrder('DELIVERED', { restockedStock: [{ productId: 'paw-san-25kg', quantity: 2 }] });
+      expect(planReturnRestock(restocked, [{ orderItemId: 'item-25kg', quantity: 1 }])).toEqual({
+        valid: false,
+        error: 'The returned bags were already put back into stock'
+      });
+    });
+  });
+});
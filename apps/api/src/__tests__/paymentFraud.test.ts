@@ -0,0 +1,139 @@
+import sharp from 'sharp';
+import { Prisma } from '@prisma/client';
+import {
+  computeImageHash,
+  findPaymentSuspicion,
+  findTransactionIdConflicts,
+  hashDistance,
+  isDuplicateTransactionIdError,
+  SCREENSHOT_MATCH_DISTANCE,
+  TRANSACTION_ID_RELEASED_STATUSES
+} from '../utils/paymentFraud';
+import { canTransitionOrder } from '../utils/orderLifecycle';
+
+// A 120x80 image with a diagonal gradient; flipping it gives a different picture
+const makeImage = (flip = false) => {
+  const width = 120;
+  const height = 80;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round(((flip ? width - x : x) * 2 + y * 3 + (x * y) % 50) % 256);
+      pixels.set([value, 255 - value, (value * 7) % 256], (y * width + x) * 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+};
+
+describe('Payment fraud checks', () => {
+  describe('computeImageHash', () => {
+    it('should give resized and recompressed copies of a screenshot nearly the same hash', async () => {
+      const original = await makeImage().png().toBuffer();
+      const copy = await sharp(original).resize(60, 40).jpeg({ quality: 40 }).toBuffer();
+
+      const hash = await computeImageHash(original);
+      expect(hash).toMatch(/^[0-9a-f]{16}$/);
+      expect(hashDistance(hash, await computeImageHash(copy))).toBeLessThanOrEqual(SCREENSHOT_MATCH_DISTANCE);
+    });
+
+    it('should give different screenshots distant hashes', async () => {
+      const first = await computeImageHash(await makeImage().png().toBuffer());
+      const second = await computeImageHash(await makeImage(true).png().toBuffer());
+      expect(hashDistance(first, second)).toBeGreaterThan(SCREENSHOT_MATCH_DISTANCE);
+    });
+  });
+
+  describe('hashDistance', () => {
+    it('should count differing bits', () => {
+      expect(hashDistance('0000000000000000', '0000000000000000')).toBe(0);
+      expect(hashDistance('00000000000000ff', '0000000000000000')).toBe(8);
+      expect(hashDistance('8000000000000001', '0000000000000000')).toBe(2);
+    });
+  });
+
+  describe('findPaymentSuspicion', () => {
+    const order = {
+      id: 'order-1',
+      companyAccountId: 'aya',
+      transactionId: 'FT2629100012',
+      paymentScreenshotHash: 'f0f0f0f0f0f0f0f0'
+    };
+
+    it('should flag the same transaction ID on the same company account', () => {
+      const others = [
+        order,
+        { id: 'order-2', companyAccountId: 'aya', transactionId: ' ft2629100012 ', paymentScreenshotHash: null },
+        { id: 'order-3', companyAccountId: 'kbz', transactionId: 'FT2629100012', paymentScreenshotHash: null }
+      ];
+      expect(findPaymentSuspicion(order, others)).toEqual({
+        duplicateTransactionOrderIds: ['order-2'],
+        similarScreenshotOrderIds: []
+      });
+    });
+
+    it('should flag similar screenshots on any account', () => {
+      const others = [
+        { id: 'order-2', companyAccountId: 'kbz', transactionId: null, paymentScreenshotHash: 'f0f0f0f0f0f0f0f3' },
+        { id: 'order-3', companyAccountId: 'aya', transactionId: null, paymentScreenshotHash: '0f0f0f0f0f0f0f0f' }
+      ];
+      expect(findPaymentSuspicion(order, others)).toEqual({
+        duplicateTransactionOrderIds: [],
+        similarScreenshotOrderIds: ['order-2']
+      });
+    });
+
+    it('should return null when nothing is re-used', () => {
+      expect(findPaymentSuspicion(order, [order])).toBeNull();
+      expect(findPaymentSuspicion({ ...order, transactionId: null, paymentScreenshotHash: null }, [
+        { id: 'order-2', companyAccountId: 'aya', transactionId: 'FT2629100012', paymentScreenshotHash: 'f0f0f0f0f0f0f0f0' }
+      ])).toBeNull();
+    });
+  });
+
+  describe('findTransactionIdConflicts', () => {
+    type StoredOrder = { id: string; status: string; companyAccountId: string | null; transactionId: string };
+
+    // Applies the filters findTransactionIdConflicts uses, like the database would
+    const fakeDb = (orders: StoredOrder[]) => ({
+      order: {
+        findMany: async ({ where }: { where: any }) => orders.filter(order =>
+          !where.status.notIn.includes(order.status) &&
+          order.companyAccountId === where.companyAccountId &&
+          order.transactionId.toUpperCase() === where.transactionId.equals.toUpperCase() &&
+          (!where.id || order.id !== where.id.not))
+      }
+    }) as unknown as Parameters<typeof findTransactionIdConflicts>[0];
+
+    it('should find live orders with the same transaction ID', async () => {
+      const db = fakeDb([{ id: 'order-1', status: 'PROCESSING', companyAccountId: 'aya', transactionId: 'FT2629100012' }]);
+      expect(await findTransactionIdConflicts(db, { transactionId: ' ft2629100012', companyAccountId: 'aya' })).toEqual(['order-1']);
+      expect(await findTransactionIdConflicts(db, { transactionId: 'FT2629100012', companyAccountId: 'aya', excludeOrderId: 'order-1' }))
+        .toEqual([]);
+    });
+
+    it('should let a canceled order be refunded after a new order reused its transaction ID', async () => {
+      expect(canTransitionOrder('CANCELED', 'REFUNDED')).toBe(true);
+      expect(TRANSACTION_ID_RELEASED_STATUSES).toEqual(expect.arrayContaining(['CANCELED', 'REFUNDED']));
+
+      const refunded = fakeDb([{ id: 'order-1', status: 'REFUNDED', companyAccountId: 'aya', transactionId: 'FT2629100012' }]);
+      expect(await findTransactionIdConflicts(refunded, { transactionId: 'FT2629100012', companyAccountId: 'aya' })).toEqual([]);
+    });
+  });
+
+  describe('isDuplicateTransactionIdError', () => {
+    const uniqueError = (target: string) => new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: Prisma.prismaVersion.client,
+      meta: { target }
+    });
+
+    it('should recognise the unique transaction ID index', () => {
+      expect(isDuplicateTransactionIdError(uniqueError('orders_companyAccountId_transactionId_key'))).toBe(true);
+    });
+
+    it('should ignore other errors', () => {
+      expect(isDuplicateTransactionIdError(uniqueError('orders_orderNumber_key'))).toBe(false);
+      expect(isDuplicateTransactionIdError(new Error('transactionId'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  codPaymentProvider,
+  getEnabledPaymentTypes,
+  manualTransferProvider,
+  PaymentOrder
+} from '../utils/paymentProviders';
+import {
+  assertMockGatewayConfig,
+  getMockPayment,
+  MOCK_SIGNATURE_HEADER,
+  mockPaymentProvider,
+  simulateMockPayment
+} from '../utils/mockPaymentGateway';
+
+const order = (overrides: Partial<PaymentOrder> = {}): PaymentOrder => ({
+  id: 'order-1',
+  status: 'PENDING',
+  totalAmount: 45000,
+  paymentReference: null,
+  paymentVerifiedAt: null,
+  ...overrides
+});
+
+describe('Payment providers', () => {
+  describe('getEnabledPaymentTypes', () => {
+    afterEach(() => {
+      delete process.env.PAYMENT_MOCK_ENABLED;
+    });
+
+    it('should only offer the mock gateway when it is enabled', () => {
+      expect(getEnabledPaymentTypes()).toEqual(['COD', 'ONLINE_TRANSFER']);
+      process.env.PAYMENT_MOCK_ENABLED = 'true';
+      expect(getEnabledPaymentTypes()).toEqual(['COD', 'ONLINE_TRANSFER', 'MOCK']);
+    });
+  });
+
+  describe('cash on delivery and manual transfer', () => {
+    it('should report COD orders paid once delivered', async () => {
+      expect(await codPaymentProvider.queryStatus(order({ status: 'PROCESSING' }))).toBe('PENDING');
+      expect(await codPaymentProvider.queryStatus(order({ status: 'DELIVERED' }))).toBe('PAID');
+      expect(await codPaymentProvider.queryStatus(order({ status: 'CANCELED' }))).toBe('FAILED');
+    });
+
+    it('should report transfers paid once an admin verified them', async () => {
+      expect(await manualTransferProvider.queryStatus(order())).toBe('PENDING');
+      expect(await manualTransferProvider.queryStatus(order({ status: 'PROCESSING', paymentVerifiedAt: new Date() }))).toBe('PAID');
+    });
+
+    it('should not accept callbacks and leave refunds to be paid by hand', async () => {
+      expect(manualTransferProvider.verifyCallback({ headers: {}, body: {} }).valid).toBe(false);
+      expect(await codPaymentProvider.refund(order(), { amount: 1000, reason: 'Damaged bag', idempotencyKey: 'refund-1' })).toEqual({
+        success: true,
+        reference: null
+      });
+    });
+  });
+
+  describe('mock gateway', () => {
+    beforeAll(() => {
+      process.env.PAYMENT_MOCK_SECRET = 'test-mock-secret';
+    });
+
+    afterAll(() => {
+      delete process.env.PAYMENT_MOCK_SECRET;
+    });
+
+    it('should require a callback secret when enabled', () => {
+      process.env.PAYMENT_MOCK_ENABLED = 'true';
+      delete process.env.PAYMENT_MOCK_SECRET;
+      expect(() => assertMockGatewayConfig()).toThrow('PAYMENT_MOCK_SECRET must be set');
+
+      process.env.PAYMENT_MOCK_SECRET = 'test-mock-secret';
+      expect(() => assertMockGatewayConfig()).not.toThrow();
+      delete process.env.PAYMENT_MOCK_ENABLED;
+    });
+
+    it('should accept the signed callback of a completed checkout', async () => {
+      const { paymentReference, redirectUrl } = await mockPaymentProvider.initiate(order());
+      expect(redirectUrl).toContain(`/api/payments/mock/checkout/${paymentReference}`);
+
+      const callback = simulateMockPayment(paymentReference!, 'PAID')!;
+      expect(mockPaymentProvider.verifyCallback(callback)).toMatchObject({
+        valid: true,
+        paymentReference,
+        status: 'PAID',
+        amount: 45000
+      });
+      expect(await mockPaymentProvider.queryStatus(order({ paymentReference }))).toBe('PAID');
+    });
+
+    it('should reject callbacks that were tampered with', async () => {
+      const { paymentReference } = await mockPaymentProvider.initiate(order());
+      const callback = simulateMockPayment(paymentReference!, 'PAID', 1000)!;
+
+      expect(mockPaymentProvider.verifyCallback({ ...callback, body: { ...callback.body, amount: 45000 } })).toEqual({
+        valid: false,
+        error: 'Invalid callback signature'
+      });
+      expect(mockPaymentProvider.verifyCallback({ headers: {}, body: callback.body }).valid).toBe(false);
+      expect(mockPaymentProvider.verifyCallback({ ...callback, body: { reference: paymentReference } })).toEqual({
+        valid: false,
+        error: 'Malformed callback'
+      });
+      expect(callback.headers[MOCK_SIGNATURE_HEADER]).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should refund no more than was paid', async () => {
+      const { paymentReference } = await mockPaymentProvider.initiate(order());
+      const paidOrder = order({ paymentReference });
+
+      expect((await mockPaymentProvider.refund(paidOrder, { amount: 1000, reason: 'Goodwill', idempotencyKey: 'refund-early' })).success).toBe(false);
+
+      simulateMockPayment(paymentReference!, 'PAID');
+      const refund = await mockPaymentProvider.refund(paidOrder, { amount: 40000, reason: 'Damaged bags', idempotencyKey: 'refund-damaged' });
+      expect(refund).toMatchObject({ success: true, reference: expect.stringMatching(/^mock_refund_/) });
+      expect(await mockPaymentProvider.refund(paidOrder, { amount: 10000, reason: 'Goodwill', idempotencyKey: 'refund-goodwill' })).toEqual({
+        success: false,
+        error: 'Refund exceeds the amount paid through the mock gateway'
+      });
+    });
+
+    it('should pay a retried refund only once', async () => {
+      const { paymentReference } = await mockPaymentProvider.initiate(order());
+      const paidOrder = order({ paymentReference });
+      simulateMockPayment(paymentReference!, 'PAID');
+
+      const refund = { amount: 30000, reason: 'Damaged bags', idempotencyKey: 'refund-retried' };
+      const first = await mockPaymentProvider.refund(paidOrder, refund);
+      expect(await mockPaymentProvider.refund(paidOrder, refund)).toEqual(first);
+      expect(getMockPayment(paymentReference!)!.refundedAmount).toBe(30000);
+    });
+  });
+});
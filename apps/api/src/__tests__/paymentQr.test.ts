@@ -0,0 +1,62 @@
+import { buildPaymentQrPayload, emvCrc, getOrderPaymentReference, renderPaymentQr } from '../utils/paymentQr';
+
+// Split an EMV payload into its top-level tags
+const parseTlv = (payload: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let index = 0;
+  while (index < payload.length) {
+    const tag = payload.slice(index, index + 2);
+    const length = parseInt(payload.slice(index + 2, index + 4), 10);
+    fields[tag] = payload.slice(index + 4, index + 4 + length);
+    index += 4 + length;
+  }
+  return fields;
+};
+
+const account = { type: 'KBZ_PAY', accountNo: '09250001111', accountName: 'Nan Ayeyar Co.' };
+
+describe('Payment QR codes', () => {
+  describe('emvCrc', () => {
+    it('should compute CRC-16/CCITT-FALSE', () => {
+      expect(emvCrc('123456789')).toBe('29B1');
+    });
+  });
+
+  describe('buildPaymentQrPayload', () => {
+    it('should embed the account, exact amount and order reference', () => {
+      const payload = buildPaymentQrPayload(account, { amount: 45000, reference: getOrderPaymentReference('clx8order1234abcd') });
+      const fields = parseTlv(payload);
+
+      expect(fields['01']).toBe('12');
+      expect(parseTlv(fields['26'])).toEqual({ '00': 'KBZ_PAY', '01': '09250001111' });
+      expect(fields['53']).toBe('104');
+      expect(fields['54']).toBe('45000');
+      expect(fields['59']).toBe('Nan Ayeyar Co.');
+      expect(parseTlv(fields['62'])).toEqual({ '01': '1234ABCD', '05': '1234ABCD' });
+    });
+
+    it('should end with a checksum of the rest of the payload', () => {
+      const payload = buildPaymentQrPayload(account, { amount: 1250.5, reference: 'ORDER123' });
+      expect(parseTlv(payload)['54']).toBe('1250.50');
+      expect(payload.slice(-4)).toBe(emvCrc(payload.slice(0, -4)));
+    });
+
+    it('should trim long names', () => {
+      const fields = parseTlv(buildPaymentQrPayload(
+        { ...account, accountName: 'Nan Ayeyar Rice Trading Company Limited' },
+        { amount: 45000, reference: 'ORDER123' }
+      ));
+      expect(fields['59']).toHaveLength(25);
+    });
+  });
+
+  describe('renderPaymentQr', () => {
+    it('should render SVG and PNG data URLs', async () => {
+      const payload = buildPaymentQrPayload(account, { amount: 45000, reference: 'ORDER123' });
+      const svg = await renderPaymentQr(payload, 'svg');
+      expect(svg).toMatch(/^data:image\/svg\+xml;base64,/);
+      expect(Buffer.from(svg.split(',')[1], 'base64').toString()).toContain('<svg');
+      expect(await renderPaymentQr(payload, 'png')).toMatch(/^data:image\/png;base64,/);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  checkPaymentProofUpdate,
+  getPaymentAge,
+  PaymentProofOrder,
+  PaymentVerificationConfig
+} from '../utils/paymentVerification';
+
+const config: PaymentVerificationConfig = {
+  agingHours: 4,
+  overdueHours: 24
+};
+
+const now = new Date('2026-10-18T12:00:00.000Z');
+
+describe('Payment verification utilities', () => {
+  describe('getPaymentAge', () => {
+    it('should count from when the proof was submitted', () => {
+      const age = getPaymentAge({
+        createdAt: new Date('2026-10-17T12:00:00.000Z'),
+        paymentSubmittedAt: new Date('2026-10-18T11:30:00.000Z')
+      }, now, config);
+      expect(age).toEqual({ waitingMinutes: 30, aging: 'NEW' });
+    });
+
+    it('should count from the order date while there is no proof', () => {
+      const age = getPaymentAge({ createdAt: new Date('2026-10-18T07:00:00.000Z'), paymentSubmittedAt: null }, now, config);
+      expect(age).toEqual({ waitingMinutes: 300, aging: 'AGING' });
+    });
+
+    it('should flag transfers waiting past the overdue threshold', () => {
+      const age = getPaymentAge({ createdAt: new Date('2026-10-17T12:00:00.000Z'), paymentSubmittedAt: null }, now, config);
+      expect(age.aging).toBe('OVERDUE');
+    });
+  });
+
+  describe('checkPaymentProofUpdate', () => {
+    const pending: PaymentProofOrder = { paymentType: 'ONLINE_TRANSFER', status: 'PENDING', paymentRejectedAt: null };
+    const rejected: PaymentProofOrder = {
+      paymentType: 'ONLINE_TRANSFER',
+      status: 'ON_HOLD',
+      paymentRejectedAt: new Date('2026-10-18T10:00:00.000Z')
+    };
+
+    it('should accept proof for a transfer waiting for verification', () => {
+      expect(checkPaymentProofUpdate(pending, { transactionId: 'TXN123' })).toBeNull();
+    });
+
+    it('should accept new proof after a rejection', () => {
+      expect(checkPaymentProofUpdate(rejected, { paymentScreenshot: '/uploads/receipt.jpg' })).toBeNull();
+    });
+
+    it('should not accept proof for orders on hold for other reasons or already verified', () => {
+      const onHold = { ...rejected, paymentRejectedAt: null };
+      const processing = { ...pending, status: 'PROCESSING' as const };
+      const error = 'Payment proof can only be sent while the payment is waiting for verification or was rejected';
+      expect(checkPaymentProofUpdate(onHold, { transactionId: 'TXN123' })).toBe(error);
+      expect(checkPaymentProofUpdate(processing, { transactionId: 'TXN123' })).toBe(error);
+    });
+
+    it('should only accept proof for online transfers', () => {
+      expect(checkPaymentProofUpdate({ ...pending, paymentType: 'COD' }, { transactionId: 'TXN123' }))
+        .toBe('Payment proof can only be sent for online transfer orders');
+    });
+
+    it('should require a transaction ID or screenshot', () => {
+      expect(checkPaymentProofUpdate(rejected, { transactionId: ' ' }))
+        .toBe('Add a transaction ID or a payment screenshot');
+    });
+  });
+});
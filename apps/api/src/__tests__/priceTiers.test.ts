@@ -0,0 +1,110 @@
+import { Prisma } from '@prisma/client';
+import {
+  PriceTierEntry,
+  checkPriceTiers,
+  getPriceBands,
+  resolveTierPrice,
+  toOrderItemTier
+} from '../utils/priceTiers';
+import { resolveOrderLine } from '../utils/productVariants';
+
+describe('Price tier utilities', () => {
+  const retail = (minQuantity: number, price: number): PriceTierEntry => ({
+    priceList: 'RETAIL',
+    minQuantity,
+    price: new Prisma.Decimal(price)
+  });
+  const wholesale = (minQuantity: number, price: number): PriceTierEntry => ({ priceList: 'WHOLESALE', minQuantity, price });
+
+  const tiers = [retail(5, 8800), retail(20, 8500), wholesale(1, 8400), wholesale(20, 8000)];
+
+  describe('resolveTierPrice', () => {
+    it('should charge the list price below the first tier', () => {
+      expect(resolveTierPrice(9000, tiers, 4)).toEqual({ unitPrice: 9000, listPrice: 9000, tier: null });
+    });
+
+    it('should apply the largest tier the quantity reaches', () => {
+      expect(resolveTierPrice(9000, tiers, 5).unitPrice).toBe(8800);
+      expect(resolveTierPrice(9000, tiers, 25))
+        .toEqual({ unitPrice: 8500, listPrice: 9000, tier: { minQuantity: 20, priceList: 'RETAIL' } });
+    });
+
+    it('should give wholesale customers their own price list', () => {
+      expect(resolveTierPrice(9000, tiers, 1, true).unitPrice).toBe(8400);
+      expect(resolveTierPrice(9000, tiers, 20, true).tier).toEqual({ minQuantity: 20, priceList: 'WHOLESALE' });
+    });
+
+    it('should fall back to retail tiers when there is no wholesale list', () => {
+      expect(resolveTierPrice(9000, [retail(5, 8800)], 5, true).unitPrice).toBe(8800);
+    });
+
+    it('should keep a sale price that is already lower than the tier', () => {
+      expect(resolveTierPrice(8000, tiers, 25)).toEqual({ unitPrice: 8000, listPrice: 8000, tier: null });
+    });
+  });
+
+  describe('getPriceBands', () => {
+    it('should describe the quantity bands', () => {
+      expect(getPriceBands(9000, tiers)).toEqual([
+        { minQuantity: 1, maxQuantity: 4, price: 9000 },
+        { minQuantity: 5, maxQuantity: 19, price: 8800 },
+        { minQuantity: 20, maxQuantity: null, price: 8500 }
+      ]);
+    });
+
+    it('should return no bands without tiers', () => {
+      expect(getPriceBands(9000, [])).toEqual([]);
+    });
+  });
+
+  describe('checkPriceTiers', () => {
+    it('should accept tiers that get cheaper with quantity', () => {
+      expect(checkPriceTiers(tiers)).toEqual({ valid: true });
+    });
+
+    it('should reject retail tiers for a single bag', () => {
+      expect(checkPriceTiers([retail(1, 8800)]))
+        .toEqual({ valid: false, error: 'Retail tiers start at 2 bags; a single bag costs the regular price' });
+    });
+
+    it('should reject duplicate and rising tiers', () => {
+      expect(checkPriceTiers([retail(5, 8800), retail(5, 8700)]))
+        .toEqual({ valid: false, error: 'Two retail tiers start at 5 bags' });
+      expect(checkPriceTiers([retail(5, 8800), retail(20, 8900)]))
+        .toEqual({ valid: false, error: 'Larger quantities cannot cost more per bag' });
+    });
+  });
+
+  describe('toOrderItemTier', () => {
+    it('should snapshot the applied tier only', () => {
+      expect(toOrderItemTier(resolveTierPrice(9000, tiers, 20)))
+        .toEqual({ listPrice: 9000, tierMinQuantity: 20, tierPriceList: 'RETAIL' });
+      expect(toOrderItemTier(resolveTierPrice(9000, tiers, 2)))
+        .toEqual({ listPrice: null, tierMinQuantity: null, tierPriceList: null });
+    });
+  });
+
+  describe('resolveOrderLine', () => {
+    it('should price a large line of a size at its tier', () => {
+      const product = {
+        id: 'jasmine',
+        name_en: 'Jasmine Rice',
+        price: 9000,
+        stockOnHand: 50,
+        variants: [{
+          id: 'jasmine-25kg',
+          label: '25 kg',
+          price: 42000,
+          weightKg: 25,
+          stockOnHand: 50,
+          disabled: false,
+          priceTiers: [retail(20, 40000)]
+        }]
+      };
+      expect(resolveOrderLine(product, 'jasmine-25kg', new Date(), { quantity: 20 }))
+        .toEqual(expect.objectContaining({ valid: true, unitPrice: 40000, listPrice: 42000 }));
+      expect(resolveOrderLine(product, 'jasmine-25kg', new Date(), { quantity: 19 }))
+        .toEqual(expect.objectContaining({ valid: true, unitPrice: 42000, tier: null }));
+    });
+  });
+});
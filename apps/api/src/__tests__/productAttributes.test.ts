@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client';
+import {
+  countProductWeights,
+  formatProductAttributes,
+  productAttributeWhere,
+  toOrderItemMetadata,
+  toProductAttributeData
+} from '../utils/productAttributes';
+
+describe('Product attribute utilities', () => {
+  const columns = {
+    variety: 'Jasmine',
+    grade: 'Premium',
+    weightKg: new Prisma.Decimal('5.00'),
+    origin: 'Thailand',
+    harvestDate: new Date('2024-02-10T00:00:00Z'),
+    packageType: null
+  };
+
+  describe('formatProductAttributes', () => {
+    it('should return weight as a number and the harvest date as a day', () => {
+      expect(formatProductAttributes(columns)).toEqual({
+        variety: 'Jasmine',
+        grade: 'Premium',
+        weightKg: 5,
+        origin: 'Thailand',
+        harvestDate: '2024-02-10',
+        packageType: null
+      });
+    });
+  });
+
+  describe('toOrderItemMetadata', () => {
+    it('should keep free-form details and put the attributes on top', () => {
+      const metadata = toOrderItemMetadata({ ...columns, metadata: { cookingTip: 'Rinse twice', variety: 'Old' } });
+      expect(metadata.cookingTip).toBe('Rinse twice');
+      expect(metadata.variety).toBe('Jasmine');
+      expect(metadata.weightKg).toBe(5);
+    });
+  });
+
+  describe('toProductAttributeData', () => {
+    it('should only set the attributes that were given', () => {
+      expect(toProductAttributeData({ variety: ' Paw San ', weightKg: '25' })).toEqual({
+        variety: 'Paw San',
+        weightKg: 25
+      });
+    });
+
+    it('should clear attributes given as empty values', () => {
+      expect(toProductAttributeData({ grade: '', weightKg: null, harvestDate: '' })).toEqual({
+        grade: null,
+        weightKg: null,
+        harvestDate: null
+      });
+    });
+
+    it('should store the harvest date as a UTC day', () => {
+      expect(toProductAttributeData({ harvestDate: '2024-02-10' }).harvestDate).toEqual(new Date('2024-02-10T00:00:00Z'));
+    });
+  });
+
+  describe('productAttributeWhere', () => {
+    it('should match text attributes case-insensitively and weight exactly', () => {
+      expect(productAttributeWhere({ variety: 'jasmine', weightKg: '5', origin: '' })).toEqual({
+        variety: { equals: 'jasmine', mode: 'insensitive' },
+        OR: [
+          { weightKg: 5 },
+          { variants: { some: { weightKg: 5, disabled: false } } }
+        ]
+      });
+    });
+  });
+
+  describe('countProductWeights', () => {
+    it('should count the weights of a product\'s sizes once per product', () => {
+      expect(countProductWeights([
+        { weightKg: null, variants: [{ weightKg: new Prisma.Decimal('5.00') }, { weightKg: new Prisma.Decimal('25.00') }] },
+        { weightKg: new Prisma.Decimal('25.00'), variants: [{ weightKg: 25 }] },
+        { weightKg: 50, variants: [] },
+        { weightKg: null, variants: [] }
+      ])).toEqual([
+        { value: 25, count: 2 },
+        { value: 5, count: 1 },
+        { value: 50, count: 1 }
+      ]);
+    });
+  });
+});
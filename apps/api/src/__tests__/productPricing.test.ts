@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client';
+import {
+  PriceEntry,
+  checkSaleSchedule,
+  getPriceStatus,
+  planRegularPrice,
+  planRegularPriceRemoval,
+  resolveEffectivePrice
+} from '../utils/productPricing';
+import { resolveOrderLine } from '../utils/productVariants';
+
+describe('Product pricing utilities', () => {
+  const at = (day: number) => new Date(Date.UTC(2026, 9, day));
+  const now = at(15);
+
+  const regular = (price: number, startsAt: Date, endsAt: Date | null = null): PriceEntry => ({
+    kind: 'REGULAR',
+    price: new Prisma.Decimal(price),
+    startsAt,
+    endsAt
+  });
+  const sale = (price: number, startsAt: Date, endsAt: Date): PriceEntry => ({ kind: 'SALE', price, startsAt, endsAt });
+
+  describe('getPriceStatus', () => {
+    it('should tell scheduled, active and ended prices apart', () => {
+      expect(getPriceStatus(regular(1, at(20)), now)).toBe('scheduled');
+      expect(getPriceStatus(regular(1, at(1), at(20)), now)).toBe('active');
+      expect(getPriceStatus(regular(1, at(1), at(15)), now)).toBe('ended');
+    });
+  });
+
+  describe('resolveEffectivePrice', () => {
+    it('should use the stored price when no price applies', () => {
+      expect(resolveEffectivePrice(9000, [regular(9500, at(20))], now))
+        .toEqual({ price: 9000, compareAtPrice: null, saleEndsAt: null });
+    });
+
+    it('should use the regular price that has started', () => {
+      const prices = [regular(9000, at(1), at(10)), regular(9500, at(10), at(20)), regular(9900, at(20))];
+      expect(resolveEffectivePrice(9000, prices, now).price).toBe(9500);
+      expect(resolveEffectivePrice(9000, prices, at(21)).price).toBe(9900);
+    });
+
+    it('should apply a running sale with the regular price to compare at', () => {
+      const prices = [regular(9500, at(1)), sale(8000, at(14), at(16))];
+      expect(resolveEffectivePrice(9000, prices, now)).toEqual({ price: 8000, compareAtPrice: 9500, saleEndsAt: at(16) });
+      expect(resolveEffectivePrice(9000, prices, at(16)).price).toBe(9500);
+    });
+
+    it('should ignore a sale price that is not lower', () => {
+      expect(resolveEffectivePrice(9000, [sale(9900, at(14), at(16))], now))
+        .toEqual({ price: 9000, compareAtPrice: null, saleEndsAt: null });
+    });
+  });
+
+  describe('resolveOrderLine', () => {
+    it('should charge the price in effect when ordering', () => {
+      const product = {
+        id: 'jasmine',
+        name_en: 'Jasmine Rice',
+        price: 9000,
+        stockOnHand: 5,
+        prices: [sale(8000, at(14), at(16))],
+        variants: []
+      };
+      expect(resolveOrderLine(product, null, now)).toEqual(expect.objectContaining({ valid: true, unitPrice: 8000 }));
+      expect(resolveOrderLine(product, null, at(17))).toEqual(expect.objectContaining({ valid: true, unitPrice: 9000 }));
+    });
+  });
+
+  describe('planRegularPrice', () => {
+    const slots = [
+      { id: 'first', startsAt: at(1), endsAt: at(20) },
+      { id: 'scheduled', startsAt: at(20), endsAt: null }
+    ];
+
+    it('should cut the current price short and keep a scheduled one', () => {
+      expect(planRegularPrice(slots, now)).toEqual({ endsAt: at(20), shorten: { id: 'first', endsAt: now } });
+    });
+
+    it('should run a price scheduled after the last one until further notice', () => {
+      expect(planRegularPrice(slots, at(25))).toEqual({ endsAt: null, shorten: { id: 'scheduled', endsAt: at(25) } });
+    });
+
+    it('should end a price that starts before any other at the first one', () => {
+      expect(planRegularPrice(slots.slice(1), now)).toEqual({ endsAt: at(20), shorten: null });
+      expect(planRegularPrice([], now)).toEqual({ endsAt: null, shorten: null });
+    });
+  });
+
+  describe('planRegularPriceRemoval', () => {
+    it('should let the previous price run on in place of a cancelled one', () => {
+      const removed = { id: 'scheduled', startsAt: at(20), endsAt: at(25) };
+      const slots = [{ id: 'first', startsAt: at(1), endsAt: at(20) }, removed, { id: 'later', startsAt: at(25), endsAt: null }];
+      expect(planRegularPriceRemoval(slots, removed)).toEqual({ id: 'first', endsAt: at(25) });
+    });
+
+    it('should change nothing when no price came before', () => {
+      const removed = { id: 'scheduled', startsAt: at(20), endsAt: null };
+      expect(planRegularPriceRemoval([removed], removed)).toBeNull();
+    });
+  });
+
+  describe('checkSaleSchedule', () => {
+    it('should accept a future sale that does not overlap another', () => {
+      expect(checkSaleSchedule([sale(8000, at(1), at(5))], at(16), at(18), now)).toEqual({ valid: true });
+      expect(checkSaleSchedule([sale(8000, at(16), at(18))], at(18), at(20), now)).toEqual({ valid: true });
+    });
+
+    it('should reject sales that end before they start or have already ended', () => {
+      expect(checkSaleSchedule([], at(18), at(16), now)).toEqual({ valid: false, error: 'A sale must end after it starts' });
+      expect(checkSaleSchedule([], at(10), at(12), now)).toEqual({ valid: false, error: 'A sale must end in the future' });
+    });
+
+    it('should reject overlapping sales', () => {
+      expect(checkSaleSchedule([sale(8000, at(16), at(18))], at(17), at(20), now))
+        .toEqual({ valid: false, error: 'Another sale is already scheduled for these dates' });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  getProductSearchFields,
+  highlightMatches,
+  isZawgyi,
+  matchesSearchQuery,
+  normalizeSearchText,
+  toContainsPattern,
+  zawgyiToUnicode
+} from '../utils/productSearch';
+
+describe('Product search utilities', () => {
+  // "Myanmar", "glutinous rice", "Shwebo" and "Pathein" in both encodings
+  const myanmar = { unicode: 'မြန်မာ', zawgyi: '\u103B\u1019\u1014\u1039\u1019\u102C' };
+  const glutinous = {
+    unicode: 'ကောက်ညှင်း',
+    zawgyi: '\u1031\u1000\u102C\u1000\u1039\u100A\u103D\u1004\u1039\u1038'
+  };
+  const shwebo = {
+    unicode: 'ရွှေဘို',
+    zawgyi: '\u1031\u1090\u108A\u1018\u102D\u102F'
+  };
+  const pathein = { unicode: 'ပုသိမ်', zawgyi: '\u1015\u102F\u101E\u102D\u1019\u1039' };
+
+  describe('isZawgyi', () => {
+    it('should recognise Zawgyi text', () => {
+      for (const word of [myanmar, glutinous, shwebo, pathein]) {
+        expect(isZawgyi(word.zawgyi)).toBe(true);
+      }
+    });
+
+    it('should not flag Unicode or latin text', () => {
+      for (const word of [myanmar, glutinous, shwebo, pathein]) {
+        expect(isZawgyi(word.unicode)).toBe(false);
+      }
+      expect(isZawgyi('Jasmine Rice 25kg')).toBe(false);
+    });
+  });
+
+  describe('zawgyiToUnicode', () => {
+    it('should reorder vowel E and medial RA after the consonant', () => {
+      expect(zawgyiToUnicode(myanmar.zawgyi)).toBe(myanmar.unicode);
+      expect(zawgyiToUnicode(glutinous.zawgyi)).toBe(glutinous.unicode);
+    });
+
+    it('should map Zawgyi-only glyphs', () => {
+      expect(zawgyiToUnicode(shwebo.zawgyi)).toBe(shwebo.unicode);
+      expect(zawgyiToUnicode(pathein.zawgyi)).toBe(pathein.unicode);
+    });
+
+    it('should expand stacked consonants', () => {
+      // "world": KA MA with BHA stacked below, AA
+      expect(zawgyiToUnicode('\u1000\u1019\u107B\u102C')).toBe('ကမ္ဘာ');
+    });
+  });
+
+  describe('normalizeSearchText', () => {
+    it('should lowercase, trim and collapse spaces', () => {
+      expect(normalizeSearchText('  Jasmine   RICE ')).toBe('jasmine rice');
+    });
+
+    it('should give the same text for both Burmese encodings', () => {
+      expect(normalizeSearchText(`${glutinous.zawgyi}\u200B`)).toBe(normalizeSearchText(glutinous.unicode));
+    });
+  });
+
+  describe('getProductSearchFields', () => {
+    it('should index names, attributes, sizes and categories', () => {
+      const fields = getProductSearchFields({
+        name_en: 'Shwe Bo Paw San',
+        name_my: shwebo.zawgyi,
+        description_en: 'Fragrant new crop',
+        description_my: null,
+        sku: 'SBP-1',
+        variety: 'Paw San',
+        grade: null,
+        origin: 'Shwebo',
+        variants: [{ label: '25 kg', sku: 'SBP-25' }],
+        categories: [{ name_en: 'Fragrant Rice', name_my: null }]
+      });
+
+      expect(fields.searchName).toBe(`shwe bo paw san ${shwebo.unicode} sbp-1`);
+      expect(fields.searchText).toContain('25 kg sbp-25 fragrant rice fragrant new crop');
+    });
+  });
+
+  describe('matchesSearchQuery', () => {
+    it('should need every query word in any order', () => {
+      expect(matchesSearchQuery('Fragrant Rice', 'rice frag')).toBe(true);
+      expect(matchesSearchQuery('Fragrant Rice', 'rice brown')).toBe(false);
+    });
+
+    it('should match Zawgyi text against a Unicode query', () => {
+      expect(matchesSearchQuery(pathein.zawgyi, pathein.unicode)).toBe(true);
+    });
+  });
+
+  describe('toContainsPattern', () => {
+    it('should escape LIKE wildcards', () => {
+      expect(toContainsPattern('50%_off\\')).toBe('%50\\%\\_off\\\\%');
+    });
+  });
+
+  describe('highlightMatches', () => {
+    it('should mark every query word ignoring case', () => {
+      expect(highlightMatches('Jasmine Rice', 'rice jas')).toEqual([
+        { text: 'Jas', match: true },
+        { text: 'mine ', match: false },
+        { text: 'Rice', match: true }
+      ]);
+    });
+
+    it('should merge overlapping matches', () => {
+      expect(highlightMatches('Basmati', 'bas asm')).toEqual([
+        { text: 'Basm', match: true },
+        { text: 'ati', match: false }
+      ]);
+    });
+
+    it('should highlight Zawgyi names in Unicode', () => {
+      expect(highlightMatches(`${glutinous.zawgyi} rice`, glutinous.unicode)).toEqual([
+        { text: glutinous.unicode, match: true },
+        { text: ' rice', match: false }
+      ]);
+    });
+
+    it('should return the text unmarked when nothing matches', () => {
+      expect(highlightMatches('Jasmine Rice', 'basmati')).toEqual([{ text: 'Jasmine Rice', match: false }]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  parseCsv,
+  parseProductRows,
+  planProductImport,
+  PRODUCT_COLUMNS,
+  productsToRows,
+  readSpreadsheet,
+  toCsv,
+  writeSpreadsheet
+} from '../utils/productSpreadsheet';
+
+describe('Product spreadsheet utilities', () => {
+  const header = ['sku', 'name_en', 'name_my', 'price', 'disabled', 'weightKg', 'harvestDate'];
+
+  describe('CSV', () => {
+    it('should parse quoted cells, escaped quotes and line breaks', () => {
+      const text = '\ufeffsku,name_en,description_en\r\nJAS-5,"Jasmine, 5kg","Soft ""new crop""\nrice"\r\n';
+      expect(parseCsv(text)).toEqual([
+        ['sku', 'name_en', 'description_en'],
+        ['JAS-5', 'Jasmine, 5kg', 'Soft "new crop"\nrice']
+      ]);
+    });
+
+    it('should round trip through toCsv', () => {
+      const rows = [['sku', 'name_my'], ['PAW-25', 'ပေါ်ဆန်း, "မွှေး"']];
+      expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+  });
+
+  describe('parseProductRows', () => {
+    it('should reject files without the required columns', () => {
+      expect(parseProductRows([['sku', 'name_en']]).errors).toEqual([
+        { row: 1, sku: null, message: 'Missing required columns: price' }
+      ]);
+    });
+
+    it('should parse values, thousands separators and attributes', () => {
+      const { rows, errors } = parseProductRows([
+        header,
+        ['JAS-5', 'Jasmine', 'ဂျက်စမင်', '45,000', 'no', '5', '2024-02-10']
+      ]);
+      expect(errors).toEqual([]);
+      expect(rows).toEqual([{
+        row: 2,
+        sku: 'JAS-5',
+        data: { name_en: 'Jasmine', name_my: 'ဂျက်စမင်', price: 45000, disabled: false },
+        attributes: { weightKg: 5, harvestDate: '2024-02-10' }
+      }]);
+    });
+
+    it('should report every bad cell with its row and skip blank rows', () => {
+      const { rows, errors } = parseProductRows([
+        header,
+        ['', '', '', '', '', '', ''],
+        ['JAS-5', 'Jasmine', '', '-1', 'maybe', '0', '2024-02-30'],
+        ['', 'No SKU', '', '100', '', '', '']
+      ]);
+      expect(rows).toEqual([]);
+      expect(errors.map(error => [error.row, error.column])).toEqual([
+        [3, 'price'],
+        [3, 'disabled'],
+        [3, 'weightKg'],
+        [3, 'harvestDate'],
+        [4, 'sku']
+      ]);
+    });
+
+    it('should reject a SKU repeated in the file', () => {
+      const { errors } = parseProductRows([header, ['JAS-5', 'A', '', '1', '', '', ''], ['JAS-5', 'B', '', '2', '', '', '']]);
+      expect(errors).toEqual([{ row: 3, sku: 'JAS-5', column: 'sku', message: 'SKU also appears on row 2' }]);
+    });
+  });
+
+  describe('planProductImport', () => {
+    it('should update existing SKUs and require a name and price for new ones', () => {
+      const { rows } = parseProductRows([
+        header,
+        ['OLD-1', '', '', '1000', '', '', ''],
+        ['NEW-1', 'New rice', '', '2000', '', '', ''],
+        ['NEW-2', 'No price', '', '', '', '', '']
+      ]);
+      const plan = planProductImport(rows, new Set(['OLD-1']));
+
+      expect(plan.update.map(row => row.sku)).toEqual(['OLD-1']);
+      expect(plan.create.map(row => row.sku)).toEqual(['NEW-1']);
+      expect(plan.errors).toEqual([
+        { row: 4, sku: 'NEW-2', column: 'price', message: 'Price is required for new products' }
+      ]);
+    });
+  });
+
+  describe('export', () => {
+    const product = {
+      sku: 'JAS-5',
+      name_en: 'Jasmine',
+      name_my: null,
+      description_en: null,
+      description_my: null,
+      price: 45000,
+      disabled: false,
+      outOfStock: false,
+      allowSellWithoutStock: true,
+      reorderPoint: 10,
+      reorderQuantity: 0,
+      variety: 'Jasmine',
+      grade: null,
+      weightKg: 5,
+      origin: null,
+      harvestDate: new Date('2024-02-10T00:00:00Z'),
+      packageType: 'Plastic Bag'
+    };
+
+    it('should write rows in the import format', () => {
+      const rows = productsToRows([product]);
+      expect(rows[0]).toEqual([...PRODUCT_COLUMNS]);
+
+      const { rows: parsed, errors } = parseProductRows(rows);
+      expect(errors).toEqual([]);
+      expect(parsed[0].data.price).toBe(45000);
+      expect(parsed[0].attributes).toEqual({
+        variety: 'Jasmine',
+        weightKg: 5,
+        harvestDate: '2024-02-10',
+        packageType: 'Plastic Bag'
+      });
+    });
+
+    it('should read back an exported XLSX file', async () => {
+      const rows = productsToRows([product]);
+      const file = await writeSpreadsheet(rows, 'xlsx');
+      expect(await readSpreadsheet(file, 'xlsx')).toEqual(rows);
+    });
+  });
+});
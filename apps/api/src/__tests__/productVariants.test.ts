@@ -0,0 +1,171 @@
+import { Prisma } from '@prisma/client';
+import { MergeSource, moveProductHistoryToVariant, planVariantMerge, resolveOrderLine } from '../utils/productVariants';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Prisma client to move rows between products and variants
+const fakeDb = (tables: Record<string, Row[]>) => {
+  const model = (name: string) => ({
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const rows = (tables[name] ?? []).filter(row => Object.entries(where).every(([key, value]) => row[key] === value));
+      rows.forEach(row => Object.assign(row, data));
+      return { count: rows.length };
+    },
+    update: async () => ({})
+  });
+  return {
+    stockEntry: model('stockEntry'),
+    orderItem: model('orderItem'),
+    purchaseOrderItem: model('purchaseOrderItem'),
+    productPrice: model('productPrice'),
+    productPriceTier: model('productPriceTier'),
+    productVariant: model('productVariant'),
+    product: model('product')
+  } as unknown as Parameters<typeof moveProductHistoryToVariant>[0];
+};
+
+describe('Product variant utilities', () => {
+  const variant = (overrides = {}) => ({
+    id: 'jasmine-5kg',
+    label: '5 kg',
+    price: new Prisma.Decimal('9000'),
+    weightKg: new Prisma.Decimal('5.00'),
+    stockOnHand: 12,
+    disabled: false,
+    ...overrides
+  });
+
+  const product = (variants = [variant(), variant({ id: 'jasmine-25kg', label: '25 kg', price: 42000, stockOnHand: 3 })]) => ({
+    id: 'jasmine',
+    name_en: 'Jasmine Rice',
+    price: new Prisma.Decimal('9000'),
+    stockOnHand: 15,
+    variants
+  });
+
+  describe('resolveOrderLine', () => {
+    it('should order a product without variants as itself', () => {
+      expect(resolveOrderLine(product([]))).toEqual({ valid: true, variant: null, unitPrice: 9000, listPrice: 9000, tier: null, stockOnHand: 15 });
+    });
+
+    it('should use the price and stock of the chosen size', () => {
+      const line = resolveOrderLine(product(), 'jasmine-25kg');
+      expect(line).toEqual(expect.objectContaining({ valid: true, unitPrice: 42000, stockOnHand: 3 }));
+      expect(line.valid && line.variant?.label).toBe('25 kg');
+    });
+
+    it('should require a size for products with variants', () => {
+      expect(resolveOrderLine(product())).toEqual({ valid: false, error: 'Choose a size for Jasmine Rice' });
+    });
+
+    it('should reject sizes that are disabled or belong to another product', () => {
+      const withDisabled = product([variant({ disabled: true })]);
+      expect(resolveOrderLine(withDisabled, 'jasmine-5kg')).toEqual({ valid: false, error: 'Size not available for Jasmine Rice' });
+      expect(resolveOrderLine(product(), 'paw-san-25kg')).toEqual({ valid: false, error: 'Size not available for Jasmine Rice' });
+    });
+
+    it('should reject a size for a product without variants', () => {
+      expect(resolveOrderLine(product([]), 'jasmine-5kg'))
+        .toEqual({ valid: false, error: 'Jasmine Rice does not come in different sizes' });
+    });
+  });
+
+  describe('planVariantMerge', () => {
+    const source = (overrides: Partial<MergeSource> = {}): MergeSource => ({
+      id: 'jasmine-5kg',
+      name_en: 'Jasmine 5kg',
+      sku: 'JAS-5',
+      price: new Prisma.Decimal('9000'),
+      weightKg: new Prisma.Decimal('5.00'),
+      variantCount: 0,
+      ...overrides
+    });
+
+    it('should turn each product into a size labelled by its weight', () => {
+      const plan = planVariantMerge([
+        source(),
+        source({ id: 'jasmine-25kg', name_en: 'Jasmine 25kg', sku: 'JAS-25', price: 42000, weightKg: 25 })
+      ]);
+      expect(plan).toEqual({
+        valid: true,
+        variants: [
+          { productId: 'jasmine-5kg', label: '5 kg', sku: 'JAS-5', price: 9000, weightKg: 5, sortOrder: 0 },
+          { productId: 'jasmine-25kg', label: '25 kg', sku: 'JAS-25', price: 42000, weightKg: 25, sortOrder: 1 }
+        ]
+      });
+    });
+
+    it('should fall back to the product name when there is no weight', () => {
+      const plan = planVariantMerge([source(), source({ id: 'jasmine-sample', name_en: 'Jasmine Sample', weightKg: null })]);
+      expect(plan.valid && plan.variants[1].label).toBe('Jasmine Sample');
+    });
+
+    it('should need at least two distinct products', () => {
+      expect(planVariantMerge([source()]).valid).toBe(false);
+      expect(planVariantMerge([source(), source()])).toEqual({ valid: false, error: 'Each product can only be given once' });
+    });
+
+    it('should not merge products that already have variants', () => {
+      expect(planVariantMerge([source(), source({ id: 'jasmine', name_en: 'Jasmine', variantCount: 2 })]))
+        .toEqual({ valid: false, error: 'Jasmine already has variants' });
+    });
+
+    it('should reject products that would share a size label', () => {
+      const plan = planVariantMerge([source(), source({ id: 'jasmine-5kg-old', name_en: 'Jasmine 5kg (old)' })]);
+      expect(plan.valid).toBe(false);
+    });
+  });
+
+  describe('moveProductHistoryToVariant', () => {
+    const now = new Date('2026-10-20T00:00:00Z');
+    const sale = {
+      productId: 'jasmine',
+      variantId: null as string | null,
+      kind: 'SALE' as const,
+      price: new Prisma.Decimal('8000'),
+      startsAt: new Date('2026-10-25T00:00:00Z'),
+      endsAt: new Date('2026-11-01T00:00:00Z')
+    };
+
+    it('should keep a scheduled sale applying once the product gets its first variant', async () => {
+      const prices = [{ ...sale }];
+      await moveProductHistoryToVariant(fakeDb({ productPrice: prices }), { id: 'jasmine', stockOnHand: 15, reserved: 0 }, {
+        productId: 'jasmine',
+        variantId: 'jasmine-5kg'
+      });
+
+      expect(prices[0]).toEqual(expect.objectContaining({ productId: 'jasmine', variantId: 'jasmine-5kg' }));
+      const duringSale = new Date('2026-10-26T00:00:00Z');
+      const line = resolveOrderLine(product([variant({ prices })]), 'jasmine-5kg', duringSale);
+      expect(line).toEqual(expect.objectContaining({ valid: true, unitPrice: 8000, listPrice: 8000 }));
+      expect(resolveOrderLine(product([variant({ prices })]), 'jasmine-5kg', now))
+        .toEqual(expect.objectContaining({ unitPrice: 9000 }));
+    });
+
+    it('should keep wholesale tiers applying once the product gets its first variant', async () => {
+      const priceTiers = [{ productId: 'jasmine', variantId: null as string | null, priceList: 'WHOLESALE' as const, minQuantity: 10, price: 8500 }];
+      await moveProductHistoryToVariant(fakeDb({ productPriceTier: priceTiers }), { id: 'jasmine', stockOnHand: 15, reserved: 0 }, {
+        productId: 'jasmine',
+        variantId: 'jasmine-5kg'
+      });
+
+      const line = resolveOrderLine(product([variant({ priceTiers })]), 'jasmine-5kg', now, { quantity: 10, isWholesale: true });
+      expect(line).toEqual(expect.objectContaining({ valid: true, unitPrice: 8500, tier: { minQuantity: 10, priceList: 'WHOLESALE' } }));
+    });
+
+    it('should move a merged product\'s prices and tiers onto its variant of the kept product', async () => {
+      const prices = [{ ...sale, productId: 'jasmine-25kg' }, { ...sale, productId: 'jasmine', variantId: 'jasmine-5kg' }];
+      const priceTiers = [{ productId: 'jasmine-25kg', variantId: null as string | null, priceList: 'RETAIL' as const, minQuantity: 5, price: 40000 }];
+      await moveProductHistoryToVariant(fakeDb({ productPrice: prices, productPriceTier: priceTiers }), { id: 'jasmine-25kg', stockOnHand: 3, reserved: 0 }, {
+        productId: 'jasmine',
+        variantId: 'jasmine-25kg-size'
+      });
+
+      expect(prices.map(price => [price.productId, price.variantId])).toEqual([
+        ['jasmine', 'jasmine-25kg-size'],
+        ['jasmine', 'jasmine-5kg']
+      ]);
+      expect(priceTiers[0]).toEqual(expect.objectContaining({ productId: 'jasmine', variantId: 'jasmine-25kg-size' }));
+    });
+  });
+});
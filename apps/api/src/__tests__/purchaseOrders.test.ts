@@ -0,0 +1,96 @@
+import {
+  checkPurchaseOrderLines,
+  getOutstandingQuantity,
+  getPurchaseOrderTotal,
+  planPurchaseOrderReceipt
+} from '../utils/purchaseOrders';
+
+describe('Purchase order utilities', () => {
+  const items = [
+    { id: 'item-1', productId: 'rice-a', quantity: 50, receivedQuantity: 20 },
+    { id: 'item-2', productId: 'rice-b', quantity: 10, receivedQuantity: 0 }
+  ];
+
+  describe('checkPurchaseOrderLines', () => {
+    it('should require at least one line', () => {
+      expect(checkPurchaseOrderLines([])).toBe('Add at least one product to the purchase order');
+    });
+
+    it('should reject a product listed twice', () => {
+      expect(checkPurchaseOrderLines([
+        { productId: 'rice-a', quantity: 10, unitCost: 30000 },
+        { productId: 'rice-a', quantity: 5, unitCost: 31000 }
+      ])).toBe('Each product can only appear once on a purchase order');
+    });
+
+    it('should accept distinct products', () => {
+      expect(checkPurchaseOrderLines([
+        { productId: 'rice-a', quantity: 10, unitCost: 30000 },
+        { productId: 'rice-b', quantity: 5, unitCost: 31000 }
+      ])).toBeNull();
+    });
+
+    it('should accept different sizes of the same product', () => {
+      expect(checkPurchaseOrderLines([
+        { productId: 'rice-a', variantId: 'rice-a-5kg', quantity: 10, unitCost: 6000 },
+        { productId: 'rice-a', variantId: 'rice-a-25kg', quantity: 5, unitCost: 30000 }
+      ])).toBeNull();
+    });
+  });
+
+  describe('totals', () => {
+    it('should sum line costs', () => {
+      expect(getPurchaseOrderTotal([
+        { quantity: 10, unitCost: 30000.5 },
+        { quantity: 3, unitCost: 12.1 }
+      ])).toBe(300041.3);
+    });
+
+    it('should never report a negative outstanding quantity', () => {
+      expect(getOutstandingQuantity({ quantity: 50, receivedQuantity: 20 })).toBe(30);
+      expect(getOutstandingQuantity({ quantity: 50, receivedQuantity: 55 })).toBe(0);
+    });
+  });
+
+  describe('planPurchaseOrderReceipt', () => {
+    it('should not receive against a draft purchase order', () => {
+      const plan = planPurchaseOrderReceipt({ status: 'DRAFT', items }, [{ itemId: 'item-1', quantity: 5 }]);
+      expect(plan).toEqual({ valid: false, error: 'Cannot receive stock for a DRAFT purchase order' });
+    });
+
+    it('should mark a partial delivery as partially received', () => {
+      const plan = planPurchaseOrderReceipt({ status: 'ORDERED', items }, [
+        { itemId: 'item-1', quantity: 30 },
+        { itemId: 'item-2', quantity: 0 }
+      ]);
+      expect(plan).toEqual({
+        valid: true,
+        lines: [{ itemId: 'item-1', quantity: 30, productId: 'rice-a' }],
+        status: 'PARTIALLY_RECEIVED'
+      });
+    });
+
+    it('should mark the order received once every line has arrived', () => {
+      const plan = planPurchaseOrderReceipt({ status: 'PARTIALLY_RECEIVED', items }, [
+        { itemId: 'item-1', quantity: 30 },
+        { itemId: 'item-2', quantity: 10 }
+      ]);
+      expect(plan.valid && plan.status).toBe('RECEIVED');
+    });
+
+    it('should reject more bags than are outstanding', () => {
+      const plan = planPurchaseOrderReceipt({ status: 'ORDERED', items }, [
+        { itemId: 'item-1', quantity: 20 },
+        { itemId: 'item-1', quantity: 11 }
+      ]);
+      expect(plan).toEqual({ valid: false, error: 'Only 30 bags are still outstanding on this line' });
+    });
+
+    it('should reject unknown lines and empty deliveries', () => {
+      expect(planPurchaseOrderReceipt({ status: 'ORDERED', items }, [{ itemId: 'other', quantity: 1 }]))
+        .toEqual({ valid: false, error: 'Item is not on this purchase order' });
+      expect(planPurchaseOrderReceipt({ status: 'ORDERED', items }, [{ itemId: 'item-1', quantity: 0 }]))
+        .toEqual({ valid: false, error: 'Enter the quantity received for at least one line' });
+    });
+  });
+});
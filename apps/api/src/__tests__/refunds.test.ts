@@ -0,0 +1,84 @@
+import {
+  getItemRefundUnitPrice,
+  getRefundableAmount,
+  planRefund,
+  RefundOrderState
+} from '../utils/refunds';
+
+const order: RefundOrderState = {
+  id: 'order-1',
+  status: 'DELIVERED',
+  paymentType: 'ONLINE_TRANSFER',
+  totalAmount: 255000,
+  discountAmount: 0,
+  refundedAmount: 0,
+  items: [
+    { id: 'item-25kg', productId: 'paw-san-25kg', unitPrice: 50000, quantity: 5, refundedQuantity: 0, restockedQuantity: 0 },
+    { id: 'item-5kg', productId: 'jasmine-5kg', unitPrice: 2500, quantity: 2, refundedQuantity: 0, restockedQuantity: 0 }
+  ],
+  restockedStock: []
+};
+
+describe('Refund utilities', () => {
+  describe('planRefund', () => {
+    it('should refund one bag out of five at its unit price', () => {
+      const plan = planRefund(order, { items: [{ orderItemId: 'item-25kg', quantity: 1 }] });
+
+      expect(plan).toEqual({
+        valid: true,
+        amount: 50000,
+        items: [{ orderItemId: 'item-25kg', productId: 'paw-san-25kg', quantity: 1, amount: 50000 }],
+        fullyRefunded: false
+      });
+    });
+
+    it('should let an explicit amount override the item value', () => {
+      const plan = planRefund(order, { items: [{ orderItemId: 'item-25kg', quantity: 1 }], amount: 20000 });
+      expect(plan.valid && plan.amount).toBe(20000);
+    });
+
+    it('should not refund more bags than remain on the item', () => {
+      const partlyRefunded = {
+        ...order,
+        items: [{ ...order.items[0], refundedQuantity: 4 }, order.items[1]]
+      };
+
+      const plan = planRefund(partlyRefunded, { items: [{ orderItemId: 'item-25kg', quantity: 2 }] });
+      expect(plan.valid ? null : plan.error).toContain('only 1 remaining');
+    });
+
+    it('should never exceed the order total across refunds', () => {
+      const plan = planRefund({ ...order, refundedAmount: 250000 }, { amount: 10000 });
+      expect(plan.valid ? null : plan.error).toContain('remaining refundable amount of 5000 MMK');
+    });
+
+    it('should flag the refund that completes the order', () => {
+      const plan = planRefund({ ...order, refundedAmount: 250000 }, { amount: 5000 });
+      expect(plan.valid && plan.fullyRefunded).toBe(true);
+    });
+
+    it('should reject items from another order', () => {
+      const plan = planRefund(order, { items: [{ orderItemId: 'other-item', quantity: 1 }] });
+      expect(plan.valid ? null : plan.error).toContain('does not belong');
+    });
+
+    it('should reject orders that are not refundable', () => {
+      expect(planRefund({ ...order, status: 'PENDING' }, { amount: 1000 }).valid).toBe(false);
+      expect(planRefund({ ...order, status: 'REFUNDED' }, { amount: 1000 }).valid).toBe(false);
+      expect(planRefund({ ...order, status: 'CANCELED', paymentType: 'COD' }, { amount: 1000 }).valid).toBe(false);
+    });
+  });
+
+  describe('getItemRefundUnitPrice', () => {
+    it('should spread coupon discounts across items', () => {
+      const discounted = { ...order, discountAmount: 25500 };
+      expect(getItemRefundUnitPrice(order.items[0], discounted)).toBeCloseTo(45000);
+    });
+  });
+
+  describe('getRefundableAmount', () => {
+    it('should subtract earlier refunds from the total', () => {
+      expect(getRefundableAmount({ totalAmount: 255000, refundedAmount: 55000 })).toBe(200000);
+    });
+  });
+});
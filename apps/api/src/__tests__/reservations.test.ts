@@ -0,0 +1,44 @@
+import { getReservationExpiry, hasPaymentProof, ReservationConfig } from '../utils/reservations';
+
+const config: ReservationConfig = {
+  holdMinutes: 60,
+  reminderMinutes: 15,
+  sweepIntervalMinutes: 5
+};
+
+const now = new Date('2026-10-18T09:00:00.000Z');
+
+describe('Stock reservation utilities', () => {
+  describe('hasPaymentProof', () => {
+    it('should accept a transaction ID or a screenshot', () => {
+      expect(hasPaymentProof({ transactionId: 'TXN123' })).toBe(true);
+      expect(hasPaymentProof({ paymentScreenshot: '/uploads/payments/receipt.jpg' })).toBe(true);
+    });
+
+    it('should treat missing or blank values as no proof', () => {
+      expect(hasPaymentProof({})).toBe(false);
+      expect(hasPaymentProof({ transactionId: null, paymentScreenshot: null })).toBe(false);
+      expect(hasPaymentProof({ transactionId: '   ', paymentScreenshot: '' })).toBe(false);
+    });
+  });
+
+  describe('getReservationExpiry', () => {
+    it('should hold stock for unpaid online transfers', () => {
+      const expiry = getReservationExpiry({ paymentType: 'ONLINE_TRANSFER' }, now, config);
+      expect(expiry).toEqual(new Date('2026-10-18T10:00:00.000Z'));
+    });
+
+    it('should not expire orders placed with payment proof', () => {
+      expect(getReservationExpiry({ paymentType: 'ONLINE_TRANSFER', transactionId: 'TXN123' }, now, config)).toBeNull();
+      expect(getReservationExpiry({ paymentType: 'ONLINE_TRANSFER', paymentScreenshot: '/uploads/receipt.jpg' }, now, config)).toBeNull();
+    });
+
+    it('should not expire cash on delivery orders', () => {
+      expect(getReservationExpiry({ paymentType: 'COD' }, now, config)).toBeNull();
+    });
+
+    it('should hold stock for gateway payments until the gateway confirms them', () => {
+      expect(getReservationExpiry({ paymentType: 'MOCK' }, now, config)).toEqual(new Date('2026-10-18T10:00:00.000Z'));
+    });
+  });
+});
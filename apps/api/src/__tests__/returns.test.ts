@@ -0,0 +1,80 @@
+import {
+  canTransitionReturn,
+  checkReturnRequest,
+  getReturnableQuantity,
+  ReturnOrderState
+} from '../utils/returns';
+
+const order: ReturnOrderState = {
+  id: 'order-1',
+  userId: 'user-1',
+  status: 'DELIVERED',
+  items: [
+    { id: 'item-25kg', quantity: 5, refundedQuantity: 0, requestedQuantity: 0 },
+    { id: 'item-5kg', quantity: 2, refundedQuantity: 0, requestedQuantity: 0 }
+  ]
+};
+
+describe('Return request utilities', () => {
+  describe('checkReturnRequest', () => {
+    it('should accept returning some bags of a delivered order', () => {
+      expect(checkReturnRequest(order, [{ orderItemId: 'item-25kg', quantity: 2 }])).toBeNull();
+    });
+
+    it('should only allow returns for delivered orders', () => {
+      const shipped = { ...order, status: 'SHIPPED' as const };
+      expect(checkReturnRequest(shipped, [{ orderItemId: 'item-25kg', quantity: 1 }]))
+        .toBe('Returns can only be requested for delivered orders');
+    });
+
+    it('should require at least one item', () => {
+      expect(checkReturnRequest(order, [])).toBe('Select at least one item to return');
+    });
+
+    it('should reject items from another order', () => {
+      expect(checkReturnRequest(order, [{ orderItemId: 'other-item', quantity: 1 }]))
+        .toBe('Order item other-item does not belong to this order');
+    });
+
+    it('should count repeated lines for the same item together', () => {
+      const error = checkReturnRequest(order, [
+        { orderItemId: 'item-5kg', quantity: 1 },
+        { orderItemId: 'item-5kg', quantity: 2 }
+      ]);
+      expect(error).toBe('Cannot return 3 of order item item-5kg; only 2 can be returned');
+    });
+
+    it('should not allow bags already in an open request to be requested again', () => {
+      const requested = {
+        ...order,
+        items: [{ id: 'item-25kg', quantity: 5, refundedQuantity: 0, requestedQuantity: 4 }]
+      };
+      expect(checkReturnRequest(requested, [{ orderItemId: 'item-25kg', quantity: 2 }]))
+        .toBe('Cannot return 2 of order item item-25kg; only 1 can be returned');
+    });
+  });
+
+  describe('getReturnableQuantity', () => {
+    it('should exclude bags refunded without a return', () => {
+      expect(getReturnableQuantity({ id: 'item', quantity: 5, refundedQuantity: 3, requestedQuantity: 1 })).toBe(2);
+    });
+
+    it('should not count refunds for returned bags twice', () => {
+      expect(getReturnableQuantity({ id: 'item', quantity: 5, refundedQuantity: 2, requestedQuantity: 2 })).toBe(3);
+    });
+  });
+
+  describe('canTransitionReturn', () => {
+    it('should follow the review workflow', () => {
+      expect(canTransitionReturn('REQUESTED', 'APPROVED')).toBe(true);
+      expect(canTransitionReturn('REQUESTED', 'REJECTED')).toBe(true);
+      expect(canTransitionReturn('APPROVED', 'RECEIVED')).toBe(true);
+    });
+
+    it('should not receive returns that were never approved', () => {
+      expect(canTransitionReturn('REQUESTED', 'RECEIVED')).toBe(false);
+      expect(canTransitionReturn('REJECTED', 'APPROVED')).toBe(false);
+      expect(canTransitionReturn('RECEIVED', 'REJECTED')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { Prisma } from '@prisma/client';
+import {
+  canModerateReview,
+  formatProductRating,
+  getReviewComment,
+  planReviewMerge,
+  summarizeRatings
+} from '../utils/reviews';
+
+describe('Review utilities', () => {
+  describe('canModerateReview', () => {
+    it('should allow approving or hiding a pending review', () => {
+      expect(canModerateReview('PENDING', 'APPROVED')).toBe(true);
+      expect(canModerateReview('PENDING', 'HIDDEN')).toBe(true);
+    });
+
+    it('should allow hiding an approved review and restoring a hidden one', () => {
+      expect(canModerateReview('APPROVED', 'HIDDEN')).toBe(true);
+      expect(canModerateReview('HIDDEN', 'APPROVED')).toBe(true);
+    });
+
+    it('should not send a moderated review back to the queue', () => {
+      expect(canModerateReview('APPROVED', 'PENDING')).toBe(false);
+      expect(canModerateReview('HIDDEN', 'PENDING')).toBe(false);
+      expect(canModerateReview('APPROVED', 'APPROVED')).toBe(false);
+    });
+  });
+
+  describe('summarizeRatings', () => {
+    it('should have no average without ratings', () => {
+      expect(summarizeRatings([])).toEqual({
+        average: null,
+        count: 0,
+        distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
+      });
+    });
+
+    it('should average the ratings to two decimals and count each star', () => {
+      expect(summarizeRatings([5, 4, 4])).toEqual({
+        average: 4.33,
+        count: 3,
+        distribution: { 1: 0, 2: 0, 3: 0, 4: 2, 5: 1 }
+      });
+    });
+  });
+
+  describe('formatProductRating', () => {
+    it('should convert the cached average to a number', () => {
+      expect(formatProductRating({ ratingAverage: new Prisma.Decimal('4.50'), ratingCount: 2 }))
+        .toEqual({ average: 4.5, count: 2 });
+    });
+
+    it('should keep a product without approved reviews unrated', () => {
+      expect(formatProductRating({ ratingAverage: null, ratingCount: 0 })).toEqual({ average: null, count: 0 });
+    });
+  });
+
+  describe('getReviewComment', () => {
+    const review = { comment_en: 'Good rice', comment_my: 'ဆန်ကောင်းတယ်' };
+
+    it('should return the comment in the requested locale', () => {
+      expect(getReviewComment(review, 'en')).toBe('Good rice');
+      expect(getReviewComment(review, 'my')).toBe('ဆန်ကောင်းတယ်');
+    });
+
+    it('should fall back to the other language', () => {
+      expect(getReviewComment({ comment_en: null, comment_my: 'ဆန်ကောင်းတယ်' }, 'en')).toBe('ဆန်ကောင်းတယ်');
+      expect(getReviewComment({ comment_en: 'Good rice', comment_my: null }, 'my')).toBe('Good rice');
+      expect(getReviewComment({ comment_en: null, comment_my: null }, 'en')).toBeNull();
+    });
+  });
+
+  describe('planReviewMerge', () => {
+    const review = (id: string, productId: string, userId: string, createdAt: string) => ({
+      id,
+      productId,
+      userId,
+      createdAt: new Date(createdAt)
+    });
+
+    it('should move reviews of merged products to the kept product', () => {
+      expect(planReviewMerge('jasmine', [
+        review('r1', 'jasmine', 'aung', '2026-09-01'),
+        review('r2', 'jasmine-25kg', 'hla', '2026-09-02')
+      ])).toEqual({ move: ['r2'], drop: [] });
+    });
+
+    it('should keep only the newest review of a customer who reviewed several of the products', () => {
+      expect(planReviewMerge('jasmine', [
+        review('r1', 'jasmine', 'aung', '2026-09-01'),
+        review('r2', 'jasmine-25kg', 'aung', '2026-09-05'),
+        review('r3', 'jasmine-50kg', 'aung', '2026-09-03')
+      ])).toEqual({ move: ['r2'], drop: ['r1', 'r3'] });
+    });
+
+    it('should leave a newer review already on the kept product where it is', () => {
+      expect(planReviewMerge('jasmine', [
+        review('r1', 'jasmine-25kg', 'aung', '2026-09-01'),
+        review('r2', 'jasmine', 'aung', '2026-09-05')
+      ])).toEqual({ move: [], drop: ['r1'] });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { Prisma } from '@prisma/client';
+import {
+  getItemsWeightKg,
+  getShippingFee,
+  selectShippingRate
+} from '../utils/shipping';
+
+const rate = (overrides: Record<string, any>) => ({
+  id: 'rate',
+  region: 'Yangon',
+  township: null as string | null,
+  minWeightKg: new Prisma.Decimal(0),
+  maxWeightKg: null as Prisma.Decimal | null,
+  fee: new Prisma.Decimal(3000),
+  freeAboveAmount: null as Prisma.Decimal | null,
+  ...overrides
+});
+
+const rates = [
+  rate({ id: 'yangon-light', maxWeightKg: new Prisma.Decimal(30), fee: new Prisma.Decimal(3000) }),
+  rate({ id: 'yangon-heavy', minWeightKg: new Prisma.Decimal(30), fee: new Prisma.Decimal(6000) }),
+  rate({ id: 'hlaing', township: 'Hlaing', fee: new Prisma.Decimal(2000) }),
+  rate({ id: 'mandalay', region: 'Mandalay', fee: new Prisma.Decimal(8000) })
+];
+
+describe('Shipping utilities', () => {
+  describe('getItemsWeightKg', () => {
+    it('should sum bag weight times quantity', () => {
+      const items = [
+        { quantity: 2, metadata: { weightKg: 25 } },
+        { quantity: 1, metadata: { weightKg: 5 } }
+      ];
+      expect(getItemsWeightKg(items)).toBe(55);
+    });
+
+    it('should ignore items without a weight', () => {
+      expect(getItemsWeightKg([{ quantity: 3, metadata: {} }, { quantity: 1, metadata: null }])).toBe(0);
+    });
+  });
+
+  describe('selectShippingRate', () => {
+    it('should pick the weight band for the region', () => {
+      expect(selectShippingRate(rates, { region: 'Yangon' }, 10)?.id).toBe('yangon-light');
+      expect(selectShippingRate(rates, { region: 'Yangon' }, 30)?.id).toBe('yangon-heavy');
+    });
+
+    it('should match regions case-insensitively', () => {
+      expect(selectShippingRate(rates, { region: ' mandalay ' }, 50)?.id).toBe('mandalay');
+    });
+
+    it('should prefer township-specific rates', () => {
+      expect(selectShippingRate(rates, { region: 'Yangon', township: 'hlaing' }, 10)?.id).toBe('hlaing');
+    });
+
+    it('should return null for unserved regions', () => {
+      expect(selectShippingRate(rates, { region: 'Kachin' }, 10)).toBeNull();
+    });
+  });
+
+  describe('getShippingFee', () => {
+    it('should charge the rate fee below the free threshold', () => {
+      const freeAbove = rate({ freeAboveAmount: new Prisma.Decimal(300000) });
+      expect(getShippingFee(freeAbove, 299999)).toBe(3000);
+    });
+
+    it('should waive the fee once the subtotal reaches the threshold', () => {
+      const freeAbove = rate({ freeAboveAmount: new Prisma.Decimal(300000) });
+      expect(getShippingFee(freeAbove, 300000)).toBe(0);
+    });
+  });
+});
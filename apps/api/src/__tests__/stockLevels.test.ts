@@ -0,0 +1,72 @@
+import { findStockDrift, ProductStockLevel, sumQuantitiesByProduct, sumQuantitiesByVariant } from '../utils/stockLevels';
+
+const level = (overrides: Partial<ProductStockLevel> = {}): ProductStockLevel => ({
+  productId: 'paw-san-25kg',
+  productName: 'Paw San 25kg',
+  stockOnHand: 40,
+  reserved: 2,
+  ...overrides
+});
+
+describe('Stock level utilities', () => {
+  describe('sumQuantitiesByProduct', () => {
+    it('should total repeated products across order lines', () => {
+      const totals = sumQuantitiesByProduct([
+        { productId: 'paw-san-25kg', quantity: 2 },
+        { productId: 'shwe-bo-5kg', quantity: 1 },
+        { productId: 'paw-san-25kg', quantity: 3 }
+      ]);
+      expect(Array.from(totals)).toEqual([['paw-san-25kg', 5], ['shwe-bo-5kg', 1]]);
+    });
+  });
+
+  describe('sumQuantitiesByVariant', () => {
+    it('should total each size and skip lines without one', () => {
+      const totals = sumQuantitiesByVariant([
+        { productId: 'jasmine', variantId: 'jasmine-5kg', quantity: 2 },
+        { productId: 'jasmine', variantId: 'jasmine-25kg', quantity: 1 },
+        { productId: 'jasmine', variantId: 'jasmine-5kg', quantity: 1 },
+        { productId: 'shwe-bo-5kg', quantity: 4 }
+      ]);
+      expect(Array.from(totals)).toEqual([['jasmine-5kg', 3], ['jasmine-25kg', 1]]);
+    });
+  });
+
+  describe('findStockDrift', () => {
+    it('should report nothing when the columns match the ledger', () => {
+      const drift = findStockDrift([level()], new Map([['paw-san-25kg', 40]]), new Map([['paw-san-25kg', 2]]));
+      expect(drift).toEqual([]);
+    });
+
+    it('should check variants against their own totals', () => {
+      const drift = findStockDrift(
+        [
+          level({ productId: 'jasmine', productName: 'Jasmine', stockOnHand: 30, reserved: 0 }),
+          level({ productId: 'jasmine', variantId: 'jasmine-5kg', productName: 'Jasmine (5 kg)', stockOnHand: 12, reserved: 0 })
+        ],
+        new Map([['jasmine', 30], ['jasmine-5kg', 10]]),
+        new Map()
+      );
+      expect(drift).toEqual([
+        expect.objectContaining({ productId: 'jasmine', variantId: 'jasmine-5kg', expectedStockOnHand: 10 })
+      ]);
+    });
+
+    it('should report products whose stock on hand or reservation drifted', () => {
+      const drift = findStockDrift(
+        [level(), level({ productId: 'shwe-bo-5kg', productName: 'Shwe Bo 5kg', stockOnHand: 10, reserved: 0 })],
+        new Map([['paw-san-25kg', 38], ['shwe-bo-5kg', 10]]),
+        new Map([['paw-san-25kg', 2], ['shwe-bo-5kg', 4]])
+      );
+      expect(drift).toEqual([
+        expect.objectContaining({ productId: 'paw-san-25kg', expectedStockOnHand: 38, expectedReserved: 2 }),
+        expect.objectContaining({ productId: 'shwe-bo-5kg', expectedStockOnHand: 10, expectedReserved: 4 })
+      ]);
+    });
+
+    it('should expect zero for products with no entries or reservations', () => {
+      const drift = findStockDrift([level({ stockOnHand: 0, reserved: 1 })], new Map(), new Map());
+      expect(drift).toEqual([expect.objectContaining({ expectedStockOnHand: 0, expectedReserved: 0 })]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  checkManualStockMovement,
+  classifyLegacyStockEntry,
+  getDefaultStockMovementType,
+  StockEventHint
+} from '../utils/stockMovements';
+
+const at = (time: string) => new Date(`2026-10-18T${time}.000Z`);
+
+const hints: StockEventHint[] = [
+  { type: 'SALE', at: at('09:00:00'), orderId: 'order-1', actorId: 'customer-1' },
+  { type: 'SALE', at: at('09:00:30'), orderId: 'order-2', actorId: 'customer-2' },
+  { type: 'CANCEL_RESTOCK', at: at('11:00:00'), orderId: 'order-1', actorId: 'customer-1' },
+  { type: 'RETURN_RESTOCK', at: at('15:00:00'), orderId: 'order-2', returnRequestId: 'return-1' }
+];
+
+describe('Stock movement utilities', () => {
+  describe('checkManualStockMovement', () => {
+    it('should accept purchases that add stock and damage that removes it', () => {
+      expect(checkManualStockMovement('PURCHASE', 10)).toBeNull();
+      expect(checkManualStockMovement('DAMAGE', -2)).toBeNull();
+    });
+
+    it('should accept adjustments and transfers in either direction', () => {
+      expect(checkManualStockMovement('ADJUSTMENT', -1)).toBeNull();
+      expect(checkManualStockMovement('ADJUSTMENT', 1)).toBeNull();
+      expect(checkManualStockMovement('TRANSFER', -5)).toBeNull();
+      expect(checkManualStockMovement('TRANSFER', 5)).toBeNull();
+    });
+
+    it('should reject quantities in the wrong direction', () => {
+      expect(checkManualStockMovement('PURCHASE', -3)).toBe('PURCHASE entries must add stock');
+      expect(checkManualStockMovement('DAMAGE', 3)).toBe('DAMAGE entries must remove stock');
+    });
+
+    it('should reject types recorded by orders and returns', () => {
+      expect(checkManualStockMovement('SALE', -1)).toBe('SALE entries are recorded automatically');
+      expect(checkManualStockMovement('RETURN_RESTOCK', 1)).toBe('RETURN_RESTOCK entries are recorded automatically');
+    });
+
+    it('should reject a zero quantity', () => {
+      expect(checkManualStockMovement('ADJUSTMENT', 0)).toBe('Quantity cannot be zero');
+    });
+  });
+
+  describe('getDefaultStockMovementType', () => {
+    it('should treat additions as purchases and removals as adjustments', () => {
+      expect(getDefaultStockMovementType(10)).toBe('PURCHASE');
+      expect(getDefaultStockMovementType(-1)).toBe('ADJUSTMENT');
+    });
+  });
+
+  describe('classifyLegacyStockEntry', () => {
+    it('should link a deduction to the nearest order placed at the same time', () => {
+      const movement = classifyLegacyStockEntry({ quantity: -2, purchasePrice: 0, createdAt: at('09:00:25') }, hints);
+      expect(movement).toEqual({ type: 'SALE', orderId: 'order-2', returnRequestId: null, actorId: 'customer-2' });
+    });
+
+    it('should link additions to cancellations and returns', () => {
+      expect(classifyLegacyStockEntry({ quantity: 2, purchasePrice: 0, createdAt: at('11:00:01') }, hints))
+        .toMatchObject({ type: 'CANCEL_RESTOCK', orderId: 'order-1' });
+      expect(classifyLegacyStockEntry({ quantity: 1, purchasePrice: 0, createdAt: at('15:00:02') }, hints))
+        .toMatchObject({ type: 'RETURN_RESTOCK', orderId: 'order-2', returnRequestId: 'return-1' });
+    });
+
+    it('should not link an addition to a sale', () => {
+      expect(classifyLegacyStockEntry({ quantity: 5, purchasePrice: 30000, createdAt: at('09:00:00') }, hints))
+        .toEqual({ type: 'PURCHASE' });
+    });
+
+    it('should link additions to an earlier canceled order with the same quantity when no event matches', () => {
+      const canceledItems = [
+        { orderId: 'order-3', quantity: 2, placedAt: at('06:00:00') },
+        { orderId: 'order-4', quantity: 2, placedAt: at('06:30:00') },
+        { orderId: 'order-5', quantity: 2, placedAt: at('08:00:00') },
+        { orderId: 'order-6', quantity: 3, placedAt: at('06:45:00') }
+      ];
+      expect(classifyLegacyStockEntry({ quantity: 2, purchasePrice: 0, createdAt: at('07:00:00') }, hints, canceledItems))
+        .toEqual({ type: 'CANCEL_RESTOCK', orderId: 'order-4', returnRequestId: null, actorId: null });
+      expect(classifyLegacyStockEntry({ quantity: 5, purchasePrice: 0, createdAt: at('07:00:00') }, hints, canceledItems))
+        .toMatchObject({ type: 'ADJUSTMENT' });
+      expect(classifyLegacyStockEntry({ quantity: 2, purchasePrice: 30000, createdAt: at('07:00:00') }, hints, canceledItems))
+        .toEqual({ type: 'PURCHASE' });
+    });
+
+    it('should treat unmatched entries as purchases when priced and adjustments otherwise', () => {
+      expect(classifyLegacyStockEntry({ quantity: 20, purchasePrice: 30000, createdAt: at('07:00:00') }, hints))
+        .toEqual({ type: 'PURCHASE' });
+      expect(classifyLegacyStockEntry({ quantity: -1, purchasePrice: 0, createdAt: at('07:00:00') }, hints))
+        .toMatchObject({ type: 'ADJUSTMENT' });
+      expect(classifyLegacyStockEntry({ quantity: 1, purchasePrice: 0, createdAt: at('07:00:00') }, hints))
+        .toMatchObject({ type: 'ADJUSTMENT' });
+    });
+  });
+});
@@ -0,0 +1,437 @@
+import { Request, Response } from 'express';
+import { BankStatementLine, Prisma, PrismaClient, StatementLineStatus } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import { getSpreadsheetFormat, readSpreadsheet } from '../utils/productSpreadsheet';
+import { getStatementParser, reconcileStatement } from '../utils/bankStatements';
+import { paymentQueueWhere, recordPaymentReview } from '../utils/paymentVerification';
+
+const prisma = new PrismaClient();
+
+const STATEMENT_LINE_STATUSES: StatementLineStatus[] = ['MATCHED', 'AMBIGUOUS', 'UNMATCHED', 'CONFIRMED'];
+
+// What an admin needs to tell orders apart when confirming a line
+const reconciliationOrderSelect = {
+  id: true,
+  status: true,
+  totalAmount: true,
+  transactionId: true,
+  customerAccountName: true,
+  customerAccountNo: true,
+  createdAt: true,
+  user: { select: { name: true, email: true } }
+} satisfies Prisma.OrderSelect;
+
+type ReconciliationOrder = Prisma.OrderGetPayload<{ select: typeof reconciliationOrderSelect }>;
+
+const formatReconciliationOrder = (order: ReconciliationOrder) => ({
+  id: order.id,
+  status: order.status,
+  totalAmount: Number(order.totalAmount),
+  transactionId: order.transactionId,
+  customerAccountName: order.customerAccountName,
+  customerAccountNo: order.customerAccountNo,
+  createdAt: order.createdAt,
+  customer: order.user
+});
+
+const formatStatementLine = (line: BankStatementLine, orders: Map<string, ReconciliationOrder>) => {
+  const order = line.orderId ? orders.get(line.orderId) : undefined;
+  return {
+    id: line.id,
+    row: line.row,
+    postedAt: line.postedAt,
+    amount: Number(line.amount),
+    transactionId: line.transactionId,
+    accountNo: line.accountNo,
+    accountName: line.accountName,
+    description: line.description,
+    status: line.status,
+    matchedOn: line.matchedOn,
+    order: order ? formatReconciliationOrder(order) : null,
+    candidates: line.candidateOrderIds
+      .map(id => orders.get(id))
+      .filter((candidate): candidate is ReconciliationOrder => !!candidate)
+      .map(formatReconciliationOrder),
+    confirmedAt: line.confirmedAt
+  };
+};
+
+const countLineStatuses = (lines: Array<{ status: StatementLineStatus; count: number }>) => {
+  const counts = Object.fromEntries(STATEMENT_LINE_STATUSES.map(status => [status, 0])) as Record<StatementLineStatus, number>;
+  for (const line of lines) {
+    counts[line.status] += line.count;
+  }
+  return counts;
+};
+
+/**
+ * Load a statement with its lines and the orders they point at
+ */
+const getStatementDetail = async (id: string) => {
+  const statement = await prisma.bankStatement.findUnique({
+    where: { id },
+    include: {
+      companyAccount: { select: { id: true, name: true, type: true } },
+      uploadedBy: { select: { id: true, name: true } },
+      lines: { orderBy: { row: 'asc' } }
+    }
+  });
+
+  if (!statement) return null;
+
+  const orderIds = new Set<string>();
+  for (const line of statement.lines) {
+    if (line.orderId) orderIds.add(line.orderId);
+    line.candidateOrderIds.forEach(orderId => orderIds.add(orderId));
+  }
+
+  const orders = await prisma.order.findMany({
+    where: { id: { in: Array.from(orderIds) } },
+    select: reconciliationOrderSelect
+  });
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+
+  const { lines, ...rest } = statement;
+  return {
+    ...rest,
+    counts: countLineStatuses(lines.map(line => ({ status: line.status, count: 1 }))),
+    lines: lines.map(line => formatStatementLine(line, ordersById))
+  };
+};
+
+/**
+ * GET /api/admin/bank-statements
+ * Uploaded statements, newest first, with line counts per status (admin only)
+ */
+export const getBankStatements = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { companyAccountId } = req.query;
+
+    const statements = await prisma.bankStatement.findMany({
+      where: companyAccountId ? { companyAccountId: companyAccountId as string } : {},
+      include: {
+        companyAccount: { select: { id: true, name: true, type: true } },
+        uploadedBy: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+
+    const lineCounts = await prisma.bankStatementLine.groupBy({
+      by: ['statementId', 'status'],
+      where: { statementId: { in: statements.map(statement => statement.id) } },
+      _count: { _all: true }
+    });
+
+    res.json({
+      success: true,
+      data: statements.map(statement => ({
+        ...statement,
+        counts: countLineStatuses(lineCounts
+          .filter(count => count.statementId === statement.id)
+          .map(count => ({ status: count.status, count: count._count._all })))
+      })),
+      count: statements.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching bank statements:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch bank statements'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/bank-statements/:id
+ * A statement with its matched, ambiguous and unmatched lines (admin only)
+ */
+export const getBankStatement = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const statement = await getStatementDetail(req.params.id);
+
+    if (!statement) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bank statement not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: statement
+    });
+
+  } catch (error) {
+    console.error('Error fetching bank statement:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch bank statement'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/bank-statements
+ * Upload a CSV or XLSX statement of a company account and match its
+ * incoming payments to pending online transfer orders (admin only)
+ */
+export const uploadBankStatement = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const format = getSpreadsheetFormat(req.file.originalname);
+    if (!format) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload a .csv or .xlsx file'
+      });
+    }
+
+    const { companyAccountId } = req.body;
+
+    const companyAccount = await prisma.companyPaymentAccount.findUnique({
+      where: { id: companyAccountId }
+    });
+
+    if (!companyAccount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Company payment account not found'
+      });
+    }
+
+    let table: string[][];
+    try {
+      table = await readSpreadsheet(req.file.buffer, format);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: `Could not read the ${format.toUpperCase()} file`
+      });
+    }
+
+    const parsed = getStatementParser(companyAccount.type)(table);
+
+    if (parsed.errors.length > 0 || parsed.lines.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: parsed.errors.length > 0
+          ? 'The statement has rows that could not be read'
+          : 'The statement has no incoming payments',
+        errors: parsed.errors
+      });
+    }
+
+    const orders = await prisma.order.findMany({
+      where: { ...paymentQueueWhere, companyAccountId },
+      select: { id: true, totalAmount: true, transactionId: true, customerAccountNo: true }
+    });
+
+    const matches = reconcileStatement(parsed.lines, orders);
+    const postedDates = parsed.lines.map(line => line.postedAt.getTime());
+
+    const statement = await prisma.bankStatement.create({
+      data: {
+        companyAccountId,
+        filename: req.file.originalname,
+        uploadedById: (req as any).user.id,
+        periodStart: new Date(Math.min(...postedDates)),
+        periodEnd: new Date(Math.max(...postedDates)),
+        lines: {
+          create: parsed.lines.map((line, index) => ({ ...line, ...matches[index] }))
+        }
+      }
+    });
+
+    const detail = await getStatementDetail(statement.id);
+
+    res.status(201).json({
+      success: true,
+      message: `${detail!.counts.MATCHED} of ${parsed.lines.length} payments matched`,
+      data: { ...detail, skipped: parsed.skipped }
+    });
+
+  } catch (error) {
+    console.error('Error uploading bank statement:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to upload bank statement'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/bank-statements/:id/lines/:lineId/confirm
+ * Confirm the payment of the order a statement line belongs to. Matched
+ * lines use their order; ambiguous and unmatched lines need an orderId (admin only)
+ */
+export const confirmStatementLine = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id, lineId } = req.params;
+    const actorId = (req as any).user.id;
+
+    const line = await prisma.bankStatementLine.findFirst({
+      where: { id: lineId, statementId: id },
+      include: { statement: { select: { companyAccountId: true } } }
+    });
+
+    if (!line) {
+      return res.status(404).json({
+        success: false,
+        message: 'Statement line not found'
+      });
+    }
+
+    if (line.status === 'CONFIRMED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Statement line is already confirmed'
+      });
+    }
+
+    const orderId: string | undefined = req.body.orderId || line.orderId || undefined;
+    if (!orderId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choose the order this payment belongs to'
+      });
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { companyAccountId: true }
+    });
+
+    if (order && order.companyAccountId !== line.statement.companyAccountId) {
+      return res.status(400).json({
+        success: false,
+        message: 'The order was paid to a different company account'
+      });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const review = await recordPaymentReview(tx, orderId, {
+        confirmed: true,
+        notes: `Payment found on bank statement row ${line.row}`,
+        actorId
+      });
+
+      if (!review.success) {
+        return review;
+      }
+
+      const updatedLine = await tx.bankStatementLine.update({
+        where: { id: lineId },
+        data: {
+          status: 'CONFIRMED',
+          orderId,
+          confirmedById: actorId,
+          confirmedAt: new Date()
+        }
+      });
+
+      return { success: true as const, line: updatedLine };
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    const confirmedOrder = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: reconciliationOrderSelect
+    });
+
+    res.json({
+      success: true,
+      message: 'Payment confirmed successfully',
+      data: formatStatementLine(result.line, new Map(confirmedOrder ? [[orderId, confirmedOrder]] : []))
+    });
+
+  } catch (error) {
+    console.error('Error confirming statement line:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to confirm statement line'
+    });
+  }
+};
+
+// Validation middleware
+export const validateBankStatementQuery = [
+  query('companyAccountId')
+    .optional()
+    .isString()
+    .withMessage('Invalid company account ID')
+];
+
+export const validateBankStatementId = [
+  param('id')
+    .isString()
+    .withMessage('Invalid bank statement ID')
+];
+
+export const validateUploadBankStatement = [
+  body('companyAccountId')
+    .isString()
+    .notEmpty()
+    .withMessage('Company account ID is required')
+];
+
+export const validateConfirmStatementLine = [
+  ...validateBankStatementId,
+  param('lineId')
+    .isString()
+    .withMessage('Invalid statement line ID'),
+  body('orderId')
+    .optional()
+    .isString()
+    .notEmpty()
+    .withMessage('Invalid order ID')
+];
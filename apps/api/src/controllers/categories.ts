@@ -0,0 +1,481 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import {
+  buildCategoryTree,
+  CATEGORY_SLUG_PATTERN,
+  checkCategoryParent,
+  countCategoryProducts,
+  getCategoryAncestors,
+  toCategorySlug
+} from '../utils/categories';
+import { refreshProductSearchText } from '../utils/productSearch';
+
+const prisma = new PrismaClient();
+
+const categoryOrder = [{ sortOrder: 'asc' }, { name_en: 'asc' }] satisfies Prisma.CategoryOrderByWithRelationInput[];
+
+// Customers only see and count products that are on sale
+const storefrontCategorySelect = {
+  id: true,
+  parentId: true,
+  name_en: true,
+  name_my: true,
+  slug: true,
+  image: true,
+  sortOrder: true,
+  products: {
+    where: { disabled: false },
+    select: { id: true }
+  }
+} satisfies Prisma.CategorySelect;
+
+type StorefrontCategory = Prisma.CategoryGetPayload<{ select: typeof storefrontCategorySelect }>;
+
+const adminCategoryInclude = {
+  _count: {
+    select: { products: true, children: true }
+  }
+} satisfies Prisma.CategoryInclude;
+
+type AdminCategory = Prisma.CategoryGetPayload<{ include: typeof adminCategoryInclude }>;
+
+const loadStorefrontCategories = async () => {
+  const categories = await prisma.category.findMany({
+    orderBy: categoryOrder,
+    select: storefrontCategorySelect
+  });
+  const productCounts = countCategoryProducts(
+    categories.map(category => ({ ...category, productIds: category.products.map(product => product.id) }))
+  );
+  return { categories, productCounts };
+};
+
+const formatStorefrontCategory = (
+  category: StorefrontCategory,
+  productCounts: Map<string, number>,
+  locale: string
+) => ({
+  id: category.id,
+  parentId: category.parentId,
+  slug: category.slug,
+  name: locale === 'my' ? (category.name_my || category.name_en) : category.name_en,
+  name_en: category.name_en,
+  name_my: category.name_my,
+  image: category.image,
+  sortOrder: category.sortOrder,
+  // Includes the products of subcategories, each counted once
+  productCount: productCounts.get(category.id) || 0
+});
+
+const formatAdminCategory = (category: AdminCategory) => ({
+  id: category.id,
+  parentId: category.parentId,
+  name_en: category.name_en,
+  name_my: category.name_my,
+  slug: category.slug,
+  image: category.image,
+  sortOrder: category.sortOrder,
+  productCount: category._count.products,
+  childCount: category._count.children,
+  createdAt: category.createdAt,
+  updatedAt: category.updatedAt
+});
+
+const isSlugTaken = async (slug: string, exceptCategoryId?: string): Promise<boolean> => {
+  const existing = await prisma.category.findFirst({
+    where: { slug, ...(exceptCategoryId && { id: { not: exceptCategoryId } }) },
+    select: { id: true }
+  });
+  return !!existing;
+};
+
+const getCategoryProductIds = async (categoryId: string): Promise<string[]> => {
+  const products = await prisma.product.findMany({
+    where: { categories: { some: { id: categoryId } } },
+    select: { id: true }
+  });
+  return products.map(product => product.id);
+};
+
+const getCategoryLinks = () => prisma.category.findMany({
+  select: { id: true, parentId: true }
+});
+
+/**
+ * GET /api/categories
+ * Category tree for the storefront, with product counts
+ */
+export const getCategories = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const locale = (req.query.locale as string) || 'en';
+    const { categories, productCounts } = await loadStorefrontCategories();
+
+    res.json({
+      success: true,
+      data: buildCategoryTree(categories.map(category => formatStorefrontCategory(category, productCounts, locale)))
+    });
+
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch categories'
+    });
+  }
+};
+
+/**
+ * GET /api/categories/:slug
+ * A category with its subcategories and the path down to it
+ */
+export const getCategoryBySlug = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const locale = (req.query.locale as string) || 'en';
+    const { categories, productCounts } = await loadStorefrontCategories();
+    const formatted = categories.map(category => formatStorefrontCategory(category, productCounts, locale));
+
+    const category = formatted.find(candidate => candidate.slug === req.params.slug);
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...category,
+        ancestors: getCategoryAncestors(formatted, category.id),
+        children: formatted.filter(child => child.parentId === category.id)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching category:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch category'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/categories
+ * List all categories in display order (admin only)
+ */
+export const getAdminCategories = async (req: Request, res: Response) => {
+  try {
+    const categories = await prisma.category.findMany({
+      orderBy: categoryOrder,
+      include: adminCategoryInclude
+    });
+
+    res.json({
+      success: true,
+      data: categories.map(formatAdminCategory)
+    });
+
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch categories'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/categories
+ * Create a category. The slug defaults to one made from the English name (admin only)
+ */
+export const createCategory = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { name_en, name_my, image, parentId, sortOrder } = req.body;
+    const slug = req.body.slug || toCategorySlug(name_en);
+
+    if (!slug) {
+      return res.status(400).json({
+        success: false,
+        message: 'A slug is required when the English name has no latin letters or digits'
+      });
+    }
+
+    if (await isSlugTaken(slug)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A category with this slug already exists'
+      });
+    }
+
+    const parentCheck = checkCategoryParent(await getCategoryLinks(), null, parentId || null);
+    if (!parentCheck.valid) {
+      return res.status(400).json({
+        success: false,
+        message: parentCheck.error
+      });
+    }
+
+    const siblingCount = await prisma.category.count({
+      where: { parentId: parentId || null }
+    });
+
+    const category = await prisma.category.create({
+      data: {
+        name_en,
+        name_my: name_my || null,
+        slug,
+        image: image || null,
+        parentId: parentId || null,
+        sortOrder: sortOrder ?? siblingCount
+      },
+      include: adminCategoryInclude
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Category created successfully',
+      data: formatAdminCategory(category)
+    });
+
+  } catch (error) {
+    console.error('Error creating category:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create category'
+    });
+  }
+};
+
+/**
+ * PUT /api/admin/categories/:id
+ * Update a category's names, slug, image, parent or position (admin only)
+ */
+export const updateCategory = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+
+    const existingCategory = await prisma.category.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!existingCategory) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category not found'
+      });
+    }
+
+    if (req.body.slug && await isSlugTaken(req.body.slug, id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A category with this slug already exists'
+      });
+    }
+
+    if (req.body.parentId !== undefined) {
+      const parentCheck = checkCategoryParent(await getCategoryLinks(), id, req.body.parentId || null);
+      if (!parentCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: parentCheck.error
+        });
+      }
+    }
+
+    const updateData: Prisma.CategoryUncheckedUpdateInput = {};
+
+    if (req.body.name_en !== undefined) updateData.name_en = req.body.name_en;
+    if (req.body.name_my !== undefined) updateData.name_my = req.body.name_my || null;
+    if (req.body.slug) updateData.slug = req.body.slug;
+    if (req.body.image !== undefined) updateData.image = req.body.image || null;
+    if (req.body.parentId !== undefined) updateData.parentId = req.body.parentId || null;
+    if (req.body.sortOrder !== undefined) updateData.sortOrder = req.body.sortOrder;
+
+    const category = await prisma.category.update({
+      where: { id },
+      data: updateData,
+      include: adminCategoryInclude
+    });
+
+    // Category names are part of their products' search text
+    if (updateData.name_en !== undefined || updateData.name_my !== undefined) {
+      await refreshProductSearchText(prisma, await getCategoryProductIds(id));
+    }
+
+    res.json({
+      success: true,
+      message: 'Category updated successfully',
+      data: formatAdminCategory(category)
+    });
+
+  } catch (error) {
+    console.error('Error updating category:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update category'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/categories/:id
+ * Delete a category without subcategories. Its products stay in the
+ * catalogue and are only removed from the category (admin only)
+ */
+export const deleteCategory = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+
+    const existingCategory = await prisma.category.findUnique({
+      where: { id },
+      include: adminCategoryInclude
+    });
+
+    if (!existingCategory) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category not found'
+      });
+    }
+
+    if (existingCategory._count.children > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete a category that has subcategories. Move or delete them first.'
+      });
+    }
+
+    const productIds = await getCategoryProductIds(id);
+
+    await prisma.category.delete({
+      where: { id }
+    });
+    await refreshProductSearchText(prisma, productIds);
+
+    res.json({
+      success: true,
+      message: 'Category deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete category'
+    });
+  }
+};
+
+// Validation middleware
+const categoryFieldValidators = [
+  body('name_my')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Myanmar name must be less than 100 characters'),
+  body('slug')
+    .optional({ values: 'falsy' })
+    .trim()
+    .matches(CATEGORY_SLUG_PATTERN)
+    .withMessage('Slug may only contain lowercase letters, digits and single hyphens'),
+  body('image')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Image must be a file path'),
+  body('parentId')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Invalid parent category ID'),
+  body('sortOrder')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Sort order must be a non-negative integer')
+    .toInt()
+];
+
+export const validateGetCategories = [
+  query('locale')
+    .optional()
+    .isIn(['en', 'my'])
+    .withMessage('Locale must be en or my')
+];
+
+export const validateCategorySlug = [
+  ...validateGetCategories,
+  param('slug')
+    .matches(CATEGORY_SLUG_PATTERN)
+    .withMessage('Invalid category slug')
+];
+
+export const validateCategoryId = [
+  param('id')
+    .isString()
+    .withMessage('Invalid category ID')
+];
+
+export const validateCreateCategory = [
+  body('name_en')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('English name is required and must be less than 100 characters'),
+  ...categoryFieldValidators
+];
+
+export const validateUpdateCategory = [
+  ...validateCategoryId,
+  body('name_en')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('English name must be between 1 and 100 characters'),
+  ...categoryFieldValidators
+];
@@ -0,0 +1,508 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { body, param, validationResult } from 'express-validator';
+import { normalizeCouponCode, resolveCoupon } from '../utils/coupons';
+import { resolveOrderLine } from '../utils/productVariants';
+import { orderablePricesInclude } from '../utils/productPricing';
+
+const prisma = new PrismaClient();
+
+const formatCoupon = (coupon: any) => ({
+  id: coupon.id,
+  code: coupon.code,
+  description: coupon.description,
+  type: coupon.type,
+  value: Number(coupon.value),
+  maxDiscount: coupon.maxDiscount !== null ? Number(coupon.maxDiscount) : null,
+  minOrderTotal: coupon.minOrderTotal !== null ? Number(coupon.minOrderTotal) : null,
+  usageLimit: coupon.usageLimit,
+  perUserLimit: coupon.perUserLimit,
+  productIds: coupon.productIds,
+  startsAt: coupon.startsAt,
+  expiresAt: coupon.expiresAt,
+  enabled: coupon.enabled,
+  usageCount: coupon._count?.orders,
+  createdAt: coupon.createdAt,
+  updatedAt: coupon.updatedAt
+});
+
+/**
+ * GET /api/admin/coupons
+ * List coupons with redemption counts (admin only)
+ */
+export const getCoupons = async (req: Request, res: Response) => {
+  try {
+    const { enabled, search } = req.query;
+
+    const where: any = {};
+
+    if (enabled !== undefined) {
+      where.enabled = enabled === 'true';
+    }
+
+    if (search) {
+      where.OR = [
+        { code: { contains: search as string, mode: 'insensitive' } },
+        { description: { contains: search as string, mode: 'insensitive' } }
+      ];
+    }
+
+    const coupons = await prisma.coupon.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        _count: {
+          select: { orders: { where: { status: { not: 'CANCELED' } } } }
+        }
+      }
+    });
+
+    res.json({
+      success: true,
+      data: coupons.map(formatCoupon),
+      count: coupons.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch coupons'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/coupons/:id
+ * Get a specific coupon (admin only)
+ */
+export const getCoupon = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { orders: { where: { status: { not: 'CANCELED' } } } }
+        }
+      }
+    });
+
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        message: 'Coupon not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: formatCoupon(coupon)
+    });
+
+  } catch (error) {
+    console.error('Error fetching coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch coupon'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/coupons
+ * Create a new coupon (admin only)
+ */
+export const createCoupon = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const {
+      code,
+      description,
+      type,
+      value,
+      maxDiscount,
+      minOrderTotal,
+      usageLimit,
+      perUserLimit,
+      productIds = [],
+      startsAt,
+      expiresAt,
+      enabled = true
+    } = req.body;
+
+    const normalizedCode = normalizeCouponCode(code);
+
+    const existingCoupon = await prisma.coupon.findUnique({
+      where: { code: normalizedCode }
+    });
+
+    if (existingCoupon) {
+      return res.status(400).json({
+        success: false,
+        message: 'A coupon with this code already exists'
+      });
+    }
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        code: normalizedCode,
+        description,
+        type,
+        value: parseFloat(value),
+        maxDiscount: maxDiscount != null ? parseFloat(maxDiscount) : null,
+        minOrderTotal: minOrderTotal != null ? parseFloat(minOrderTotal) : null,
+        usageLimit: usageLimit != null ? parseInt(usageLimit, 10) : null,
+        perUserLimit: perUserLimit != null ? parseInt(perUserLimit, 10) : null,
+        productIds,
+        startsAt: startsAt ? new Date(startsAt) : null,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+        enabled
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Coupon created successfully',
+      data: formatCoupon(coupon)
+    });
+
+  } catch (error) {
+    console.error('Error creating coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create coupon'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/coupons/:id
+ * Update a coupon (admin only)
+ */
+export const updateCoupon = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+
+    const existingCoupon = await prisma.coupon.findUnique({
+      where: { id }
+    });
+
+    if (!existingCoupon) {
+      return res.status(404).json({
+        success: false,
+        message: 'Coupon not found'
+      });
+    }
+
+    const updateData: any = {};
+
+    if (req.body.code !== undefined) {
+      const normalizedCode = normalizeCouponCode(req.body.code);
+      if (normalizedCode !== existingCoupon.code) {
+        const codeConflict = await prisma.coupon.findUnique({
+          where: { code: normalizedCode }
+        });
+
+        if (codeConflict) {
+          return res.status(400).json({
+            success: false,
+            message: 'A coupon with this code already exists'
+          });
+        }
+      }
+      updateData.code = normalizedCode;
+    }
+
+    const type = req.body.type ?? existingCoupon.type;
+    const value = req.body.value !== undefined ? parseFloat(req.body.value) : Number(existingCoupon.value);
+    if (type === 'PERCENTAGE' && value > 100) {
+      return res.status(400).json({
+        success: false,
+        message: 'Percentage coupons cannot exceed 100%'
+      });
+    }
+
+    if (req.body.description !== undefined) updateData.description = req.body.description;
+    if (req.body.type !== undefined) updateData.type = req.body.type;
+    if (req.body.value !== undefined) updateData.value = value;
+    if (req.body.maxDiscount !== undefined) updateData.maxDiscount = req.body.maxDiscount !== null ? parseFloat(req.body.maxDiscount) : null;
+    if (req.body.minOrderTotal !== undefined) updateData.minOrderTotal = req.body.minOrderTotal !== null ? parseFloat(req.body.minOrderTotal) : null;
+    if (req.body.usageLimit !== undefined) updateData.usageLimit = req.body.usageLimit !== null ? parseInt(req.body.usageLimit, 10) : null;
+    if (req.body.perUserLimit !== undefined) updateData.perUserLimit = req.body.perUserLimit !== null ? parseInt(req.body.perUserLimit, 10) : null;
+    if (req.body.productIds !== undefined) updateData.productIds = req.body.productIds;
+    if (req.body.startsAt !== undefined) updateData.startsAt = req.body.startsAt ? new Date(req.body.startsAt) : null;
+    if (req.body.expiresAt !== undefined) updateData.expiresAt = req.body.expiresAt ? new Date(req.body.expiresAt) : null;
+    if (req.body.enabled !== undefined) updateData.enabled = req.body.enabled;
+
+    const coupon = await prisma.coupon.update({
+      where: { id },
+      data: updateData
+    });
+
+    res.json({
+      success: true,
+      message: 'Coupon updated successfully',
+      data: formatCoupon(coupon)
+    });
+
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update coupon'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/coupons/:id
+ * Delete a coupon that has never been redeemed (admin only)
+ */
+export const deleteCoupon = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingCoupon = await prisma.coupon.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { orders: true } }
+      }
+    });
+
+    if (!existingCoupon) {
+      return res.status(404).json({
+        success: false,
+        message: 'Coupon not found'
+      });
+    }
+
+    // Orders keep a snapshot of the code, but disabling preserves the link for reporting
+    if (existingCoupon._count.orders > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete a coupon that has been used in orders. Disable it instead.',
+        data: {
+          orderCount: existingCoupon._count.orders
+        }
+      });
+    }
+
+    await prisma.coupon.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Coupon deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete coupon'
+    });
+  }
+};
+
+/**
+ * POST /api/coupons/validate
+ * Preview a coupon against the customer's cart (authenticated customer)
+ */
+export const validateCouponForCart = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id: userId, isWholesale } = (req as any).user;
+    const { code, items } = req.body;
+    const pricedAt = new Date();
+
+    const products = await prisma.product.findMany({
+      where: {
+        id: { in: items.map((item: any) => item.productId) },
+        disabled: false
+      },
+      include: orderablePricesInclude(pricedAt)
+    });
+
+    // Lines are priced like the order will be; unknown products and sizes are left out
+    const lineItems = items
+      .map((item: any) => {
+        const product = products.find(p => p.id === item.productId);
+        const line = product && resolveOrderLine(product, item.variantId, pricedAt, { quantity: parseInt(item.quantity, 10), isWholesale });
+        return line && line.valid
+          ? { productId: product!.id, unitPrice: line.unitPrice, quantity: parseInt(item.quantity, 10) }
+          : null;
+      })
+      .filter(Boolean);
+
+    const result = await resolveCoupon(prisma, code, userId, lineItems);
+
+    if (!result.valid) {
+      return res.status(400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        code: result.coupon.code,
+        description: result.coupon.description,
+        type: result.coupon.type,
+        value: Number(result.coupon.value),
+        discountAmount: result.discountAmount
+      }
+    });
+
+  } catch (error) {
+    console.error('Error validating coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to validate coupon'
+    });
+  }
+};
+
+// Validation middleware
+const couponFieldValidators = [
+  body('description')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 255 })
+    .withMessage('Description must be less than 255 characters'),
+  body('maxDiscount')
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('Max discount must be a non-negative number'),
+  body('minOrderTotal')
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('Minimum order total must be a non-negative number'),
+  body('usageLimit')
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage('Usage limit must be a positive integer'),
+  body('perUserLimit')
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage('Per-user limit must be a positive integer'),
+  body('productIds')
+    .optional()
+    .isArray()
+    .withMessage('Product IDs must be an array'),
+  body('productIds.*')
+    .isString()
+    .withMessage('Product ID must be a string'),
+  body('startsAt')
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('Start date must be a valid date'),
+  body('expiresAt')
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('Expiry date must be a valid date')
+    .custom((expiresAt, { req }) => {
+      if (req.body.startsAt && new Date(expiresAt) <= new Date(req.body.startsAt)) {
+        throw new Error('Expiry date must be after start date');
+      }
+      return true;
+    }),
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be a boolean')
+];
+
+export const validateCreateCoupon = [
+  body('code')
+    .trim()
+    .matches(/^[A-Za-z0-9_-]{3,32}$/)
+    .withMessage('Code must be 3-32 letters, numbers, dashes or underscores'),
+  body('type')
+    .isIn(['PERCENTAGE', 'FIXED_AMOUNT'])
+    .withMessage('Invalid coupon type'),
+  body('value')
+    .isFloat({ gt: 0 })
+    .withMessage('Value must be a positive number')
+    .custom((value, { req }) => {
+      if (req.body.type === 'PERCENTAGE' && parseFloat(value) > 100) {
+        throw new Error('Percentage coupons cannot exceed 100%');
+      }
+      return true;
+    }),
+  ...couponFieldValidators
+];
+
+export const validateUpdateCoupon = [
+  param('id')
+    .isString()
+    .withMessage('Invalid coupon ID'),
+  body('code')
+    .optional()
+    .trim()
+    .matches(/^[A-Za-z0-9_-]{3,32}$/)
+    .withMessage('Code must be 3-32 letters, numbers, dashes or underscores'),
+  body('type')
+    .optional()
+    .isIn(['PERCENTAGE', 'FIXED_AMOUNT'])
+    .withMessage('Invalid coupon type'),
+  body('value')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Value must be a positive number'),
+  ...couponFieldValidators
+];
+
+export const validateCouponId = [
+  param('id')
+    .isString()
+    .withMessage('Invalid coupon ID')
+];
+
+export const validateCouponPreview = [
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Coupon code is required'),
+  body('items')
+    .isArray({ min: 1 })
+    .withMessage('Items must be a non-empty array'),
+  body('items.*.productId')
+    .isString()
+    .withMessage('Product ID is required'),
+  body('items.*.variantId')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Variant ID must be a string'),
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a positive integer')
+];
@@ -1,13 +1,51 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Order, Prisma, PrismaClient } from '@prisma/client';
 import { 
   OnlineTransferOrderRequest,
   OnlineTransferOrderResponse,
   PaymentConfirmationRequest,
-  PaymentConfirmationResponse
+  PaymentConfirmationResponse,
+  BulkPaymentConfirmationRequest,
+  BulkPaymentConfirmationResult
 } from '../types/payment';
-import { body, param, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { Decimal } from '@prisma/client/runtime/library';
+import { claimCouponUse, CouponUnavailableError, resolveCoupon } from '../utils/coupons';
+import { quoteShipping } from '../utils/shipping';
+import { recordOrderStatusEvent } from '../utils/orderEvents';
+import { setOrderStatus } from '../utils/orderLifecycle';
+import { getReservationExpiry, hasPaymentProof } from '../utils/reservations';
+import { consumeStock } from '../utils/inventoryCosting';
+import { releaseReservation, reserveOrderStock } from '../utils/stockLevels';
+import { toOrderItemMetadata } from '../utils/productAttributes';
+import { resolveOrderLine } from '../utils/productVariants';
+import { orderablePricesInclude } from '../utils/productPricing';
+import { toOrderItemTier } from '../utils/priceTiers';
+import {
+  checkPaymentProofUpdate,
+  getPaymentAge,
+  paymentQueueWhere,
+  PaymentReviewResult,
+  recordPaymentReview,
+  startOrderPayment
+} from '../utils/paymentVerification';
+import { getPaymentProvider } from '../utils/paymentProviders';
+import {
+  DUPLICATE_LOOKBACK_DAYS,
+  DUPLICATE_TRANSACTION_ID_MESSAGE,
+  findPaymentSuspicion,
+  findTransactionIdConflicts,
+  hashPaymentScreenshot,
+  isDuplicateTransactionIdError,
+  paymentProofFingerprintSelect
+} from '../utils/paymentFraud';
+import { getPaymentRejectedEmailTemplate, sendEmail } from '../utils/email';
+import {
+  buildAccountPaymentQrCodes,
+  getOrderPaymentReference,
+  PAYMENT_QR_FORMATS,
+  PaymentQrFormat
+} from '../utils/paymentQr';
 
 const prisma = new PrismaClient();
 
@@ -27,6 +65,7 @@ export const createOnlineTransferOrder = async (req: Request, res: Response) =>
     }
 
     const userId = (req as any).user.id;
+    const isWholesale = (req as any).user.isWholesale;
     const {
       items,
       shippingAddress,
@@ -34,7 +73,8 @@ export const createOnlineTransferOrder = async (req: Request, res: Response) =>
       transactionId,
       customerAccountName,
       customerAccountNo,
-      paymentScreenshot
+      paymentScreenshot,
+      couponCode
     }: OnlineTransferOrderRequest = req.body;
 
     // Validate company account exists and is enabled
@@ -52,13 +92,22 @@ export const createOnlineTransferOrder = async (req: Request, res: Response) =>
       });
     }
 
-    // Validate products and calculate total
+    if (transactionId && (await findTransactionIdConflicts(prisma, { transactionId, companyAccountId })).length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: DUPLICATE_TRANSACTION_ID_MESSAGE
+      });
+    }
+
+    // Validate products and calculate total at the prices in effect now
     let totalAmount = new Decimal(0);
     const validatedItems: any[] = [];
+    const pricedAt = new Date();
 
     for (const item of items) {
       const product = await prisma.product.findUnique({
-        where: { id: item.productId }
+        where: { id: item.productId },
+        include: orderablePricesInclude(pricedAt)
       });
 
       if (!product) {
@@ -82,75 +131,178 @@ export const createOnlineTransferOrder = async (req: Request, res: Response) =>
         });
       }
 
-      // Check stock availability if not allowing sell without stock
-      if (!product.allowSellWithoutStock) {
-        const stockEntries = await prisma.stockEntry.findMany({
-          where: { productId: product.id }
+      // Products with variants are priced and stocked per variant; large lines get tier prices
+      const line = resolveOrderLine(product, item.variantId, pricedAt, {
+        quantity: item.quantity,
+        isWholesale
+      });
+      if (!line.valid) {
+        return res.status(400).json({
+          success: false,
+          message: line.error
         });
+      }
 
-        const totalStock = stockEntries.reduce((sum, entry) => sum + entry.quantity, 0);
-        if (totalStock < item.quantity) {
-          return res.status(400).json({
-            success: false,
-            message: `Insufficient stock for ${product.name_en}. Available: ${totalStock}, Requested: ${item.quantity}`
-          });
-        }
+      // Check stock availability if not allowing sell without stock
+      if (!product.allowSellWithoutStock && line.stockOnHand < item.quantity) {
+        return res.status(400).json({
+          success: false,
+          message: `Insufficient stock for ${product.name_en}. Available: ${line.stockOnHand}, Requested: ${item.quantity}`
+        });
       }
 
-      const itemTotal = new Decimal(product.price).mul(item.quantity);
+      const itemTotal = new Decimal(line.unitPrice).mul(item.quantity);
       totalAmount = totalAmount.add(itemTotal);
 
       validatedItems.push({
         productId: product.id,
-        unitPrice: product.price,
+        variantId: line.variant?.id || null,
+        unitPrice: new Decimal(line.unitPrice),
+        ...toOrderItemTier(line),
         quantity: item.quantity,
-        metadata: product.metadata
+        metadata: toOrderItemMetadata(product, line.variant)
       });
     }
 
+    // Validate coupon and apply discount to the items total
+    let couponId: string | null = null;
+    let appliedCouponCode: string | null = null;
+    let discountAmount = new Decimal(0);
+
+    if (couponCode) {
+      const couponResult = await resolveCoupon(
+        prisma,
+        couponCode,
+        userId,
+        validatedItems.map(item => ({
+          productId: item.productId,
+          unitPrice: Number(item.unitPrice),
+          quantity: item.quantity
+        }))
+      );
+
+      if (!couponResult.valid) {
+        return res.status(400).json({
+          success: false,
+          message: couponResult.error
+        });
+      }
+
+      couponId = couponResult.coupon.id;
+      appliedCouponCode = couponResult.coupon.code;
+      discountAmount = new Decimal(couponResult.discountAmount);
+      totalAmount = totalAmount.sub(discountAmount);
+    }
+
+    // Shipping is charged on top of the discounted total; the free threshold uses the pre-discount subtotal
+    const shippingQuote = await quoteShipping(
+      prisma,
+      { region: shippingAddress.region, township: shippingAddress.township },
+      validatedItems,
+      totalAmount.add(discountAmount).toNumber()
+    );
+
+    if (!shippingQuote.available) {
+      return res.status(400).json({
+        success: false,
+        message: shippingQuote.error
+      });
+    }
+
+    const shippingFee = new Decimal(shippingQuote.fee);
+    totalAmount = totalAmount.add(shippingFee);
+
+    // Transfers are handled by the manual transfer provider like any other payment type
+    const paymentProvider = getPaymentProvider('ONLINE_TRANSFER');
+
+    // Orders without payment proof only hold their stock for a limited time
+    const reservationExpiresAt = getReservationExpiry({
+      paymentType: 'ONLINE_TRANSFER',
+      transactionId,
+      paymentScreenshot
+    });
+
+    const paymentScreenshotHash = await hashPaymentScreenshot(paymentScreenshot);
+
     // Create order in transaction
     const result = await prisma.$transaction(async (tx) => {
+      if (couponId) {
+        await claimCouponUse(tx, couponId, userId);
+      }
+
       // Create order
       const order = await tx.order.create({
         data: {
           userId,
-          status: 'PENDING',
-          paymentType: 'ONLINE_TRANSFER',
+          status: paymentProvider.initialStatus,
+          paymentType: paymentProvider.type,
           companyAccountId,
           totalAmount,
+          couponId,
+          couponCode: appliedCouponCode,
+          discountAmount,
+          shippingFee,
           shippingAddress,
-          transactionId,
+          transactionId: transactionId || null,
           paymentScreenshot,
+          paymentScreenshotHash,
           customerAccountName,
-          customerAccountNo
+          customerAccountNo,
+          reservationExpiresAt,
+          paymentSubmittedAt: hasPaymentProof({ transactionId, paymentScreenshot }) ? new Date() : null
         }
       });
 
+      await recordOrderStatusEvent(tx, {
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: order.status,
+        actorId: userId,
+        note: 'Order placed'
+      });
+
+      // Deduct inventory (create negative stock entries) and note what the bags cost
+      const itemCosts: number[] = [];
+      for (const item of validatedItems) {
+        const consumption = await consumeStock(tx, {
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity
+        }, { type: 'SALE', orderId: order.id, actorId: userId });
+        itemCosts.push(consumption.totalCost);
+      }
+
       // Create order items
       await tx.orderItem.createMany({
-        data: validatedItems.map(item => ({
+        data: validatedItems.map((item, index) => ({
           orderId: order.id,
           productId: item.productId,
+          variantId: item.variantId,
           unitPrice: item.unitPrice,
           quantity: item.quantity,
-          metadata: item.metadata
+          listPrice: item.listPrice,
+          tierMinQuantity: item.tierMinQuantity,
+          tierPriceList: item.tierPriceList,
+          metadata: item.metadata,
+          costAmount: itemCosts[index]
         }))
       });
 
-      // Deduct inventory (create negative stock entries)
-      for (const item of validatedItems) {
-        await tx.stockEntry.create({
-          data: {
-            productId: item.productId,
-            quantity: -item.quantity, // Negative quantity for deduction
-            purchasePrice: new Decimal(0) // No purchase price for deductions
-          }
-        });
+      if (reservationExpiresAt) {
+        await reserveOrderStock(tx, validatedItems);
       }
 
       return order;
     });
 
+    const payment = await startOrderPayment(prisma, result.id);
+    if (!payment.success) {
+      return res.status(payment.status).json({
+        success: false,
+        message: payment.error
+      });
+    }
+
     // Fetch the complete order with relations
     const order = await prisma.order.findUnique({
       where: { id: result.id },
@@ -169,10 +321,14 @@ export const createOnlineTransferOrder = async (req: Request, res: Response) =>
       status: order!.status,
       paymentType: order!.paymentType,
       totalAmount: order!.totalAmount.toNumber(),
-      transactionId: order!.transactionId!,
+      couponCode: order!.couponCode || undefined,
+      discountAmount: order!.discountAmount.toNumber(),
+      shippingFee: order!.shippingFee.toNumber(),
+      transactionId: order!.transactionId || undefined,
       customerAccountName: order!.customerAccountName!,
       customerAccountNo: order!.customerAccountNo!,
       paymentScreenshot: order!.paymentScreenshot || undefined,
+      reservationExpiresAt: order!.reservationExpiresAt || undefined,
       companyAccount: {
         id: order!.companyAccount!.id,
         name: order!.companyAccount!.name,
@@ -182,7 +338,8 @@ export const createOnlineTransferOrder = async (req: Request, res: Response) =>
         createdAt: order!.companyAccount!.createdAt,
         updatedAt: order!.companyAccount!.updatedAt
       },
-      createdAt: order!.createdAt
+      createdAt: order!.createdAt,
+      redirectUrl: payment.redirectUrl
     };
 
     res.status(201).json({
@@ -192,6 +349,20 @@ export const createOnlineTransferOrder = async (req: Request, res: Response) =>
     });
 
   } catch (error) {
+    if (error instanceof CouponUnavailableError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    if (isDuplicateTransactionIdError(error)) {
+      return res.status(400).json({
+        success: false,
+        message: DUPLICATE_TRANSACTION_ID_MESSAGE
+      });
+    }
+
     console.error('Error creating online transfer order:', error);
     res.status(500).json({
       success: false,
@@ -200,9 +371,52 @@ export const createOnlineTransferOrder = async (req: Request, res: Response) =>
   }
 };
 
+const sendPaymentRejectedEmail = async (order: Order, reason: string) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: order.userId },
+      select: { email: true, name: true, locale: true }
+    });
+    if (!user) return;
+
+    const template = getPaymentRejectedEmailTemplate({
+      orderId: order.id,
+      customerName: user.name,
+      totalAmount: Number(order.totalAmount),
+      reason
+    }, user.locale);
+
+    await sendEmail({ to: user.email, ...template });
+  } catch (error) {
+    console.error(`Payment rejection email failed for order ${order.id}:`, error);
+  }
+};
+
+/**
+ * Shared verification step for single and bulk confirmation. Rejected
+ * customers are emailed the reason so they can resubmit proof.
+ */
+const reviewPayment = async (
+  orderId: string,
+  confirmed: boolean,
+  notes: string | undefined,
+  actorId: string
+): Promise<PaymentReviewResult> => {
+  const result = await prisma.$transaction((tx) =>
+    recordPaymentReview(tx, orderId, { confirmed, notes, actorId })
+  );
+
+  if (result.success && !confirmed) {
+    await sendPaymentRejectedEmail(result.order, notes || 'Payment could not be verified');
+  }
+
+  return result;
+};
+
 /**
- * PATCH /api/admin/orders/:id/payment-confirmation
- * Confirm or reject payment for online transfer order (admin only)
+ * PATCH /api/orders/online-transfer/:id/payment-confirmation
+ * Confirm or reject payment for online transfer order (admin only).
+ * Rejections need a reason, which is emailed to the customer.
  */
 export const confirmPayment = async (req: Request, res: Response) => {
   try {
@@ -218,45 +432,16 @@ export const confirmPayment = async (req: Request, res: Response) => {
     const { id } = req.params;
     const { confirmed, notes }: PaymentConfirmationRequest = req.body;
 
-    // Check if order exists and is an online transfer order
-    const order = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        companyAccount: true
-      }
-    });
-
-    if (!order) {
-      return res.status(404).json({
-        success: false,
-        message: 'Order not found'
-      });
-    }
-
-    if (order.paymentType !== 'ONLINE_TRANSFER') {
-      return res.status(400).json({
-        success: false,
-        message: 'Order is not an online transfer order'
-      });
-    }
+    const result = await reviewPayment(id, confirmed, notes, (req as any).user.id);
 
-    if (order.status !== 'PENDING') {
-      return res.status(400).json({
+    if (!result.success) {
+      return res.status(result.status).json({
         success: false,
-        message: 'Order is not in pending status'
+        message: result.error
       });
     }
 
-    // Update order status based on confirmation
-    const newStatus = confirmed ? 'PROCESSING' : 'ON_HOLD';
-    
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: {
-        status: newStatus,
-        updatedAt: new Date()
-      }
-    });
+    const updatedOrder = result.order;
 
     const response: PaymentConfirmationResponse = {
       success: true,
@@ -281,6 +466,157 @@ export const confirmPayment = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * PATCH /api/orders/online-transfer/payment-confirmation
+ * Confirm or reject the payments of several orders at once (admin only).
+ * Each order is reviewed on its own; the results say which ones failed.
+ */
+export const bulkConfirmPayment = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { orderIds, confirmed, notes }: BulkPaymentConfirmationRequest = req.body;
+    const actorId = (req as any).user.id;
+
+    const results: BulkPaymentConfirmationResult[] = [];
+    for (const orderId of Array.from(new Set(orderIds))) {
+      try {
+        const result = await reviewPayment(orderId, confirmed, notes, actorId);
+        results.push(result.success
+          ? { orderId, success: true, status: result.order.status }
+          : { orderId, success: false, error: result.error });
+      } catch (error) {
+        console.error(`Error reviewing payment of order ${orderId}:`, error);
+        results.push({ orderId, success: false, error: 'Failed to review payment' });
+      }
+    }
+
+    const reviewed = results.filter(result => result.success).length;
+
+    res.json({
+      success: true,
+      message: `${reviewed} of ${results.length} payments ${confirmed ? 'confirmed' : 'rejected'}`,
+      data: results
+    });
+
+  } catch (error) {
+    console.error('Error confirming payments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to confirm payments'
+    });
+  }
+};
+
+/**
+ * GET /api/orders/online-transfer/verification-queue
+ * Online transfer orders waiting for payment verification, longest waiting
+ * first, with their proof and how long they have waited (admin only)
+ */
+export const getPaymentVerificationQueue = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { companyAccountId } = req.query;
+
+    const where: Prisma.OrderWhereInput = { ...paymentQueueWhere };
+    if (companyAccountId) {
+      where.companyAccountId = companyAccountId as string;
+    }
+
+    const orders = await prisma.order.findMany({
+      where,
+      include: {
+        companyAccount: true,
+        user: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: [
+        { paymentSubmittedAt: { sort: 'asc', nulls: 'last' } },
+        { createdAt: 'asc' }
+      ]
+    });
+
+    const now = new Date();
+
+    // Earlier proof to compare with, to flag re-used transaction IDs and screenshots
+    const earlierProof = await prisma.order.findMany({
+      where: {
+        paymentType: 'ONLINE_TRANSFER',
+        status: { not: 'CANCELED' },
+        createdAt: { gte: new Date(now.getTime() - DUPLICATE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000) },
+        OR: [{ transactionId: { not: null } }, { paymentScreenshotHash: { not: null } }]
+      },
+      select: { ...paymentProofFingerprintSelect, status: true }
+    });
+    const proofStatuses = new Map(earlierProof.map(order => [order.id, order.status]));
+    const toConflicts = (orderIds: string[]) => orderIds.map(id => ({ id, status: proofStatuses.get(id)! }));
+
+    const queue = orders.map(order => {
+      const suspicion = findPaymentSuspicion(order, earlierProof);
+      return {
+        id: order.id,
+        status: order.status,
+        totalAmount: order.totalAmount.toNumber(),
+        transactionId: order.transactionId,
+        customerAccountName: order.customerAccountName,
+        customerAccountNo: order.customerAccountNo,
+        paymentScreenshot: order.paymentScreenshot,
+        hasProof: hasPaymentProof(order),
+        paymentSubmittedAt: order.paymentSubmittedAt,
+        reservationExpiresAt: order.reservationExpiresAt,
+        ...getPaymentAge(order, now),
+        companyAccount: order.companyAccount ? {
+          id: order.companyAccount.id,
+          name: order.companyAccount.name,
+          type: order.companyAccount.type,
+          details: order.companyAccount.details
+        } : null,
+        customer: order.user,
+        suspicion: suspicion ? {
+          duplicateTransactionOrders: toConflicts(suspicion.duplicateTransactionOrderIds),
+          similarScreenshotOrders: toConflicts(suspicion.similarScreenshotOrderIds)
+        } : null,
+        createdAt: order.createdAt
+      };
+    });
+
+    res.json({
+      success: true,
+      data: queue,
+      count: queue.length,
+      summary: {
+        awaitingProof: queue.filter(order => !order.hasProof).length,
+        suspect: queue.filter(order => order.suspicion).length,
+        aging: queue.filter(order => order.aging === 'AGING').length,
+        overdue: queue.filter(order => order.aging === 'OVERDUE').length
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching payment verification queue:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch payment verification queue'
+    });
+  }
+};
+
 /**
  * GET /api/admin/orders/:id/payment-details
  * Get payment details for online transfer order (admin only)
@@ -423,6 +759,205 @@ export const getOrderPaymentInfo = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * GET /api/orders/online-transfer/:id/payment-qr?format=svg|png
+ * QR codes for paying the customer's own order, with its reference and
+ * total, into the order's company account or else every enabled one
+ */
+export const getOrderPaymentQrCodes = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = (req as any).user.id;
+    const format = (req.query.format as PaymentQrFormat) || 'svg';
+
+    const order = await prisma.order.findFirst({
+      where: { id: req.params.id, userId }
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    if (order.paymentType !== 'ONLINE_TRANSFER') {
+      return res.status(400).json({
+        success: false,
+        message: 'Order is not an online transfer order'
+      });
+    }
+
+    // Codes are only offered while the order still has to be paid
+    const awaitingPayment = (order.status === 'PENDING' && !order.paymentVerifiedAt) ||
+      (order.status === 'ON_HOLD' && !!order.paymentRejectedAt);
+    if (!awaitingPayment) {
+      return res.status(400).json({
+        success: false,
+        message: 'Order is not waiting for payment'
+      });
+    }
+
+    const accounts = await prisma.companyPaymentAccount.findMany({
+      where: {
+        enabled: true,
+        ...(order.companyAccountId ? { id: order.companyAccountId } : {})
+      },
+      orderBy: {
+        type: 'asc'
+      }
+    });
+
+    const request = {
+      amount: order.totalAmount.toNumber(),
+      reference: getOrderPaymentReference(order.id)
+    };
+
+    res.json({
+      success: true,
+      data: {
+        ...request,
+        codes: await buildAccountPaymentQrCodes(accounts, request, format)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error generating order payment QR codes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate payment QR codes'
+    });
+  }
+};
+
+/**
+ * PATCH /api/orders/online-transfer/:id/payment-proof
+ * Send transfer proof for the customer's own order, or resend it after the
+ * payment was rejected. A rejected order goes back to the verification queue.
+ */
+export const submitPaymentProof = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = (req as any).user.id;
+    const { id } = req.params;
+    const { transactionId, paymentScreenshot, customerAccountName, customerAccountNo } = req.body;
+
+    const order = await prisma.order.findFirst({
+      where: { id, userId }
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const error = checkPaymentProofUpdate(order, { transactionId, paymentScreenshot });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    if (transactionId) {
+      const conflicts = await findTransactionIdConflicts(prisma, {
+        transactionId,
+        companyAccountId: order.companyAccountId,
+        excludeOrderId: id
+      });
+      if (conflicts.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: DUPLICATE_TRANSACTION_ID_MESSAGE
+        });
+      }
+    }
+
+    // Only the proof sent replaces what is stored, so re-sending one field keeps the other;
+    // the screenshot is only fingerprinted again when it changes
+    const screenshotChanged = !!paymentScreenshot && paymentScreenshot !== order.paymentScreenshot;
+    const paymentScreenshotHash = screenshotChanged
+      ? await hashPaymentScreenshot(paymentScreenshot)
+      : order.paymentScreenshotHash;
+
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      // The order now has proof to verify, so stop the reservation clock
+      await releaseReservation(tx, id);
+
+      if (order.status === 'ON_HOLD') {
+        await setOrderStatus(tx, {
+          orderId: id,
+          fromStatus: order.status,
+          toStatus: 'PENDING',
+          actorId: userId,
+          note: 'Payment proof resubmitted'
+        });
+      }
+
+      return tx.order.update({
+        where: { id },
+        data: {
+          transactionId: transactionId || order.transactionId,
+          paymentScreenshot: paymentScreenshot || order.paymentScreenshot,
+          paymentScreenshotHash,
+          customerAccountName: customerAccountName || order.customerAccountName,
+          customerAccountNo: customerAccountNo || order.customerAccountNo,
+          paymentSubmittedAt: new Date(),
+          paymentRejectedAt: null,
+          paymentRejectionReason: null
+        }
+      });
+    });
+
+    res.json({
+      success: true,
+      message: 'Payment proof submitted successfully',
+      data: {
+        id: updatedOrder.id,
+        status: updatedOrder.status,
+        transactionId: updatedOrder.transactionId,
+        paymentScreenshot: updatedOrder.paymentScreenshot,
+        customerAccountName: updatedOrder.customerAccountName,
+        customerAccountNo: updatedOrder.customerAccountNo,
+        paymentSubmittedAt: updatedOrder.paymentSubmittedAt,
+        updatedAt: updatedOrder.updatedAt
+      }
+    });
+
+  } catch (error) {
+    if (isDuplicateTransactionIdError(error)) {
+      return res.status(400).json({
+        success: false,
+        message: DUPLICATE_TRANSACTION_ID_MESSAGE
+      });
+    }
+
+    console.error('Error submitting payment proof:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit payment proof'
+    });
+  }
+};
+
 // Validation middleware
 export const validateOnlineTransferOrder = [
   body('items')
@@ -431,6 +966,10 @@ export const validateOnlineTransferOrder = [
   body('items.*.productId')
     .isString()
     .withMessage('Product ID is required'),
+  body('items.*.variantId')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Variant ID must be a string'),
   body('items.*.quantity')
     .isInt({ min: 1 })
     .withMessage('Quantity must be a positive integer'),
@@ -449,13 +988,23 @@ export const validateOnlineTransferOrder = [
     .trim()
     .isLength({ min: 1, max: 20 })
     .withMessage('Shipping phone is required'),
+  body('shippingAddress.region')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Shipping region is required'),
+  body('shippingAddress.township')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Shipping township must be less than 100 characters'),
   body('companyAccountId')
     .isString()
     .withMessage('Company account ID is required'),
   body('transactionId')
+    .optional({ values: 'falsy' })
     .trim()
     .isLength({ min: 1, max: 100 })
-    .withMessage('Transaction ID is required'),
+    .withMessage('Transaction ID must be less than 100 characters'),
   body('customerAccountName')
     .trim()
     .isLength({ min: 1, max: 100 })
@@ -467,21 +1016,91 @@ export const validateOnlineTransferOrder = [
   body('paymentScreenshot')
     .optional()
     .isString()
-    .withMessage('Payment screenshot must be a string')
+    .withMessage('Payment screenshot must be a string'),
+  body('couponCode')
+    .optional()
+    .trim()
+    .isString()
+    .withMessage('Coupon code must be a string')
 ];
 
-export const validatePaymentConfirmation = [
-  param('id')
-    .isString()
-    .withMessage('Invalid order ID'),
+// Customers are emailed the reason, so a rejection must give one
+const isRejection = (value: unknown) => value === false || value === 'false';
+
+const paymentReviewValidators = [
   body('confirmed')
     .isBoolean()
-    .withMessage('Confirmed must be a boolean'),
+    .withMessage('Confirmed must be a boolean')
+    .toBoolean(),
   body('notes')
     .optional()
     .isString()
     .isLength({ max: 500 })
-    .withMessage('Notes must be less than 500 characters')
+    .withMessage('Notes must be less than 500 characters'),
+  body('notes')
+    .if(body('confirmed').custom(isRejection))
+    .trim()
+    .notEmpty()
+    .withMessage('A reason is required when rejecting a payment')
+];
+
+export const validatePaymentConfirmation = [
+  param('id')
+    .isString()
+    .withMessage('Invalid order ID'),
+  ...paymentReviewValidators
+];
+
+export const validateBulkPaymentConfirmation = [
+  body('orderIds')
+    .isArray({ min: 1, max: 50 })
+    .withMessage('Order IDs must be a list of 1 to 50 orders'),
+  body('orderIds.*')
+    .isString()
+    .withMessage('Invalid order ID'),
+  ...paymentReviewValidators
+];
+
+export const validatePaymentQrFormat = [
+  param('id')
+    .isString()
+    .withMessage('Invalid order ID'),
+  query('format')
+    .optional()
+    .isIn(PAYMENT_QR_FORMATS)
+    .withMessage('Format must be svg or png')
+];
+
+export const validatePaymentQueueQuery = [
+  query('companyAccountId')
+    .optional()
+    .isString()
+    .withMessage('Invalid company account ID')
+];
+
+export const validatePaymentProof = [
+  param('id')
+    .isString()
+    .withMessage('Invalid order ID'),
+  body('transactionId')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Transaction ID must be less than 100 characters'),
+  body('paymentScreenshot')
+    .optional()
+    .isString()
+    .withMessage('Payment screenshot must be a string'),
+  body('customerAccountName')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Customer account name cannot be empty'),
+  body('customerAccountNo')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Customer account number cannot be empty')
 ];
 
 export const validateOrderId = [
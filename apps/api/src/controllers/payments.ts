@@ -0,0 +1,274 @@
+import { Request, Response } from 'express';
+import { PaymentType, PrismaClient } from '@prisma/client';
+import { body, param, validationResult } from 'express-validator';
+import {
+  getEnabledPaymentTypes,
+  getPaymentProvider,
+  isPaymentTypeEnabled,
+  PaymentCallback,
+  paymentOrderSelect,
+  toPaymentOrder
+} from '../utils/paymentProviders';
+import { applyGatewayPayment, GatewayPaymentResult } from '../utils/paymentVerification';
+import { getMockPayment, simulateMockPayment } from '../utils/mockPaymentGateway';
+
+const prisma = new PrismaClient();
+
+/**
+ * Verify a gateway callback and apply it to the order it belongs to.
+ * Shared by the webhook endpoint and the mock checkout.
+ */
+const processPaymentCallback = async (
+  type: PaymentType,
+  callback: PaymentCallback
+): Promise<GatewayPaymentResult> => {
+  const verified = getPaymentProvider(type).verifyCallback(callback);
+  if (!verified.valid) {
+    return { success: false, status: 400, error: verified.error };
+  }
+
+  const order = await prisma.order.findFirst({
+    where: { paymentReference: verified.paymentReference, paymentType: type },
+    select: { id: true }
+  });
+  if (!order) {
+    return { success: false, status: 404, error: 'No order has this payment reference' };
+  }
+
+  return prisma.$transaction((tx) => applyGatewayPayment(tx, order.id, verified));
+};
+
+/**
+ * GET /api/payments/providers
+ * Payment types customers can choose at checkout
+ */
+export const getPaymentProviders = async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: getEnabledPaymentTypes().map(type => ({
+      type,
+      acceptsPaymentProof: getPaymentProvider(type).acceptsPaymentProof
+    }))
+  });
+};
+
+/**
+ * POST /api/payments/:type/callback
+ * Payment gateway webhook; the provider checks the callback's signature
+ */
+export const handlePaymentCallback = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const result = await processPaymentCallback(req.params.type as PaymentType, {
+      headers: req.headers,
+      body: req.body
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { orderId: result.order.id, status: result.order.status, changed: result.changed }
+    });
+
+  } catch (error) {
+    console.error('Error handling payment callback:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to handle payment callback'
+    });
+  }
+};
+
+/**
+ * GET /api/payments/orders/:id/status
+ * Ask the order's payment provider where the payment stands, and apply
+ * the answer in case a callback was missed (order owner or admin)
+ */
+export const getOrderPaymentStatus = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = (req as any).user;
+    const order = await prisma.order.findFirst({
+      where: {
+        id: req.params.id,
+        ...(user.role === 'admin' ? {} : { userId: user.id })
+      },
+      select: { ...paymentOrderSelect, paymentType: true }
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const paymentStatus = await getPaymentProvider(order.paymentType).queryStatus(toPaymentOrder(order));
+
+    let orderStatus = order.status;
+    if (order.status === 'PENDING' && paymentStatus !== 'PENDING') {
+      const result = await prisma.$transaction((tx) => applyGatewayPayment(tx, order.id, {
+        status: paymentStatus,
+        amount: null,
+        transactionId: null
+      }));
+      if (result.success) {
+        orderStatus = result.order.status;
+      }
+    }
+
+    res.json({
+      success: true,
+      data: {
+        orderId: order.id,
+        paymentType: order.paymentType,
+        paymentStatus,
+        orderStatus
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching payment status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch payment status'
+    });
+  }
+};
+
+const renderMockPage = (title: string, content: string) => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 48px auto;">
+<h1 style="font-size: 20px;">${title}</h1>
+${content}
+</body>
+</html>`;
+
+/**
+ * GET /api/payments/mock/checkout/:reference
+ * Checkout page of the mock gateway, where the customer pays or fails
+ */
+export const showMockCheckout = async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  const payment = errors.isEmpty() ? getMockPayment(req.params.reference) : undefined;
+  if (!payment) {
+    return res.status(404).send(renderMockPage('Mock gateway', '<p>Unknown payment.</p>'));
+  }
+
+  const action = `/api/payments/mock/checkout/${req.params.reference}`;
+  res.send(renderMockPage('Mock gateway', `
+<p>Order <code>${payment.orderId}</code></p>
+<p>Amount: <strong>${payment.amount.toLocaleString()} MMK</strong></p>
+<p>Status: ${payment.status}</p>
+<form method="post" action="${action}"><input type="hidden" name="outcome" value="PAID"><button type="submit">Pay</button></form>
+<form method="post" action="${action}" style="margin-top: 8px;"><input type="hidden" name="outcome" value="FAILED"><button type="submit">Fail payment</button></form>`));
+};
+
+/**
+ * POST /api/payments/mock/checkout/:reference
+ * Settle a mock payment and deliver its signed callback through the same
+ * path as a real webhook. `amount` overrides what was paid, for testing
+ * under- and overpayment.
+ */
+export const submitMockCheckout = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { outcome, amount } = req.body;
+    const callback = simulateMockPayment(
+      req.params.reference,
+      outcome,
+      amount !== undefined ? parseFloat(amount) : undefined
+    );
+    if (!callback) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unknown mock payment'
+      });
+    }
+
+    const result = await processPaymentCallback('MOCK', callback);
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    if (req.is('application/x-www-form-urlencoded')) {
+      return res.send(renderMockPage('Mock gateway', `<p>Payment ${outcome === 'PAID' ? 'completed' : 'failed'}. Order is now ${result.order.status}.</p>`));
+    }
+
+    res.json({
+      success: true,
+      data: { orderId: result.order.id, status: result.order.status, changed: result.changed }
+    });
+
+  } catch (error) {
+    console.error('Error simulating mock payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to simulate mock payment'
+    });
+  }
+};
+
+// Validation middleware
+export const validatePaymentCallback = [
+  param('type')
+    .custom(isPaymentTypeEnabled)
+    .withMessage('Unknown payment provider')
+];
+
+export const validateOrderPaymentStatus = [
+  param('id')
+    .isString()
+    .withMessage('Invalid order ID')
+];
+
+export const validateMockReference = [
+  param('reference')
+    .matches(/^mock_[0-9a-f]{16}$/)
+    .withMessage('Invalid mock payment reference')
+];
+
+export const validateMockCheckout = [
+  ...validateMockReference,
+  body('outcome')
+    .isIn(['PAID', 'FAILED'])
+    .withMessage('Outcome must be PAID or FAILED'),
+  body('amount')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Amount must be a positive number')
+];
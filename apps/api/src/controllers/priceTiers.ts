@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { body, param, validationResult } from 'express-validator';
+import { checkPriceTiers } from '../utils/priceTiers';
+
+const prisma = new PrismaClient();
+
+const formatPriceTier = (tier: any) => ({
+  id: tier.id,
+  variantId: tier.variantId,
+  priceList: tier.priceList,
+  minQuantity: tier.minQuantity,
+  price: Number(tier.price),
+  updatedAt: tier.updatedAt
+});
+
+/**
+ * GET /api/admin/products/:productId/price-tiers
+ * Quantity tiers of a product and its variants, on both price lists (admin only)
+ */
+export const getPriceTiers = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId } = req.params;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: {
+        priceTiers: { orderBy: [{ priceList: 'asc' }, { minQuantity: 'asc' }] }
+      }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: product.priceTiers.map(formatPriceTier)
+    });
+
+  } catch (error) {
+    console.error('Error fetching price tiers:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch price tiers'
+    });
+  }
+};
+
+/**
+ * PUT /api/admin/products/:productId/price-tiers
+ * Replace the quantity tiers of a product, or of one of its variants, on
+ * both price lists. An empty list removes them (admin only)
+ */
+export const replacePriceTiers = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId } = req.params;
+    const { tiers } = req.body;
+    const variantId: string | null = req.body.variantId || null;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: { variants: { select: { id: true } } }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (product.variants.length > 0 && !variantId) {
+      return res.status(400).json({
+        success: false,
+        message: 'This product is priced per size; choose a variant'
+      });
+    }
+
+    if (variantId && !product.variants.some(variant => variant.id === variantId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Variant not found'
+      });
+    }
+
+    const tierCheck = checkPriceTiers(tiers);
+    if (!tierCheck.valid) {
+      return res.status(400).json({
+        success: false,
+        message: tierCheck.error
+      });
+    }
+
+    const saved = await prisma.$transaction(async (tx) => {
+      await tx.productPriceTier.deleteMany({ where: { productId, variantId } });
+      await tx.productPriceTier.createMany({
+        data: tiers.map((tier: any) => ({
+          productId,
+          variantId,
+          priceList: tier.priceList,
+          minQuantity: tier.minQuantity,
+          price: tier.price
+        }))
+      });
+
+      return tx.productPriceTier.findMany({
+        where: { productId, variantId },
+        orderBy: [{ priceList: 'asc' }, { minQuantity: 'asc' }]
+      });
+    });
+
+    res.json({
+      success: true,
+      message: 'Price tiers saved successfully',
+      data: saved.map(formatPriceTier)
+    });
+
+  } catch (error) {
+    console.error('Error saving price tiers:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save price tiers'
+    });
+  }
+};
+
+// Validation middleware
+export const validateProductId = [
+  param('productId')
+    .isString()
+    .withMessage('Invalid product ID')
+];
+
+export const validateReplacePriceTiers = [
+  ...validateProductId,
+  body('variantId')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Invalid variant ID'),
+  body('tiers')
+    .isArray({ max: 20 })
+    .withMessage('Tiers must be a list of at most 20 tiers'),
+  body('tiers.*.priceList')
+    .isIn(['RETAIL', 'WHOLESALE'])
+    .withMessage('Price list must be RETAIL or WHOLESALE'),
+  body('tiers.*.minQuantity')
+    .isInt({ min: 1 })
+    .withMessage('Minimum quantity must be at least 1')
+    .toInt(),
+  body('tiers.*.price')
+    .isFloat({ min: 0 })
+    .withMessage('Price must be a non-negative number')
+    .toFloat()
+];
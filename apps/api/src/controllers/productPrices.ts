@@ -0,0 +1,357 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { body, param, validationResult } from 'express-validator';
+import {
+  checkSaleSchedule,
+  getPriceStatus,
+  planRegularPriceRemoval,
+  productPricesQuery,
+  resolveEffectivePrice,
+  setRegularPrice,
+  variantPricesQuery
+} from '../utils/productPricing';
+
+const prisma = new PrismaClient();
+
+const priceInclude = {
+  variant: { select: { label: true } },
+  createdBy: { select: { name: true } }
+} satisfies Prisma.ProductPriceInclude;
+
+type PriceWithDetails = Prisma.ProductPriceGetPayload<{ include: typeof priceInclude }>;
+
+const formatPrice = (entry: PriceWithDetails, now: Date) => ({
+  id: entry.id,
+  variantId: entry.variantId,
+  variantLabel: entry.variant?.label ?? null,
+  kind: entry.kind,
+  price: Number(entry.price),
+  startsAt: entry.startsAt,
+  endsAt: entry.endsAt,
+  status: getPriceStatus(entry, now),
+  note: entry.note,
+  createdBy: entry.createdBy?.name ?? null,
+  createdAt: entry.createdAt
+});
+
+/**
+ * GET /api/admin/products/:productId/prices
+ * Price history and scheduled prices of a product and its variants, with
+ * the prices in effect now (admin only)
+ */
+export const getProductPrices = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId } = req.params;
+    const now = new Date();
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: {
+        prices: productPricesQuery(now),
+        variants: {
+          orderBy: [{ sortOrder: 'asc' }, { weightKg: 'asc' }],
+          include: { prices: variantPricesQuery(now) }
+        }
+      }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const prices = await prisma.productPrice.findMany({
+      where: { productId },
+      orderBy: [{ startsAt: 'desc' }, { createdAt: 'desc' }],
+      include: priceInclude
+    });
+
+    res.json({
+      success: true,
+      data: {
+        current: {
+          ...resolveEffectivePrice(product.price, product.prices, now),
+          variants: product.variants.map(variant => ({
+            id: variant.id,
+            label: variant.label,
+            ...resolveEffectivePrice(variant.price, variant.prices, now)
+          }))
+        },
+        prices: prices.map(entry => formatPrice(entry, now))
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching product prices:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch product prices'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/products/:productId/prices
+ * Change the regular price now or from a future date, or schedule a sale
+ * price between two dates. Products with variants are priced per variant
+ * (admin only)
+ */
+export const createProductPrice = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId } = req.params;
+    const { kind, price, variantId, note } = req.body;
+    const now = new Date();
+    const startsAt = req.body.startsAt ? new Date(req.body.startsAt) : now;
+    const endsAt = req.body.endsAt ? new Date(req.body.endsAt) : null;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: { variants: { select: { id: true } } }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (product.variants.length > 0 && !variantId) {
+      return res.status(400).json({
+        success: false,
+        message: 'This product is priced per size; choose a variant'
+      });
+    }
+
+    if (variantId && !product.variants.some(variant => variant.id === variantId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Variant not found'
+      });
+    }
+
+    if (req.body.startsAt && startsAt < now) {
+      return res.status(400).json({
+        success: false,
+        message: 'A price cannot start in the past'
+      });
+    }
+
+    const createdById = (req as any).user.id;
+
+    if (kind === 'SALE') {
+      if (!endsAt) {
+        return res.status(400).json({
+          success: false,
+          message: 'A sale needs an end date'
+        });
+      }
+
+      const otherSales = await prisma.productPrice.findMany({
+        where: { productId, variantId: variantId || null, kind: 'SALE', endsAt: { gt: now } },
+        select: { startsAt: true, endsAt: true }
+      });
+      const scheduleCheck = checkSaleSchedule(otherSales, startsAt, endsAt, now);
+      if (!scheduleCheck.valid) {
+        return res.status(400).json({
+          success: false,
+          message: scheduleCheck.error
+        });
+      }
+
+      const sale = await prisma.productPrice.create({
+        data: { productId, variantId: variantId || null, kind: 'SALE', price, startsAt, endsAt, note: note || null, createdById },
+        include: priceInclude
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Sale scheduled successfully',
+        data: formatPrice(sale, now)
+      });
+    }
+
+    if (endsAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'A regular price runs until the next regular price; only sales have an end date'
+      });
+    }
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const created = await setRegularPrice(tx, {
+        productId,
+        variantId: variantId || null,
+        price,
+        startsAt,
+        note: note || null,
+        createdById
+      }, now);
+
+      return tx.productPrice.findUniqueOrThrow({
+        where: { id: created.id },
+        include: priceInclude
+      });
+    });
+
+    res.status(201).json({
+      success: true,
+      message: startsAt > now ? 'Price change scheduled successfully' : 'Price updated successfully',
+      data: formatPrice(entry, now)
+    });
+
+  } catch (error) {
+    console.error('Error creating product price:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create product price'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/products/:productId/prices/:priceId
+ * Cancel a scheduled price, or end a running sale now. Prices that have
+ * taken effect stay in the history (admin only)
+ */
+export const deleteProductPrice = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId, priceId } = req.params;
+    const now = new Date();
+
+    const entry = await prisma.productPrice.findFirst({
+      where: { id: priceId, productId }
+    });
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Price not found'
+      });
+    }
+
+    const status = getPriceStatus(entry, now);
+
+    if (status === 'active' && entry.kind === 'SALE') {
+      await prisma.productPrice.update({
+        where: { id: priceId },
+        data: { endsAt: now }
+      });
+
+      return res.json({
+        success: true,
+        message: 'Sale ended successfully'
+      });
+    }
+
+    if (status !== 'scheduled') {
+      return res.status(400).json({
+        success: false,
+        message: 'Prices that have taken effect are kept in the price history'
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.productPrice.delete({ where: { id: priceId } });
+
+      // The regular price before it runs on in its place
+      if (entry.kind === 'REGULAR') {
+        const others = await tx.productPrice.findMany({
+          where: { productId, variantId: entry.variantId, kind: 'REGULAR' },
+          select: { id: true, startsAt: true, endsAt: true }
+        });
+        const extend = planRegularPriceRemoval(others, entry);
+        if (extend) {
+          await tx.productPrice.update({
+            where: { id: extend.id },
+            data: { endsAt: extend.endsAt }
+          });
+        }
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Scheduled price cancelled successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting product price:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete product price'
+    });
+  }
+};
+
+// Validation middleware
+export const validateProductId = [
+  param('productId')
+    .isString()
+    .withMessage('Invalid product ID')
+];
+
+export const validatePriceId = [
+  ...validateProductId,
+  param('priceId')
+    .isString()
+    .withMessage('Invalid price ID')
+];
+
+export const validateCreateProductPrice = [
+  ...validateProductId,
+  body('kind')
+    .optional()
+    .isIn(['REGULAR', 'SALE'])
+    .withMessage('Kind must be REGULAR or SALE'),
+  body('price')
+    .isFloat({ min: 0 })
+    .withMessage('Price must be a non-negative number')
+    .toFloat(),
+  body('variantId')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Invalid variant ID'),
+  body('startsAt')
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('Start must be a valid date and time'),
+  body('endsAt')
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('End must be a valid date and time'),
+  body('note')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Note must be less than 200 characters')
+];
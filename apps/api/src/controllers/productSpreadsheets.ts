@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { query, validationResult } from 'express-validator';
+import {
+  getSpreadsheetFormat,
+  parseProductRows,
+  planProductImport,
+  productsToRows,
+  readSpreadsheet,
+  SpreadsheetFormat,
+  writeSpreadsheet
+} from '../utils/productSpreadsheet';
+import { toProductAttributeData } from '../utils/productAttributes';
+import { refreshProductSearchText } from '../utils/productSearch';
+import { setRegularPrice } from '../utils/productPricing';
+
+const prisma = new PrismaClient();
+
+const CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * POST /api/admin/products/import
+ * Create or update products by SKU from a CSV or XLSX file; ?dryRun=true only validates (admin only)
+ */
+export const importProducts = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const format = getSpreadsheetFormat(req.file.originalname);
+    if (!format) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload a .csv or .xlsx file'
+      });
+    }
+
+    let table: string[][];
+    try {
+      table = await readSpreadsheet(req.file.buffer, format);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: `Could not read the ${format.toUpperCase()} file`
+      });
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    const parsed = parseProductRows(table);
+
+    const existingProducts = await prisma.product.findMany({
+      where: { sku: { in: parsed.rows.map(row => row.sku) } },
+      select: { id: true, sku: true, price: true }
+    });
+    const existingBySku = new Map(existingProducts.map(product => [product.sku!, product]));
+
+    const plan = planProductImport(parsed.rows, new Set(existingBySku.keys()), parsed.errors);
+
+    const summary = {
+      dryRun,
+      created: plan.create.length,
+      updated: plan.update.length,
+      errors: plan.errors,
+      rows: [
+        ...plan.create.map(row => ({ row: row.row, sku: row.sku, action: 'create' as const })),
+        ...plan.update.map(row => ({ row: row.row, sku: row.sku, action: 'update' as const }))
+      ].sort((a, b) => a.row - b.row)
+    };
+
+    if (dryRun) {
+      return res.json({
+        success: true,
+        data: summary
+      });
+    }
+
+    // All or nothing, so a fixed file can simply be uploaded again
+    if (plan.errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'The file has errors. Nothing was imported.',
+        data: summary
+      });
+    }
+
+    // Large catalogs take longer than the default interactive transaction timeout
+    await prisma.$transaction(async (tx) => {
+      const productIds: string[] = [];
+
+      for (const row of plan.create) {
+        const created = await tx.product.create({
+          data: {
+            ...row.data,
+            sku: row.sku,
+            name_en: row.data.name_en!,
+            price: row.data.price!,
+            ...toProductAttributeData(row.attributes),
+            metadata: {}
+          }
+        });
+        productIds.push(created.id);
+      }
+
+      for (const row of plan.update) {
+        const product = existingBySku.get(row.sku)!;
+        const { price, ...data } = row.data;
+
+        // Price changes are recorded in the price history
+        if (price !== undefined && price !== Number(product.price)) {
+          await setRegularPrice(tx, {
+            productId: product.id,
+            price,
+            startsAt: new Date(),
+            note: 'Spreadsheet import',
+            createdById: (req as any).user?.id
+          });
+        }
+
+        await tx.product.update({
+          where: { id: product.id },
+          data: {
+            ...data,
+            // Blank attribute cells are left out, so the current values are kept
+            ...toProductAttributeData(row.attributes)
+          }
+        });
+        productIds.push(product.id);
+      }
+
+      await refreshProductSearchText(tx, productIds);
+    }, { timeout: 60000 });
+
+    res.json({
+      success: true,
+      message: `Imported ${plan.create.length} new and ${plan.update.length} updated products`,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('Error importing products:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import products'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/products/export
+ * Download every product in the import format (admin only)
+ */
+export const exportProducts = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const format = (req.query.format as SpreadsheetFormat) || 'csv';
+
+    const products = await prisma.product.findMany({
+      orderBy: [{ sku: 'asc' }, { name_en: 'asc' }]
+    });
+
+    const file = await writeSpreadsheet(productsToRows(products), format);
+    const filename = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(file);
+
+  } catch (error) {
+    console.error('Error exporting products:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export products'
+    });
+  }
+};
+
+// Validation middleware
+export const validateImportProducts = [
+  query('dryRun')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('dryRun must be true or false')
+];
+
+export const validateExportProducts = [
+  query('format')
+    .optional()
+    .isIn(['csv', 'xlsx'])
+    .withMessage('Format must be csv or xlsx')
+];
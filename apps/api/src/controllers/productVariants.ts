@@ -0,0 +1,363 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { body, param, validationResult } from 'express-validator';
+import { formatProductVariant, moveProductHistoryToVariant } from '../utils/productVariants';
+import { refreshProductSearchText } from '../utils/productSearch';
+import { setRegularPrice } from '../utils/productPricing';
+
+const prisma = new PrismaClient();
+
+const variantInclude = {
+  _count: {
+    select: { stockEntries: true, orderItems: true, purchaseOrderItems: true }
+  }
+} satisfies Prisma.ProductVariantInclude;
+
+type VariantWithCounts = Prisma.ProductVariantGetPayload<{ include: typeof variantInclude }>;
+
+const formatVariant = (variant: VariantWithCounts) => ({
+  ...formatProductVariant(variant),
+  reserved: variant.reserved,
+  // Variants with history can be disabled but not deleted
+  hasHistory: variant._count.stockEntries + variant._count.orderItems + variant._count.purchaseOrderItems > 0,
+  createdAt: variant.createdAt,
+  updatedAt: variant.updatedAt
+});
+
+const isSkuTaken = async (sku: string, exceptVariantId?: string): Promise<boolean> => {
+  const existing = await prisma.productVariant.findFirst({
+    where: { sku, ...(exceptVariantId && { id: { not: exceptVariantId } }) },
+    select: { id: true }
+  });
+  return !!existing;
+};
+
+/**
+ * GET /api/admin/products/:productId/variants
+ * List a product's variants, including disabled ones (admin only)
+ */
+export const getProductVariants = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId } = req.params;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const variants = await prisma.productVariant.findMany({
+      where: { productId },
+      orderBy: [{ sortOrder: 'asc' }, { weightKg: 'asc' }],
+      include: variantInclude
+    });
+
+    res.json({
+      success: true,
+      data: variants.map(formatVariant)
+    });
+
+  } catch (error) {
+    console.error('Error fetching product variants:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch product variants'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/products/:productId/variants
+ * Add a size to a product. The first variant takes over the product's
+ * existing stock, orders, purchase orders, prices and tiers (admin only)
+ */
+export const createProductVariant = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId } = req.params;
+    const { label, sku, price, weightKg, disabled, sortOrder } = req.body;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, stockOnHand: true, reserved: true, _count: { select: { variants: true } } }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (sku && await isSkuTaken(sku)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A variant with this SKU already exists'
+      });
+    }
+
+    const variant = await prisma.$transaction(async (tx) => {
+      const created = await tx.productVariant.create({
+        data: {
+          productId,
+          label,
+          sku: sku || null,
+          price,
+          weightKg: weightKg ?? null,
+          disabled: disabled ?? false,
+          sortOrder: sortOrder ?? product._count.variants
+        }
+      });
+
+      const otherVariants = await tx.productVariant.count({
+        where: { productId, id: { not: created.id } }
+      });
+      if (otherVariants === 0) {
+        await moveProductHistoryToVariant(tx, product, { productId, variantId: created.id });
+      }
+      await refreshProductSearchText(tx, [productId]);
+
+      return tx.productVariant.findUniqueOrThrow({
+        where: { id: created.id },
+        include: variantInclude
+      });
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Variant created successfully',
+      data: formatVariant(variant)
+    });
+
+  } catch (error) {
+    console.error('Error creating product variant:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create product variant'
+    });
+  }
+};
+
+/**
+ * PUT /api/admin/products/:productId/variants/:variantId
+ * Update a variant's label, SKU, price, weight or visibility (admin only)
+ */
+export const updateProductVariant = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId, variantId } = req.params;
+
+    const existingVariant = await prisma.productVariant.findFirst({
+      where: { id: variantId, productId }
+    });
+
+    if (!existingVariant) {
+      return res.status(404).json({
+        success: false,
+        message: 'Variant not found'
+      });
+    }
+
+    if (req.body.sku && await isSkuTaken(req.body.sku, variantId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A variant with this SKU already exists'
+      });
+    }
+
+    // Stock levels follow the stock ledger and cannot be edited directly
+    const updateData: Prisma.ProductVariantUpdateInput = {};
+
+    if (req.body.label !== undefined) updateData.label = req.body.label;
+    if (req.body.sku !== undefined) updateData.sku = req.body.sku || null;
+    if (req.body.weightKg !== undefined) updateData.weightKg = req.body.weightKg;
+    if (req.body.disabled !== undefined) updateData.disabled = req.body.disabled;
+    if (req.body.sortOrder !== undefined) updateData.sortOrder = req.body.sortOrder;
+
+    const variant = await prisma.$transaction(async (tx) => {
+      // Price changes are recorded in the price history
+      if (req.body.price !== undefined && req.body.price !== Number(existingVariant.price)) {
+        await setRegularPrice(tx, {
+          productId: existingVariant.productId,
+          variantId,
+          price: req.body.price,
+          startsAt: new Date(),
+          createdById: (req as any).user?.id
+        });
+      }
+
+      return tx.productVariant.update({
+        where: { id: variantId },
+        data: updateData,
+        include: variantInclude
+      });
+    });
+    // Size labels and SKUs are searchable
+    if (updateData.label !== undefined || updateData.sku !== undefined) {
+      await refreshProductSearchText(prisma, [variant.productId]);
+    }
+
+    res.json({
+      success: true,
+      message: 'Variant updated successfully',
+      data: formatVariant(variant)
+    });
+
+  } catch (error) {
+    console.error('Error updating product variant:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update product variant'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/products/:productId/variants/:variantId
+ * Delete a variant with no stock, order or purchase order history (admin only)
+ */
+export const deleteProductVariant = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId, variantId } = req.params;
+
+    const existingVariant = await prisma.productVariant.findFirst({
+      where: { id: variantId, productId },
+      include: variantInclude
+    });
+
+    if (!existingVariant) {
+      return res.status(404).json({
+        success: false,
+        message: 'Variant not found'
+      });
+    }
+
+    if (formatVariant(existingVariant).hasHistory) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete a variant with stock or order history. Disable it instead.'
+      });
+    }
+
+    await prisma.productVariant.delete({
+      where: { id: variantId }
+    });
+    await refreshProductSearchText(prisma, [productId]);
+
+    res.json({
+      success: true,
+      message: 'Variant deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting product variant:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete product variant'
+    });
+  }
+};
+
+// Validation middleware
+const variantFieldValidators = [
+  body('sku')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('SKU must be less than 100 characters'),
+  body('weightKg')
+    .optional({ nullable: true })
+    .isFloat({ gt: 0, max: 1000 })
+    .withMessage('weightKg must be a positive number of kilograms')
+    .toFloat(),
+  body('disabled')
+    .optional()
+    .isBoolean()
+    .withMessage('disabled must be a boolean'),
+  body('sortOrder')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Sort order must be a non-negative integer')
+    .toInt()
+];
+
+export const validateProductId = [
+  param('productId')
+    .isString()
+    .withMessage('Invalid product ID')
+];
+
+export const validateVariantId = [
+  ...validateProductId,
+  param('variantId')
+    .isString()
+    .withMessage('Invalid variant ID')
+];
+
+export const validateCreateProductVariant = [
+  ...validateProductId,
+  body('label')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Label is required and must be less than 50 characters'),
+  body('price')
+    .isFloat({ min: 0 })
+    .withMessage('Price must be a non-negative number')
+    .toFloat(),
+  ...variantFieldValidators
+];
+
+export const validateUpdateProductVariant = [
+  ...validateVariantId,
+  body('label')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Label must be between 1 and 50 characters'),
+  body('price')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Price must be a non-negative number')
+    .toFloat(),
+  ...variantFieldValidators
+];
@@ -0,0 +1,706 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient, PurchaseOrderStatus } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import {
+  checkPurchaseOrderLines,
+  getOutstandingQuantity,
+  getPurchaseOrderTotal,
+  OPEN_PURCHASE_ORDER_STATUSES,
+  PurchaseOrderLine,
+  receivePurchaseOrder
+} from '../utils/purchaseOrders';
+
+const prisma = new PrismaClient();
+
+const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['DRAFT', 'ORDERED', 'PARTIALLY_RECEIVED', 'RECEIVED'];
+
+const productSelect = { id: true, name_en: true, sku: true } satisfies Prisma.ProductSelect;
+
+const variantSelect = { id: true, label: true, sku: true } satisfies Prisma.ProductVariantSelect;
+
+const receiptInclude = {
+  product: { select: productSelect },
+  variant: { select: variantSelect },
+  actor: { select: { id: true, name: true } }
+} satisfies Prisma.StockEntryInclude;
+
+const purchaseOrderInclude = {
+  supplier: { select: { id: true, name: true, isActive: true } },
+  createdBy: { select: { id: true, name: true } },
+  items: {
+    include: { product: { select: productSelect }, variant: { select: variantSelect } },
+    orderBy: [{ product: { name_en: 'asc' } }, { variant: { sortOrder: 'asc' } }]
+  }
+} satisfies Prisma.PurchaseOrderInclude;
+
+type PurchaseOrderWithRelations = Prisma.PurchaseOrderGetPayload<{ include: typeof purchaseOrderInclude }>;
+type ReceiptEntry = Prisma.StockEntryGetPayload<{ include: typeof receiptInclude }>;
+
+const formatReceipt = (entry: ReceiptEntry) => ({
+  id: entry.id,
+  purchaseOrderId: entry.purchaseOrderId,
+  product: entry.product,
+  variant: entry.variant,
+  quantity: entry.quantity,
+  unitCost: Number(entry.purchasePrice),
+  note: entry.note,
+  receivedBy: entry.actor,
+  receivedAt: entry.createdAt
+});
+
+const formatPurchaseOrder = (purchaseOrder: PurchaseOrderWithRelations, receipts?: ReceiptEntry[]) => {
+  const items = purchaseOrder.items.map(item => ({
+    id: item.id,
+    productId: item.productId,
+    product: item.product,
+    variantId: item.variantId,
+    variant: item.variant,
+    quantity: item.quantity,
+    receivedQuantity: item.receivedQuantity,
+    outstandingQuantity: getOutstandingQuantity(item),
+    unitCost: Number(item.unitCost)
+  }));
+
+  return {
+    id: purchaseOrder.id,
+    status: purchaseOrder.status,
+    reference: purchaseOrder.reference,
+    notes: purchaseOrder.notes,
+    expectedAt: purchaseOrder.expectedAt,
+    orderedAt: purchaseOrder.orderedAt,
+    receivedAt: purchaseOrder.receivedAt,
+    createdAt: purchaseOrder.createdAt,
+    updatedAt: purchaseOrder.updatedAt,
+    supplier: purchaseOrder.supplier,
+    createdBy: purchaseOrder.createdBy,
+    items,
+    total: getPurchaseOrderTotal(items),
+    receivedTotal: getPurchaseOrderTotal(items.map(item => ({ quantity: item.receivedQuantity, unitCost: item.unitCost }))),
+    ...(receipts && { receipts: receipts.map(formatReceipt) })
+  };
+};
+
+const parseLines = (items: any[]): PurchaseOrderLine[] => items.map(item => ({
+  productId: item.productId,
+  variantId: item.variantId || null,
+  quantity: parseInt(item.quantity, 10),
+  unitCost: parseFloat(item.unitCost)
+}));
+
+/**
+ * Check purchase order lines and that their products exist. Products with
+ * variants are bought by size, so their lines must name one of its variants.
+ * Returns an error message, or null when the lines can be saved.
+ */
+const checkLines = async (lines: PurchaseOrderLine[]): Promise<string | null> => {
+  const lineError = checkPurchaseOrderLines(lines);
+  if (lineError) return lineError;
+
+  const productIds = [...new Set(lines.map(line => line.productId))];
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, name_en: true, variants: { select: { id: true } } }
+  });
+  if (products.length !== productIds.length) {
+    return 'One or more products were not found';
+  }
+
+  for (const line of lines) {
+    const product = products.find(p => p.id === line.productId)!;
+    if (product.variants.length === 0 && line.variantId) {
+      return `${product.name_en} does not come in different sizes`;
+    }
+    if (product.variants.length > 0 && !product.variants.some(variant => variant.id === line.variantId)) {
+      return `Choose a size for ${product.name_en}`;
+    }
+  }
+
+  return null;
+};
+
+const findPurchaseOrder = (id: string) => prisma.purchaseOrder.findUnique({
+  where: { id },
+  include: purchaseOrderInclude
+});
+
+/**
+ * GET /api/admin/purchase-orders
+ * List purchase orders, newest first (admin only)
+ */
+export const getPurchaseOrders = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { status, supplierId } = req.query;
+
+    const where: Prisma.PurchaseOrderWhereInput = {};
+
+    if (status === 'open') {
+      where.status = { in: OPEN_PURCHASE_ORDER_STATUSES };
+    } else if (status && status !== 'all') {
+      where.status = status as PurchaseOrderStatus;
+    }
+
+    if (supplierId) {
+      where.supplierId = supplierId as string;
+    }
+
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      where,
+      include: purchaseOrderInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: purchaseOrders.map(purchaseOrder => formatPurchaseOrder(purchaseOrder)),
+      count: purchaseOrders.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch purchase orders'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/purchase-orders/receipts
+ * Receiving history across purchase orders, newest first (admin only)
+ */
+export const getPurchaseOrderReceipts = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const { supplierId } = req.query;
+
+    const where: Prisma.StockEntryWhereInput = {
+      purchaseOrderId: { not: null },
+      ...(supplierId && { purchaseOrder: { supplierId: supplierId as string } })
+    };
+
+    const [receipts, total] = await Promise.all([
+      prisma.stockEntry.findMany({
+        where,
+        include: {
+          ...receiptInclude,
+          purchaseOrder: {
+            select: { id: true, reference: true, supplier: { select: { id: true, name: true } } }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.stockEntry.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: receipts.map(receipt => ({
+        ...formatReceipt(receipt),
+        purchaseOrder: receipt.purchaseOrder
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching purchase order receipts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch receiving history'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/purchase-orders/:id
+ * Get a purchase order with its receipts (admin only)
+ */
+export const getPurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const [purchaseOrder, receipts] = await Promise.all([
+      findPurchaseOrder(id),
+      prisma.stockEntry.findMany({
+        where: { purchaseOrderId: id },
+        include: receiptInclude,
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+
+    if (!purchaseOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: formatPurchaseOrder(purchaseOrder, receipts)
+    });
+
+  } catch (error) {
+    console.error('Error fetching purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch purchase order'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/purchase-orders
+ * Create a draft purchase order (admin only)
+ */
+export const createPurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { supplierId, reference, notes, expectedAt } = req.body;
+    const lines = parseLines(req.body.items);
+
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: supplierId }
+    });
+
+    if (!supplier || !supplier.isActive) {
+      return res.status(400).json({
+        success: false,
+        message: 'Supplier not found or inactive'
+      });
+    }
+
+    const lineError = await checkLines(lines);
+    if (lineError) {
+      return res.status(400).json({
+        success: false,
+        message: lineError
+      });
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.create({
+      data: {
+        supplierId,
+        reference: reference || null,
+        notes: notes || null,
+        expectedAt: expectedAt ? new Date(expectedAt) : null,
+        createdById: (req as any).user.id,
+        items: {
+          create: lines
+        }
+      },
+      include: purchaseOrderInclude
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Purchase order created successfully',
+      data: formatPurchaseOrder(purchaseOrder)
+    });
+
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create purchase order'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/purchase-orders/:id
+ * Update a purchase order. Supplier and lines can only change while it is a draft (admin only)
+ */
+export const updatePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+
+    const existingOrder = await prisma.purchaseOrder.findUnique({
+      where: { id }
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (existingOrder.status === 'RECEIVED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Received purchase orders cannot be changed'
+      });
+    }
+
+    const changesLines = req.body.supplierId !== undefined || req.body.items !== undefined;
+    if (changesLines && existingOrder.status !== 'DRAFT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Supplier and items can only be changed while the purchase order is a draft'
+      });
+    }
+
+    if (req.body.supplierId !== undefined) {
+      const supplier = await prisma.supplier.findUnique({
+        where: { id: req.body.supplierId }
+      });
+
+      if (!supplier || !supplier.isActive) {
+        return res.status(400).json({
+          success: false,
+          message: 'Supplier not found or inactive'
+        });
+      }
+    }
+
+    const lines = req.body.items !== undefined ? parseLines(req.body.items) : null;
+    if (lines) {
+      const lineError = await checkLines(lines);
+      if (lineError) {
+        return res.status(400).json({
+          success: false,
+          message: lineError
+        });
+      }
+    }
+
+    const updateData: Prisma.PurchaseOrderUncheckedUpdateInput = {};
+
+    if (req.body.supplierId !== undefined) updateData.supplierId = req.body.supplierId;
+    if (req.body.reference !== undefined) updateData.reference = req.body.reference || null;
+    if (req.body.notes !== undefined) updateData.notes = req.body.notes || null;
+    if (req.body.expectedAt !== undefined) updateData.expectedAt = req.body.expectedAt ? new Date(req.body.expectedAt) : null;
+
+    const purchaseOrder = await prisma.$transaction(async (tx) => {
+      // Draft lines are replaced wholesale; nothing has been received against them
+      if (lines) {
+        await tx.purchaseOrderItem.deleteMany({ where: { purchaseOrderId: id } });
+        await tx.purchaseOrderItem.createMany({
+          data: lines.map(line => ({ ...line, purchaseOrderId: id }))
+        });
+      }
+
+      return tx.purchaseOrder.update({
+        where: { id },
+        data: updateData,
+        include: purchaseOrderInclude
+      });
+    });
+
+    res.json({
+      success: true,
+      message: 'Purchase order updated successfully',
+      data: formatPurchaseOrder(purchaseOrder)
+    });
+
+  } catch (error) {
+    console.error('Error updating purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update purchase order'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/purchase-orders/:id/order
+ * Mark a draft purchase order as sent to the supplier (admin only)
+ */
+export const placePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingOrder = await prisma.purchaseOrder.findUnique({
+      where: { id }
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    // Claim the draft so a double submit cannot order it twice
+    const placed = await prisma.purchaseOrder.updateMany({
+      where: { id, status: 'DRAFT' },
+      data: { status: 'ORDERED', orderedAt: new Date() }
+    });
+
+    if (placed.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot order a ${existingOrder.status} purchase order`
+      });
+    }
+
+    const purchaseOrder = await findPurchaseOrder(id);
+
+    res.json({
+      success: true,
+      message: 'Purchase order marked as ordered',
+      data: formatPurchaseOrder(purchaseOrder!)
+    });
+
+  } catch (error) {
+    console.error('Error placing purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to place purchase order'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/purchase-orders/:id/receive
+ * Receive a delivery against a purchase order, adding the bags to stock (admin only)
+ */
+export const receivePurchaseOrderDelivery = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+    const { note } = req.body;
+    const receipt = req.body.items.map((item: any) => ({
+      itemId: item.itemId,
+      quantity: parseInt(item.quantity, 10)
+    }));
+
+    const result = await prisma.$transaction(tx => receivePurchaseOrder(tx, id, receipt, {
+      actorId: (req as any).user.id,
+      note
+    }));
+
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    const [purchaseOrder, receipts] = await Promise.all([
+      findPurchaseOrder(id),
+      prisma.stockEntry.findMany({
+        where: { purchaseOrderId: id },
+        include: receiptInclude,
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Delivery received successfully',
+      data: formatPurchaseOrder(purchaseOrder!, receipts)
+    });
+
+  } catch (error) {
+    console.error('Error receiving purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to receive delivery'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/purchase-orders/:id
+ * Delete a draft purchase order (admin only)
+ */
+export const deletePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingOrder = await prisma.purchaseOrder.findUnique({
+      where: { id }
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (existingOrder.status !== 'DRAFT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only draft purchase orders can be deleted'
+      });
+    }
+
+    await prisma.purchaseOrder.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Purchase order deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete purchase order'
+    });
+  }
+};
+
+// Validation middleware
+const purchaseOrderFieldValidators = [
+  body('reference')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Reference must be less than 100 characters'),
+  body('notes')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must be less than 1000 characters'),
+  body('expectedAt')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Expected date must be a valid date')
+];
+
+const purchaseOrderLineValidators = [
+  body('items.*.productId')
+    .isString()
+    .withMessage('Product ID is required'),
+  body('items.*.variantId')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Invalid variant ID'),
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a positive integer'),
+  body('items.*.unitCost')
+    .isFloat({ min: 0 })
+    .withMessage('Unit cost must be a non-negative number')
+];
+
+export const validatePurchaseOrderId = [
+  param('id')
+    .isString()
+    .withMessage('Invalid purchase order ID')
+];
+
+export const validatePurchaseOrderQuery = [
+  query('status')
+    .optional()
+    .isIn(['all', 'open', ...PURCHASE_ORDER_STATUSES])
+    .withMessage('Invalid purchase order status'),
+  query('supplierId')
+    .optional()
+    .isString()
+    .withMessage('Invalid supplier ID')
+];
+
+export const validateReceiptQuery = [
+  query('supplierId')
+    .optional()
+    .isString()
+    .withMessage('Invalid supplier ID'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+];
+
+export const validateCreatePurchaseOrder = [
+  body('supplierId')
+    .isString()
+    .withMessage('Supplier is required'),
+  body('items')
+    .isArray({ min: 1 })
+    .withMessage('Items must be a non-empty array'),
+  ...purchaseOrderLineValidators,
+  ...purchaseOrderFieldValidators
+];
+
+export const validateUpdatePurchaseOrder = [
+  ...validatePurchaseOrderId,
+  body('supplierId')
+    .optional()
+    .isString()
+    .withMessage('Invalid supplier ID'),
+  body('items')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Items must be a non-empty array'),
+  ...purchaseOrderLineValidators,
+  ...purchaseOrderFieldValidators
+];
+
+export const validateReceivePurchaseOrder = [
+  ...validatePurchaseOrderId,
+  body('items')
+    .isArray({ min: 1 })
+    .withMessage('Items must be a non-empty array'),
+  body('items.*.itemId')
+    .isString()
+    .withMessage('Purchase order item ID is required'),
+  body('items.*.quantity')
+    .isInt({ min: 0 })
+    .withMessage('Quantity must be a non-negative integer'),
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note must be less than 500 characters')
+];
@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { query, validationResult } from 'express-validator';
+import { buildMarginReport, MARGIN_STATUSES, MarginOrder, MarginPeriod } from '../utils/margins';
+import { getCostingMethod } from '../utils/inventoryCosting';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_ORDERS = 100;
+
+/**
+ * GET /api/admin/reports/margins
+ * Gross margin per period, product and order for orders placed in a date range (admin only)
+ */
+export const getMarginReport = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+    const period = (req.query.period as MarginPeriod) || 'day';
+
+    if (from > to) {
+      return res.status(400).json({
+        success: false,
+        message: 'Start date must be before end date'
+      });
+    }
+
+    const orders = await prisma.order.findMany({
+      where: {
+        status: { in: MARGIN_STATUSES },
+        createdAt: { gte: from, lte: to }
+      },
+      include: {
+        items: {
+          include: {
+            product: { select: { name_en: true } },
+            refundItems: {
+              include: { refund: { select: { restocked: true } } }
+            }
+          }
+        },
+        refunds: { select: { amount: true } }
+      }
+    });
+
+    const marginOrders: MarginOrder[] = orders.map(order => ({
+      id: order.id,
+      createdAt: order.createdAt,
+      discountAmount: Number(order.discountAmount),
+      refundedAmount: order.refunds.reduce((sum, refund) => sum + Number(refund.amount), 0),
+      items: order.items.map(item => ({
+        productId: item.productId,
+        productName: item.product.name_en,
+        unitPrice: Number(item.unitPrice),
+        quantity: item.quantity,
+        costAmount: item.costAmount === null ? null : Number(item.costAmount),
+        refundedQuantity: item.refundItems.reduce((sum, refundItem) => sum + refundItem.quantity, 0),
+        restockedQuantity: item.refundItems
+          .filter(refundItem => refundItem.refund.restocked)
+          .reduce((sum, refundItem) => sum + refundItem.quantity, 0),
+        refundedAmount: item.refundItems.reduce((sum, refundItem) => sum + Number(refundItem.amount), 0)
+      }))
+    }));
+
+    const report = buildMarginReport(marginOrders, period);
+
+    res.json({
+      success: true,
+      data: {
+        ...report,
+        // Newest orders only; totals, periods and products cover the whole range
+        orders: report.orders.slice(0, MAX_REPORT_ORDERS),
+        from,
+        to,
+        period,
+        costingMethod: getCostingMethod()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error building margin report:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to build margin report'
+    });
+  }
+};
+
+// Validation middleware
+export const validateMarginReportQuery = [
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid date'),
+  query('period')
+    .optional()
+    .isIn(['day', 'week', 'month'])
+    .withMessage('Period must be day, week or month')
+];
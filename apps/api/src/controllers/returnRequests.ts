@@ -0,0 +1,634 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient, ReturnRequestStatus } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import { AuthRequest } from '../middleware/auth';
+import { deleteFiles, getRelativeStoragePath } from '../middleware/upload';
+import { canTransitionReturn, checkReturnRequest, getOrderReturnState } from '../utils/returns';
+import {
+  getOrderRefundState,
+  lockOrderForRefund,
+  planRefund,
+  recordRefund,
+  RefundOrderState,
+  settleRefund
+} from '../utils/refunds';
+import { planReturnRestock, setOrderStatus } from '../utils/orderLifecycle';
+import { restockOrderItems } from '../utils/inventoryCosting';
+
+const prisma = new PrismaClient();
+
+const RETURN_REASONS = ['DAMAGED_BAG', 'WRONG_ITEM', 'QUALITY_ISSUE', 'PESTS', 'OTHER'];
+
+const returnRequestInclude = {
+  items: {
+    include: {
+      orderItem: {
+        select: {
+          id: true,
+          quantity: true,
+          unitPrice: true,
+          product: {
+            select: { id: true, name_en: true, name_my: true, images: true }
+          },
+          variant: {
+            select: { id: true, label: true, sku: true }
+          }
+        }
+      }
+    }
+  },
+  order: {
+    select: { id: true, status: true, paymentType: true, totalAmount: true }
+  },
+  user: {
+    select: { id: true, name: true, email: true }
+  }
+} satisfies Prisma.ReturnRequestInclude;
+
+// Thrown inside the receive transaction so the status change is rolled back
+class ReturnReceiptError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+  }
+}
+
+type ReturnRequestWithRelations = Prisma.ReturnRequestGetPayload<{ include: typeof returnRequestInclude }>;
+
+const formatReturnRequest = (returnRequest: ReturnRequestWithRelations) => ({
+  id: returnRequest.id,
+  orderId: returnRequest.orderId,
+  status: returnRequest.status,
+  reason: returnRequest.reason,
+  note: returnRequest.note,
+  photos: returnRequest.photos,
+  adminNote: returnRequest.adminNote,
+  reviewedAt: returnRequest.reviewedAt,
+  receivedAt: returnRequest.receivedAt,
+  createdAt: returnRequest.createdAt,
+  updatedAt: returnRequest.updatedAt,
+  customer: returnRequest.user,
+  order: {
+    id: returnRequest.order.id,
+    status: returnRequest.order.status,
+    paymentType: returnRequest.order.paymentType,
+    totalAmount: Number(returnRequest.order.totalAmount)
+  },
+  items: returnRequest.items.map(item => ({
+    id: item.id,
+    orderItemId: item.orderItemId,
+    quantity: item.quantity,
+    orderedQuantity: item.orderItem.quantity,
+    unitPrice: Number(item.orderItem.unitPrice),
+    product: item.orderItem.product,
+    variant: item.orderItem.variant
+  }))
+});
+
+// Photo URLs follow the same shape as /api/upload responses
+const getPhotoUrl = (file: Express.Multer.File): string => {
+  const baseUrl = process.env.BASE_URL || 'http://localhost:3001';
+  return `${baseUrl}${getRelativeStoragePath(file.path)}`;
+};
+
+const removeUploadedPhotos = async (req: Request) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  if (files.length > 0) {
+    await deleteFiles(files.map(file => getRelativeStoragePath(file.path)));
+  }
+};
+
+/**
+ * POST /api/orders/:id/returns
+ * Request a return for some or all items of a delivered order (order owner only).
+ * Accepts multipart form data so photos can be attached in the `photos` field.
+ */
+export const createReturnRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await removeUploadedPhotos(req);
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = req.user!.id;
+    const { id: orderId } = req.params;
+    const { reason, note } = req.body;
+    const items = req.body.items.map((item: any) => ({
+      orderItemId: item.orderItemId,
+      quantity: parseInt(item.quantity, 10)
+    }));
+
+    const orderState = await getOrderReturnState(prisma, orderId);
+    if (!orderState || orderState.userId !== userId) {
+      await removeUploadedPhotos(req);
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const error = checkReturnRequest(orderState, items);
+    if (error) {
+      await removeUploadedPhotos(req);
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    const photos = ((req.files as Express.Multer.File[] | undefined) || []).map(getPhotoUrl);
+
+    const returnRequest = await prisma.returnRequest.create({
+      data: {
+        orderId,
+        userId,
+        reason,
+        note: note || null,
+        photos,
+        items: {
+          create: items
+        }
+      },
+      include: returnRequestInclude
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Return request submitted successfully',
+      data: formatReturnRequest(returnRequest)
+    });
+
+  } catch (error) {
+    console.error('Error creating return request:', error);
+    await removeUploadedPhotos(req);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit return request'
+    });
+  }
+};
+
+/**
+ * GET /api/orders/:id/returns
+ * List return requests for one of the customer's orders
+ */
+export const getOrderReturnRequests = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { id: orderId } = req.params;
+
+    const returnRequests = await prisma.returnRequest.findMany({
+      where: { orderId, userId },
+      include: returnRequestInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: returnRequests.map(formatReturnRequest),
+      count: returnRequests.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching return requests:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch return requests'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/returns
+ * Return request queue, oldest first (admin only)
+ */
+export const getReturnRequests = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { status } = req.query;
+
+    const where: Prisma.ReturnRequestWhereInput = {};
+    if (status && status !== 'all') {
+      where.status = status as ReturnRequestStatus;
+    }
+
+    const returnRequests = await prisma.returnRequest.findMany({
+      where,
+      include: returnRequestInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: returnRequests.map(formatReturnRequest),
+      count: returnRequests.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching return requests:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch return requests'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/returns/:id
+ * Get a single return request (admin only)
+ */
+export const getReturnRequest = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id },
+      include: returnRequestInclude
+    });
+
+    if (!returnRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Return request not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: formatReturnRequest(returnRequest)
+    });
+
+  } catch (error) {
+    console.error('Error fetching return request:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch return request'
+    });
+  }
+};
+
+/**
+ * Shared review step for approve/reject
+ */
+const reviewReturnRequest = async (req: Request, res: Response, status: 'APPROVED' | 'REJECTED') => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const { id } = req.params;
+  const { adminNote } = req.body;
+
+  const existingRequest = await prisma.returnRequest.findUnique({
+    where: { id }
+  });
+
+  if (!existingRequest) {
+    return res.status(404).json({
+      success: false,
+      message: 'Return request not found'
+    });
+  }
+
+  if (!canTransitionReturn(existingRequest.status, status)) {
+    return res.status(400).json({
+      success: false,
+      message: `Cannot change return request from ${existingRequest.status} to ${status}`
+    });
+  }
+
+  // Only change the status it was read with, so two admins cannot both review it
+  const { count } = await prisma.returnRequest.updateMany({
+    where: { id, status: existingRequest.status },
+    data: {
+      status,
+      adminNote: adminNote || null,
+      reviewedAt: new Date()
+    }
+  });
+
+  if (count === 0) {
+    return res.status(409).json({
+      success: false,
+      message: 'Return request has already been updated; reload it and try again'
+    });
+  }
+
+  const returnRequest = await prisma.returnRequest.findUniqueOrThrow({
+    where: { id },
+    include: returnRequestInclude
+  });
+
+  res.json({
+    success: true,
+    message: `Return request ${status === 'APPROVED' ? 'approved' : 'rejected'}`,
+    data: formatReturnRequest(returnRequest)
+  });
+};
+
+/**
+ * PATCH /api/admin/returns/:id/approve
+ * Approve a return request so the customer can send the bags back (admin only)
+ */
+export const approveReturnRequest = async (req: Request, res: Response) => {
+  try {
+    await reviewReturnRequest(req, res, 'APPROVED');
+  } catch (error) {
+    console.error('Error approving return request:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to approve return request'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/returns/:id/reject
+ * Reject a return request with a note for the customer (admin only)
+ */
+export const rejectReturnRequest = async (req: Request, res: Response) => {
+  try {
+    await reviewReturnRequest(req, res, 'REJECTED');
+  } catch (error) {
+    console.error('Error rejecting return request:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reject return request'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/returns/:id/receive
+ * Mark returned bags as received, optionally refunding and restocking them (admin only)
+ */
+export const receiveReturnRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+    const { refund = false, restock = false } = req.body;
+    const actorId = req.user!.id;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existingRequest = await tx.returnRequest.findUnique({
+        where: { id },
+        include: { items: true }
+      });
+
+      if (!existingRequest) {
+        return { status: 404, error: 'Return request not found' };
+      }
+
+      if (!canTransitionReturn(existingRequest.status, 'RECEIVED')) {
+        return { status: 400, error: `Cannot change return request from ${existingRequest.status} to RECEIVED` };
+      }
+
+      // Only change the status it was read with, so a concurrent receipt cannot refund or restock twice
+      const { count } = await tx.returnRequest.updateMany({
+        where: { id, status: existingRequest.status },
+        data: { status: 'RECEIVED', receivedAt: new Date() }
+      });
+
+      if (count === 0) {
+        return { status: 409, error: 'Return request has already been updated; reload it and try again' };
+      }
+
+      // Refunds and restocks are both planned against the locked order's history
+      let refundState: RefundOrderState | null = null;
+      if (refund || restock) {
+        await lockOrderForRefund(tx, existingRequest.orderId);
+        refundState = await getOrderRefundState(tx, existingRequest.orderId);
+        if (!refundState) {
+          throw new ReturnReceiptError('Order not found', 404);
+        }
+      }
+
+      let refundId: string | null = null;
+      let fullyRefunded = false;
+      if (refundState && refund) {
+        const plan = planRefund(refundState, {
+          items: existingRequest.items.map(item => ({ orderItemId: item.orderItemId, quantity: item.quantity }))
+        });
+
+        if (!plan.valid) {
+          throw new ReturnReceiptError(plan.error);
+        }
+
+        const recorded = await recordRefund(tx, existingRequest.orderId, {
+          amount: plan.amount,
+          reason: `Return ${existingRequest.id}: ${existingRequest.reason}`,
+          restocked: restock,
+          items: plan.items.map(item => ({
+            orderItemId: item.orderItemId,
+            quantity: item.quantity,
+            amount: item.amount
+          }))
+        });
+
+        refundId = recorded.id;
+        fullyRefunded = plan.fullyRefunded;
+      }
+
+      // Put returned bags back into inventory, up to what the order still has out
+      if (refundState && restock) {
+        const restockPlan = planReturnRestock(
+          refundState,
+          existingRequest.items.map(item => ({ orderItemId: item.orderItemId, quantity: item.quantity }))
+        );
+
+        if (!restockPlan.valid) {
+          throw new ReturnReceiptError(restockPlan.error);
+        }
+
+        await restockOrderItems(tx, existingRequest.orderId, restockPlan.restock, {
+          type: 'RETURN_RESTOCK',
+          returnRequestId: existingRequest.id,
+          actorId
+        });
+      }
+
+      const order = await tx.order.findUnique({
+        where: { id: existingRequest.orderId },
+        include: {
+          items: {
+            include: {
+              returnItems: {
+                where: { returnRequest: { status: 'RECEIVED' } },
+                select: { quantity: true }
+              }
+            }
+          }
+        }
+      });
+
+      if (!order) {
+        throw new ReturnReceiptError('Order not found', 404);
+      }
+
+      if (fullyRefunded) {
+        await setOrderStatus(tx, {
+          orderId: order.id,
+          fromStatus: order.status,
+          toStatus: 'REFUNDED',
+          actorId,
+          note: `Refunded on receipt of return ${existingRequest.id}`
+        });
+      } else {
+        // The whole order counts as returned once every bag has come back
+        const allReturned = order.items.every(item =>
+          item.returnItems.reduce((sum, returnItem) => sum + returnItem.quantity, 0) >= item.quantity
+        );
+
+        if (allReturned && order.status === 'DELIVERED') {
+          await setOrderStatus(tx, {
+            orderId: order.id,
+            fromStatus: order.status,
+            toStatus: 'RETURNED',
+            actorId,
+            note: `All items received back with return ${existingRequest.id}`
+          });
+        }
+      }
+
+      return { refundId };
+    });
+
+    if ('error' in result) {
+      return res.status(result.status!).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    // Pay out only after the receipt has committed; a failed payout stays on the order to retry
+    const settlement = result.refundId ? await settleRefund(prisma, result.refundId) : null;
+
+    const returnRequest = await prisma.returnRequest.findUniqueOrThrow({
+      where: { id },
+      include: returnRequestInclude
+    });
+
+    res.json({
+      success: true,
+      message: settlement && !settlement.success
+        ? `Return received, but the refund payout failed: ${settlement.error}`
+        : 'Return received successfully',
+      data: formatReturnRequest(returnRequest)
+    });
+
+  } catch (error) {
+    if (error instanceof ReturnReceiptError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Error receiving return request:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to receive return request'
+    });
+  }
+};
+
+// Validation middleware
+export const validateCreateReturnRequest = [
+  param('id')
+    .isString()
+    .withMessage('Invalid order ID'),
+  body('items')
+    // Multipart requests send the items as a JSON string
+    .customSanitizer(value => {
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    })
+    .isArray({ min: 1 })
+    .withMessage('Items must be a non-empty array'),
+  body('items.*.orderItemId')
+    .isString()
+    .withMessage('Order item ID is required'),
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a positive integer'),
+  body('reason')
+    .isIn(RETURN_REASONS)
+    .withMessage(`Reason must be one of: ${RETURN_REASONS.join(', ')}`),
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Note must be less than 1000 characters')
+];
+
+export const validateReturnRequestId = [
+  param('id')
+    .isString()
+    .withMessage('Invalid return request ID')
+];
+
+export const validateReturnRequestQuery = [
+  query('status')
+    .optional()
+    .isIn(['all', 'REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED'])
+    .withMessage('Invalid return request status')
+];
+
+export const validateApproveReturnRequest = [
+  ...validateReturnRequestId,
+  body('adminNote')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Admin note must be less than 1000 characters')
+];
+
+export const validateRejectReturnRequest = [
+  ...validateReturnRequestId,
+  body('adminNote')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('A note explaining the rejection is required')
+];
+
+export const validateReceiveReturnRequest = [
+  ...validateReturnRequestId,
+  body('refund')
+    .optional()
+    .isBoolean()
+    .withMessage('Refund must be a boolean')
+    .toBoolean(),
+  body('restock')
+    .optional()
+    .isBoolean()
+    .withMessage('Restock must be a boolean')
+    .toBoolean()
+];
@@ -0,0 +1,472 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient, ReviewStatus } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import { deleteFiles, getRelativeStoragePath } from '../middleware/upload';
+import {
+  canModerateReview,
+  findReviewableOrderItem,
+  getReviewComment,
+  refreshProductRating,
+  summarizeRatings
+} from '../utils/reviews';
+
+const prisma = new PrismaClient();
+
+const reviewInclude = {
+  product: {
+    select: { id: true, name_en: true, name_my: true, images: true }
+  },
+  user: {
+    select: { id: true, name: true, email: true }
+  },
+  orderItem: {
+    select: { id: true, orderId: true, variant: { select: { id: true, label: true } } }
+  },
+  moderatedBy: {
+    select: { id: true, name: true }
+  }
+} satisfies Prisma.ReviewInclude;
+
+type ReviewWithRelations = Prisma.ReviewGetPayload<{ include: typeof reviewInclude }>;
+
+const formatReview = (review: ReviewWithRelations) => ({
+  id: review.id,
+  productId: review.productId,
+  rating: review.rating,
+  comment_en: review.comment_en,
+  comment_my: review.comment_my,
+  photos: review.photos,
+  status: review.status,
+  moderationNote: review.moderationNote,
+  moderatedAt: review.moderatedAt,
+  moderatedBy: review.moderatedBy,
+  createdAt: review.createdAt,
+  updatedAt: review.updatedAt,
+  customer: review.user,
+  product: review.product,
+  orderId: review.orderItem.orderId,
+  variant: review.orderItem.variant
+});
+
+const publicReviewInclude = {
+  user: { select: { name: true } },
+  orderItem: { select: { variant: { select: { label: true } } } }
+} satisfies Prisma.ReviewInclude;
+
+type PublicReview = Prisma.ReviewGetPayload<{ include: typeof publicReviewInclude }>;
+
+/**
+ * Review as shown to other customers: no email, moderation details or status
+ */
+const formatPublicReview = (review: PublicReview, locale: string) => ({
+  id: review.id,
+  rating: review.rating,
+  comment: getReviewComment(review, locale),
+  comment_en: review.comment_en,
+  comment_my: review.comment_my,
+  photos: review.photos,
+  customerName: review.user.name,
+  variantLabel: review.orderItem.variant?.label || null,
+  createdAt: review.createdAt
+});
+
+// Photo URLs follow the same shape as /api/upload responses
+const getPhotoUrl = (file: Express.Multer.File): string => {
+  const baseUrl = process.env.BASE_URL || 'http://localhost:3001';
+  return `${baseUrl}${getRelativeStoragePath(file.path)}`;
+};
+
+const removeUploadedPhotos = async (req: Request) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  if (files.length > 0) {
+    await deleteFiles(files.map(file => getRelativeStoragePath(file.path)));
+  }
+};
+
+/**
+ * GET /api/products/:id/reviews
+ * Approved reviews of a product, newest first, with its rating summary
+ */
+export const getProductReviews = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id: productId } = req.params;
+    const locale = (req.query.locale as string) || 'en';
+    const page = parseInt((req.query.page as string) || '1', 10);
+    const limit = parseInt((req.query.limit as string) || '10', 10);
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, disabled: true }
+    });
+
+    if (!product || product.disabled) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const where: Prisma.ReviewWhereInput = { productId, status: 'APPROVED' };
+
+    const [reviews, ratings] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        include: publicReviewInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.review.findMany({
+        where,
+        select: { rating: true }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        summary: summarizeRatings(ratings.map(review => review.rating)),
+        reviews: reviews.map(review => formatPublicReview(review, locale))
+      },
+      pagination: {
+        page,
+        limit,
+        total: ratings.length,
+        totalPages: Math.ceil(ratings.length / limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching product reviews:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch reviews'
+    });
+  }
+};
+
+/**
+ * GET /api/products/:id/reviews/mine
+ * The customer's own review of a product, in any status, and whether they
+ * can still write one
+ */
+export const getMyProductReview = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { id: productId } = req.params;
+
+    const review = await prisma.review.findUnique({
+      where: { productId_userId: { productId, userId } },
+      include: reviewInclude
+    });
+
+    const orderItem = review ? null : await findReviewableOrderItem(prisma, userId, productId);
+
+    res.json({
+      success: true,
+      data: {
+        canReview: !review && !!orderItem,
+        review: review ? formatReview(review) : null
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching own review:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch review'
+    });
+  }
+};
+
+/**
+ * POST /api/products/:id/reviews
+ * Review a product the customer has received. Reviews wait for moderation
+ * before they are shown. Accepts multipart form data so photos can be
+ * attached in the `photos` field.
+ */
+export const createReview = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await removeUploadedPhotos(req);
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const userId = (req as any).user.id;
+    const { id: productId } = req.params;
+    const { rating, comment_en, comment_my } = req.body;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, disabled: true }
+    });
+
+    if (!product || product.disabled) {
+      await removeUploadedPhotos(req);
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const existingReview = await prisma.review.findUnique({
+      where: { productId_userId: { productId, userId } },
+      select: { id: true }
+    });
+
+    if (existingReview) {
+      await removeUploadedPhotos(req);
+      return res.status(400).json({
+        success: false,
+        message: 'You have already reviewed this product'
+      });
+    }
+
+    const orderItem = await findReviewableOrderItem(prisma, userId, productId);
+    if (!orderItem) {
+      await removeUploadedPhotos(req);
+      return res.status(403).json({
+        success: false,
+        message: 'Only customers who have received this product can review it'
+      });
+    }
+
+    const photos = ((req.files as Express.Multer.File[] | undefined) || []).map(getPhotoUrl);
+
+    const review = await prisma.review.create({
+      data: {
+        productId,
+        userId,
+        orderItemId: orderItem.id,
+        rating,
+        comment_en: comment_en || null,
+        comment_my: comment_my || null,
+        photos
+      },
+      include: reviewInclude
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Review submitted; it will appear once it has been approved',
+      data: formatReview(review)
+    });
+
+  } catch (error) {
+    console.error('Error creating review:', error);
+    await removeUploadedPhotos(req);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit review'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/reviews
+ * Review moderation queue, oldest first (admin only)
+ */
+export const getReviews = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { status } = req.query;
+
+    const where: Prisma.ReviewWhereInput = {};
+    if (status && status !== 'all') {
+      where.status = status as ReviewStatus;
+    }
+
+    const reviews = await prisma.review.findMany({
+      where,
+      include: reviewInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: reviews.map(formatReview),
+      count: reviews.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch reviews'
+    });
+  }
+};
+
+/**
+ * Shared moderation step for approve/hide. The product rating is refreshed
+ * in the same transaction so it always matches the approved reviews.
+ */
+const moderateReview = async (req: Request, res: Response, status: 'APPROVED' | 'HIDDEN') => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+
+  const { id } = req.params;
+  const { moderationNote } = req.body;
+
+  const existingReview = await prisma.review.findUnique({
+    where: { id }
+  });
+
+  if (!existingReview) {
+    return res.status(404).json({
+      success: false,
+      message: 'Review not found'
+    });
+  }
+
+  if (!canModerateReview(existingReview.status, status)) {
+    return res.status(400).json({
+      success: false,
+      message: `Cannot change review from ${existingReview.status} to ${status}`
+    });
+  }
+
+  const review = await prisma.$transaction(async (tx) => {
+    const updated = await tx.review.update({
+      where: { id },
+      data: {
+        status,
+        moderationNote: moderationNote || null,
+        moderatedById: (req as any).user.id,
+        moderatedAt: new Date()
+      },
+      include: reviewInclude
+    });
+
+    await refreshProductRating(tx, existingReview.productId);
+
+    return updated;
+  });
+
+  res.json({
+    success: true,
+    message: `Review ${status === 'APPROVED' ? 'approved' : 'hidden'}`,
+    data: formatReview(review)
+  });
+};
+
+/**
+ * PATCH /api/admin/reviews/:id/approve
+ * Publish a review and count it in the product rating (admin only)
+ */
+export const approveReview = async (req: Request, res: Response) => {
+  try {
+    await moderateReview(req, res, 'APPROVED');
+  } catch (error) {
+    console.error('Error approving review:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to approve review'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/reviews/:id/hide
+ * Take a review down and leave it out of the product rating (admin only)
+ */
+export const hideReview = async (req: Request, res: Response) => {
+  try {
+    await moderateReview(req, res, 'HIDDEN');
+  } catch (error) {
+    console.error('Error hiding review:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to hide review'
+    });
+  }
+};
+
+// Validation middleware
+export const validateProductReviewsQuery = [
+  param('id')
+    .isString()
+    .withMessage('Invalid product ID'),
+  query('locale')
+    .optional()
+    .isIn(['en', 'my'])
+    .withMessage('Locale must be en or my'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50')
+];
+
+export const validateCreateReview = [
+  param('id')
+    .isString()
+    .withMessage('Invalid product ID'),
+  body('rating')
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Rating must be between 1 and 5 stars')
+    .toInt(),
+  body('comment_en')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('English comment must be less than 2000 characters'),
+  body('comment_my')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Myanmar comment must be less than 2000 characters')
+];
+
+export const validateReviewId = [
+  param('id')
+    .isString()
+    .withMessage('Invalid review ID')
+];
+
+export const validateReviewQuery = [
+  query('status')
+    .optional()
+    .isIn(['all', 'PENDING', 'APPROVED', 'HIDDEN'])
+    .withMessage('Invalid review status')
+];
+
+export const validateModerateReview = [
+  ...validateReviewId,
+  body('moderationNote')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Moderation note must be less than 1000 characters')
+];
@@ -0,0 +1,431 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { body, param, validationResult } from 'express-validator';
+import { quoteShipping } from '../utils/shipping';
+import { toOrderItemMetadata } from '../utils/productAttributes';
+import { resolveOrderLine } from '../utils/productVariants';
+import { orderablePricesInclude } from '../utils/productPricing';
+
+const prisma = new PrismaClient();
+
+const formatShippingRate = (rate: any) => ({
+  id: rate.id,
+  region: rate.region,
+  township: rate.township,
+  minWeightKg: Number(rate.minWeightKg),
+  maxWeightKg: rate.maxWeightKg !== null ? Number(rate.maxWeightKg) : null,
+  fee: Number(rate.fee),
+  freeAboveAmount: rate.freeAboveAmount !== null ? Number(rate.freeAboveAmount) : null,
+  enabled: rate.enabled,
+  createdAt: rate.createdAt,
+  updatedAt: rate.updatedAt
+});
+
+/**
+ * POST /api/shipping/quote
+ * Quote the shipping fee for a cart and destination (public)
+ */
+export const getShippingQuote = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { region, township, items } = req.body;
+    // Signed-in wholesale customers are quoted at their prices
+    const isWholesale = !!(req as any).user?.isWholesale;
+    const pricedAt = new Date();
+
+    const products = await prisma.product.findMany({
+      where: {
+        id: { in: items.map((item: any) => item.productId) },
+        disabled: false
+      },
+      include: orderablePricesInclude(pricedAt)
+    });
+
+    const lineItems = items
+      .map((item: any) => {
+        const product = products.find(p => p.id === item.productId);
+        const line = product && resolveOrderLine(product, item.variantId, pricedAt, { quantity: parseInt(item.quantity, 10), isWholesale });
+        return product && line && line.valid
+          ? { quantity: parseInt(item.quantity, 10), metadata: toOrderItemMetadata(product, line.variant), unitPrice: line.unitPrice }
+          : null;
+      })
+      .filter(Boolean);
+
+    const itemsSubtotal = lineItems.reduce((sum: number, item: any) => sum + item.unitPrice * item.quantity, 0);
+    const quote = await quoteShipping(prisma, { region, township }, lineItems, itemsSubtotal);
+
+    if (!quote.available) {
+      return res.status(400).json({
+        success: false,
+        message: quote.error,
+        data: { totalWeightKg: quote.totalWeightKg }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        fee: quote.fee,
+        totalWeightKg: quote.totalWeightKg
+      }
+    });
+
+  } catch (error) {
+    console.error('Error quoting shipping:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to quote shipping'
+    });
+  }
+};
+
+/**
+ * GET /api/shipping/regions
+ * List regions and townships that have an enabled rate (public, for checkout)
+ */
+export const getShippingRegions = async (req: Request, res: Response) => {
+  try {
+    const rates = await prisma.shippingRate.findMany({
+      where: { enabled: true },
+      select: { region: true, township: true },
+      orderBy: [{ region: 'asc' }, { township: 'asc' }]
+    });
+
+    const regions = new Map<string, Set<string>>();
+    for (const rate of rates) {
+      if (!regions.has(rate.region)) {
+        regions.set(rate.region, new Set());
+      }
+      if (rate.township) {
+        regions.get(rate.region)!.add(rate.township);
+      }
+    }
+
+    const response = Array.from(regions.entries()).map(([region, townships]) => ({
+      region,
+      townships: Array.from(townships)
+    }));
+
+    res.json({
+      success: true,
+      data: response,
+      count: response.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching shipping regions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch shipping regions'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/shipping-rates
+ * List the shipping rate table (admin only)
+ */
+export const getShippingRates = async (req: Request, res: Response) => {
+  try {
+    const { region, enabled } = req.query;
+
+    const where: any = {};
+
+    if (region) {
+      where.region = { equals: region as string, mode: 'insensitive' };
+    }
+
+    if (enabled !== undefined) {
+      where.enabled = enabled === 'true';
+    }
+
+    const rates = await prisma.shippingRate.findMany({
+      where,
+      orderBy: [{ region: 'asc' }, { township: 'asc' }, { minWeightKg: 'asc' }]
+    });
+
+    res.json({
+      success: true,
+      data: rates.map(formatShippingRate),
+      count: rates.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching shipping rates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch shipping rates'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/shipping-rates
+ * Create a shipping rate (admin only)
+ */
+export const createShippingRate = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const {
+      region,
+      township,
+      minWeightKg = 0,
+      maxWeightKg,
+      fee,
+      freeAboveAmount,
+      enabled = true
+    } = req.body;
+
+    const rate = await prisma.shippingRate.create({
+      data: {
+        region: region.trim(),
+        township: township ? township.trim() : null,
+        minWeightKg: parseFloat(minWeightKg),
+        maxWeightKg: maxWeightKg != null ? parseFloat(maxWeightKg) : null,
+        fee: parseFloat(fee),
+        freeAboveAmount: freeAboveAmount != null ? parseFloat(freeAboveAmount) : null,
+        enabled
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Shipping rate created successfully',
+      data: formatShippingRate(rate)
+    });
+
+  } catch (error) {
+    console.error('Error creating shipping rate:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create shipping rate'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/shipping-rates/:id
+ * Update a shipping rate (admin only)
+ */
+export const updateShippingRate = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+
+    const existingRate = await prisma.shippingRate.findUnique({
+      where: { id }
+    });
+
+    if (!existingRate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Shipping rate not found'
+      });
+    }
+
+    const updateData: any = {};
+    if (req.body.region !== undefined) updateData.region = req.body.region.trim();
+    if (req.body.township !== undefined) updateData.township = req.body.township ? req.body.township.trim() : null;
+    if (req.body.minWeightKg !== undefined) updateData.minWeightKg = parseFloat(req.body.minWeightKg);
+    if (req.body.maxWeightKg !== undefined) updateData.maxWeightKg = req.body.maxWeightKg !== null ? parseFloat(req.body.maxWeightKg) : null;
+    if (req.body.fee !== undefined) updateData.fee = parseFloat(req.body.fee);
+    if (req.body.freeAboveAmount !== undefined) updateData.freeAboveAmount = req.body.freeAboveAmount !== null ? parseFloat(req.body.freeAboveAmount) : null;
+    if (req.body.enabled !== undefined) updateData.enabled = req.body.enabled;
+
+    const minWeightKg = updateData.minWeightKg ?? Number(existingRate.minWeightKg);
+    const maxWeightKg = updateData.maxWeightKg !== undefined
+      ? updateData.maxWeightKg
+      : existingRate.maxWeightKg !== null ? Number(existingRate.maxWeightKg) : null;
+
+    if (maxWeightKg !== null && maxWeightKg <= minWeightKg) {
+      return res.status(400).json({
+        success: false,
+        message: 'Max weight must be greater than min weight'
+      });
+    }
+
+    const rate = await prisma.shippingRate.update({
+      where: { id },
+      data: updateData
+    });
+
+    res.json({
+      success: true,
+      message: 'Shipping rate updated successfully',
+      data: formatShippingRate(rate)
+    });
+
+  } catch (error) {
+    console.error('Error updating shipping rate:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update shipping rate'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/shipping-rates/:id
+ * Delete a shipping rate (admin only)
+ */
+export const deleteShippingRate = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingRate = await prisma.shippingRate.findUnique({
+      where: { id }
+    });
+
+    if (!existingRate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Shipping rate not found'
+      });
+    }
+
+    // Orders keep their own shippingFee snapshot, so rates can be removed freely
+    await prisma.shippingRate.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Shipping rate deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting shipping rate:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete shipping rate'
+    });
+  }
+};
+
+// Validation middleware
+export const validateShippingQuote = [
+  body('region')
+    .trim()
+    .notEmpty()
+    .withMessage('Region is required'),
+  body('township')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Township must be a string'),
+  body('items')
+    .isArray({ min: 1 })
+    .withMessage('Items must be a non-empty array'),
+  body('items.*.productId')
+    .isString()
+    .withMessage('Product ID is required'),
+  body('items.*.variantId')
+    .optional({ nullable: true })
+    .isString()
+    .withMessage('Variant ID must be a string'),
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a positive integer')
+];
+
+export const validateCreateShippingRate = [
+  body('region')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Region is required and must be less than 100 characters'),
+  body('township')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Township must be less than 100 characters'),
+  body('minWeightKg')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Min weight must be a non-negative number'),
+  body('maxWeightKg')
+    .optional({ nullable: true })
+    .isFloat({ gt: 0 })
+    .withMessage('Max weight must be a positive number')
+    .custom((maxWeightKg, { req }) => {
+      if (parseFloat(maxWeightKg) <= parseFloat(req.body.minWeightKg || 0)) {
+        throw new Error('Max weight must be greater than min weight');
+      }
+      return true;
+    }),
+  body('fee')
+    .isFloat({ min: 0 })
+    .withMessage('Fee must be a non-negative number'),
+  body('freeAboveAmount')
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('Free shipping threshold must be a non-negative number'),
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be a boolean')
+];
+
+export const validateUpdateShippingRate = [
+  param('id')
+    .isString()
+    .withMessage('Invalid shipping rate ID'),
+  body('region')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Region must be between 1 and 100 characters'),
+  body('township')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Township must be less than 100 characters'),
+  body('minWeightKg')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Min weight must be a non-negative number'),
+  body('maxWeightKg')
+    .optional({ nullable: true })
+    .isFloat({ gt: 0 })
+    .withMessage('Max weight must be a positive number'),
+  body('fee')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Fee must be a non-negative number'),
+  body('freeAboveAmount')
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('Free shipping threshold must be a non-negative number'),
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be a boolean')
+];
+
+export const validateShippingRateId = [
+  param('id')
+    .isString()
+    .withMessage('Invalid shipping rate ID')
+];
@@ -0,0 +1,292 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { body, param, validationResult } from 'express-validator';
+import { OPEN_PURCHASE_ORDER_STATUSES } from '../utils/purchaseOrders';
+
+const prisma = new PrismaClient();
+
+const supplierInclude = {
+  _count: {
+    select: { purchaseOrders: true }
+  }
+} satisfies Prisma.SupplierInclude;
+
+type SupplierWithCounts = Prisma.SupplierGetPayload<{ include: typeof supplierInclude }>;
+
+const formatSupplier = (supplier: SupplierWithCounts, openOrderCount: number = 0) => ({
+  id: supplier.id,
+  name: supplier.name,
+  contactName: supplier.contactName,
+  phone: supplier.phone,
+  email: supplier.email,
+  address: supplier.address,
+  notes: supplier.notes,
+  isActive: supplier.isActive,
+  purchaseOrderCount: supplier._count.purchaseOrders,
+  openPurchaseOrderCount: openOrderCount,
+  createdAt: supplier.createdAt,
+  updatedAt: supplier.updatedAt
+});
+
+/**
+ * GET /api/admin/suppliers
+ * List suppliers with their purchase order counts (admin only)
+ */
+export const getSuppliers = async (req: Request, res: Response) => {
+  try {
+    const { isActive, search } = req.query;
+
+    const where: Prisma.SupplierWhereInput = {};
+
+    if (isActive !== undefined) {
+      where.isActive = isActive === 'true';
+    }
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search as string, mode: 'insensitive' } },
+        { contactName: { contains: search as string, mode: 'insensitive' } },
+        { phone: { contains: search as string } }
+      ];
+    }
+
+    const [suppliers, openOrders] = await Promise.all([
+      prisma.supplier.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        include: supplierInclude
+      }),
+      prisma.purchaseOrder.groupBy({
+        by: ['supplierId'],
+        where: { status: { in: OPEN_PURCHASE_ORDER_STATUSES } },
+        _count: { _all: true }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: suppliers.map(supplier => formatSupplier(
+        supplier,
+        openOrders.find(group => group.supplierId === supplier.id)?._count._all
+      )),
+      count: suppliers.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch suppliers'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/suppliers
+ * Create a supplier (admin only)
+ */
+export const createSupplier = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { name, contactName, phone, email, address, notes, isActive = true } = req.body;
+
+    const supplier = await prisma.supplier.create({
+      data: {
+        name,
+        contactName: contactName || null,
+        phone: phone || null,
+        email: email || null,
+        address: address || null,
+        notes: notes || null,
+        isActive
+      },
+      include: supplierInclude
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Supplier created successfully',
+      data: formatSupplier(supplier)
+    });
+
+  } catch (error) {
+    console.error('Error creating supplier:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create supplier'
+    });
+  }
+};
+
+/**
+ * PATCH /api/admin/suppliers/:id
+ * Update a supplier (admin only)
+ */
+export const updateSupplier = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+
+    const existingSupplier = await prisma.supplier.findUnique({
+      where: { id }
+    });
+
+    if (!existingSupplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    const updateData: Prisma.SupplierUpdateInput = {};
+
+    if (req.body.name !== undefined) updateData.name = req.body.name;
+    if (req.body.contactName !== undefined) updateData.contactName = req.body.contactName || null;
+    if (req.body.phone !== undefined) updateData.phone = req.body.phone || null;
+    if (req.body.email !== undefined) updateData.email = req.body.email || null;
+    if (req.body.address !== undefined) updateData.address = req.body.address || null;
+    if (req.body.notes !== undefined) updateData.notes = req.body.notes || null;
+    if (req.body.isActive !== undefined) updateData.isActive = req.body.isActive;
+
+    const supplier = await prisma.supplier.update({
+      where: { id },
+      data: updateData,
+      include: supplierInclude
+    });
+
+    res.json({
+      success: true,
+      message: 'Supplier updated successfully',
+      data: formatSupplier(supplier)
+    });
+
+  } catch (error) {
+    console.error('Error updating supplier:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update supplier'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/suppliers/:id
+ * Delete a supplier with no purchase orders (admin only)
+ */
+export const deleteSupplier = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingSupplier = await prisma.supplier.findUnique({
+      where: { id },
+      include: supplierInclude
+    });
+
+    if (!existingSupplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    // Purchase orders and the stock they brought in keep pointing at the supplier
+    if (existingSupplier._count.purchaseOrders > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete a supplier that has purchase orders. Deactivate it instead.',
+        data: {
+          purchaseOrderCount: existingSupplier._count.purchaseOrders
+        }
+      });
+    }
+
+    await prisma.supplier.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Supplier deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting supplier:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete supplier'
+    });
+  }
+};
+
+// Validation middleware
+const supplierFieldValidators = [
+  body('contactName')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Contact name must be less than 100 characters'),
+  body('phone')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 30 })
+    .withMessage('Phone must be less than 30 characters'),
+  body('email')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isEmail()
+    .withMessage('Email must be valid'),
+  body('address')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Address must be less than 500 characters'),
+  body('notes')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must be less than 1000 characters'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
+
+export const validateSupplierId = [
+  param('id')
+    .isString()
+    .withMessage('Invalid supplier ID')
+];
+
+export const validateCreateSupplier = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name is required and must be less than 100 characters'),
+  ...supplierFieldValidators
+];
+
+export const validateUpdateSupplier = [
+  ...validateSupplierId,
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  ...supplierFieldValidators
+];
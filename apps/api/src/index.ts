@@ -17,15 +17,26 @@ import adminUserRoutes from './routes/admin/users';
 import adminRoutes from './routes/admin';
 import companyPaymentAccountRoutes from './routes/companyPaymentAccounts';
 import onlineTransferOrderRoutes from './routes/onlineTransferOrders';
+import couponRoutes from './routes/coupons';
+import shippingRoutes from './routes/shipping';
+import categoryRoutes from './routes/categories';
+import paymentRoutes from './routes/payments';
 // import userRoutes from './routes/users'; // Removed - using admin users instead
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
+import { startReservationSweeper } from './utils/reservations';
+import { startLowStockMonitor } from './utils/lowStockAlerts';
+import { startPriceScheduler } from './utils/productPricing';
+import { assertMockGatewayConfig } from './utils/mockPaymentGateway';
 
 // Load environment variables
 dotenv.config();
 
+// Fail fast instead of serving the mock gateway with forgeable callbacks
+assertMockGatewayConfig();
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -126,6 +137,10 @@ app.use('/api/orders', orderRoutes);
 app.use('/api/users/payment-methods', paymentMethodRoutes);
 app.use('/api/company-accounts', companyPaymentAccountRoutes);
 app.use('/api/orders/online-transfer', onlineTransferOrderRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/shipping', shippingRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/payments', paymentRoutes);
 
 // File upload and serving routes
 app.use('/', uploadRoutes);
@@ -150,6 +165,14 @@ app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  // Release stock held by unpaid online-transfer orders, warn admins about low stock
+  // and apply scheduled prices
+  if (process.env.NODE_ENV !== 'test') {
+    startReservationSweeper();
+    startLowStockMonitor();
+    startPriceScheduler();
+  }
 });
 
 export default app;
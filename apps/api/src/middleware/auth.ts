@@ -10,6 +10,7 @@ export interface AuthRequest extends Request {
     email: string;
     role: string;
     isEmailVerified: boolean;
+    isWholesale: boolean;
   };
 }
 
@@ -40,7 +41,8 @@ export const authenticate = async (
         id: true,
         email: true,
         role: true,
-        isEmailVerified: true
+        isEmailVerified: true,
+        isWholesale: true
       }
     });
 
@@ -75,6 +77,42 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Optional Authentication Middleware
+ * Attaches the user when a valid token is sent, e.g. for wholesale prices on
+ * public routes; guests and invalid tokens continue without a user
+ */
+export const optionalAuthenticate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const token = req.header('Authorization')?.replace('Bearer ', '');
+
+    if (token) {
+      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+      const user = await prisma.user.findUnique({
+        where: { id: decoded.id },
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          isEmailVerified: true,
+          isWholesale: true
+        }
+      });
+      if (user) {
+        req.user = user;
+      }
+    }
+  } catch (error) {
+    // Priced as a guest
+  }
+
+  next();
+};
+
 /**
  * Role-based Authorization Middleware
  * Checks if user has required role(s)
@@ -60,6 +60,24 @@ export const upload = multer({
   }
 });
 
+// Product spreadsheets are parsed straight from memory and never stored
+const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+
+export const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (SPREADSHEET_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Only ${SPREADSHEET_EXTENSIONS.join(', ')} files are allowed.`));
+    }
+  },
+  limits: {
+    fileSize: MAX_FILE_SIZE,
+    files: 1
+  }
+});
+
 // File validation middleware
 export const validateUploadedFile = (req: Request, res: any, next: any) => {
   if (!req.file) {
@@ -0,0 +1,22 @@
+import express from 'express';
+import { spreadsheetUpload } from '../../middleware/upload';
+import {
+  getBankStatements,
+  getBankStatement,
+  uploadBankStatement,
+  confirmStatementLine,
+  validateBankStatementQuery,
+  validateBankStatementId,
+  validateUploadBankStatement,
+  validateConfirmStatementLine
+} from '../../controllers/bankStatements';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/', validateBankStatementQuery, getBankStatements);
+router.post('/', spreadsheetUpload.single('file'), validateUploadBankStatement, uploadBankStatement);
+router.get('/:id', validateBankStatementId, getBankStatement);
+router.patch('/:id/lines/:lineId/confirm', validateConfirmStatementLine, confirmStatementLine);
+
+export default router;
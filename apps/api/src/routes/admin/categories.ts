@@ -0,0 +1,20 @@
+import express from 'express';
+import {
+  getAdminCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  validateCategoryId,
+  validateCreateCategory,
+  validateUpdateCategory
+} from '../../controllers/categories';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/', getAdminCategories);
+router.post('/', validateCreateCategory, createCategory);
+router.put('/:id', validateUpdateCategory, updateCategory);
+router.delete('/:id', validateCategoryId, deleteCategory);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  getCoupons,
+  getCoupon,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  validateCreateCoupon,
+  validateUpdateCoupon,
+  validateCouponId
+} from '../../controllers/coupons';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/', getCoupons);
+router.get('/:id', validateCouponId, getCoupon);
+router.post('/', validateCreateCoupon, createCoupon);
+router.patch('/:id', validateUpdateCoupon, updateCoupon);
+router.delete('/:id', validateCouponId, deleteCoupon);
+
+export default router;
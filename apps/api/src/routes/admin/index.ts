@@ -1,11 +1,37 @@
 import express, { Request, Response } from 'express';
 import { body, validationResult, query } from 'express-validator';
 import bcrypt from 'bcryptjs';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, StockMovementType } from '@prisma/client';
 import { authenticate, requireAdmin, AuthRequest } from '../../middleware/auth';
 import profileRoutes from './profile';
 import userRoutes from './users';
 import orderRoutes from './orders';
+import couponRoutes from './coupons';
+import shippingRateRoutes from './shippingRates';
+import returnRoutes from './returns';
+import reviewRoutes from './reviews';
+import bankStatementRoutes from './bankStatements';
+import reportRoutes from './reports';
+import supplierRoutes from './suppliers';
+import purchaseOrderRoutes from './purchaseOrders';
+import productSpreadsheetRoutes from './productSpreadsheets';
+import productVariantRoutes from './productVariants';
+import productPriceRoutes from './productPrices';
+import priceTierRoutes from './priceTiers';
+import categoryRoutes from './categories';
+import { addStockLot, consumeStock, getCostingMethod, valueStockLots } from '../../utils/inventoryCosting';
+import {
+  checkManualStockMovement,
+  getDefaultStockMovementType,
+  MANUAL_STOCK_MOVEMENT_TYPES,
+  STOCK_MOVEMENT_TYPES
+} from '../../utils/stockMovements';
+import { getLowStockLevels, lowStockWhere } from '../../utils/lowStockAlerts';
+import { formatProductAttributes, productAttributeValidators, toProductAttributeData } from '../../utils/productAttributes';
+import { formatProductVariant } from '../../utils/productVariants';
+import { findMissingCategoryIds, productCategorySelect } from '../../utils/categories';
+import { refreshProductSearchText } from '../../utils/productSearch';
+import { setRegularPrice } from '../../utils/productPricing';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -18,6 +44,20 @@ router.use(requireAdmin);
 router.use('/profile', profileRoutes);
 router.use('/users', userRoutes);
 router.use('/orders', orderRoutes);
+router.use('/coupons', couponRoutes);
+router.use('/shipping-rates', shippingRateRoutes);
+router.use('/returns', returnRoutes);
+router.use('/reviews', reviewRoutes);
+router.use('/bank-statements', bankStatementRoutes);
+router.use('/reports', reportRoutes);
+router.use('/suppliers', supplierRoutes);
+router.use('/purchase-orders', purchaseOrderRoutes);
+router.use('/categories', categoryRoutes);
+// Mounted ahead of the inline /products/:id routes below
+router.use('/products', productSpreadsheetRoutes);
+router.use('/products', productVariantRoutes);
+router.use('/products', productPriceRoutes);
+router.use('/products', priceTierRoutes);
 
 // Update admin profile
 router.patch('/profile', [
@@ -189,20 +229,10 @@ router.get('/dashboard', async (req, res) => {
         }
       }),
       prisma.product.findMany({
-        where: {
-          disabled: false,
-          stockEntries: {
-            some: {
-              quantity: { lt: 10 } // Low stock threshold
-            }
-          }
-        },
+        where: await lowStockWhere(prisma),
         take: 5,
-        include: {
-          stockEntries: {
-            select: { quantity: true }
-          }
-        }
+        orderBy: { stockOnHand: 'asc' },
+        select: { id: true, name_en: true, stockOnHand: true, reorderPoint: true }
       }),
       prisma.order.groupBy({
         by: ['status'],
@@ -260,7 +290,8 @@ router.get('/dashboard', async (req, res) => {
       lowStockProducts: lowStockProducts.map(product => ({
         id: product.id,
         name: product.name_en,
-        currentStock: product.stockEntries.reduce((sum, entry) => sum + entry.quantity, 0)
+        currentStock: product.stockOnHand,
+        reorderPoint: product.reorderPoint
       }))
     };
 
@@ -290,6 +321,11 @@ router.post('/products', authenticate, requireAdmin, [
   body('disabled').optional().isBoolean(),
   body('outOfStock').optional().isBoolean(),
   body('allowSellWithoutStock').optional().isBoolean(),
+  body('reorderPoint').optional().isInt({ min: 0 }).withMessage('Reorder point must be a non-negative integer').toInt(),
+  body('reorderQuantity').optional().isInt({ min: 0 }).withMessage('Reorder quantity must be a non-negative integer').toInt(),
+  ...productAttributeValidators,
+  body('categoryIds').optional().isArray().withMessage('categoryIds must be an array of category IDs'),
+  body('categoryIds.*').isString().withMessage('Invalid category ID'),
   body('metadata').optional().isObject(),
 ], async (req: any, res: any) => {
   try {
@@ -313,6 +349,10 @@ router.post('/products', authenticate, requireAdmin, [
       disabled = false,
       outOfStock = false,
       allowSellWithoutStock = true,
+      reorderPoint,
+      reorderQuantity,
+      attributes,
+      categoryIds = [],
       metadata = {}
     } = req.body;
 
@@ -329,6 +369,13 @@ router.post('/products', authenticate, requireAdmin, [
       }
     }
 
+    if ((await findMissingCategoryIds(prisma, categoryIds)).length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Category not found'
+      });
+    }
+
     const product = await prisma.product.create({
       data: {
         name_en,
@@ -341,13 +388,19 @@ router.post('/products', authenticate, requireAdmin, [
         disabled,
         outOfStock,
         allowSellWithoutStock,
-        metadata
-      }
+        reorderPoint,
+        reorderQuantity,
+        ...toProductAttributeData(attributes),
+        metadata,
+        categories: { connect: categoryIds.map((id: string) => ({ id })) }
+      },
+      include: { categories: { select: productCategorySelect } }
     });
+    await refreshProductSearchText(prisma, [product.id]);
 
     res.status(201).json({
       success: true,
-      data: product
+      data: { ...product, attributes: formatProductAttributes(product) }
     });
   } catch (error) {
     console.error('Product creation error:', error);
@@ -370,6 +423,11 @@ router.put('/products/:id', authenticate, requireAdmin, [
   body('disabled').optional().isBoolean(),
   body('outOfStock').optional().isBoolean(),
   body('allowSellWithoutStock').optional().isBoolean(),
+  body('reorderPoint').optional().isInt({ min: 0 }).withMessage('Reorder point must be a non-negative integer').toInt(),
+  body('reorderQuantity').optional().isInt({ min: 0 }).withMessage('Reorder quantity must be a non-negative integer').toInt(),
+  ...productAttributeValidators,
+  body('categoryIds').optional().isArray().withMessage('categoryIds must be an array of category IDs'),
+  body('categoryIds.*').isString().withMessage('Invalid category ID'),
   body('metadata').optional().isObject(),
 ], async (req: any, res: any) => {
   try {
@@ -383,7 +441,9 @@ router.put('/products/:id', authenticate, requireAdmin, [
     }
 
     const { id } = req.params;
-    const updateData = req.body;
+    // Stock levels follow the stock ledger and cannot be edited directly;
+    // price changes are recorded in the price history
+    const { stockOnHand, reserved, lowStockAlertedAt, attributes, categoryIds, price, ...updateData } = req.body;
 
     // Check if SKU already exists (if being updated)
     if (updateData.sku) {
@@ -401,14 +461,35 @@ router.put('/products/:id', authenticate, requireAdmin, [
       }
     }
 
-    const product = await prisma.product.update({
-      where: { id },
-      data: updateData
+    if (categoryIds && (await findMissingCategoryIds(prisma, categoryIds)).length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Category not found'
+      });
+    }
+
+    const product = await prisma.$transaction(async (tx) => {
+      const current = await tx.product.findUniqueOrThrow({ where: { id }, select: { price: true } });
+      if (price !== undefined && Number(price) !== Number(current.price)) {
+        await setRegularPrice(tx, { productId: id, price: Number(price), startsAt: new Date(), createdById: req.user?.id });
+      }
+
+      return tx.product.update({
+        where: { id },
+        data: {
+          ...updateData,
+          ...toProductAttributeData(attributes),
+          // Replaces the product's categories when given
+          ...(categoryIds && { categories: { set: categoryIds.map((categoryId: string) => ({ id: categoryId })) } })
+        },
+        include: { categories: { select: productCategorySelect } }
+      });
     });
+    await refreshProductSearchText(prisma, [product.id]);
 
     res.json({
       success: true,
-      data: product
+      data: { ...product, attributes: formatProductAttributes(product) }
     });
   } catch (error) {
     console.error('Product update error:', error);
@@ -448,6 +529,18 @@ router.delete('/products/:id', authenticate, requireAdmin, async (req: any, res:
       });
     }
 
+    // Purchase order lines keep the product for receiving history
+    const purchaseOrderItemCount = await prisma.purchaseOrderItem.count({
+      where: { productId: id }
+    });
+
+    if (purchaseOrderItemCount > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot delete product that is on a purchase order'
+      });
+    }
+
     await prisma.product.delete({
       where: { id }
     });
@@ -487,7 +580,8 @@ router.get('/products', authenticate, requireAdmin, async (req: any, res: any) =
       where.OR = [
         { name_en: { contains: search, mode: 'insensitive' } },
         { name_my: { contains: search, mode: 'insensitive' } },
-        { sku: { contains: search, mode: 'insensitive' } }
+        { sku: { contains: search, mode: 'insensitive' } },
+        { variants: { some: { sku: { contains: search, mode: 'insensitive' } } } }
       ];
     }
 
@@ -520,15 +614,20 @@ router.get('/products', authenticate, requireAdmin, async (req: any, res: any) =
         where,
         orderBy,
         skip,
-        take: parseInt(limit)
+        take: parseInt(limit),
+        include: {
+          variants: { orderBy: [{ sortOrder: 'asc' }, { weightKg: 'asc' }] },
+          categories: { select: productCategorySelect }
+        }
       }),
       prisma.product.count({ where })
     ]);
 
-    // For now, just return products without stock calculation
     const productsWithStock = products.map(product => ({
       ...product,
-      currentStock: 0
+      attributes: formatProductAttributes(product),
+      variants: product.variants.map(formatProductVariant),
+      currentStock: product.stockOnHand
     }));
 
     res.json({
@@ -551,22 +650,74 @@ router.get('/products', authenticate, requireAdmin, async (req: any, res: any) =
 });
 
 // Admin Stock Management
+const stockEntryInclude = {
+  product: {
+    select: {
+      id: true,
+      name_en: true,
+      name_my: true,
+      sku: true,
+      price: true,
+      images: true
+    }
+  },
+  variant: {
+    select: { id: true, label: true, sku: true }
+  },
+  actor: {
+    select: { id: true, name: true }
+  },
+  purchaseOrder: {
+    select: { id: true, reference: true, supplier: { select: { id: true, name: true } } }
+  }
+} satisfies Prisma.StockEntryInclude;
+
 // Get stock entries
 router.get('/stock', authenticate, requireAdmin, async (req: any, res: any) => {
   try {
     const { 
       page = 1, 
       limit = 20, 
-      productId 
+      productId,
+      variantId,
+      type,
+      orderId,
+      returnRequestId,
+      purchaseOrderId,
+      actorId,
+      search
     } = req.query;
 
     const skip = (page - 1) * limit;
 
     // Build where clause
-    const where: any = {};
+    const where: Prisma.StockEntryWhereInput = {};
     if (productId) {
       where.productId = productId;
     }
+    if (variantId) {
+      where.variantId = variantId;
+    }
+    if (type === 'UNCLASSIFIED') {
+      where.type = null; // rows the backfill script has not classified yet
+    } else if (STOCK_MOVEMENT_TYPES.includes(type)) {
+      where.type = type;
+    }
+    if (orderId) {
+      where.orderId = orderId;
+    }
+    if (returnRequestId) {
+      where.returnRequestId = returnRequestId;
+    }
+    if (purchaseOrderId) {
+      where.purchaseOrderId = purchaseOrderId;
+    }
+    if (actorId) {
+      where.actorId = actorId;
+    }
+    if (search) {
+      where.note = { contains: search, mode: 'insensitive' };
+    }
 
     const [stockEntries, total] = await Promise.all([
       prisma.stockEntry.findMany({
@@ -574,18 +725,7 @@ router.get('/stock', authenticate, requireAdmin, async (req: any, res: any) => {
         orderBy: { createdAt: 'desc' },
         skip,
         take: parseInt(limit),
-        include: {
-          product: {
-            select: {
-              id: true,
-              name_en: true,
-              name_my: true,
-              sku: true,
-              price: true,
-              images: true
-            }
-          }
-        }
+        include: stockEntryInclude
       }),
       prisma.stockEntry.count({ where })
     ]);
@@ -612,12 +752,22 @@ router.get('/stock', authenticate, requireAdmin, async (req: any, res: any) => {
 // Add stock entry
 router.post('/stock', authenticate, requireAdmin, [
   body('productId').notEmpty().withMessage('Product ID is required'),
+  body('variantId')
+    .optional({ values: 'null' })
+    .isString().withMessage('Invalid variant ID'),
   body('quantity')
     .exists().withMessage('Quantity is required')
     .isInt().withMessage('Quantity must be an integer'),
   body('purchasePrice')
     .exists().withMessage('Purchase price is required')
     .isFloat({ min: 0 }).withMessage('Purchase price must be a non-negative number'),
+  body('type')
+    .optional()
+    .isIn(MANUAL_STOCK_MOVEMENT_TYPES).withMessage(`Type must be one of ${MANUAL_STOCK_MOVEMENT_TYPES.join(', ')}`),
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 }).withMessage('Note must be less than 500 characters'),
 ], async (req: any, res: any) => {
   try {
     const errors = validationResult(req);
@@ -631,17 +781,29 @@ router.post('/stock', authenticate, requireAdmin, [
 
     const {
       productId,
+      variantId,
       quantity,
-      purchasePrice
+      purchasePrice,
+      note
     } = req.body;
 
     // Coerce numeric types safely
     const parsedQuantity = parseInt(quantity, 10);
     const parsedPurchasePrice = parseFloat(purchasePrice);
+    const type: StockMovementType = req.body.type || getDefaultStockMovementType(parsedQuantity);
+
+    const movementError = checkManualStockMovement(type, parsedQuantity);
+    if (movementError) {
+      return res.status(400).json({
+        success: false,
+        error: movementError
+      });
+    }
 
     // Check if product exists
     const product = await prisma.product.findUnique({
-      where: { id: productId }
+      where: { id: productId },
+      include: { variants: { select: { id: true } } }
     });
 
     if (!product) {
@@ -651,24 +813,41 @@ router.post('/stock', authenticate, requireAdmin, [
       });
     }
 
-    const stockEntry = await prisma.stockEntry.create({
-      data: {
-        productId,
-        quantity: parsedQuantity,
-        purchasePrice: parsedPurchasePrice
-      },
-      include: {
-        product: {
-          select: {
-            id: true,
-            name_en: true,
-            name_my: true,
-            sku: true,
-            price: true,
-            images: true
-          }
-        }
+    // Products with variants keep stock per size
+    if (product.variants.length === 0 && variantId) {
+      return res.status(400).json({
+        success: false,
+        error: 'This product does not come in different sizes'
+      });
+    }
+    if (product.variants.length > 0 && !product.variants.some(variant => variant.id === variantId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Choose a size for this product'
+      });
+    }
+
+    // Positive entries are new lots; negative entries (write-offs, corrections)
+    // draw down the open lots like a sale, at the cost of the bags removed
+    const movement = { type, note, actorId: req.user.id };
+    const stockEntryId = await prisma.$transaction(async (tx) => {
+      if (parsedQuantity > 0) {
+        const lot = await addStockLot(tx, {
+          productId,
+          variantId,
+          quantity: parsedQuantity,
+          purchasePrice: parsedPurchasePrice
+        }, movement);
+        return lot.id;
       }
+
+      const consumption = await consumeStock(tx, { productId, variantId, quantity: -parsedQuantity }, movement);
+      return consumption.stockEntryId;
+    });
+
+    const stockEntry = await prisma.stockEntry.findUnique({
+      where: { id: stockEntryId },
+      include: stockEntryInclude
     });
 
     res.status(201).json({
@@ -686,17 +865,40 @@ router.post('/stock', authenticate, requireAdmin, [
 
 // Admin Inventory Summary
 // Get inventory summary
-router.get('/inventory', authenticate, requireAdmin, async (req: any, res: any) => {
+router.get('/inventory', authenticate, requireAdmin, [
+  query('needsReorder').optional().isBoolean().withMessage('needsReorder must be true or false'),
+], async (req: any, res: any) => {
   try {
-    // Get all products with their stock entries
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    // needsReorder=true narrows to products, or products with a size, at or below their reorder point
+    const where: Prisma.ProductWhereInput = req.query.needsReorder === 'true'
+      ? await lowStockWhere(prisma)
+      : { disabled: false };
+
+    // Stock levels are materialized on the product; only open lots are needed for valuation
     const products = await prisma.product.findMany({
-      where: { disabled: false },
+      where,
+      orderBy: req.query.needsReorder === 'true' ? { stockOnHand: 'asc' } : undefined,
       include: {
         stockEntries: {
+          where: { remainingQuantity: { gt: 0 } },
           select: {
-            quantity: true,
-            purchasePrice: true
+            id: true,
+            purchasePrice: true,
+            remainingQuantity: true
           }
+        },
+        variants: {
+          orderBy: [{ sortOrder: 'asc' }, { weightKg: 'asc' }],
+          select: { id: true, label: true, sku: true, stockOnHand: true, reserved: true, disabled: true }
         }
       }
     });
@@ -704,31 +906,48 @@ router.get('/inventory', authenticate, requireAdmin, async (req: any, res: any)
     // Calculate inventory summary for each product
     const inventorySummary = products.map(product => {
       const stockEntries = product.stockEntries || [];
-      const totalStock = stockEntries.reduce((sum, entry) => sum + (entry.quantity || 0), 0);
-      const totalValue = stockEntries.reduce((sum, entry) => {
-        const price = entry.purchasePrice || product.price || 0;
-        const quantity = entry.quantity || 0;
-        return sum + (Number(price) * quantity);
-      }, 0);
-      const averageCost = totalStock > 0 ? totalValue / totalStock : 0;
+      const totalStock = product.stockOnHand;
+      const lowStockLevels = getLowStockLevels(product);
+      // Value what is left of each purchase lot at the price paid for it
+      const { totalValue, averageCost } = valueStockLots(stockEntries.map(entry => ({
+        id: entry.id,
+        remainingQuantity: entry.remainingQuantity,
+        purchasePrice: Number(entry.purchasePrice)
+      })));
 
       return {
         productId: product.id,
         productName: product.name_en || 'Unknown Product',
         productSku: product.sku || '',
         currentStock: totalStock,
+        reserved: product.reserved,
+        // Per-size breakdown; the product's counts are the totals across its sizes
+        variants: product.variants.map(variant => ({
+          id: variant.id,
+          label: variant.label,
+          sku: variant.sku,
+          currentStock: variant.stockOnHand,
+          reserved: variant.reserved,
+          disabled: variant.disabled,
+          lowStock: lowStockLevels.some(level => level.variantId === variant.id)
+        })),
         totalValue,
         averageCost,
         salePrice: product.price || 0,
         lastUpdated: product.updatedAt,
-        lowStock: totalStock < 10, // Low stock threshold
+        reorderPoint: product.reorderPoint,
+        reorderQuantity: product.reorderQuantity,
+        // Sizes are reordered separately; the suggestion adds up the low ones
+        suggestedReorderQuantity: lowStockLevels.reduce((sum, level) => sum + level.suggestedQuantity, 0),
+        lowStock: lowStockLevels.length > 0,
         outOfStock: totalStock === 0
       };
     });
 
     res.json({
       success: true,
-      data: inventorySummary
+      data: inventorySummary,
+      costingMethod: getCostingMethod()
     });
   } catch (error) {
     console.error('Inventory summary fetch error:', error);
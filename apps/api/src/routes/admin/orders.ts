@@ -1,7 +1,14 @@
 import express, { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { authenticate, requireAdmin, AuthRequest } from '../../middleware/auth';
+import { getOrderRefundState, getRefundableAmount, lockOrderForRefund, planRefund, recordRefund, settleRefund } from '../../utils/refunds';
+import { formatOrderStatusEvent, statusEventsInclude } from '../../utils/orderEvents';
+import { planRefundRestock, setOrderStatus, transitionOrder } from '../../utils/orderLifecycle';
+import { hasPaymentProof } from '../../utils/reservations';
+import { restockOrderItems } from '../../utils/inventoryCosting';
+import { releaseReservation } from '../../utils/stockLevels';
+import { DUPLICATE_TRANSACTION_ID_MESSAGE, hashPaymentScreenshot, isDuplicateTransactionIdError } from '../../utils/paymentFraud';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -10,6 +17,101 @@ const prisma = new PrismaClient();
 router.use(authenticate);
 router.use(requireAdmin);
 
+const orderInclude = {
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          sku: true,
+          name_en: true,
+          name_my: true,
+          images: true
+        }
+      },
+      variant: {
+        select: { id: true, label: true, sku: true }
+      },
+      refundItems: {
+        select: { quantity: true }
+      }
+    }
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  },
+  refunds: {
+    include: { items: true },
+    orderBy: { refundedAt: 'desc' as const }
+  },
+  statusEvents: statusEventsInclude
+} satisfies Prisma.OrderInclude;
+
+type OrderWithRelations = Prisma.OrderGetPayload<{ include: typeof orderInclude }>;
+
+// Transform order for frontend
+const transformOrder = (order: OrderWithRelations) => {
+  const refundedAmount = order.refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+
+  return {
+    id: order.id,
+    customerName: order.user?.name || 'Unknown',
+    customerEmail: order.user?.email || 'Unknown',
+    status: order.status,
+    paymentType: order.paymentType,
+    total: order.totalAmount,
+    discountAmount: order.discountAmount,
+    shippingFee: order.shippingFee,
+    refundedAmount,
+    items: order.items.map(item => ({
+      id: item.id,
+      productId: item.productId,
+      productName: item.product?.name_en || 'Unknown Product',
+      variant: item.variant,
+      quantity: item.quantity,
+      refundedQuantity: item.refundItems.reduce((sum, refundItem) => sum + refundItem.quantity, 0),
+      price: item.unitPrice,
+      listPrice: item.listPrice,
+      tierMinQuantity: item.tierMinQuantity,
+      tierPriceList: item.tierPriceList,
+      product: item.product ? {
+        id: item.product.id,
+        sku: item.product.sku || null,
+        name_en: item.product.name_en,
+        name_my: item.product.name_my,
+        images: item.product.images
+      } : null
+    })),
+    refunds: order.refunds.map(refund => ({
+      id: refund.id,
+      orderId: refund.orderId,
+      amount: Number(refund.amount),
+      reason: refund.reason,
+      restocked: refund.restocked,
+      status: refund.status,
+      failureReason: refund.failureReason,
+      refundedAt: refund.refundedAt,
+      items: refund.items.map(item => ({
+        orderItemId: item.orderItemId,
+        quantity: item.quantity,
+        amount: Number(item.amount)
+      }))
+    })),
+    statusHistory: order.statusEvents.map(formatOrderStatusEvent),
+    shippingAddress: order.shippingAddress,
+    paymentMethodId: order.paymentMethodId,
+    transactionId: order.transactionId,
+    paymentScreenshot: order.paymentScreenshot,
+    reservationExpiresAt: order.reservationExpiresAt,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt
+  };
+};
+
 // Get all orders (with pagination and filters)
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -67,28 +169,7 @@ router.get('/', async (req: Request, res: Response) => {
         skip,
         take: limitNum,
         orderBy: { createdAt: 'desc' },
-        include: {
-          items: {
-            include: {
-              product: {
-                select: {
-                  id: true,
-                  sku: true,
-                  name_en: true,
-                  name_my: true,
-                  images: true
-                }
-              }
-            }
-          },
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true
-            }
-          }
-        }
+        include: orderInclude
       }),
       prisma.order.count({ where })
     ]);
@@ -96,34 +177,7 @@ router.get('/', async (req: Request, res: Response) => {
     const totalPages = Math.ceil(total / limitNum);
 
     // Transform orders for frontend
-    const transformedOrders = orders.map(order => ({
-      id: order.id,
-      customerName: order.user?.name || 'Unknown',
-      customerEmail: order.user?.email || 'Unknown',
-      status: order.status,
-      paymentType: order.paymentType,
-      total: order.totalAmount,
-      items: order.items.map(item => ({
-        id: item.id,
-        productId: item.productId,
-        productName: item.product?.name_en || 'Unknown Product',
-        quantity: item.quantity,
-        price: item.unitPrice,
-        product: item.product ? {
-          id: item.product.id,
-          sku: (item.product as any).sku || null,
-          name_en: item.product.name_en,
-          name_my: item.product.name_my,
-          images: item.product.images
-        } : null
-      })),
-      shippingAddress: order.shippingAddress,
-      paymentMethodId: order.paymentMethodId,
-      transactionId: order.transactionId,
-      paymentScreenshot: order.paymentScreenshot,
-      createdAt: order.createdAt,
-      updatedAt: order.updatedAt
-    }));
+    const transformedOrders = orders.map(transformOrder);
 
     res.json({
       success: true,
@@ -151,27 +205,7 @@ router.get('/:orderId', async (req: Request, res: Response) => {
 
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                name_en: true,
-                name_my: true,
-                images: true
-              }
-            }
-          }
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
+      include: orderInclude
     });
 
     if (!order) {
@@ -181,35 +215,7 @@ router.get('/:orderId', async (req: Request, res: Response) => {
       });
     }
 
-    // Transform order for frontend
-    const transformedOrder = {
-      id: order.id,
-      customerName: order.user?.name || 'Unknown',
-      customerEmail: order.user?.email || 'Unknown',
-      status: order.status,
-      paymentType: order.paymentType,
-      total: order.totalAmount,
-      items: order.items.map(item => ({
-        id: item.id,
-        productId: item.productId,
-        productName: item.product?.name_en || 'Unknown Product',
-        quantity: item.quantity,
-        price: item.unitPrice,
-        product: item.product ? {
-          id: item.product.id,
-          sku: (item.product as any).sku || null,
-          name_en: item.product.name_en,
-          name_my: item.product.name_my,
-          images: item.product.images
-        } : null
-      })),
-      shippingAddress: order.shippingAddress,
-      paymentMethodId: order.paymentMethodId,
-      transactionId: order.transactionId,
-      paymentScreenshot: order.paymentScreenshot,
-      createdAt: order.createdAt,
-      updatedAt: order.updatedAt
-    };
+    const transformedOrder = transformOrder(order);
 
     res.json({
       success: true,
@@ -237,7 +243,17 @@ router.patch('/:orderId/status', [
     .optional()
     .isString()
     .isLength({ min: 1, max: 500 })
-    .withMessage('Refund reason must be between 1 and 500 characters')
+    .withMessage('Refund reason must be between 1 and 500 characters'),
+  body('note')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Note must be less than 1000 characters'),
+  body('restock')
+    .optional()
+    .isBoolean()
+    .withMessage('Restock must be a boolean')
+    .toBoolean()
 ], async (req: Request, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -250,126 +266,269 @@ router.patch('/:orderId/status', [
     }
 
     const { orderId } = req.params;
-    const { status, amount, reason } = req.body;
+    const { status, amount, reason, note, restock = false } = req.body;
+
+    // Transition rules, refunds and restocking are enforced by the order lifecycle
+    const result = await prisma.$transaction(async (tx) => {
+      const transition = await transitionOrder(tx, orderId, {
+        to: status,
+        actor: { id: (req as AuthRequest).user!.id, role: 'admin' },
+        note,
+        refund: amount !== undefined || reason !== undefined
+          ? { amount: parseFloat(amount), reason }
+          : undefined,
+        restock
+      });
 
-    // Check if order exists
-    const existingOrder = await prisma.order.findUnique({
-      where: { id: orderId }
+      return transition;
     });
 
-    if (!existingOrder) {
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error
+      });
+    }
+
+    // Pay the refund out once the status change has committed; a failed payout stays on the order to retry
+    if (result.refundId) {
+      await settleRefund(prisma, result.refundId);
+    }
+
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: orderInclude
+    });
+    const transformedOrder = transformOrder(order);
+
+    res.json({
+      success: true,
+      data: { order: transformedOrder }
+    });
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update order status'
+    });
+  }
+});
+
+// Get refunds for an order
+router.get('/:orderId/refunds', async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: orderInclude
+    });
+
+    if (!order) {
       return res.status(404).json({
         success: false,
         error: 'Order not found'
       });
     }
 
-    // Validate status transition
-    const validTransitions: { [key: string]: string[] } = {
-      PENDING: ['PROCESSING', 'ON_HOLD', 'CANCELED'],
-      PROCESSING: ['SHIPPED', 'ON_HOLD', 'CANCELED'],
-      ON_HOLD: ['PROCESSING', 'CANCELED'],
-      SHIPPED: ['DELIVERED', 'RETURNED'],
-      DELIVERED: ['RETURNED', 'REFUNDED'],
-      CANCELED: ['REFUNDED'], // Allow refunding cancelled orders
-      RETURNED: ['REFUNDED'],
-      REFUNDED: []
-    };
-
-    if (!validTransitions[existingOrder.status]?.includes(status)) {
+    const { refunds, refundedAmount, total } = transformOrder(order);
+
+    res.json({
+      success: true,
+      data: {
+        refunds,
+        refundedAmount,
+        refundableAmount: getRefundableAmount({ totalAmount: Number(total), refundedAmount })
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch refunds'
+    });
+  }
+});
+
+// Create a (partial) refund linked to specific order items
+router.post('/:orderId/refunds', [
+  body('items')
+    .optional()
+    .isArray()
+    .withMessage('Items must be an array'),
+  body('items.*.orderItemId')
+    .isString()
+    .withMessage('Order item ID is required'),
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a positive integer'),
+  body('amount')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Refund amount must be a positive number'),
+  body('reason')
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Refund reason must be between 1 and 500 characters'),
+  body('restock')
+    .optional()
+    .isBoolean()
+    .withMessage('Restock must be a boolean')
+    .toBoolean()
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { orderId } = req.params;
+    const { items = [], amount, reason, restock = false } = req.body;
+
+    if (items.length === 0 && amount === undefined) {
       return res.status(400).json({
         success: false,
-        error: `Cannot change status from ${existingOrder.status} to ${status}`
+        error: 'Provide the items to refund or a refund amount'
       });
     }
 
-    // Validate refund data for REFUNDED status
-    if (status === 'REFUNDED') {
-      if (!amount || !reason) {
-        return res.status(400).json({
-          success: false,
-          error: 'Refund amount and reason are required when marking order as refunded'
+    const result = await prisma.$transaction(async (tx) => {
+      // Hold the order lock while planning, so concurrent refunds cannot exceed the total
+      await lockOrderForRefund(tx, orderId);
+      const refundState = await getOrderRefundState(tx, orderId);
+      if (!refundState) {
+        return { status: 404, error: 'Order not found' };
+      }
+
+      const plan = planRefund(refundState, {
+        items: items.map((item: any) => ({ orderItemId: item.orderItemId, quantity: parseInt(item.quantity, 10) })),
+        amount: amount !== undefined ? parseFloat(amount) : undefined
+      });
+
+      if (!plan.valid) {
+        return { status: 400, error: plan.error };
+      }
+
+      // Skip bags that a cancel or received return already put back
+      const restockPlan = restock ? planRefundRestock(refundState, plan.items) : { valid: true as const, restock: [] };
+      if (!restockPlan.valid) {
+        return { status: 400, error: restockPlan.error };
+      }
+
+      const refund = await recordRefund(tx, orderId, {
+        amount: plan.amount,
+        reason,
+        restocked: restock && plan.items.length > 0,
+        items: plan.items.map(item => ({
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+          amount: item.amount
+        }))
+      });
+
+      // Put returned bags back into inventory
+      await restockOrderItems(tx, orderId, restockPlan.restock, {
+        type: 'RETURN_RESTOCK',
+        actorId: (req as AuthRequest).user!.id,
+        note: reason
+      });
+
+      // Close out the order once everything has been refunded
+      if (plan.fullyRefunded) {
+        await setOrderStatus(tx, {
+          orderId,
+          fromStatus: refundState.status,
+          toStatus: 'REFUNDED',
+          actorId: (req as AuthRequest).user!.id,
+          note: reason
         });
       }
+
+      return { refundId: refund.id };
+    });
+
+    if ('error' in result) {
+      return res.status(result.status!).json({
+        success: false,
+        error: result.error
+      });
     }
 
-    // Update order status
-    const order = await prisma.order.update({
+    // Pay out only after the refund has committed; a failed payout stays recorded to retry
+    const settlement = await settleRefund(prisma, result.refundId);
+
+    const order = await prisma.order.findUniqueOrThrow({
       where: { id: orderId },
-      data: { status },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                name_en: true,
-                name_my: true,
-                images: true
-              }
-            }
-          }
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
+      include: orderInclude
+    });
+    const transformedOrder = transformOrder(order);
+
+    res.status(201).json({
+      success: true,
+      message: settlement.success
+        ? 'Refund created successfully'
+        : `Refund recorded, but the payout failed: ${settlement.error}`,
+      data: {
+        refund: transformedOrder.refunds.find(refund => refund.id === result.refundId),
+        order: transformedOrder
       }
     });
+  } catch (error) {
+    console.error('Error creating refund:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create refund'
+    });
+  }
+});
 
-    // Create refund record if status is REFUNDED
-    if (status === 'REFUNDED') {
-      await prisma.refund.create({
-        data: {
-          orderId: orderId,
-          amount: parseFloat(amount),
-          reason: reason
-        }
+// Retry the payout of a pending or failed refund
+router.post('/:orderId/refunds/:refundId/settle', async (req: Request, res: Response) => {
+  try {
+    const { orderId, refundId } = req.params;
+
+    const refund = await prisma.refund.findFirst({
+      where: { id: refundId, orderId },
+      select: { id: true }
+    });
+
+    if (!refund) {
+      return res.status(404).json({
+        success: false,
+        error: 'Refund not found'
       });
     }
 
-    // Transform order for frontend
-    const transformedOrder = {
-      id: order.id,
-      customerName: order.user?.name || 'Unknown',
-      customerEmail: order.user?.email || 'Unknown',
-      status: order.status,
-      paymentType: order.paymentType,
-      total: order.totalAmount,
-      items: order.items.map(item => ({
-        id: item.id,
-        productId: item.productId,
-        productName: item.product?.name_en || 'Unknown Product',
-        quantity: item.quantity,
-        price: item.unitPrice,
-        product: item.product ? {
-          id: item.product.id,
-          sku: (item.product as any).sku || null,
-          name_en: item.product.name_en,
-          name_my: item.product.name_my,
-          images: item.product.images
-        } : null
-      })),
-      shippingAddress: order.shippingAddress,
-      paymentMethodId: order.paymentMethodId,
-      transactionId: order.transactionId,
-      paymentScreenshot: order.paymentScreenshot,
-      createdAt: order.createdAt,
-      updatedAt: order.updatedAt
-    };
+    const settlement = await settleRefund(prisma, refund.id);
+    if (!settlement.success) {
+      return res.status(502).json({
+        success: false,
+        error: settlement.error
+      });
+    }
+
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: orderInclude
+    });
+    const transformedOrder = transformOrder(order);
 
     res.json({
       success: true,
-      data: { order: transformedOrder }
+      data: {
+        refund: transformedOrder.refunds.find(r => r.id === refund.id),
+        order: transformedOrder
+      }
     });
   } catch (error) {
-    console.error('Error updating order status:', error);
+    console.error('Error settling refund:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to update order status'
+      error: 'Failed to settle refund'
     });
   }
 });
@@ -404,71 +563,38 @@ router.patch('/:orderId/payment', [
       });
     }
 
-    // Update order payment information
-    const order = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        transactionId,
-        paymentScreenshot
-      },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                name_en: true,
-                name_my: true,
-                images: true
-              }
-            }
-          }
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
+    // A replaced screenshot is fingerprinted again for the duplicate checks
+    const paymentScreenshotHash = paymentScreenshot && paymentScreenshot !== existingOrder.paymentScreenshot
+      ? await hashPaymentScreenshot(paymentScreenshot)
+      : undefined;
+
+    // Update order payment information; proof of payment stops the reservation clock
+    const order = await prisma.$transaction(async (tx) => {
+      if (hasPaymentProof({ transactionId, paymentScreenshot })) {
+        await releaseReservation(tx, orderId);
       }
+
+      return tx.order.update({
+        where: { id: orderId },
+        data: { transactionId, paymentScreenshot, paymentScreenshotHash },
+        include: orderInclude
+      });
     });
 
-    // Transform order for frontend
-    const transformedOrder = {
-      id: order.id,
-      customerName: order.user?.name || 'Unknown',
-      customerEmail: order.user?.email || 'Unknown',
-      status: order.status,
-      paymentType: order.paymentType,
-      total: order.totalAmount,
-      items: order.items.map(item => ({
-        id: item.id,
-        productId: item.productId,
-        productName: item.product?.name_en || 'Unknown Product',
-        quantity: item.quantity,
-        price: item.unitPrice,
-        product: item.product ? {
-          id: item.product.id,
-          sku: (item.product as any).sku || null,
-          name_en: item.product.name_en,
-          name_my: item.product.name_my,
-          images: item.product.images
-        } : null
-      })),
-      shippingAddress: order.shippingAddress,
-      paymentMethodId: order.paymentMethodId,
-      transactionId: order.transactionId,
-      paymentScreenshot: order.paymentScreenshot,
-      createdAt: order.createdAt,
-      updatedAt: order.updatedAt
-    };
+    const transformedOrder = transformOrder(order);
 
     res.json({
       success: true,
       data: { order: transformedOrder }
     });
   } catch (error) {
+    if (isDuplicateTransactionIdError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: DUPLICATE_TRANSACTION_ID_MESSAGE
+      });
+    }
+
     console.error('Error updating order payment:', error);
     res.status(500).json({
       success: false,
@@ -0,0 +1,15 @@
+import express from 'express';
+import {
+  getPriceTiers,
+  replacePriceTiers,
+  validateProductId,
+  validateReplacePriceTiers
+} from '../../controllers/priceTiers';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/:productId/price-tiers', validateProductId, getPriceTiers);
+router.put('/:productId/price-tiers', validateReplacePriceTiers, replacePriceTiers);
+
+export default router;
@@ -0,0 +1,18 @@
+import express from 'express';
+import {
+  getProductPrices,
+  createProductPrice,
+  deleteProductPrice,
+  validateProductId,
+  validateCreateProductPrice,
+  validatePriceId
+} from '../../controllers/productPrices';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/:productId/prices', validateProductId, getProductPrices);
+router.post('/:productId/prices', validateCreateProductPrice, createProductPrice);
+router.delete('/:productId/prices/:priceId', validatePriceId, deleteProductPrice);
+
+export default router;
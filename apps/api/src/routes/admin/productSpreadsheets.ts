@@ -0,0 +1,16 @@
+import express from 'express';
+import { spreadsheetUpload } from '../../middleware/upload';
+import {
+  importProducts,
+  exportProducts,
+  validateImportProducts,
+  validateExportProducts
+} from '../../controllers/productSpreadsheets';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/export', validateExportProducts, exportProducts);
+router.post('/import', spreadsheetUpload.single('file'), validateImportProducts, importProducts);
+
+export default router;
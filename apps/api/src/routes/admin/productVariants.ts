@@ -0,0 +1,21 @@
+import express from 'express';
+import {
+  getProductVariants,
+  createProductVariant,
+  updateProductVariant,
+  deleteProductVariant,
+  validateProductId,
+  validateCreateProductVariant,
+  validateUpdateProductVariant,
+  validateVariantId
+} from '../../controllers/productVariants';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/:productId/variants', validateProductId, getProductVariants);
+router.post('/:productId/variants', validateCreateProductVariant, createProductVariant);
+router.put('/:productId/variants/:variantId', validateUpdateProductVariant, updateProductVariant);
+router.delete('/:productId/variants/:variantId', validateVariantId, deleteProductVariant);
+
+export default router;
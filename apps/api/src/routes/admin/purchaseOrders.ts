@@ -0,0 +1,31 @@
+import express from 'express';
+import {
+  getPurchaseOrders,
+  getPurchaseOrderReceipts,
+  getPurchaseOrder,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  placePurchaseOrder,
+  receivePurchaseOrderDelivery,
+  deletePurchaseOrder,
+  validatePurchaseOrderQuery,
+  validateReceiptQuery,
+  validatePurchaseOrderId,
+  validateCreatePurchaseOrder,
+  validateUpdatePurchaseOrder,
+  validateReceivePurchaseOrder
+} from '../../controllers/purchaseOrders';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/', validatePurchaseOrderQuery, getPurchaseOrders);
+router.get('/receipts', validateReceiptQuery, getPurchaseOrderReceipts);
+router.get('/:id', validatePurchaseOrderId, getPurchaseOrder);
+router.post('/', validateCreatePurchaseOrder, createPurchaseOrder);
+router.patch('/:id', validateUpdatePurchaseOrder, updatePurchaseOrder);
+router.patch('/:id/order', validatePurchaseOrderId, placePurchaseOrder);
+router.post('/:id/receive', validateReceivePurchaseOrder, receivePurchaseOrderDelivery);
+router.delete('/:id', validatePurchaseOrderId, deletePurchaseOrder);
+
+export default router;
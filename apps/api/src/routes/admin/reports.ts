@@ -0,0 +1,9 @@
+import express from 'express';
+import { getMarginReport, validateMarginReportQuery } from '../../controllers/reports';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/margins', validateMarginReportQuery, getMarginReport);
+
+export default router;
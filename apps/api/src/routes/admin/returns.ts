@@ -0,0 +1,24 @@
+import express from 'express';
+import {
+  getReturnRequests,
+  getReturnRequest,
+  approveReturnRequest,
+  rejectReturnRequest,
+  receiveReturnRequest,
+  validateReturnRequestQuery,
+  validateReturnRequestId,
+  validateApproveReturnRequest,
+  validateRejectReturnRequest,
+  validateReceiveReturnRequest
+} from '../../controllers/returnRequests';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/', validateReturnRequestQuery, getReturnRequests);
+router.get('/:id', validateReturnRequestId, getReturnRequest);
+router.patch('/:id/approve', validateApproveReturnRequest, approveReturnRequest);
+router.patch('/:id/reject', validateRejectReturnRequest, rejectReturnRequest);
+router.patch('/:id/receive', validateReceiveReturnRequest, receiveReturnRequest);
+
+export default router;
@@ -0,0 +1,17 @@
+import express from 'express';
+import {
+  getReviews,
+  approveReview,
+  hideReview,
+  validateReviewQuery,
+  validateModerateReview
+} from '../../controllers/reviews';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/', validateReviewQuery, getReviews);
+router.patch('/:id/approve', validateModerateReview, approveReview);
+router.patch('/:id/hide', validateModerateReview, hideReview);
+
+export default router;
@@ -0,0 +1,20 @@
+import express from 'express';
+import {
+  getShippingRates,
+  createShippingRate,
+  updateShippingRate,
+  deleteShippingRate,
+  validateCreateShippingRate,
+  validateUpdateShippingRate,
+  validateShippingRateId
+} from '../../controllers/shipping';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/', getShippingRates);
+router.post('/', validateCreateShippingRate, createShippingRate);
+router.patch('/:id', validateUpdateShippingRate, updateShippingRate);
+router.delete('/:id', validateShippingRateId, deleteShippingRate);
+
+export default router;
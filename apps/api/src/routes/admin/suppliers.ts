@@ -0,0 +1,20 @@
+import express from 'express';
+import {
+  getSuppliers,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier,
+  validateCreateSupplier,
+  validateUpdateSupplier,
+  validateSupplierId
+} from '../../controllers/suppliers';
+
+const router = express.Router();
+
+// Authentication and admin role are enforced by the parent admin router
+router.get('/', getSuppliers);
+router.post('/', validateCreateSupplier, createSupplier);
+router.patch('/:id', validateUpdateSupplier, updateSupplier);
+router.delete('/:id', validateSupplierId, deleteSupplier);
+
+export default router;
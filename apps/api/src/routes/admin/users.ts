@@ -52,6 +52,7 @@ router.get('/', async (req: Request, res: Response) => {
           email: true,
           role: true,
           isEmailVerified: true,
+          isWholesale: true,
           address: true,
           createdAt: true,
           updatedAt: true
@@ -136,6 +137,7 @@ router.post('/', [
         email: true,
         role: true,
         isEmailVerified: true,
+        isWholesale: true,
         address: true,
         createdAt: true,
         updatedAt: true
@@ -160,7 +162,8 @@ router.patch('/:userId', [
   body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
   body('email').optional().isEmail().withMessage('Valid email is required'),
   body('role').optional().isIn(['customer', 'admin', 'super_admin']).withMessage('Invalid role'),
-  body('isActive').optional().isBoolean().withMessage('isActive must be boolean')
+  body('isActive').optional().isBoolean().withMessage('isActive must be boolean'),
+  body('isWholesale').optional().isBoolean().withMessage('isWholesale must be boolean')
 ], async (req: Request, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -211,6 +214,7 @@ router.patch('/:userId', [
         email: true,
         role: true,
         isEmailVerified: true,
+        isWholesale: true,
         address: true,
         createdAt: true,
         updatedAt: true
@@ -0,0 +1,15 @@
+import express from 'express';
+import {
+  getCategories,
+  getCategoryBySlug,
+  validateCategorySlug,
+  validateGetCategories
+} from '../controllers/categories';
+
+const router = express.Router();
+
+// Public routes - the storefront menus and category pages
+router.get('/', validateGetCategories, getCategories);
+router.get('/:slug', validateCategorySlug, getCategoryBySlug);
+
+export default router;
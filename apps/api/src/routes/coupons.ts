@@ -0,0 +1,10 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import { validateCouponForCart, validateCouponPreview } from '../controllers/coupons';
+
+const router = express.Router();
+
+// Customer route - preview a coupon against the cart before placing the order
+router.post('/validate', authenticate, validateCouponPreview, validateCouponForCart);
+
+export default router;
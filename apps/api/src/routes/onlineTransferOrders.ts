@@ -3,10 +3,18 @@ import { authenticate, requireAdmin } from '../middleware/auth';
 import {
   createOnlineTransferOrder,
   confirmPayment,
+  bulkConfirmPayment,
+  getPaymentVerificationQueue,
+  submitPaymentProof,
   getPaymentDetails,
   getOrderPaymentInfo,
+  getOrderPaymentQrCodes,
   validateOnlineTransferOrder,
   validatePaymentConfirmation,
+  validateBulkPaymentConfirmation,
+  validatePaymentQueueQuery,
+  validatePaymentProof,
+  validatePaymentQrFormat,
   validateOrderId
 } from '../controllers/onlineTransferOrders';
 
@@ -15,11 +23,15 @@ const router = express.Router();
 // Customer routes - require authentication
 router.post('/', authenticate, validateOnlineTransferOrder, createOnlineTransferOrder);
 router.get('/:id/payment-info', authenticate, validateOrderId, getOrderPaymentInfo);
+router.get('/:id/payment-qr', authenticate, validatePaymentQrFormat, getOrderPaymentQrCodes);
+router.patch('/:id/payment-proof', authenticate, validatePaymentProof, submitPaymentProof);
 
 // Admin routes - require authentication and admin role
 router.use(authenticate);
 router.use(requireAdmin);
 
+router.get('/verification-queue', validatePaymentQueueQuery, getPaymentVerificationQueue);
+router.patch('/payment-confirmation', validateBulkPaymentConfirmation, bulkConfirmPayment);
 router.patch('/:id/payment-confirmation', validatePaymentConfirmation, confirmPayment);
 router.get('/:id/payment-details', validateOrderId, getPaymentDetails);
 
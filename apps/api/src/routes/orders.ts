@@ -3,6 +3,32 @@ import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
 import { generateTransactionId } from '../utils/otp';
+import { claimCouponUse, CouponUnavailableError, resolveCoupon } from '../utils/coupons';
+import { quoteShipping } from '../utils/shipping';
+import { recordOrderStatusEvent, statusEventsInclude } from '../utils/orderEvents';
+import { transitionOrder } from '../utils/orderLifecycle';
+import { settleRefund } from '../utils/refunds';
+import { getReservationExpiry, hasPaymentProof } from '../utils/reservations';
+import {
+  DUPLICATE_TRANSACTION_ID_MESSAGE,
+  findTransactionIdConflicts,
+  hashPaymentScreenshot,
+  isDuplicateTransactionIdError
+} from '../utils/paymentFraud';
+import { getPaymentProvider, isPaymentTypeEnabled } from '../utils/paymentProviders';
+import { startOrderPayment } from '../utils/paymentVerification';
+import { consumeStock } from '../utils/inventoryCosting';
+import { releaseReservation, reserveOrderStock } from '../utils/stockLevels';
+import { toOrderItemMetadata } from '../utils/productAttributes';
+import { resolveOrderLine } from '../utils/productVariants';
+import { orderablePricesInclude } from '../utils/productPricing';
+import { toOrderItemTier } from '../utils/priceTiers';
+import { upload } from '../middleware/upload';
+import {
+  createReturnRequest,
+  getOrderReturnRequests,
+  validateCreateReturnRequest
+} from '../controllers/returnRequests';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -14,15 +40,19 @@ const prisma = new PrismaClient();
 router.post('/', authenticate, [
   body('items').isArray({ min: 1 }),
   body('items.*.productId').notEmpty(),
+  body('items.*.variantId').optional({ nullable: true }).isString(),
   body('items.*.quantity').isInt({ min: 1 }),
   body('shippingAddress').isObject(),
   body('shippingAddress.name').notEmpty(),
   body('shippingAddress.address').notEmpty(),
   body('shippingAddress.phone').notEmpty(),
-  body('paymentType').isIn(['COD', 'ONLINE_TRANSFER']),
+  body('shippingAddress.region').notEmpty(),
+  body('shippingAddress.township').optional().isString(),
+  body('paymentType').custom(isPaymentTypeEnabled).withMessage('Payment type is not available'),
   body('paymentMethodId').optional(),
-  body('transactionId').optional(),
+  body('transactionId').optional().trim(),
   body('paymentScreenshot').optional(),
+  body('couponCode').optional().isString(),
 ], async (req: AuthRequest, res: any) => {
   try {
     const errors = validationResult(req);
@@ -40,11 +70,16 @@ router.post('/', authenticate, [
       paymentType, 
       paymentMethodId, 
       transactionId, 
-      paymentScreenshot 
+      paymentScreenshot,
+      couponCode
     } = req.body;
 
-    // Validate payment method for ONLINE_TRANSFER
-    if (paymentType === 'ONLINE_TRANSFER') {
+    const paymentProvider = getPaymentProvider(paymentType);
+    // Proof only counts for providers where an admin verifies it
+    const paymentProof = paymentProvider.acceptsPaymentProof ? { transactionId, paymentScreenshot } : {};
+
+    // Validate payment method for manual transfers
+    if (paymentProvider.acceptsPaymentProof) {
       if (!paymentMethodId && !transactionId) {
         return res.status(400).json({
           success: false,
@@ -52,6 +87,13 @@ router.post('/', authenticate, [
         });
       }
 
+      if (transactionId && (await findTransactionIdConflicts(prisma, { transactionId, companyAccountId: null })).length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: DUPLICATE_TRANSACTION_ID_MESSAGE
+        });
+      }
+
       // Verify payment method belongs to user
       if (paymentMethodId) {
         const paymentMethod = await prisma.paymentMethod.findFirst({
@@ -67,16 +109,15 @@ router.post('/', authenticate, [
       }
     }
 
-    // Validate products and calculate total
+    // Validate products and calculate total at the prices in effect now
     let totalAmount = 0;
     const orderItems: any[] = [];
+    const pricedAt = new Date();
 
     for (const item of items) {
       const product = await prisma.product.findUnique({
         where: { id: item.productId },
-        include: {
-          stockEntries: true,
-        }
+        include: orderablePricesInclude(pricedAt)
       });
 
       if (!product || product.disabled) {
@@ -86,29 +127,95 @@ router.post('/', authenticate, [
         });
       }
 
+      // Products with variants are priced and stocked per variant; large lines get tier prices
+      const line = resolveOrderLine(product, item.variantId, pricedAt, {
+        quantity: item.quantity,
+        isWholesale: req.user!.isWholesale
+      });
+      if (!line.valid) {
+        return res.status(400).json({
+          success: false,
+          error: line.error
+        });
+      }
+
       // Check stock availability
-      const totalStock = product.stockEntries.reduce((sum, entry) => sum + entry.quantity, 0);
-      
-      if (product.outOfStock || (!product.allowSellWithoutStock && totalStock < item.quantity)) {
+      if (product.outOfStock || (!product.allowSellWithoutStock && line.stockOnHand < item.quantity)) {
         return res.status(400).json({
           success: false,
           error: `Insufficient stock for product ${product.name_en}`
         });
       }
 
-      const itemTotal = Number(product.price) * item.quantity;
+      const itemTotal = line.unitPrice * item.quantity;
       totalAmount += itemTotal;
 
       orderItems.push({
         productId: item.productId,
+        variantId: line.variant?.id || null,
         quantity: item.quantity,
-        unitPrice: product.price,
-        metadata: product.metadata,
+        unitPrice: line.unitPrice,
+        ...toOrderItemTier(line),
+        metadata: toOrderItemMetadata(product, line.variant),
       });
     }
 
+    // Validate coupon and apply discount to the items total
+    let couponId: string | null = null;
+    let appliedCouponCode: string | null = null;
+    let discountAmount = 0;
+
+    if (couponCode) {
+      const couponResult = await resolveCoupon(
+        prisma,
+        couponCode,
+        req.user!.id,
+        orderItems.map(item => ({
+          productId: item.productId,
+          unitPrice: Number(item.unitPrice),
+          quantity: item.quantity,
+        }))
+      );
+
+      if (!couponResult.valid) {
+        return res.status(400).json({
+          success: false,
+          error: couponResult.error
+        });
+      }
+
+      couponId = couponResult.coupon.id;
+      appliedCouponCode = couponResult.coupon.code;
+      discountAmount = couponResult.discountAmount;
+      totalAmount -= discountAmount;
+    }
+
+    // Shipping is charged on top of the discounted total; the free threshold uses the pre-discount subtotal
+    const shippingQuote = await quoteShipping(
+      prisma,
+      { region: shippingAddress.region, township: shippingAddress.township },
+      orderItems,
+      totalAmount + discountAmount
+    );
+
+    if (!shippingQuote.available) {
+      return res.status(400).json({
+        success: false,
+        error: shippingQuote.error
+      });
+    }
+
+    const shippingFee = shippingQuote.fee;
+    totalAmount += shippingFee;
+
+    const paymentScreenshotHash = paymentProvider.acceptsPaymentProof ? await hashPaymentScreenshot(paymentScreenshot) : null;
+
     // Create order with transaction
     const order = await prisma.$transaction(async (tx) => {
+      if (couponId) {
+        await claimCouponUse(tx, couponId, req.user!.id);
+      }
+
       // Create order
       const newOrder = await tx.order.create({
         data: {
@@ -116,39 +223,70 @@ router.post('/', authenticate, [
           paymentType,
           paymentMethodId: paymentMethodId || null,
           totalAmount,
+          couponId,
+          couponCode: appliedCouponCode,
+          discountAmount,
+          shippingFee,
           shippingAddress,
           transactionId: transactionId || generateTransactionId(),
           paymentScreenshot: paymentScreenshot || null,
-          status: paymentType === 'COD' ? 'PROCESSING' : 'PENDING',
+          paymentScreenshotHash,
+          status: paymentProvider.initialStatus,
+          // A generated transaction ID is not proof of payment, so check the request body
+          reservationExpiresAt: getReservationExpiry({ paymentType, ...paymentProof }),
+          paymentSubmittedAt: hasPaymentProof(paymentProof) ? new Date() : null,
         }
       });
 
-      // Create order items and deduct inventory
+      await recordOrderStatusEvent(tx, {
+        orderId: newOrder.id,
+        fromStatus: null,
+        toStatus: newOrder.status,
+        actorId: req.user!.id,
+        note: 'Order placed'
+      });
+
+      // Deduct inventory and create order items with the cost of the bags consumed
       for (const item of orderItems) {
+        // Deduction is recorded as a negative stock entry for the audit trail
+        const consumption = await consumeStock(tx, {
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity
+        }, { type: 'SALE', orderId: newOrder.id, actorId: req.user!.id });
+
         await tx.orderItem.create({
           data: {
             orderId: newOrder.id,
             productId: item.productId,
+            variantId: item.variantId,
             unitPrice: item.unitPrice,
             quantity: item.quantity,
+            listPrice: item.listPrice,
+            tierMinQuantity: item.tierMinQuantity,
+            tierPriceList: item.tierPriceList,
             metadata: item.metadata,
+            costAmount: consumption.totalCost,
           }
         });
+      }
 
-        // Deduct inventory by creating negative stock entry
-        // This approach maintains audit trail of all stock movements
-        await tx.stockEntry.create({
-          data: {
-            productId: item.productId,
-            quantity: -item.quantity, // Negative quantity for deduction
-            purchasePrice: 0, // No purchase price for sales deduction
-          }
-        });
+      if (newOrder.reservationExpiresAt) {
+        await reserveOrderStock(tx, orderItems);
       }
 
       return newOrder;
     });
 
+    // Start the payment; orders whose gateway cannot be reached are canceled and restocked
+    const payment = await startOrderPayment(prisma, order.id);
+    if (!payment.success) {
+      return res.status(payment.status).json({
+        success: false,
+        error: payment.error
+      });
+    }
+
     // Fetch complete order with relations
     const completeOrder = await prisma.order.findUnique({
       where: { id: order.id },
@@ -172,9 +310,25 @@ router.post('/', authenticate, [
     res.status(201).json({
       success: true,
       message: 'Order created successfully',
-      order: completeOrder
+      order: completeOrder,
+      // Where the customer pays, for providers with a hosted checkout
+      redirectUrl: payment.redirectUrl
     });
   } catch (error) {
+    if (error instanceof CouponUnavailableError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (isDuplicateTransactionIdError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: DUPLICATE_TRANSACTION_ID_MESSAGE
+      });
+    }
+
     console.error('Create order error:', error);
     res.status(500).json({
       success: false,
@@ -223,6 +377,11 @@ router.get('/:id', authenticate, async (req: AuthRequest, res) => {
         },
         paymentMethod: true,
         refunds: true,
+        statusEvents: statusEventsInclude,
+        returnRequests: {
+          include: { items: true },
+          orderBy: { createdAt: 'desc' }
+        },
       }
     });
 
@@ -254,6 +413,7 @@ router.patch('/:id/status', authenticate, requireAdmin, [
   body('status').isIn(['PENDING', 'PROCESSING', 'ON_HOLD', 'SHIPPED', 'DELIVERED', 'CANCELED', 'RETURNED', 'REFUNDED']),
   body('refundAmount').optional().isFloat({ min: 0 }),
   body('refundReason').optional().isString(),
+  body('note').optional().isString().isLength({ max: 1000 }),
 ], async (req: AuthRequest, res: any) => {
   try {
     const errors = validationResult(req);
@@ -266,48 +426,39 @@ router.patch('/:id/status', authenticate, requireAdmin, [
     }
 
     const { id } = req.params;
-    const { status, refundAmount, refundReason } = req.body;
-
-    const order = await prisma.$transaction(async (tx) => {
-      // Update order status
-      const updatedOrder = await tx.order.update({
-        where: { id },
-        data: { status }
+    const { status, refundAmount, refundReason, note } = req.body;
+
+    const result = await prisma.$transaction(async (tx) => {
+      return transitionOrder(tx, id, {
+        to: status,
+        actor: { id: req.user!.id, role: 'admin' },
+        note,
+        refund: refundAmount && refundReason
+          ? { amount: parseFloat(refundAmount), reason: refundReason }
+          : undefined,
+        restock: true // This route has always restocked refunded orders
       });
+    });
 
-      // Handle refund if status is REFUNDED
-      if (status === 'REFUNDED' && refundAmount && refundReason) {
-        await tx.refund.create({
-          data: {
-            orderId: id,
-            amount: parseFloat(refundAmount),
-            reason: refundReason,
-          }
-        });
-
-        // Restore inventory if order is being refunded
-        const orderItems = await tx.orderItem.findMany({
-          where: { orderId: id }
-        });
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error
+      });
+    }
 
-        for (const item of orderItems) {
-          await tx.stockEntry.create({
-            data: {
-              productId: item.productId,
-              quantity: item.quantity, // Positive quantity to restore stock
-              purchasePrice: 0,
-            }
-          });
-        }
-      }
+    // Pay the refund out once the status change has committed; a failed payout stays on the order to retry
+    const settlement = result.refundId ? await settleRefund(prisma, result.refundId) : null;
 
-      return updatedOrder;
-    });
+    const order = await prisma.order.findUnique({ where: { id } });
 
     res.json({
       success: true,
-      message: 'Order status updated successfully',
-      order
+      message: settlement && !settlement.success
+        ? `Order status updated, but the refund payout failed: ${settlement.error}`
+        : 'Order status updated successfully',
+      order,
+      settlement
     });
   } catch (error) {
     console.error('Update order status error:', error);
@@ -466,7 +617,7 @@ router.get('/admin/all', authenticate, requireAdmin, async (req: AuthRequest, re
  * Update order transaction ID (authenticated customer - only for their own orders)
  */
 router.patch('/:id/transaction', authenticate, [
-  body('transactionId').notEmpty().withMessage('Transaction ID is required'),
+  body('transactionId').trim().notEmpty().withMessage('Transaction ID is required'),
 ], async (req: AuthRequest, res: any) => {
   try {
     const errors = validationResult(req);
@@ -511,25 +662,42 @@ router.patch('/:id/transaction', authenticate, [
       });
     }
 
-    // Update transaction ID
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: { transactionId },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                name_en: true,
-                name_my: true,
-                images: true,
+    const conflicts = await findTransactionIdConflicts(prisma, {
+      transactionId,
+      companyAccountId: order.companyAccountId,
+      excludeOrderId: id
+    });
+    if (conflicts.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: DUPLICATE_TRANSACTION_ID_MESSAGE
+      });
+    }
+
+    // Update transaction ID; the order now has proof to verify, so stop the reservation clock
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      await releaseReservation(tx, id);
+
+      return tx.order.update({
+        where: { id },
+        // A transfer still waiting for verification ages from the new proof
+        data: { transactionId, ...(order.status === 'PENDING' ? { paymentSubmittedAt: new Date() } : {}) },
+        include: {
+          items: {
+            include: {
+              product: {
+                select: {
+                  id: true,
+                  name_en: true,
+                  name_my: true,
+                  images: true,
+                }
               }
             }
-          }
-        },
-        paymentMethod: true,
-      }
+          },
+          paymentMethod: true,
+        }
+      });
     });
 
     res.json({
@@ -538,6 +706,13 @@ router.patch('/:id/transaction', authenticate, [
       order: updatedOrder
     });
   } catch (error) {
+    if (isDuplicateTransactionIdError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: DUPLICATE_TRANSACTION_ID_MESSAGE
+      });
+    }
+
     console.error('Update transaction ID error:', error);
     res.status(500).json({
       success: false,
@@ -558,9 +733,6 @@ router.patch('/:id/cancel', authenticate, async (req: AuthRequest, res) => {
       where: {
         id,
         userId: req.user!.id
-      },
-      include: {
-        items: true
       }
     });
 
@@ -571,124 +743,56 @@ router.patch('/:id/cancel', authenticate, async (req: AuthRequest, res) => {
       });
     }
 
-    // Only allow canceling orders in PENDING or PROCESSING status
-    if (!['PENDING', 'PROCESSING'].includes(order.status)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Order can only be cancelled if it is pending or processing'
+    // Status rules and restocking are enforced by the order lifecycle
+    const result = await prisma.$transaction(async (tx) => {
+      const transition = await transitionOrder(tx, id, {
+        to: 'CANCELED',
+        actor: { id: req.user!.id, role: 'customer' },
+        note: 'Canceled by customer'
       });
-    }
 
-    // Update order status to CANCELLED
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: { 
-        status: 'CANCELED',
-        updatedAt: new Date()
-      },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                name_en: true,
-                name_my: true,
-                images: true,
-              }
-            }
-          }
-        },
-        paymentMethod: true,
+      if (!transition.success) {
+        return transition;
       }
-    });
 
-    // Restore inventory by creating positive stock entries
-    for (const item of order.items) {
-      await prisma.stockEntry.create({
-        data: {
-          productId: item.productId,
-          quantity: item.quantity, // Positive quantity for restoration
-          purchasePrice: 0, // No purchase price for cancellation restoration
+      const updatedOrder = await tx.order.findUnique({
+        where: { id },
+        include: {
+          items: {
+            include: {
+              product: {
+                select: {
+                  id: true,
+                  name_en: true,
+                  name_my: true,
+                  images: true,
+                }
+              }
+            }
+          },
+          paymentMethod: true,
         }
       });
-    }
 
-    res.json({
-      success: true,
-      message: 'Order cancelled successfully',
-      order: updatedOrder
-    });
-  } catch (error) {
-    console.error('Cancel order error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Internal server error'
-    });
-  }
-});
-
-/**
- * Request return (authenticated customer - only for their own orders)
- */
-router.patch('/:id/return', authenticate, async (req: AuthRequest, res) => {
-  try {
-    const { id } = req.params;
-
-    // Find order and verify ownership
-    const order = await prisma.order.findFirst({
-      where: {
-        id,
-        userId: req.user!.id
-      }
+      return { success: true as const, order: updatedOrder };
     });
 
-    if (!order) {
-      return res.status(404).json({
-        success: false,
-        error: 'Order not found'
-      });
-    }
-
-    // Only allow return requests for DELIVERED orders
-    if (order.status !== 'DELIVERED') {
-      return res.status(400).json({
+    if (!result.success) {
+      return res.status(result.status).json({
         success: false,
-        error: 'Return can only be requested for delivered orders'
+        error: result.error
       });
     }
 
-    // Update order status to RETURNED
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: { 
-        status: 'RETURNED',
-        updatedAt: new Date()
-      },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                name_en: true,
-                name_my: true,
-                images: true,
-              }
-            }
-          }
-        },
-        paymentMethod: true,
-      }
-    });
+    const updatedOrder = result.order;
 
     res.json({
       success: true,
-      message: 'Return request submitted successfully',
+      message: 'Order cancelled successfully',
       order: updatedOrder
     });
   } catch (error) {
-    console.error('Request return error:', error);
+    console.error('Cancel order error:', error);
     res.status(500).json({
       success: false,
       error: 'Internal server error'
@@ -696,4 +800,11 @@ router.patch('/:id/return', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * Return requests (authenticated customer - only for their own orders)
+ * Photos are uploaded as multipart form data in the `photos` field
+ */
+router.post('/:id/returns', authenticate, upload.array('photos', 5), validateCreateReturnRequest, createReturnRequest);
+router.get('/:id/returns', authenticate, getOrderReturnRequests);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,39 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  getPaymentProviders,
+  handlePaymentCallback,
+  getOrderPaymentStatus,
+  showMockCheckout,
+  submitMockCheckout,
+  validatePaymentCallback,
+  validateOrderPaymentStatus,
+  validateMockReference,
+  validateMockCheckout
+} from '../controllers/payments';
+
+const router = express.Router();
+
+// The mock gateway's checkout only exists while it is enabled
+const requireMockGateway = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (process.env.PAYMENT_MOCK_ENABLED !== 'true') {
+    return res.status(404).json({
+      success: false,
+      message: 'Mock payment gateway is disabled'
+    });
+  }
+  next();
+};
+
+// Public routes
+router.get('/providers', getPaymentProviders);
+router.get('/mock/checkout/:reference', requireMockGateway, validateMockReference, showMockCheckout);
+router.post('/mock/checkout/:reference', requireMockGateway, validateMockCheckout, submitMockCheckout);
+
+// Gateway webhooks are authenticated by their signature
+router.post('/:type/callback', validatePaymentCallback, handlePaymentCallback);
+
+// Customer routes - require authentication
+router.get('/orders/:id/status', authenticate, validateOrderPaymentStatus, getOrderPaymentStatus);
+
+export default router;
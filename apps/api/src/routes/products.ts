@@ -1,27 +1,106 @@
 import express from 'express';
 import { body, validationResult, query } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
-import { authenticate, requireAdmin } from '../middleware/auth';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { authenticate, optionalAuthenticate, requireAdmin } from '../middleware/auth';
 import { upload, processImage, generateThumbnail } from '../middleware/upload';
+import { addStockLot } from '../utils/inventoryCosting';
+import {
+  AttributeFilters,
+  formatProductAttributes,
+  getProductFacets,
+  productAttributeValidators,
+  productAttributeWhere,
+  toProductAttributeData
+} from '../utils/productAttributes';
+import { activeVariantsQuery, formatProductVariant, resolveOrderLine } from '../utils/productVariants';
+import { categoryProductWhere, productCategorySelect } from '../utils/categories';
+import {
+  SearchSuggestion,
+  getSearchSuggestions,
+  highlightMatches,
+  normalizeSearchText,
+  refreshProductSearchText,
+  searchProducts
+} from '../utils/productSearch';
+import {
+  findProductIdsByEffectivePrice,
+  orderablePricesInclude,
+  productPricesQuery,
+  resolveEffectivePrice,
+  setRegularPrice,
+  variantPricesQuery
+} from '../utils/productPricing';
+import { getPriceBands, productPriceTiersQuery, variantPriceTiersQuery } from '../utils/priceTiers';
+import { formatProductRating } from '../utils/reviews';
+import {
+  createReview,
+  getMyProductReview,
+  getProductReviews,
+  validateCreateReview,
+  validateProductReviewsQuery
+} from '../controllers/reviews';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+// Active variants and the prices in effect on the product and each variant
+const listedProductInclude = (now: Date) => ({
+  prices: productPricesQuery(now),
+  variants: { ...activeVariantsQuery, include: { prices: variantPricesQuery(now) } }
+}) satisfies Prisma.ProductInclude;
+
+type ProductListItem = Prisma.ProductGetPayload<{ include: ReturnType<typeof listedProductInclude> }>;
+
+/**
+ * Product as shown in public lists and search results, in the given locale
+ */
+const formatProductListItem = (product: ProductListItem, locale: string, now: Date) => ({
+  id: product.id,
+  sku: product.sku,
+  name: locale === 'my' ? (product.name_my || product.name_en) : product.name_en,
+  name_en: product.name_en,
+  name_my: product.name_my,
+  description: locale === 'my' ? (product.description_my || product.description_en) : product.description_en,
+  description_en: product.description_en,
+  description_my: product.description_my,
+  images: product.images,
+  // Sale prices come with the regular price as compareAtPrice
+  ...resolveEffectivePrice(product.price, product.prices, now),
+  disabled: product.disabled,
+  outOfStock: product.outOfStock,
+  allowSellWithoutStock: product.allowSellWithoutStock,
+  attributes: formatProductAttributes(product),
+  metadata: product.metadata,
+  totalStock: product.stockOnHand > 0 ? 1 : 0, // Hide actual quantity, only show if in stock or not
+  rating: formatProductRating(product),
+  variants: product.variants.map(variant => ({
+    ...formatProductVariant(variant),
+    ...resolveEffectivePrice(variant.price, variant.prices, now),
+    stockOnHand: variant.stockOnHand > 0 ? 1 : 0
+  })),
+  createdAt: product.createdAt,
+  updatedAt: product.updatedAt,
+});
+
 /**
  * Get products (public)
- * Returns paginated list of products with locale support
+ * Returns paginated list of products with locale support and attribute facet counts
  */
 router.get('/', [
   query('page').optional().isInt({ min: 1 }),
   query('limit').optional().isInt({ min: 1, max: 100 }),
   query('locale').optional().isIn(['en', 'my']),
   query('search').optional().isString(),
+  query('category').optional().isString(),
   query('variety').optional().isString(),
-  query('weight').optional().isString(),
+  query('grade').optional().isString(),
+  query('weightKg').optional().isFloat({ gt: 0 }),
+  query('origin').optional().isString(),
+  query('packageType').optional().isString(),
   query('priceMin').optional().isFloat({ min: 0 }),
   query('priceMax').optional().isFloat({ min: 0 }),
   query('inStock').optional().isBoolean(),
-  query('sortBy').optional().isIn(['priceLow', 'priceHigh', 'name', 'newest', 'oldest']),
+  query('sortBy').optional().isIn(['priceLow', 'priceHigh', 'name', 'newest', 'oldest', 'rating']),
   query('disabled').optional().isBoolean(),
   query('excludeId').optional().isString(),
 ], async (req: any, res: any) => {
@@ -40,8 +119,7 @@ router.get('/', [
       limit = 20, 
       locale = 'en',
       search,
-      variety,
-      weight,
+      category,
       priceMin,
       priceMax,
       inStock,
@@ -51,6 +129,7 @@ router.get('/', [
     } = req.query;
 
     const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+    const now = new Date();
 
     const where: any = {
       disabled: disabled === 'true' ? true : false,
@@ -60,109 +139,108 @@ router.get('/', [
       where.id = { not: excludeId };
     }
 
+    // Every word must appear in the product's names, attributes, sizes,
+    // categories or descriptions; Zawgyi queries match Unicode text
     if (search) {
-      where.OR = [
-        { name_en: { contains: search, mode: 'insensitive' } },
-        { name_my: { contains: search, mode: 'insensitive' } },
-        { description_en: { contains: search, mode: 'insensitive' } },
-        { description_my: { contains: search, mode: 'insensitive' } },
-        { sku: { contains: search, mode: 'insensitive' } },
-      ];
+      where.AND = normalizeSearchText(search)
+        .split(' ')
+        .filter(Boolean)
+        .map(term => ({ searchText: { contains: term } }));
     }
 
-    // Note: For metadata filtering, we'll need to filter after fetching
-    // since Prisma doesn't support complex JSON path queries easily
+    if (inStock === 'true') {
+      where.outOfStock = false;
+    }
 
-    if (priceMin !== undefined) {
-      where.price = { gte: parseFloat(priceMin as string) };
+    // Includes the products of subcategories
+    if (category) {
+      Object.assign(where, await categoryProductWhere(prisma, category));
     }
 
-    if (priceMax !== undefined) {
-      where.price = { 
-        ...where.price,
-        lte: parseFloat(priceMax as string) 
+    // Price filters use the effective price shown in the list, so products on sale match at their sale price
+    if (priceMin !== undefined || priceMax !== undefined) {
+      const candidates = await prisma.product.findMany({ where, select: { id: true } });
+      where.id = {
+        in: await findProductIdsByEffectivePrice(prisma, candidates.map(candidate => candidate.id), {
+          min: priceMin !== undefined ? parseFloat(priceMin as string) : undefined,
+          max: priceMax !== undefined ? parseFloat(priceMax as string) : undefined
+        }, now)
       };
     }
 
-    if (inStock === 'true') {
-      where.outOfStock = false;
-    }
+    const attributeFilters: AttributeFilters = {
+      variety: req.query.variety,
+      grade: req.query.grade,
+      weightKg: req.query.weightKg,
+      origin: req.query.origin,
+      packageType: req.query.packageType
+    };
+    const filteredWhere = { ...where, ...productAttributeWhere(attributeFilters) };
 
-    // Build orderBy clause
+    // Build orderBy clause; price sorting is done on the effective price below
     let orderBy: any = { createdAt: 'desc' };
     switch (sortBy) {
-      case 'priceLow':
-        orderBy = { price: 'asc' };
-        break;
-      case 'priceHigh':
-        orderBy = { price: 'desc' };
-        break;
       case 'name':
         orderBy = { name_en: 'asc' };
         break;
       case 'oldest':
         orderBy = { createdAt: 'asc' };
         break;
+      case 'rating':
+        // Unrated products go last; ties go to the product with more reviews
+        orderBy = [{ ratingAverage: { sort: 'desc', nulls: 'last' } }, { ratingCount: 'desc' }];
+        break;
       case 'newest':
       default:
         orderBy = { createdAt: 'desc' };
         break;
     }
 
-    const [products, total] = await Promise.all([
-      prisma.product.findMany({
-        where,
-        include: {
-          stockEntries: {
-            select: {
-              quantity: true,
-            }
-          },
-        },
-        skip,
-        take: parseInt(limit as string),
-        orderBy,
-      }),
-      prisma.product.count({ where })
-    ]);
-
-    // Calculate total stock and format response based on locale
-    let formattedProducts = products.map(product => {
-      const totalStock = product.stockEntries.reduce((sum, entry) => sum + entry.quantity, 0);
-      
-      return {
-        id: product.id,
-        sku: product.sku,
-        name: locale === 'my' ? (product.name_my || product.name_en) : product.name_en,
-        name_en: product.name_en,
-        name_my: product.name_my,
-        description: locale === 'my' ? (product.description_my || product.description_en) : product.description_en,
-        description_en: product.description_en,
-        description_my: product.description_my,
-        images: product.images,
-        price: product.price,
-        disabled: product.disabled,
-        outOfStock: product.outOfStock,
-        allowSellWithoutStock: product.allowSellWithoutStock,
-        metadata: product.metadata,
-        totalStock: totalStock > 0 ? 1 : 0, // Hide actual quantity, only show if in stock or not
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      };
-    });
+    const priceOrder = sortBy === 'priceLow' ? 'asc' : sortBy === 'priceHigh' ? 'desc' : null;
+
+    const listProducts = async (): Promise<[ProductListItem[], number]> => {
+      if (!priceOrder) {
+        return Promise.all([
+          prisma.product.findMany({
+            where: filteredWhere,
+            skip,
+            take: parseInt(limit as string),
+            orderBy,
+            include: listedProductInclude(now),
+          }),
+          prisma.product.count({ where: filteredWhere })
+        ]);
+      }
 
-    // Apply metadata filtering after fetching (since Prisma JSON queries are complex)
-    if (variety) {
-      formattedProducts = formattedProducts.filter(product => 
-        product.metadata && (product.metadata as any).variety === variety
+      // Sale prices are not stored on the product, so order the matching IDs in SQL and load one page
+      const candidates = await prisma.product.findMany({ where: filteredWhere, select: { id: true } });
+      const orderedIds = await findProductIdsByEffectivePrice(
+        prisma,
+        candidates.map(candidate => candidate.id),
+        { order: priceOrder },
+        now
       );
-    }
+      const pageIds = orderedIds.slice(skip, skip + parseInt(limit as string));
+      const page = await prisma.product.findMany({
+        where: { id: { in: pageIds } },
+        include: listedProductInclude(now),
+      });
 
-    if (weight) {
-      formattedProducts = formattedProducts.filter(product => 
-        product.metadata && (product.metadata as any).weight === weight
-      );
-    }
+      return [
+        pageIds
+          .map(id => page.find(product => product.id === id))
+          .filter((product): product is ProductListItem => product !== undefined),
+        orderedIds.length
+      ];
+    };
+
+    const [[products, total], facets] = await Promise.all([
+      listProducts(),
+      getProductFacets(prisma, where, attributeFilters)
+    ]);
+
+    // Format response based on locale
+    const formattedProducts = products.map(product => formatProductListItem(product, locale, now));
 
     res.json({
       success: true,
@@ -172,7 +250,8 @@ router.get('/', [
         limit: parseInt(limit as string),
         total,
         totalPages: Math.ceil(total / parseInt(limit as string)),
-      }
+      },
+      facets
     });
   } catch (error) {
     console.error('Get products error:', error);
@@ -183,11 +262,164 @@ router.get('/', [
   }
 });
 
+/**
+ * Search products (public)
+ * Returns products ranked by relevance with highlighted names, tolerating typos
+ * and Zawgyi input, plus autocomplete suggestions for the search box
+ */
+router.get('/search', [
+  query('q').trim().isLength({ min: 1, max: 100 }).withMessage('Search text must be 1 to 100 characters'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 50 }),
+  query('locale').optional().isIn(['en', 'my']),
+], async (req: any, res: any) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { q, page = 1, limit = 10, locale = 'en' } = req.query;
+    const normalizedQuery = normalizeSearchText(q);
+    const take = parseInt(limit as string);
+    const skip = (parseInt(page as string) - 1) * take;
+    const now = new Date();
+
+    const { hits, total } = normalizedQuery
+      ? await searchProducts(prisma, normalizedQuery, { limit: take, offset: skip })
+      : { hits: [], total: 0 };
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: hits.map(hit => hit.id) } },
+      include: listedProductInclude(now),
+    });
+
+    // Keep the relevance order of the search
+    const results = hits
+      .map(hit => {
+        const product = products.find(candidate => candidate.id === hit.id);
+        if (!product) return null;
+
+        const formatted = formatProductListItem(product, locale, now);
+        return {
+          ...formatted,
+          score: hit.score,
+          highlights: { name: highlightMatches(formatted.name, normalizedQuery) }
+        };
+      })
+      .filter((result): result is NonNullable<typeof result> => result !== null);
+
+    const productSuggestions = results.slice(0, 5).map((result): SearchSuggestion => ({
+      type: 'product',
+      value: result.id,
+      text: result.name,
+      highlight: result.highlights.name
+    }));
+    const suggestions = normalizedQuery
+      ? [...productSuggestions, ...(await getSearchSuggestions(prisma, normalizedQuery, locale))]
+      : [];
+
+    res.json({
+      success: true,
+      data: results,
+      suggestions,
+      pagination: {
+        page: parseInt(page as string),
+        limit: take,
+        total,
+        totalPages: Math.ceil(total / take),
+      }
+    });
+  } catch (error) {
+    console.error('Search products error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * Quote cart prices (public)
+ * Prices each cart line like an order would be, with the quantity tiers the
+ * customer buys from; signed-in wholesale customers get their price list
+ */
+router.post('/price-quote', optionalAuthenticate, [
+  body('items').isArray({ min: 1, max: 100 }),
+  body('items.*.productId').notEmpty(),
+  body('items.*.variantId').optional({ nullable: true }).isString(),
+  body('items.*.quantity').isInt({ min: 1 }).toInt(),
+], async (req: any, res: any) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { items } = req.body;
+    const isWholesale = !!req.user?.isWholesale;
+    const now = new Date();
+
+    const products = await prisma.product.findMany({
+      where: {
+        id: { in: items.map((item: any) => item.productId) },
+        disabled: false
+      },
+      include: orderablePricesInclude(now)
+    });
+
+    // Unknown products and sizes are left out, like the shipping and coupon quotes
+    const lines = items
+      .map((item: any) => {
+        const product = products.find(p => p.id === item.productId);
+        const line = product && resolveOrderLine(product, item.variantId, now, { quantity: item.quantity, isWholesale });
+        if (!product || !line || !line.valid) return null;
+
+        const tiers = line.variant ? line.variant.priceTiers ?? [] : product.priceTiers;
+        return {
+          productId: product.id,
+          variantId: line.variant?.id ?? null,
+          quantity: item.quantity,
+          unitPrice: line.unitPrice,
+          listPrice: line.listPrice,
+          tier: line.tier,
+          priceBands: getPriceBands(line.listPrice, tiers, isWholesale),
+          lineTotal: line.unitPrice * item.quantity
+        };
+      })
+      .filter(Boolean);
+
+    res.json({
+      success: true,
+      data: {
+        items: lines,
+        subtotal: lines.reduce((sum: number, line: any) => sum + line.lineTotal, 0),
+        priceList: isWholesale ? 'WHOLESALE' : 'RETAIL'
+      }
+    });
+  } catch (error) {
+    console.error('Price quote error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 /**
  * Get product by ID (public)
- * Returns detailed product information
+ * Returns detailed product information, with the quantity price bands the
+ * customer buys from
  */
-router.get('/:id', [
+router.get('/:id', optionalAuthenticate, [
   query('locale').optional().isIn(['en', 'my']),
 ], async (req: any, res: any) => {
   try {
@@ -202,6 +434,7 @@ router.get('/:id', [
 
     const { id } = req.params;
     const { locale = 'en' } = req.query;
+    const now = new Date();
 
     const product = await prisma.product.findUnique({
       where: { id },
@@ -213,6 +446,13 @@ router.get('/:id', [
             createdAt: true,
           }
         },
+        prices: productPricesQuery(now),
+        priceTiers: productPriceTiersQuery,
+        variants: {
+          ...activeVariantsQuery,
+          include: { prices: variantPricesQuery(now), priceTiers: variantPriceTiersQuery }
+        },
+        categories: { select: productCategorySelect, orderBy: { sortOrder: 'asc' } },
       }
     });
 
@@ -223,7 +463,8 @@ router.get('/:id', [
       });
     }
 
-    const totalStock = product.stockEntries.reduce((sum, entry) => sum + entry.quantity, 0);
+    const isWholesale = !!req.user?.isWholesale;
+    const effectivePrice = resolveEffectivePrice(product.price, product.prices, now);
 
     const formattedProduct = {
       id: product.id,
@@ -231,12 +472,24 @@ router.get('/:id', [
       name: locale === 'my' ? (product.name_my || product.name_en) : product.name_en,
       description: locale === 'my' ? (product.description_my || product.description_en) : product.description_en,
       images: product.images,
-      price: product.price,
+      ...effectivePrice,
+      priceBands: getPriceBands(effectivePrice.price, product.priceTiers, isWholesale),
       disabled: product.disabled,
       outOfStock: product.outOfStock,
       allowSellWithoutStock: product.allowSellWithoutStock,
+      attributes: formatProductAttributes(product),
       metadata: product.metadata,
-      totalStock,
+      totalStock: product.stockOnHand,
+      rating: formatProductRating(product),
+      variants: product.variants.map(variant => {
+        const variantPrice = resolveEffectivePrice(variant.price, variant.prices, now);
+        return {
+          ...formatProductVariant(variant),
+          ...variantPrice,
+          priceBands: getPriceBands(variantPrice.price, variant.priceTiers, isWholesale)
+        };
+      }),
+      categories: product.categories,
       stockEntries: product.stockEntries,
       createdAt: product.createdAt,
       updatedAt: product.updatedAt,
@@ -266,6 +519,7 @@ router.post('/', authenticate, requireAdmin, upload.array('images', 10), [
   body('description_my').optional().trim(),
   body('price').isFloat({ min: 0 }),
   body('sku').optional().trim(),
+  ...productAttributeValidators,
   body('metadata').optional().isObject(),
 ], async (req: any, res: any) => {
   try {
@@ -285,6 +539,7 @@ router.post('/', authenticate, requireAdmin, upload.array('images', 10), [
       description_my, 
       price, 
       sku,
+      attributes,
       metadata = {}
     } = req.body;
 
@@ -318,9 +573,11 @@ router.post('/', authenticate, requireAdmin, upload.array('images', 10), [
         description_my,
         images: imagePaths,
         price: parseFloat(price),
+        ...toProductAttributeData(attributes),
         metadata,
       }
     });
+    await refreshProductSearchText(prisma, [product.id]);
 
     res.status(201).json({
       success: true,
@@ -349,6 +606,7 @@ router.patch('/:id', authenticate, requireAdmin, [
   body('disabled').optional().isBoolean(),
   body('outOfStock').optional().isBoolean(),
   body('allowSellWithoutStock').optional().isBoolean(),
+  ...productAttributeValidators,
   body('metadata').optional().isObject(),
 ], async (req: any, res: any) => {
   try {
@@ -369,16 +627,25 @@ router.patch('/:id', authenticate, requireAdmin, [
     if (req.body.name_my !== undefined) updateData.name_my = req.body.name_my;
     if (req.body.description_en !== undefined) updateData.description_en = req.body.description_en;
     if (req.body.description_my !== undefined) updateData.description_my = req.body.description_my;
-    if (req.body.price !== undefined) updateData.price = parseFloat(req.body.price);
     if (req.body.disabled !== undefined) updateData.disabled = req.body.disabled === 'true';
     if (req.body.outOfStock !== undefined) updateData.outOfStock = req.body.outOfStock === 'true';
     if (req.body.allowSellWithoutStock !== undefined) updateData.allowSellWithoutStock = req.body.allowSellWithoutStock === 'true';
+    if (req.body.attributes !== undefined) Object.assign(updateData, toProductAttributeData(req.body.attributes));
     if (req.body.metadata !== undefined) updateData.metadata = req.body.metadata;
 
-    const product = await prisma.product.update({
-      where: { id },
-      data: updateData
+    const product = await prisma.$transaction(async (tx) => {
+      // Price changes are recorded in the price history
+      const current = await tx.product.findUniqueOrThrow({ where: { id }, select: { price: true } });
+      if (req.body.price !== undefined && parseFloat(req.body.price) !== Number(current.price)) {
+        await setRegularPrice(tx, { productId: id, price: parseFloat(req.body.price), startsAt: new Date(), createdById: req.user?.id });
+      }
+
+      return tx.product.update({
+        where: { id },
+        data: updateData
+      });
     });
+    await refreshProductSearchText(prisma, [product.id]);
 
     res.json({
       success: true,
@@ -400,6 +667,7 @@ router.patch('/:id', authenticate, requireAdmin, [
  */
 router.post('/stock', authenticate, requireAdmin, [
   body('productId').notEmpty(),
+  body('variantId').optional().isString(),
   body('quantity').isInt({ min: 1 }),
   body('purchasePrice').isFloat({ min: 0 }),
 ], async (req: any, res: any) => {
@@ -413,11 +681,12 @@ router.post('/stock', authenticate, requireAdmin, [
       });
     }
 
-    const { productId, quantity, purchasePrice } = req.body;
+    const { productId, variantId, quantity, purchasePrice } = req.body;
 
     // Check if product exists
     const product = await prisma.product.findUnique({
-      where: { id: productId }
+      where: { id: productId },
+      include: { variants: { select: { id: true } } }
     });
 
     if (!product) {
@@ -427,13 +696,23 @@ router.post('/stock', authenticate, requireAdmin, [
       });
     }
 
-    const stockEntry = await prisma.stockEntry.create({
-      data: {
-        productId,
-        quantity: parseInt(quantity),
-        purchasePrice: parseFloat(purchasePrice),
-      }
-    });
+    // Products with variants keep stock per size
+    const isValidSize = product.variants.length === 0
+      ? !variantId
+      : product.variants.some(variant => variant.id === variantId);
+    if (!isValidSize) {
+      return res.status(400).json({
+        success: false,
+        error: product.variants.length === 0 ? 'This product does not come in different sizes' : 'Choose a size for this product'
+      });
+    }
+
+    const stockEntry = await addStockLot(prisma, {
+      productId,
+      variantId,
+      quantity: parseInt(quantity),
+      purchasePrice: parseFloat(purchasePrice),
+    }, { type: 'PURCHASE', actorId: req.user.id });
 
     res.status(201).json({
       success: true,
@@ -449,4 +728,12 @@ router.post('/stock', authenticate, requireAdmin, [
   }
 });
 
+/**
+ * Product reviews (public list; writing one needs a delivered order of the product)
+ * Photos are uploaded as multipart form data in the `photos` field
+ */
+router.get('/:id/reviews', validateProductReviewsQuery, getProductReviews);
+router.get('/:id/reviews/mine', authenticate, getMyProductReview);
+router.post('/:id/reviews', authenticate, upload.array('photos', 4), validateCreateReview, createReview);
+
 export default router;
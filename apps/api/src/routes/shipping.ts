@@ -0,0 +1,15 @@
+import express from 'express';
+import { optionalAuthenticate } from '../middleware/auth';
+import {
+  getShippingQuote,
+  getShippingRegions,
+  validateShippingQuote
+} from '../controllers/shipping';
+
+const router = express.Router();
+
+// Public routes - checkout needs these before the customer places an order
+router.get('/regions', getShippingRegions);
+router.post('/quote', optionalAuthenticate, validateShippingQuote, getShippingQuote);
+
+export default router;
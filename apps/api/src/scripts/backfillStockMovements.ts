@@ -0,0 +1,157 @@
+import { PrismaClient } from '@prisma/client';
+import { CanceledOrderItemHint, classifyLegacyStockEntry, StockEventHint } from '../utils/stockMovements';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+interface ProductHints {
+  hints: StockEventHint[];
+  canceledItems: CanceledOrderItemHint[]; // items of orders canceled before status events were recorded
+}
+
+/**
+ * Order events that could have written a stock entry for a product:
+ * placing an order, canceling it, receiving a return and restocking a refund
+ */
+async function loadProductHints(productId: string): Promise<ProductHints> {
+  const [orders, returnRequests, refunds] = await Promise.all([
+    prisma.order.findMany({
+      where: { items: { some: { productId } } },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        createdAt: true,
+        items: {
+          where: { productId },
+          select: { quantity: true }
+        },
+        statusEvents: {
+          where: { toStatus: 'CANCELED' },
+          select: { createdAt: true, actorId: true }
+        }
+      }
+    }),
+    prisma.returnRequest.findMany({
+      where: {
+        receivedAt: { not: null },
+        items: { some: { orderItem: { productId } } }
+      },
+      select: { id: true, orderId: true, receivedAt: true }
+    }),
+    prisma.refund.findMany({
+      where: {
+        restocked: true,
+        order: { items: { some: { productId } } }
+      },
+      select: { orderId: true, refundedAt: true }
+    })
+  ]);
+
+  const hints: StockEventHint[] = [];
+  const canceledItems: CanceledOrderItemHint[] = [];
+
+  for (const order of orders) {
+    hints.push({ type: 'SALE', at: order.createdAt, orderId: order.id, actorId: order.userId });
+    for (const event of order.statusEvents) {
+      hints.push({ type: 'CANCEL_RESTOCK', at: event.createdAt, orderId: order.id, actorId: event.actorId });
+    }
+    if (order.status === 'CANCELED' && order.statusEvents.length === 0) {
+      for (const item of order.items) {
+        canceledItems.push({ orderId: order.id, quantity: item.quantity, placedAt: order.createdAt });
+      }
+    }
+  }
+
+  for (const returnRequest of returnRequests) {
+    hints.push({
+      type: 'RETURN_RESTOCK',
+      at: returnRequest.receivedAt!,
+      orderId: returnRequest.orderId,
+      returnRequestId: returnRequest.id
+    });
+  }
+
+  for (const refund of refunds) {
+    hints.push({ type: 'RETURN_RESTOCK', at: refund.refundedAt, orderId: refund.orderId });
+  }
+
+  return { hints, canceledItems };
+}
+
+async function main() {
+  console.log('📦 Classifying stock entries recorded before movement types...');
+
+  const hintsByProduct = new Map<string, ProductHints>();
+  const counts = new Map<string, number>();
+  let processed = 0;
+
+  try {
+    // Each batch classifies its rows, so the next query picks up where it left off
+    for (;;) {
+      const entries = await prisma.stockEntry.findMany({
+        where: { type: null },
+        orderBy: { createdAt: 'asc' },
+        take: BATCH_SIZE,
+        select: { id: true, productId: true, quantity: true, purchasePrice: true, createdAt: true }
+      });
+
+      if (entries.length === 0) break;
+
+      for (const entry of entries) {
+        let productHints = hintsByProduct.get(entry.productId);
+        if (!productHints) {
+          productHints = await loadProductHints(entry.productId);
+          hintsByProduct.set(entry.productId, productHints);
+        }
+        const { hints, canceledItems } = productHints;
+
+        const movement = classifyLegacyStockEntry({
+          quantity: entry.quantity,
+          purchasePrice: Number(entry.purchasePrice),
+          createdAt: entry.createdAt
+        }, hints, canceledItems);
+
+        // Each canceled item was put back once
+        const restocked = canceledItems.findIndex(item =>
+          movement.type === 'CANCEL_RESTOCK' && item.orderId === movement.orderId && item.quantity === entry.quantity
+        );
+        if (restocked >= 0) {
+          canceledItems.splice(restocked, 1);
+        }
+
+        await prisma.stockEntry.update({
+          where: { id: entry.id },
+          data: movement
+        });
+
+        counts.set(movement.type, (counts.get(movement.type) || 0) + 1);
+        processed++;
+      }
+
+      console.log(`   ...${processed} entries classified`);
+    }
+
+    for (const [type, count] of counts) {
+      console.log(`✅ ${type}: ${count}`);
+    }
+    console.log(`🎉 Classified ${processed} stock entries!`);
+  } catch (error) {
+    console.error('❌ Error classifying stock entries:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the backfill
+if (require.main === module) {
+  main()
+    .catch((e) => {
+      console.error(e);
+      process.exit(1);
+    });
+}
+
+export { main as backfillStockMovements };
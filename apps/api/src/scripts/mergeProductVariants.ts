@@ -0,0 +1,138 @@
+import { PrismaClient } from '@prisma/client';
+import { moveProductHistoryToVariant, planVariantMerge } from '../utils/productVariants';
+import { refreshProductSearchText } from '../utils/productSearch';
+import { planReviewMerge, refreshProductRating } from '../utils/reviews';
+
+const prisma = new PrismaClient();
+
+/**
+ * Load the products to merge in the order they were given
+ */
+async function loadProducts(productIds: string[]) {
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    select: {
+      id: true,
+      name_en: true,
+      sku: true,
+      price: true,
+      weightKg: true,
+      stockOnHand: true,
+      reserved: true,
+      _count: { select: { variants: true } }
+    }
+  });
+
+  const missing = productIds.filter(id => !products.some(product => product.id === id));
+  if (missing.length > 0) {
+    throw new Error(`Products not found: ${missing.join(', ')}`);
+  }
+
+  return productIds.map(id => products.find(product => product.id === id)!);
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const productIds = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+
+  console.log('🌾 Merging per-size products into variants...');
+
+  try {
+    const products = await loadProducts(productIds);
+    const plan = planVariantMerge(products.map(product => ({ ...product, variantCount: product._count.variants })));
+
+    if (!plan.valid) {
+      console.error(`❌ ${plan.error}`);
+      console.log('   Usage: npm run db:merge:variants -- <productToKeepId> <productId>... [--dry-run]');
+      process.exitCode = 1;
+      return;
+    }
+
+    const [target, ...sources] = products;
+    console.log(`📦 Keeping ${target.name_en} (${target.id}) with sizes:`);
+    for (const [index, variant] of plan.variants.entries()) {
+      const product = products[index];
+      console.log(`   ${variant.label}: ${variant.price} MMK, ${product.stockOnHand} in stock, from ${product.name_en} (${product.id})`);
+    }
+
+    if (dryRun) {
+      console.log(`🔎 Dry run: ${sources.length} products would be merged, nothing was changed`);
+      return;
+    }
+
+    const sourceIds = sources.map(product => product.id);
+
+    const reviews = await prisma.$transaction(async (tx) => {
+      // The kept product's own history goes first, onto its own size
+      for (const [index, variantPlan] of plan.variants.entries()) {
+        const { productId, ...variantData } = variantPlan;
+        const variant = await tx.productVariant.create({
+          data: { ...variantData, productId: target.id }
+        });
+        await moveProductHistoryToVariant(tx, products[index], { productId: target.id, variantId: variant.id });
+      }
+
+      // Coupons limited to a merged product now apply to the product that replaced it
+      const coupons = await tx.coupon.findMany({
+        where: { productIds: { hasSome: sourceIds } },
+        select: { id: true, productIds: true }
+      });
+      for (const coupon of coupons) {
+        const remaining = coupon.productIds.filter(id => !sourceIds.includes(id));
+        await tx.coupon.update({
+          where: { id: coupon.id },
+          data: { productIds: Array.from(new Set([...remaining, target.id])) }
+        });
+      }
+
+      // Listings show the cheapest size; each size carries its own bag weight
+      await tx.product.update({
+        where: { id: target.id },
+        data: {
+          price: Math.min(...plan.variants.map(variant => variant.price)),
+          weightKg: null
+        }
+      });
+
+      // Reviews would go with the deleted products; a customer keeps their newest one
+      const reviewPlan = planReviewMerge(target.id, await tx.review.findMany({
+        where: { productId: { in: productIds } },
+        select: { id: true, productId: true, userId: true, createdAt: true }
+      }));
+      await tx.review.deleteMany({
+        where: { id: { in: reviewPlan.drop } }
+      });
+      await tx.review.updateMany({
+        where: { id: { in: reviewPlan.move } },
+        data: { productId: target.id }
+      });
+
+      await tx.product.deleteMany({
+        where: { id: { in: sourceIds } }
+      });
+      await refreshProductSearchText(tx, [target.id]);
+      await refreshProductRating(tx, target.id);
+
+      return reviewPlan;
+    }, { timeout: 60000 });
+
+    console.log(`🎉 Merged ${sources.length} products into ${target.name_en}`);
+    console.log(`⭐ Moved ${reviews.move.length} reviews, dropped ${reviews.drop.length} older reviews by customers who reviewed more than one of the products`);
+  } catch (error) {
+    console.error('❌ Error merging products:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the merge
+if (require.main === module) {
+  main()
+    .catch((e) => {
+      console.error(e);
+      process.exit(1);
+    });
+}
+
+export { main as mergeProductVariants };
@@ -0,0 +1,146 @@
+import { PrismaClient } from '@prisma/client';
+import { findStockDrift, ProductStockLevel, StockDrift } from '../utils/stockLevels';
+
+const prisma = new PrismaClient();
+
+// Orders whose bags count towards Product.reserved
+const reservedOrderWhere = {
+  status: 'PENDING' as const,
+  reservationExpiresAt: { not: null }
+};
+
+/**
+ * Stock ledger and reservation totals per product and per variant,
+ * recomputed from scratch. Variant totals are keyed by variant ID.
+ */
+async function loadExpectedTotals(productIds?: string[]) {
+  const productFilter = productIds ? { productId: { in: productIds } } : {};
+
+  const [ledger, reserved] = await Promise.all([
+    prisma.stockEntry.groupBy({
+      by: ['productId', 'variantId'],
+      where: productFilter,
+      _sum: { quantity: true }
+    }),
+    prisma.orderItem.groupBy({
+      by: ['productId', 'variantId'],
+      where: { ...productFilter, order: reservedOrderWhere },
+      _sum: { quantity: true }
+    })
+  ]);
+
+  const sumRows = (rows: Array<{ productId: string; variantId: string | null; _sum: { quantity: number | null } }>) => {
+    const totals = new Map<string, number>();
+    for (const row of rows) {
+      const quantity = row._sum.quantity || 0;
+      totals.set(row.productId, (totals.get(row.productId) || 0) + quantity);
+      if (row.variantId) {
+        totals.set(row.variantId, (totals.get(row.variantId) || 0) + quantity);
+      }
+    }
+    return totals;
+  };
+
+  return {
+    ledgerTotals: sumRows(ledger),
+    reservedTotals: sumRows(reserved)
+  };
+}
+
+async function loadStockLevels(productIds?: string[]): Promise<ProductStockLevel[]> {
+  const products = await prisma.product.findMany({
+    where: productIds ? { id: { in: productIds } } : {},
+    select: {
+      id: true,
+      name_en: true,
+      stockOnHand: true,
+      reserved: true,
+      variants: { select: { id: true, label: true, stockOnHand: true, reserved: true } }
+    }
+  });
+
+  return products.flatMap(product => [
+    {
+      productId: product.id,
+      productName: product.name_en,
+      stockOnHand: product.stockOnHand,
+      reserved: product.reserved
+    },
+    ...product.variants.map(variant => ({
+      productId: product.id,
+      variantId: variant.id,
+      productName: `${product.name_en} (${variant.label})`,
+      stockOnHand: variant.stockOnHand,
+      reserved: variant.reserved
+    }))
+  ]);
+}
+
+async function findDrift(productIds?: string[]): Promise<StockDrift[]> {
+  const levels = await loadStockLevels(productIds);
+  const { ledgerTotals, reservedTotals } = await loadExpectedTotals(productIds);
+  return findStockDrift(levels, ledgerTotals, reservedTotals);
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log('📦 Reconciling product stock levels with the stock ledger...');
+
+  try {
+    const drift = await findDrift();
+
+    if (drift.length === 0) {
+      console.log('✅ All product stock levels match the ledger');
+      return;
+    }
+
+    for (const product of drift) {
+      console.log(
+        `⚠️  ${product.productName} (${product.variantId || product.productId}): ` +
+        `stockOnHand ${product.stockOnHand} → ${product.expectedStockOnHand}, ` +
+        `reserved ${product.reserved} → ${product.expectedReserved}`
+      );
+    }
+
+    if (dryRun) {
+      console.log(`🔎 Dry run: ${drift.length} products drifted, nothing was changed`);
+      return;
+    }
+
+    // An order placed mid-run shows up as drift; check again before writing
+    const confirmed = await findDrift(Array.from(new Set(drift.map(product => product.productId))));
+    let fixed = 0;
+
+    for (const product of confirmed) {
+      // Only overwrite the values we read, so a concurrent stock movement is not lost
+      const where = { stockOnHand: product.stockOnHand, reserved: product.reserved };
+      const data = { stockOnHand: product.expectedStockOnHand, reserved: product.expectedReserved };
+      const updated = product.variantId
+        ? await prisma.productVariant.updateMany({ where: { id: product.variantId, ...where }, data })
+        : await prisma.product.updateMany({ where: { id: product.productId, ...where }, data });
+      fixed += updated.count;
+    }
+
+    console.log(`🎉 Corrected ${fixed} of ${confirmed.length} drifted products`);
+    if (fixed < confirmed.length) {
+      console.log('   The rest changed while reconciling; run again to confirm them');
+    }
+  } catch (error) {
+    console.error('❌ Error reconciling stock levels:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the reconciliation
+if (require.main === module) {
+  main()
+    .catch((e) => {
+      console.error(e);
+      process.exit(1);
+    });
+}
+
+export { main as reconcileStockLevels };
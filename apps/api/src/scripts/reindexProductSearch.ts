@@ -0,0 +1,47 @@
+import { PrismaClient } from '@prisma/client';
+import { refreshProductSearchText } from '../utils/productSearch';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 200;
+
+async function main() {
+  try {
+    console.log('🔎 Rebuilding product search text...');
+
+    let cursor: string | undefined;
+    let count = 0;
+
+    for (;;) {
+      const products = await prisma.product.findMany({
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      });
+      if (products.length === 0) break;
+
+      await refreshProductSearchText(prisma, products.map(product => product.id));
+      count += products.length;
+      cursor = products[products.length - 1].id;
+    }
+
+    console.log(`🎉 Reindexed ${count} products`);
+  } catch (error) {
+    console.error('❌ Error reindexing products:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the reindex
+if (require.main === module) {
+  main()
+    .catch((e) => {
+      console.error(e);
+      process.exit(1);
+    });
+}
+
+export { main as reindexProductSearch };
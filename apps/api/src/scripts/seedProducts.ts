@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client';
+import { toProductAttributeData } from '../utils/productAttributes';
+import { refreshProductSearchText } from '../utils/productSearch';
 
 const prisma = new PrismaClient();
 
@@ -28,7 +30,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Basmati',
           weightKg: 5,
           grade: 'Premium',
@@ -51,7 +53,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Jasmine',
           weightKg: 5,
           grade: 'Premium',
@@ -74,7 +76,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Local Premium',
           weightKg: 10,
           grade: 'A',
@@ -97,7 +99,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Brown Rice',
           weightKg: 3,
           grade: 'Organic',
@@ -120,7 +122,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Glutinous',
           weightKg: 5,
           grade: 'Premium',
@@ -143,7 +145,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Red Rice',
           weightKg: 2,
           grade: 'Premium',
@@ -166,7 +168,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Wild Rice Blend',
           weightKg: 1,
           grade: 'Gourmet',
@@ -189,7 +191,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Black Rice',
           weightKg: 1,
           grade: 'Premium',
@@ -212,7 +214,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Arborio',
           weightKg: 2,
           grade: 'Premium',
@@ -235,7 +237,7 @@ export async function seedProducts() {
         disabled: false,
         outOfStock: false,
         allowSellWithoutStock: true,
-        metadata: {
+        attributes: {
           variety: 'Short Grain',
           weightKg: 3,
           grade: 'Sushi Grade',
@@ -246,10 +248,15 @@ export async function seedProducts() {
       }
     ];
 
-    for (const product of riceProducts) {
-      await prisma.product.create({
-        data: product
+    for (const { attributes, ...product } of riceProducts) {
+      const created = await prisma.product.create({
+        data: {
+          ...product,
+          ...toProductAttributeData(attributes),
+          metadata: {}
+        }
       });
+      await refreshProductSearchText(prisma, [created.id]);
       console.log(`✅ Created product: ${product.name_en}`);
     }
 
@@ -63,21 +63,25 @@ export interface CustomerPaymentMethodResponse {
 export interface OnlineTransferOrderRequest {
   items: Array<{
     productId: string;
+    variantId?: string | null;
     quantity: number;
   }>;
   shippingAddress: {
     name: string;
     address: string;
     phone: string;
+    region: string;
+    township?: string;
     city: string;
     state: string;
     postalCode: string;
   };
   companyAccountId: string;
-  transactionId: string;
+  transactionId?: string; // may be sent later; the stock is held until then
   customerAccountName: string;
   customerAccountNo: string;
   paymentScreenshot?: string; // file path
+  couponCode?: string;
 }
 
 export interface OnlineTransferOrderResponse {
@@ -85,12 +89,17 @@ export interface OnlineTransferOrderResponse {
   status: string;
   paymentType: string;
   totalAmount: number;
-  transactionId: string;
+  couponCode?: string;
+  discountAmount: number;
+  shippingFee: number;
+  transactionId?: string;
   customerAccountName: string;
   customerAccountNo: string;
   paymentScreenshot?: string;
+  reservationExpiresAt?: Date;
   companyAccount: CompanyPaymentAccountResponse;
   createdAt: Date;
+  redirectUrl: string | null; // where the customer pays, for providers with a hosted checkout
 }
 
 // Payment Confirmation Types
@@ -110,6 +119,16 @@ export interface PaymentConfirmationResponse {
   };
 }
 
+export interface BulkPaymentConfirmationRequest {
+  orderIds: string[];
+  confirmed: boolean;
+  notes?: string;
+}
+
+export type BulkPaymentConfirmationResult =
+  | { orderId: string; success: true; status: string }
+  | { orderId: string; success: false; error: string };
+
 // Payment Method Validation
 export const validatePaymentMethodDetails = (
   type: PaymentMethodType,
@@ -0,0 +1,340 @@
+import { CompanyPaymentAccountType } from '@prisma/client';
+
+export const MAX_STATEMENT_LINES = 2000;
+
+// Bank exports often start with account details above the column header
+const HEADER_SEARCH_ROWS = 20;
+
+export interface StatementLine {
+  row: number; // row in the uploaded file, header is row 1
+  postedAt: Date;
+  amount: number;
+  transactionId: string | null;
+  accountNo: string | null;
+  accountName: string | null;
+  description: string | null;
+}
+
+export interface StatementParseError {
+  row: number;
+  message: string;
+}
+
+export interface ParsedStatement {
+  lines: StatementLine[]; // incoming payments only
+  skipped: number; // outgoing payments and blank rows
+  errors: StatementParseError[];
+}
+
+export type StatementParser = (table: string[][]) => ParsedStatement;
+
+// Header names each column goes by in a bank or wallet export, compared case-insensitively
+export interface StatementColumns {
+  date: string[];
+  credit: string[]; // incoming amount; wallets use a signed amount column
+  debit?: string[];
+  transactionId?: string[];
+  accountNo?: string[];
+  accountName?: string[];
+  description?: string[];
+}
+
+export type StatementMatchField = 'transactionId' | 'amount' | 'accountNo';
+
+export interface ReconcilableOrder {
+  id: string;
+  totalAmount: { toString(): string } | number;
+  transactionId: string | null;
+  customerAccountNo: string | null;
+}
+
+export interface StatementLineMatch {
+  status: 'MATCHED' | 'AMBIGUOUS' | 'UNMATCHED';
+  orderId: string | null;
+  candidateOrderIds: string[];
+  matchedOn: StatementMatchField[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Parse a statement amount such as "1,250,000.00", "MMK 25000" or "(5,000)".
+ * Returns null for blank or unreadable cells.
+ */
+export const parseStatementAmount = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const digits = trimmed.replace(/mmk|ks|kyats?/gi, '').replace(/[(),\s+-]/g, '');
+  if (!/^\d+(\.\d+)?$/.test(digits)) return null;
+
+  const amount = parseFloat(digits);
+  return negative ? -amount : amount;
+};
+
+/**
+ * Parse a statement date. Local banks write day first, e.g. "18/10/2026 14:05"
+ * or "18-Oct-2026"; ISO dates from XLSX cells are read as is.
+ */
+export const parseStatementDate = (value: string): Date | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const time = trimmed.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  let hours = time ? parseInt(time[1]) : 0;
+  if (time?.[4]) {
+    hours = hours % 12 + (time[4].toLowerCase() === 'pm' ? 12 : 0);
+  }
+  const minutes = time ? parseInt(time[2]) : 0;
+  const seconds = time?.[3] ? parseInt(time[3]) : 0;
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const dayFirst = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/);
+  const monthName = trimmed.match(/^(\d{1,2})[\s-]([a-z]{3})[a-z]*[\s-](\d{4})/i);
+
+  if (iso) {
+    [year, month, day] = [parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3])];
+  } else if (dayFirst) {
+    [day, month, year] = [parseInt(dayFirst[1]), parseInt(dayFirst[2]), parseInt(dayFirst[3])];
+  } else if (monthName) {
+    const monthIndex = MONTHS.indexOf(monthName[2].toLowerCase());
+    if (monthIndex < 0) return null;
+    [day, month, year] = [parseInt(monthName[1]), monthIndex + 1, parseInt(monthName[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Reject dates that rolled over, e.g. 31/02
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+/**
+ * Build a parser for statements with one row per transaction. The header
+ * row is found by its date and amount columns; rows with only a debit or a
+ * negative amount are outgoing and skipped.
+ */
+export const createStatementParser = (columns: StatementColumns): StatementParser => (table) => {
+  const lines: StatementLine[] = [];
+  const errors: StatementParseError[] = [];
+  let skipped = 0;
+
+  const findColumn = (header: string[], names?: string[]) => {
+    if (!names) return -1;
+    const wanted = names.map(normalizeHeader);
+    return header.findIndex(cell => wanted.includes(normalizeHeader(cell)));
+  };
+
+  const headerIndex = table
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex(row => findColumn(row, columns.date) >= 0 && findColumn(row, columns.credit) >= 0);
+
+  if (headerIndex < 0) {
+    errors.push({
+      row: 1,
+      message: `Could not find the statement header; expected a date column (${columns.date.join(', ')}) and an amount column (${columns.credit.join(', ')})`
+    });
+    return { lines, skipped, errors };
+  }
+
+  const header = table[headerIndex];
+  const index = {
+    date: findColumn(header, columns.date),
+    credit: findColumn(header, columns.credit),
+    debit: findColumn(header, columns.debit),
+    transactionId: findColumn(header, columns.transactionId),
+    accountNo: findColumn(header, columns.accountNo),
+    accountName: findColumn(header, columns.accountName),
+    description: findColumn(header, columns.description)
+  };
+
+  const dataRows = table.length - headerIndex - 1;
+  if (dataRows > MAX_STATEMENT_LINES) {
+    errors.push({ row: 1, message: `Statements are limited to ${MAX_STATEMENT_LINES} lines; this one has ${dataRows} rows` });
+    return { lines, skipped, errors };
+  }
+
+  for (let rowIndex = headerIndex + 1; rowIndex < table.length; rowIndex++) {
+    const rowNumber = rowIndex + 1;
+    const cells = table[rowIndex];
+    const cell = (columnIndex: number) => (columnIndex >= 0 ? (cells[columnIndex] || '').trim() : '');
+
+    if (cells.every(value => !value.trim())) {
+      skipped++;
+      continue;
+    }
+
+    const credit = parseStatementAmount(cell(index.credit));
+    const debit = parseStatementAmount(cell(index.debit));
+
+    if (credit === null || credit <= 0) {
+      // Outgoing payments and balance or total rows are not order payments
+      if (credit === null && debit === null && cell(index.credit)) {
+        errors.push({ row: rowNumber, message: `Unreadable amount "${cell(index.credit)}"` });
+      } else {
+        skipped++;
+      }
+      continue;
+    }
+
+    // Summary rows at the foot of a statement have an amount but no date
+    if (!cell(index.date)) {
+      skipped++;
+      continue;
+    }
+
+    const postedAt = parseStatementDate(cell(index.date));
+    if (!postedAt) {
+      errors.push({ row: rowNumber, message: `Unreadable date "${cell(index.date)}"` });
+      continue;
+    }
+
+    lines.push({
+      row: rowNumber,
+      postedAt,
+      amount: credit,
+      transactionId: cell(index.transactionId) || null,
+      accountNo: cell(index.accountNo) || null,
+      accountName: cell(index.accountName) || null,
+      description: cell(index.description) || null
+    });
+  }
+
+  return { lines, skipped, errors };
+};
+
+// One parser per company account type; add a type here when a new bank or wallet is supported
+export const STATEMENT_PARSERS: Record<CompanyPaymentAccountType, StatementParser> = {
+  AYA_BANK: createStatementParser({
+    date: ['Transaction Date', 'Date'],
+    credit: ['Credit', 'Credit Amount', 'Deposit'],
+    debit: ['Debit', 'Debit Amount', 'Withdrawal'],
+    transactionId: ['Reference No', 'Reference', 'Transaction ID'],
+    accountNo: ['From Account', 'From Account No', 'Account No'],
+    accountName: ['From Account Name', 'From Name', 'Account Name'],
+    description: ['Description', 'Narration', 'Remarks']
+  }),
+  KBZ_BANK: createStatementParser({
+    date: ['Transaction Date', 'Value Date', 'Date'],
+    credit: ['Deposit', 'Credit', 'Credit Amount'],
+    debit: ['Withdrawal', 'Debit', 'Debit Amount'],
+    transactionId: ['Transaction ID', 'Txn ID', 'Reference No'],
+    accountNo: ['From Account', 'Account No'],
+    accountName: ['From Name', 'Account Name'],
+    description: ['Narrative', 'Description', 'Remarks']
+  }),
+  AYA_PAY: createStatementParser({
+    date: ['Transaction Time', 'Transaction Date', 'Date'],
+    credit: ['Amount'],
+    transactionId: ['Transaction ID', 'Trans ID'],
+    accountNo: ['Sender Phone', 'Sender Account', 'From Phone'],
+    accountName: ['Sender Name', 'From Name'],
+    description: ['Note', 'Remarks', 'Description']
+  }),
+  KBZ_PAY: createStatementParser({
+    date: ['Transaction Time', 'Trans Time', 'Date'],
+    credit: ['Amount'],
+    transactionId: ['Transaction No', 'Transaction ID', 'Trans ID'],
+    accountNo: ['From Msisdn', 'Sender Phone', 'Sender'],
+    accountName: ['From Name', 'Sender Name'],
+    description: ['Notes', 'Remarks', 'Description']
+  })
+};
+
+export const getStatementParser = (type: CompanyPaymentAccountType): StatementParser => STATEMENT_PARSERS[type];
+
+const normalizeReference = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Account numbers and phones compare on digits; +959… and 09… are the same phone
+const normalizeAccountNo = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  return digits.startsWith('959') ? `0${digits.slice(2)}` : digits;
+};
+
+// Shorter references are too likely to turn up in unrelated descriptions
+const MIN_REFERENCE_LENGTH = 6;
+
+const findMatchFields = (line: StatementLine, order: ReconcilableOrder): StatementMatchField[] => {
+  const fields: StatementMatchField[] = [];
+  const description = line.description ? normalizeReference(line.description) : '';
+
+  const orderReference = order.transactionId ? normalizeReference(order.transactionId) : '';
+  if (orderReference) {
+    const lineReference = line.transactionId ? normalizeReference(line.transactionId) : '';
+    if (lineReference === orderReference ||
+        (orderReference.length >= MIN_REFERENCE_LENGTH && description.includes(orderReference))) {
+      fields.push('transactionId');
+    }
+  }
+
+  if (Math.round(line.amount * 100) === Math.round(Number(order.totalAmount) * 100)) {
+    fields.push('amount');
+  }
+
+  const orderAccount = order.customerAccountNo ? normalizeAccountNo(order.customerAccountNo) : '';
+  if (orderAccount.length >= MIN_REFERENCE_LENGTH) {
+    const lineAccount = line.accountNo ? normalizeAccountNo(line.accountNo) : '';
+    if (lineAccount === orderAccount || description.includes(orderAccount)) {
+      fields.push('accountNo');
+    }
+  }
+
+  return fields;
+};
+
+/**
+ * Match one statement line against the pending orders of its account.
+ * A line is matched when exactly one order agrees on the amount and on
+ * either the transaction ID or the sender account. Weaker or competing
+ * matches are ambiguous and left for an admin to pick.
+ */
+export const matchStatementLine = (line: StatementLine, orders: ReconcilableOrder[]): StatementLineMatch => {
+  const scored = orders
+    .map(order => ({ order, fields: findMatchFields(line, order) }))
+    .filter(({ fields }) => fields.includes('transactionId') || fields.includes('amount'));
+
+  const strong = scored.filter(({ fields }) => fields.includes('amount') && fields.length > 1);
+
+  if (strong.length === 1) {
+    return { status: 'MATCHED', orderId: strong[0].order.id, candidateOrderIds: [], matchedOn: strong[0].fields };
+  }
+
+  const candidates = strong.length > 1 ? strong : scored;
+  if (candidates.length === 0) {
+    return { status: 'UNMATCHED', orderId: null, candidateOrderIds: [], matchedOn: [] };
+  }
+
+  return {
+    status: 'AMBIGUOUS',
+    orderId: null,
+    candidateOrderIds: candidates.map(({ order }) => order.id),
+    matchedOn: []
+  };
+};
+
+/**
+ * Match every line of a statement. When two lines match the same order,
+ * e.g. a customer paid twice, both are left for an admin to sort out.
+ */
+export const reconcileStatement = (lines: StatementLine[], orders: ReconcilableOrder[]): StatementLineMatch[] => {
+  const matches = lines.map(line => matchStatementLine(line, orders));
+
+  const claims = new Map<string, number>();
+  for (const match of matches) {
+    if (match.orderId) claims.set(match.orderId, (claims.get(match.orderId) || 0) + 1);
+  }
+
+  return matches.map((match): StatementLineMatch => (match.orderId && claims.get(match.orderId)! > 1
+    ? { status: 'AMBIGUOUS', orderId: null, candidateOrderIds: [match.orderId], matchedOn: [] }
+    : match));
+};
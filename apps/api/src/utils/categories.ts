@@ -0,0 +1,168 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface CategoryLink {
+  id: string;
+  parentId: string | null;
+}
+
+export type CategoryTreeNode<T extends CategoryLink> = T & { children: CategoryTreeNode<T>[] };
+
+export type CategoryParentCheck =
+  | { valid: true }
+  | { valid: false; error: string };
+
+/**
+ * Nest categories under their parents, keeping the given order within each
+ * level. Categories whose parent is missing are treated as top level.
+ */
+export const buildCategoryTree = <T extends CategoryLink>(categories: T[]): CategoryTreeNode<T>[] => {
+  const nodes = new Map<string, CategoryTreeNode<T>>(
+    categories.map(category => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryTreeNode<T>[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+};
+
+/**
+ * Ids of a category and all of its subcategories
+ */
+export const getCategoryDescendantIds = (categories: CategoryLink[], categoryId: string): string[] => {
+  const ids = [categoryId];
+
+  // Walks breadth first; the seen check keeps a bad parent loop from running forever
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i] && !ids.includes(category.id)) {
+        ids.push(category.id);
+      }
+    }
+  }
+
+  return ids;
+};
+
+/**
+ * A category's parents, from the top level down
+ */
+export const getCategoryAncestors = <T extends CategoryLink>(categories: T[], categoryId: string): T[] => {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const ancestors: T[] = [];
+  let parentId = byId.get(categoryId)?.parentId;
+
+  while (parentId && !ancestors.some(ancestor => ancestor.id === parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    ancestors.unshift(parent);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+};
+
+/**
+ * Check a new parent for a category. A category cannot sit inside itself or
+ * one of its own subcategories.
+ */
+export const checkCategoryParent = (
+  categories: CategoryLink[],
+  categoryId: string | null,
+  parentId: string | null
+): CategoryParentCheck => {
+  if (!parentId) {
+    return { valid: true };
+  }
+
+  if (!categories.some(category => category.id === parentId)) {
+    return { valid: false, error: 'Parent category not found' };
+  }
+
+  if (categoryId && getCategoryDescendantIds(categories, categoryId).includes(parentId)) {
+    return { valid: false, error: 'A category cannot be placed inside itself or one of its subcategories' };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Number of distinct products in each category, counting the products of its
+ * subcategories once even when they are assigned at several levels
+ */
+export const countCategoryProducts = (
+  categories: Array<CategoryLink & { productIds: string[] }>
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+
+  for (const category of categories) {
+    const treeIds = getCategoryDescendantIds(categories, category.id);
+    const productIds = new Set(
+      categories
+        .filter(other => treeIds.includes(other.id))
+        .flatMap(other => other.productIds)
+    );
+    counts.set(category.id, productIds.size);
+  }
+
+  return counts;
+};
+
+/**
+ * URL slug from a category name, e.g. "Jasmine Rice" becomes "jasmine-rice".
+ * Names without latin letters or digits give an empty slug.
+ */
+export const toCategorySlug = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Category fields shown alongside a product
+export const productCategorySelect = {
+  id: true,
+  slug: true,
+  name_en: true,
+  name_my: true
+} satisfies Prisma.CategorySelect;
+
+/**
+ * Product filter for a category slug, matching the products of the category
+ * and its subcategories. An unknown slug matches no products.
+ */
+export const categoryProductWhere = async (db: DbClient, slug: string): Promise<Prisma.ProductWhereInput> => {
+  const categories = await db.category.findMany({
+    select: { id: true, parentId: true, slug: true }
+  });
+  const category = categories.find(candidate => candidate.slug === slug);
+
+  return {
+    categories: {
+      some: { id: { in: category ? getCategoryDescendantIds(categories, category.id) : [] } }
+    }
+  };
+};
+
+/**
+ * Category ids given for a product that do not exist
+ */
+export const findMissingCategoryIds = async (db: DbClient, categoryIds: string[]): Promise<string[]> => {
+  const found = await db.category.findMany({
+    where: { id: { in: categoryIds } },
+    select: { id: true }
+  });
+  return categoryIds.filter(id => !found.some(category => category.id === id));
+};
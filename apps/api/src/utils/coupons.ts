@@ -0,0 +1,195 @@
+import { Coupon, Prisma, PrismaClient } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface CouponLineItem {
+  productId: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface CouponUsage {
+  totalUses: number;
+  userUses: number;
+}
+
+// Thrown inside an order's transaction when the coupon ran out meanwhile, to roll the order back
+export class CouponUnavailableError extends Error {}
+
+export type CouponResult =
+  | { valid: true; coupon: Coupon; discountAmount: number }
+  | { valid: false; error: string };
+
+type CouponRules = Pick<
+  Coupon,
+  'type' | 'value' | 'maxDiscount' | 'minOrderTotal' | 'usageLimit' | 'perUserLimit' | 'productIds' | 'startsAt' | 'expiresAt' | 'enabled'
+>;
+
+/**
+ * Normalize a customer-entered coupon code for lookup
+ */
+export const normalizeCouponCode = (code: string): string => {
+  return code.trim().toUpperCase();
+};
+
+/**
+ * Sum of line totals the coupon applies to (respects the product allowlist)
+ */
+export const getEligibleSubtotal = (coupon: Pick<Coupon, 'productIds'>, items: CouponLineItem[]): number => {
+  return items
+    .filter(item => coupon.productIds.length === 0 || coupon.productIds.includes(item.productId))
+    .reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+};
+
+/**
+ * Calculate the discount amount for the given items.
+ * The discount never exceeds the eligible subtotal or the coupon's cap.
+ */
+export const calculateCouponDiscount = (
+  coupon: Pick<Coupon, 'type' | 'value' | 'maxDiscount' | 'productIds'>,
+  items: CouponLineItem[]
+): number => {
+  const eligibleSubtotal = getEligibleSubtotal(coupon, items);
+  if (eligibleSubtotal <= 0) {
+    return 0;
+  }
+
+  let discount = coupon.type === 'PERCENTAGE'
+    ? eligibleSubtotal * Number(coupon.value) / 100
+    : Number(coupon.value);
+
+  if (coupon.maxDiscount !== null) {
+    discount = Math.min(discount, Number(coupon.maxDiscount));
+  }
+
+  discount = Math.min(discount, eligibleSubtotal);
+  return Math.round(discount * 100) / 100;
+};
+
+/**
+ * Check the global and per-user usage limits.
+ * Returns an error message, or null when the coupon can be used again.
+ */
+export const checkCouponUsage = (
+  coupon: Pick<Coupon, 'usageLimit' | 'perUserLimit'>,
+  usage: CouponUsage
+): string | null => {
+  if (coupon.usageLimit !== null && usage.totalUses >= coupon.usageLimit) {
+    return 'Coupon usage limit has been reached';
+  }
+
+  if (coupon.perUserLimit !== null && usage.userUses >= coupon.perUserLimit) {
+    return 'You have already used this coupon the maximum number of times';
+  }
+
+  return null;
+};
+
+/**
+ * Check validity window, usage limits and minimum order total.
+ * Returns an error message, or null when the coupon can be used.
+ */
+export const checkCouponRules = (
+  coupon: CouponRules,
+  items: CouponLineItem[],
+  usage: CouponUsage,
+  now: Date = new Date()
+): string | null => {
+  if (!coupon.enabled) {
+    return 'Invalid coupon code';
+  }
+
+  if (coupon.startsAt && now < coupon.startsAt) {
+    return 'Coupon is not active yet';
+  }
+
+  if (coupon.expiresAt && now > coupon.expiresAt) {
+    return 'Coupon has expired';
+  }
+
+  const usageError = checkCouponUsage(coupon, usage);
+  if (usageError) {
+    return usageError;
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+  if (coupon.minOrderTotal !== null && subtotal < Number(coupon.minOrderTotal)) {
+    return `Order total must be at least ${Number(coupon.minOrderTotal)} MMK to use this coupon`;
+  }
+
+  if (getEligibleSubtotal(coupon, items) <= 0) {
+    return 'Coupon does not apply to any items in your order';
+  }
+
+  return null;
+};
+
+/**
+ * Orders that used a coupon, overall and by one customer.
+ * Canceled orders do not count.
+ */
+const countCouponUses = async (db: DbClient, couponId: string, userId: string): Promise<CouponUsage> => {
+  const [totalUses, userUses] = await Promise.all([
+    db.order.count({
+      where: { couponId, status: { not: 'CANCELED' } }
+    }),
+    db.order.count({
+      where: { couponId, userId, status: { not: 'CANCELED' } }
+    })
+  ]);
+  return { totalUses, userUses };
+};
+
+/**
+ * Look up a coupon by code and validate it for a user's order.
+ * Canceled orders do not count towards usage limits.
+ */
+export const resolveCoupon = async (
+  db: DbClient,
+  code: string,
+  userId: string,
+  items: CouponLineItem[]
+): Promise<CouponResult> => {
+  const coupon = await db.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) }
+  });
+
+  if (!coupon) {
+    return { valid: false, error: 'Invalid coupon code' };
+  }
+
+  const error = checkCouponRules(coupon, items, await countCouponUses(db, coupon.id, userId));
+  if (error) {
+    return { valid: false, error };
+  }
+
+  return {
+    valid: true,
+    coupon,
+    discountAmount: calculateCouponDiscount(coupon, items)
+  };
+};
+
+/**
+ * Re-check a coupon's usage limits inside the order's transaction, before
+ * the order is written. The coupon row stays locked until the transaction
+ * ends, so concurrent checkouts count each other's orders instead of both
+ * taking the last use. Throws CouponUnavailableError when a limit was reached.
+ */
+export const claimCouponUse = async (
+  tx: Prisma.TransactionClient,
+  couponId: string,
+  userId: string
+): Promise<void> => {
+  const [coupon] = await tx.$queryRaw<Array<Pick<Coupon, 'usageLimit' | 'perUserLimit'>>>`
+    SELECT "usageLimit", "perUserLimit" FROM "coupons" WHERE "id" = ${couponId} FOR UPDATE
+  `;
+  if (!coupon) {
+    throw new CouponUnavailableError('Invalid coupon code');
+  }
+
+  const error = checkCouponUsage(coupon, await countCouponUses(tx, couponId, userId));
+  if (error) {
+    throw new CouponUnavailableError(error);
+  }
+};
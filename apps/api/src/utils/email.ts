@@ -234,3 +234,187 @@ Do not share this code with anyone.
 Keep this code confidential for your account security.`
   };
 };
+
+export interface ReservationEmailDetails {
+  orderId: string;
+  customerName: string;
+  totalAmount: number;
+  expiresAt: Date;
+}
+
+/**
+ * Get the email sent before (reminder) or after (expired) an unpaid
+ * online transfer order's stock reservation runs out
+ */
+export const getReservationEmailTemplate = (
+  details: ReservationEmailDetails,
+  language: string = 'en',
+  type: 'reminder' | 'expired' = 'reminder'
+) => {
+  const orderNumber = details.orderId.slice(-8).toUpperCase();
+  const orderUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/orders/${details.orderId}`;
+  const amount = `${details.totalAmount.toLocaleString('en-US')} MMK`;
+  const isExpired = type === 'expired';
+
+  const content = language === 'my'
+    ? {
+        subject: isExpired
+          ? `အော်ဒါ #${orderNumber} ပယ်ဖျက်ပြီးပါပြီ - Nan Ayeyar`
+          : `အော်ဒါ #${orderNumber} အတွက် ငွေလွှဲရန် သတိပေးချက် - Nan Ayeyar`,
+        greeting: `မင်္ဂလာပါ ${details.customerName}၊`,
+        body: isExpired
+          ? `သတ်မှတ်ချိန်အတွင်း ငွေလွှဲမှု မရရှိသဖြင့် အော်ဒါ #${orderNumber} (${amount}) ကို ပယ်ဖျက်ပြီး ဆန်များကို ပြန်လည်ရောင်းချရန် ထားရှိလိုက်ပါသည်။ ဆက်လက်ဝယ်ယူလိုပါက အော်ဒါအသစ် တင်နိုင်ပါသည်။`
+          : `အော်ဒါ #${orderNumber} (${amount}) အတွက် ဆန်များကို ${details.expiresAt.toLocaleString('my-MM')} အထိ ချန်ထားပေးပါသည်။ ထိုအချိန်မတိုင်မီ ငွေလွှဲပြီး ငွေလွှဲအမှတ် သို့မဟုတ် ငွေလွှဲပြေစာ ပုံကို တင်ပေးပါ။ မဟုတ်ပါက အော်ဒါကို အလိုအလျောက် ပယ်ဖျက်ပါမည်။`,
+        action: 'အော်ဒါကို ကြည့်ရန်'
+      }
+    : {
+        subject: isExpired
+          ? `Order #${orderNumber} has been canceled - Nan Ayeyar`
+          : `Payment reminder for order #${orderNumber} - Nan Ayeyar`,
+        greeting: `Hello ${details.customerName},`,
+        body: isExpired
+          ? `We did not receive your transfer for order #${orderNumber} (${amount}) in time, so the order has been canceled and the rice released back into stock. You are welcome to place a new order at any time.`
+          : `We are holding the rice for order #${orderNumber} (${amount}) until ${details.expiresAt.toLocaleString('en-US')}. Please make the transfer and add your transaction ID or payment screenshot before then, otherwise the order will be canceled automatically.`,
+        action: 'View order'
+      };
+
+  return {
+    subject: content.subject,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #0ea5e9; margin: 0;">🌾 Nan Ayeyar</h1>
+        </div>
+
+        <div style="background-color: #f8fafc; padding: 30px; border-radius: 10px; margin: 20px 0;">
+          <p style="color: #1f2937; font-size: 16px; margin-top: 0;">${content.greeting}</p>
+          <p style="color: #374151; font-size: 16px;">${content.body}</p>
+          <div style="text-align: center; margin-top: 30px;">
+            <a href="${orderUrl}" style="background-color: #0ea5e9; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">${content.action}</a>
+          </div>
+        </div>
+      </div>
+    `,
+    text: `${content.greeting}
+
+${content.body}
+
+${content.action}: ${orderUrl}`
+  };
+};
+
+export interface PaymentRejectedEmailDetails {
+  orderId: string;
+  customerName: string;
+  totalAmount: number;
+  reason: string;
+}
+
+/**
+ * Get the email telling a customer their transfer could not be verified
+ * and asking them to send new proof
+ */
+export const getPaymentRejectedEmailTemplate = (details: PaymentRejectedEmailDetails, language: string = 'en') => {
+  const orderNumber = details.orderId.slice(-8).toUpperCase();
+  const orderUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/orders/${details.orderId}`;
+  const amount = `${details.totalAmount.toLocaleString('en-US')} MMK`;
+
+  const content = language === 'my'
+    ? {
+        subject: `အော်ဒါ #${orderNumber} ၏ ငွေလွှဲမှုကို အတည်မပြုနိုင်ပါ - Nan Ayeyar`,
+        greeting: `မင်္ဂလာပါ ${details.customerName}၊`,
+        body: `အော်ဒါ #${orderNumber} (${amount}) အတွက် ပေးပို့ထားသော ငွေလွှဲမှုကို အတည်မပြုနိုင်ပါ။ အကြောင်းရင်း - ${details.reason}။ ငွေလွှဲအမှတ် သို့မဟုတ် ငွေလွှဲပြေစာ ပုံကို ပြန်လည်တင်ပေးပါ။`,
+        action: 'ငွေလွှဲအထောက်အထား ပြန်တင်ရန်'
+      }
+    : {
+        subject: `We could not verify the payment for order #${orderNumber} - Nan Ayeyar`,
+        greeting: `Hello ${details.customerName},`,
+        body: `We could not verify the transfer for order #${orderNumber} (${amount}). Reason: ${details.reason}. Please send your transaction ID or payment screenshot again so we can process your order.`,
+        action: 'Resubmit payment proof'
+      };
+
+  return {
+    subject: content.subject,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #0ea5e9; margin: 0;">🌾 Nan Ayeyar</h1>
+        </div>
+
+        <div style="background-color: #f8fafc; padding: 30px; border-radius: 10px; margin: 20px 0;">
+          <p style="color: #1f2937; font-size: 16px; margin-top: 0;">${content.greeting}</p>
+          <p style="color: #374151; font-size: 16px;">${content.body}</p>
+          <div style="text-align: center; margin-top: 30px;">
+            <a href="${orderUrl}" style="background-color: #0ea5e9; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">${content.action}</a>
+          </div>
+        </div>
+      </div>
+    `,
+    text: `${content.greeting}
+
+${content.body}
+
+${content.action}: ${orderUrl}`
+  };
+};
+
+export interface LowStockProduct {
+  name: string;
+  sku: string | null;
+  stockOnHand: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+}
+
+/**
+ * Get the email telling admins which products have reached their reorder point
+ */
+export const getLowStockEmailTemplate = (products: LowStockProduct[]) => {
+  const stockUrl = `${process.env.ADMIN_URL || 'http://localhost:3002'}/stock?view=reorder`;
+  const subject = products.length === 1
+    ? `Low stock: ${products[0].name} - Nan Ayeyar`
+    : `Low stock: ${products.length} products need reordering - Nan Ayeyar`;
+
+  const rows = products.map(product => `
+            <tr>
+              <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${product.name}${product.sku ? ` (${product.sku})` : ''}</td>
+              <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${product.stockOnHand}</td>
+              <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${product.reorderPoint}</td>
+              <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${product.suggestedQuantity}</td>
+            </tr>`).join('');
+
+  const lines = products.map(product =>
+    `- ${product.name}${product.sku ? ` (${product.sku})` : ''}: ${product.stockOnHand} bags left, reorder point ${product.reorderPoint}, suggested order ${product.suggestedQuantity}`
+  ).join('\n');
+
+  return {
+    subject,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #0ea5e9; margin: 0;">🌾 Nan Ayeyar</h1>
+        </div>
+
+        <div style="background-color: #f8fafc; padding: 30px; border-radius: 10px; margin: 20px 0;">
+          <p style="color: #374151; font-size: 16px; margin-top: 0;">These products have reached their reorder point:</p>
+          <table style="width: 100%; border-collapse: collapse; color: #1f2937; font-size: 14px;">
+            <tr>
+              <th style="padding: 8px; text-align: left;">Product</th>
+              <th style="padding: 8px; text-align: right;">In stock</th>
+              <th style="padding: 8px; text-align: right;">Reorder point</th>
+              <th style="padding: 8px; text-align: right;">Suggested order</th>
+            </tr>${rows}
+          </table>
+          <div style="text-align: center; margin-top: 30px;">
+            <a href="${stockUrl}" style="background-color: #0ea5e9; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">View products to reorder</a>
+          </div>
+        </div>
+      </div>
+    `,
+    text: `These products have reached their reorder point:
+
+${lines}
+
+View products to reorder: ${stockUrl}`
+  };
+};
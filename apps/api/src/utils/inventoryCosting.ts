@@ -0,0 +1,271 @@
+import { Prisma, PrismaClient, StockMovementType } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// FIFO charges the oldest lots first; AVERAGE charges the weighted average of all open lots
+export type CostingMethod = 'FIFO' | 'AVERAGE';
+
+export interface StockLot {
+  id: string;
+  remainingQuantity: number;
+  purchasePrice: number;
+}
+
+export interface LotAllocation {
+  lotId: string;
+  quantity: number;
+}
+
+export interface StockConsumption {
+  allocations: LotAllocation[]; // bags taken from each lot, oldest first
+  totalCost: number;
+  unitCost: number;
+  shortfall: number; // bags sold beyond the open lots, charged at the fallback cost
+}
+
+// What caused a stock movement, stored on its stock entry
+export interface StockMovement {
+  type: StockMovementType;
+  orderId?: string | null;
+  returnRequestId?: string | null;
+  purchaseOrderId?: string | null;
+  note?: string | null;
+  actorId?: string | null;
+}
+
+// Stock is kept per variant for products with variants, otherwise per product
+export interface StockItem {
+  productId: string;
+  variantId?: string | null;
+}
+
+export interface InventoryValuation {
+  quantity: number;
+  totalValue: number;
+  averageCost: number;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Costing method from INVENTORY_COSTING_METHOD, FIFO unless set to AVERAGE
+ */
+export const getCostingMethod = (): CostingMethod => {
+  return process.env.INVENTORY_COSTING_METHOD?.toUpperCase() === 'AVERAGE' ? 'AVERAGE' : 'FIFO';
+};
+
+/**
+ * Quantity and value of the bags still held in a product's open lots
+ */
+export const valueStockLots = (lots: StockLot[]): InventoryValuation => {
+  const quantity = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+  const totalValue = roundAmount(lots.reduce((sum, lot) => sum + lot.remainingQuantity * lot.purchasePrice, 0));
+  return {
+    quantity,
+    totalValue,
+    averageCost: quantity > 0 ? roundAmount(totalValue / quantity) : 0
+  };
+};
+
+/**
+ * Work out which lots a deduction uses and what it costs.
+ * Lots must be ordered oldest first. Both methods draw lots down in that
+ * order so quantities stay in step; they differ only in the cost charged.
+ * Bags beyond the open lots (overselling) are charged at fallbackUnitCost.
+ */
+export const planStockConsumption = (
+  lots: StockLot[],
+  quantity: number,
+  method: CostingMethod,
+  fallbackUnitCost: number = 0
+): StockConsumption => {
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+  let lotCost = 0;
+
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    const taken = Math.min(lot.remainingQuantity, remaining);
+    if (taken <= 0) continue;
+    allocations.push({ lotId: lot.id, quantity: taken });
+    lotCost += taken * lot.purchasePrice;
+    remaining -= taken;
+  }
+
+  const shortfall = remaining;
+  let totalCost: number;
+
+  if (method === 'AVERAGE') {
+    const valuation = valueStockLots(lots);
+    const averageCost = valuation.quantity > 0 ? valuation.totalValue / valuation.quantity : fallbackUnitCost;
+    totalCost = (quantity - shortfall) * averageCost + shortfall * fallbackUnitCost;
+  } else {
+    totalCost = lotCost + shortfall * fallbackUnitCost;
+  }
+
+  totalCost = roundAmount(totalCost);
+
+  return {
+    allocations,
+    totalCost,
+    unitCost: quantity > 0 ? roundAmount(totalCost / quantity) : 0,
+    shortfall
+  };
+};
+
+const stockItemWhere = (item: StockItem) => ({
+  productId: item.productId,
+  variantId: item.variantId || null
+});
+
+/**
+ * Open lots of a product or variant, oldest first. The lots stay locked
+ * until the transaction ends, so concurrent deductions of the same stock
+ * draw them down one after another instead of both planning against the
+ * same remaining quantities.
+ */
+const lockOpenLots = async (db: DbClient, item: StockItem): Promise<StockLot[]> => {
+  const lots = await db.$queryRaw<Array<{ id: string; remainingQuantity: number; purchasePrice: Prisma.Decimal }>>`
+    SELECT "id", "remainingQuantity", "purchasePrice" FROM "stock_entries"
+    WHERE "productId" = ${item.productId}
+      AND ${item.variantId ? Prisma.sql`"variantId" = ${item.variantId}` : Prisma.sql`"variantId" IS NULL`}
+      AND "remainingQuantity" > 0
+    ORDER BY "createdAt" ASC, "id" ASC
+    FOR UPDATE
+  `;
+
+  return lots.map(lot => ({
+    id: lot.id,
+    remainingQuantity: lot.remainingQuantity,
+    purchasePrice: Number(lot.purchasePrice)
+  }));
+};
+
+/**
+ * Keep the materialized stock levels in step with the ledger.
+ * A product's level includes the stock of all its variants.
+ */
+const adjustStockOnHand = async (db: DbClient, item: StockItem, quantity: number) => {
+  await db.product.update({
+    where: { id: item.productId },
+    data: { stockOnHand: { increment: quantity } }
+  });
+
+  if (item.variantId) {
+    await db.productVariant.update({
+      where: { id: item.variantId },
+      data: { stockOnHand: { increment: quantity } }
+    });
+  }
+};
+
+const movementData = (movement: StockMovement) => ({
+  type: movement.type,
+  orderId: movement.orderId || null,
+  returnRequestId: movement.returnRequestId || null,
+  purchaseOrderId: movement.purchaseOrderId || null,
+  note: movement.note || null,
+  actorId: movement.actorId || null
+});
+
+/**
+ * Add bags to stock as a new lot at the given unit cost
+ */
+export const addStockLot = async (
+  db: DbClient,
+  lot: StockItem & { quantity: number; purchasePrice: number },
+  movement: StockMovement
+) => {
+  await adjustStockOnHand(db, lot, lot.quantity);
+
+  return db.stockEntry.create({
+    data: {
+      ...stockItemWhere(lot),
+      quantity: lot.quantity,
+      purchasePrice: lot.purchasePrice,
+      remainingQuantity: lot.quantity,
+      ...movementData(movement)
+    }
+  });
+};
+
+/**
+ * Deduct bags from stock, drawing down the open lots, and record the
+ * deduction at the unit cost consumed. Returns the cost of the bags.
+ * Run inside a transaction: it holds the lot locks and keeps the lots
+ * and the deduction in step.
+ */
+export const consumeStock = async (
+  db: DbClient,
+  deduction: StockItem & { quantity: number },
+  movement: StockMovement
+): Promise<StockConsumption & { stockEntryId: string }> => {
+  const lots = await lockOpenLots(db, deduction);
+
+  // Oversold bags are charged at the latest purchase price we know of
+  const latestLot = await db.stockEntry.findFirst({
+    where: { ...stockItemWhere(deduction), quantity: { gt: 0 }, purchasePrice: { gt: 0 } },
+    orderBy: { createdAt: 'desc' },
+    select: { purchasePrice: true }
+  });
+
+  const consumption = planStockConsumption(
+    lots,
+    deduction.quantity,
+    getCostingMethod(),
+    latestLot ? Number(latestLot.purchasePrice) : 0
+  );
+
+  for (const allocation of consumption.allocations) {
+    await db.stockEntry.update({
+      where: { id: allocation.lotId },
+      data: { remainingQuantity: { decrement: allocation.quantity } }
+    });
+  }
+
+  await adjustStockOnHand(db, deduction, -deduction.quantity);
+
+  const entry = await db.stockEntry.create({
+    data: {
+      ...stockItemWhere(deduction),
+      quantity: -deduction.quantity, // Negative quantity for deduction
+      purchasePrice: consumption.unitCost,
+      ...movementData(movement)
+    }
+  });
+
+  return { ...consumption, stockEntryId: entry.id };
+};
+
+/**
+ * Put bags from an order back into stock at the cost they were sold at,
+ * so returned or canceled stock does not distort later margins
+ */
+export const restockOrderItems = async (
+  db: DbClient,
+  orderId: string,
+  lines: Array<StockItem & { quantity: number }>,
+  movement: Omit<StockMovement, 'orderId'> & { type: 'CANCEL_RESTOCK' | 'RETURN_RESTOCK' }
+) => {
+  const items = await db.orderItem.findMany({
+    where: { orderId },
+    select: { productId: true, variantId: true, quantity: true, costAmount: true }
+  });
+
+  for (const line of lines) {
+    const lineItems = items.filter(item =>
+      item.productId === line.productId &&
+      item.variantId === (line.variantId || null) &&
+      item.costAmount !== null
+    );
+    const quantity = lineItems.reduce((sum, item) => sum + item.quantity, 0);
+    const cost = lineItems.reduce((sum, item) => sum + Number(item.costAmount), 0);
+
+    await addStockLot(db, {
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: line.quantity, // Positive quantity to restore stock
+      purchasePrice: quantity > 0 ? roundAmount(cost / quantity) : 0
+    }, { ...movement, orderId });
+  }
+};
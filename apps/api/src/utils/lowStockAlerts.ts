@@ -0,0 +1,227 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getLowStockEmailTemplate, LowStockProduct, sendEmail } from './email';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ReorderLevel {
+  stockOnHand: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+}
+
+// A product with its sizes; a size is low against the product's reorder point
+export interface ProductReorderLevel extends ReorderLevel {
+  variants: Array<{ id: string; stockOnHand: number; disabled: boolean }>;
+}
+
+export interface LowStockLevel {
+  variantId: string | null; // null for a product without variants
+  stockOnHand: number;
+  suggestedQuantity: number;
+}
+
+export interface LowStockAlertConfig {
+  checkIntervalMinutes: number; // how often the background check runs
+}
+
+/**
+ * Low stock settings from the environment
+ */
+export const getLowStockAlertConfig = (): LowStockAlertConfig => ({
+  checkIntervalMinutes: parseInt(process.env.LOW_STOCK_CHECK_MINUTES || '15')
+});
+
+/**
+ * Whether a product has fallen to its reorder point
+ */
+export const isLowStock = (product: Pick<ReorderLevel, 'stockOnHand' | 'reorderPoint'>): boolean => {
+  return product.stockOnHand <= product.reorderPoint;
+};
+
+/**
+ * Bags to order for a low product: its usual reorder quantity, or more
+ * when that would not lift stock back above the reorder point
+ */
+export const getSuggestedReorderQuantity = (product: ReorderLevel): number => {
+  if (!isLowStock(product)) return 0;
+  return Math.max(product.reorderQuantity, product.reorderPoint - product.stockOnHand + 1);
+};
+
+/**
+ * What is low of a product: the product itself, or each size customers can
+ * order that is at or below the product's reorder point. Stock of one size
+ * cannot be sold as another, so a sold-out size is low however much of the
+ * other sizes is left.
+ */
+export const getLowStockLevels = (product: ProductReorderLevel): LowStockLevel[] => {
+  const { reorderPoint, reorderQuantity } = product;
+
+  if (product.variants.length === 0) {
+    return isLowStock(product)
+      ? [{ variantId: null, stockOnHand: product.stockOnHand, suggestedQuantity: getSuggestedReorderQuantity(product) }]
+      : [];
+  }
+
+  return product.variants
+    .filter(variant => !variant.disabled && isLowStock({ stockOnHand: variant.stockOnHand, reorderPoint }))
+    .map(variant => ({
+      variantId: variant.id,
+      stockOnHand: variant.stockOnHand,
+      suggestedQuantity: getSuggestedReorderQuantity({ stockOnHand: variant.stockOnHand, reorderPoint, reorderQuantity })
+    }));
+};
+
+/**
+ * Enabled products at or below their own reorder point, or with a size
+ * that is. The reorder point is on the product, so sizes are compared in SQL.
+ */
+export const lowStockWhere = async (db: DbClient): Promise<Prisma.ProductWhereInput> => {
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    SELECT p."id" FROM "products" p
+    WHERE p."disabled" = false
+      AND CASE
+        WHEN EXISTS (SELECT 1 FROM "product_variants" v WHERE v."productId" = p."id")
+        THEN EXISTS (
+          SELECT 1 FROM "product_variants" v
+          WHERE v."productId" = p."id" AND v."disabled" = false AND v."stockOnHand" <= p."reorderPoint"
+        )
+        ELSE p."stockOnHand" <= p."reorderPoint"
+      END
+  `;
+
+  return { id: { in: rows.map(row => row.id) } };
+};
+
+/**
+ * Email the admins about products, or sizes of products, that have just
+ * reached their reorder point. Each is alerted once until its stock
+ * recovers above the point. Returns the number of products and sizes
+ * alerted.
+ */
+export const checkLowStock = async (prisma: PrismaClient, now: Date = new Date()): Promise<number> => {
+  // Restocked products and sizes can alert again the next time they run low
+  await prisma.product.updateMany({
+    where: {
+      lowStockAlertedAt: { not: null },
+      stockOnHand: { gt: prisma.product.fields.reorderPoint }
+    },
+    data: { lowStockAlertedAt: null }
+  });
+  await prisma.$executeRaw`
+    UPDATE "product_variants" v
+    SET "lowStockAlertedAt" = NULL
+    FROM "products" p
+    WHERE v."productId" = p."id"
+      AND v."lowStockAlertedAt" IS NOT NULL
+      AND v."stockOnHand" > p."reorderPoint"
+  `;
+
+  const admins = await prisma.user.findMany({
+    where: { role: 'admin' },
+    select: { email: true }
+  });
+  if (admins.length === 0) return 0;
+
+  const products = await prisma.product.findMany({
+    where: await lowStockWhere(prisma),
+    orderBy: { stockOnHand: 'asc' },
+    select: {
+      id: true,
+      name_en: true,
+      sku: true,
+      stockOnHand: true,
+      reorderPoint: true,
+      reorderQuantity: true,
+      variants: {
+        orderBy: [{ sortOrder: 'asc' }, { weightKg: 'asc' }],
+        select: { id: true, label: true, sku: true, stockOnHand: true, disabled: true }
+      }
+    }
+  });
+
+  const alerted: LowStockProduct[] = [];
+  const claimedProductIds: string[] = [];
+  const claimedVariantIds: string[] = [];
+  for (const product of products) {
+    for (const level of getLowStockLevels(product)) {
+      // Claim the alert first so overlapping checks do not send it twice
+      const claimed = level.variantId
+        ? await prisma.productVariant.updateMany({
+            where: { id: level.variantId, lowStockAlertedAt: null },
+            data: { lowStockAlertedAt: now }
+          })
+        : await prisma.product.updateMany({
+            where: { id: product.id, lowStockAlertedAt: null },
+            data: { lowStockAlertedAt: now }
+          });
+      if (claimed.count === 0) continue;
+
+      const variant = product.variants.find(candidate => candidate.id === level.variantId);
+      if (variant) {
+        claimedVariantIds.push(variant.id);
+      } else {
+        claimedProductIds.push(product.id);
+      }
+
+      alerted.push({
+        name: variant ? `${product.name_en} (${variant.label})` : product.name_en,
+        sku: variant ? variant.sku ?? product.sku : product.sku,
+        stockOnHand: level.stockOnHand,
+        reorderPoint: product.reorderPoint,
+        suggestedQuantity: level.suggestedQuantity
+      });
+    }
+  }
+
+  if (alerted.length === 0) return 0;
+
+  try {
+    const template = getLowStockEmailTemplate(alerted);
+    await sendEmail({ to: admins.map(admin => admin.email).join(', '), ...template });
+  } catch (error) {
+    console.error('Low stock alert email failed:', error);
+
+    // Let the next check try again
+    await prisma.product.updateMany({
+      where: { id: { in: claimedProductIds }, lowStockAlertedAt: now },
+      data: { lowStockAlertedAt: null }
+    });
+    await prisma.productVariant.updateMany({
+      where: { id: { in: claimedVariantIds }, lowStockAlertedAt: now },
+      data: { lowStockAlertedAt: null }
+    });
+    return 0;
+  }
+
+  return alerted.length;
+};
+
+/**
+ * Run the low stock check on an interval inside the API process.
+ * Returns a function that stops it.
+ */
+export const startLowStockMonitor = (prisma: PrismaClient = new PrismaClient()): (() => void) => {
+  const { checkIntervalMinutes } = getLowStockAlertConfig();
+  let running = false;
+
+  const check = async () => {
+    // Skip a tick rather than overlap with a slow check (e.g. SMTP retries)
+    if (running) return;
+    running = true;
+    try {
+      const alerted = await checkLowStock(prisma);
+      if (alerted > 0) {
+        console.log(`Low stock check: ${alerted} products or sizes alerted`);
+      }
+    } catch (error) {
+      console.error('Low stock check error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(check, checkIntervalMinutes * 60 * 1000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
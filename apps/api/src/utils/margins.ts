@@ -0,0 +1,193 @@
+import { OrderStatus } from '@prisma/client';
+import { getItemRefundUnitPrice } from './refunds';
+
+// Orders that are being or have been fulfilled. Unpaid, canceled, returned
+// and fully refunded orders have no sale left to report a margin on.
+export const MARGIN_STATUSES: OrderStatus[] = ['PROCESSING', 'SHIPPED', 'DELIVERED'];
+
+export type MarginPeriod = 'day' | 'week' | 'month';
+
+export interface MarginOrderItem {
+  productId: string;
+  productName: string;
+  unitPrice: number;
+  quantity: number;
+  costAmount: number | null; // null for items sold before cost tracking
+  refundedQuantity: number;
+  restockedQuantity: number; // refunded bags that went back into stock
+  refundedAmount: number;
+}
+
+export interface MarginOrder {
+  id: string;
+  createdAt: Date;
+  discountAmount: number;
+  refundedAmount: number; // all refunds, including those not tied to items
+  items: MarginOrderItem[];
+}
+
+export interface MarginFigures {
+  revenue: number;
+  cost: number;
+  grossMargin: number;
+  marginPercent: number;
+}
+
+export interface ProductMargin extends MarginFigures {
+  productId: string;
+  productName: string;
+  quantitySold: number;
+}
+
+export interface OrderMargin extends MarginFigures {
+  orderId: string;
+  createdAt: Date;
+  uncostedQuantity: number;
+  products: ProductMargin[];
+}
+
+export interface PeriodMargin extends MarginFigures {
+  period: string;
+  orderCount: number;
+}
+
+export interface MarginReport {
+  totals: MarginFigures & { orderCount: number; uncostedQuantity: number };
+  periods: PeriodMargin[];
+  products: ProductMargin[];
+  orders: OrderMargin[];
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const withMargin = (revenue: number, cost: number): MarginFigures => {
+  const grossMargin = roundAmount(revenue - cost);
+  return {
+    revenue: roundAmount(revenue),
+    cost: roundAmount(cost),
+    grossMargin,
+    marginPercent: revenue > 0 ? Math.round((grossMargin / revenue) * 1000) / 10 : 0
+  };
+};
+
+/**
+ * Key of the period a date falls in (UTC): 2026-10-18, the Monday of
+ * its week, or 2026-10
+ */
+export const getPeriodKey = (date: Date, period: MarginPeriod): string => {
+  if (period === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+  if (period === 'week') {
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    return monday.toISOString().slice(0, 10);
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Revenue, cost and margin of one order, per product.
+ * Revenue is net of the coupon discount and refunds; refunds not tied to
+ * items (e.g. goodwill) are spread across items by their net value.
+ * Refunded bags that were restocked carry no cost; bags refunded without
+ * restocking were lost, so their cost still counts against the margin.
+ */
+export const summarizeOrderMargin = (order: MarginOrder): OrderMargin => {
+  const discountedItems = order.items.map(item => {
+    const unitPrice = getItemRefundUnitPrice(item, {
+      discountAmount: order.discountAmount,
+      items: order.items
+    });
+    return { item, value: unitPrice * item.quantity - item.refundedAmount };
+  });
+
+  const itemizedRefunds = order.items.reduce((sum, item) => sum + item.refundedAmount, 0);
+  const otherRefunds = Math.max(0, order.refundedAmount - itemizedRefunds);
+  const netValue = discountedItems.reduce((sum, line) => sum + line.value, 0);
+
+  const products = new Map<string, ProductMargin>();
+  let uncostedQuantity = 0;
+
+  for (const { item, value } of discountedItems) {
+    const revenue = Math.max(0, value - (netValue > 0 ? otherRefunds * (value / netValue) : 0));
+    const keptQuantity = item.quantity - item.restockedQuantity;
+    let cost = 0;
+    if (item.costAmount === null) {
+      uncostedQuantity += keptQuantity;
+    } else if (item.quantity > 0) {
+      cost = item.costAmount * (keptQuantity / item.quantity);
+    }
+
+    const existing = products.get(item.productId);
+    const quantitySold = (existing?.quantitySold || 0) + item.quantity - item.refundedQuantity;
+    products.set(item.productId, {
+      productId: item.productId,
+      productName: item.productName,
+      quantitySold,
+      ...withMargin((existing?.revenue || 0) + revenue, (existing?.cost || 0) + cost)
+    });
+  }
+
+  const productMargins = Array.from(products.values());
+
+  return {
+    orderId: order.id,
+    createdAt: order.createdAt,
+    uncostedQuantity,
+    products: productMargins,
+    ...withMargin(
+      productMargins.reduce((sum, product) => sum + product.revenue, 0),
+      productMargins.reduce((sum, product) => sum + product.cost, 0)
+    )
+  };
+};
+
+/**
+ * Gross margin across orders: totals, per period, per product and per order
+ */
+export const buildMarginReport = (orders: MarginOrder[], period: MarginPeriod): MarginReport => {
+  const orderMargins = orders
+    .map(summarizeOrderMargin)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  const periods = new Map<string, PeriodMargin>();
+  const products = new Map<string, ProductMargin>();
+
+  for (const order of orderMargins) {
+    const key = getPeriodKey(order.createdAt, period);
+    const existingPeriod = periods.get(key);
+    periods.set(key, {
+      period: key,
+      orderCount: (existingPeriod?.orderCount || 0) + 1,
+      ...withMargin((existingPeriod?.revenue || 0) + order.revenue, (existingPeriod?.cost || 0) + order.cost)
+    });
+
+    for (const product of order.products) {
+      const existingProduct = products.get(product.productId);
+      products.set(product.productId, {
+        productId: product.productId,
+        productName: product.productName,
+        quantitySold: (existingProduct?.quantitySold || 0) + product.quantitySold,
+        ...withMargin(
+          (existingProduct?.revenue || 0) + product.revenue,
+          (existingProduct?.cost || 0) + product.cost
+        )
+      });
+    }
+  }
+
+  return {
+    totals: {
+      orderCount: orderMargins.length,
+      uncostedQuantity: orderMargins.reduce((sum, order) => sum + order.uncostedQuantity, 0),
+      ...withMargin(
+        orderMargins.reduce((sum, order) => sum + order.revenue, 0),
+        orderMargins.reduce((sum, order) => sum + order.cost, 0)
+      )
+    },
+    periods: Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period)),
+    products: Array.from(products.values()).sort((a, b) => b.grossMargin - a.grossMargin),
+    orders: orderMargins
+  };
+};
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import { PaymentCallback, PaymentProvider, ProviderPaymentStatus } from './paymentProviders';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+export interface MockPayment {
+  orderId: string;
+  amount: number;
+  status: ProviderPaymentStatus;
+  refundedAmount: number;
+}
+
+// The gateway's own records. They live in the memory of one API process:
+// a restart forgets them and other instances never see them, so the mock
+// is for development on a single process only.
+const payments = new Map<string, MockPayment>();
+// Refund references by idempotency key
+const refunds = new Map<string, string>();
+
+/**
+ * Refuse to start with the mock gateway enabled but no callback secret,
+ * since a built-in default would let anyone sign callbacks
+ */
+export const assertMockGatewayConfig = (): void => {
+  if (process.env.PAYMENT_MOCK_ENABLED === 'true' && !process.env.PAYMENT_MOCK_SECRET) {
+    throw new Error('PAYMENT_MOCK_SECRET must be set when PAYMENT_MOCK_ENABLED is true');
+  }
+};
+
+const getSecret = (): string => {
+  const secret = process.env.PAYMENT_MOCK_SECRET;
+  if (!secret) {
+    throw new Error('PAYMENT_MOCK_SECRET is not set');
+  }
+  return secret;
+};
+
+const sign = (reference: string, status: string, amount: number): string => {
+  return crypto.createHmac('sha256', getSecret()).update(`${reference}:${status}:${amount}`).digest('hex');
+};
+
+export const getMockPayment = (reference: string): MockPayment | undefined => payments.get(reference);
+
+/**
+ * Test gateway that behaves like a hosted wallet checkout: the customer is
+ * sent to a checkout page, and the result arrives as a signed callback.
+ * Development only; see the note on its in-memory records above.
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  type: 'MOCK',
+  initialStatus: 'PENDING',
+  acceptsPaymentProof: false,
+
+  initiate: async (order) => {
+    const reference = `mock_${crypto.randomBytes(8).toString('hex')}`;
+    payments.set(reference, { orderId: order.id, amount: order.totalAmount, status: 'PENDING', refundedAmount: 0 });
+
+    return {
+      paymentReference: reference,
+      redirectUrl: `${process.env.BASE_URL || 'http://localhost:3001'}/api/payments/mock/checkout/${reference}`
+    };
+  },
+
+  verifyCallback: ({ headers, body }) => {
+    const { reference, status, amount, transactionId } = body || {};
+    if (typeof reference !== 'string' || !['PAID', 'FAILED'].includes(status) || typeof amount !== 'number') {
+      return { valid: false, error: 'Malformed callback' };
+    }
+
+    const signature = headers[MOCK_SIGNATURE_HEADER];
+    const expected = sign(reference, status, amount);
+    if (typeof signature !== 'string' || signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return { valid: false, error: 'Invalid callback signature' };
+    }
+
+    return {
+      valid: true,
+      paymentReference: reference,
+      status,
+      amount,
+      transactionId: typeof transactionId === 'string' ? transactionId : null
+    };
+  },
+
+  queryStatus: async (order) => {
+    return (order.paymentReference && payments.get(order.paymentReference)?.status) || 'PENDING';
+  },
+
+  refund: async (order, { amount, idempotencyKey }) => {
+    const existing = refunds.get(idempotencyKey);
+    if (existing) {
+      return { success: true, reference: existing };
+    }
+
+    const payment = order.paymentReference ? payments.get(order.paymentReference) : undefined;
+    if (!payment || payment.status !== 'PAID') {
+      return { success: false, error: 'The mock gateway has no completed payment for this order' };
+    }
+    if (payment.refundedAmount + amount > payment.amount) {
+      return { success: false, error: 'Refund exceeds the amount paid through the mock gateway' };
+    }
+
+    const reference = `mock_refund_${crypto.randomBytes(8).toString('hex')}`;
+    payment.refundedAmount += amount;
+    refunds.set(idempotencyKey, reference);
+    return { success: true, reference };
+  }
+};
+
+/**
+ * Play the gateway's side of a checkout: settle the payment and build the
+ * signed callback the gateway would send. Returns null for unknown payments.
+ */
+export const simulateMockPayment = (
+  reference: string,
+  outcome: 'PAID' | 'FAILED',
+  amount?: number
+): PaymentCallback | null => {
+  const payment = payments.get(reference);
+  if (!payment) return null;
+
+  payment.status = outcome;
+  const body = {
+    reference,
+    status: outcome,
+    amount: amount ?? payment.amount,
+    transactionId: `MOCK${Date.now()}`
+  };
+
+  return {
+    headers: { [MOCK_SIGNATURE_HEADER]: sign(body.reference, body.status, body.amount) },
+    body
+  };
+};
@@ -0,0 +1,55 @@
+import { OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface OrderStatusChange {
+  orderId: string;
+  fromStatus: OrderStatus | null; // null when the order is placed
+  toStatus: OrderStatus;
+  actorId?: string | null;
+  note?: string | null;
+}
+
+// Include for an order's status history, oldest first
+export const statusEventsInclude = {
+  include: {
+    actor: {
+      select: { id: true, name: true, role: true }
+    }
+  },
+  orderBy: { createdAt: 'asc' as const }
+} satisfies Prisma.Order$statusEventsArgs;
+
+export type OrderStatusEventWithActor = Prisma.OrderStatusEventGetPayload<typeof statusEventsInclude>;
+
+/**
+ * Record a status change in the order's history.
+ * Call it in the same transaction as the status update.
+ */
+export const recordOrderStatusEvent = (db: DbClient, change: OrderStatusChange) => {
+  return db.orderStatusEvent.create({
+    data: {
+      orderId: change.orderId,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      actorId: change.actorId || null,
+      note: change.note || null
+    }
+  });
+};
+
+/**
+ * Shape a status event for API responses
+ */
+export const formatOrderStatusEvent = (event: OrderStatusEventWithActor) => ({
+  id: event.id,
+  fromStatus: event.fromStatus,
+  toStatus: event.toStatus,
+  note: event.note,
+  createdAt: event.createdAt,
+  actor: event.actor ? {
+    id: event.actor.id,
+    name: event.actor.name,
+    role: event.actor.role
+  } : null
+});
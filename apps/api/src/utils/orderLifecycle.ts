@@ -0,0 +1,302 @@
+import { OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+import { getOrderRefundState, lockOrderForRefund, planRefund, recordRefund, RefundOrderState } from './refunds';
+import { OrderStatusChange, recordOrderStatusEvent } from './orderEvents';
+import { restockOrderItems } from './inventoryCosting';
+import { releaseReservation } from './stockLevels';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// System changes (e.g. expired reservations) follow the admin rules
+export type OrderActorRole = 'customer' | 'admin' | 'system';
+
+export interface OrderTransitionRequest {
+  to: OrderStatus;
+  actor: { id: string | null; role: OrderActorRole };
+  note?: string | null;
+  refund?: { amount: number; reason: string }; // required when moving to REFUNDED
+  restock?: boolean; // put unrefunded bags back into stock on REFUNDED
+}
+
+export interface RestockLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export type OrderTransitionPlan =
+  | { valid: true; refund: { amount: number; reason: string } | null; restock: RestockLine[] }
+  | { valid: false; error: string };
+
+export type RefundRestockPlan =
+  | { valid: true; restock: RestockLine[] }
+  | { valid: false; error: string };
+
+export type OrderTransitionResult =
+  | { success: true; fromStatus: OrderStatus; refundId: string | null } // settle the refund after commit
+  | { success: false; status: number; error: string };
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['PROCESSING', 'ON_HOLD', 'CANCELED'],
+  PROCESSING: ['SHIPPED', 'ON_HOLD', 'CANCELED'],
+  ON_HOLD: ['PENDING', 'PROCESSING', 'CANCELED'], // back to PENDING when rejected payment proof is resubmitted
+  SHIPPED: ['DELIVERED', 'RETURNED'],
+  DELIVERED: ['RETURNED', 'REFUNDED'],
+  CANCELED: ['REFUNDED'], // Allow refunding cancelled orders
+  RETURNED: ['REFUNDED'],
+  REFUNDED: []
+};
+
+// Customers may only cancel, and only before the order is on hold or shipped
+export const CUSTOMER_CANCELABLE_STATUSES: OrderStatus[] = ['PENDING', 'PROCESSING'];
+
+/**
+ * Check whether an order can move between two statuses
+ */
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Check whether a customer can cancel an order in the given status
+ */
+export const canCustomerCancel = (status: OrderStatus): boolean => {
+  return CUSTOMER_CANCELABLE_STATUSES.includes(status);
+};
+
+const getStockKey = (line: { productId: string; variantId?: string | null }): string => {
+  return line.variantId || line.productId;
+};
+
+const addToStockKey = (quantities: Map<string, number>, key: string, quantity: number) => {
+  quantities.set(key, (quantities.get(key) || 0) + quantity);
+};
+
+/**
+ * Bags per product and size put back into stock without a refund
+ * covering them, e.g. returns received before being refunded
+ */
+const getRestockedUnrefunded = (order: RefundOrderState): Map<string, number> => {
+  const quantities = new Map<string, number>();
+  for (const line of order.restockedStock) {
+    addToStockKey(quantities, getStockKey(line), line.quantity);
+  }
+  for (const item of order.items) {
+    addToStockKey(quantities, getStockKey(item), -item.restockedQuantity);
+  }
+  return quantities;
+};
+
+/**
+ * Bags per product and size ordered but not yet put back into stock
+ */
+const getUnrestockedQuantities = (order: RefundOrderState): Map<string, number> => {
+  const quantities = new Map<string, number>();
+  for (const item of order.items) {
+    addToStockKey(quantities, getStockKey(item), item.quantity);
+  }
+  for (const line of order.restockedStock) {
+    addToStockKey(quantities, getStockKey(line), -line.quantity);
+  }
+  return quantities;
+};
+
+/**
+ * Work out which refunded bags still need to go back into stock.
+ * Bags already restocked by a received return count towards the refund
+ * first, and no more bags are restocked than the order has left out.
+ */
+export const planRefundRestock = (order: RefundOrderState, lines: RestockLine[]): RefundRestockPlan => {
+  if (order.status === 'CANCELED') {
+    return { valid: false, error: 'Canceled orders were already restocked when they were canceled' };
+  }
+
+  const restockedUnrefunded = getRestockedUnrefunded(order);
+  const unrestocked = getUnrestockedQuantities(order);
+
+  const restock: RestockLine[] = [];
+  for (const line of lines) {
+    const key = getStockKey(line);
+    const alreadyRestocked = Math.min(line.quantity, Math.max(0, restockedUnrefunded.get(key) || 0));
+    addToStockKey(restockedUnrefunded, key, -alreadyRestocked);
+
+    const quantity = Math.min(line.quantity - alreadyRestocked, Math.max(0, unrestocked.get(key) || 0));
+    if (quantity > 0) {
+      addToStockKey(unrestocked, key, -quantity);
+      restock.push({ productId: line.productId, variantId: line.variantId, quantity });
+    }
+  }
+
+  return { valid: true, restock };
+};
+
+/**
+ * Work out which bags of a received return go back into stock. No more
+ * bags of a product and size are restocked than the order has left out,
+ * so a return cannot restock bags a cancel or refund already put back.
+ */
+export const planReturnRestock = (
+  order: RefundOrderState,
+  lines: Array<{ orderItemId: string; quantity: number }>
+): RefundRestockPlan => {
+  const unrestocked = getUnrestockedQuantities(order);
+
+  const restock: RestockLine[] = [];
+  for (const line of lines) {
+    const item = order.items.find(item => item.id === line.orderItemId);
+    if (!item) {
+      return { valid: false, error: `Order item ${line.orderItemId} of this return no longer exists` };
+    }
+
+    const key = getStockKey(item);
+    const quantity = Math.min(line.quantity, Math.max(0, unrestocked.get(key) || 0));
+    if (quantity > 0) {
+      addToStockKey(unrestocked, key, -quantity);
+      restock.push({ productId: item.productId, variantId: item.variantId, quantity });
+    }
+  }
+
+  if (restock.length === 0) {
+    return { valid: false, error: 'The returned bags were already put back into stock' };
+  }
+
+  return { valid: true, restock };
+};
+
+/**
+ * Bags of each item not yet covered by a refund, merged per product and size,
+ * less any that a received return already put back into stock
+ */
+const getUnrefundedStock = (order: RefundOrderState): RestockLine[] => {
+  const lines = new Map<string, RestockLine>();
+  for (const item of order.items) {
+    const quantity = item.quantity - item.refundedQuantity;
+    if (quantity > 0) {
+      const key = getStockKey(item);
+      const line = lines.get(key);
+      if (line) {
+        line.quantity += quantity;
+      } else {
+        lines.set(key, { productId: item.productId, variantId: item.variantId, quantity });
+      }
+    }
+  }
+
+  const restockedUnrefunded = getRestockedUnrefunded(order);
+  return Array.from(lines.entries())
+    .map(([key, line]) => ({ ...line, quantity: line.quantity - Math.max(0, restockedUnrefunded.get(key) || 0) }))
+    .filter(line => line.quantity > 0);
+};
+
+/**
+ * Validate a status change and work out its side effects.
+ * Canceling always restocks since the bags never left the warehouse;
+ * refunding restocks only on request, and never after a cancel already did.
+ */
+export const planOrderTransition = (order: RefundOrderState, request: OrderTransitionRequest): OrderTransitionPlan => {
+  const { to, actor } = request;
+
+  if (actor.role === 'customer') {
+    if (to !== 'CANCELED') {
+      return { valid: false, error: `Customers cannot change an order to ${to}` };
+    }
+    if (!canCustomerCancel(order.status)) {
+      return { valid: false, error: 'Order can only be cancelled if it is pending or processing' };
+    }
+  }
+
+  if (!canTransitionOrder(order.status, to)) {
+    return { valid: false, error: `Cannot change status from ${order.status} to ${to}` };
+  }
+
+  if (to === 'CANCELED') {
+    return { valid: true, refund: null, restock: getUnrefundedStock(order) };
+  }
+
+  if (to === 'REFUNDED') {
+    if (!request.refund || !request.refund.amount || !request.refund.reason) {
+      return { valid: false, error: 'Refund amount and reason are required when marking order as refunded' };
+    }
+
+    // Earlier partial refunds count towards the order total
+    const plan = planRefund(order, { amount: request.refund.amount });
+    if (!plan.valid) {
+      return { valid: false, error: plan.error };
+    }
+
+    return {
+      valid: true,
+      refund: { amount: plan.amount, reason: request.refund.reason },
+      restock: request.restock && order.status !== 'CANCELED' ? getUnrefundedStock(order) : []
+    };
+  }
+
+  return { valid: true, refund: null, restock: [] };
+};
+
+/**
+ * Record the status change in the order history and apply it.
+ * For status changes that follow from another operation (e.g. a refund
+ * covering the whole order); use transitionOrder for requested changes.
+ */
+export const setOrderStatus = async (db: DbClient, change: OrderStatusChange) => {
+  if (change.fromStatus && !canTransitionOrder(change.fromStatus, change.toStatus)) {
+    throw new Error(`Cannot change status from ${change.fromStatus} to ${change.toStatus}`);
+  }
+
+  await recordOrderStatusEvent(db, change);
+
+  return db.order.update({
+    where: { id: change.orderId },
+    data: { status: change.toStatus }
+  });
+};
+
+/**
+ * Move an order to a new status with its refund and stock side effects.
+ * Run inside a transaction so a failed step rolls back the whole change,
+ * then pay out the returned refund with settleRefund.
+ */
+export const transitionOrder = async (
+  db: DbClient,
+  orderId: string,
+  request: OrderTransitionRequest
+): Promise<OrderTransitionResult> => {
+  await lockOrderForRefund(db, orderId);
+  const order = await getOrderRefundState(db, orderId);
+  if (!order) {
+    return { success: false, status: 404, error: 'Order not found' };
+  }
+
+  const plan = planOrderTransition(order, request);
+  if (!plan.valid) {
+    return { success: false, status: 400, error: plan.error };
+  }
+
+  const refund = plan.refund && await recordRefund(db, orderId, {
+    amount: plan.refund.amount,
+    reason: plan.refund.reason,
+    restocked: plan.restock.length > 0
+  });
+
+  // Any move out of PENDING means the order was reviewed or canceled,
+  // so it no longer holds a reservation
+  if (order.status === 'PENDING') {
+    await releaseReservation(db, orderId);
+  }
+
+  await restockOrderItems(db, orderId, plan.restock, {
+    type: request.to === 'CANCELED' ? 'CANCEL_RESTOCK' : 'RETURN_RESTOCK',
+    actorId: request.actor.id,
+    note: request.note
+  });
+
+  await setOrderStatus(db, {
+    orderId,
+    fromStatus: order.status,
+    toStatus: request.to,
+    actorId: request.actor.id,
+    note: request.note || plan.refund?.reason
+  });
+
+  return { success: true, fromStatus: order.status, refundId: refund ? refund.id : null };
+};
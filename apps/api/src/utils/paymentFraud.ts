@@ -0,0 +1,179 @@
+import path from 'path';
+import fs from 'fs';
+import sharp from 'sharp';
+import { OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// Screenshots whose hashes differ in at most this many of 64 bits are treated as the same image
+export const SCREENSHOT_MATCH_DISTANCE = 6;
+
+// How far back earlier payment proof is compared with the verification queue
+export const DUPLICATE_LOOKBACK_DAYS = 180;
+
+export const DUPLICATE_TRANSACTION_ID_MESSAGE = 'This transaction ID was already submitted for another order';
+
+// Orders in these states no longer hold on to their transaction ID. Canceled
+// orders can still be refunded, so both have to be left out, here and in the
+// unique index of the unique_transaction_ids migration.
+export const TRANSACTION_ID_RELEASED_STATUSES: OrderStatus[] = ['CANCELED', 'REFUNDED'];
+
+const UPLOADS_ROOT = path.join(__dirname, '../../storage/uploads');
+
+export interface PaymentProofFingerprint {
+  id: string;
+  companyAccountId: string | null;
+  transactionId: string | null;
+  paymentScreenshotHash: string | null;
+}
+
+export interface PaymentSuspicion {
+  duplicateTransactionOrderIds: string[]; // same transaction ID on the same company account
+  similarScreenshotOrderIds: string[]; // the same screenshot, possibly resized or recompressed
+}
+
+export const paymentProofFingerprintSelect = {
+  id: true,
+  companyAccountId: true,
+  transactionId: true,
+  paymentScreenshotHash: true
+} satisfies Prisma.OrderSelect;
+
+const normalizeTransactionId = (transactionId: string) => transactionId.trim().toUpperCase();
+
+/**
+ * Difference hash of an image: 64 bits saying whether each pixel of a
+ * 9x8 greyscale thumbnail is brighter than its right neighbour, as hex.
+ * Resizing and recompressing a screenshot barely changes it.
+ */
+export const computeImageHash = async (input: string | Buffer): Promise<string> => {
+  const pixels = await sharp(input)
+    .removeAlpha()
+    .resize(9, 8, { fit: 'fill' })
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let column = 0; column < 8; column++) {
+      const index = row * 9 + column;
+      byte = (byte << 1) | (pixels[index] > pixels[index + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+/**
+ * Number of bits that differ between two image hashes
+ */
+export const hashDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Hash an uploaded payment screenshot by its URL or stored path. Uploads
+ * keep a processed copy next to the URL they return, so that is tried too.
+ * Returns null when the file cannot be found or read.
+ */
+export const hashPaymentScreenshot = async (screenshot: string | null | undefined): Promise<string | null> => {
+  if (!screenshot) return null;
+
+  const marker = screenshot.indexOf('/uploads/');
+  if (marker < 0) return null;
+
+  const relativePath = path.normalize(screenshot.slice(marker + '/uploads/'.length).split(/[?#]/)[0]);
+  if (relativePath.startsWith('..')) return null;
+
+  const { dir, name, ext } = path.parse(path.join(UPLOADS_ROOT, relativePath));
+  const candidates = [path.join(dir, `${name}${ext}`), path.join(dir, `${name}_processed${ext}`)];
+  const filePath = candidates.find(candidate => fs.existsSync(candidate));
+  if (!filePath) return null;
+
+  try {
+    return await computeImageHash(filePath);
+  } catch (error) {
+    console.error(`Could not hash payment screenshot ${screenshot}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Other orders that already used a customer-provided transaction ID on the
+ * same company account. Canceled and refunded orders do not count, so a
+ * customer can reuse a transfer for an order that was canceled before it
+ * was verified, and the canceled order can still be refunded afterwards.
+ */
+export const findTransactionIdConflicts = async (
+  db: DbClient,
+  { transactionId, companyAccountId, excludeOrderId }: {
+    transactionId: string;
+    companyAccountId: string | null;
+    excludeOrderId?: string;
+  }
+): Promise<string[]> => {
+  const orders = await db.order.findMany({
+    where: {
+      paymentType: 'ONLINE_TRANSFER',
+      status: { notIn: TRANSACTION_ID_RELEASED_STATUSES },
+      companyAccountId,
+      transactionId: { equals: transactionId.trim(), mode: 'insensitive' },
+      ...(excludeOrderId ? { id: { not: excludeOrderId } } : {})
+    },
+    select: { id: true }
+  });
+  return orders.map(order => order.id);
+};
+
+/**
+ * Whether a write lost the race for a transaction ID to another order: the
+ * database's unique index backs up findTransactionIdConflicts
+ */
+export const isDuplicateTransactionIdError = (error: unknown): boolean => {
+  return error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002' &&
+    String(error.meta?.target ?? '').includes('transactionId');
+};
+
+/**
+ * Compare an order's payment proof with earlier orders. Returns null when
+ * nothing looks re-used.
+ */
+export const findPaymentSuspicion = (
+  order: PaymentProofFingerprint,
+  others: PaymentProofFingerprint[]
+): PaymentSuspicion | null => {
+  const transactionId = order.transactionId ? normalizeTransactionId(order.transactionId) : null;
+
+  const duplicateTransactionOrderIds = transactionId
+    ? others
+        .filter(other => other.id !== order.id &&
+          other.companyAccountId === order.companyAccountId &&
+          other.transactionId !== null &&
+          normalizeTransactionId(other.transactionId) === transactionId)
+        .map(other => other.id)
+    : [];
+
+  const similarScreenshotOrderIds = order.paymentScreenshotHash
+    ? others
+        .filter(other => other.id !== order.id &&
+          other.paymentScreenshotHash !== null &&
+          hashDistance(other.paymentScreenshotHash, order.paymentScreenshotHash!) <= SCREENSHOT_MATCH_DISTANCE)
+        .map(other => other.id)
+    : [];
+
+  if (duplicateTransactionOrderIds.length === 0 && similarScreenshotOrderIds.length === 0) {
+    return null;
+  }
+  return { duplicateTransactionOrderIds, similarScreenshotOrderIds };
+};
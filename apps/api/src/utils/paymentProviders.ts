@@ -0,0 +1,133 @@
+import { OrderStatus, PaymentType, Prisma } from '@prisma/client';
+import { mockPaymentProvider } from './mockPaymentGateway';
+
+// What a provider reports about an order's payment
+export type ProviderPaymentStatus = 'PENDING' | 'PAID' | 'FAILED';
+
+export interface PaymentOrder {
+  id: string;
+  status: OrderStatus;
+  totalAmount: number;
+  paymentReference: string | null;
+  paymentVerifiedAt: Date | null;
+}
+
+export interface PaymentInitiation {
+  paymentReference: string | null; // stored on the order so callbacks can find it
+  redirectUrl: string | null;      // where the customer pays, for hosted gateways
+}
+
+export interface PaymentCallback {
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+}
+
+export type PaymentCallbackResult =
+  | { valid: true; paymentReference: string; status: ProviderPaymentStatus; amount: number | null; transactionId: string | null }
+  | { valid: false; error: string };
+
+export type ProviderRefundResult =
+  | { success: true; reference: string | null }
+  | { success: false; error: string };
+
+export interface PaymentProvider {
+  type: PaymentType;
+  // New orders start here: PENDING until paid, or PROCESSING when paid on delivery
+  initialStatus: 'PENDING' | 'PROCESSING';
+  // Whether customers send a transaction ID or screenshot for an admin to verify
+  acceptsPaymentProof: boolean;
+  // Start the payment of a newly placed order
+  initiate(order: PaymentOrder): Promise<PaymentInitiation>;
+  // Check a gateway callback is genuine and read the payment status from it
+  verifyCallback(callback: PaymentCallback): PaymentCallbackResult;
+  // Ask the provider where the payment stands, for missed callbacks
+  queryStatus(order: PaymentOrder): Promise<ProviderPaymentStatus>;
+  // Pay money back; providers without a gateway are refunded by hand.
+  // Retries of one refund share its idempotencyKey, so it is paid out at most once.
+  refund(order: PaymentOrder, refund: { amount: number; reason: string; idempotencyKey: string }): Promise<ProviderRefundResult>;
+}
+
+export const paymentOrderSelect = {
+  id: true,
+  status: true,
+  totalAmount: true,
+  paymentReference: true,
+  paymentVerifiedAt: true
+} satisfies Prisma.OrderSelect;
+
+/**
+ * Provider view of an order loaded with paymentOrderSelect
+ */
+export const toPaymentOrder = (order: Prisma.OrderGetPayload<{ select: typeof paymentOrderSelect }>): PaymentOrder => ({
+  ...order,
+  totalAmount: Number(order.totalAmount)
+});
+
+const noCallbacks = (name: string) => (): PaymentCallbackResult => ({
+  valid: false,
+  error: `${name} payments have no gateway callbacks`
+});
+
+const noGateway = async (): Promise<PaymentInitiation> => ({ paymentReference: null, redirectUrl: null });
+
+const refundByHand = async (): Promise<ProviderRefundResult> => ({ success: true, reference: null });
+
+/**
+ * Cash on delivery: the courier collects the payment, so orders are
+ * processed straight away and count as paid once delivered
+ */
+export const codPaymentProvider: PaymentProvider = {
+  type: 'COD',
+  initialStatus: 'PROCESSING',
+  acceptsPaymentProof: false,
+  initiate: noGateway,
+  verifyCallback: noCallbacks('Cash on delivery'),
+  queryStatus: async (order) => {
+    if (['DELIVERED', 'RETURNED', 'REFUNDED'].includes(order.status)) return 'PAID';
+    if (order.status === 'CANCELED') return 'FAILED';
+    return 'PENDING';
+  },
+  refund: refundByHand
+};
+
+/**
+ * Manual transfer to a company account: the customer sends proof and an
+ * admin verifies it against the account (see paymentVerification)
+ */
+export const manualTransferProvider: PaymentProvider = {
+  type: 'ONLINE_TRANSFER',
+  initialStatus: 'PENDING',
+  acceptsPaymentProof: true,
+  initiate: noGateway,
+  verifyCallback: noCallbacks('Online transfer'),
+  queryStatus: async (order) => {
+    if (order.paymentVerifiedAt) return 'PAID';
+    if (order.status === 'CANCELED') return 'FAILED';
+    return 'PENDING';
+  },
+  refund: refundByHand
+};
+
+export const PAYMENT_PROVIDERS: Record<PaymentType, PaymentProvider> = {
+  COD: codPaymentProvider,
+  ONLINE_TRANSFER: manualTransferProvider,
+  MOCK: mockPaymentProvider
+};
+
+export const getPaymentProvider = (type: PaymentType): PaymentProvider => PAYMENT_PROVIDERS[type];
+
+/**
+ * Payment types customers can choose at checkout. The mock gateway is
+ * only offered when PAYMENT_MOCK_ENABLED is set.
+ */
+export const getEnabledPaymentTypes = (): PaymentType[] => {
+  const types: PaymentType[] = ['COD', 'ONLINE_TRANSFER'];
+  if (process.env.PAYMENT_MOCK_ENABLED === 'true') {
+    types.push('MOCK');
+  }
+  return types;
+};
+
+export const isPaymentTypeEnabled = (type: unknown): type is PaymentType => {
+  return getEnabledPaymentTypes().includes(type as PaymentType);
+};
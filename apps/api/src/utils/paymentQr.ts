@@ -0,0 +1,124 @@
+import QRCode from 'qrcode';
+import { CompanyPaymentAccount } from '@prisma/client';
+
+export type PaymentQrFormat = 'svg' | 'png';
+
+export const PAYMENT_QR_FORMATS: PaymentQrFormat[] = ['svg', 'png'];
+
+export interface PaymentQrRequest {
+  amount: number;
+  reference: string; // order reference, so the transfer can be matched to the order
+}
+
+export interface PaymentQrCode {
+  companyAccountId: string;
+  name: string;
+  type: string;
+  accountName: string;
+  accountNo: string;
+  payload: string;
+  image: string; // data URL in the requested format
+}
+
+// ISO 4217 / ISO 3166 codes for Myanmar kyat and Myanmar
+const CURRENCY_MMK = '104';
+const COUNTRY_MM = 'MM';
+
+/**
+ * Reference customers see for an order, as shown on the order pages
+ */
+export const getOrderPaymentReference = (orderId: string): string => orderId.slice(-8).toUpperCase();
+
+// Tag, two-digit length and value of one EMV data object
+const tlv = (tag: string, value: string): string => `${tag}${value.length.toString().padStart(2, '0')}${value}`;
+
+/**
+ * CRC-16/CCITT-FALSE checksum that ends an EMV QR payload, as 4 hex digits
+ */
+export const emvCrc = (data: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+const formatQrAmount = (amount: number): string => {
+  const rounded = Math.round(amount * 100) / 100;
+  return Number.isInteger(rounded) ? rounded.toString() : rounded.toFixed(2);
+};
+
+// EMV text fields are printable ASCII of limited length
+const toQrText = (value: string, maxLength: number): string => {
+  return value.replace(/[^\x20-\x7e]/g, '').trim().slice(0, maxLength);
+};
+
+/**
+ * Dynamic merchant-presented QR payload in the EMVCo format that MMQR
+ * follows: the company account (type and number) in template 26, the exact
+ * amount in MMK, and the order reference as the bill number and reference
+ * label so the transfer can be matched to the order.
+ */
+export const buildPaymentQrPayload = (
+  account: { type: string; accountNo: string; accountName: string },
+  { amount, reference }: PaymentQrRequest
+): string => {
+  const merchantAccount = tlv('00', account.type) + tlv('01', toQrText(account.accountNo, 30));
+  const additionalData = tlv('01', toQrText(reference, 25)) + tlv('05', toQrText(reference, 25));
+
+  const payload = [
+    tlv('00', '01'),
+    tlv('01', '12'), // dynamic: the code is only valid for this amount
+    tlv('26', merchantAccount),
+    tlv('52', '0000'),
+    tlv('53', CURRENCY_MMK),
+    tlv('54', formatQrAmount(amount)),
+    tlv('58', COUNTRY_MM),
+    tlv('59', toQrText(account.accountName, 25) || 'Nan Ayeyar'),
+    tlv('60', toQrText(process.env.PAYMENT_QR_MERCHANT_CITY || 'Yangon', 15)),
+    tlv('62', additionalData)
+  ].join('') + '6304';
+
+  return payload + emvCrc(payload);
+};
+
+/**
+ * Render a payload as a data URL, so it can be shown without another request
+ */
+export const renderPaymentQr = async (payload: string, format: PaymentQrFormat): Promise<string> => {
+  const options = { errorCorrectionLevel: 'M' as const, margin: 2 };
+  if (format === 'png') {
+    return QRCode.toDataURL(payload, { ...options, width: 320 });
+  }
+  const svg = await QRCode.toString(payload, { ...options, type: 'svg' });
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+/**
+ * One QR code per company account for paying the given amount
+ */
+export const buildAccountPaymentQrCodes = async (
+  accounts: CompanyPaymentAccount[],
+  request: PaymentQrRequest,
+  format: PaymentQrFormat
+): Promise<PaymentQrCode[]> => {
+  return Promise.all(accounts.map(async (account) => {
+    const details = account.details as { accountNo?: string; accountName?: string };
+    const accountNo = details.accountNo || '';
+    const accountName = details.accountName || account.name;
+    const payload = buildPaymentQrPayload({ type: account.type, accountNo, accountName }, request);
+
+    return {
+      companyAccountId: account.id,
+      name: account.name,
+      type: account.type,
+      accountName,
+      accountNo,
+      payload,
+      image: await renderPaymentQr(payload, format)
+    };
+  }));
+};
@@ -0,0 +1,253 @@
+import { Order, OrderStatus, PaymentType, Prisma, PrismaClient } from '@prisma/client';
+import { hasPaymentProof } from './reservations';
+import { transitionOrder } from './orderLifecycle';
+import { lockOrderForRefund } from './refunds';
+import {
+  getPaymentProvider,
+  PaymentInitiation,
+  paymentOrderSelect,
+  ProviderPaymentStatus,
+  toPaymentOrder
+} from './paymentProviders';
+
+export interface PaymentVerificationConfig {
+  agingHours: number;  // transfers waiting this long are flagged
+  overdueHours: number; // and this long are overdue
+}
+
+export type PaymentAging = 'NEW' | 'AGING' | 'OVERDUE';
+
+export interface PaymentAge {
+  waitingMinutes: number;
+  aging: PaymentAging;
+}
+
+export type PaymentReviewResult =
+  | { success: true; order: Order }
+  | { success: false; status: number; error: string };
+
+export interface PaymentReviewRequest {
+  confirmed: boolean;
+  notes?: string;
+  actorId: string;
+}
+
+export interface GatewayPaymentUpdate {
+  status: ProviderPaymentStatus;
+  amount: number | null; // amount the gateway says was paid
+  transactionId: string | null;
+}
+
+export type GatewayPaymentResult =
+  | { success: true; order: Order; changed: boolean }
+  | { success: false; status: number; error: string };
+
+export type PaymentStartResult =
+  | { success: true; redirectUrl: string | null }
+  | { success: false; status: number; error: string };
+
+export interface PaymentProofOrder {
+  paymentType: PaymentType;
+  status: OrderStatus;
+  paymentRejectedAt: Date | null;
+}
+
+// Transfers waiting for an admin to verify them, oldest proof first
+export const paymentQueueWhere = {
+  paymentType: 'ONLINE_TRANSFER',
+  status: 'PENDING'
+} satisfies Prisma.OrderWhereInput;
+
+/**
+ * Verification queue settings from the environment
+ */
+export const getPaymentVerificationConfig = (): PaymentVerificationConfig => ({
+  agingHours: parseInt(process.env.PAYMENT_VERIFICATION_AGING_HOURS || '4'),
+  overdueHours: parseInt(process.env.PAYMENT_VERIFICATION_OVERDUE_HOURS || '24')
+});
+
+/**
+ * How long a transfer has waited for verification. Orders without proof
+ * yet count from when they were placed.
+ */
+export const getPaymentAge = (
+  order: { createdAt: Date; paymentSubmittedAt: Date | null },
+  now: Date = new Date(),
+  config: PaymentVerificationConfig = getPaymentVerificationConfig()
+): PaymentAge => {
+  const since = order.paymentSubmittedAt || order.createdAt;
+  const waitingMinutes = Math.max(0, Math.floor((now.getTime() - since.getTime()) / (60 * 1000)));
+
+  let aging: PaymentAging = 'NEW';
+  if (waitingMinutes >= config.overdueHours * 60) {
+    aging = 'OVERDUE';
+  } else if (waitingMinutes >= config.agingHours * 60) {
+    aging = 'AGING';
+  }
+
+  return { waitingMinutes, aging };
+};
+
+/**
+ * Check whether a customer can send new transfer proof for an order.
+ * Proof can be added while the order waits for verification, or resent
+ * after an admin rejected it. Returns an error message, or null.
+ */
+export const checkPaymentProofUpdate = (
+  order: PaymentProofOrder,
+  proof: { transactionId?: string | null; paymentScreenshot?: string | null }
+): string | null => {
+  if (!getPaymentProvider(order.paymentType).acceptsPaymentProof) {
+    return 'Payment proof can only be sent for online transfer orders';
+  }
+
+  const isRejected = order.status === 'ON_HOLD' && !!order.paymentRejectedAt;
+  if (order.status !== 'PENDING' && !isRejected) {
+    return 'Payment proof can only be sent while the payment is waiting for verification or was rejected';
+  }
+
+  if (!hasPaymentProof(proof)) {
+    return 'Add a transaction ID or a payment screenshot';
+  }
+
+  return null;
+};
+
+/**
+ * Verify or reject the transfer of a pending online transfer order. A
+ * verified transfer moves the order to PROCESSING; a rejected one puts it
+ * on hold until the customer resubmits proof. Run inside a transaction.
+ * The order row is locked before its status is checked, so a second review
+ * of the same transfer waits and then finds it no longer pending.
+ */
+export const recordPaymentReview = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  { confirmed, notes, actorId }: PaymentReviewRequest
+): Promise<PaymentReviewResult> => {
+  await lockOrderForRefund(tx, orderId);
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { paymentType: true, status: true }
+  });
+
+  if (!order) {
+    return { success: false, status: 404, error: 'Order not found' };
+  }
+
+  if (order.paymentType !== 'ONLINE_TRANSFER') {
+    return { success: false, status: 400, error: 'Order is not an online transfer order' };
+  }
+
+  if (order.status !== 'PENDING') {
+    return { success: false, status: 400, error: 'Order is not in pending status' };
+  }
+
+  const transition = await transitionOrder(tx, orderId, {
+    to: confirmed ? 'PROCESSING' : 'ON_HOLD',
+    actor: { id: actorId, role: 'admin' },
+    note: notes || (confirmed ? 'Payment confirmed' : 'Payment could not be verified')
+  });
+
+  if (!transition.success) {
+    return transition;
+  }
+
+  // Reviewing the order released its reservation
+  const now = new Date();
+  const updatedOrder = await tx.order.update({
+    where: { id: orderId },
+    data: confirmed
+      ? { paymentVerifiedAt: now, paymentRejectedAt: null, paymentRejectionReason: null }
+      : { paymentRejectedAt: now, paymentRejectionReason: notes || null }
+  });
+
+  return { success: true, order: updatedOrder };
+};
+
+/**
+ * Apply a payment status reported by a gateway, from a callback or a
+ * status query. Only pending orders change, so repeated callbacks are
+ * harmless: a paid order moves to PROCESSING, or ON_HOLD for an admin when
+ * the amount paid differs from the order total, and a failed payment
+ * cancels the order. Run inside a transaction.
+ */
+export const applyGatewayPayment = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  { status, amount, transactionId }: GatewayPaymentUpdate
+): Promise<GatewayPaymentResult> => {
+  const order = await tx.order.findUnique({ where: { id: orderId } });
+  if (!order) {
+    return { success: false, status: 404, error: 'Order not found' };
+  }
+
+  if (order.status !== 'PENDING' || status === 'PENDING') {
+    return { success: true, order, changed: false };
+  }
+
+  const provider = order.paymentType;
+  const amountMatches = amount === null || amount === Number(order.totalAmount);
+
+  const transition = await transitionOrder(tx, orderId, {
+    to: status === 'FAILED' ? 'CANCELED' : amountMatches ? 'PROCESSING' : 'ON_HOLD',
+    actor: { id: null, role: 'system' },
+    note: status === 'FAILED'
+      ? `Payment failed (${provider})`
+      : amountMatches
+        ? `Payment confirmed by ${provider}`
+        : `${provider} reported ${amount} MMK paid against an order total of ${order.totalAmount} MMK`
+  });
+
+  if (!transition.success) {
+    return transition;
+  }
+
+  const now = new Date();
+  const updatedOrder = await tx.order.update({
+    where: { id: orderId },
+    data: status === 'PAID'
+      ? {
+          transactionId: transactionId || order.transactionId,
+          paymentSubmittedAt: now,
+          paymentVerifiedAt: amountMatches ? now : null
+        }
+      : {}
+  });
+
+  return { success: true, order: updatedOrder, changed: true };
+};
+
+/**
+ * Start the payment of a newly placed order through its provider, once the
+ * order has committed, and store the gateway reference for its callbacks.
+ * Orders whose payment cannot be started are canceled and restocked.
+ */
+export const startOrderPayment = async (prisma: PrismaClient, orderId: string): Promise<PaymentStartResult> => {
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { ...paymentOrderSelect, paymentType: true }
+  });
+
+  let payment: PaymentInitiation;
+  try {
+    payment = await getPaymentProvider(order.paymentType).initiate(toPaymentOrder(order));
+  } catch (error) {
+    console.error(`Starting ${order.paymentType} payment failed for order ${order.id}:`, error);
+    await prisma.$transaction((tx) => transitionOrder(tx, order.id, {
+      to: 'CANCELED',
+      actor: { id: null, role: 'system' },
+      note: 'Payment could not be started'
+    }));
+    return { success: false, status: 502, error: 'Payment could not be started, please try again' };
+  }
+
+  if (payment.paymentReference) {
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { paymentReference: payment.paymentReference }
+    });
+  }
+
+  return { success: true, redirectUrl: payment.redirectUrl };
+};
@@ -0,0 +1,136 @@
+import { PriceList, Prisma } from '@prisma/client';
+
+export interface PriceTierEntry {
+  priceList: PriceList;
+  minQuantity: number;
+  price: Prisma.Decimal | number;
+}
+
+export interface AppliedTier {
+  minQuantity: number;
+  priceList: PriceList;
+}
+
+export interface TierPrice {
+  unitPrice: number;
+  listPrice: number; // the price per bag without the tier
+  tier: AppliedTier | null;
+}
+
+export interface PriceBand {
+  minQuantity: number;
+  maxQuantity: number | null; // null for the last band, e.g. "20+ bags"
+  price: number;
+}
+
+export type PriceTierCheck = { valid: true } | { valid: false; error: string };
+
+// Include for the tiers of a variant, smallest quantity first
+export const variantPriceTiersQuery = {
+  orderBy: { minQuantity: 'asc' }
+} satisfies Prisma.ProductVariant$priceTiersArgs;
+
+// Include for the tiers of a product itself, leaving out those of its variants
+export const productPriceTiersQuery = {
+  where: { variantId: null },
+  orderBy: { minQuantity: 'asc' }
+} satisfies Prisma.Product$priceTiersArgs;
+
+/**
+ * The tiers a customer buys from, smallest quantity first. Wholesale
+ * customers get the wholesale list where the product has one and the
+ * retail tiers otherwise.
+ */
+export const getCustomerTiers = (tiers: PriceTierEntry[], isWholesale = false): PriceTierEntry[] => {
+  const wholesale = tiers.filter(tier => tier.priceList === 'WHOLESALE');
+  const list = isWholesale && wholesale.length > 0
+    ? wholesale
+    : tiers.filter(tier => tier.priceList === 'RETAIL');
+  return [...list].sort((a, b) => a.minQuantity - b.minQuantity);
+};
+
+/**
+ * The price per bag for a line of the given quantity. The largest tier the
+ * quantity reaches applies, unless the list price (which may be a sale
+ * price) is already lower.
+ */
+export const resolveTierPrice = (
+  listPrice: number,
+  tiers: PriceTierEntry[],
+  quantity: number,
+  isWholesale = false
+): TierPrice => {
+  const tier = getCustomerTiers(tiers, isWholesale)
+    .filter(entry => entry.minQuantity <= quantity)
+    .pop();
+
+  if (tier && Number(tier.price) < listPrice) {
+    return {
+      unitPrice: Number(tier.price),
+      listPrice,
+      tier: { minQuantity: tier.minQuantity, priceList: tier.priceList }
+    };
+  }
+
+  return { unitPrice: listPrice, listPrice, tier: null };
+};
+
+/**
+ * Quantity bands and their price per bag for display, e.g. 1-4, 5-19 and
+ * 20+ bags. Empty when no tiers apply.
+ */
+export const getPriceBands = (listPrice: number, tiers: PriceTierEntry[], isWholesale = false): PriceBand[] => {
+  const list = getCustomerTiers(tiers, isWholesale);
+  if (list.length === 0) return [];
+
+  const bands: PriceBand[] = [];
+  if (list[0].minQuantity > 1) {
+    bands.push({ minQuantity: 1, maxQuantity: list[0].minQuantity - 1, price: listPrice });
+  }
+
+  list.forEach((tier, index) => {
+    const next = list[index + 1];
+    bands.push({
+      minQuantity: tier.minQuantity,
+      maxQuantity: next ? next.minQuantity - 1 : null,
+      price: Math.min(Number(tier.price), listPrice)
+    });
+  });
+
+  return bands;
+};
+
+/**
+ * Check the tiers of one product or variant before they replace the old ones
+ */
+export const checkPriceTiers = (tiers: PriceTierEntry[]): PriceTierCheck => {
+  for (const priceList of ['RETAIL', 'WHOLESALE'] as PriceList[]) {
+    const list = tiers
+      .filter(tier => tier.priceList === priceList)
+      .sort((a, b) => a.minQuantity - b.minQuantity);
+
+    if (priceList === 'RETAIL' && list.some(tier => tier.minQuantity < 2)) {
+      return { valid: false, error: 'Retail tiers start at 2 bags; a single bag costs the regular price' };
+    }
+
+    for (let i = 1; i < list.length; i++) {
+      if (list[i].minQuantity === list[i - 1].minQuantity) {
+        return { valid: false, error: `Two ${priceList.toLowerCase()} tiers start at ${list[i].minQuantity} bags` };
+      }
+      if (Number(list[i].price) > Number(list[i - 1].price)) {
+        return { valid: false, error: 'Larger quantities cannot cost more per bag' };
+      }
+    }
+  }
+
+  return { valid: true };
+};
+
+/**
+ * The tier columns of an order item; a line without a tier keeps them null
+ */
+export const toOrderItemTier = (pricing: TierPrice) => ({
+  listPrice: pricing.tier ? pricing.listPrice : null,
+  tierMinQuantity: pricing.tier?.minQuantity ?? null,
+  tierPriceList: pricing.tier?.priceList ?? null
+});
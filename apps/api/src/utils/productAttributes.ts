@@ -0,0 +1,227 @@
+import { Prisma, PrismaClient, Product } from '@prisma/client';
+import { body } from 'express-validator';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ProductAttributes {
+  variety: string | null;
+  grade: string | null;
+  weightKg: number | null;
+  origin: string | null;
+  harvestDate: string | null; // YYYY-MM-DD
+  packageType: string | null;
+}
+
+export type ProductAttributeName = keyof ProductAttributes;
+
+export const PRODUCT_ATTRIBUTES: ProductAttributeName[] = ['variety', 'grade', 'weightKg', 'origin', 'harvestDate', 'packageType'];
+
+// Attributes the product list can be filtered by and returns counts for
+export const FACET_ATTRIBUTES = ['variety', 'grade', 'weightKg', 'origin', 'packageType'] as const;
+
+export type FacetAttribute = typeof FACET_ATTRIBUTES[number];
+
+export type AttributeFilters = Partial<Record<FacetAttribute, string>>;
+
+export interface FacetValue {
+  value: string | number;
+  count: number;
+}
+
+export type ProductFacets = Record<FacetAttribute, FacetValue[]>;
+
+type AttributeColumns = Pick<Product, ProductAttributeName>;
+
+// A product's own weight and the bag weights of the sizes customers can order
+export interface ProductWeights {
+  weightKg: Prisma.Decimal | number | null;
+  variants: Array<{ weightKg: Prisma.Decimal | number | null }>;
+}
+
+const TEXT_ATTRIBUTES = ['variety', 'grade', 'origin', 'packageType'] as const;
+
+/**
+ * The rice attributes of a product as plain JSON values
+ */
+export const formatProductAttributes = (product: AttributeColumns): ProductAttributes => ({
+  variety: product.variety,
+  grade: product.grade,
+  weightKg: product.weightKg === null ? null : Number(product.weightKg),
+  origin: product.origin,
+  harvestDate: product.harvestDate ? product.harvestDate.toISOString().slice(0, 10) : null,
+  packageType: product.packageType
+});
+
+/**
+ * Metadata snapshot for an order item: the product's free-form details with
+ * its rice attributes on top, so shipping can read weightKg from the line.
+ * A variant's label and bag weight replace the product's.
+ */
+export const toOrderItemMetadata = (
+  product: AttributeColumns & { metadata: Prisma.JsonValue },
+  variant?: { label: string; weightKg: Prisma.Decimal | number | null } | null
+): Prisma.JsonObject => {
+  const extras = product.metadata && typeof product.metadata === 'object' && !Array.isArray(product.metadata)
+    ? product.metadata
+    : {};
+  const attributes = formatProductAttributes(product);
+
+  if (!variant) {
+    return { ...extras, ...attributes };
+  }
+
+  return {
+    ...extras,
+    ...attributes,
+    weightKg: variant.weightKg === null ? attributes.weightKg : Number(variant.weightKg),
+    variantLabel: variant.label
+  };
+};
+
+/**
+ * Column data for attributes given on create or update. Attributes that are
+ * left out are not touched; empty values clear the attribute.
+ */
+export const toProductAttributeData = (
+  attributes: Partial<Record<ProductAttributeName, unknown>> = {}
+): Partial<Pick<Prisma.ProductUncheckedCreateInput, ProductAttributeName>> => {
+  const data: Partial<Pick<Prisma.ProductUncheckedCreateInput, ProductAttributeName>> = {};
+
+  for (const name of TEXT_ATTRIBUTES) {
+    if (attributes[name] !== undefined) {
+      data[name] = attributes[name] ? String(attributes[name]).trim() || null : null;
+    }
+  }
+
+  if (attributes.weightKg !== undefined) {
+    data.weightKg = attributes.weightKg === null || attributes.weightKg === '' ? null : Number(attributes.weightKg);
+  }
+
+  if (attributes.harvestDate !== undefined) {
+    data.harvestDate = attributes.harvestDate ? new Date(`${attributes.harvestDate}T00:00:00Z`) : null;
+  }
+
+  return data;
+};
+
+/**
+ * Validators for an `attributes` object in a create or update body
+ */
+export const productAttributeValidators = [
+  body('attributes')
+    .optional()
+    .isObject()
+    .withMessage('Attributes must be an object'),
+  ...TEXT_ATTRIBUTES.map(name =>
+    body(`attributes.${name}`)
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage(`${name} must be text`)
+      .bail()
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage(`${name} must be less than 100 characters`)
+  ),
+  body('attributes.weightKg')
+    .optional({ values: 'falsy' })
+    .isFloat({ gt: 0, max: 1000 })
+    .withMessage('weightKg must be a positive number of kilograms'),
+  body('attributes.harvestDate')
+    .optional({ values: 'falsy' })
+    .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+    .withMessage('harvestDate must be a date in YYYY-MM-DD format')
+];
+
+/**
+ * Product filter for the given attribute values
+ */
+export const productAttributeWhere = (filters: AttributeFilters): Prisma.ProductWhereInput => {
+  const where: Prisma.ProductWhereInput = {};
+
+  for (const name of TEXT_ATTRIBUTES) {
+    if (filters[name]) {
+      where[name] = { equals: filters[name], mode: 'insensitive' };
+    }
+  }
+
+  // Products with sizes match by any size's bag weight; merged products have no weight of their own
+  if (filters.weightKg) {
+    const weightKg = Number(filters.weightKg);
+    where.OR = [
+      { weightKg },
+      { variants: { some: { weightKg, disabled: false } } }
+    ];
+  }
+
+  return where;
+};
+
+/**
+ * Facet values ordered by count, then by value
+ */
+const sortFacetValues = (values: FacetValue[]): FacetValue[] => {
+  return values.sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value), undefined, { numeric: true }));
+};
+
+/**
+ * Count products per bag weight, taking the weights of a product's sizes
+ * as well as its own. A product counts once for each weight it comes in.
+ */
+export const countProductWeights = (products: ProductWeights[]): FacetValue[] => {
+  const counts = new Map<number, number>();
+  for (const product of products) {
+    const weights = new Set(
+      [product.weightKg, ...product.variants.map(variant => variant.weightKg)]
+        .filter((weightKg): weightKg is Prisma.Decimal | number => weightKg !== null)
+        .map(weightKg => Number(weightKg))
+    );
+    for (const weightKg of weights) {
+      counts.set(weightKg, (counts.get(weightKg) ?? 0) + 1);
+    }
+  }
+
+  return sortFacetValues(Array.from(counts, ([value, count]) => ({ value, count })));
+};
+
+/**
+ * Count products per attribute value. Each attribute's counts apply every
+ * other filter but not its own, so the other options stay selectable.
+ * Weights also count the bag weights of each product's sizes.
+ */
+export const getProductFacets = async (
+  db: DbClient,
+  baseWhere: Prisma.ProductWhereInput,
+  filters: AttributeFilters
+): Promise<ProductFacets> => {
+  const counts = await Promise.all(FACET_ATTRIBUTES.map(async (name) => {
+    const otherFilters = { ...filters, [name]: undefined };
+
+    if (name === 'weightKg') {
+      const products = await db.product.findMany({
+        where: { AND: [baseWhere, productAttributeWhere(otherFilters)] },
+        select: {
+          weightKg: true,
+          variants: { where: { disabled: false, weightKg: { not: null } }, select: { weightKg: true } }
+        }
+      });
+      return [name, countProductWeights(products)] as const;
+    }
+
+    const groups = await db.product.groupBy({
+      by: [name],
+      where: {
+        AND: [baseWhere, productAttributeWhere(otherFilters), { [name]: { not: null } }]
+      },
+      _count: { _all: true }
+    });
+
+    const values = groups.map(group => ({
+      value: group[name] as string,
+      count: group._count._all
+    }));
+
+    return [name, sortFacetValues(values)] as const;
+  }));
+
+  return Object.fromEntries(counts) as ProductFacets;
+};
@@ -0,0 +1,352 @@
+import { PriceKind, Prisma, PrismaClient } from '@prisma/client';
+import { productPriceTiersQuery, variantPriceTiersQuery } from './priceTiers';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface PriceEntry {
+  kind: PriceKind;
+  price: Prisma.Decimal | number;
+  startsAt: Date;
+  endsAt: Date | null;
+}
+
+export interface PriceSlot {
+  id: string;
+  startsAt: Date;
+  endsAt: Date | null;
+}
+
+export interface EffectivePrice {
+  price: number;
+  compareAtPrice: number | null; // the regular price while a lower sale price applies
+  saleEndsAt: Date | null;
+}
+
+export interface PricingConfig {
+  checkIntervalMinutes: number; // how often scheduled prices are copied onto products
+}
+
+export type PriceStatus = 'scheduled' | 'active' | 'ended';
+
+export type SaleScheduleCheck = { valid: true } | { valid: false; error: string };
+
+export interface PriceChange {
+  productId: string;
+  variantId?: string | null;
+  price: number;
+  startsAt: Date;
+  note?: string | null;
+  createdById?: string | null;
+}
+
+/**
+ * Pricing settings from the environment
+ */
+export const getPricingConfig = (): PricingConfig => ({
+  checkIntervalMinutes: parseInt(process.env.PRICE_CHECK_MINUTES || '5')
+});
+
+/**
+ * Prices that apply at the given moment
+ */
+export const activePricesWhere = (now: Date): Prisma.ProductPriceWhereInput => ({
+  startsAt: { lte: now },
+  OR: [{ endsAt: null }, { endsAt: { gt: now } }]
+});
+
+/**
+ * Include for the prices in effect on a variant
+ */
+export const variantPricesQuery = (now: Date) => ({
+  where: activePricesWhere(now)
+}) satisfies Prisma.ProductVariant$pricesArgs;
+
+/**
+ * Include for the prices in effect on a product itself, leaving out those
+ * of its variants
+ */
+export const productPricesQuery = (now: Date) => ({
+  where: { ...activePricesWhere(now), variantId: null }
+}) satisfies Prisma.Product$pricesArgs;
+
+/**
+ * Include for a product being ordered: its variants, and the prices in
+ * effect and quantity tiers of both
+ */
+export const orderablePricesInclude = (now: Date) => ({
+  prices: productPricesQuery(now),
+  priceTiers: productPriceTiersQuery,
+  variants: { include: { prices: variantPricesQuery(now), priceTiers: variantPriceTiersQuery } }
+}) satisfies Prisma.ProductInclude;
+
+/**
+ * Whether a price is still to come, applies now or is history
+ */
+export const getPriceStatus = (entry: Pick<PriceEntry, 'startsAt' | 'endsAt'>, now: Date = new Date()): PriceStatus => {
+  if (entry.startsAt > now) return 'scheduled';
+  if (entry.endsAt !== null && entry.endsAt <= now) return 'ended';
+  return 'active';
+};
+
+/**
+ * The price to charge at the given moment. The latest regular price that
+ * has started applies, or the stored price when there is none; a running
+ * sale replaces it when lower, and the regular price becomes the
+ * compare-at price.
+ */
+export const resolveEffectivePrice = (
+  basePrice: Prisma.Decimal | number,
+  prices: PriceEntry[],
+  now: Date = new Date()
+): EffectivePrice => {
+  const active = prices.filter(entry => getPriceStatus(entry, now) === 'active');
+
+  const regular = active
+    .filter(entry => entry.kind === 'REGULAR')
+    .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime())[0];
+  const regularPrice = Number(regular ? regular.price : basePrice);
+
+  const sale = active
+    .filter(entry => entry.kind === 'SALE')
+    .sort((a, b) => Number(a.price) - Number(b.price))[0];
+
+  if (sale && Number(sale.price) < regularPrice) {
+    return { price: Number(sale.price), compareAtPrice: regularPrice, saleEndsAt: sale.endsAt };
+  }
+
+  return { price: regularPrice, compareAtPrice: null, saleEndsAt: null };
+};
+
+// A product's own effective price in SQL, worked out like resolveEffectivePrice:
+// the latest active regular price (or the stored price), or the lowest active
+// sale when that is lower. LEAST ignores the NULL when no sale is running.
+const effectivePriceSql = (now: Date) => Prisma.sql`LEAST(
+  COALESCE((
+    SELECT pp."price" FROM "product_prices" pp
+    WHERE pp."productId" = p."id" AND pp."variantId" IS NULL AND pp."kind" = 'REGULAR'
+      AND pp."startsAt" <= ${now} AND (pp."endsAt" IS NULL OR pp."endsAt" > ${now})
+    ORDER BY pp."startsAt" DESC
+    LIMIT 1
+  ), p."price"),
+  (
+    SELECT MIN(pp."price") FROM "product_prices" pp
+    WHERE pp."productId" = p."id" AND pp."variantId" IS NULL AND pp."kind" = 'SALE'
+      AND pp."startsAt" <= ${now} AND (pp."endsAt" IS NULL OR pp."endsAt" > ${now})
+  )
+)`;
+
+/**
+ * Narrow and order products by the effective price shown in product lists,
+ * so products on sale are filtered and sorted at their sale price. Returns
+ * the IDs of the given products within the range, cheapest or dearest first
+ * when ordered (newest first otherwise).
+ */
+export const findProductIdsByEffectivePrice = async (
+  db: DbClient,
+  productIds: string[],
+  { min, max, order }: { min?: number; max?: number; order?: 'asc' | 'desc' },
+  now: Date = new Date()
+): Promise<string[]> => {
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const conditions = [
+    min !== undefined ? Prisma.sql`"effectivePrice" >= ${min}` : null,
+    max !== undefined ? Prisma.sql`"effectivePrice" <= ${max}` : null
+  ].filter((condition): condition is Prisma.Sql => condition !== null);
+
+  const orderBy = order === 'desc'
+    ? Prisma.sql`"effectivePrice" DESC, "createdAt" DESC`
+    : order === 'asc'
+      ? Prisma.sql`"effectivePrice" ASC, "createdAt" DESC`
+      : Prisma.sql`"createdAt" DESC`;
+
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    SELECT "id" FROM (
+      SELECT p."id", p."createdAt", ${effectivePriceSql(now)} AS "effectivePrice"
+      FROM "products" p
+      WHERE p."id" IN (${Prisma.join(productIds)})
+    ) priced
+    ${conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty}
+    ORDER BY ${orderBy}
+  `;
+
+  return rows.map(row => row.id);
+};
+
+/**
+ * Where a regular price starting at startsAt fits among the existing ones.
+ * It takes over the rest of the slot it starts in, which is cut short, so a
+ * later scheduled price still follows it.
+ */
+export const planRegularPrice = (
+  existing: PriceSlot[],
+  startsAt: Date
+): { endsAt: Date | null; shorten: { id: string; endsAt: Date } | null } => {
+  const current = existing.find(slot => slot.startsAt <= startsAt && (slot.endsAt === null || slot.endsAt > startsAt));
+  if (current) {
+    return { endsAt: current.endsAt, shorten: { id: current.id, endsAt: startsAt } };
+  }
+
+  const next = existing
+    .filter(slot => slot.startsAt > startsAt)
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())[0];
+  return { endsAt: next ? next.startsAt : null, shorten: null };
+};
+
+/**
+ * The regular price that runs on in place of a cancelled scheduled one
+ */
+export const planRegularPriceRemoval = (
+  existing: PriceSlot[],
+  removed: PriceSlot
+): { id: string; endsAt: Date | null } | null => {
+  const previous = existing.find(slot => slot.id !== removed.id && slot.endsAt?.getTime() === removed.startsAt.getTime());
+  return previous ? { id: previous.id, endsAt: removed.endsAt } : null;
+};
+
+/**
+ * Check a sale's dates against the other sales of the same product or variant
+ */
+export const checkSaleSchedule = (
+  existing: Array<Pick<PriceEntry, 'startsAt' | 'endsAt'>>,
+  startsAt: Date,
+  endsAt: Date,
+  now: Date = new Date()
+): SaleScheduleCheck => {
+  if (endsAt <= startsAt) {
+    return { valid: false, error: 'A sale must end after it starts' };
+  }
+
+  if (endsAt <= now) {
+    return { valid: false, error: 'A sale must end in the future' };
+  }
+
+  const overlaps = existing.some(sale => sale.startsAt < endsAt && (sale.endsAt === null || sale.endsAt > startsAt));
+  if (overlaps) {
+    return { valid: false, error: 'Another sale is already scheduled for these dates' };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Record a regular price from startsAt on. A price that has already started
+ * is also written to the product or variant straight away; later ones are
+ * applied by the price scheduler.
+ */
+export const setRegularPrice = async (db: DbClient, change: PriceChange, now: Date = new Date()) => {
+  const variantId = change.variantId ?? null;
+  const existing = await db.productPrice.findMany({
+    where: { productId: change.productId, variantId, kind: 'REGULAR' },
+    select: { id: true, startsAt: true, endsAt: true }
+  });
+
+  // Keep the price in use before history was recorded as its first entry
+  if (existing.length === 0) {
+    const current = variantId
+      ? await db.productVariant.findUniqueOrThrow({ where: { id: variantId }, select: { price: true, createdAt: true } })
+      : await db.product.findUniqueOrThrow({ where: { id: change.productId }, select: { price: true, createdAt: true } });
+
+    if (current.createdAt < change.startsAt) {
+      existing.push(await db.productPrice.create({
+        data: { productId: change.productId, variantId, price: current.price, startsAt: current.createdAt },
+        select: { id: true, startsAt: true, endsAt: true }
+      }));
+    }
+  }
+
+  const plan = planRegularPrice(existing, change.startsAt);
+  if (plan.shorten) {
+    await db.productPrice.update({
+      where: { id: plan.shorten.id },
+      data: { endsAt: plan.shorten.endsAt }
+    });
+  }
+
+  const entry = await db.productPrice.create({
+    data: {
+      productId: change.productId,
+      variantId,
+      kind: 'REGULAR',
+      price: change.price,
+      startsAt: change.startsAt,
+      endsAt: plan.endsAt,
+      note: change.note ?? null,
+      createdById: change.createdById ?? null
+    }
+  });
+
+  if (change.startsAt <= now && (plan.endsAt === null || plan.endsAt > now)) {
+    if (variantId) {
+      await db.productVariant.update({ where: { id: variantId }, data: { price: change.price } });
+    } else {
+      await db.product.update({ where: { id: change.productId }, data: { price: change.price } });
+    }
+  }
+
+  return entry;
+};
+
+/**
+ * Copy regular prices that have come into effect onto their products and
+ * variants, so the stored price stays the current regular price. Orders and
+ * list filters do not wait for this; they work out the effective price
+ * themselves. Returns the number of products and variants updated.
+ */
+export const applyScheduledPrices = async (db: DbClient, now: Date = new Date()): Promise<number> => {
+  const products = await db.$executeRaw`
+    UPDATE "products" p
+    SET "price" = pp."price", "updatedAt" = ${now}
+    FROM "product_prices" pp
+    WHERE pp."productId" = p."id"
+      AND pp."variantId" IS NULL
+      AND pp."kind" = 'REGULAR'
+      AND pp."startsAt" <= ${now}
+      AND (pp."endsAt" IS NULL OR pp."endsAt" > ${now})
+      AND p."price" <> pp."price"
+  `;
+
+  const variants = await db.$executeRaw`
+    UPDATE "product_variants" v
+    SET "price" = pp."price", "updatedAt" = ${now}
+    FROM "product_prices" pp
+    WHERE pp."variantId" = v."id"
+      AND pp."kind" = 'REGULAR'
+      AND pp."startsAt" <= ${now}
+      AND (pp."endsAt" IS NULL OR pp."endsAt" > ${now})
+      AND v."price" <> pp."price"
+  `;
+
+  return products + variants;
+};
+
+/**
+ * Run the price scheduler on an interval inside the API process.
+ * Returns a function that stops it.
+ */
+export const startPriceScheduler = (prisma: PrismaClient = new PrismaClient()): (() => void) => {
+  const { checkIntervalMinutes } = getPricingConfig();
+  let running = false;
+
+  const check = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const updated = await applyScheduledPrices(prisma);
+      if (updated > 0) {
+        console.log(`Price scheduler: ${updated} prices applied`);
+      }
+    } catch (error) {
+      console.error('Price scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(check, checkIntervalMinutes * 60 * 1000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
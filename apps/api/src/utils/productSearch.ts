@@ -0,0 +1,359 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface ProductSearchHit {
+  id: string;
+  score: number;
+}
+
+export interface SearchSuggestion {
+  type: 'product' | 'category' | 'variety';
+  // Product id, category slug or variety name
+  value: string;
+  text: string;
+  highlight: HighlightSegment[];
+}
+
+export interface SearchableProduct {
+  name_en: string;
+  name_my: string | null;
+  description_en: string | null;
+  description_my: string | null;
+  sku: string | null;
+  variety: string | null;
+  grade: string | null;
+  origin: string | null;
+  variants: Array<{ label: string; sku: string | null }>;
+  categories: Array<{ name_en: string; name_my: string | null }>;
+}
+
+// Zawgyi code points that are not valid Unicode Burmese, or sit where Unicode never puts them:
+// vowel E or medial RA before a consonant, and Zawgyi's asat (U+1039) not followed by a consonant
+const ZAWGYI_PATTERN = /[\u1033\u1034\u105A\u1060-\u1097]|(?:^|[^\u1000-\u102A\u103B-\u103F])[\u1031\u103B][\u1000-\u1021]|\u1039(?![\u1000-\u1021])/;
+
+// Zawgyi glyphs and the Unicode characters they stand for. Kinzi (U+1064, U+108B-U+108D)
+// is handled with the syllable reordering below.
+const ZAWGYI_CHARACTERS: Record<string, string> = {
+  '\u1033': '\u102F',
+  '\u1034': '\u1030',
+  '\u1039': '\u103A',
+  '\u103A': '\u103B',
+  '\u103B': '\u103C',
+  '\u103C': '\u103D',
+  '\u103D': '\u103E',
+  '\u105A': '\u102B\u103A',
+  '\u1060': '\u1039\u1000',
+  '\u1061': '\u1039\u1001',
+  '\u1062': '\u1039\u1002',
+  '\u1063': '\u1039\u1003',
+  '\u1065': '\u1039\u1005',
+  '\u1066': '\u1039\u1006',
+  '\u1067': '\u1039\u1006',
+  '\u1068': '\u1039\u1007',
+  '\u1069': '\u1039\u1008',
+  '\u106A': '\u1009',
+  '\u106B': '\u100A',
+  '\u106C': '\u1039\u100B',
+  '\u106D': '\u1039\u100C',
+  '\u106E': '\u100D\u1039\u100D',
+  '\u106F': '\u100D\u1039\u100E',
+  '\u1070': '\u1039\u100F',
+  '\u1071': '\u1039\u1010',
+  '\u1072': '\u1039\u1010',
+  '\u1073': '\u1039\u1011',
+  '\u1074': '\u1039\u1011',
+  '\u1075': '\u1039\u1012',
+  '\u1076': '\u1039\u1013',
+  '\u1077': '\u1039\u1014',
+  '\u1078': '\u1039\u1015',
+  '\u1079': '\u1039\u1016',
+  '\u107A': '\u1039\u1017',
+  '\u107B': '\u1039\u1018',
+  '\u107C': '\u1039\u1019',
+  '\u107D': '\u103B',
+  '\u107E': '\u103C',
+  '\u107F': '\u103C',
+  '\u1080': '\u103C',
+  '\u1081': '\u103C',
+  '\u1082': '\u103C',
+  '\u1083': '\u103C',
+  '\u1084': '\u103C',
+  '\u1085': '\u1039\u101C',
+  '\u1086': '\u103F',
+  '\u1087': '\u103E',
+  '\u1088': '\u103E\u102F',
+  '\u1089': '\u103E\u1030',
+  '\u108A': '\u103D\u103E',
+  '\u108E': '\u102D\u1036',
+  '\u108F': '\u1014',
+  '\u1090': '\u101B',
+  '\u1091': '\u100F\u1039\u100D',
+  '\u1092': '\u100B\u1039\u100C',
+  '\u1093': '\u1039\u1018',
+  '\u1094': '\u1037',
+  '\u1095': '\u1037',
+  '\u1096': '\u1039\u1010\u103D',
+  '\u1097': '\u100B\u1039\u100B'
+};
+
+const ZAWGYI_CHARACTER_PATTERN = new RegExp(`[${Object.keys(ZAWGYI_CHARACTERS).join('')}]`, 'g');
+
+// Vowel signs that come with a Zawgyi kinzi glyph
+const KINZI_VOWELS: Record<string, string> = {
+  '\u1064': '',
+  '\u108B': '\u102D',
+  '\u108C': '\u102E',
+  '\u108D': '\u1036'
+};
+
+const KINZI = '\u1004\u103A\u1039';
+
+/**
+ * Whether Burmese text looks like it was typed in the Zawgyi font encoding
+ */
+export const isZawgyi = (text: string): boolean => ZAWGYI_PATTERN.test(text);
+
+/**
+ * Convert Zawgyi-encoded Burmese to Unicode. Zawgyi stores glyphs in visual
+ * order, so vowel E and medial RA typed before a consonant move after it.
+ */
+export const zawgyiToUnicode = (text: string): string =>
+  text
+    .replace(/\u200B/g, '')
+    .replace(ZAWGYI_CHARACTER_PATTERN, (character) => ZAWGYI_CHARACTERS[character])
+    // Zawgyi users type the digits zero and seven for the letters WA and RA
+    .replace(/(?<=\u1031)\u1040|\u1040(?=[\u102B-\u1030\u1032\u1036-\u1038\u103A-\u103E])/g, '\u101D')
+    .replace(/(?<=\u1031)\u1047|\u1047(?=[\u102B-\u1030\u1032\u1036-\u1038\u103A-\u103E])/g, '\u101B')
+    .replace(
+      /([\u1031\u103C]+)([\u1000-\u1021])([\u1064\u108B-\u108D])?((?:\u1039[\u1000-\u1021])?)([\u103B\u103D\u103E]*)/g,
+      (_match, prefix: string, consonant: string, kinzi: string | undefined, stacked: string, medials: string) => {
+        const allMedials = (prefix.includes('\u103C') ? `${medials}\u103C` : medials).split('').sort().join('');
+        return (kinzi ? KINZI : '')
+          + consonant
+          + stacked
+          + allMedials
+          + (prefix.includes('\u1031') ? '\u1031' : '')
+          + (kinzi ? KINZI_VOWELS[kinzi] : '');
+      }
+    )
+    .replace(/([\u1000-\u1021])([\u1064\u108B-\u108D])/g, (_match, consonant: string, kinzi: string) =>
+      KINZI + consonant + KINZI_VOWELS[kinzi]
+    )
+    .replace(/\u1025(?=\u103A)/g, '\u1009')
+    .replace(/\u1025\u102E/g, '\u1026')
+    // Unicode keeps upper vowels before lower ones and dot below after both
+    .replace(/([\u102F\u1030])([\u102D\u102E\u1032])/g, '$2$1')
+    .replace(/\u1036([\u102F\u1030])/g, '$1\u1036')
+    .replace(/\u1037([\u102D-\u1030\u1032\u1036])/g, '$1\u1037')
+    .replace(/\u103A\u1037/g, '\u1037\u103A');
+
+/**
+ * Burmese text in Unicode whatever encoding it was typed in
+ */
+export const toUnicodeBurmese = (text: string): string => (isZawgyi(text) ? zawgyiToUnicode(text) : text);
+
+/**
+ * Text as it is stored for search and compared against queries: Unicode
+ * Burmese, lowercase, without zero-width characters or repeated spaces
+ */
+export const normalizeSearchText = (text: string): string =>
+  toUnicodeBurmese(text)
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Values for a product's searchName and searchText columns
+ */
+export const getProductSearchFields = (product: SearchableProduct): { searchName: string; searchText: string } => {
+  const join = (values: Array<string | null | undefined>) =>
+    normalizeSearchText(values.filter(Boolean).join(' '));
+
+  return {
+    searchName: join([product.name_en, product.name_my, product.sku]),
+    searchText: join([
+      product.name_en,
+      product.name_my,
+      product.sku,
+      product.variety,
+      product.grade,
+      product.origin,
+      ...product.variants.flatMap(variant => [variant.label, variant.sku]),
+      ...product.categories.flatMap(category => [category.name_en, category.name_my]),
+      product.description_en,
+      product.description_my
+    ])
+  };
+};
+
+/**
+ * Recompute the search columns of the given products after their names,
+ * attributes, sizes or categories change
+ */
+export const refreshProductSearchText = async (db: DbClient, productIds: string[]): Promise<void> => {
+  const products = await db.product.findMany({
+    where: { id: { in: Array.from(new Set(productIds)) } },
+    include: {
+      variants: { select: { label: true, sku: true } },
+      categories: { select: { name_en: true, name_my: true } }
+    }
+  });
+
+  for (const product of products) {
+    await db.product.update({
+      where: { id: product.id },
+      data: getProductSearchFields(product)
+    });
+  }
+};
+
+/**
+ * Pattern for a LIKE match anywhere in the text
+ */
+export const toContainsPattern = (text: string): string => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+/**
+ * Split text into highlighted and plain parts for each place a query word
+ * appears in it, ignoring case and Zawgyi encoding
+ */
+export const highlightMatches = (text: string, query: string): HighlightSegment[] => {
+  const display = toUnicodeBurmese(text);
+  const haystack = display.toLowerCase();
+  const terms = normalizeSearchText(query).split(' ').filter(Boolean);
+
+  // Case folding that changes length would misplace the highlights
+  if (terms.length === 0 || haystack.length !== display.length) {
+    return [{ text: display, match: false }];
+  }
+
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    for (let index = haystack.indexOf(term); index !== -1; index = haystack.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  for (const [start, end] of merged) {
+    if (start > position) segments.push({ text: display.slice(position, start), match: false });
+    segments.push({ text: display.slice(start, end), match: true });
+    position = end;
+  }
+  if (position < display.length) segments.push({ text: display.slice(position), match: false });
+
+  return segments;
+};
+
+/**
+ * Enabled products matching a normalized query, best first. A product
+ * matches when every query word appears in its text, or when the query is
+ * close enough to its words to allow for typos (pg_trgm word similarity).
+ * Matches in the name and words starting with the query rank higher.
+ */
+export const searchProducts = async (
+  db: DbClient,
+  query: string,
+  { limit, offset }: { limit: number; offset: number }
+): Promise<{ hits: ProductSearchHit[]; total: number }> => {
+  const terms = query.split(' ').filter(Boolean);
+  const matches = Prisma.sql`(
+    (${Prisma.join(terms.map(term => Prisma.sql`p."searchText" LIKE ${toContainsPattern(term)}`), ' AND ')})
+    OR ${query} <% p."searchText"
+  )`;
+
+  const [hits, [{ count }]] = await Promise.all([
+    db.$queryRaw<ProductSearchHit[]>`
+      SELECT p."id",
+        word_similarity(${query}, p."searchName") * 2
+          + word_similarity(${query}, p."searchText")
+          + CASE WHEN (' ' || p."searchName") LIKE ${`% ${toContainsPattern(query).slice(1)}`} THEN 1 ELSE 0 END
+          AS "score"
+      FROM "products" p
+      WHERE p."disabled" = false AND ${matches}
+      ORDER BY "score" DESC, p."createdAt" DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `,
+    db.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS "count"
+      FROM "products" p
+      WHERE p."disabled" = false AND ${matches}
+    `
+  ]);
+
+  return {
+    hits: hits.map(hit => ({ id: hit.id, score: Number(hit.score) })),
+    total: Number(count)
+  };
+};
+
+/**
+ * Whether every word of a normalized query appears in the text
+ */
+export const matchesSearchQuery = (text: string, query: string): boolean => {
+  const haystack = normalizeSearchText(text);
+  return query.split(' ').filter(Boolean).every(term => haystack.includes(term));
+};
+
+/**
+ * Category and rice variety suggestions for the search box autocomplete.
+ * Categories match on either name and show the one for the locale.
+ */
+export const getSearchSuggestions = async (
+  db: DbClient,
+  query: string,
+  locale: string,
+  limit = 3
+): Promise<SearchSuggestion[]> => {
+  const [categories, varieties] = await Promise.all([
+    db.category.findMany({
+      select: { slug: true, name_en: true, name_my: true },
+      orderBy: { sortOrder: 'asc' }
+    }),
+    db.product.findMany({
+      where: { disabled: false, variety: { not: null } },
+      distinct: ['variety'],
+      select: { variety: true },
+      orderBy: { variety: 'asc' }
+    })
+  ]);
+
+  const categorySuggestions = categories
+    .filter(category => matchesSearchQuery(`${category.name_en} ${category.name_my ?? ''}`, query))
+    .slice(0, limit)
+    .map((category): SearchSuggestion => {
+      const text = locale === 'my' ? (category.name_my || category.name_en) : category.name_en;
+      return { type: 'category', value: category.slug, text, highlight: highlightMatches(text, query) };
+    });
+
+  const varietySuggestions = varieties
+    .filter(product => matchesSearchQuery(product.variety!, query))
+    .slice(0, limit)
+    .map((product): SearchSuggestion => ({
+      type: 'variety',
+      value: product.variety!,
+      text: product.variety!,
+      highlight: highlightMatches(product.variety!, query)
+    }));
+
+  return [...categorySuggestions, ...varietySuggestions];
+};
@@ -0,0 +1,434 @@
+import path from 'path';
+import ExcelJS from 'exceljs';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// Column order of the import template and of every export
+export const PRODUCT_COLUMNS = [
+  'sku',
+  'name_en',
+  'name_my',
+  'description_en',
+  'description_my',
+  'price',
+  'disabled',
+  'outOfStock',
+  'allowSellWithoutStock',
+  'reorderPoint',
+  'reorderQuantity',
+  'variety',
+  'weightKg',
+  'grade',
+  'origin',
+  'harvestDate',
+  'packageType'
+] as const;
+
+export type ProductColumn = typeof PRODUCT_COLUMNS[number];
+
+const REQUIRED_COLUMNS: ProductColumn[] = ['sku', 'name_en', 'price'];
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export interface ProductImportData {
+  name_en?: string;
+  name_my?: string;
+  description_en?: string;
+  description_my?: string;
+  price?: number;
+  disabled?: boolean;
+  outOfStock?: boolean;
+  allowSellWithoutStock?: boolean;
+  reorderPoint?: number;
+  reorderQuantity?: number;
+}
+
+export interface ProductImportAttributes {
+  variety?: string;
+  weightKg?: number;
+  grade?: string;
+  origin?: string;
+  harvestDate?: string;
+  packageType?: string;
+}
+
+export interface ProductImportRow {
+  row: number; // spreadsheet row number, header is row 1
+  sku: string;
+  data: ProductImportData;
+  attributes: ProductImportAttributes;
+}
+
+export interface ProductImportError {
+  row: number;
+  sku: string | null;
+  column?: string;
+  message: string;
+}
+
+export interface ProductImportPlan {
+  create: ProductImportRow[];
+  update: ProductImportRow[];
+  errors: ProductImportError[];
+}
+
+export interface ExportableProduct {
+  sku: string | null;
+  name_en: string;
+  name_my: string | null;
+  description_en: string | null;
+  description_my: string | null;
+  price: { toString(): string } | number;
+  disabled: boolean;
+  outOfStock: boolean;
+  allowSellWithoutStock: boolean;
+  reorderPoint: number;
+  reorderQuantity: number;
+  variety: string | null;
+  grade: string | null;
+  weightKg: { toString(): string } | number | null;
+  origin: string | null;
+  harvestDate: Date | null;
+  packageType: string | null;
+}
+
+/**
+ * Work out the spreadsheet format from an uploaded file name
+ */
+export const getSpreadsheetFormat = (filename: string): SpreadsheetFormat | null => {
+  const extension = path.extname(filename).toLowerCase();
+  if (extension === '.csv') return 'csv';
+  if (extension === '.xlsx') return 'xlsx';
+  return null;
+};
+
+/**
+ * Parse RFC 4180 CSV text into rows of cells.
+ * Handles quoted cells with commas, doubled quotes and line breaks.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Excel writes a byte order mark at the start of UTF-8 CSV files
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Write rows of cells as CSV, quoting cells only where needed
+ */
+export const toCsv = (rows: string[][]): string => {
+  const escapeCell = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const cellToString = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ('text' in value) return String(value.text);
+    if ('error' in value) return '';
+  }
+  return String(value);
+};
+
+/**
+ * Read the first sheet of an uploaded CSV or XLSX file into rows of cells
+ */
+export const readSpreadsheet = async (buffer: Buffer, format: SpreadsheetFormat): Promise<string[][]> => {
+  if (format === 'csv') {
+    return parseCsv(buffer.toString('utf8'));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  // exceljs types its input as an ArrayBuffer
+  await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellToString(row.getCell(column).value));
+    }
+    rows[rowNumber - 1] = cells;
+  });
+
+  // eachRow skips rows that were never written; keep row numbers aligned
+  return Array.from(rows, row => row || []);
+};
+
+/**
+ * Write rows of cells as a CSV or single-sheet XLSX file
+ */
+export const writeSpreadsheet = async (rows: string[][], format: SpreadsheetFormat): Promise<Buffer> => {
+  if (format === 'csv') {
+    // The byte order mark lets Excel open Myanmar text as UTF-8
+    return Buffer.from('\ufeff' + toCsv(rows), 'utf8');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Products');
+  rows.forEach(row => sheet.addRow(row));
+  sheet.getRow(1).font = { bold: true };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = value.toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return null;
+};
+
+// Prices are often typed with thousands separators (45,000)
+const parseNumber = (value: string): number => Number(value.replace(/,/g, ''));
+
+const isValidDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/**
+ * Turn spreadsheet rows into product rows keyed by SKU, collecting
+ * row-level errors. Blank cells and missing columns leave the current
+ * value unchanged; unknown columns are ignored.
+ */
+export const parseProductRows = (table: string[][]): { rows: ProductImportRow[]; errors: ProductImportError[] } => {
+  const rows: ProductImportRow[] = [];
+  const errors: ProductImportError[] = [];
+
+  const header = (table[0] || []).map(cell => cell.trim());
+  const missingColumns = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+  if (missingColumns.length > 0) {
+    errors.push({ row: 1, sku: null, message: `Missing required columns: ${missingColumns.join(', ')}` });
+    return { rows, errors };
+  }
+
+  const dataRows = table.length - 1;
+  if (dataRows > MAX_IMPORT_ROWS) {
+    errors.push({ row: 1, sku: null, message: `Files are limited to ${MAX_IMPORT_ROWS} products; this one has ${dataRows} rows` });
+    return { rows, errors };
+  }
+
+  const skuRows = new Map<string, number>();
+
+  for (let index = 1; index < table.length; index++) {
+    const rowNumber = index + 1;
+    const cells: Partial<Record<ProductColumn, string>> = {};
+    header.forEach((column, columnIndex) => {
+      if ((PRODUCT_COLUMNS as readonly string[]).includes(column)) {
+        cells[column as ProductColumn] = (table[index][columnIndex] || '').trim();
+      }
+    });
+
+    if (Object.values(cells).every(value => !value)) continue;
+
+    const sku = cells.sku || '';
+    const rowErrors: ProductImportError[] = [];
+    const addError = (column: ProductColumn, message: string) => {
+      rowErrors.push({ row: rowNumber, sku: sku || null, column, message });
+    };
+
+    if (!sku) {
+      addError('sku', 'SKU is required');
+    } else if (skuRows.has(sku)) {
+      addError('sku', `SKU also appears on row ${skuRows.get(sku)}`);
+    } else {
+      skuRows.set(sku, rowNumber);
+    }
+
+    const data: ProductImportData = {};
+    const attributes: ProductImportAttributes = {};
+
+    for (const column of ['name_en', 'name_my', 'description_en', 'description_my'] as const) {
+      if (cells[column]) data[column] = cells[column];
+    }
+
+    if (cells.price) {
+      const price = parseNumber(cells.price);
+      if (isNaN(price) || price < 0) {
+        addError('price', 'Price must be a non-negative number');
+      } else {
+        data.price = price;
+      }
+    }
+
+    for (const column of ['disabled', 'outOfStock', 'allowSellWithoutStock'] as const) {
+      if (!cells[column]) continue;
+      const flag = parseBoolean(cells[column]!);
+      if (flag === null) {
+        addError(column, `${column} must be true or false`);
+      } else {
+        data[column] = flag;
+      }
+    }
+
+    for (const column of ['reorderPoint', 'reorderQuantity'] as const) {
+      if (!cells[column]) continue;
+      const quantity = parseNumber(cells[column]!);
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        addError(column, `${column} must be a non-negative whole number`);
+      } else {
+        data[column] = quantity;
+      }
+    }
+
+    // Same limits as the attribute validators on the product forms
+    for (const column of ['variety', 'grade', 'origin', 'packageType'] as const) {
+      if (!cells[column]) continue;
+      if (cells[column]!.length > 100) {
+        addError(column, `${column} must be less than 100 characters`);
+      } else {
+        attributes[column] = cells[column];
+      }
+    }
+
+    if (cells.weightKg) {
+      const weightKg = parseNumber(cells.weightKg);
+      if (isNaN(weightKg) || weightKg <= 0 || weightKg > 1000) {
+        addError('weightKg', 'weightKg must be a positive number of kilograms');
+      } else {
+        attributes.weightKg = weightKg;
+      }
+    }
+
+    if (cells.harvestDate) {
+      if (!isValidDate(cells.harvestDate)) {
+        addError('harvestDate', 'harvestDate must be a date in YYYY-MM-DD format');
+      } else {
+        attributes.harvestDate = cells.harvestDate;
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      rows.push({ row: rowNumber, sku, data, attributes });
+    }
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ row: 1, sku: null, message: 'The file has no product rows' });
+  }
+
+  return { rows, errors };
+};
+
+/**
+ * Split parsed rows into creates and updates by whether their SKU exists.
+ * New products need an English name and a price.
+ */
+export const planProductImport = (
+  rows: ProductImportRow[],
+  existingSkus: Set<string>,
+  parseErrors: ProductImportError[] = []
+): ProductImportPlan => {
+  const plan: ProductImportPlan = { create: [], update: [], errors: [...parseErrors] };
+
+  for (const row of rows) {
+    if (existingSkus.has(row.sku)) {
+      plan.update.push(row);
+      continue;
+    }
+
+    const missing: ProductImportError[] = [];
+    if (!row.data.name_en) {
+      missing.push({ row: row.row, sku: row.sku, column: 'name_en', message: 'English name is required for new products' });
+    }
+    if (row.data.price === undefined) {
+      missing.push({ row: row.row, sku: row.sku, column: 'price', message: 'Price is required for new products' });
+    }
+
+    if (missing.length > 0) {
+      plan.errors.push(...missing);
+    } else {
+      plan.create.push(row);
+    }
+  }
+
+  plan.errors.sort((a, b) => a.row - b.row);
+  return plan;
+};
+
+/**
+ * Spreadsheet rows for an export, header first, in the import format
+ */
+export const productsToRows = (products: ExportableProduct[]): string[][] => {
+  const rows: string[][] = [[...PRODUCT_COLUMNS]];
+
+  for (const product of products) {
+    const values: Record<ProductColumn, unknown> = {
+      sku: product.sku,
+      name_en: product.name_en,
+      name_my: product.name_my,
+      description_en: product.description_en,
+      description_my: product.description_my,
+      price: Number(product.price),
+      disabled: product.disabled,
+      outOfStock: product.outOfStock,
+      allowSellWithoutStock: product.allowSellWithoutStock,
+      reorderPoint: product.reorderPoint,
+      reorderQuantity: product.reorderQuantity,
+      variety: product.variety,
+      weightKg: product.weightKg === null ? null : Number(product.weightKg),
+      grade: product.grade,
+      origin: product.origin,
+      harvestDate: product.harvestDate ? product.harvestDate.toISOString().slice(0, 10) : null,
+      packageType: product.packageType
+    };
+
+    rows.push(PRODUCT_COLUMNS.map(column => {
+      const value = values[column];
+      return value === null || value === undefined ? '' : String(value);
+    }));
+  }
+
+  return rows;
+};
@@ -0,0 +1,195 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PriceEntry, resolveEffectivePrice } from './productPricing';
+import { AppliedTier, PriceTierEntry, resolveTierPrice } from './priceTiers';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface VariantState {
+  id: string;
+  label: string;
+  price: Prisma.Decimal | number;
+  weightKg: Prisma.Decimal | number | null;
+  stockOnHand: number;
+  disabled: boolean;
+  prices?: PriceEntry[]; // scheduled and sale prices in effect
+  priceTiers?: PriceTierEntry[];
+}
+
+export interface OrderableProduct {
+  id: string;
+  name_en: string;
+  price: Prisma.Decimal | number;
+  stockOnHand: number;
+  prices?: PriceEntry[];
+  priceTiers?: PriceTierEntry[];
+  variants: VariantState[];
+}
+
+// The quantity ordered and whether the customer buys at wholesale prices
+export interface OrderLineOptions {
+  quantity?: number;
+  isWholesale?: boolean;
+}
+
+export type OrderLineResolution =
+  | {
+      valid: true;
+      variant: VariantState | null;
+      unitPrice: number;
+      listPrice: number; // the price per bag before any quantity tier
+      tier: AppliedTier | null;
+      stockOnHand: number;
+    }
+  | { valid: false; error: string };
+
+export interface MergeSource {
+  id: string;
+  name_en: string;
+  sku: string | null;
+  price: Prisma.Decimal | number;
+  weightKg: Prisma.Decimal | number | null;
+  variantCount: number;
+}
+
+export type VariantMergePlan =
+  | { valid: false; error: string }
+  | {
+      valid: true;
+      variants: Array<{ productId: string; label: string; sku: string | null; price: number; weightKg: number | null; sortOrder: number }>;
+    };
+
+// Variants shown to customers, smallest bag first
+export const activeVariantsQuery = {
+  where: { disabled: false },
+  orderBy: [{ sortOrder: 'asc' }, { weightKg: 'asc' }]
+} satisfies Prisma.Product$variantsArgs;
+
+/**
+ * Label for a bag size, e.g. "25 kg"
+ */
+export const getWeightLabel = (weightKg: number): string => `${weightKg} kg`;
+
+/**
+ * A variant as plain JSON values
+ */
+export const formatProductVariant = (variant: VariantState & { sku: string | null; sortOrder: number }) => ({
+  id: variant.id,
+  label: variant.label,
+  sku: variant.sku,
+  price: Number(variant.price),
+  weightKg: variant.weightKg === null ? null : Number(variant.weightKg),
+  stockOnHand: variant.stockOnHand,
+  disabled: variant.disabled,
+  sortOrder: variant.sortOrder
+});
+
+/**
+ * Work out what an order line is for. Products with variants must be
+ * ordered by variant, at the variant's price and stock; products without
+ * variants are ordered as themselves. The price is the one in effect at
+ * the given moment, lowered by the quantity tier the line reaches.
+ */
+export const resolveOrderLine = (
+  product: OrderableProduct,
+  variantId?: string | null,
+  now: Date = new Date(),
+  options: OrderLineOptions = {}
+): OrderLineResolution => {
+  const { quantity = 1, isWholesale = false } = options;
+
+  if (product.variants.length === 0) {
+    if (variantId) {
+      return { valid: false, error: `${product.name_en} does not come in different sizes` };
+    }
+    const { price } = resolveEffectivePrice(product.price, product.prices ?? [], now);
+    const pricing = resolveTierPrice(price, product.priceTiers ?? [], quantity, isWholesale);
+    return { valid: true, variant: null, ...pricing, stockOnHand: product.stockOnHand };
+  }
+
+  if (!variantId) {
+    return { valid: false, error: `Choose a size for ${product.name_en}` };
+  }
+
+  const variant = product.variants.find(v => v.id === variantId);
+  if (!variant || variant.disabled) {
+    return { valid: false, error: `Size not available for ${product.name_en}` };
+  }
+
+  const { price } = resolveEffectivePrice(variant.price, variant.prices ?? [], now);
+  const pricing = resolveTierPrice(price, variant.priceTiers ?? [], quantity, isWholesale);
+  return { valid: true, variant, ...pricing, stockOnHand: variant.stockOnHand };
+};
+
+/**
+ * Turn the given products into variants of the first one.
+ * None of them may have variants of their own yet.
+ */
+export const planVariantMerge = (products: MergeSource[]): VariantMergePlan => {
+  if (products.length < 2) {
+    return { valid: false, error: 'Give the product to keep and at least one product to merge into it' };
+  }
+
+  const ids = new Set(products.map(product => product.id));
+  if (ids.size !== products.length) {
+    return { valid: false, error: 'Each product can only be given once' };
+  }
+
+  const withVariants = products.find(product => product.variantCount > 0);
+  if (withVariants) {
+    return { valid: false, error: `${withVariants.name_en} already has variants` };
+  }
+
+  const variants = products.map((product, index) => {
+    const weightKg = product.weightKg === null ? null : Number(product.weightKg);
+    return {
+      productId: product.id,
+      label: weightKg ? getWeightLabel(weightKg) : product.name_en,
+      sku: product.sku,
+      price: Number(product.price),
+      weightKg,
+      sortOrder: index
+    };
+  });
+
+  const labels = new Set(variants.map(variant => variant.label));
+  if (labels.size !== variants.length) {
+    return { valid: false, error: 'Two of the products would get the same size label; give them different weights first' };
+  }
+
+  return { valid: true, variants };
+};
+
+/**
+ * Move the stock ledger, order lines, purchase order lines, prices and
+ * quantity tiers of a product that has no variants onto a variant, and
+ * carry its stock levels over. Orders are priced from the variant once a
+ * product has variants, so its price history, scheduled prices, sales and
+ * tiers go with it. Used when a product gets its first variant and when
+ * merging products.
+ */
+export const moveProductHistoryToVariant = async (
+  db: DbClient,
+  from: { id: string; stockOnHand: number; reserved: number },
+  to: { productId: string; variantId: string }
+) => {
+  const where = { productId: from.id, variantId: null };
+  const data = { productId: to.productId, variantId: to.variantId };
+
+  await db.stockEntry.updateMany({ where, data });
+  await db.orderItem.updateMany({ where, data });
+  await db.purchaseOrderItem.updateMany({ where, data });
+  await db.productPrice.updateMany({ where, data });
+  await db.productPriceTier.updateMany({ where, data });
+
+  await db.productVariant.update({
+    where: { id: to.variantId },
+    data: { stockOnHand: from.stockOnHand, reserved: from.reserved }
+  });
+
+  if (from.id !== to.productId) {
+    await db.product.update({
+      where: { id: to.productId },
+      data: { stockOnHand: { increment: from.stockOnHand }, reserved: { increment: from.reserved } }
+    });
+  }
+};
@@ -0,0 +1,180 @@
+import { Prisma, PrismaClient, PurchaseOrderStatus } from '@prisma/client';
+import { addStockLot } from './inventoryCosting';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface PurchaseOrderLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrderItemState {
+  id: string;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  receivedQuantity: number;
+}
+
+export interface ReceiptLine {
+  itemId: string;
+  quantity: number;
+}
+
+export type ReceiptPlan =
+  | { valid: false; error: string }
+  | {
+      valid: true;
+      lines: Array<ReceiptLine & { productId: string; variantId?: string | null }>;
+      status: 'PARTIALLY_RECEIVED' | 'RECEIVED';
+    };
+
+export type ReceivePurchaseOrderResult =
+  | { success: true }
+  | { success: false; status: number; error: string };
+
+// Statuses whose purchase orders are still waiting on the supplier
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['DRAFT', 'ORDERED', 'PARTIALLY_RECEIVED'];
+
+// Stock can only arrive against an order that was placed
+export const RECEIVABLE_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['ORDERED', 'PARTIALLY_RECEIVED'];
+
+/**
+ * Validate the lines of a new or edited purchase order.
+ * Returns an error message, or null when the lines are acceptable.
+ */
+export const checkPurchaseOrderLines = (lines: PurchaseOrderLine[]): string | null => {
+  if (lines.length === 0) {
+    return 'Add at least one product to the purchase order';
+  }
+
+  const stockItems = new Set<string>();
+  for (const line of lines) {
+    const key = line.variantId || line.productId;
+    if (stockItems.has(key)) {
+      return 'Each product can only appear once on a purchase order';
+    }
+    stockItems.add(key);
+  }
+
+  return null;
+};
+
+/**
+ * Total cost of a purchase order's lines
+ */
+export const getPurchaseOrderTotal = (lines: Array<{ quantity: number; unitCost: number }>): number => {
+  return Math.round(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0) * 100) / 100;
+};
+
+/**
+ * Bags of a line still to arrive
+ */
+export const getOutstandingQuantity = (item: Pick<PurchaseOrderItemState, 'quantity' | 'receivedQuantity'>): number => {
+  return Math.max(0, item.quantity - item.receivedQuantity);
+};
+
+/**
+ * Check a delivery against the purchase order and work out its new status.
+ * Lines may not receive more than is outstanding; zero-quantity lines are skipped.
+ */
+export const planPurchaseOrderReceipt = (
+  order: { status: PurchaseOrderStatus; items: PurchaseOrderItemState[] },
+  receipt: ReceiptLine[]
+): ReceiptPlan => {
+  if (!RECEIVABLE_PURCHASE_ORDER_STATUSES.includes(order.status)) {
+    return { valid: false, error: `Cannot receive stock for a ${order.status} purchase order` };
+  }
+
+  const lines: Array<ReceiptLine & { productId: string; variantId?: string | null }> = [];
+  const received = new Map<string, number>();
+
+  for (const line of receipt) {
+    if (line.quantity === 0) continue;
+
+    const item = order.items.find(orderItem => orderItem.id === line.itemId);
+    if (!item) {
+      return { valid: false, error: 'Item is not on this purchase order' };
+    }
+
+    const total = (received.get(item.id) || 0) + line.quantity;
+    if (total > getOutstandingQuantity(item)) {
+      return { valid: false, error: `Only ${getOutstandingQuantity(item)} bags are still outstanding on this line` };
+    }
+
+    received.set(item.id, total);
+    lines.push({ ...line, productId: item.productId, variantId: item.variantId });
+  }
+
+  if (lines.length === 0) {
+    return { valid: false, error: 'Enter the quantity received for at least one line' };
+  }
+
+  const complete = order.items.every(item => item.receivedQuantity + (received.get(item.id) || 0) >= item.quantity);
+
+  return { valid: true, lines, status: complete ? 'RECEIVED' : 'PARTIALLY_RECEIVED' };
+};
+
+/**
+ * Receive a delivery: add a stock lot per line at the line's unit cost and
+ * move the purchase order to PARTIALLY_RECEIVED or RECEIVED.
+ * Run inside a transaction so the lots and the order stay in step.
+ */
+export const receivePurchaseOrder = async (
+  db: DbClient,
+  purchaseOrderId: string,
+  receipt: ReceiptLine[],
+  receivedBy: { actorId: string; note?: string | null },
+  now: Date = new Date()
+): Promise<ReceivePurchaseOrderResult> => {
+  const purchaseOrder = await db.purchaseOrder.findUnique({
+    where: { id: purchaseOrderId },
+    include: { items: true }
+  });
+
+  if (!purchaseOrder) {
+    return { success: false, status: 404, error: 'Purchase order not found' };
+  }
+
+  const plan = planPurchaseOrderReceipt(purchaseOrder, receipt);
+  if (!plan.valid) {
+    return { success: false, status: 400, error: plan.error };
+  }
+
+  for (const line of plan.lines) {
+    const item = purchaseOrder.items.find(orderItem => orderItem.id === line.itemId)!;
+
+    // Guard against a concurrent receipt having already counted these bags
+    const updated = await db.purchaseOrderItem.updateMany({
+      where: { id: item.id, receivedQuantity: { lte: item.quantity - line.quantity } },
+      data: { receivedQuantity: { increment: line.quantity } }
+    });
+    if (updated.count === 0) {
+      throw new Error('Purchase order changed while the delivery was being received');
+    }
+
+    await addStockLot(db, {
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: line.quantity,
+      purchasePrice: Number(item.unitCost)
+    }, {
+      type: 'PURCHASE',
+      purchaseOrderId,
+      actorId: receivedBy.actorId,
+      note: receivedBy.note
+    });
+  }
+
+  await db.purchaseOrder.update({
+    where: { id: purchaseOrderId },
+    data: {
+      status: plan.status,
+      ...(plan.status === 'RECEIVED' && { receivedAt: now })
+    }
+  });
+
+  return { success: true };
+};
@@ -0,0 +1,273 @@
+import { OrderStatus, PaymentType, Prisma, PrismaClient, Refund } from '@prisma/client';
+import { getPaymentProvider, paymentOrderSelect, ProviderRefundResult, toPaymentOrder } from './paymentProviders';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface RefundableItem {
+  id: string;
+  productId: string;
+  variantId?: string | null;
+  unitPrice: number;
+  quantity: number;
+  refundedQuantity: number;
+  restockedQuantity: number; // refunded bags that went back into stock
+}
+
+export interface RefundOrderState {
+  id: string;
+  status: OrderStatus;
+  paymentType: PaymentType;
+  totalAmount: number;
+  discountAmount: number;
+  refundedAmount: number;
+  items: RefundableItem[];
+  // Bags put back into stock by cancels, returns and refunds of this order
+  restockedStock: Array<{ productId: string; variantId?: string | null; quantity: number }>;
+}
+
+export interface RefundRequest {
+  items?: Array<{ orderItemId: string; quantity: number }>;
+  amount?: number;
+}
+
+export interface PlannedRefundItem {
+  orderItemId: string;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  amount: number;
+}
+
+export interface RefundRecord {
+  amount: number;
+  reason: string;
+  restocked: boolean;
+  items?: Array<{ orderItemId: string; quantity: number; amount: number }>;
+}
+
+export type RefundSettlement =
+  | { success: true; refund: Refund }
+  | { success: false; error: string };
+
+export type RefundPlan =
+  | { valid: true; amount: number; items: PlannedRefundItem[]; fullyRefunded: boolean }
+  | { valid: false; error: string };
+
+// Statuses that can move to REFUNDED; COD orders must also have been paid on delivery
+export const REFUNDABLE_STATUSES: OrderStatus[] = ['DELIVERED', 'RETURNED', 'CANCELED'];
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Amount still available to refund on an order
+ */
+export const getRefundableAmount = (order: Pick<RefundOrderState, 'totalAmount' | 'refundedAmount'>): number => {
+  return Math.max(0, roundAmount(order.totalAmount - order.refundedAmount));
+};
+
+/**
+ * Per-unit refund value of an item, with any coupon discount spread
+ * across the order's items in proportion to their line totals
+ */
+export const getItemRefundUnitPrice = (
+  item: Pick<RefundableItem, 'unitPrice'>,
+  order: { discountAmount: number; items: Array<Pick<RefundableItem, 'unitPrice' | 'quantity'>> }
+): number => {
+  const itemsSubtotal = order.items.reduce((sum, i) => sum + i.unitPrice * i.quantity, 0);
+  if (itemsSubtotal <= 0 || order.discountAmount <= 0) {
+    return item.unitPrice;
+  }
+  return item.unitPrice * (1 - order.discountAmount / itemsSubtotal);
+};
+
+/**
+ * Validate a refund request against what has already been refunded.
+ * The amount defaults to the value of the refunded items; an explicit
+ * amount (e.g. to include shipping or a goodwill refund) overrides it.
+ */
+export const planRefund = (order: RefundOrderState, request: RefundRequest): RefundPlan => {
+  if (order.status === 'REFUNDED') {
+    return { valid: false, error: 'Order has already been fully refunded' };
+  }
+
+  if (!REFUNDABLE_STATUSES.includes(order.status)) {
+    return { valid: false, error: `Orders with status ${order.status} cannot be refunded` };
+  }
+
+  if (order.paymentType === 'COD' && order.status === 'CANCELED') {
+    return { valid: false, error: 'Canceled cash on delivery orders have no payment to refund' };
+  }
+
+  // Merge repeated lines for the same order item
+  const requestedQuantities = new Map<string, number>();
+  for (const line of request.items || []) {
+    requestedQuantities.set(line.orderItemId, (requestedQuantities.get(line.orderItemId) || 0) + line.quantity);
+  }
+
+  const items: PlannedRefundItem[] = [];
+  for (const [orderItemId, quantity] of requestedQuantities) {
+    const orderItem = order.items.find(item => item.id === orderItemId);
+    if (!orderItem) {
+      return { valid: false, error: `Order item ${orderItemId} does not belong to this order` };
+    }
+
+    const remainingQuantity = orderItem.quantity - orderItem.refundedQuantity;
+    if (quantity > remainingQuantity) {
+      return {
+        valid: false,
+        error: `Cannot refund ${quantity} of order item ${orderItemId}; only ${remainingQuantity} remaining`
+      };
+    }
+
+    items.push({
+      orderItemId,
+      productId: orderItem.productId,
+      variantId: orderItem.variantId,
+      quantity,
+      amount: roundAmount(getItemRefundUnitPrice(orderItem, order) * quantity)
+    });
+  }
+
+  const amount = request.amount !== undefined
+    ? roundAmount(request.amount)
+    : roundAmount(items.reduce((sum, item) => sum + item.amount, 0));
+
+  if (amount <= 0) {
+    return { valid: false, error: 'Refund amount must be greater than zero' };
+  }
+
+  const refundableAmount = getRefundableAmount(order);
+  if (amount > refundableAmount) {
+    return {
+      valid: false,
+      error: `Refund amount exceeds the remaining refundable amount of ${refundableAmount} MMK`
+    };
+  }
+
+  return {
+    valid: true,
+    amount,
+    items,
+    fullyRefunded: amount >= refundableAmount
+  };
+};
+
+/**
+ * Lock the order row until the transaction ends. Refunds take this lock
+ * before reading the refund history, so concurrent refunds of the same
+ * order run one after another instead of both planning against the old total.
+ */
+export const lockOrderForRefund = async (db: DbClient, orderId: string): Promise<void> => {
+  await db.$queryRaw`SELECT "id" FROM "orders" WHERE "id" = ${orderId} FOR UPDATE`;
+};
+
+/**
+ * Load an order with its refund history in the shape planRefund expects
+ */
+export const getOrderRefundState = async (db: DbClient, orderId: string): Promise<RefundOrderState | null> => {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: {
+        include: {
+          refundItems: { select: { quantity: true, refund: { select: { restocked: true } } } }
+        }
+      },
+      refunds: { select: { amount: true } },
+      stockEntries: {
+        where: { type: { in: ['CANCEL_RESTOCK', 'RETURN_RESTOCK'] } },
+        select: { productId: true, variantId: true, quantity: true }
+      }
+    }
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  return {
+    id: order.id,
+    status: order.status,
+    paymentType: order.paymentType,
+    totalAmount: Number(order.totalAmount),
+    discountAmount: Number(order.discountAmount),
+    refundedAmount: order.refunds.reduce((sum, refund) => sum + Number(refund.amount), 0),
+    items: order.items.map(item => ({
+      id: item.id,
+      productId: item.productId,
+      variantId: item.variantId,
+      unitPrice: Number(item.unitPrice),
+      quantity: item.quantity,
+      refundedQuantity: item.refundItems.reduce((sum, refundItem) => sum + refundItem.quantity, 0),
+      restockedQuantity: item.refundItems
+        .filter(refundItem => refundItem.refund.restocked)
+        .reduce((sum, refundItem) => sum + refundItem.quantity, 0)
+    })),
+    restockedStock: order.stockEntries
+  };
+};
+
+/**
+ * Record a planned refund as PENDING. Call after planRefund, inside the
+ * refund's transaction, and pay it out with settleRefund once that commits:
+ * a payout cannot be rolled back along with the transaction.
+ */
+export const recordRefund = (
+  db: DbClient,
+  orderId: string,
+  { amount, reason, restocked, items = [] }: RefundRecord
+): Promise<Refund> => {
+  return db.refund.create({
+    data: {
+      orderId,
+      amount,
+      reason,
+      restocked,
+      items: { create: items }
+    }
+  });
+};
+
+/**
+ * Pay a recorded refund back through the order's payment provider and mark
+ * it SETTLED, or FAILED so it can be retried. Gateways refund straight away;
+ * COD and transfer refunds are paid out by hand. The refund ID is the
+ * provider's idempotency key, so a retry never pays twice.
+ */
+export const settleRefund = async (db: DbClient, refundId: string): Promise<RefundSettlement> => {
+  const refund = await db.refund.findUnique({
+    where: { id: refundId },
+    include: { order: { select: { ...paymentOrderSelect, paymentType: true } } }
+  });
+  if (!refund) {
+    return { success: false, error: 'Refund not found' };
+  }
+  if (refund.status === 'SETTLED') {
+    return { success: true, refund };
+  }
+
+  let payout: ProviderRefundResult;
+  try {
+    payout = await getPaymentProvider(refund.order.paymentType).refund(toPaymentOrder(refund.order), {
+      amount: Number(refund.amount),
+      reason: refund.reason,
+      idempotencyKey: refund.id
+    });
+  } catch (error) {
+    payout = { success: false, error: error instanceof Error ? error.message : 'Payment provider error' };
+  }
+
+  if (!payout.success) {
+    await db.refund.update({
+      where: { id: refundId },
+      data: { status: 'FAILED', failureReason: payout.error }
+    });
+    return { success: false, error: payout.error };
+  }
+
+  const settled = await db.refund.update({
+    where: { id: refundId },
+    data: { status: 'SETTLED', settledAt: new Date(), providerReference: payout.reference, failureReason: null }
+  });
+  return { success: true, refund: settled };
+};
@@ -0,0 +1,195 @@
+import { PaymentType, Prisma, PrismaClient } from '@prisma/client';
+import { transitionOrder } from './orderLifecycle';
+import { getPaymentProvider } from './paymentProviders';
+import { getReservationEmailTemplate, sendEmail } from './email';
+import { releaseReservation } from './stockLevels';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ReservationConfig {
+  holdMinutes: number;          // how long unpaid online transfers keep their stock
+  reminderMinutes: number;      // remind the customer this long before expiry
+  sweepIntervalMinutes: number; // how often the sweeper runs
+}
+
+export interface ReservationSweepResult {
+  reminded: number;
+  expired: number;
+}
+
+/**
+ * Reservation settings from the environment
+ */
+export const getReservationConfig = (): ReservationConfig => ({
+  holdMinutes: parseInt(process.env.STOCK_RESERVATION_MINUTES || '1440'),
+  reminderMinutes: parseInt(process.env.STOCK_RESERVATION_REMINDER_MINUTES || '180'),
+  sweepIntervalMinutes: parseInt(process.env.STOCK_RESERVATION_SWEEP_MINUTES || '5')
+});
+
+/**
+ * Whether the customer has sent anything we can verify a transfer against
+ */
+export const hasPaymentProof = (payment: { transactionId?: string | null; paymentScreenshot?: string | null }): boolean => {
+  return !!(payment.transactionId?.trim() || payment.paymentScreenshot?.trim());
+};
+
+/**
+ * When the stock held by a new order is released, or null when no hold applies.
+ * Only orders that wait for payment without proof are held; COD orders and
+ * orders placed with a transaction ID or screenshot keep their stock.
+ */
+export const getReservationExpiry = (
+  order: { paymentType: PaymentType; transactionId?: string | null; paymentScreenshot?: string | null },
+  now: Date = new Date(),
+  config: ReservationConfig = getReservationConfig()
+): Date | null => {
+  if (getPaymentProvider(order.paymentType).initialStatus !== 'PENDING' || hasPaymentProof(order)) {
+    return null;
+  }
+  return new Date(now.getTime() + config.holdMinutes * 60 * 1000);
+};
+
+const sendReservationEmail = async (
+  order: { id: string; totalAmount: Prisma.Decimal; reservationExpiresAt: Date | null; user: { email: string; name: string; locale: string } },
+  expiresAt: Date,
+  type: 'reminder' | 'expired'
+) => {
+  try {
+    const template = getReservationEmailTemplate({
+      orderId: order.id,
+      customerName: order.user.name,
+      totalAmount: Number(order.totalAmount),
+      expiresAt
+    }, order.user.locale, type);
+
+    await sendEmail({ to: order.user.email, ...template });
+  } catch (error) {
+    console.error(`Reservation ${type} email failed for order ${order.id}:`, error);
+  }
+};
+
+const reservationOrderInclude = {
+  user: { select: { email: true, name: true, locale: true } }
+} satisfies Prisma.OrderInclude;
+
+/**
+ * Remind customers whose reservation is about to expire, once per order
+ */
+export const sendReservationReminders = async (db: DbClient, now: Date = new Date()): Promise<number> => {
+  const { reminderMinutes } = getReservationConfig();
+  const remindBefore = new Date(now.getTime() + reminderMinutes * 60 * 1000);
+
+  const orders = await db.order.findMany({
+    where: {
+      status: 'PENDING',
+      reservationExpiresAt: { gt: now, lte: remindBefore },
+      reservationReminderSentAt: null
+    },
+    include: reservationOrderInclude
+  });
+
+  let reminded = 0;
+  for (const order of orders) {
+    // Claim the reminder first so overlapping sweeps do not send it twice
+    const claimed = await db.order.updateMany({
+      where: { id: order.id, reservationReminderSentAt: null },
+      data: { reservationReminderSentAt: now }
+    });
+    if (claimed.count === 0) continue;
+
+    await sendReservationEmail(order, order.reservationExpiresAt!, 'reminder');
+    reminded++;
+  }
+
+  return reminded;
+};
+
+/**
+ * Cancel and restock unpaid orders whose reservation has expired. An order
+ * that cannot be canceled keeps its reservation for the next sweep.
+ */
+export const expireReservations = async (prisma: PrismaClient, now: Date = new Date()): Promise<number> => {
+  const orders = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      reservationExpiresAt: { lte: now }
+    },
+    include: reservationOrderInclude
+  });
+
+  let expired = 0;
+  for (const order of orders) {
+    let canceled: boolean;
+    try {
+      canceled = await prisma.$transaction(async (tx) => {
+        // Payment proof may have arrived since the query; it clears the reservation
+        const released = await releaseReservation(tx, order.id, {
+          status: 'PENDING',
+          reservationExpiresAt: { lte: now }
+        });
+        if (!released) return false;
+
+        const result = await transitionOrder(tx, order.id, {
+          to: 'CANCELED',
+          actor: { id: null, role: 'system' },
+          note: 'Payment was not received before the stock reservation expired'
+        });
+
+        // Throw so the release rolls back too and the order keeps its reservation
+        if (!result.success) {
+          throw new Error(`Order ${order.id} could not be canceled: ${result.error}`);
+        }
+        return true;
+      });
+    } catch (error) {
+      console.error('Reservation expiry error:', error);
+      continue;
+    }
+
+    if (canceled) {
+      await sendReservationEmail(order, order.reservationExpiresAt!, 'expired');
+      expired++;
+    }
+  }
+
+  return expired;
+};
+
+/**
+ * One sweep: send due reminders, then release expired reservations
+ */
+export const runReservationSweep = async (prisma: PrismaClient, now: Date = new Date()): Promise<ReservationSweepResult> => {
+  const reminded = await sendReservationReminders(prisma, now);
+  const expired = await expireReservations(prisma, now);
+  return { reminded, expired };
+};
+
+/**
+ * Run the sweeper on an interval inside the API process.
+ * Returns a function that stops it.
+ */
+export const startReservationSweeper = (prisma: PrismaClient = new PrismaClient()): (() => void) => {
+  const { sweepIntervalMinutes } = getReservationConfig();
+  let running = false;
+
+  const sweep = async () => {
+    // Skip a tick rather than overlap with a slow sweep (e.g. SMTP retries)
+    if (running) return;
+    running = true;
+    try {
+      const result = await runReservationSweep(prisma);
+      if (result.reminded > 0 || result.expired > 0) {
+        console.log(`Reservation sweep: ${result.reminded} reminded, ${result.expired} expired`);
+      }
+    } catch (error) {
+      console.error('Reservation sweep error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(sweep, sweepIntervalMinutes * 60 * 1000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
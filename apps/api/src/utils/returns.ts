@@ -0,0 +1,116 @@
+import { OrderStatus, Prisma, PrismaClient, ReturnRequestStatus } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ReturnableItem {
+  id: string;
+  quantity: number;
+  refundedQuantity: number;
+  requestedQuantity: number; // in return requests that were not rejected
+}
+
+export interface ReturnOrderState {
+  id: string;
+  userId: string;
+  status: OrderStatus;
+  items: ReturnableItem[];
+}
+
+export interface ReturnRequestLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+// Rejected requests release their quantities for a new request
+export const ACTIVE_RETURN_STATUSES: ReturnRequestStatus[] = ['REQUESTED', 'APPROVED', 'RECEIVED'];
+
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnRequestStatus, ReturnRequestStatus[]> = {
+  REQUESTED: ['APPROVED', 'REJECTED'],
+  APPROVED: ['RECEIVED'],
+  REJECTED: [],
+  RECEIVED: []
+};
+
+/**
+ * Check whether a return request can move between two states
+ */
+export const canTransitionReturn = (from: ReturnRequestStatus, to: ReturnRequestStatus): boolean => {
+  return RETURN_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Bags of an item that can still be returned.
+ * Bags refunded without a return (e.g. goodwill refunds) are not returnable either.
+ */
+export const getReturnableQuantity = (item: ReturnableItem): number => {
+  return Math.max(0, item.quantity - Math.max(item.requestedQuantity, item.refundedQuantity));
+};
+
+/**
+ * Validate the items of a new return request.
+ * Returns an error message, or null when the request can be created.
+ */
+export const checkReturnRequest = (order: ReturnOrderState, lines: ReturnRequestLine[]): string | null => {
+  if (order.status !== 'DELIVERED') {
+    return 'Returns can only be requested for delivered orders';
+  }
+
+  if (lines.length === 0) {
+    return 'Select at least one item to return';
+  }
+
+  const requestedQuantities = new Map<string, number>();
+  for (const line of lines) {
+    requestedQuantities.set(line.orderItemId, (requestedQuantities.get(line.orderItemId) || 0) + line.quantity);
+  }
+
+  for (const [orderItemId, quantity] of requestedQuantities) {
+    const orderItem = order.items.find(item => item.id === orderItemId);
+    if (!orderItem) {
+      return `Order item ${orderItemId} does not belong to this order`;
+    }
+
+    const returnableQuantity = getReturnableQuantity(orderItem);
+    if (quantity > returnableQuantity) {
+      return `Cannot return ${quantity} of order item ${orderItemId}; only ${returnableQuantity} can be returned`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Load an order with its return and refund history in the shape checkReturnRequest expects
+ */
+export const getOrderReturnState = async (db: DbClient, orderId: string): Promise<ReturnOrderState | null> => {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: {
+        include: {
+          refundItems: { select: { quantity: true } },
+          returnItems: {
+            where: { returnRequest: { status: { in: ACTIVE_RETURN_STATUSES } } },
+            select: { quantity: true }
+          }
+        }
+      }
+    }
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  return {
+    id: order.id,
+    userId: order.userId,
+    status: order.status,
+    items: order.items.map(item => ({
+      id: item.id,
+      quantity: item.quantity,
+      refundedQuantity: item.refundItems.reduce((sum, refundItem) => sum + refundItem.quantity, 0),
+      requestedQuantity: item.returnItems.reduce((sum, returnItem) => sum + returnItem.quantity, 0)
+    }))
+  };
+};
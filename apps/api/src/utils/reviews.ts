@@ -0,0 +1,135 @@
+import { Prisma, PrismaClient, ReviewStatus } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ProductRating {
+  average: number | null; // null until the product has an approved review
+  count: number;
+}
+
+export interface RatingSummary extends ProductRating {
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>; // approved reviews per star
+}
+
+export interface ReviewComment {
+  comment_en: string | null;
+  comment_my: string | null;
+}
+
+export interface MergedReview {
+  id: string;
+  productId: string;
+  userId: string;
+  createdAt: Date;
+}
+
+export interface ReviewMergePlan {
+  move: string[]; // reviews of merged products that move to the kept product
+  drop: string[]; // older reviews by a customer who reviewed more than one of the products
+}
+
+export const REVIEW_STATUS_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  PENDING: ['APPROVED', 'HIDDEN'],
+  APPROVED: ['HIDDEN'],
+  HIDDEN: ['APPROVED']
+};
+
+/**
+ * Check whether a review can move between two states
+ */
+export const canModerateReview = (from: ReviewStatus, to: ReviewStatus): boolean => {
+  return REVIEW_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Average, count and star distribution of a list of ratings.
+ * The average is rounded to two decimals, like the cached product rating.
+ */
+export const summarizeRatings = (ratings: number[]): RatingSummary => {
+  const distribution: RatingSummary['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const rating of ratings) {
+    distribution[rating as keyof RatingSummary['distribution']] += 1;
+  }
+
+  const total = ratings.reduce((sum, rating) => sum + rating, 0);
+
+  return {
+    average: ratings.length > 0 ? Math.round((total / ratings.length) * 100) / 100 : null,
+    count: ratings.length,
+    distribution
+  };
+};
+
+/**
+ * Which reviews to keep when products are merged into one. A customer can
+ * only review a product once, so of the reviews a customer left on the
+ * kept and merged products only the newest stays.
+ */
+export const planReviewMerge = (targetProductId: string, reviews: MergedReview[]): ReviewMergePlan => {
+  const newest = new Map<string, MergedReview>();
+  for (const review of reviews) {
+    const current = newest.get(review.userId);
+    if (!current || review.createdAt > current.createdAt) {
+      newest.set(review.userId, review);
+    }
+  }
+
+  const kept = Array.from(newest.values());
+  return {
+    move: kept.filter(review => review.productId !== targetProductId).map(review => review.id),
+    drop: reviews.filter(review => newest.get(review.userId) !== review).map(review => review.id)
+  };
+};
+
+/**
+ * The cached rating of a product as returned by the API
+ */
+export const formatProductRating = (product: { ratingAverage: Prisma.Decimal | null; ratingCount: number }): ProductRating => ({
+  average: product.ratingAverage === null ? null : Number(product.ratingAverage),
+  count: product.ratingCount
+});
+
+/**
+ * Comment of a review in the given locale, falling back to the other
+ * language when the customer only wrote in one
+ */
+export const getReviewComment = (review: ReviewComment, locale: string): string | null => {
+  return locale === 'my'
+    ? (review.comment_my || review.comment_en)
+    : (review.comment_en || review.comment_my);
+};
+
+/**
+ * The delivered order item that entitles a customer to review a product,
+ * most recent first. Null when the customer has not received the product.
+ */
+export const findReviewableOrderItem = async (db: DbClient, userId: string, productId: string) => {
+  return db.orderItem.findFirst({
+    where: {
+      productId,
+      order: { userId, status: 'DELIVERED' }
+    },
+    orderBy: { order: { createdAt: 'desc' } },
+    select: { id: true, orderId: true }
+  });
+};
+
+/**
+ * Recalculate the cached rating of a product from its approved reviews.
+ * Call after any review is approved or hidden.
+ */
+export const refreshProductRating = async (db: DbClient, productId: string): Promise<ProductRating> => {
+  const reviews = await db.review.findMany({
+    where: { productId, status: 'APPROVED' },
+    select: { rating: true }
+  });
+
+  const { average, count } = summarizeRatings(reviews.map(review => review.rating));
+
+  await db.product.update({
+    where: { id: productId },
+    data: { ratingAverage: average, ratingCount: count }
+  });
+
+  return { average, count };
+};
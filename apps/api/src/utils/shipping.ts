@@ -0,0 +1,105 @@
+import { Prisma, PrismaClient, ShippingRate } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ShippingLineItem {
+  quantity: number;
+  metadata?: Prisma.JsonValue | null;
+}
+
+export interface ShippingDestination {
+  region: string;
+  township?: string | null;
+}
+
+export type ShippingQuote =
+  | { available: true; fee: number; totalWeightKg: number; rateId: string | null }
+  | { available: false; error: string; totalWeightKg: number };
+
+type RateRules = Pick<ShippingRate, 'id' | 'region' | 'township' | 'minWeightKg' | 'maxWeightKg' | 'fee' | 'freeAboveAmount'>;
+
+const normalizePlace = (value?: string | null): string => (value || '').trim().toLowerCase();
+
+/**
+ * Total shipping weight from each item's metadata.weightKg (bag size)
+ */
+export const getItemsWeightKg = (items: ShippingLineItem[]): number => {
+  const total = items.reduce((sum, item) => {
+    const weightKg = Number((item.metadata as any)?.weightKg);
+    return sum + (Number.isFinite(weightKg) && weightKg > 0 ? weightKg * item.quantity : 0);
+  }, 0);
+  return Math.round(total * 100) / 100;
+};
+
+/**
+ * Pick the rate for a destination and weight.
+ * Township-specific rates take precedence over region-wide rates.
+ */
+export const selectShippingRate = <T extends RateRules>(
+  rates: T[],
+  destination: ShippingDestination,
+  weightKg: number
+): T | null => {
+  const region = normalizePlace(destination.region);
+  const township = normalizePlace(destination.township);
+
+  const matches = rates.filter(rate => {
+    if (normalizePlace(rate.region) !== region) return false;
+    if (rate.township && normalizePlace(rate.township) !== township) return false;
+    if (weightKg < Number(rate.minWeightKg)) return false;
+    if (rate.maxWeightKg !== null && weightKg >= Number(rate.maxWeightKg)) return false;
+    return true;
+  });
+
+  return matches.find(rate => rate.township) || matches[0] || null;
+};
+
+/**
+ * Fee charged by a rate, waived once the items subtotal (before discounts) reaches freeAboveAmount
+ */
+export const getShippingFee = (rate: Pick<RateRules, 'fee' | 'freeAboveAmount'>, itemsSubtotal: number): number => {
+  if (rate.freeAboveAmount !== null && itemsSubtotal >= Number(rate.freeAboveAmount)) {
+    return 0;
+  }
+  return Number(rate.fee);
+};
+
+/**
+ * Quote shipping for a destination using the enabled rate table.
+ * Until an admin enables a rate, shipping stays free as it was before rates existed.
+ */
+export const quoteShipping = async (
+  db: DbClient,
+  destination: ShippingDestination,
+  items: ShippingLineItem[],
+  itemsSubtotal: number
+): Promise<ShippingQuote> => {
+  const totalWeightKg = getItemsWeightKg(items);
+
+  const rates = await db.shippingRate.findMany({
+    where: {
+      enabled: true,
+      region: { equals: destination.region.trim(), mode: 'insensitive' }
+    }
+  });
+
+  const rate = selectShippingRate(rates, destination, totalWeightKg);
+  if (!rate) {
+    if (rates.length === 0 && await db.shippingRate.count({ where: { enabled: true } }) === 0) {
+      return { available: true, fee: 0, totalWeightKg, rateId: null };
+    }
+
+    return {
+      available: false,
+      error: `Shipping is not available to ${destination.township ? `${destination.township}, ` : ''}${destination.region} for ${totalWeightKg}kg`,
+      totalWeightKg
+    };
+  }
+
+  return {
+    available: true,
+    fee: getShippingFee(rate, itemsSubtotal),
+    totalWeightKg,
+    rateId: rate.id
+  };
+};
@@ -0,0 +1,121 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// Materialized stock columns of a product, or of one of its variants
+export interface ProductStockLevel {
+  productId: string;
+  variantId?: string;
+  productName: string;
+  stockOnHand: number;
+  reserved: number;
+}
+
+export interface StockDrift extends ProductStockLevel {
+  expectedStockOnHand: number;
+  expectedReserved: number;
+}
+
+type OrderLine = { productId: string; variantId?: string | null; quantity: number };
+
+/**
+ * Total quantity per product across order lines
+ */
+export const sumQuantitiesByProduct = (lines: OrderLine[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    totals.set(line.productId, (totals.get(line.productId) || 0) + line.quantity);
+  }
+  return totals;
+};
+
+/**
+ * Total quantity per variant across order lines; lines without a variant are skipped
+ */
+export const sumQuantitiesByVariant = (lines: OrderLine[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    if (!line.variantId) continue;
+    totals.set(line.variantId, (totals.get(line.variantId) || 0) + line.quantity);
+  }
+  return totals;
+};
+
+/**
+ * Move the reserved counts of products and variants by the lines' quantities
+ */
+const adjustReserved = async (db: DbClient, lines: OrderLine[], direction: 1 | -1) => {
+  for (const [productId, quantity] of sumQuantitiesByProduct(lines)) {
+    await db.product.update({
+      where: { id: productId },
+      data: { reserved: { increment: direction * quantity } }
+    });
+  }
+
+  for (const [variantId, quantity] of sumQuantitiesByVariant(lines)) {
+    await db.productVariant.update({
+      where: { id: variantId },
+      data: { reserved: { increment: direction * quantity } }
+    });
+  }
+};
+
+/**
+ * Count the bags of a new unpaid order as reserved.
+ * Call alongside setting the order's reservationExpiresAt.
+ */
+export const reserveOrderStock = async (db: DbClient, lines: OrderLine[]) => {
+  await adjustReserved(db, lines, 1);
+};
+
+/**
+ * Clear an order's reservation and stop counting its bags as reserved.
+ * The claim on reservationExpiresAt makes this safe to call more than once;
+ * returns false when the order held no reservation (or did not match `where`).
+ */
+export const releaseReservation = async (
+  db: DbClient,
+  orderId: string,
+  where: Prisma.OrderWhereInput = {}
+): Promise<boolean> => {
+  const claimed = await db.order.updateMany({
+    where: { reservationExpiresAt: { not: null }, ...where, id: orderId },
+    data: { reservationExpiresAt: null }
+  });
+  if (claimed.count === 0) return false;
+
+  const items = await db.orderItem.findMany({
+    where: { orderId },
+    select: { productId: true, variantId: true, quantity: true }
+  });
+
+  await adjustReserved(db, items, -1);
+
+  return true;
+};
+
+/**
+ * Compare the materialized stock columns with the totals recomputed from
+ * the stock ledger and the orders holding a reservation. Products missing
+ * from the totals are expected to be at zero. Variant levels are looked up
+ * in the totals by variant ID.
+ */
+export const findStockDrift = (
+  levels: ProductStockLevel[],
+  ledgerTotals: Map<string, number>,
+  reservedTotals: Map<string, number>
+): StockDrift[] => {
+  const drift: StockDrift[] = [];
+
+  for (const level of levels) {
+    const key = level.variantId || level.productId;
+    const expectedStockOnHand = ledgerTotals.get(key) || 0;
+    const expectedReserved = reservedTotals.get(key) || 0;
+
+    if (level.stockOnHand !== expectedStockOnHand || level.reserved !== expectedReserved) {
+      drift.push({ ...level, expectedStockOnHand, expectedReserved });
+    }
+  }
+
+  return drift;
+};
@@ -0,0 +1,115 @@
+import { StockMovementType } from '@prisma/client';
+import { StockMovement } from './inventoryCosting';
+
+export const STOCK_MOVEMENT_TYPES: StockMovementType[] = [
+  'PURCHASE', 'SALE', 'CANCEL_RESTOCK', 'RETURN_RESTOCK', 'ADJUSTMENT', 'DAMAGE', 'TRANSFER'
+];
+
+// Types an admin can record by hand; the others come from orders and returns
+export const MANUAL_STOCK_MOVEMENT_TYPES: StockMovementType[] = ['PURCHASE', 'ADJUSTMENT', 'DAMAGE', 'TRANSFER'];
+
+// Movements that only ever add or only ever remove bags
+const INBOUND_TYPES: StockMovementType[] = ['PURCHASE', 'CANCEL_RESTOCK', 'RETURN_RESTOCK'];
+const OUTBOUND_TYPES: StockMovementType[] = ['SALE', 'DAMAGE'];
+
+/**
+ * Default type for a manual entry that does not name one
+ */
+export const getDefaultStockMovementType = (quantity: number): StockMovementType => {
+  return quantity > 0 ? 'PURCHASE' : 'ADJUSTMENT';
+};
+
+/**
+ * Check that a manual entry's type matches the direction of its quantity
+ */
+export const checkManualStockMovement = (type: StockMovementType, quantity: number): string | null => {
+  if (!MANUAL_STOCK_MOVEMENT_TYPES.includes(type)) {
+    return `${type} entries are recorded automatically`;
+  }
+  if (quantity === 0) {
+    return 'Quantity cannot be zero';
+  }
+  if (INBOUND_TYPES.includes(type) && quantity < 0) {
+    return `${type} entries must add stock`;
+  }
+  if (OUTBOUND_TYPES.includes(type) && quantity > 0) {
+    return `${type} entries must remove stock`;
+  }
+  return null;
+};
+
+// Something that happened to an order or return around the time a legacy entry was written
+export interface StockEventHint {
+  type: 'SALE' | 'CANCEL_RESTOCK' | 'RETURN_RESTOCK';
+  at: Date;
+  orderId: string;
+  returnRequestId?: string | null;
+  actorId?: string | null;
+}
+
+// An item of an order that was canceled before status events were recorded,
+// so when its bags were put back is not known
+export interface CanceledOrderItemHint {
+  orderId: string;
+  quantity: number; // bags of the product on the order item
+  placedAt: Date;
+}
+
+export interface LegacyStockEntry {
+  quantity: number;
+  purchasePrice: number;
+  createdAt: Date;
+}
+
+// Entries were written in the same transaction as the order change they belong to
+export const LEGACY_MATCH_WINDOW_MS = 60 * 1000;
+
+/**
+ * Classify a stock entry written before movement types existed.
+ * Deductions and zero-cost additions are matched to the nearest order
+ * event for the same product; priced additions with no event were purchases.
+ * Zero-cost additions left over are matched to an item of the same
+ * quantity on an order canceled earlier, latest order first.
+ */
+export const classifyLegacyStockEntry = (
+  entry: LegacyStockEntry,
+  hints: StockEventHint[],
+  canceledItems: CanceledOrderItemHint[] = [],
+  windowMs: number = LEGACY_MATCH_WINDOW_MS
+): StockMovement => {
+  const wanted: StockEventHint['type'][] = entry.quantity < 0 ? ['SALE'] : ['CANCEL_RESTOCK', 'RETURN_RESTOCK'];
+
+  let match: StockEventHint | null = null;
+  for (const hint of hints) {
+    if (!wanted.includes(hint.type)) continue;
+    const distance = Math.abs(hint.at.getTime() - entry.createdAt.getTime());
+    if (distance > windowMs) continue;
+    if (!match || distance < Math.abs(match.at.getTime() - entry.createdAt.getTime())) {
+      match = hint;
+    }
+  }
+
+  if (match) {
+    return {
+      type: match.type,
+      orderId: match.orderId,
+      returnRequestId: match.returnRequestId || null,
+      actorId: match.actorId || null
+    };
+  }
+
+  if (entry.quantity > 0 && entry.purchasePrice > 0) {
+    return { type: 'PURCHASE' };
+  }
+
+  if (entry.quantity > 0) {
+    const canceled = canceledItems
+      .filter(item => item.quantity === entry.quantity && item.placedAt <= entry.createdAt)
+      .sort((a, b) => b.placedAt.getTime() - a.placedAt.getTime())[0];
+    if (canceled) {
+      return { type: 'CANCEL_RESTOCK', orderId: canceled.orderId, returnRequestId: null, actorId: null };
+    }
+  }
+
+  return { type: 'ADJUSTMENT', note: 'Recorded before stock movement types were tracked' };
+};
@@ -6,6 +6,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useCart } from '@/contexts/CartContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import Button from '@/components/ui/Button';
+import SearchBox from '@/components/layout/SearchBox';
 import { cn } from '@/utils/cn';
 
 const Header: React.FC = () => {
@@ -86,6 +87,9 @@ const Header: React.FC = () => {
           </nav>
 
 
+          {/* Search */}
+          <SearchBox className="hidden md:block w-48 lg:w-64" />
+
           {/* Right side actions */}
           <div className="flex items-center space-x-4">
             {/* Language Toggle */}
@@ -173,6 +177,9 @@ const Header: React.FC = () => {
               </div>
 
 
+              {/* Mobile Search */}
+              <SearchBox className="px-2" onNavigate={() => setIsMobileMenuOpen(false)} />
+
               {/* Mobile Navigation */}
               {navigation.map((item) => (
                 <button
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import { Search } from 'lucide-react';
+import { apiClient } from '@/lib/api';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { HighlightSegment, SearchSuggestion } from '@/types';
+import { cn } from '@/utils/cn';
+
+interface SearchBoxProps {
+  className?: string;
+  // Called after navigating, e.g. to close the mobile menu
+  onNavigate?: () => void;
+}
+
+const getSuggestionHref = (suggestion: SearchSuggestion) => {
+  switch (suggestion.type) {
+    case 'product':
+      return `/products/${suggestion.value}`;
+    case 'category':
+      return `/products?category=${encodeURIComponent(suggestion.value)}`;
+    case 'variety':
+      return `/products?variety=${encodeURIComponent(suggestion.value)}`;
+  }
+};
+
+const Highlight: React.FC<{ segments: HighlightSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-transparent font-semibold text-primary-700">{segment.text}</mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
+const SearchBox: React.FC<SearchBoxProps> = ({ className, onNavigate }) => {
+  const router = useRouter();
+  const { locale, t } = useLanguage();
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // Debounce suggestions and drop answers to queries the customer has typed past
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setSuggestions([]);
+      return;
+    }
+
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiClient.searchProducts({ q, limit: 5, locale });
+        if (isCurrent) {
+          setSuggestions(response.suggestions || []);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        console.error('Failed to load search suggestions:', error);
+      }
+    }, 250);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [query, locale]);
+
+  const navigate = (href: string) => {
+    setIsOpen(false);
+    router.push(href);
+    onNavigate?.();
+  };
+
+  const searchAll = () => {
+    if (query.trim()) {
+      navigate(`/products?search=${encodeURIComponent(query.trim())}`);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const active = suggestions[activeIndex];
+    if (active) {
+      navigate(getSuggestionHref(active));
+    } else {
+      searchAll();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => Math.min(index + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, -1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('relative', className)} role="search">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('search.placeholder')}
+        aria-label={t('common.search')}
+        className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+      />
+
+      {isOpen && query.trim() && suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-1 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-50">
+          {suggestions.map((suggestion, index) => (
+            <li key={`${suggestion.type}-${suggestion.value}`}>
+              <button
+                type="button"
+                // Keep focus in the input so the list is not closed before the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => navigate(getSuggestionHref(suggestion))}
+                className={cn(
+                  'flex w-full items-center justify-between px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100',
+                  index === activeIndex && 'bg-gray-100'
+                )}
+              >
+                <span className="truncate">
+                  <Highlight segments={suggestion.highlight} />
+                </span>
+                {suggestion.type !== 'product' && (
+                  <span className="ml-3 shrink-0 text-xs text-gray-400">
+                    {t(`search.types.${suggestion.type}`)}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+          <li className="border-t border-gray-100">
+            <button
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={searchAll}
+              className="w-full px-4 py-2 text-left text-sm font-medium text-primary-600 hover:bg-gray-100"
+            >
+              {t('search.viewAll')}
+            </button>
+          </li>
+        </ul>
+      )}
+    </form>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { PriceBand } from '@/types';
+import { cn } from '@/utils/cn';
+
+interface PriceBandsProps {
+  bands: PriceBand[];
+  quantity?: number; // highlights the band for this quantity and shows how far the next one is
+  isWholesale?: boolean;
+  className?: string;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price) + ' MMK';
+};
+
+const PriceBands: React.FC<PriceBandsProps> = ({ bands, quantity, isWholesale = false, className }) => {
+  const { t } = useTranslation();
+
+  if (bands.length === 0) return null;
+
+  const isCurrent = (band: PriceBand) =>
+    quantity !== undefined && quantity >= band.minQuantity && (band.maxQuantity === null || quantity <= band.maxQuantity);
+  const next = quantity !== undefined ? bands.find(band => band.minQuantity > quantity) : undefined;
+
+  return (
+    <div className={cn('text-sm', className)}>
+      <p className="font-medium text-gray-900">
+        {isWholesale ? t('priceBands.wholesale') : t('priceBands.title')}
+      </p>
+      <ul className="mt-1 space-y-0.5">
+        {bands.map(band => (
+          <li
+            key={band.minQuantity}
+            className={cn('flex justify-between gap-4', isCurrent(band) ? 'font-semibold text-primary-700' : 'text-gray-600')}
+          >
+            <span>
+              {band.maxQuantity === null
+                ? t('priceBands.orMore', { min: band.minQuantity })
+                : t('priceBands.range', { min: band.minQuantity, max: band.maxQuantity })}
+            </span>
+            <span>{t('priceBands.perBag', { price: formatPrice(band.price) })}</span>
+          </li>
+        ))}
+      </ul>
+      {next && quantity !== undefined && (
+        <p className="mt-1 text-xs text-green-700">
+          {t('priceBands.addMore', { count: next.minQuantity - quantity, price: formatPrice(next.price) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PriceBands;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { useRouter } from 'next/router';
 import { ShoppingCart, Eye, Heart } from 'lucide-react';
 import { Product } from '@/types';
 import { useCart } from '@/contexts/CartContext';
@@ -9,6 +10,7 @@ import Button from '@/components/ui/Button';
 import Card from '@/components/ui/Card';
 import { cn } from '@/utils/cn';
 import { getImageUrl } from '@/utils/imageUrl';
+import StarRating from '@/components/products/StarRating';
 
 interface ProductCardProps {
   product: Product;
@@ -18,6 +20,7 @@ interface ProductCardProps {
 const ProductCard: React.FC<ProductCardProps> = ({ product, className }) => {
   const { addToCart, getItemQuantity } = useCart();
   const { t } = useTranslation();
+  const router = useRouter();
   const [isImageLoading, setIsImageLoading] = useState(true);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [imageError, setImageError] = useState(false);
@@ -25,7 +28,19 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, className }) => {
   const cartQuantity = getItemQuantity(product.id);
   const isInCart = cartQuantity > 0;
 
+  // Products sold in several sizes are added from their page once a size is chosen
+  const variants = product.variants || [];
+  const hasVariants = variants.length > 0;
+  // The cheapest size, or the product itself, with its regular price to compare at during a sale
+  const pricing = hasVariants
+    ? variants.reduce((lowest, variant) => (variant.price < lowest.price ? variant : lowest))
+    : product;
+
   const handleAddToCart = async () => {
+    if (hasVariants) {
+      router.push(`/products/${product.id}`);
+      return;
+    }
     setIsAddingToCart(true);
     try {
       addToCart(product, 1);
@@ -139,7 +154,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, className }) => {
             loading={isAddingToCart}
           >
             <ShoppingCart className="h-4 w-4 mr-2" />
-            {isInCart ? `In Cart (${cartQuantity})` : t('products.addToCart')}
+            {hasVariants ? t('products.chooseSize') : isInCart ? `In Cart (${cartQuantity})` : t('products.addToCart')}
           </Button>
         </div>
       </div>
@@ -158,6 +173,11 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, className }) => {
           </Link>
         </h3>
 
+        {/* Rating */}
+        {product.rating && product.rating.count > 0 && (
+          <StarRating rating={product.rating.average || 0} count={product.rating.count} size="sm" className="mb-2" />
+        )}
+
         {/* Description */}
         {product.description && (
           <p className="text-sm text-gray-600 mb-3 line-clamp-2">
@@ -165,28 +185,44 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, className }) => {
           </p>
         )}
 
-        {/* Metadata */}
-        {product.metadata && (
+        {/* Attributes */}
+        {product.attributes && (
           <div className="mb-3">
-            {product.metadata.variety && (
+            {product.attributes.variety && (
               <p className="text-xs text-gray-500">
-                <span className="font-medium">{t('products.variety')}:</span> {product.metadata.variety}
+                <span className="font-medium">{t('products.variety')}:</span> {product.attributes.variety}
               </p>
             )}
-            {product.metadata.weight && (
+            {!hasVariants && product.attributes.weightKg && (
               <p className="text-xs text-gray-500">
-                <span className="font-medium">{t('products.weight')}:</span> {product.metadata.weight}
+                <span className="font-medium">{t('products.weight')}:</span> {product.attributes.weightKg} kg
               </p>
             )}
           </div>
         )}
 
+        {/* Sizes */}
+        {hasVariants && (
+          <p className="text-xs text-gray-500 mb-3">
+            <span className="font-medium">{t('products.sizes')}:</span> {variants.map(variant => variant.label).join(', ')}
+          </p>
+        )}
+
         {/* Price */}
         <div className="flex items-center justify-between">
           <div>
             <p className="text-lg font-bold text-gray-900">
-              {formatPrice(product.price)}
+              {hasVariants && variants.length > 1 && (
+                <span className="text-sm font-normal text-gray-500">{t('products.fromPrice')} </span>
+              )}
+              {formatPrice(pricing.price)}
             </p>
+            {pricing.compareAtPrice && (
+              <p className="text-sm text-gray-500">
+                <span className="line-through">{formatPrice(pricing.compareAtPrice)}</span>
+                <span className="ml-2 text-xs font-medium text-red-600">{t('products.sale')}</span>
+              </p>
+            )}
           </div>
 
           {/* Mobile Add to Cart */}
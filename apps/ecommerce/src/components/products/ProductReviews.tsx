@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api';
+import { MyProductReview, ProductReview, RatingSummary } from '@/types';
+import { Button } from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import StarRating from '@/components/products/StarRating';
+
+interface ProductReviewsProps {
+  productId: string;
+}
+
+const MAX_REVIEW_PHOTOS = 4;
+const PAGE_SIZE = 5;
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productId }) => {
+  const { t } = useTranslation();
+  const { locale } = useLanguage();
+  const { isAuthenticated } = useAuth();
+
+  const [summary, setSummary] = useState<RatingSummary | null>(null);
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [mine, setMine] = useState<MyProductReview | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadReviews = async (nextPage: number) => {
+    try {
+      const response = await apiClient.getProductReviews(productId, { page: nextPage, limit: PAGE_SIZE, locale });
+      if (response.success) {
+        setSummary(response.data.summary);
+        setReviews(nextPage === 1 ? response.data.reviews : [...reviews, ...response.data.reviews]);
+        setPage(nextPage);
+        setTotalPages(response.pagination.totalPages);
+      }
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    }
+  };
+
+  const loadMine = async () => {
+    try {
+      const response = await apiClient.getMyProductReview(productId);
+      if (response.success) {
+        setMine(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading own review:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadReviews(1);
+  }, [productId, locale]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadMine();
+    } else {
+      setMine(null);
+    }
+  }, [productId, isAuthenticated]);
+
+  const handlePhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    setPhotos(files.slice(0, MAX_REVIEW_PHOTOS));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) {
+      setMessage({ type: 'error', text: t('reviews.form.ratingRequired') });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setMessage(null);
+
+    try {
+      // The comment is saved in the language the customer is browsing in
+      const text = comment.trim() || undefined;
+      await apiClient.createProductReview(productId, {
+        rating,
+        ...(locale === 'my' ? { comment_my: text } : { comment_en: text }),
+        photos
+      });
+      setRating(0);
+      setComment('');
+      setPhotos([]);
+      await loadMine();
+      setMessage({ type: 'success', text: t('reviews.form.submitted') });
+    } catch (error: any) {
+      console.error('Failed to submit review:', error);
+      setMessage({ type: 'error', text: error.response?.data?.message || t('reviews.form.failed') });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale === 'my' ? 'my-MM' : 'en-US');
+
+  return (
+    <div className="mb-12">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">
+        {t('reviews.title')}
+      </h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Summary */}
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-3">
+          {summary && summary.average !== null ? (
+            <>
+              <div className="flex items-center space-x-3">
+                <span className="text-4xl font-bold text-gray-900">{summary.average.toFixed(1)}</span>
+                <div>
+                  <StarRating rating={summary.average} />
+                  <p className="text-sm text-gray-600">{t('reviews.basedOn', { count: summary.count })}</p>
+                </div>
+              </div>
+              <div className="space-y-1">
+                {([5, 4, 3, 2, 1] as const).map(star => (
+                  <div key={star} className="flex items-center space-x-2 text-sm">
+                    <span className="w-3 text-gray-600">{star}</span>
+                    <div className="flex-1 h-2 bg-gray-100 rounded">
+                      <div
+                        className="h-2 bg-yellow-400 rounded"
+                        style={{ width: `${(summary.distribution[star] / summary.count) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-6 text-right text-gray-500">{summary.distribution[star]}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-600">{t('reviews.noReviews')}</p>
+          )}
+
+          {/* Own review or the form to write one */}
+          <div className="pt-4 border-t space-y-3">
+            {message && (
+              <div className={`p-3 rounded text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                {message.text}
+              </div>
+            )}
+
+            {!isAuthenticated && (
+              <p className="text-sm text-gray-600">{t('reviews.loginToReview')}</p>
+            )}
+
+            {mine?.review && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-900">{t('reviews.yourReview')}</p>
+                  <Badge variant={mine.review.status === 'APPROVED' ? 'success' : mine.review.status === 'PENDING' ? 'warning' : 'default'} size="sm">
+                    {t(`reviews.status.${mine.review.status}`)}
+                  </Badge>
+                </div>
+                <StarRating rating={mine.review.rating} size="sm" />
+                {(mine.review.comment_my || mine.review.comment_en) && (
+                  <p className="text-sm text-gray-700">{mine.review.comment_my || mine.review.comment_en}</p>
+                )}
+              </div>
+            )}
+
+            {mine && !mine.review && !mine.canReview && (
+              <p className="text-sm text-gray-600">{t('reviews.deliveredOnly')}</p>
+            )}
+
+            {mine?.canReview && (
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <p className="text-sm font-medium text-gray-900">{t('reviews.form.title')}</p>
+                <StarRating rating={rating} size="lg" onChange={setRating} />
+                <textarea
+                  rows={3}
+                  maxLength={2000}
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder={t('reviews.form.commentPlaceholder')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="review-photos">
+                    {t('reviews.form.photos')}
+                  </label>
+                  <input
+                    id="review-photos"
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    multiple
+                    onChange={handlePhotosChange}
+                    className="block w-full text-sm text-gray-700"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{t('reviews.form.photosHint')}</p>
+                </div>
+                <Button type="submit" disabled={isSubmitting}>
+                  {t('reviews.form.submit')}
+                </Button>
+              </form>
+            )}
+          </div>
+        </div>
+
+        {/* Reviews */}
+        <div className="lg:col-span-2 space-y-4">
+          {reviews.map(review => (
+            <div key={review.id} className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <p className="font-medium text-gray-900">{review.customerName}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(review.createdAt)}
+                    {review.variantLabel && ` · ${review.variantLabel}`}
+                  </p>
+                </div>
+                <StarRating rating={review.rating} size="sm" />
+              </div>
+              {review.comment && (
+                <p className="text-gray-700 leading-relaxed">{review.comment}</p>
+              )}
+              {review.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {review.photos.map((photo) => (
+                    <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                      <img src={photo} alt="" className="w-16 h-16 object-cover rounded border border-gray-200" />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {page < totalPages && (
+            <Button variant="outline" onClick={() => loadReviews(page + 1)}>
+              {t('reviews.showMore')}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductReviews;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/utils/cn';
+
+interface StarRatingProps {
+  rating: number; // 0 to 5; stars are filled to the nearest half
+  count?: number; // number of reviews, shown after the stars
+  size?: 'sm' | 'md' | 'lg';
+  onChange?: (rating: number) => void; // makes the stars selectable, for the review form
+  className?: string;
+}
+
+const sizeClasses = {
+  sm: 'h-3.5 w-3.5',
+  md: 'h-4 w-4',
+  lg: 'h-6 w-6',
+};
+
+const StarRating: React.FC<StarRatingProps> = ({ rating, count, size = 'md', onChange, className }) => {
+  const rounded = Math.round(rating * 2) / 2;
+
+  return (
+    <div className={cn('flex items-center', className)}>
+      {[1, 2, 3, 4, 5].map(star => {
+        const fill = rounded >= star ? 'full' : rounded >= star - 0.5 ? 'half' : 'empty';
+        const icon = (
+          <span className="relative inline-block">
+            <Star className={cn(sizeClasses[size], 'text-gray-300')} />
+            {fill !== 'empty' && (
+              <span className={cn('absolute inset-0 overflow-hidden', fill === 'half' && 'w-1/2')}>
+                <Star className={cn(sizeClasses[size], 'fill-yellow-400 text-yellow-400')} />
+              </span>
+            )}
+          </span>
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            className="p-0.5"
+            aria-label={`${star}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+      {count !== undefined && (
+        <span className="ml-1 text-xs text-gray-500">({count})</span>
+      )}
+    </div>
+  );
+};
+
+export default StarRating;
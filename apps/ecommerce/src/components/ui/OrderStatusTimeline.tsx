@@ -11,8 +11,14 @@ export type OrderStatus =
   | 'RETURNED'
   | 'REFUNDED';
 
+export interface OrderStatusEvent {
+  toStatus: OrderStatus;
+  createdAt: string;
+}
+
 export interface OrderStatusTimelineProps {
   currentStatus: OrderStatus;
+  events?: OrderStatusEvent[];
   className?: string;
 }
 
@@ -79,6 +85,12 @@ const getStatusIndex = (status: OrderStatus): number => {
   return statusOrder.indexOf(status);
 };
 
+// Date the order last entered a status, if it is in the history
+const getStatusDate = (events: OrderStatusEvent[], status: OrderStatus): string | null => {
+  const event = [...events].reverse().find(e => e.toStatus === status);
+  return event ? new Date(event.createdAt).toLocaleDateString() : null;
+};
+
 const getStatusColor = (color: string, isActive: boolean, isCompleted: boolean) => {
   if (isCompleted) {
     return 'bg-success-500 border-success-500 text-white';
@@ -100,6 +112,7 @@ const getStatusColor = (color: string, isActive: boolean, isCompleted: boolean)
 
 export const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({
   currentStatus,
+  events = [],
   className,
 }) => {
   const currentIndex = getStatusIndex(currentStatus);
@@ -138,6 +151,11 @@ export const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({
                     <p className="text-xs text-neutral-400 mt-1">
                       {config.description}
                     </p>
+                    {getStatusDate(events, status) && (
+                      <p className="text-xs text-neutral-500 mt-1">
+                        {getStatusDate(events, status)}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -187,6 +205,11 @@ export const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({
                   <p className="text-xs text-neutral-400 mt-1">
                     {config.description}
                   </p>
+                  {getStatusDate(events, status) && (
+                    <p className="text-xs text-neutral-500 mt-1">
+                      {getStatusDate(events, status)}
+                    </p>
+                  )}
                 </div>
               </div>
             );
@@ -208,6 +231,11 @@ export const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({
               <p className="text-xs text-error-600 mt-1">
                 {statusConfig[currentStatus].description}
               </p>
+              {getStatusDate(events, currentStatus) && (
+                <p className="text-xs text-error-600 mt-1">
+                  {getStatusDate(events, currentStatus)}
+                </p>
+              )}
             </div>
           </div>
         </div>
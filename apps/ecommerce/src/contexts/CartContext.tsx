@@ -1,7 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 
 interface CartItem {
-  id: string;
+  id: string; // cart line key: the product ID, or "productId:variantId" for a size
+  productId: string;
+  variantId?: string;
+  variantLabel?: string;
   name: string;
   price: number;
   quantity: number;
@@ -9,19 +12,28 @@ interface CartItem {
   metadata?: any;
 }
 
+interface CartVariant {
+  id: string;
+  label: string;
+  price: number;
+}
+
 interface CartContextType {
   items: CartItem[];
   totalItems: number;
   totalPrice: number;
-  addToCart: (product: any, quantity?: number) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (product: any, quantity?: number, variant?: CartVariant) => void;
+  removeFromCart: (itemId: string) => void;
+  updateQuantity: (itemId: string, quantity: number) => void;
   clearCart: () => void;
-  getItemQuantity: (productId: string) => number;
+  getItemQuantity: (itemId: string) => number;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+export const getCartItemId = (productId: string, variantId?: string) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
 export const useCart = () => {
   const context = useContext(CartContext);
   if (context === undefined) {
@@ -42,7 +54,8 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     const savedCart = localStorage.getItem('cart');
     if (savedCart) {
       try {
-        setItems(JSON.parse(savedCart));
+        // Carts saved before sizes existed keyed items by product ID only
+        setItems(JSON.parse(savedCart).map((item: CartItem) => ({ ...item, productId: item.productId || item.id })));
       } catch (error) {
         console.error('Failed to load cart from localStorage:', error);
       }
@@ -57,21 +70,25 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   const totalItems = items.reduce((total, item) => total + item.quantity, 0);
   const totalPrice = items.reduce((total, item) => total + (item.price * item.quantity), 0);
 
-  const addToCart = (product: any, quantity: number = 1) => {
+  const addToCart = (product: any, quantity: number = 1, variant?: CartVariant) => {
+    const itemId = getCartItemId(product.id, variant?.id);
     setItems(prevItems => {
-      const existingItem = prevItems.find(item => item.id === product.id);
+      const existingItem = prevItems.find(item => item.id === itemId);
       
       if (existingItem) {
         return prevItems.map(item =>
-          item.id === product.id
+          item.id === itemId
             ? { ...item, quantity: item.quantity + quantity }
             : item
         );
       } else {
         return [...prevItems, {
-          id: product.id,
+          id: itemId,
+          productId: product.id,
+          variantId: variant?.id,
+          variantLabel: variant?.label,
           name: product.name,
-          price: product.price,
+          price: variant ? variant.price : product.price,
           quantity,
           image: product.images?.[0],
           metadata: product.metadata,
@@ -80,19 +97,19 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     });
   };
 
-  const removeFromCart = (productId: string) => {
-    setItems(prevItems => prevItems.filter(item => item.id !== productId));
+  const removeFromCart = (itemId: string) => {
+    setItems(prevItems => prevItems.filter(item => item.id !== itemId));
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (itemId: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(itemId);
       return;
     }
 
     setItems(prevItems =>
       prevItems.map(item =>
-        item.id === productId ? { ...item, quantity } : item
+        item.id === itemId ? { ...item, quantity } : item
       )
     );
   };
@@ -101,8 +118,8 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     setItems([]);
   };
 
-  const getItemQuantity = (productId: string) => {
-    const item = items.find(item => item.id === productId);
+  const getItemQuantity = (itemId: string) => {
+    const item = items.find(item => item.id === itemId);
     return item ? item.quantity : 0;
   };
 
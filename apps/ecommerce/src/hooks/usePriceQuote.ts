@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useState } from 'react';
+import { apiClient } from '@/lib/api';
+import { PriceQuote, PriceQuoteLine } from '@/types';
+
+interface QuotedItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  price: number; // price saved in the cart, used until the quote arrives
+}
+
+/**
+ * Custom hook to price cart lines like the order will be, with quantity tiers
+ * and wholesale prices. Lines keep the cart price until the quote arrives or
+ * when it fails
+ */
+export const usePriceQuote = (items: QuotedItem[]) => {
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+
+  // Only a change of product, size or quantity needs a new quote
+  const key = JSON.stringify(items.map(item => [item.productId, item.variantId || null, item.quantity]));
+
+  useEffect(() => {
+    const lines = JSON.parse(key) as Array<[string, string | null, number]>;
+    if (lines.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiClient.getPriceQuote({
+          items: lines.map(([productId, variantId, quantity]) => ({ productId, variantId: variantId || undefined, quantity })),
+        });
+        if (isCurrent && response.success) {
+          setQuote(response.data);
+        }
+      } catch (error) {
+        console.error('Failed to quote cart prices:', error);
+      }
+    }, 300);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  return useMemo(() => {
+    const getLine = (item: QuotedItem): PriceQuoteLine | undefined =>
+      quote?.items.find(line =>
+        line.productId === item.productId &&
+        line.variantId === (item.variantId || null) &&
+        line.quantity === item.quantity
+      );
+
+    const getUnitPrice = (item: QuotedItem) => getLine(item)?.unitPrice ?? item.price;
+
+    return {
+      getLine,
+      getUnitPrice,
+      subtotal: items.reduce((sum, item) => sum + getUnitPrice(item) * item.quantity, 0),
+      isWholesale: quote?.priceList === 'WHOLESALE',
+    };
+  }, [quote, items]);
+};
@@ -1,6 +1,6 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import Cookies from 'js-cookie';
-import { Product, ApiResponse, PaginatedResponse, ApiError } from '@/types';
+import { Product, ApiResponse, ApiError, ProductListResponse, ProductSearchResponse, Category, PriceQuote, ProductReviewsResponse, MyProductReview, PaymentQrCodes } from '@/types';
 
 class ApiClient {
   private client: AxiosInstance;
@@ -120,8 +120,12 @@ class ApiClient {
     page?: number;
     limit?: number;
     search?: string;
+    category?: string;
     variety?: string;
-    weight?: string;
+    grade?: string;
+    weightKg?: string;
+    origin?: string;
+    packageType?: string;
     priceMin?: number;
     priceMax?: number;
     inStock?: boolean;
@@ -129,11 +133,21 @@ class ApiClient {
     locale?: string;
     disabled?: boolean;
     excludeId?: string;
-  }): Promise<PaginatedResponse<Product>> {
+  }): Promise<ProductListResponse> {
     const response = await this.client.get('/api/products', { params });
     return response.data;
   }
 
+  async searchProducts(params: {
+    q: string;
+    page?: number;
+    limit?: number;
+    locale?: string;
+  }): Promise<ProductSearchResponse> {
+    const response = await this.client.get('/api/products/search', { params });
+    return response.data;
+  }
+
   async getProduct(id: string, locale?: string): Promise<ApiResponse<Product>> {
     const response = await this.client.get(`/api/products/${id}`, {
       params: { locale },
@@ -141,19 +155,98 @@ class ApiClient {
     return response.data;
   }
 
+  // Review endpoints
+  async getProductReviews(productId: string, params?: {
+    page?: number;
+    limit?: number;
+    locale?: string;
+  }): Promise<ProductReviewsResponse> {
+    const response = await this.client.get(`/api/products/${productId}/reviews`, { params });
+    return response.data;
+  }
+
+  async getMyProductReview(productId: string): Promise<ApiResponse<MyProductReview>> {
+    const response = await this.client.get(`/api/products/${productId}/reviews/mine`);
+    return response.data;
+  }
+
+  async createProductReview(productId: string, data: {
+    rating: number;
+    comment_en?: string;
+    comment_my?: string;
+    photos?: File[];
+  }): Promise<ApiResponse<any>> {
+    const formData = new FormData();
+    formData.append('rating', String(data.rating));
+    if (data.comment_en) {
+      formData.append('comment_en', data.comment_en);
+    }
+    if (data.comment_my) {
+      formData.append('comment_my', data.comment_my);
+    }
+    (data.photos || []).forEach(photo => formData.append('photos', photo));
+
+    const response = await this.client.post(`/api/products/${productId}/reviews`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  }
+
+  // Category endpoints
+  async getCategories(locale?: string): Promise<ApiResponse<Category[]>> {
+    const response = await this.client.get('/api/categories', {
+      params: { locale },
+    });
+    return response.data;
+  }
+
   // Order endpoints
   async createOrder(data: {
-    items: Array<{ productId: string; quantity: number }>;
+    items: Array<{ productId: string; variantId?: string; quantity: number }>;
     shippingAddress: any;
     paymentType: string;
     paymentMethodId?: string;
     transactionId?: string;
     paymentScreenshot?: string;
+    couponCode?: string;
   }): Promise<any> {
     const response = await this.client.post('/api/orders', data);
     return response.data;
   }
 
+  // Coupon endpoints
+  async validateCoupon(data: {
+    code: string;
+    items: Array<{ productId: string; variantId?: string; quantity: number }>;
+  }): Promise<ApiResponse<{ code: string; description?: string; type: string; value: number; discountAmount: number }>> {
+    const response = await this.client.post('/api/coupons/validate', data);
+    return response.data;
+  }
+
+  // Shipping endpoints
+  async getShippingRegions(): Promise<ApiResponse<Array<{ region: string; townships: string[] }>>> {
+    const response = await this.client.get('/api/shipping/regions');
+    return response.data;
+  }
+
+  async getPriceQuote(data: {
+    items: Array<{ productId: string; variantId?: string; quantity: number }>;
+  }): Promise<ApiResponse<PriceQuote>> {
+    const response = await this.client.post('/api/products/price-quote', data);
+    return response.data;
+  }
+
+  async getShippingQuote(data: {
+    region: string;
+    township?: string;
+    items: Array<{ productId: string; variantId?: string; quantity: number }>;
+  }): Promise<ApiResponse<{ fee: number; totalWeightKg: number }>> {
+    const response = await this.client.post('/api/shipping/quote', data);
+    return response.data;
+  }
+
   async getOrder(id: string): Promise<any> {
     const response = await this.client.get(`/api/orders/${id}`);
     return response.data;
@@ -175,13 +268,50 @@ class ApiClient {
     return response.data;
   }
 
+  // Send new transfer proof, e.g. after an admin rejected the first one
+  async submitPaymentProof(orderId: string, proof: {
+    transactionId?: string;
+    paymentScreenshot?: string;
+  }): Promise<any> {
+    const response = await this.client.patch(`/api/orders/online-transfer/${orderId}/payment-proof`, proof);
+    return response.data;
+  }
+
+  async getOrderPaymentQrCodes(orderId: string): Promise<ApiResponse<PaymentQrCodes>> {
+    const response = await this.client.get(`/api/orders/online-transfer/${orderId}/payment-qr`);
+    return response.data;
+  }
+
   async cancelOrder(orderId: string): Promise<any> {
     const response = await this.client.patch(`/api/orders/${orderId}/cancel`);
     return response.data;
   }
 
-  async returnOrder(orderId: string): Promise<any> {
-    const response = await this.client.patch(`/api/orders/${orderId}/return`);
+  // Return requests
+  async createReturnRequest(orderId: string, data: {
+    items: Array<{ orderItemId: string; quantity: number }>;
+    reason: string;
+    note?: string;
+    photos?: File[];
+  }): Promise<ApiResponse<any>> {
+    const formData = new FormData();
+    formData.append('items', JSON.stringify(data.items));
+    formData.append('reason', data.reason);
+    if (data.note) {
+      formData.append('note', data.note);
+    }
+    (data.photos || []).forEach(photo => formData.append('photos', photo));
+
+    const response = await this.client.post(`/api/orders/${orderId}/returns`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  }
+
+  async getReturnRequests(orderId: string): Promise<ApiResponse<any[]>> {
+    const response = await this.client.get(`/api/orders/${orderId}/returns`);
     return response.data;
   }
 
@@ -8,11 +8,15 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import Button from '@/components/ui/Button';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
+import PriceBands from '@/components/products/PriceBands';
+import { usePriceQuote } from '@/hooks/usePriceQuote';
 
 const CartPage: React.FC = () => {
   const router = useRouter();
   const { items, updateQuantity, removeFromCart, clearCart } = useCart();
   const { t } = useLanguage();
+  // Quantity tiers and wholesale prices are worked out by the API, like the order will be
+  const pricing = usePriceQuote(items);
 
   const handleQuantityChange = (productId: string, newQuantity: number) => {
     if (newQuantity <= 0) {
@@ -34,20 +38,16 @@ const CartPage: React.FC = () => {
   };
 
   const calculateSubtotal = () => {
-    return items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    return pricing.subtotal;
   };
 
   const calculateTax = () => {
     return Math.round(calculateSubtotal() * 0.05); // 5% tax
   };
 
-  const calculateShipping = () => {
-    const subtotal = calculateSubtotal();
-    return subtotal >= 300000 ? 0 : 5000; // Free shipping over 300,000 MMK, otherwise 5,000 MMK
-  };
-
+  // Shipping depends on the delivery region, so it is quoted at checkout
   const calculateTotal = () => {
-    return calculateSubtotal() + calculateTax() + calculateShipping();
+    return calculateSubtotal() + calculateTax();
   };
 
   if (items.length === 0) {
@@ -128,80 +128,102 @@ const CartPage: React.FC = () => {
                 </div>
 
                 <div className="divide-y divide-gray-200">
-                  {items.map((item) => (
-                    <div key={item.id} className="p-6">
-                      <div className="flex items-center space-x-4">
-                        {/* Product Image */}
-                        <div className="flex-shrink-0">
-                          <div className="w-20 h-20 bg-gray-200 rounded-lg overflow-hidden">
-                            {item.image ? (
-                              <img
-                                src={item.image}
-                                alt={item.name}
-                                className="w-full h-full object-cover"
+                  {items.map((item) => {
+                    const line = pricing.getLine(item);
+                    const unitPrice = pricing.getUnitPrice(item);
+                    return (
+                      <div key={item.id} className="p-6">
+                        <div className="flex items-center space-x-4">
+                          {/* Product Image */}
+                          <div className="flex-shrink-0">
+                            <div className="w-20 h-20 bg-gray-200 rounded-lg overflow-hidden">
+                              {item.image ? (
+                                <img
+                                  src={item.image}
+                                  alt={item.name}
+                                  className="w-full h-full object-cover"
+                                />
+                              ) : (
+                                <div className="w-full h-full flex items-center justify-center">
+                                  <span className="text-2xl">🌾</span>
+                                </div>
+                              )}
+                            </div>
+                          </div>
+
+                          {/* Product Info */}
+                          <div className="flex-1 min-w-0">
+                            <h3 className="text-lg font-medium text-gray-900">
+                              <Link
+                                href={`/products/${item.productId}`}
+                                className="hover:text-primary-600"
+                              >
+                                {item.name}
+                              </Link>
+                            </h3>
+                            {item.variantLabel && (
+                              <p className="text-sm text-gray-500">
+                                {t('products.size')}: {item.variantLabel}
+                              </p>
+                            )}
+                            <p className="text-lg font-semibold text-gray-900 mt-1">
+                              {formatPrice(unitPrice)}
+                              {line?.tier && (
+                                <span className="ml-2 text-sm font-normal text-gray-500 line-through">
+                                  {formatPrice(line.listPrice)}
+                                </span>
+                              )}
+                            </p>
+                            {line && (
+                              <PriceBands
+                                bands={line.priceBands}
+                                quantity={item.quantity}
+                                isWholesale={pricing.isWholesale}
+                                className="mt-2 max-w-xs"
                               />
-                            ) : (
-                              <div className="w-full h-full flex items-center justify-center">
-                                <span className="text-2xl">🌾</span>
-                              </div>
                             )}
                           </div>
-                        </div>
 
-                        {/* Product Info */}
-                        <div className="flex-1 min-w-0">
-                          <h3 className="text-lg font-medium text-gray-900">
-                            <Link
-                              href={`/products/${item.id}`}
-                              className="hover:text-primary-600"
-                            >
-                              {item.name}
-                            </Link>
-                          </h3>
-                          <p className="text-lg font-semibold text-gray-900 mt-1">
-                            {formatPrice(item.price)}
-                          </p>
-                        </div>
+                          {/* Quantity Controls */}
+                          <div className="flex items-center space-x-3">
+                            <div className="flex items-center border border-gray-300 rounded-md">
+                              <button
+                                onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                                className="p-2 hover:bg-gray-100 transition-colors"
+                                disabled={item.quantity <= 1}
+                              >
+                                <Minus className="h-4 w-4" />
+                              </button>
+                              <span className="px-4 py-2 text-sm font-medium">
+                                {item.quantity}
+                              </span>
+                              <button
+                                onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                                className="p-2 hover:bg-gray-100 transition-colors"
+                              >
+                                <Plus className="h-4 w-4" />
+                              </button>
+                            </div>
 
-                        {/* Quantity Controls */}
-                        <div className="flex items-center space-x-3">
-                          <div className="flex items-center border border-gray-300 rounded-md">
+                            {/* Remove Button */}
                             <button
-                              onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
-                              className="p-2 hover:bg-gray-100 transition-colors"
-                              disabled={item.quantity <= 1}
+                              onClick={() => removeFromCart(item.id)}
+                              className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-md transition-colors"
                             >
-                              <Minus className="h-4 w-4" />
-                            </button>
-                            <span className="px-4 py-2 text-sm font-medium">
-                              {item.quantity}
-                            </span>
-                            <button
-                              onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
-                              className="p-2 hover:bg-gray-100 transition-colors"
-                            >
-                              <Plus className="h-4 w-4" />
+                              <Trash2 className="h-4 w-4" />
                             </button>
                           </div>
 
-                          {/* Remove Button */}
-                          <button
-                            onClick={() => removeFromCart(item.id)}
-                            className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-md transition-colors"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
-                        </div>
-
-                        {/* Total Price */}
-                        <div className="text-right">
-                          <p className="text-lg font-semibold text-gray-900">
-                            {formatPrice(item.price * item.quantity)}
-                          </p>
+                          {/* Total Price */}
+                          <div className="text-right">
+                            <p className="text-lg font-semibold text-gray-900">
+                              {formatPrice(unitPrice * item.quantity)}
+                            </p>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -220,9 +242,7 @@ const CartPage: React.FC = () => {
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">{t('cart.shipping')}</span>
-                    <span className="font-medium text-green-600">
-                      {calculateShipping() === 0 ? 'Free' : formatPrice(calculateShipping())}
-                    </span>
+                    <span className="text-gray-500">{t('cart.shippingAtCheckout')}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">{t('cart.tax')}</span>
@@ -253,12 +273,6 @@ const CartPage: React.FC = () => {
                     {t('cart.continueShopping')}
                   </Button>
                 </Link>
-
-                <div className="mt-6 text-center">
-                  <p className="text-sm text-gray-500">
-                    {t('cart.freeShipping')}
-                  </p>
-                </div>
               </div>
             </div>
           </div>
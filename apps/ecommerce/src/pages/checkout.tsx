@@ -8,7 +8,8 @@ import {
   MapPin, 
   Upload, 
   CheckCircle, 
-  AlertCircle
+  AlertCircle,
+  Tag
 } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -17,6 +18,8 @@ import { apiClient } from '@/lib/api';
 import Button from '@/components/ui/Button';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
+import { usePriceQuote } from '@/hooks/usePriceQuote';
+import { PaymentQrCodes } from '@/types';
 
 interface PaymentMethod {
   id: string;
@@ -50,11 +53,19 @@ interface CheckoutFormData {
   paymentScreenshot?: File;
   shippingAddress: string;
   phone: string;
+  region: string;
+  township: string;
+}
+
+interface ShippingRegion {
+  region: string;
+  townships: string[];
 }
 
 const CheckoutPage: React.FC = () => {
   const router = useRouter();
   const { items, clearCart } = useCart();
+  const pricing = usePriceQuote(items);
   const { user, isAuthenticated, isLoading } = useAuth();
   const { t, locale } = useLanguage();
   
@@ -64,6 +75,14 @@ const CheckoutPage: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [uploadedScreenshot, setUploadedScreenshot] = useState<string | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<{ code: string; discountAmount: number } | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  const [shippingRegions, setShippingRegions] = useState<ShippingRegion[]>([]);
+  const [shippingFee, setShippingFee] = useState<number | null>(null);
+  const [shippingError, setShippingError] = useState<string | null>(null);
+  const [placedOrder, setPlacedOrder] = useState<{ id: string; paymentQr: PaymentQrCodes } | null>(null);
 
   const {
     register,
@@ -77,11 +96,16 @@ const CheckoutPage: React.FC = () => {
       paymentType: 'COD',
       shippingAddress: user?.address || '',
       phone: '',
+      region: '',
+      township: '',
     }
   });
 
   const paymentType = watch('paymentType');
   const selectedPaymentMethodId = watch('selectedPaymentMethodId');
+  const region = watch('region');
+  const township = watch('township');
+  const townships = shippingRegions.find(r => r.region === region)?.townships || [];
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -95,9 +119,44 @@ const CheckoutPage: React.FC = () => {
     if (isAuthenticated) {
       loadPaymentMethods();
       loadCompanyAccounts();
+      loadShippingRegions();
     }
   }, [isAuthenticated]);
 
+  // Re-quote shipping whenever the destination or cart changes
+  useEffect(() => {
+    if (!region || items.length === 0) {
+      setShippingFee(null);
+      setShippingError(null);
+      return;
+    }
+
+    let cancelled = false;
+    apiClient.getShippingQuote({
+      region,
+      township: township || undefined,
+      items: items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity
+      }))
+    })
+      .then(response => {
+        if (cancelled) return;
+        setShippingFee(Number(response.data?.fee ?? 0));
+        setShippingError(null);
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        setShippingFee(null);
+        setShippingError(error.response?.data?.message || t('checkout.shipping.unavailable'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [region, township, items]);
+
   // Update company account when payment method changes
   useEffect(() => {
     if (paymentType === 'ONLINE_TRANSFER' && selectedPaymentMethodId && companyAccounts.length > 0) {
@@ -129,6 +188,15 @@ const CheckoutPage: React.FC = () => {
     }
   };
 
+  const loadShippingRegions = async () => {
+    try {
+      const response = await apiClient.getShippingRegions();
+      setShippingRegions(response.data || []);
+    } catch (error) {
+      console.error('Failed to load shipping regions:', error);
+    }
+  };
+
   const handleFileUpload = async (file: File) => {
     try {
       const response = await apiClient.uploadFile(file);
@@ -143,6 +211,38 @@ const CheckoutPage: React.FC = () => {
     }
   };
 
+  const handleApplyCoupon = async () => {
+    if (!couponInput.trim()) return;
+
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+
+    try {
+      const response = await apiClient.validateCoupon({
+        code: couponInput.trim(),
+        items: items.map(item => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity
+        }))
+      });
+      if (response.data) {
+        setAppliedCoupon({ code: response.data.code, discountAmount: Number(response.data.discountAmount) });
+      }
+    } catch (error: any) {
+      setAppliedCoupon(null);
+      setCouponError(error.response?.data?.message || t('checkout.coupon.invalid'));
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponInput('');
+    setCouponError(null);
+  };
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       minimumFractionDigits: 0,
@@ -151,7 +251,7 @@ const CheckoutPage: React.FC = () => {
   };
 
   const calculateSubtotal = () => {
-    return items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    return pricing.subtotal;
   };
 
   const calculateTax = () => {
@@ -159,33 +259,45 @@ const CheckoutPage: React.FC = () => {
   };
 
   const calculateShipping = () => {
-    const subtotal = calculateSubtotal();
-    return subtotal >= 300000 ? 0 : 5000;
+    return shippingFee || 0;
+  };
+
+  const calculateDiscount = () => {
+    return appliedCoupon?.discountAmount || 0;
   };
 
   const calculateTotal = () => {
-    return calculateSubtotal() + calculateTax() + calculateShipping();
+    return calculateSubtotal() - calculateDiscount() + calculateTax() + calculateShipping();
   };
 
   const onSubmit = async (data: CheckoutFormData) => {
+    if (shippingFee === null) {
+      setMessage({ type: 'error', text: shippingError || t('checkout.shipping.selectRegion') });
+      return;
+    }
+
     setIsSubmitting(true);
     setMessage(null);
 
     try {
       const orderData = {
         items: items.map(item => ({
-          productId: item.id,
+          productId: item.productId,
+          variantId: item.variantId,
           quantity: item.quantity
         })),
         shippingAddress: {
           name: user?.name || '',
           address: data.shippingAddress,
-          phone: data.phone
+          phone: data.phone,
+          region: data.region,
+          township: data.township || undefined
         },
         paymentType: data.paymentType,
         paymentMethodId: data.selectedPaymentMethodId,
-        transactionId: data.transactionId,
-        paymentScreenshot: uploadedScreenshot || undefined
+        transactionId: data.transactionId || undefined,
+        paymentScreenshot: uploadedScreenshot || undefined,
+        couponCode: appliedCoupon?.code
       };
 
       console.log('Creating order with data:', orderData);
@@ -212,6 +324,28 @@ const CheckoutPage: React.FC = () => {
         throw new Error('No order ID in API response');
       }
       
+      // Hosted gateways take the customer to their own checkout page
+      if (response.redirectUrl) {
+        clearCart();
+        window.location.href = response.redirectUrl;
+        return;
+      }
+
+      // Transfers still to be paid stay here so the customer can scan a QR code
+      // for the placed order beside each account before moving on
+      if (data.paymentType === 'ONLINE_TRANSFER') {
+        try {
+          const qrResponse = await apiClient.getOrderPaymentQrCodes(response.order.id);
+          if (qrResponse.data && qrResponse.data.codes.length > 0) {
+            setPlacedOrder({ id: response.order.id, paymentQr: qrResponse.data });
+            clearCart();
+            return;
+          }
+        } catch (qrError) {
+          console.error('Failed to load payment QR codes:', qrError);
+        }
+      }
+
       // Clear cart and redirect to success page
       clearCart();
       console.log('Redirecting to success page with orderId:', response.order.id);
@@ -268,6 +402,79 @@ const CheckoutPage: React.FC = () => {
     return null; // Will redirect to login
   }
 
+  if (placedOrder) {
+    const { paymentQr } = placedOrder;
+    return (
+      <>
+        <Head>
+          <title>{`${t('checkout.orderPlaced.title')} - ${process.env.NEXT_PUBLIC_APP_NAME}`}</title>
+        </Head>
+        <div className="min-h-screen bg-gray-50">
+          <Header />
+          <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+            <div className="text-center mb-8">
+              <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                {t('checkout.orderPlaced.title')}
+              </h1>
+              <p className="text-gray-600">
+                {t('checkout.orderPlaced.subtitle')}
+              </p>
+            </div>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 space-y-4">
+              <h3 className="text-lg font-semibold text-blue-900">
+                {t('orders.paymentQr.title')}
+              </h3>
+              <p className="text-sm text-blue-800">{t('orders.paymentQr.instructions')}</p>
+
+              {paymentQr.codes.map(code => {
+                const account = companyAccounts.find(a => a.id === code.companyAccountId);
+                return (
+                  <div key={code.companyAccountId} className="bg-white rounded-lg p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                    <img src={code.image} alt={code.name} className="mx-auto sm:mx-0 w-40 h-40 flex-shrink-0" />
+                    <div className="flex-1 space-y-2">
+                      <p className="font-medium text-gray-900">
+                        {t('checkout.transferTo')} {account?.displayName || code.name}
+                      </p>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">{t('checkout.accountName')}:</span>
+                        <span className="text-sm font-medium">{code.accountName}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">{t('checkout.accountNumber')}:</span>
+                        <span className="text-sm font-medium font-mono">{code.accountNo}</span>
+                      </div>
+                      {account?.details.branch && (
+                        <div className="flex justify-between">
+                          <span className="text-sm text-gray-600">{t('checkout.branch')}:</span>
+                          <span className="text-sm font-medium">{account.details.branch}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              <p className="text-sm text-blue-800">
+                {t('orders.paymentQr.reference')}: <span className="font-mono font-medium">{paymentQr.reference}</span>
+                {' · '}
+                {t('orders.paymentQr.amount')}: <span className="font-medium">{formatPrice(paymentQr.amount)}</span>
+              </p>
+            </div>
+
+            <div className="mt-8 text-center">
+              <Button onClick={() => router.push(`/order-success?orderId=${placedOrder.id}`)}>
+                {t('checkout.orderPlaced.continue')}
+              </Button>
+            </div>
+          </div>
+          <Footer />
+        </div>
+      </>
+    );
+  }
+
   if (items.length === 0) {
     return (
       <>
@@ -388,6 +595,59 @@ const CheckoutPage: React.FC = () => {
                       <p className="mt-1 text-sm text-red-600">{errors.shippingAddress.message}</p>
                     )}
                   </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {t('checkout.shipping.region')} *
+                      </label>
+                      {shippingRegions.length > 0 ? (
+                        <select
+                          {...register('region', {
+                            required: t('checkout.shipping.regionRequired'),
+                            onChange: () => setValue('township', '')
+                          })}
+                          className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 ${
+                            errors.region ? 'border-red-300' : 'border-gray-300'
+                          }`}
+                        >
+                          <option value="">{t('checkout.shipping.selectRegion')}</option>
+                          {shippingRegions.map(r => (
+                            <option key={r.region} value={r.region}>{r.region}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        // No rate table yet: any region ships, free of charge
+                        <input
+                          type="text"
+                          {...register('region', { required: t('checkout.shipping.regionRequired') })}
+                          className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 ${
+                            errors.region ? 'border-red-300' : 'border-gray-300'
+                          }`}
+                        />
+                      )}
+                      {errors.region && (
+                        <p className="mt-1 text-sm text-red-600">{errors.region.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {t('checkout.shipping.township')}
+                      </label>
+                      <select
+                        {...register('township')}
+                        disabled={townships.length === 0}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                      >
+                        <option value="">{t('checkout.shipping.otherTownship')}</option>
+                        {townships.map(name => (
+                          <option key={name} value={name}>{name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  {shippingError && (
+                    <p className="text-sm text-red-600">{shippingError}</p>
+                  )}
                 </div>
               </div>
 
@@ -537,20 +797,20 @@ const CheckoutPage: React.FC = () => {
                     {/* Transaction ID */}
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        {t('checkout.transactionId')} *
+                        {t('checkout.transactionId')}
                       </label>
                       <input
                         type="text"
-                        {...register('transactionId', { 
-                          required: paymentType === 'ONLINE_TRANSFER' ? t('checkout.transactionIdRequired') : false 
-                        })}
+                        {...register('transactionId')}
                         className={`w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary-500 focus:border-primary-500 ${
                           errors.transactionId ? 'border-red-300' : 'border-gray-300'
                         }`}
                         placeholder={t('checkout.transactionIdPlaceholder')}
                       />
-                      {errors.transactionId && (
+                      {errors.transactionId ? (
                         <p className="mt-1 text-sm text-red-600">{errors.transactionId.message}</p>
+                      ) : (
+                        <p className="mt-1 text-xs text-gray-500">{t('checkout.transactionIdLater')}</p>
                       )}
                     </div>
 
@@ -633,29 +893,85 @@ const CheckoutPage: React.FC = () => {
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium text-gray-900 truncate">
                           {item.name}
+                          {item.variantLabel && <span className="text-gray-500"> ({item.variantLabel})</span>}
                         </p>
                         <p className="text-sm text-gray-500">
-                          {item.quantity} × {formatPrice(item.price)}
+                          {item.quantity} × {formatPrice(pricing.getUnitPrice(item))}
                         </p>
                       </div>
                       <p className="text-sm font-medium text-gray-900">
-                        {formatPrice(item.price * item.quantity)}
+                        {formatPrice(pricing.getUnitPrice(item) * item.quantity)}
                       </p>
                     </div>
                   ))}
                 </div>
 
+                {/* Promo Code */}
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center">
+                    <Tag className="h-4 w-4 mr-1" />
+                    {t('checkout.coupon.title')}
+                  </label>
+                  {appliedCoupon ? (
+                    <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-md">
+                      <div className="flex items-center text-sm text-green-700">
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        <span className="font-medium">{appliedCoupon.code}</span>
+                        <span className="ml-1">- {t('checkout.coupon.applied')}</span>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleRemoveCoupon}
+                        className="text-sm text-gray-500 hover:text-gray-700"
+                      >
+                        {t('checkout.coupon.remove')}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary-500 focus:border-primary-500 text-sm"
+                        placeholder={t('checkout.coupon.placeholder')}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleApplyCoupon}
+                        disabled={isApplyingCoupon || !couponInput.trim()}
+                      >
+                        {isApplyingCoupon ? t('checkout.coupon.applying') : t('checkout.coupon.apply')}
+                      </Button>
+                    </div>
+                  )}
+                  {couponError && (
+                    <p className="mt-1 text-sm text-red-600">{couponError}</p>
+                  )}
+                </div>
+
                 {/* Order Totals */}
                 <div className="space-y-3 mb-6">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">{t('cart.subtotal')}</span>
                     <span className="font-medium">{formatPrice(calculateSubtotal())}</span>
                   </div>
+                  {calculateDiscount() > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">{t('cart.discount')}</span>
+                      <span className="font-medium text-green-600">-{formatPrice(calculateDiscount())}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">{t('cart.shipping')}</span>
-                    <span className="font-medium text-green-600">
-                      {calculateShipping() === 0 ? 'Free' : formatPrice(calculateShipping())}
-                    </span>
+                    {shippingFee === null ? (
+                      <span className="text-gray-500">{t('checkout.shipping.selectRegion')}</span>
+                    ) : (
+                      <span className={`font-medium ${shippingFee === 0 ? 'text-green-600' : ''}`}>
+                        {shippingFee === 0 ? t('checkout.shipping.free') : formatPrice(shippingFee)}
+                      </span>
+                    )}
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">{t('cart.tax')}</span>
@@ -682,12 +998,6 @@ const CheckoutPage: React.FC = () => {
                 >
                   {isSubmitting ? t('checkout.placingOrder') : t('checkout.placeOrder')}
                 </Button>
-
-                <div className="mt-6 text-center">
-                  <p className="text-sm text-gray-500">
-                    {t('cart.freeShipping')}
-                  </p>
-                </div>
               </div>
             </div>
           </form>
@@ -5,8 +5,9 @@ import { ChevronRight, Star, Truck, Shield, Award } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useCart } from '@/contexts/CartContext';
 import { apiClient } from '@/lib/api';
-import { Product } from '@/types';
+import { Category, Product } from '@/types';
 import ProductCard from '@/components/products/ProductCard';
+import Categories from '@/components/Categories';
 import Button from '@/components/ui/Button';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
@@ -16,6 +17,7 @@ const HomePage: React.FC = () => {
   const { items } = useCart();
   const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [categories, setCategories] = useState<Category[]>([]);
 
   useEffect(() => {
     const fetchFeaturedProducts = async () => {
@@ -35,6 +37,12 @@ const HomePage: React.FC = () => {
     fetchFeaturedProducts();
   }, [locale]);
 
+  useEffect(() => {
+    apiClient.getCategories(locale)
+      .then(response => setCategories(response.data || []))
+      .catch(error => console.error('Failed to fetch categories:', error));
+  }, [locale]);
+
   const features = [
     {
       icon: Truck,
@@ -145,6 +153,8 @@ const HomePage: React.FC = () => {
           </div>
         </section>
 
+        <Categories categories={categories} />
+
         {/* Featured Products Section */}
         <section className="py-16 bg-gray-50">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
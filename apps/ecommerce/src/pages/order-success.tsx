@@ -19,6 +19,7 @@ interface Order {
     id: string;
     quantity: number;
     unitPrice: number;
+    metadata?: { variantLabel?: string } | null; // size chosen for sized products
     product: {
       id: string;
       name_en: string;
@@ -244,6 +245,7 @@ const OrderSuccessPage: React.FC = () => {
                   <div className="flex-1 min-w-0">
                     <h3 className="text-lg font-medium text-gray-900">
                       {getProductName(item.product)}
+                      {item.metadata?.variantLabel && ` (${item.metadata.variantLabel})`}
                     </h3>
                     <p className="text-sm text-gray-500">
                       {t('cart.quantity')}: {item.quantity}
@@ -21,11 +21,13 @@ import { apiClient } from '@/lib/api';
 import Button from '@/components/ui/Button';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
+import { PaymentQrCodes } from '@/types';
 
 interface OrderItem {
   id: string;
   quantity: number;
   unitPrice: number;
+  metadata?: { variantLabel?: string } | null; // size chosen for sized products
   product: {
     id: string;
     name_en: string;
@@ -34,12 +36,41 @@ interface OrderItem {
   };
 }
 
+interface ReturnRequest {
+  id: string;
+  status: 'REQUESTED' | 'APPROVED' | 'REJECTED' | 'RECEIVED';
+  reason: string;
+  note?: string;
+  photos: string[];
+  adminNote?: string;
+  createdAt: string;
+  items: Array<{
+    id: string;
+    orderItemId: string;
+    quantity: number;
+  }>;
+}
+
+interface OrderStatusEvent {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  note?: string | null;
+  createdAt: string;
+}
+
+const RETURN_REASONS = ['DAMAGED_BAG', 'WRONG_ITEM', 'QUALITY_ISSUE', 'PESTS', 'OTHER'];
+const MAX_RETURN_PHOTOS = 5;
+
 interface Order {
   id: string;
   status: string;
   paymentType: string;
   totalAmount: number;
   transactionId: string;
+  reservationExpiresAt?: string | null;
+  paymentRejectedAt?: string | null;
+  paymentRejectionReason?: string | null;
   createdAt: string;
   updatedAt: string;
   shippingAddress: {
@@ -54,6 +85,8 @@ interface Order {
     accountNumber: string;
     accountName: string;
   };
+  returnRequests?: ReturnRequest[];
+  statusEvents?: OrderStatusEvent[];
 }
 
 const OrderTrackingPage: React.FC = () => {
@@ -69,6 +102,14 @@ const OrderTrackingPage: React.FC = () => {
   const [newTransactionId, setNewTransactionId] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+  const [returnReason, setReturnReason] = useState(RETURN_REASONS[0]);
+  const [returnNote, setReturnNote] = useState('');
+  const [returnPhotos, setReturnPhotos] = useState<File[]>([]);
+  const [proofTransactionId, setProofTransactionId] = useState('');
+  const [proofScreenshot, setProofScreenshot] = useState<File | null>(null);
+  const [paymentQr, setPaymentQr] = useState<PaymentQrCodes | null>(null);
 
   useEffect(() => {
     if (id && typeof id === 'string') {
@@ -76,6 +117,23 @@ const OrderTrackingPage: React.FC = () => {
     }
   }, [id]);
 
+  // Transfers still to be paid get QR codes with the exact amount and order reference
+  useEffect(() => {
+    const awaitingTransfer = order?.paymentType === 'ONLINE_TRANSFER' &&
+      (order.status === 'PENDING' || (order.status === 'ON_HOLD' && !!order.paymentRejectedAt));
+    if (!order || !awaitingTransfer) {
+      setPaymentQr(null);
+      return;
+    }
+
+    apiClient.getOrderPaymentQrCodes(order.id)
+      .then(response => setPaymentQr(response.data))
+      .catch((error: any) => {
+        console.error('Failed to load payment QR codes:', error);
+        setPaymentQr(null);
+      });
+  }, [order?.id, order?.status]);
+
   const loadOrder = async (orderId: string) => {
     try {
       const response = await apiClient.getOrder(orderId);
@@ -114,6 +172,12 @@ const OrderTrackingPage: React.FC = () => {
     return t(`orders.statuses.${status}`);
   };
 
+  // When the order last entered a status, from its status history
+  const getStatusDate = (status: string) => {
+    const event = [...(order?.statusEvents || [])].reverse().find(e => e.toStatus === status);
+    return event ? formatDate(event.createdAt) : null;
+  };
+
   const getPaymentTypeText = (paymentType: string) => {
     return paymentType === 'COD' ? t('checkout.cod') : t('checkout.onlineTransfer');
   };
@@ -160,12 +224,45 @@ const OrderTrackingPage: React.FC = () => {
     return order && ['PENDING', 'PROCESSING'].includes(order.status) && order.paymentType === 'ONLINE_TRANSFER';
   };
 
+  // An admin rejected the transfer proof; the order is on hold until new proof is sent
+  const isPaymentRejected = () => {
+    return order && order.status === 'ON_HOLD' && order.paymentType === 'ONLINE_TRANSFER' && !!order.paymentRejectedAt;
+  };
+
   const canCancelOrder = () => {
     return order && ['PENDING', 'PROCESSING'].includes(order.status);
   };
 
+  // Bags already in a pending, approved or received return request
+  const getRequestedQuantity = (orderItemId: string) => {
+    return (order?.returnRequests || [])
+      .filter(request => request.status !== 'REJECTED')
+      .flatMap(request => request.items)
+      .filter(item => item.orderItemId === orderItemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+  };
+
+  const getReturnableQuantity = (item: OrderItem) => {
+    return Math.max(0, item.quantity - getRequestedQuantity(item.id));
+  };
+
   const canReturnOrder = () => {
-    return order && order.status === 'DELIVERED';
+    return order && order.status === 'DELIVERED' && order.items.some(item => getReturnableQuantity(item) > 0);
+  };
+
+  const getReturnStatusColor = (status: ReturnRequest['status']) => {
+    switch (status) {
+      case 'REQUESTED':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'APPROVED':
+        return 'bg-blue-100 text-blue-800';
+      case 'REJECTED':
+        return 'bg-red-100 text-red-800';
+      case 'RECEIVED':
+        return 'bg-green-100 text-green-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
   };
 
   const handleEditTransaction = async () => {
@@ -176,7 +273,8 @@ const OrderTrackingPage: React.FC = () => {
 
     try {
       await apiClient.updateOrderTransaction(order.id, newTransactionId);
-      setOrder({ ...order, transactionId: newTransactionId });
+      // Sending a transaction ID stops the reservation from expiring
+      setOrder({ ...order, transactionId: newTransactionId, reservationExpiresAt: null });
       setIsEditingTransaction(false);
       setMessage({ type: 'success', text: t('orders.transactionUpdated') });
     } catch (error: any) {
@@ -187,6 +285,46 @@ const OrderTrackingPage: React.FC = () => {
     }
   };
 
+  const handleResubmitProof = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || (!proofTransactionId.trim() && !proofScreenshot)) {
+      setMessage({ type: 'error', text: t('orders.paymentRejected.proofRequired') });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setMessage(null);
+
+    try {
+      let paymentScreenshot: string | undefined;
+      if (proofScreenshot) {
+        const upload = await apiClient.uploadFile(proofScreenshot);
+        paymentScreenshot = upload.image.url;
+      }
+
+      const response = await apiClient.submitPaymentProof(order.id, {
+        transactionId: proofTransactionId.trim() || undefined,
+        paymentScreenshot
+      });
+      setOrder({
+        ...order,
+        status: response.data.status,
+        transactionId: response.data.transactionId,
+        paymentRejectedAt: null,
+        paymentRejectionReason: null
+      });
+      setNewTransactionId(response.data.transactionId || '');
+      setProofTransactionId('');
+      setProofScreenshot(null);
+      setMessage({ type: 'success', text: t('orders.paymentRejected.resubmitted') });
+    } catch (error: any) {
+      console.error('Failed to resubmit payment proof:', error);
+      setMessage({ type: 'error', text: error.response?.data?.message || t('orders.updateFailed') });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleCancelOrder = async () => {
     if (!order) return;
 
@@ -207,21 +345,48 @@ const OrderTrackingPage: React.FC = () => {
     }
   };
 
-  const handleReturnOrder = async () => {
+  const resetReturnForm = () => {
+    setShowReturnForm(false);
+    setReturnQuantities({});
+    setReturnReason(RETURN_REASONS[0]);
+    setReturnNote('');
+    setReturnPhotos([]);
+  };
+
+  const handleReturnPhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    setReturnPhotos(files.slice(0, MAX_RETURN_PHOTOS));
+  };
+
+  const handleSubmitReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
     if (!order) return;
 
-    if (!confirm(t('orders.confirmReturn'))) return;
+    const items = Object.entries(returnQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+    if (items.length === 0) {
+      setMessage({ type: 'error', text: t('orders.returnForm.noItemsSelected') });
+      return;
+    }
 
     setIsSubmitting(true);
     setMessage(null);
 
     try {
-      await apiClient.returnOrder(order.id);
-      setOrder({ ...order, status: 'RETURNED' });
+      await apiClient.createReturnRequest(order.id, {
+        items,
+        reason: returnReason,
+        note: returnNote.trim() || undefined,
+        photos: returnPhotos
+      });
+      resetReturnForm();
+      await loadOrder(order.id);
       setMessage({ type: 'success', text: t('orders.returnRequested') });
     } catch (error: any) {
       console.error('Failed to request return:', error);
-      setMessage({ type: 'error', text: error.response?.data?.error || t('orders.returnFailed') });
+      setMessage({ type: 'error', text: error.response?.data?.message || t('orders.returnFailed') });
     } finally {
       setIsSubmitting(false);
     }
@@ -326,6 +491,9 @@ const OrderTrackingPage: React.FC = () => {
                 <div>
                   <p className="font-medium text-gray-900">{t('orders.statuses.PENDING')}</p>
                   <p className="text-sm text-gray-500">{t('orders.statuses.PENDING_DESC')}</p>
+                  {getStatusDate('PENDING') && (
+                    <p className="text-xs text-gray-400">{getStatusDate('PENDING')}</p>
+                  )}
                 </div>
               </div>
 
@@ -340,6 +508,9 @@ const OrderTrackingPage: React.FC = () => {
                 <div>
                   <p className="font-medium text-gray-900">{t('orders.statuses.PROCESSING')}</p>
                   <p className="text-sm text-gray-500">{t('orders.statuses.PROCESSING_DESC')}</p>
+                  {getStatusDate('PROCESSING') && (
+                    <p className="text-xs text-gray-400">{getStatusDate('PROCESSING')}</p>
+                  )}
                 </div>
               </div>
 
@@ -354,6 +525,9 @@ const OrderTrackingPage: React.FC = () => {
                 <div>
                   <p className="font-medium text-gray-900">{t('orders.statuses.SHIPPED')}</p>
                   <p className="text-sm text-gray-500">{t('orders.statuses.SHIPPED_DESC')}</p>
+                  {getStatusDate('SHIPPED') && (
+                    <p className="text-xs text-gray-400">{getStatusDate('SHIPPED')}</p>
+                  )}
                 </div>
               </div>
 
@@ -368,11 +542,40 @@ const OrderTrackingPage: React.FC = () => {
                 <div>
                   <p className="font-medium text-gray-900">{t('orders.statuses.DELIVERED')}</p>
                   <p className="text-sm text-gray-500">{t('orders.statuses.DELIVERED_DESC')}</p>
+                  {getStatusDate('DELIVERED') && (
+                    <p className="text-xs text-gray-400">{getStatusDate('DELIVERED')}</p>
+                  )}
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Status History */}
+          {order.statusEvents && order.statusEvents.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+              <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+                <Calendar className="h-5 w-5 mr-2" />
+                {t('orders.statusHistory')}
+              </h2>
+              <ol className="space-y-4">
+                {[...order.statusEvents].reverse().map((event) => (
+                  <li key={event.id} className="flex items-start space-x-4">
+                    <div className="flex-shrink-0 mt-0.5">
+                      {getStatusIcon(event.toStatus)}
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-900">{getStatusText(event.toStatus)}</p>
+                      <p className="text-sm text-gray-500">{formatDate(event.createdAt)}</p>
+                      {event.note && (
+                        <p className="text-sm text-gray-600 mt-1">{event.note}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Order Details */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
             {/* Shipping Information */}
@@ -397,6 +600,68 @@ const OrderTrackingPage: React.FC = () => {
               <div className="space-y-2">
                 <p><span className="font-medium">{t('orders.paymentMethod')}:</span> {getPaymentTypeText(order.paymentType)}</p>
                 <p><span className="font-medium">{t('orders.totalAmount')}:</span> {formatPrice(Number(order.totalAmount))}</p>
+                {paymentQr && paymentQr.codes.length > 0 && (
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm space-y-3">
+                    <p className="font-medium text-blue-900">{t('orders.paymentQr.title')}</p>
+                    <p className="text-blue-800">{t('orders.paymentQr.instructions')}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {paymentQr.codes.map(code => (
+                        <div key={code.companyAccountId} className="bg-white rounded-md p-3 text-center">
+                          <img src={code.image} alt={code.name} className="mx-auto w-40 h-40" />
+                          <p className="font-medium text-gray-900">{code.name}</p>
+                          <p className="text-gray-600">{code.accountName}</p>
+                          <p className="font-mono text-gray-600">{code.accountNo}</p>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-blue-800">
+                      {t('orders.paymentQr.reference')}: <span className="font-mono font-medium">{paymentQr.reference}</span>
+                      {' · '}
+                      {t('orders.paymentQr.amount')}: <span className="font-medium">{formatPrice(paymentQr.amount)}</span>
+                    </p>
+                  </div>
+                )}
+                {order.status === 'PENDING' && order.reservationExpiresAt && (
+                  <div className="flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                    <Clock className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>{t('orders.reservation.payBefore').replace('{{date}}', formatDate(order.reservationExpiresAt))}</span>
+                  </div>
+                )}
+                {isPaymentRejected() && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm space-y-3">
+                    <div className="text-red-800">
+                      <p className="font-medium">{t('orders.paymentRejected.title')}</p>
+                      {order.paymentRejectionReason && (
+                        <p>{t('orders.paymentRejected.reason')}: {order.paymentRejectionReason}</p>
+                      )}
+                      <p>{t('orders.paymentRejected.instructions')}</p>
+                    </div>
+                    <form onSubmit={handleResubmitProof} className="space-y-2">
+                      <input
+                        type="text"
+                        value={proofTransactionId}
+                        onChange={(e) => setProofTransactionId(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        placeholder={t('orders.transactionIdPlaceholder')}
+                      />
+                      <div>
+                        <label className="block text-gray-700 mb-1" htmlFor="payment-proof-screenshot">
+                          {t('orders.paymentRejected.screenshot')}
+                        </label>
+                        <input
+                          id="payment-proof-screenshot"
+                          type="file"
+                          accept="image/jpeg,image/png,image/webp"
+                          onChange={(e) => setProofScreenshot(e.target.files?.[0] || null)}
+                          className="block w-full text-sm text-gray-700"
+                        />
+                      </div>
+                      <Button type="submit" size="sm" disabled={isSubmitting}>
+                        {t('orders.paymentRejected.resubmit')}
+                      </Button>
+                    </form>
+                  </div>
+                )}
                 {order.paymentType === 'ONLINE_TRANSFER' && (
                   <div>
                     <p><span className="font-medium">{t('orders.transactionId')}:</span></p>
@@ -471,6 +736,7 @@ const OrderTrackingPage: React.FC = () => {
                   <div className="flex-1 min-w-0">
                     <h3 className="text-lg font-medium text-gray-900">
                       {getProductName(item.product)}
+                      {item.metadata?.variantLabel && ` (${item.metadata.variantLabel})`}
                     </h3>
                     <p className="text-sm text-gray-500">
                       {t('cart.quantity')}: {item.quantity}
@@ -490,6 +756,156 @@ const OrderTrackingPage: React.FC = () => {
             </div>
           </div>
 
+          {/* Return Requests */}
+          {order.returnRequests && order.returnRequests.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+              <h2 className="text-xl font-semibold text-gray-900 mb-6">
+                {t('orders.returnRequests.title')}
+              </h2>
+
+              <div className="space-y-4">
+                {order.returnRequests.map((request) => (
+                  <div key={request.id} className="p-4 border border-gray-200 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-sm text-gray-500">
+                        {t('orders.returnRequests.submittedOn')} {formatDate(request.createdAt)}
+                      </p>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${getReturnStatusColor(request.status)}`}>
+                        {t(`orders.returnRequests.statuses.${request.status}`)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-900">
+                      <span className="font-medium">{t('orders.returnForm.reason')}:</span> {t(`orders.returnForm.reasons.${request.reason}`)}
+                    </p>
+                    <ul className="mt-2 text-sm text-gray-700 list-disc list-inside">
+                      {request.items.map((returnItem) => {
+                        const orderItem = order.items.find(item => item.id === returnItem.orderItemId);
+                        return (
+                          <li key={returnItem.id}>
+                            {orderItem ? getProductName(orderItem.product) : returnItem.orderItemId} × {returnItem.quantity}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    {request.note && (
+                      <p className="mt-2 text-sm text-gray-600">{request.note}</p>
+                    )}
+                    {request.photos.length > 0 && (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {request.photos.map((photo) => (
+                          <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                            <img src={photo} alt="" className="w-16 h-16 object-cover rounded border border-gray-200" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {request.adminNote && (
+                      <p className="mt-3 text-sm text-gray-700 bg-gray-50 p-3 rounded">
+                        <span className="font-medium">{t('orders.returnRequests.adminNote')}:</span> {request.adminNote}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Return Request Form */}
+          {showReturnForm && canReturnOrder() && (
+            <form onSubmit={handleSubmitReturn} className="bg-white rounded-lg shadow-sm p-6 mb-8 space-y-6">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {t('orders.returnForm.title')}
+              </h2>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-3">{t('orders.returnForm.selectItems')}</p>
+                <div className="space-y-3">
+                  {order.items.filter(item => getReturnableQuantity(item) > 0).map((item) => (
+                    <div key={item.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                      <span className="text-gray-900">
+                        {getProductName(item.product)}
+                        {item.metadata?.variantLabel && ` (${item.metadata.variantLabel})`}
+                      </span>
+                      <div className="flex items-center space-x-2">
+                        <label className="text-sm text-gray-500" htmlFor={`return-${item.id}`}>
+                          {t('orders.returnForm.quantityToReturn')}
+                        </label>
+                        <input
+                          id={`return-${item.id}`}
+                          type="number"
+                          min="0"
+                          max={getReturnableQuantity(item)}
+                          value={returnQuantities[item.id] || 0}
+                          onChange={(e) => setReturnQuantities({
+                            ...returnQuantities,
+                            [item.id]: Math.min(getReturnableQuantity(item), Math.max(0, parseInt(e.target.value) || 0))
+                          })}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        />
+                        <span className="text-sm text-gray-500">/ {getReturnableQuantity(item)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="return-reason">
+                  {t('orders.returnForm.reason')}
+                </label>
+                <select
+                  id="return-reason"
+                  value={returnReason}
+                  onChange={(e) => setReturnReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                >
+                  {RETURN_REASONS.map((reason) => (
+                    <option key={reason} value={reason}>{t(`orders.returnForm.reasons.${reason}`)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="return-note">
+                  {t('orders.returnForm.note')}
+                </label>
+                <textarea
+                  id="return-note"
+                  rows={3}
+                  maxLength={1000}
+                  value={returnNote}
+                  onChange={(e) => setReturnNote(e.target.value)}
+                  placeholder={t('orders.returnForm.notePlaceholder')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="return-photos">
+                  {t('orders.returnForm.photos')}
+                </label>
+                <input
+                  id="return-photos"
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={handleReturnPhotosChange}
+                  className="block w-full text-sm text-gray-700"
+                />
+                <p className="mt-1 text-xs text-gray-500">{t('orders.returnForm.photosHint')}</p>
+              </div>
+
+              <div className="flex space-x-3">
+                <Button type="submit" disabled={isSubmitting}>
+                  {t('orders.returnForm.submit')}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetReturnForm}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </form>
+          )}
+
           {/* Order Actions */}
           <div className="bg-white rounded-lg shadow-sm p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">
@@ -509,9 +925,9 @@ const OrderTrackingPage: React.FC = () => {
                 </Button>
               )}
 
-              {canReturnOrder() && (
+              {canReturnOrder() && !showReturnForm && (
                 <Button
-                  onClick={handleReturnOrder}
+                  onClick={() => setShowReturnForm(true)}
                   variant="outline"
                   disabled={isSubmitting}
                   className="flex items-center"
@@ -22,6 +22,7 @@ interface OrderItem {
   id: string;
   quantity: number;
   unitPrice: number;
+  metadata?: { variantLabel?: string } | null; // size chosen for sized products
   product: {
     id: string;
     name_en: string;
@@ -317,6 +318,7 @@ const OrdersPage: React.FC = () => {
                           <div className="min-w-0">
                             <p className="text-sm font-medium text-gray-900 truncate">
                               {getProductName(item.product)}
+                              {item.metadata?.variantLabel && ` (${item.metadata.variantLabel})`}
                             </p>
                             <p className="text-xs text-gray-500">
                               {t('cart.quantity')}: {item.quantity}
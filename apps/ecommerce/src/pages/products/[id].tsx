@@ -6,11 +6,15 @@ import { useTranslation } from 'react-i18next';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useCart } from '@/contexts/CartContext';
 import { apiClient } from '@/lib/api';
+import { PriceBand, ProductAttributes, ProductRating, ProductVariant } from '@/types';
 import { getImageUrl } from '@/utils/imageUrl';
 import { Button } from '@/components/ui/Button';
 import Card from '@/components/ui/Card';
 import Badge from '@/components/ui/Badge';
 import ProductCard from '@/components/products/ProductCard';
+import PriceBands from '@/components/products/PriceBands';
+import ProductReviews from '@/components/products/ProductReviews';
+import StarRating from '@/components/products/StarRating';
 import Header from '@/components/layout/Header';
 import { 
   Heart, 
@@ -21,7 +25,6 @@ import {
   Truck, 
   Shield, 
   RotateCcw,
-  Star,
   CheckCircle,
   AlertCircle
 } from 'lucide-react';
@@ -37,11 +40,17 @@ interface Product {
   description_my?: string;
   images?: string[];
   price: number;
+  compareAtPrice?: number | null;
+  saleEndsAt?: string | null;
+  priceBands?: PriceBand[];
   disabled: boolean;
   outOfStock: boolean;
   allowSellWithoutStock: boolean;
+  attributes?: ProductAttributes;
   metadata?: any;
   totalStock?: number;
+  variants?: ProductVariant[];
+  rating?: ProductRating;
   createdAt: string;
   updatedAt: string;
 }
@@ -57,15 +66,43 @@ interface RelatedProduct {
   description_my?: string;
   images?: string[];
   price: number;
+  compareAtPrice?: number | null;
+  saleEndsAt?: string | null;
   disabled: boolean;
   outOfStock: boolean;
   allowSellWithoutStock: boolean;
+  attributes?: ProductAttributes;
   metadata?: any;
   totalStock?: number;
+  variants?: ProductVariant[];
+  rating?: ProductRating;
   createdAt: string;
   updatedAt: string;
 }
 
+// Restaurants order 20 bags and more at bulk prices
+const MAX_QUANTITY = 100;
+
+// Rice attributes first with translated labels, then any other details.
+// The chosen size's bag weight replaces the product's.
+const getSpecifications = (product: Product, variant: ProductVariant | null, t: (key: string) => string) => {
+  const attributes = product.attributes;
+  const weightKg = variant?.weightKg ?? attributes?.weightKg;
+  const rows = [
+    { label: t('products.variety'), value: attributes?.variety },
+    { label: t('products.grade'), value: attributes?.grade },
+    { label: t('products.weight'), value: weightKg ? `${weightKg} kg` : null },
+    { label: t('products.origin'), value: attributes?.origin },
+    { label: t('products.harvestDate'), value: attributes?.harvestDate },
+    { label: t('products.packageType'), value: attributes?.packageType },
+    ...Object.entries(product.metadata || {}).map(([key, value]) => ({
+      label: key.replace(/([A-Z])/g, ' $1').trim(),
+      value: value === null || value === undefined ? null : String(value)
+    }))
+  ];
+  return rows.filter(row => row.value);
+};
+
 const ProductDetailPage: React.FC = () => {
   const router = useRouter();
   const { id } = router.query;
@@ -77,12 +114,15 @@ const ProductDetailPage: React.FC = () => {
   const [relatedProducts, setRelatedProducts] = useState<RelatedProduct[]>([]);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [quantity, setQuantity] = useState(1);
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [isFavorite, setIsFavorite] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [imageErrors, setImageErrors] = useState<Set<number>>(new Set());
 
+  const selectedVariant = product?.variants?.find(variant => variant.id === selectedVariantId) || null;
+
   useEffect(() => {
     if (id) {
       loadProduct();
@@ -100,6 +140,10 @@ const ProductDetailPage: React.FC = () => {
       
       if (response.success && response.data) {
         setProduct(response.data);
+        // Start on the first size in stock
+        const variants = response.data.variants || [];
+        const firstVariant = variants.find(variant => variant.stockOnHand > 0) || variants[0];
+        setSelectedVariantId(firstVariant ? firstVariant.id : null);
         await loadRelatedProducts(response.data);
       } else {
         setError(t('products.productNotFound'));
@@ -115,7 +159,7 @@ const ProductDetailPage: React.FC = () => {
   const loadRelatedProducts = async (currentProduct: Product) => {
     try {
       // Get products with similar variety or category
-      const variety = currentProduct.metadata?.variety;
+      const variety = currentProduct.attributes?.variety || undefined;
       const response = await apiClient.getProducts({
         page: 1,
         limit: 4,
@@ -137,7 +181,7 @@ const ProductDetailPage: React.FC = () => {
     
     setIsAddingToCart(true);
     try {
-      await addToCart(product.id, quantity);
+      addToCart(product, quantity, selectedVariant || undefined);
       // Show success message or toast
     } catch (error) {
       console.error('Error adding to cart:', error);
@@ -147,7 +191,7 @@ const ProductDetailPage: React.FC = () => {
   };
 
   const handleQuantityChange = (newQuantity: number) => {
-    if (newQuantity >= 1 && newQuantity <= 10) {
+    if (newQuantity >= 1 && newQuantity <= MAX_QUANTITY) {
       setQuantity(newQuantity);
     }
   };
@@ -231,6 +275,12 @@ const ProductDetailPage: React.FC = () => {
     );
   }
 
+  const specifications = getSpecifications(product, selectedVariant, t);
+  // The chosen size's price, with the regular price to compare at during a sale
+  const pricing = selectedVariant || product;
+  const isOutOfStock = product.outOfStock ||
+    (!!selectedVariant && selectedVariant.stockOnHand <= 0 && !product.allowSellWithoutStock);
+
   return (
     <>
       <Head>
@@ -328,9 +378,17 @@ const ProductDetailPage: React.FC = () => {
                 <h1 className="text-3xl font-bold text-gray-900 mb-2">
                   {product.name}
                 </h1>
-                {product.sku && (
+                {product.rating && product.rating.count > 0 && (
+                  <a href="#reviews" className="inline-flex items-center space-x-2 mb-2">
+                    <StarRating rating={product.rating.average || 0} />
+                    <span className="text-sm text-gray-600">
+                      {t('reviews.basedOn', { count: product.rating.count })}
+                    </span>
+                  </a>
+                )}
+                {(selectedVariant?.sku || product.sku) && (
                   <p className="text-sm text-gray-600">
-                    {t('products.sku')}: {product.sku}
+                    {t('products.sku')}: {selectedVariant?.sku || product.sku}
                   </p>
                 )}
               </div>
@@ -338,14 +396,24 @@ const ProductDetailPage: React.FC = () => {
               {/* Price */}
               <div className="flex items-center space-x-4">
                 <span className="text-4xl font-bold text-primary-600">
-                  {formatPrice(product.price)}
+                  {formatPrice(pricing.price)}
                 </span>
-                {product.outOfStock && (
+                {pricing.compareAtPrice && (
+                  <span className="text-xl text-gray-500 line-through">
+                    {formatPrice(pricing.compareAtPrice)}
+                  </span>
+                )}
+                {isOutOfStock && (
                   <Badge variant="error" size="lg">
                     {t('products.outOfStock')}
                   </Badge>
                 )}
               </div>
+              {pricing.compareAtPrice && pricing.saleEndsAt && (
+                <p className="text-sm text-red-600">
+                  {t('products.saleEnds', { date: new Date(pricing.saleEndsAt).toLocaleString(locale === 'my' ? 'my-MM' : 'en-US') })}
+                </p>
+              )}
 
               {/* Product Description */}
               {product.description && (
@@ -356,20 +424,20 @@ const ProductDetailPage: React.FC = () => {
                 </div>
               )}
 
-              {/* Product Metadata */}
-              {product.metadata && (
+              {/* Product Specifications */}
+              {specifications.length > 0 && (
                 <div className="bg-gray-50 rounded-lg p-4">
                   <h3 className="font-semibold text-gray-900 mb-3">
                     {t('products.specifications')}
                   </h3>
                   <div className="grid grid-cols-2 gap-3 text-sm">
-                    {Object.entries(product.metadata).map(([key, value]) => (
-                      <div key={key} className="flex justify-between">
+                    {specifications.map(({ label, value }) => (
+                      <div key={label} className="flex justify-between">
                         <span className="text-gray-600 capitalize">
-                          {key.replace(/([A-Z])/g, ' $1').trim()}:
+                          {label}:
                         </span>
                         <span className="font-medium text-gray-900">
-                          {String(value)}
+                          {value}
                         </span>
                       </div>
                     ))}
@@ -377,6 +445,39 @@ const ProductDetailPage: React.FC = () => {
                 </div>
               )}
 
+              {/* Size */}
+              {product.variants && product.variants.length > 0 && (
+                <div>
+                  <span className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('products.size')}:
+                  </span>
+                  <div className="flex flex-wrap gap-2">
+                    {product.variants.map(variant => (
+                      <button
+                        key={variant.id}
+                        onClick={() => setSelectedVariantId(variant.id)}
+                        className={`px-4 py-2 rounded-lg border-2 text-left ${
+                          selectedVariantId === variant.id
+                            ? 'border-primary-500 bg-primary-50'
+                            : 'border-gray-200 hover:border-gray-300'
+                        } ${variant.stockOnHand <= 0 ? 'opacity-60' : ''}`}
+                      >
+                        <span className="block font-medium text-gray-900">{variant.label}</span>
+                        <span className="block text-sm text-gray-600">
+                          {formatPrice(variant.price)}
+                          {variant.compareAtPrice && (
+                            <span className="ml-1 text-xs text-gray-400 line-through">{formatPrice(variant.compareAtPrice)}</span>
+                          )}
+                        </span>
+                        {variant.stockOnHand <= 0 && (
+                          <span className="block text-xs text-red-600">{t('products.outOfStock')}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Quantity & Add to Cart */}
               <div className="space-y-4">
                 <div className="flex items-center space-x-4">
@@ -396,7 +497,7 @@ const ProductDetailPage: React.FC = () => {
                     </span>
                     <button
                       onClick={() => handleQuantityChange(quantity + 1)}
-                      disabled={quantity >= 10}
+                      disabled={quantity >= MAX_QUANTITY}
                       className="p-2 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <Plus className="w-4 h-4" />
@@ -404,10 +505,12 @@ const ProductDetailPage: React.FC = () => {
                   </div>
                 </div>
 
+                <PriceBands bands={pricing.priceBands || []} quantity={quantity} className="max-w-sm" />
+
                 <div className="flex space-x-3">
                   <Button
                     onClick={handleAddToCart}
-                    disabled={product.outOfStock || isAddingToCart}
+                    disabled={isOutOfStock || isAddingToCart}
                     className="flex-1"
                     size="lg"
                   >
@@ -478,6 +581,11 @@ const ProductDetailPage: React.FC = () => {
             </div>
           </div>
 
+          {/* Reviews */}
+          <div id="reviews">
+            <ProductReviews productId={product.id} />
+          </div>
+
           {/* Related Products */}
           {relatedProducts.length > 0 && (
             <div className="mb-12">
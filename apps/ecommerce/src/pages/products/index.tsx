@@ -4,13 +4,53 @@ import { useRouter } from 'next/router';
 import { Search, Filter, SortAsc, Grid, List } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { apiClient } from '@/lib/api';
-import { Product, ProductFilters } from '@/types';
+import { Category, Product, ProductFacetAttribute, ProductFacetValue, ProductFilters } from '@/types';
 import ProductCard from '@/components/products/ProductCard';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
 
+// Attribute filters shown as selects, with options and counts from the list facets
+const FACET_FILTERS: Array<{ key: ProductFacetAttribute & keyof ProductFilters; label: string; unit?: string }> = [
+  { key: 'variety', label: 'products.filters.variety' },
+  { key: 'weightKg', label: 'products.filters.weight', unit: 'kg' },
+  { key: 'grade', label: 'products.filters.grade' },
+  { key: 'origin', label: 'products.filters.origin' },
+];
+
+const defaultFilters: ProductFilters = {
+  search: '',
+  category: '',
+  variety: '',
+  weightKg: '',
+  grade: '',
+  origin: '',
+  priceMin: undefined,
+  priceMax: undefined,
+  inStock: false,
+  sortBy: 'newest',
+};
+
+const filtersFromQuery = (query: Record<string, string | string[] | undefined>): ProductFilters => {
+  const filters: ProductFilters = { ...defaultFilters };
+
+  Object.keys(query).forEach((key) => {
+    const value = query[key];
+    if (typeof value === 'string') {
+      if (key === 'priceMin' || key === 'priceMax') {
+        filters[key] = parseFloat(value);
+      } else if (key === 'inStock') {
+        filters[key] = value === 'true';
+      } else {
+        (filters as any)[key] = value;
+      }
+    }
+  });
+
+  return filters;
+};
+
 const ProductsPage: React.FC = () => {
   const router = useRouter();
   const { t, i18n } = useTranslation();
@@ -22,15 +62,10 @@ const ProductsPage: React.FC = () => {
   const [totalProducts, setTotalProducts] = useState(0);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showFilters, setShowFilters] = useState(false);
+  const [facets, setFacets] = useState<Partial<Record<ProductFacetAttribute, ProductFacetValue[]>>>({});
+  const [categories, setCategories] = useState<Category[]>([]);
 
-  const [filters, setFilters] = useState<ProductFilters>({
-    search: '',
-    variety: '',
-    priceMin: undefined,
-    priceMax: undefined,
-    inStock: false,
-    sortBy: 'newest',
-  });
+  const [filters, setFilters] = useState<ProductFilters>(defaultFilters);
 
   // Debounced search state to prevent too many API calls
   const [debouncedSearch, setDebouncedSearch] = useState('');
@@ -61,7 +96,11 @@ const ProductsPage: React.FC = () => {
         
         // Add filters to params
         if (debouncedSearch) params.search = debouncedSearch;
+        if (filters.category) params.category = filters.category;
         if (filters.variety) params.variety = filters.variety;
+        if (filters.weightKg) params.weightKg = filters.weightKg;
+        if (filters.grade) params.grade = filters.grade;
+        if (filters.origin) params.origin = filters.origin;
         if (filters.priceMin !== undefined) params.priceMin = filters.priceMin;
         if (filters.priceMax !== undefined) params.priceMax = filters.priceMax;
         if (filters.inStock) params.inStock = filters.inStock;
@@ -73,6 +112,7 @@ const ProductsPage: React.FC = () => {
         setProducts(response.data);
         setTotalPages(response.pagination.totalPages);
         setTotalProducts(response.pagination.total);
+        setFacets(response.facets || {});
       } catch (error) {
         console.error('Failed to load products from API:', error);
         // No fallback – show empty state
@@ -85,29 +125,33 @@ const ProductsPage: React.FC = () => {
     };
 
     loadProducts();
-  }, [currentPage, debouncedSearch, filters.variety, filters.priceMin, filters.priceMax, filters.inStock, filters.sortBy, locale]);
+  }, [currentPage, debouncedSearch, filters.category, filters.variety, filters.weightKg, filters.grade, filters.origin, filters.priceMin, filters.priceMax, filters.inStock, filters.sortBy, locale]);
 
-  // Load filters from URL on mount only
   useEffect(() => {
-    const { query } = router;
-    const newFilters: ProductFilters = { ...filters };
-    
-    Object.keys(query).forEach((key) => {
-      const value = query[key];
-      if (typeof value === 'string') {
-        if (key === 'priceMin' || key === 'priceMax') {
-          newFilters[key] = parseFloat(value);
-        } else if (key === 'inStock') {
-          newFilters[key] = value === 'true';
-        } else {
-          (newFilters as any)[key] = value;
-        }
-      }
-    });
+    apiClient.getCategories(locale)
+      .then(response => setCategories(response.data || []))
+      .catch(error => console.error('Failed to load categories:', error));
+  }, [locale]);
 
-    setFilters(newFilters);
+  // Load filters from URL on mount only
+  useEffect(() => {
+    setFilters(filtersFromQuery(router.query));
   }, []); // Only run on mount
 
+  // The header search box links here again with a new search or suggestion;
+  // the shallow URL updates below come from this page's own filters
+  useEffect(() => {
+    const handleRouteChange = (url: string, { shallow }: { shallow: boolean }) => {
+      if (shallow) return;
+      const params = new URLSearchParams(url.split('?')[1] || '');
+      setFilters(filtersFromQuery(Object.fromEntries(params.entries())));
+      setCurrentPage(1);
+    };
+
+    router.events.on('routeChangeComplete', handleRouteChange);
+    return () => router.events.off('routeChangeComplete', handleRouteChange);
+  }, [router.events]);
+
   // Update URL when filters change (debounced)
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -132,14 +176,7 @@ const ProductsPage: React.FC = () => {
 
 
   const clearFilters = () => {
-    setFilters({
-      search: '',
-      variety: '',
-      priceMin: undefined,
-      priceMax: undefined,
-      inStock: false,
-      sortBy: 'newest',
-    });
+    setFilters(defaultFilters);
     setCurrentPage(1);
   };
 
@@ -148,26 +185,20 @@ const ProductsPage: React.FC = () => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const defaultVarieties = [
-    'Paw San',
-    'Sinthukha',
-    'Manawthukha',
-    'Ayeyarmin',
-    'Ngasein',
-    'Emata',
-    'Red Rice',
-    'Kyauknyin',
-    '90-Days',
-  ];
-
-  const envVarieties = (process.env.NEXT_PUBLIC_RICE_VARIETIES || '')
-    .split(',')
-    .map(v => v.trim())
-    .filter(Boolean);
-
-  const riceVarieties = envVarieties.length > 0 ? envVarieties : defaultVarieties;
+  // Subcategories are listed under their parent, indented
+  const getCategoryOptions = (nodes: Category[], depth = 0): Array<{ category: Category; depth: number }> =>
+    nodes.flatMap(category => [{ category, depth }, ...getCategoryOptions(category.children || [], depth + 1)]);
+
+  // Keep the selected value listed even when no product matches it any more
+  const getFacetOptions = (key: ProductFacetAttribute & keyof ProductFilters): ProductFacetValue[] => {
+    const options = facets[key] || [];
+    const selected = filters[key];
+    if (selected && !options.some(option => String(option.value).toLowerCase() === String(selected).toLowerCase())) {
+      return [{ value: selected, count: 0 }, ...options];
+    }
+    return options;
+  };
 
-  
 
   return (
     <>
@@ -226,24 +257,52 @@ const ProductsPage: React.FC = () => {
                     </div>
                   </div>
 
-                  {/* Variety */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      {t('products.filters.variety')}
-                    </label>
-                    <select
-                      value={filters.variety || ''}
-                      onChange={(e) => handleFilterChange('variety', e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
-                    >
-                      <option value="">All Varieties</option>
-                      {riceVarieties.map((variety) => (
-                        <option key={variety} value={variety}>
-                          {variety}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+                  {/* Category */}
+                  {categories.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {t('products.filters.category')}
+                      </label>
+                      <select
+                        value={filters.category || ''}
+                        onChange={(e) => handleFilterChange('category', e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="">{t('products.filters.all')}</option>
+                        {getCategoryOptions(categories).map(({ category, depth }) => (
+                          <option key={category.id} value={category.slug}>
+                            {'\u00a0\u00a0'.repeat(depth)}{category.name} ({category.productCount})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {/* Attributes */}
+                  {FACET_FILTERS.map(({ key, label, unit }) => {
+                    const options = getFacetOptions(key);
+                    if (options.length === 0) return null;
+
+                    return (
+                      <div key={key}>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          {t(label)}
+                        </label>
+                        <select
+                          value={filters[key] || ''}
+                          onChange={(e) => handleFilterChange(key, e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        >
+                          <option value="">{t('products.filters.all')}</option>
+                          {options.map((option) => (
+                            <option key={option.value} value={String(option.value)}>
+                              {option.value}{unit ? ` ${unit}` : ''} ({option.count})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
 
                   
 
@@ -330,6 +389,7 @@ const ProductsPage: React.FC = () => {
                         <option value="priceLow">{t('products.sort.priceLow')}</option>
                         <option value="priceHigh">{t('products.sort.priceHigh')}</option>
                         <option value="name">{t('products.sort.name')}</option>
+                        <option value="rating">{t('products.sort.rating')}</option>
                         <option value="popularity">{t('products.sort.popularity')}</option>
                       </select>
                     </div>
@@ -1,3 +1,12 @@
+export interface ProductAttributes {
+  variety: string | null;
+  grade: string | null;
+  weightKg: number | null;
+  origin: string | null;
+  harvestDate: string | null; // YYYY-MM-DD
+  packageType: string | null;
+}
+
 export interface Product {
   id: string;
   sku?: string;
@@ -8,24 +17,120 @@ export interface Product {
   description_en?: string;
   description_my?: string;
   images?: string[];
-  price: number;
+  price: number; // the price in effect, including any sale
+  compareAtPrice?: number | null; // the regular price while on sale
+  saleEndsAt?: string | null;
+  priceBands?: PriceBand[]; // quantity pricing, product detail only
   disabled: boolean;
   outOfStock: boolean;
   allowSellWithoutStock: boolean;
-  metadata?: {
-    variety?: string;
-    weight?: string;
-    grade?: string;
-    harvestDate?: string;
-    origin?: string;
-    packageType?: string;
-    [key: string]: any;
-  };
+  attributes?: ProductAttributes;
+  metadata?: Record<string, any>; // other free-form details
   totalStock?: number;
+  variants?: ProductVariant[]; // bag sizes; when present one must be chosen to order
+  rating?: ProductRating; // from approved reviews
+  categories?: Array<Pick<Category, 'id' | 'slug' | 'name_en' | 'name_my'>>; // product detail only
   createdAt: string;
   updatedAt: string;
 }
 
+// Price per bag for a range of quantities, e.g. 5-19 bags
+export interface PriceBand {
+  minQuantity: number;
+  maxQuantity: number | null; // null for the last band, e.g. "20+ bags"
+  price: number;
+}
+
+export type PriceList = 'RETAIL' | 'WHOLESALE';
+
+// A cart line priced like the order will be
+export interface PriceQuoteLine {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  unitPrice: number;
+  listPrice: number; // the price per bag before the quantity tier
+  tier: { minQuantity: number; priceList: PriceList } | null;
+  priceBands: PriceBand[];
+  lineTotal: number;
+}
+
+export interface PriceQuote {
+  items: PriceQuoteLine[];
+  subtotal: number;
+  priceList: PriceList;
+}
+
+export interface ProductRating {
+  average: number | null; // null until the product has an approved review
+  count: number;
+}
+
+export interface RatingSummary extends ProductRating {
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>; // reviews per star
+}
+
+// An approved review as other customers see it
+export interface ProductReview {
+  id: string;
+  rating: number;
+  comment: string | null; // in the requested locale, or the other one
+  comment_en: string | null;
+  comment_my: string | null;
+  photos: string[];
+  customerName: string;
+  variantLabel: string | null;
+  createdAt: string;
+}
+
+export interface ProductReviewsResponse extends ApiResponse<{ summary: RatingSummary; reviews: ProductReview[] }> {
+  pagination: PaginatedResponse<ProductReview>['pagination'];
+}
+
+export type ReviewStatus = 'PENDING' | 'APPROVED' | 'HIDDEN';
+
+// The customer's own review, in any status, and whether they can write one
+export interface MyProductReview {
+  canReview: boolean;
+  review: {
+    id: string;
+    rating: number;
+    comment_en: string | null;
+    comment_my: string | null;
+    photos: string[];
+    status: ReviewStatus;
+    createdAt: string;
+  } | null;
+}
+
+// A bag size of a product with its own SKU, price and stock
+export interface ProductVariant {
+  id: string;
+  label: string; // e.g. "25 kg"
+  sku: string | null;
+  price: number;
+  compareAtPrice?: number | null;
+  saleEndsAt?: string | null;
+  priceBands?: PriceBand[]; // product detail only
+  weightKg: number | null;
+  stockOnHand: number; // 1 or 0 in product lists, which only say whether it is in stock
+  sortOrder: number;
+}
+
+// Storefront category with its subcategories
+export interface Category {
+  id: string;
+  parentId: string | null;
+  slug: string;
+  name: string; // in the requested locale
+  name_en: string;
+  name_my: string | null;
+  image: string | null;
+  sortOrder: number;
+  productCount: number; // includes the products of subcategories
+  children?: Category[];
+}
+
 export interface User {
   id: string;
   email: string;
@@ -57,9 +162,10 @@ export interface OrderItem {
   id: string;
   orderId: string;
   productId: string;
+  variantId?: string | null;
   unitPrice: number;
   quantity: number;
-  metadata?: any;
+  metadata?: any; // includes variantLabel for sized products
   product?: Product;
 }
 
@@ -81,6 +187,22 @@ export interface CompanyPaymentAccount {
   updatedAt: string;
 }
 
+export interface PaymentQrCode {
+  companyAccountId: string;
+  name: string;
+  type: CompanyPaymentAccountType;
+  accountName: string;
+  accountNo: string;
+  payload: string;
+  image: string; // data URL
+}
+
+export interface PaymentQrCodes {
+  amount: number;
+  reference: string | null; // null at checkout, before the order is placed
+  codes: PaymentQrCode[];
+}
+
 export type OrderStatus = 
   | 'PENDING'
   | 'PROCESSING'
@@ -91,7 +213,7 @@ export type OrderStatus =
   | 'RETURNED'
   | 'REFUNDED';
 
-export type PaymentType = 'COD' | 'ONLINE_TRANSFER';
+export type PaymentType = 'COD' | 'ONLINE_TRANSFER' | 'MOCK';
 
 export type PaymentMethodType = 'AYA_BANK' | 'KBZ_BANK' | 'AYA_PAY' | 'KBZ_PAY';
 
@@ -113,6 +235,43 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export type ProductFacetAttribute = 'variety' | 'grade' | 'weightKg' | 'origin' | 'packageType';
+
+export interface ProductFacetValue {
+  value: string | number;
+  count: number;
+}
+
+// Product counts per attribute value for the current filters
+export interface ProductListResponse extends PaginatedResponse<Product> {
+  facets: Record<ProductFacetAttribute, ProductFacetValue[]>;
+}
+
+// A run of text that does or does not match the search
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface ProductSearchResult extends Product {
+  score: number;
+  highlights: {
+    name: HighlightSegment[];
+  };
+}
+
+// Autocomplete entry; value is a product id, category slug or variety name
+export interface SearchSuggestion {
+  type: 'product' | 'category' | 'variety';
+  value: string;
+  text: string;
+  highlight: HighlightSegment[];
+}
+
+export interface ProductSearchResponse extends PaginatedResponse<ProductSearchResult> {
+  suggestions: SearchSuggestion[];
+}
+
 export interface ApiError {
   message: string;
   code?: string;
@@ -136,7 +295,11 @@ export interface RegisterForm {
 
 export interface ProductFilters {
   search?: string;
+  category?: string; // category slug
   variety?: string;
+  grade?: string;
+  weightKg?: string;
+  origin?: string;
   priceMin?: number;
   priceMax?: number;
   inStock?: boolean;